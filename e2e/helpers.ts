@@ -0,0 +1,29 @@
+import { expect, type APIRequestContext, type Page } from '@playwright/test'
+import type { LocalQuery, LocalResult, LocalRow } from '../src/lib/localDb'
+
+/** Back to the freshly migrated data (admin / admin123, default settings and destinations) */
+export async function resetLocalDatabase(request: APIRequestContext): Promise<void> {
+  const res = await request.delete('/api/local-db')
+  expect(res.ok(), '請以 NEXT_PUBLIC_DATA_BACKEND=local 啟動伺服器').toBe(true)
+}
+
+/** Run one query against the dev server's database, e.g. to seed rows or check what the UI saved */
+export async function localDb(request: APIRequestContext, query: Partial<LocalQuery> & Pick<LocalQuery, 'table'>): Promise<LocalResult> {
+  const res = await request.post('/api/local-db', {
+    data: { op: 'select', columns: '*', returning: true, filters: [], orders: [], mode: 'many', ...query },
+  })
+  return res.json()
+}
+
+export async function insertRows(request: APIRequestContext, table: string, values: LocalRow[]): Promise<LocalRow[]> {
+  const { data, error } = await localDb(request, { table, op: 'insert', values })
+  expect(error).toBeNull()
+  return data
+}
+
+export async function login(page: Page, username = 'admin', password = 'admin123'): Promise<void> {
+  await page.goto('/login')
+  await page.getByLabel('使用者名稱').fill(username)
+  await page.getByLabel('密碼').fill(password)
+  await page.getByRole('button', { name: '登入', exact: true }).click()
+}
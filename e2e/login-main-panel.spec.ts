@@ -0,0 +1,68 @@
+import { expect, test } from '@playwright/test'
+import { insertRows, localDb, login, resetLocalDatabase } from './helpers'
+
+test.beforeEach(async ({ request }) => {
+  await resetLocalDatabase(request)
+})
+
+test.describe('login', () => {
+  test('sends signed-out visitors to the login page', async ({ page }) => {
+    await page.goto('/main')
+    await expect(page).toHaveURL(/\/login$/)
+  })
+
+  test('rejects a wrong password', async ({ page }) => {
+    await login(page, 'admin', 'wrong-password')
+    await expect(page.getByText('使用者名稱或密碼錯誤')).toBeVisible()
+    await expect(page).toHaveURL(/\/login$/)
+  })
+
+  test('signs in the seeded admin and hashes the legacy password', async ({ page, request }) => {
+    await login(page)
+    await expect(page).toHaveURL(/\/main$/)
+
+    const { data } = await localDb(request, { table: 'users', columns: 'password', filters: [{ column: 'username', op: 'eq', value: 'admin' }] })
+    expect(data[0].password).toMatch(/^pbkdf2\$/)
+  })
+})
+
+test.describe('main → panel', () => {
+  test.beforeEach(async ({ request }) => {
+    await localDb(request, {
+      table: 'site_settings',
+      op: 'update',
+      values: [{ trip_start_date: '2026-05-16', total_days: 3 }],
+      filters: [{ column: 'id', op: 'eq', value: 1 }],
+    })
+    const [trip] = await insertRows(request, 'trips', [
+      { title: '淺草寺', date: '2026-05-16', location: '淺草', lat: 35.7148, lng: 139.7967, description: '' },
+    ])
+    await insertRows(request, 'trip_schedule_items', [{ trip_id: trip.id, sort_order: 0, time_start: '09:00', content: '雷門集合' }])
+  })
+
+  test('shows the day\'s trips on main', async ({ page }) => {
+    await login(page)
+    await expect(page).toHaveURL(/\/main$/)
+    await expect(page.getByText('Day 1').first()).toBeVisible()
+    await expect(page.getByText('淺草寺').first()).toBeVisible()
+  })
+
+  test('lists the trips in the admin panel', async ({ page }) => {
+    await login(page)
+    await expect(page).toHaveURL(/\/main$/)
+
+    await page.goto('/panel')
+    await expect(page.getByText('管理行程 (1)')).toBeVisible()
+    await expect(page.getByText('淺草寺').first()).toBeVisible()
+  })
+
+  test('hides the trip editor from viewers', async ({ page, request }) => {
+    await insertRows(request, 'users', [{ username: 'viewer', password: 'viewer-pass', role: 'viewer', display_name: '旅伴' }])
+    await login(page, 'viewer', 'viewer-pass')
+    await expect(page).toHaveURL(/\/main$/)
+
+    await page.goto('/panel')
+    await expect(page.getByRole('heading', { name: '管理面板' })).toBeVisible()
+    await expect(page.getByText('管理行程 (1)')).toBeHidden()
+  })
+})
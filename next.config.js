@@ -9,6 +9,10 @@ const nextConfig = {
   },
   // For Vercel deployment
   output: 'standalone',
+  // src/instrumentation.ts wires up the local data backend (NEXT_PUBLIC_DATA_BACKEND=local)
+  experimental: {
+    instrumentationHook: true,
+  },
   // Cache control headers - auto clear cache every 30 minutes for pages
   async headers() {
     return [
@@ -0,0 +1,32 @@
+import { defineConfig, devices } from '@playwright/test'
+
+// Browser end-to-end tests against `next dev` on the local data backend: no Supabase project
+// needed, every test starts from the data in supabase/migrations (see e2e/helpers.ts).
+const PORT = Number(process.env.E2E_PORT || 3100)
+
+export default defineConfig({
+  testDir: './e2e',
+  // One in-memory database behind one dev server
+  workers: 1,
+  fullyParallel: false,
+  retries: process.env.CI ? 1 : 0,
+  timeout: 60_000,
+  use: {
+    baseURL: `http://localhost:${PORT}`,
+    locale: 'zh-TW',
+    timezoneId: 'Asia/Tokyo',
+    trace: 'retain-on-failure',
+  },
+  projects: [{ name: 'chromium', use: { ...devices['Desktop Chrome'] } }],
+  webServer: {
+    command: `npx next dev -p ${PORT}`,
+    url: `http://localhost:${PORT}/login`,
+    timeout: 180_000,
+    reuseExistingServer: !process.env.CI,
+    env: {
+      NEXT_PUBLIC_DATA_BACKEND: 'local',
+      NEXT_PUBLIC_IMAGE_STORAGE: 'local',
+      AUTH_SESSION_SECRET: 'e2e-session-secret',
+    },
+  },
+})
@@ -0,0 +1,113 @@
+// Service worker: keeps the app usable on flaky pocket WiFi.
+// - Pages: network first, last good copy when offline
+// - /_next/static + /images: cache first (hashed / immutable)
+// - Google Maps tiles already viewed: cache first, capped
+// - Uploaded images (Supabase Storage bucket / local /uploads): cache first, capped
+// Supabase data is not cached here — supabase.ts keeps IndexedDB snapshots + an outbox.
+
+const VERSION = 'v1'
+const PAGE_CACHE = `pages-${VERSION}`
+const STATIC_CACHE = `static-${VERSION}`
+const TILE_CACHE = `map-tiles-${VERSION}`
+const UPLOAD_CACHE = `uploads-${VERSION}`
+const MAX_TILES = 600
+const MAX_UPLOADS = 300
+const SHELL_URLS = ['/login', '/manifest.webmanifest']
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches
+      .open(PAGE_CACHE)
+      .then((cache) => cache.addAll(SHELL_URLS))
+      .catch(() => undefined)
+      .then(() => self.skipWaiting())
+  )
+})
+
+self.addEventListener('activate', (event) => {
+  const keep = [PAGE_CACHE, STATIC_CACHE, TILE_CACHE, UPLOAD_CACHE]
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) => Promise.all(keys.filter((key) => !keep.includes(key)).map((key) => caches.delete(key))))
+      .then(() => self.clients.claim())
+  )
+})
+
+function isMapTile(url) {
+  return (
+    (url.hostname === 'maps.googleapis.com' && url.pathname.startsWith('/maps/vt')) ||
+    /^khms\d*\.googleapis\.com$/.test(url.hostname) ||
+    (url.hostname === 'maps.gstatic.com' && url.pathname.startsWith('/mapfiles/'))
+  )
+}
+
+// Uploaded files never change (new upload = new name)
+function isUploadedImage(url) {
+  return (
+    (url.hostname.endsWith('.supabase.co') && url.pathname.startsWith('/storage/v1/object/public/images/')) ||
+    (url.origin === self.location.origin && url.pathname.startsWith('/uploads/'))
+  )
+}
+
+async function trimCache(cacheName, maxEntries) {
+  const cache = await caches.open(cacheName)
+  const keys = await cache.keys()
+  for (let i = 0; i < keys.length - maxEntries; i++) {
+    await cache.delete(keys[i])
+  }
+}
+
+async function cacheFirst(request, cacheName, maxEntries) {
+  const cache = await caches.open(cacheName)
+  const cached = await cache.match(request)
+  if (cached) return cached
+  const response = await fetch(request)
+  // Opaque (no-cors) tile responses have status 0 but are still usable
+  if (response.ok || response.type === 'opaque') {
+    await cache.put(request, response.clone())
+    if (maxEntries) trimCache(cacheName, maxEntries)
+  }
+  return response
+}
+
+async function networkFirstPage(request) {
+  const cache = await caches.open(PAGE_CACHE)
+  try {
+    const response = await fetch(request)
+    // Redirects (e.g. to /login when signed out) must not replace the cached page
+    if (response.ok && !response.redirected) await cache.put(request, response.clone())
+    return response
+  } catch (err) {
+    const cached = (await cache.match(request, { ignoreSearch: true })) || (await cache.match('/login'))
+    if (cached) return cached
+    throw err
+  }
+}
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event
+  if (request.method !== 'GET') return
+  const url = new URL(request.url)
+
+  if (isMapTile(url)) {
+    event.respondWith(cacheFirst(request, TILE_CACHE, MAX_TILES))
+    return
+  }
+
+  if (isUploadedImage(url)) {
+    event.respondWith(cacheFirst(request, UPLOAD_CACHE, MAX_UPLOADS))
+    return
+  }
+
+  if (url.origin !== self.location.origin || url.pathname.startsWith('/api/')) return
+
+  if (request.mode === 'navigate') {
+    event.respondWith(networkFirstPage(request))
+    return
+  }
+
+  if (url.pathname.startsWith('/_next/static/') || url.pathname.startsWith('/images/')) {
+    event.respondWith(cacheFirst(request, STATIC_CACHE))
+  }
+})
@@ -0,0 +1,166 @@
+/**
+ * 一次性遷移：把資料表內的 base64 圖片（data URL）搬到圖片儲存空間，欄位只留網址。
+ * Covers trip images / schedules / notes, wishlist images, day schedules and home image in
+ * site_settings + trip_plans, and avatars (users, expense + wishlist snapshots, checklist ticks).
+ *
+ * 執行（先跑 supabase/migrations/add_image_storage.sql）：
+ *   npm run migrate-images              # Supabase Storage
+ *   npm run migrate-images -- --local   # public/uploads（本機開發）
+ *   npm run migrate-images -- --dry-run # 只列出數量，不寫入
+ *
+ * Reads NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY (or NEXT_PUBLIC_SUPABASE_ANON_KEY)
+ * from the environment or .env.local. The stored URL format and thumbnail names mirror
+ * src/lib/storedImage.ts.
+ */
+import fs from 'fs'
+import path from 'path'
+import crypto from 'crypto'
+import { fileURLToPath } from 'url'
+import sharp from 'sharp'
+import { encode } from 'blurhash'
+import { createClient } from '@supabase/supabase-js'
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url))
+const rootDir = path.join(__dirname, '..')
+
+const BUCKET = 'images'
+const THUMBNAIL_WIDTHS = [320, 640, 1280]
+const MAX_WIDTH = 1920
+const DATA_IMAGE_URL = /data:image\/[a-z0-9.+-]+;base64,[A-Za-z0-9+/=]+/gi
+
+// table → key column + columns that may hold data URLs (text or jsonb)
+const TARGETS = [
+  { table: 'trips', key: 'id', folder: 'trips', columns: ['image_url', 'description', 'trip_notes_rich'] },
+  { table: 'wishlist_items', key: 'id', folder: 'wishlist', columns: ['image_url', 'note', 'added_by'] },
+  { table: 'site_settings', key: 'id', folder: 'settings', columns: ['home_location', 'day_schedules'] },
+  { table: 'trip_plans', key: 'id', folder: 'settings', columns: ['home_location', 'day_schedules'] },
+  { table: 'users', key: 'username', folder: 'avatars', columns: ['avatar_url'] },
+  { table: 'expenses', key: 'id', folder: 'avatars', columns: ['avatar_url'] },
+  { table: 'checklist_states', key: 'id', folder: 'avatars', columns: ['checked_by'] },
+]
+
+const args = new Set(process.argv.slice(2))
+const dryRun = args.has('--dry-run')
+const useLocal = args.has('--local') || process.env.NEXT_PUBLIC_IMAGE_STORAGE === 'local'
+
+function loadEnvLocal() {
+  const file = path.join(rootDir, '.env.local')
+  if (!fs.existsSync(file)) return
+  for (const line of fs.readFileSync(file, 'utf8').split('\n')) {
+    const match = line.match(/^\s*([A-Z0-9_]+)\s*=\s*(.*)\s*$/)
+    if (match && process.env[match[1]] === undefined) process.env[match[1]] = match[2].replace(/^['"]|['"]$/g, '')
+  }
+}
+
+loadEnvLocal()
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
+const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY
+if (!supabaseUrl || !supabaseKey) {
+  console.error('缺少 NEXT_PUBLIC_SUPABASE_URL / SUPABASE_SERVICE_ROLE_KEY（或 NEXT_PUBLIC_SUPABASE_ANON_KEY）')
+  process.exit(1)
+}
+const supabase = createClient(supabaseUrl, supabaseKey)
+
+const EXTENSIONS = { 'image/jpeg': 'jpg', 'image/png': 'png', 'image/webp': 'webp', 'image/gif': 'gif' }
+
+async function putFile(filePath, buffer, contentType) {
+  if (useLocal) {
+    const target = path.join(rootDir, 'public', 'uploads', filePath)
+    await fs.promises.mkdir(path.dirname(target), { recursive: true })
+    await fs.promises.writeFile(target, buffer)
+    return `/uploads/${filePath}`
+  }
+  const { error } = await supabase.storage.from(BUCKET).upload(filePath, buffer, { contentType, cacheControl: '31536000' })
+  if (error) throw new Error(error.message)
+  return supabase.storage.from(BUCKET).getPublicUrl(filePath).data.publicUrl
+}
+
+function thumbnailPath(filePath, width) {
+  const dot = filePath.lastIndexOf('.')
+  return `${filePath.slice(0, dot)}_w${width}${filePath.slice(dot)}`
+}
+
+async function blurhashOf(buffer) {
+  const { data, info } = await sharp(buffer).resize(32, 32, { fit: 'fill' }).ensureAlpha().raw().toBuffer({ resolveWithObject: true })
+  return encode(new Uint8ClampedArray(data), info.width, info.height, 4, 3)
+}
+
+// Same data URL (an avatar copied into many rows) is uploaded once
+const uploaded = new Map()
+
+async function uploadDataUrl(dataUrl, folder) {
+  if (uploaded.has(dataUrl)) return uploaded.get(dataUrl)
+  const [, mime, base64] = dataUrl.match(/^data:(image\/[a-z0-9.+-]+);base64,(.*)$/i)
+  const input = Buffer.from(base64, 'base64')
+  const type = EXTENSIONS[mime.toLowerCase()] ? mime.toLowerCase() : 'image/jpeg'
+  const ext = EXTENSIONS[type]
+
+  // GIFs are kept as they are (animation); everything else is capped at MAX_WIDTH
+  let original = input
+  if (type !== 'image/gif') {
+    const meta = await sharp(input).metadata()
+    if (meta.width && meta.width > MAX_WIDTH) {
+      original = await sharp(input).rotate().resize({ width: MAX_WIDTH }).toFormat(ext === 'jpg' ? 'jpeg' : ext).toBuffer()
+    }
+  }
+  const { width, height } = await sharp(original).metadata()
+
+  const filePath = `${folder}/${crypto.randomUUID()}.${ext}`
+  const publicUrl = await putFile(filePath, original, type)
+  const thumbFormat = type === 'image/png' || type === 'image/webp' ? ext : 'jpeg'
+  for (const thumbWidth of THUMBNAIL_WIDTHS) {
+    if (thumbWidth >= width) break
+    const thumb = await sharp(original).resize({ width: thumbWidth }).toFormat(thumbFormat, { quality: 80 }).toBuffer()
+    await putFile(thumbnailPath(filePath, thumbWidth), thumb, thumbFormat === 'jpeg' ? 'image/jpeg' : type)
+  }
+
+  const params = new URLSearchParams({ w: String(width), h: String(height), t: '1' })
+  params.set('bh', await blurhashOf(original))
+  const url = `${publicUrl}#${params.toString()}`
+  uploaded.set(dataUrl, url)
+  return url
+}
+
+async function migrateValue(value, folder) {
+  if (value == null) return { value, count: 0 }
+  const isText = typeof value === 'string'
+  let text = isText ? value : JSON.stringify(value)
+  const found = [...new Set(text.match(DATA_IMAGE_URL) || [])]
+  if (found.length === 0 || dryRun) return { value, count: found.length }
+  for (const dataUrl of found) {
+    text = text.split(dataUrl).join(await uploadDataUrl(dataUrl, folder))
+  }
+  return { value: isText ? text : JSON.parse(text), count: found.length }
+}
+
+async function migrateTable({ table, key, folder, columns }) {
+  const { data: rows, error } = await supabase.from(table).select([key, ...columns].join(','))
+  if (error) {
+    console.log(`略過 ${table}：${error.message}`)
+    return 0
+  }
+  let total = 0
+  for (const row of rows) {
+    const patch = {}
+    for (const column of columns) {
+      const { value, count } = await migrateValue(row[column], folder)
+      if (count === 0) continue
+      total += count
+      if (!dryRun) patch[column] = value
+    }
+    if (Object.keys(patch).length === 0) continue
+    // updated_at is left alone so open editors don't see a conflict
+    const { error: updateError } = await supabase.from(table).update(patch).eq(key, row[key])
+    if (updateError) console.error(`更新 ${table} ${row[key]} 失敗：${updateError.message}`)
+    else console.log(`${table} ${row[key]}: ${Object.keys(patch).join(', ')}`)
+  }
+  return total
+}
+
+let grandTotal = 0
+for (const target of TARGETS) {
+  const count = await migrateTable(target)
+  grandTotal += count
+  console.log(`${target.table}: ${count} 張 base64 圖片${dryRun ? '（dry run）' : ''}`)
+}
+console.log(`完成，共 ${grandTotal} 張，上傳 ${uploaded.size} 個檔案（${useLocal ? 'public/uploads' : `Supabase Storage「${BUCKET}」`}）`)
@@ -0,0 +1,86 @@
+import { NextResponse } from 'next/server'
+import type { NextRequest } from 'next/server'
+import { getSupabaseUserCredentials, updateSupabaseUserPassword } from '@/lib/supabase'
+import { hashPassword, verifyPassword } from '@/lib/password'
+import { normalizeRole } from '@/lib/permissions'
+import {
+  SESSION_COOKIE_NAME,
+  SESSION_MAX_AGE_SECONDS,
+  SUPABASE_TOKEN_COOKIE_NAME,
+  USER_INFO_COOKIE_NAME,
+  getSessionSecret,
+  getSupabaseJwtSecret,
+  signSessionToken,
+  signSupabaseAccessToken,
+} from '@/lib/session'
+
+export const dynamic = 'force-dynamic'
+
+// POST /api/auth/login  { username, password }
+// Username comparison is case-insensitive, password is case-sensitive
+export async function POST(request: NextRequest) {
+  let body: { username?: unknown; password?: unknown }
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: '請求格式錯誤' }, { status: 400 })
+  }
+
+  const username = typeof body.username === 'string' ? body.username.trim() : ''
+  const password = typeof body.password === 'string' ? body.password : ''
+  if (!username || !password) {
+    return NextResponse.json({ error: '請輸入帳號及密碼' }, { status: 400 })
+  }
+
+  const secret = getSessionSecret()
+  if (!secret) {
+    console.error('AUTH_SESSION_SECRET is not set; refusing to issue sessions')
+    return NextResponse.json({ error: '伺服器未設定登入密鑰' }, { status: 500 })
+  }
+
+  const user = await getSupabaseUserCredentials(username)
+  const { valid, needsRehash } = await verifyPassword(password, user?.password)
+
+  if (!user || !valid) {
+    return NextResponse.json({ error: 'invalid_credentials' }, { status: 401 })
+  }
+
+  // Migrate legacy plaintext rows to a salted hash on first successful login
+  if (needsRehash) {
+    const result = await updateSupabaseUserPassword(user.username, await hashPassword(password))
+    if (!result.success) {
+      console.error('Failed to migrate password hash for', user.username, result.error)
+    }
+  }
+
+  const role = normalizeRole(user.role)
+  const token = await signSessionToken({ username: user.username, role }, secret)
+  const displayName = user.display_name || user.username
+  // Data-URL avatars can exceed the 4KB cookie limit; clients fall back to the users list
+  const avatarUrl = user.avatar_url && !user.avatar_url.startsWith('data:') ? user.avatar_url : ''
+
+  const response = NextResponse.json({
+    user: { username: user.username, role, displayName, avatarUrl },
+  })
+
+  const cookieOpts = {
+    path: '/',
+    maxAge: SESSION_MAX_AGE_SECONDS,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'strict' as const,
+  }
+  response.cookies.set(SESSION_COOKIE_NAME, token, { ...cookieOpts, httpOnly: true })
+  // Non-sensitive display info for client components (not trusted for access control)
+  response.cookies.set(
+    USER_INFO_COOKIE_NAME,
+    JSON.stringify({ username: user.username, role, displayName, avatarUrl }),
+    cookieOpts
+  )
+  // Signed, so readable by the browser's Supabase client but not editable (see add_role_policies.sql)
+  const jwtSecret = getSupabaseJwtSecret()
+  if (jwtSecret) {
+    response.cookies.set(SUPABASE_TOKEN_COOKIE_NAME, await signSupabaseAccessToken({ username: user.username, role }, jwtSecret), cookieOpts)
+  }
+
+  return response
+}
@@ -0,0 +1,19 @@
+import { NextResponse } from 'next/server'
+import { SESSION_COOKIE_NAME, SUPABASE_TOKEN_COOKIE_NAME, USER_INFO_COOKIE_NAME } from '@/lib/session'
+
+export const dynamic = 'force-dynamic'
+
+// POST /api/auth/logout — the session cookie is httpOnly, so only the server can clear it
+export async function POST() {
+  const response = NextResponse.json({ success: true })
+  const cookieOpts = {
+    path: '/',
+    maxAge: 0,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'strict' as const,
+  }
+  response.cookies.set(SESSION_COOKIE_NAME, '', { ...cookieOpts, httpOnly: true })
+  response.cookies.set(USER_INFO_COOKIE_NAME, '', cookieOpts)
+  response.cookies.set(SUPABASE_TOKEN_COOKIE_NAME, '', cookieOpts)
+  return response
+}
@@ -0,0 +1,86 @@
+import { NextResponse } from 'next/server'
+import type { NextRequest } from 'next/server'
+import type { LocalQuery, LocalResult, LocalRow } from '@/lib/localDb'
+import { executeLocalQuery, resetLocalDatabase } from '@/lib/localDbServer'
+import { isLocalDataBackend } from '@/lib/localSupabaseClient'
+import { TABLE_WRITE_CAPABILITIES, can, canWriteExpense, normalizeRole } from '@/lib/permissions'
+import { SESSION_COOKIE_NAME, getSessionSecret, verifySessionToken, type SessionPayload } from '@/lib/session'
+
+export const dynamic = 'force-dynamic'
+
+// Local data backend for dev / end-to-end tests (NEXT_PUBLIC_DATA_BACKEND=local): the browser's
+// supabase client sends each query here instead of to a Supabase project.
+function guard(): NextResponse | null {
+  if (!isLocalDataBackend()) {
+    return NextResponse.json({ error: '未啟用本機資料後端' }, { status: 404 })
+  }
+  return null
+}
+
+/** Rows the filters of an update / delete match, as they are before the write */
+async function matchingRows(query: LocalQuery): Promise<LocalRow[]> {
+  const { data } = await executeLocalQuery({ ...query, op: 'select', columns: '*', values: undefined, returning: false, mode: 'many' })
+  return Array.isArray(data) ? data : []
+}
+
+/** Why the session may not make this write, or null; mirrors add_role_policies.sql. Reads stay public. */
+async function writeDenied(query: LocalQuery, session: SessionPayload | null): Promise<string | null> {
+  if (query.op === 'select') return null
+  if (!session) return '請先登入'
+  const denied = '沒有權限執行此操作'
+  if (query.table === 'expenses') {
+    // The rows as they are (update / delete) and as they will be (insert / update)
+    const existing = query.op === 'update' || query.op === 'delete' ? await matchingRows(query) : []
+    const written = query.op === 'delete' ? [] : query.op === 'update' ? existing.map(row => ({ ...row, ...query.values?.[0] })) : query.values ?? []
+    return [...existing, ...written].every(row => canWriteExpense(session, row)) ? null : denied
+  }
+  if (query.table === 'users' && query.op === 'update' && !can(session, 'users.manage')) {
+    // Own profile only, keeping the username and role
+    const values = query.values?.[0] ?? {}
+    const own = (await matchingRows(query)).every(
+      row =>
+        row.username === session.username &&
+        (values.username ?? row.username) === row.username &&
+        normalizeRole((values.role ?? row.role) as string) === normalizeRole(row.role as string)
+    )
+    return own ? null : denied
+  }
+  const capability = TABLE_WRITE_CAPABILITIES[query.table]
+  return capability && can(session, capability) ? null : denied
+}
+
+/** users.password never leaves the server, nor can it be probed with filters; mirrors add_role_policies.sql */
+function readsPassword(query: LocalQuery): boolean {
+  return query.table === 'users' && [...query.filters, ...query.orders].some(clause => clause.column === 'password')
+}
+
+function withoutPasswords(result: LocalResult, table: string): LocalResult {
+  if (table !== 'users' || !result.data) return result
+  const strip = ({ password: _password, ...row }: LocalRow) => row
+  return { ...result, data: Array.isArray(result.data) ? result.data.map(strip) : strip(result.data) }
+}
+
+// POST /api/local-db  LocalQuery → { data, error }
+export async function POST(request: NextRequest) {
+  const denied = guard()
+  if (denied) return denied
+
+  const query = (await request.json().catch(() => null)) as LocalQuery | null
+  if (!query || typeof query.table !== 'string' || !Array.isArray(query.filters) || !Array.isArray(query.orders)) {
+    return NextResponse.json({ error: '請求格式錯誤' }, { status: 400 })
+  }
+  // Role checks on the server too: the client-side ones trust the editable user_info cookie
+  const session = await verifySessionToken(request.cookies.get(SESSION_COOKIE_NAME)?.value, getSessionSecret())
+  const refused = readsPassword(query) ? '沒有權限執行此操作' : await writeDenied(query, session)
+  if (refused) return NextResponse.json({ data: null, error: { message: refused, code: '42501' } })
+  return NextResponse.json(withoutPasswords(await executeLocalQuery(query), query.table))
+}
+
+// DELETE /api/local-db — back to the freshly migrated data
+export async function DELETE() {
+  const denied = guard()
+  if (denied) return denied
+
+  resetLocalDatabase()
+  return NextResponse.json({ success: true })
+}
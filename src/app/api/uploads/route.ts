@@ -0,0 +1,104 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+import { NextResponse } from 'next/server'
+import type { NextRequest } from 'next/server'
+import { IMAGE_FOLDER_CAPABILITIES, can } from '@/lib/permissions'
+import { SESSION_COOKIE_NAME, getSessionSecret, verifySessionToken, type SessionPayload } from '@/lib/session'
+import { RECEIPT_REF_PREFIX } from '@/lib/storedImage'
+import { isSharedExpenseReceipt } from '@/lib/supabase'
+
+export const dynamic = 'force-dynamic'
+
+// Local filesystem image storage for dev (NEXT_PUBLIC_IMAGE_STORAGE=local).
+// Files land in public/uploads and are served by Next as /uploads/...
+const UPLOAD_DIR = path.join(process.cwd(), 'public', 'uploads')
+// Receipt photos are private: kept outside public/ and served by GET below
+const RECEIPT_DIR = path.join(process.cwd(), '.local-receipts')
+const CONTENT_TYPES: Record<string, string> = { jpg: 'image/jpeg', png: 'image/png', webp: 'image/webp', gif: 'image/gif' }
+const MAX_BYTES = 8 * 1024 * 1024
+// folder/uuid.ext or folder/uuid_w320.ext — nothing that could escape UPLOAD_DIR
+const SAFE_PATH = /^[a-z0-9_-]+(\/[a-z0-9_-]+)*\.(jpg|png|webp|gif)$/i
+
+async function guard(request: NextRequest): Promise<NextResponse | SessionPayload> {
+  if (process.env.NEXT_PUBLIC_IMAGE_STORAGE !== 'local') {
+    return NextResponse.json({ error: '未啟用本機圖片儲存' }, { status: 404 })
+  }
+  const session = await verifySessionToken(request.cookies.get(SESSION_COOKIE_NAME)?.value, getSessionSecret())
+  if (!session) return NextResponse.json({ error: '請先登入' }, { status: 401 })
+  return session
+}
+
+/** Same rule as the storage policies: the role must be allowed to write the image's folder */
+function mayStore(session: SessionPayload, filePath: string): boolean {
+  const capability = IMAGE_FOLDER_CAPABILITIES[filePath.split('/')[0]]
+  return !!capability && can(session, capability)
+}
+
+/** Same rule as the receipts bucket's policies: receipts go in the uploader's own folder */
+function ownsReceipt(session: SessionPayload, filePath: string): boolean {
+  return filePath.split('/')[0] === session.username
+}
+
+// GET /api/uploads?receipt=<path>  the owner, or anyone signed in when a shared expense shows it
+export async function GET(request: NextRequest) {
+  const session = await guard(request)
+  if (session instanceof NextResponse) return session
+
+  const filePath = request.nextUrl.searchParams.get('receipt')
+  if (!filePath || !SAFE_PATH.test(filePath)) {
+    return NextResponse.json({ error: '請求格式錯誤' }, { status: 400 })
+  }
+  if (!ownsReceipt(session, filePath) && !(await isSharedExpenseReceipt(`${RECEIPT_REF_PREFIX}${filePath}`))) {
+    return NextResponse.json({ error: '沒有權限執行此操作' }, { status: 403 })
+  }
+  const file = await fs.readFile(path.join(RECEIPT_DIR, filePath)).catch(() => null)
+  if (!file) return NextResponse.json({ error: '找不到圖片' }, { status: 404 })
+  return new NextResponse(file, {
+    headers: { 'Content-Type': CONTENT_TYPES[filePath.split('.').pop()!.toLowerCase()], 'Cache-Control': 'private, max-age=3600' },
+  })
+}
+
+// POST /api/uploads  multipart { path, file, bucket? }  bucket 'receipts' = private receipt photo
+export async function POST(request: NextRequest) {
+  const session = await guard(request)
+  if (session instanceof NextResponse) return session
+
+  const form = await request.formData().catch(() => null)
+  const filePath = form?.get('path')
+  const file = form?.get('file')
+  const receipt = form?.get('bucket') === 'receipts'
+  if (typeof filePath !== 'string' || !SAFE_PATH.test(filePath) || !(file instanceof Blob)) {
+    return NextResponse.json({ error: '請求格式錯誤' }, { status: 400 })
+  }
+  const allowed = receipt ? ownsReceipt(session, filePath) && can(session, 'wallet.personal.write') : mayStore(session, filePath)
+  if (!allowed) {
+    return NextResponse.json({ error: '沒有權限執行此操作' }, { status: 403 })
+  }
+  if (file.size > MAX_BYTES) {
+    return NextResponse.json({ error: '圖片太大' }, { status: 413 })
+  }
+
+  const target = path.join(receipt ? RECEIPT_DIR : UPLOAD_DIR, filePath)
+  await fs.mkdir(path.dirname(target), { recursive: true })
+  await fs.writeFile(target, Buffer.from(await file.arrayBuffer()))
+  return NextResponse.json(receipt ? { success: true } : { url: `/uploads/${filePath}` })
+}
+
+// DELETE /api/uploads  { paths: string[] }
+export async function DELETE(request: NextRequest) {
+  const session = await guard(request)
+  if (session instanceof NextResponse) return session
+
+  let body: { paths?: unknown }
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: '請求格式錯誤' }, { status: 400 })
+  }
+  const paths = Array.isArray(body.paths) ? body.paths.filter((p): p is string => typeof p === 'string' && SAFE_PATH.test(p)) : []
+  if (!paths.every(p => mayStore(session, p))) {
+    return NextResponse.json({ error: '沒有權限執行此操作' }, { status: 403 })
+  }
+  await Promise.all(paths.map(p => fs.rm(path.join(UPLOAD_DIR, p), { force: true })))
+  return NextResponse.json({ success: true })
+}
@@ -2,6 +2,7 @@ import type { Metadata } from 'next'
 import './globals.css'
 import { LanguageProvider } from '@/lib/i18n'
 import { QueryProvider } from '@/lib/query-provider'
+import OfflineStatus from '@/components/OfflineStatus'
 
 export const metadata: Metadata = {
   title: '日本旅遊 | Japan Travel App',
@@ -20,6 +21,7 @@ export default function RootLayout({
           <LanguageProvider>
             {children}
           </LanguageProvider>
+          <OfflineStatus />
         </QueryProvider>
       </body>
     </html>
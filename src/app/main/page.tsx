@@ -6,11 +6,17 @@ import { motion, AnimatePresence } from 'framer-motion'
 import Link from 'next/link'
 import { useSearchParams } from 'next/navigation'
 import { createTrip, updateTrip, saveSupabaseChecklistState, subscribeToSettingsChanges, updateSupabaseWishlistItem, removeWishlistItemFromItinerary, type Trip } from '@/lib/supabase'
-import { useTrips, useCreateTrip, useUpdateTrip, useDeleteTrip, useChecklistStates, useWishlistItems, queryKeys } from '@/hooks/useQueries'
+import { useTrips, useCreateTrip, useUpdateTrip, useDeleteTrip, useChecklistStates, useWishlistItems, useRealtimeSync, useTripWeather, queryKeys } from '@/hooks/useQueries'
+import { useDayPresence } from '@/hooks/useDayPresence'
+import { TRIP_COSTS_SCOPE, useTripCosts } from '@/hooks/useTripCosts'
+import { formatMoney } from '@/lib/currency'
+import DayPresenceAvatars from '@/components/DayPresenceAvatars'
+import DayWeatherBadge from '@/components/DayWeatherBadge'
 import { type WishlistItemDB } from '@/lib/supabase'
 import { useQueryClient } from '@tanstack/react-query'
-import { getSettings, getSettingsAsync, refreshSettings, saveSettings, saveSettingsAsync, type SiteSettings } from '@/lib/settings'
-import { canEdit, getCurrentUser, isAdmin as checkIsAdmin, getUsers, getAuthToken, isAuthenticated, type User } from '@/lib/auth'
+import { getSettings, getSettingsAsync, refreshSettings, saveSettings, saveSettingsAsync, getDestinationMapCenter, getDestinationTimeZone, type SiteSettings } from '@/lib/settings'
+import { getCurrentUser, isAdmin as checkIsAdmin, getUsers, getLoggedInUsername, isAuthenticated, type User } from '@/lib/auth'
+import { can } from '@/lib/permissions'
 import SakuraCanvas from '@/components/SakuraCanvas'
 import ChiikawaPet from '@/components/ChiikawaPet'
 import DailyPopup from '@/components/DailyPopup'
@@ -25,9 +31,13 @@ import TripListingAddress from '@/components/TripListingAddress'
 import HomeStayLinks from '@/components/HomeStayLinks'
 import PlateRichEditor from '@/components/PlateRichEditor'
 import PlateRichView from '@/components/PlateRichView'
+import TripPlanSwitcher from '@/components/TripPlanSwitcher'
 import { geocodePlaceName } from '@/lib/geocode'
 import { formatTripDaySelectOption, formatTripDayAttachedSummary } from '@/lib/tripDayLabels'
+import { formatTripDate, getDateForDay, getTodayTripDay, isSameTripDate, todayInTimeZone } from '@/lib/tripCalendar'
+import { createEmptyScheduleItem, formatScheduleTimeRange, scheduleItemsToInput, tripLegacyDescription, tripScheduleItems, type ScheduleItem } from '@/lib/tripSchedule'
 import { EMPTY_PLATE_JSON, extractPlainTextFromPlateJson, isPlateJsonEffectivelyEmpty } from '@/lib/plateRich'
+import { expenseDraftForTrip, expenseDraftForWishlistItem, type ExpenseDraft } from '@/lib/expenseLinks'
 
 const GoogleMapComponent = dynamic(
   () => import('@/components/GoogleMap'),
@@ -57,14 +67,6 @@ const PlacePicker = dynamic(() => import('@/components/PlacePicker'), {
 const TOKYO_2026_TRIP_GOOGLE_MAP_URL =
   'https://maps.app.goo.gl/URqVhMsXZu6f16cFA?g_st=i'
 
-// Schedule item type for point-form list
-type ScheduleItem = {
-  id: string
-  time_start: string
-  time_end: string
-  content: string
-}
-
 // Form data type
 type TripFormData = {
   title: string
@@ -84,6 +86,12 @@ const initialFormData: TripFormData = {
   images: [],
 }
 
+// New trips start at the current destination's map center
+const newTripCoords = () => {
+  const { lat, lng } = getDestinationMapCenter()
+  return { lat, lng }
+}
+
 // Helper to parse images from image_url field (handles both old string and new JSON array)
 const parseImages = (imageUrl: string | undefined): string[] => {
   if (!imageUrl) return []
@@ -97,13 +105,6 @@ const parseImages = (imageUrl: string | undefined): string[] => {
   return []
 }
 
-const createEmptyScheduleItem = (): ScheduleItem => ({
-  id: Date.now().toString() + Math.random().toString(36).substr(2, 9),
-  time_start: '',
-  time_end: '',
-  content: '',
-})
-
 // Mode Toggle Click Hint - Mobile only, centered above button
 const ModeToggleHint = () => {
   const [show, setShow] = useState(true)
@@ -178,10 +179,15 @@ const PixelHeart = () => (
   </svg>
 )
 
-// Weather icons based on day (simple simulation - can be replaced with real API)
-const getWeatherIcon = (dayNum: number) => {
-  const icons = ['☀️', '⛅', '🌤️', '☁️', '🌧️', '⛈️', '🌈']
-  return icons[dayNum % icons.length]
+// Sort by time_start (trips without time go to the end, in creation order)
+const compareTripsByTime = (a: Trip, b: Trip) => {
+  if (!a.time_start && !b.time_start) {
+    // Fall back to creation order (oldest first)
+    return (a.created_at || '').localeCompare(b.created_at || '')
+  }
+  if (!a.time_start) return 1
+  if (!b.time_start) return -1
+  return a.time_start.localeCompare(b.time_start)
 }
 
 function MainPageContent() {
@@ -199,7 +205,9 @@ function MainPageContent() {
 function MainPageInner() {
   // TanStack Query hooks for data fetching
   const queryClient = useQueryClient()
-  const { data: trips = [], isLoading, error: tripsError } = useTrips({ refetchInterval: 30000 })
+  // Live updates from travel partners patch these caches (no polling)
+  useRealtimeSync()
+  const { data: trips = [], isLoading, error: tripsError } = useTrips()
   const { data: checklistData } = useChecklistStates()
   const { data: wishlistDbItems = [] } = useWishlistItems()
   const createTripMutation = useCreateTrip()
@@ -212,6 +220,7 @@ function MainPageInner() {
   const [selectedTripId, setSelectedTripId] = useState<number | null>(null)
   const searchParams = useSearchParams()
   const [selectedDay, setSelectedDay] = useState<number>(1)
+  const dayViewers = useDayPresence(selectedDay)
   const [visibleStartDay, setVisibleStartDay] = useState<number>(1)
   const { t } = useLanguage()
 
@@ -305,6 +314,8 @@ function MainPageInner() {
   const [mainClientMounted, setMainClientMounted] = useState(false)
   const [travelWalletBubbleOn, setTravelWalletBubbleOn] = useState(false)
   const [showTravelWallet, setShowTravelWallet] = useState(false)
+  // 「記一筆」 from a stop / wishlist place: the wallet opens straight into the expense form
+  const [walletDraft, setWalletDraft] = useState<ExpenseDraft | null>(null)
   useEffect(() => {
     setTravelWalletBubbleOn(isTravelWalletHomeBubbleEnabled())
     setMainClientMounted(true)
@@ -315,7 +326,7 @@ function MainPageInner() {
   
   // Disable background scrolling when any popup/modal is active
   useEffect(() => {
-    const anyPopupOpen = showTripForm || showMapPopup || showWishlistPopup || showInfoPopup || showSearch || showTripDetail || !!selectedWishlistItem || showHomeMapPopup || showTravelWallet
+    const anyPopupOpen = showTripForm || showMapPopup || showWishlistPopup || showInfoPopup || showSearch || showTripDetail || !!selectedWishlistItem || showHomeMapPopup || showTravelWallet || !!walletDraft
     if (anyPopupOpen) {
       document.body.style.overflow = 'hidden'
     } else {
@@ -324,10 +335,10 @@ function MainPageInner() {
     return () => {
       document.body.style.overflow = ''
     }
-  }, [showTripForm, showMapPopup, showWishlistPopup, showInfoPopup, showSearch, showTripDetail, selectedWishlistItem, showHomeMapPopup, showTravelWallet])
+  }, [showTripForm, showMapPopup, showWishlistPopup, showInfoPopup, showSearch, showTripDetail, selectedWishlistItem, showHomeMapPopup, showTravelWallet, walletDraft])
 
   useEffect(() => {
-    setIsAdmin(canEdit())
+    setIsAdmin(can(getCurrentUser(), 'trips.edit'))
     setIsActualAdmin(checkIsAdmin())
     setCurrentUser(getCurrentUser())
     // 摸摸 Chiikawa now lives in Supabase siteSettings (default: true)
@@ -343,16 +354,12 @@ function MainPageInner() {
       if (isAdm) {
         fallbackUser = users.find(u => u.role === 'admin')
       } else {
-        const token = getAuthToken()
-        if (token) {
-          const match = token.match(/^japan_travel_user_(.+)_2024$/)
-          if (match) {
-            const tokenUsername = match[1]
-            fallbackUser = users.find(u => u.username === tokenUsername)
-          }
+        const tokenUsername = getLoggedInUsername()
+        if (tokenUsername) {
+          fallbackUser = users.find(u => u.username === tokenUsername)
         }
         if (!fallbackUser) {
-          fallbackUser = users.find(u => u.role === 'user') || users[0]
+          fallbackUser = users.find(u => u.role === 'planner') || users[0]
         }
       }
       
@@ -452,15 +459,10 @@ function MainPageInner() {
       }
       setSettings(loadedSettings)
 
-      // Auto-select current day based on trip start date
-      if (loadedSettings.tripStartDate) {
-        const startDate = new Date(loadedSettings.tripStartDate)
-        const today = new Date()
-        const diffTime = today.getTime() - startDate.getTime()
-        const diffDays = Math.floor(diffTime / (1000 * 60 * 60 * 24)) + 1
-        if (diffDays >= 1 && diffDays <= loadedSettings.totalDays) {
-          setSelectedDay(diffDays)
-        }
+      // Auto-select current day (today at the destination) based on trip start date
+      const todayDay = getTodayTripDay(loadedSettings.tripStartDate, loadedSettings.totalDays, getDestinationTimeZone())
+      if (todayDay != null) {
+        setSelectedDay(todayDay)
       }
     }
 
@@ -500,44 +502,15 @@ function MainPageInner() {
     }
   }, [])
   
-  // Parse schedule items from description JSON
-  const parseScheduleItems = (description: string): ScheduleItem[] => {
-    try {
-      const parsed = JSON.parse(description)
-      if (Array.isArray(parsed) && parsed.length > 0) {
-        return parsed.map((item: any) => ({
-          id: item.id || Date.now().toString() + Math.random().toString(36).substr(2, 9),
-          time_start: item.time_start || '',
-          time_end: item.time_end || '',
-          content: item.content || '',
-        }))
-      }
-    } catch {
-      // If not JSON, treat as legacy plain text/HTML
-      if (description && description.trim()) {
-        return [{
-          id: Date.now().toString(),
-          time_start: '',
-          time_end: '',
-          content: description.replace(/<[^>]*>/g, ''), // Strip HTML tags
-        }]
-      }
-    }
-    return [createEmptyScheduleItem()]
-  }
-
   // Open form to add new trip
   const openAddForm = () => {
     // Set default date to selected day
     let defaultDate = ''
     if (settings?.tripStartDate) {
-      const startDate = new Date(settings.tripStartDate)
-      const targetDate = new Date(startDate)
-      targetDate.setDate(startDate.getDate() + selectedDay - 1)
-      defaultDate = targetDate.toISOString().split('T')[0]
+      defaultDate = getDateForDay(settings.tripStartDate, selectedDay)
     }
     
-    setFormData({ ...initialFormData, date: defaultDate })
+    setFormData({ ...initialFormData, ...newTripCoords(), date: defaultDate })
     setScheduleItems([createEmptyScheduleItem()])
     setTripNotesRich(EMPTY_PLATE_JSON)
     setEditingTrip(null)
@@ -558,7 +531,8 @@ function MainPageInner() {
       lng: t.lng,
       images: parseImages(t.image_url),
     })
-    setScheduleItems(parseScheduleItems(t.description))
+    const existingItems = tripScheduleItems(t)
+    setScheduleItems(existingItems.length > 0 ? existingItems : [createEmptyScheduleItem()])
     setTripNotesRich(
       t.trip_notes_rich?.trim()
         ? t.trip_notes_rich
@@ -626,21 +600,19 @@ function MainPageInner() {
     setFormMessage(null)
 
     try {
-      // Filter out empty schedule items and convert to JSON
-      const validScheduleItems = scheduleItems.filter(item => 
-        item.content.trim() || item.time_start || item.time_end
-      )
-      const descriptionJson = JSON.stringify(validScheduleItems)
+      // Empty lines are dropped; saved as trip_schedule_items rows
+      const validScheduleItems = scheduleItemsToInput(scheduleItems)
       
       // Get first schedule item's time for sorting purposes
       const firstItem = validScheduleItems[0]
       
+      // description is left alone on edit so legacy HTML notes survive
       const tripData = {
         title: formData.title,
         date: formData.date,
         time_start: firstItem?.time_start || undefined,
         time_end: firstItem?.time_end || undefined,
-        description: descriptionJson,
+        schedule_items: validScheduleItems,
         location: formData.location,
         lat: formData.lat,
         lng: formData.lng,
@@ -666,7 +638,7 @@ function MainPageInner() {
           setFormMessage({ type: 'error', text: result.error || '更新失敗' })
         }
       } else {
-        const result = await createTripMutation.mutateAsync(tripData)
+        const result = await createTripMutation.mutateAsync({ ...tripData, description: '' })
         if (result.data) {
           setFormMessage({ type: 'success', text: '行程已新增！' })
           // Use closeFormSimple to avoid reverting day settings
@@ -713,21 +685,17 @@ function MainPageInner() {
           ? `${selectedWishlistItem.name}（${notePlain}）`
           : selectedWishlistItem.name
         const scheduleItem = {
-          id: `add-${Date.now()}`,
-          content,
-          time_start: wishlistAddToTripTimeStart || undefined,
-          time_end: wishlistAddToTripTimeEnd || undefined,
+          ...createEmptyScheduleItem(content),
+          time_start: wishlistAddToTripTimeStart,
+          time_end: wishlistAddToTripTimeEnd,
         }
-        let dateStr = new Date().toISOString().split('T')[0]
+        let dateStr = todayInTimeZone(getDestinationTimeZone())
         if (settings?.tripStartDate && settings?.totalDays) {
-          const start = new Date(settings.tripStartDate)
-          const target = new Date(start)
-          target.setDate(start.getDate() + wishlistAddToTripDay - 1)
-          dateStr = target.toISOString().split('T')[0]
+          dateStr = getDateForDay(settings.tripStartDate, wishlistAddToTripDay)
         }
         const coords = await geocodePlaceName(selectedWishlistItem.name)
-        const lat = coords?.lat ?? 35.6762
-        const lng = coords?.lng ?? 139.6503
+        const lat = coords?.lat ?? getDestinationMapCenter().lat
+        const lng = coords?.lng ?? getDestinationMapCenter().lng
         const wishlistImages = parseImages(selectedWishlistItem.image_url || undefined)
         const imageUrlForTrip = wishlistImages.length > 0 ? JSON.stringify(wishlistImages) : undefined
         const tripData = {
@@ -735,7 +703,8 @@ function MainPageInner() {
           date: dateStr,
           time_start: wishlistAddToTripTimeStart || undefined,
           time_end: wishlistAddToTripTimeEnd || undefined,
-          description: JSON.stringify([scheduleItem]),
+          description: '',
+          schedule_items: scheduleItemsToInput([scheduleItem]),
           location: selectedWishlistItem.name,
           lat,
           lng,
@@ -826,13 +795,10 @@ function MainPageInner() {
     // Open trip form with the new day's date
     let defaultDate = ''
     if (settings.tripStartDate) {
-      const startDate = new Date(settings.tripStartDate)
-      const targetDate = new Date(startDate)
-      targetDate.setDate(startDate.getDate() + newTotalDays - 1)
-      defaultDate = targetDate.toISOString().split('T')[0]
+      defaultDate = getDateForDay(settings.tripStartDate, newTotalDays)
     }
     
-    setFormData({ ...initialFormData, date: defaultDate })
+    setFormData({ ...initialFormData, ...newTripCoords(), date: defaultDate })
     setScheduleItems([createEmptyScheduleItem()])
     setTripNotesRich(EMPTY_PLATE_JSON)
     setEditingTrip(null)
@@ -877,15 +843,9 @@ function MainPageInner() {
     
     const dayToRemove = settings.totalDays
     
-    // Check if there are trips on this day（與 filteredTrips 相同：以 ISO 日曆日比對）
-    const startRm = new Date(settings.tripStartDate)
-    const targetRm = new Date(startRm)
-    targetRm.setDate(startRm.getDate() + dayToRemove - 1)
-    const dayDateIso = targetRm.toISOString().split('T')[0]
-    const tripsOnDay = trips.filter(trip => {
-      const tripDate = new Date(trip.date).toISOString().split('T')[0]
-      return tripDate === dayDateIso
-    })
+    // Check if there are trips on this day（與 filteredTrips 相同：以日曆日比對）
+    const dayDate = getDateForDay(settings.tripStartDate, dayToRemove)
+    const tripsOnDay = trips.filter(trip => isSameTripDate(trip.date, dayDate))
     
     let confirmMessage = `確定要刪除 Day ${dayToRemove} 嗎？`
     if (tripsOnDay.length > 0) {
@@ -936,27 +896,12 @@ function MainPageInner() {
     if (!settings || fromDay === toDay) return
     
     // Get the dates for both days
-    const getDateForDay = (day: number): string => {
-      if (!settings.tripStartDate) return ''
-      const startDate = new Date(settings.tripStartDate)
-      const targetDate = new Date(startDate)
-      targetDate.setDate(startDate.getDate() + day - 1)
-      return targetDate.toISOString().split('T')[0]
-    }
-    
-    const fromDate = getDateForDay(fromDay)
-    const toDate = getDateForDay(toDay)
+    const fromDate = getDateForDay(settings.tripStartDate, fromDay)
+    const toDate = getDateForDay(settings.tripStartDate, toDay)
     
     // Get trips on both days
-    const tripsOnFromDay = trips.filter(trip => {
-      const tripDate = new Date(trip.date).toISOString().split('T')[0]
-      return tripDate === fromDate
-    })
-    
-    const tripsOnToDay = trips.filter(trip => {
-      const tripDate = new Date(trip.date).toISOString().split('T')[0]
-      return tripDate === toDate
-    })
+    const tripsOnFromDay = trips.filter(trip => isSameTripDate(trip.date, fromDate))
+    const tripsOnToDay = trips.filter(trip => isSameTripDate(trip.date, toDate))
     
     // Update trips from fromDay to toDay's date
     for (const trip of tripsOnFromDay) {
@@ -979,28 +924,35 @@ function MainPageInner() {
   const filteredTrips = useMemo(() => {
     if (!settings?.tripStartDate) return trips
     
-    const startDate = new Date(settings.tripStartDate)
-    const targetDate = new Date(startDate)
-    targetDate.setDate(startDate.getDate() + selectedDay - 1)
-    const targetDateStr = targetDate.toISOString().split('T')[0]
-    
-    const filtered = trips.filter(trip => {
-      const tripDate = new Date(trip.date).toISOString().split('T')[0]
-      return tripDate === targetDateStr
-    })
+    const targetDateStr = getDateForDay(settings.tripStartDate, selectedDay)
+    const filtered = trips.filter(trip => isSameTripDate(trip.date, targetDateStr))
     
-    // Sort by time_start (trips without time go to the end)
-    return filtered.sort((a, b) => {
-      if (!a.time_start && !b.time_start) {
-        // Fall back to creation order (oldest first)
-        return (a.created_at || '').localeCompare(b.created_at || '')
-      }
-      if (!a.time_start) return 1
-      if (!b.time_start) return -1
-      return a.time_start.localeCompare(b.time_start)
-    })
+    return filtered.sort(compareTripsByTime)
   }, [trips, settings?.tripStartDate, selectedDay])
 
+  // 每日天氣：當天第一站 + 住宿地點（沒有座標的行程略過）
+  const weatherDays = useMemo(() => {
+    if (!settings?.tripStartDate) return []
+    const home = settings.homeLocation
+    return Array.from({ length: settings.totalDays }, (_, i) => i + 1).map(day => {
+      const date = getDateForDay(settings.tripStartDate, day)
+      const firstStop = trips
+        .filter(trip => isSameTripDate(trip.date, date) && (trip.lat || trip.lng))
+        .sort(compareTripsByTime)[0]
+      const places = [
+        ...(firstStop ? [{ lat: firstStop.lat, lng: firstStop.lng, name: firstStop.title }] : []),
+        ...(home && (home.lat || home.lng) ? [{ lat: home.lat, lng: home.lng, name: home.name }] : []),
+      ]
+      return { day, date, places }
+    }).filter(d => d.date && d.places.length > 0)
+  }, [trips, settings?.tripStartDate, settings?.totalDays, settings?.homeLocation])
+  const { data: dayWeather } = useTripWeather(weatherDays, getDestinationTimeZone())
+  // 花費 per day and stop, for signed-in travellers (shared + their own personal expenses)
+  const { costs, homeCurrency } = useTripCosts(trips, settings?.tripStartDate || '', currentUser?.username ?? null, {
+    enabled: !!currentUser && !!settings?.tripStartDate,
+  })
+  const hasCosts = Object.values(costs.byDay).some(amount => amount > 0)
+
   // 行程單頁：列表 refetch 後同步 detailTrip（例如補上 trip_notes_rich）
   useEffect(() => {
     setDetailTrip((prev) => {
@@ -1009,21 +961,24 @@ function MainPageInner() {
       if (!fresh) return prev
       const notesSame = (fresh.trip_notes_rich ?? '') === (prev.trip_notes_rich ?? '')
       const descSame = fresh.description === prev.description
+      const scheduleSame = JSON.stringify(fresh.schedule_items ?? null) === JSON.stringify(prev.schedule_items ?? null)
       const titleSame = fresh.title === prev.title
-      if (notesSame && descSame && titleSame) return prev
+      if (notesSame && descSame && scheduleSame && titleSame) return prev
       return fresh
     })
   }, [trips])
 
   // Get date + weekday for a specific day（依行程開始日推算）
+  // Day that is "today" at the destination (highlighted in the day tabs)
+  const todayTripDay = settings?.tripStartDate
+    ? getTodayTripDay(settings.tripStartDate, settings.totalDays, getDestinationTimeZone())
+    : null
+
   const getDayDate = (dayNum: number) => {
     if (!settings?.tripStartDate) return ''
-    const startDate = new Date(settings.tripStartDate)
-    const targetDate = new Date(startDate)
-    targetDate.setDate(startDate.getDate() + dayNum - 1)
-    const md = targetDate.toLocaleDateString('zh-TW', { month: 'numeric', day: 'numeric' })
-    const wd = targetDate.toLocaleDateString('zh-TW', { weekday: 'short' })
-    return `${md} ${wd}`
+    const date = getDateForDay(settings.tripStartDate, dayNum)
+    if (!date) return ''
+    return `${formatTripDate(date, { month: 'numeric', day: 'numeric' })} ${formatTripDate(date, { weekday: 'short' })}`
   }
 
   // toggleSakuraMode is disabled on main page — sakura mode is admin-controlled via Supabase settings
@@ -1074,6 +1029,9 @@ function MainPageInner() {
                 <p className="text-xs text-gray-400">景點、餐廳、住宿、美食清單...</p>
               </div>
             </button>
+
+            {/* Trip plan switcher (hidden until trip_plans exist) */}
+            <TripPlanSwitcher compact />
             
             {/* Desktop: Admin Control Panel Button */}
             {isActualAdmin && (
@@ -1375,19 +1333,21 @@ function MainPageInner() {
                         <div
                           key={day}
                           onClick={() => setSelectedDay(day)}
-                          className={`flex-shrink-0 w-[100px] py-2 px-3 text-sm font-medium transition-all rounded-lg cursor-pointer text-center ${
+                          className={`relative flex-shrink-0 w-[100px] py-2 px-3 text-sm font-medium transition-all rounded-lg cursor-pointer text-center ${
                             selectedDay === day
                               ? 'bg-sakura-500 text-white shadow-md'
                               : 'bg-sakura-50 text-sakura-600 hover:bg-sakura-100'
                           }`}
                         >
-                          {/* Date + Weather Row */}
-                          <div className="flex items-center justify-center gap-1 mb-0.5">
-                            <span className="text-xs opacity-80 whitespace-nowrap">
-                              {getDayDate(day)}
-                            </span>
-                            <span className="text-sm">{getWeatherIcon(day)}</span>
+                          <DayPresenceAvatars viewers={dayViewers[day]} className="absolute top-1 left-1" />
+                          {day === todayTripDay && (
+                            <span className={`absolute top-1 right-1 text-[10px] leading-none px-1 py-0.5 rounded ${selectedDay === day ? 'bg-white/25 text-white' : 'bg-sakura-200 text-sakura-700'}`}>今天</span>
+                          )}
+                          {/* Date + Weather */}
+                          <div className="text-xs opacity-80 whitespace-nowrap mb-0.5">
+                            {getDayDate(day)}
                           </div>
+                          <DayWeatherBadge weather={dayWeather?.[day]} className="mb-0.5 whitespace-nowrap" />
                           {/* Day Number */}
                           <div className="font-bold text-center whitespace-nowrap">Day {day}</div>
                           {/* Theme Label */}
@@ -1396,6 +1356,9 @@ function MainPageInner() {
                               {daySchedule.theme}
                             </div>
                           )}
+                          {costs.byDay[day] > 0 && (
+                            <div className="text-[10px] mt-0.5 opacity-80 whitespace-nowrap">💴 {formatMoney(costs.byDay[day], homeCurrency)}</div>
+                          )}
                         </div>
                       )
                     })}
@@ -1443,13 +1406,15 @@ function MainPageInner() {
                             : 'bg-sakura-50 text-sakura-600 hover:bg-sakura-100 border-transparent'
                         } ${isAdmin ? 'cursor-grab active:cursor-grabbing' : ''}`}
                       >
-                        {/* Date + Weather Row */}
-                        <div className="flex items-center justify-center gap-1 mb-0.5">
-                          <span className="text-xs opacity-80 whitespace-nowrap">
-                            {getDayDate(day)}
-                          </span>
-                          <span className="text-sm">{getWeatherIcon(day)}</span>
+                        <DayPresenceAvatars viewers={dayViewers[day]} className="absolute top-1 left-1" />
+                        {day === todayTripDay && (
+                          <span className={`absolute top-1 right-1 text-[10px] leading-none px-1 py-0.5 rounded ${selectedDay === day ? 'bg-white/25 text-white' : 'bg-sakura-200 text-sakura-700'}`}>今天</span>
+                        )}
+                        {/* Date + Weather */}
+                        <div className="text-xs opacity-80 whitespace-nowrap mb-0.5">
+                          {getDayDate(day)}
                         </div>
+                        <DayWeatherBadge weather={dayWeather?.[day]} className="mb-0.5 whitespace-nowrap" />
                         {/* Day Number */}
                         <div className="font-bold text-center whitespace-nowrap">Day {day}</div>
                         {/* Theme Label */}
@@ -1458,6 +1423,9 @@ function MainPageInner() {
                             {daySchedule.theme}
                           </div>
                         )}
+                        {costs.byDay[day] > 0 && (
+                          <div className="text-[10px] mt-0.5 opacity-80 whitespace-nowrap">💴 {formatMoney(costs.byDay[day], homeCurrency)}</div>
+                        )}
                         {/* Remove button - Actual Admin only, show on last day when hovering */}
                         {isActualAdmin && day === settings.totalDays && settings.totalDays > 1 && (
                           <button
@@ -1475,6 +1443,7 @@ function MainPageInner() {
                     )
                   })}
                 </div>
+                {hasCosts && <p className="mt-1 text-[10px] text-gray-400 text-right">💴 {TRIP_COSTS_SCOPE}</p>}
               </div>
             )}
 
@@ -1651,7 +1620,10 @@ function MainPageInner() {
                             fallback={trip.location}
                           />
                         </div>
-                      
+
+                        {costs.byTrip[trip.id] > 0 && (
+                          <p className="text-xs text-amber-600" title={TRIP_COSTS_SCOPE}>💴 已花 {formatMoney(costs.byTrip[trip.id], homeCurrency)}</p>
+                        )}
                       </div>
                     </div>
                   </motion.div>
@@ -1687,6 +1659,7 @@ function MainPageInner() {
             homeLocation={settings?.homeLocation}
             selectedTripId={selectedTripId}
             onTripSelect={setSelectedTripId}
+            onLogExpense={(trip) => setWalletDraft(expenseDraftForTrip(trip))}
           />
         </motion.div>
       </div>
@@ -1790,6 +1763,7 @@ function MainPageInner() {
                   trips={filteredTrips} 
                   homeLocation={settings?.homeLocation}
                   selectedTripId={selectedTripId}
+                  onLogExpense={(trip) => setWalletDraft(expenseDraftForTrip(trip))}
                   onTripSelect={(id) => {
                     setSelectedTripId(id)
                     if (id === null) {
@@ -1911,56 +1885,61 @@ function MainPageInner() {
                 <div className="border-t border-gray-100" />
                 
                 {/* Schedule Items - Always Expanded */}
-                {detailTrip.description && (
-                  <div className="space-y-3">
-                    <h3 className="font-semibold text-gray-800 flex items-center gap-2">
-                      <span>📋</span>
-                      行程明細
-                    </h3>
-                    <div className="space-y-2">
-                      {(() => {
-                        try {
-                          const items = JSON.parse(detailTrip.description)
-                          if (Array.isArray(items) && items.length > 0) {
-                            return items.map((item: any, idx: number) => (
-                              <div 
-                                key={idx} 
-                                className="flex items-start gap-2 p-3 bg-white border border-gray-100 rounded-xl min-w-0"
-                              >
-                                {(item.time_start || item.time_end) && (
-                                  <span className="text-xs font-semibold text-blue-600 bg-blue-50 px-1.5 py-0.5 rounded-md whitespace-nowrap flex-shrink-0">
-                                    {item.time_start}{item.time_end ? ` - ${item.time_end}` : ''}
-                                  </span>
-                                )}
-                                <span className="text-sm text-gray-700 flex-1 min-w-0 break-all leading-relaxed">
-                                  {/^https?:\/\//.test((item.content || '').trim()) ? (
-                                    <a
-                                      href={item.content.trim()}
-                                      target="_blank"
-                                      rel="noopener noreferrer"
-                                      className="text-blue-500 underline underline-offset-2 hover:text-blue-700"
-                                    >
-                                      {item.content.trim()}
-                                    </a>
-                                  ) : item.content}
-                                </span>
-                              </div>
-                            ))
-                          }
-                        } catch {
-                          // Legacy: render as HTML if not JSON
-                          return (
-                            <div 
-                              className="text-sm text-gray-600 bg-gray-50 rounded-xl p-4 break-words overflow-hidden"
-                              dangerouslySetInnerHTML={{ __html: detailTrip.description }}
-                            />
-                          )
-                        }
-                        return null
-                      })()}
+                {(() => {
+                  const items = tripScheduleItems(detailTrip)
+                  const legacyHtml = tripLegacyDescription(detailTrip)
+                  if (items.length === 0 && !legacyHtml) return null
+                  return (
+                    <div className="space-y-3">
+                      <h3 className="font-semibold text-gray-800 flex items-center gap-2">
+                        <span>📋</span>
+                        行程明細
+                      </h3>
+                      <div className="space-y-2">
+                        {items.map((item) => (
+                          <div 
+                            key={item.id} 
+                            className="flex items-start gap-2 p-3 bg-white border border-gray-100 rounded-xl min-w-0"
+                          >
+                            {(item.time_start || item.time_end) && (
+                              <span className="text-xs font-semibold text-blue-600 bg-blue-50 px-1.5 py-0.5 rounded-md whitespace-nowrap flex-shrink-0">
+                                {formatScheduleTimeRange(item)}
+                              </span>
+                            )}
+                            <div className="flex-1 min-w-0">
+                              <span className="text-sm text-gray-700 break-all leading-relaxed">
+                                {/^https?:\/\//.test(item.content.trim()) ? (
+                                  <a
+                                    href={item.content.trim()}
+                                    target="_blank"
+                                    rel="noopener noreferrer"
+                                    className="text-blue-500 underline underline-offset-2 hover:text-blue-700"
+                                  >
+                                    {item.content.trim()}
+                                  </a>
+                                ) : item.content}
+                              </span>
+                              {(item.location || item.cost || item.booking_ref) && (
+                                <div className="mt-1 flex flex-wrap gap-x-3 gap-y-0.5 text-xs text-gray-500">
+                                  {item.location && <span className="break-all">📍 {item.location}</span>}
+                                  {item.cost && <span>💴 ¥{Number(item.cost).toLocaleString()}</span>}
+                                  {item.booking_ref && <span className="break-all">🔖 {item.booking_ref}</span>}
+                                </div>
+                              )}
+                            </div>
+                          </div>
+                        ))}
+                        {/* Legacy: HTML notes from before schedule items */}
+                        {legacyHtml && (
+                          <div 
+                            className="text-sm text-gray-600 bg-gray-50 rounded-xl p-4 break-words overflow-hidden"
+                            dangerouslySetInnerHTML={{ __html: legacyHtml }}
+                          />
+                        )}
+                      </div>
                     </div>
-                  </div>
-                )}
+                  )
+                })()}
               </div>
             </div>
             
@@ -2197,6 +2176,15 @@ function MainPageInner() {
                   </div>
                 )}
 
+                {selectedWishlistItem.category !== 'threads' && (
+                  <button
+                    onClick={() => setWalletDraft(expenseDraftForWishlistItem(selectedWishlistItem))}
+                    className="w-full mb-3 py-2 text-sm font-medium text-amber-700 bg-amber-50 hover:bg-amber-100 rounded-xl transition-colors"
+                  >
+                    💴 在這裡記一筆
+                  </button>
+                )}
+
                 {/* Add to Itinerary - inline form, button, or "already added" info */}
                 {showWishlistAddToTripForm ? (
                   <div className="p-4 bg-sakura-50 rounded-xl border border-sakura-200">
@@ -2426,13 +2414,14 @@ function MainPageInner() {
       )}
 
       <TravelWalletModal
-        open={showTravelWallet}
+        open={showTravelWallet || !!walletDraft}
         onClose={(reason) => {
           setShowTravelWallet(false)
+          setWalletDraft(null)
           if (reason?.dataChanged) window.location.reload()
         }}
         themeColor="#F472B6"
-        isAdminUser={isActualAdmin}
+        expenseDraft={walletDraft}
       />
 
       {/* Chiikawa Pet - Floating character when sakura mode is on */}
@@ -2459,16 +2448,13 @@ function MainPageInner() {
         onAddToTrip={async (item, day, time, category) => {
           // Get the date for this day
           if (!settings?.tripStartDate) return
-          const startDate = new Date(settings.tripStartDate)
-          const targetDate = new Date(startDate)
-          targetDate.setDate(startDate.getDate() + day - 1)
-          const dateStr = targetDate.toISOString().split('T')[0]
+          const dateStr = getDateForDay(settings.tripStartDate, day)
           
           // Create a new trip from wishlist item - use wishlist name for map positioning
           const categoryIcon = category === 'cafe' ? '☕' : category === 'restaurant' ? '🍽️' : category === 'shopping' ? '🛍️' : '🌳'
           const coords = await geocodePlaceName(item.name)
-          const lat = coords?.lat ?? 35.6762
-          const lng = coords?.lng ?? 139.6503
+          const lat = coords?.lat ?? getDestinationMapCenter().lat
+          const lng = coords?.lng ?? getDestinationMapCenter().lng
           const wishlistImages = parseImages(item.imageUrl || undefined)
           const imageUrlForTrip = wishlistImages.length > 0 ? JSON.stringify(wishlistImages) : undefined
           const tripData = {
@@ -2479,12 +2465,10 @@ function MainPageInner() {
             lng,
             image_url: imageUrlForTrip,
             wishlist_item_id: typeof item.id === 'number' ? item.id : undefined,
-            description: JSON.stringify([{ 
-              id: Date.now().toString(), 
-              time_start: time, 
-              time_end: '', 
-              content: `${categoryIcon} ${item.note || '美食清單項目'}` 
-            }]),
+            description: '',
+            schedule_items: scheduleItemsToInput([
+              { ...createEmptyScheduleItem(`${categoryIcon} ${item.note || '美食清單項目'}`), time_start: time },
+            ]),
             time_start: time,
             time_end: undefined,
           }
@@ -2923,6 +2907,7 @@ function MainPageInner() {
                       value={formData.images}
                       onChange={(urls) => setFormData(prev => ({ ...prev, images: urls }))}
                       maxImages={5}
+                      folder="trips"
                     />
 
                     {/* Schedule Items - Point Form List */}
@@ -3000,6 +2985,43 @@ function MainPageInner() {
                               placeholder="輸入內容..."
                               className="w-full px-3 py-2 rounded border border-gray-200 focus:border-sakura-400 focus:ring-1 focus:ring-sakura-100 outline-none text-sm"
                             />
+                            {/* Optional: location / cost / booking reference */}
+                            <div className="grid grid-cols-3 gap-2 mt-2">
+                              <input
+                                type="text"
+                                value={item.location}
+                                onChange={(e) => {
+                                  const newItems = [...scheduleItems]
+                                  newItems[index].location = e.target.value
+                                  setScheduleItems(newItems)
+                                }}
+                                placeholder="📍 地點"
+                                className="min-w-0 px-2 py-1 text-xs rounded border border-gray-200 focus:border-sakura-400 focus:ring-1 focus:ring-sakura-100 outline-none"
+                              />
+                              <input
+                                type="text"
+                                inputMode="decimal"
+                                value={item.cost}
+                                onChange={(e) => {
+                                  const newItems = [...scheduleItems]
+                                  newItems[index].cost = e.target.value
+                                  setScheduleItems(newItems)
+                                }}
+                                placeholder="💴 費用"
+                                className="min-w-0 px-2 py-1 text-xs rounded border border-gray-200 focus:border-sakura-400 focus:ring-1 focus:ring-sakura-100 outline-none"
+                              />
+                              <input
+                                type="text"
+                                value={item.booking_ref}
+                                onChange={(e) => {
+                                  const newItems = [...scheduleItems]
+                                  newItems[index].booking_ref = e.target.value
+                                  setScheduleItems(newItems)
+                                }}
+                                placeholder="🔖 訂位編號"
+                                className="min-w-0 px-2 py-1 text-xs rounded border border-gray-200 focus:border-sakura-400 focus:ring-1 focus:ring-sakura-100 outline-none"
+                              />
+                            </div>
                           </div>
                         ))}
                         {/* Add Item Buttons */}
@@ -3065,7 +3087,7 @@ function MainPageInner() {
                                         ? extractPlainTextFromPlateJson(w.note)
                                         : ''
                                       const content = notePlain ? `${w.name}（${notePlain}）` : w.name
-                                      setScheduleItems([...scheduleItems, { ...createEmptyScheduleItem(), content }])
+                                      setScheduleItems([...scheduleItems, createEmptyScheduleItem(content)])
                                       // 第一次從美食清單選入明細時，將該筆名稱與圖片帶入表單「標題」「圖片」（不覆蓋已填寫內容）
                                       if (!wishlistFirstPickAutofillDoneRef.current) {
                                         wishlistFirstPickAutofillDoneRef.current = true
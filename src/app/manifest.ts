@@ -0,0 +1,15 @@
+import type { MetadataRoute } from 'next'
+
+// Installable PWA (Add to Home Screen); offline caching lives in public/sw.js
+export default function manifest(): MetadataRoute.Manifest {
+  return {
+    name: '日本旅遊 | Japan Travel App',
+    short_name: '日本旅遊',
+    description: '探索日本之美 - Explore Japan with beautiful sakura-themed travel experience',
+    start_url: '/main',
+    display: 'standalone',
+    background_color: '#fef7f7',
+    theme_color: '#e85d80',
+    icons: [{ src: '/icon.svg', sizes: 'any', type: 'image/svg+xml' }],
+  }
+}
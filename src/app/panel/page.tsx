@@ -6,7 +6,8 @@ import { motion, AnimatePresence } from 'framer-motion'
 import dynamic from 'next/dynamic'
 import SakuraCanvas from '@/components/SakuraCanvas'
 import ChiikawaPet from '@/components/ChiikawaPet'
-import { logout, canAccessAdmin, isAdmin, isAuthenticated, getCurrentUser, getUsers, getUsersAsync, updateUser, updateUserAsync, deleteUser, deleteUserAsync, getAuthToken, type User, type UserRole } from '@/lib/auth'
+import { logout, isAdmin, isAuthenticated, getCurrentUser, getUsers, getUsersAsync, refreshUsers, updateUser, updateUserAsync, deleteUser, deleteUserAsync, getLoggedInUsername, type User, type UserRole } from '@/lib/auth'
+import { can, ROLES, ROLE_LABELS, ROLE_DESCRIPTIONS, normalizeRole } from '@/lib/permissions'
 import {
   createTrip,
   updateTrip,
@@ -21,11 +22,20 @@ import {
   type WishlistItemDB,
   saveSupabaseChecklistState,
   saveSupabaseSiteSettings,
+  getTrashRetentionDays,
+  purgeExpiredTrash,
+  DEFAULT_TRASH_RETENTION_DAYS,
+  type TrashTable,
 } from '@/lib/supabase'
 import { useQueryClient } from '@tanstack/react-query'
 import {
   useTrips,
   useWishlistItems,
+  useRealtimeSync,
+  useTrash,
+  useRestoreFromTrash,
+  useDeleteFromTrash,
+  usePurgeTrash,
   queryKeys,
 } from '@/hooks/useQueries'
 import { 
@@ -43,6 +53,9 @@ import {
   getDestinations,
   getDestinationsAsync,
   getTotalDayHeartCounts,
+  getDestinationCountryCode,
+  getDestinationMapCenter,
+  getDestinationTimeZone,
 } from '@/lib/settings'
 import { useLanguage } from '@/lib/i18n'
 import LanguageSwitch from '@/components/LanguageSwitch'
@@ -56,12 +69,18 @@ import MyLikedFoodModal from '@/components/MyLikedFoodModal'
 import ProfileWishlistPopup from '@/components/ProfileWishlistPopup'
 import DayTripEditor from '@/components/DayTripEditor'
 import ItineraryManagerModal from '@/components/ItineraryManagerModal'
+import ActivityFeed from '@/components/ActivityFeed'
 import { safeSetItem } from '@/lib/safeStorage'
 import { OPEN_TRAVEL_WALLET_QUERY } from '@/lib/travelWalletUi'
 import { EMPTY_PLATE_JSON, isPlateJsonEffectivelyEmpty } from '@/lib/plateRich'
 import PlateRichEditor from '@/components/PlateRichEditor'
 import PlateRichView from '@/components/PlateRichView'
+import TripPlanSwitcher from '@/components/TripPlanSwitcher'
+import CustomAreaManager from '@/components/CustomAreaManager'
 import { compressImageFileToDataUrl } from '@/lib/compressImageClient'
+import { createEmptyScheduleItem, formatScheduleTimeRange, scheduleItemsToInput, tripLegacyDescription, tripScheduleItems, type ScheduleItem } from '@/lib/tripSchedule'
+import type { ExpenseDraft } from '@/lib/expenseLinks'
+import { formatTripDate, getDayNumberForDate, todayInTimeZone } from '@/lib/tripCalendar'
 
 const PlacePicker = dynamic(() => import('@/components/PlacePicker'), {
   ssr: false,
@@ -72,14 +91,6 @@ const PlacePicker = dynamic(() => import('@/components/PlacePicker'), {
   ),
 })
 
-// Schedule item type
-type ScheduleItem = {
-  id: string
-  time_start: string
-  time_end: string
-  content: string
-}
-
 type FormData = {
   title: string
   date: string
@@ -90,13 +101,6 @@ type FormData = {
   scheduleItems: ScheduleItem[]
 }
 
-const createEmptyScheduleItem = (): ScheduleItem => ({
-  id: Date.now().toString() + Math.random().toString(36).substr(2, 9),
-  time_start: '',
-  time_end: '',
-  content: ''
-})
-
 const initialFormData: FormData = {
   title: '',
   date: '',
@@ -119,34 +123,18 @@ const parseImages = (imageUrl: string | undefined): string[] => {
   return []
 }
 
-// Helper to parse schedule items from description field
-const parseScheduleItems = (description: string | undefined): ScheduleItem[] => {
-  if (!description) return [createEmptyScheduleItem()]
-  try {
-    const parsed = JSON.parse(description)
-    if (Array.isArray(parsed) && parsed.length > 0) {
-      return parsed.map((item: any) => ({
-        id: item.id || Date.now().toString() + Math.random().toString(36).substr(2, 9),
-        time_start: item.time_start || '',
-        time_end: item.time_end || '',
-        content: item.content || ''
-      }))
-    }
-  } catch {
-    // Legacy: plain text - convert to single item
-    return [{
-      id: Date.now().toString(),
-      time_start: '',
-      time_end: '',
-      content: description
-    }]
-  }
-  return [createEmptyScheduleItem()]
+// Trash bin tabs → soft-delete tables in supabase.ts
+const TRASH_TAB_TABLES: Record<'trips' | 'users' | 'destinations' | 'wishlist', TrashTable> = {
+  trips: 'trips',
+  users: 'users',
+  destinations: 'destinations',
+  wishlist: 'wishlist_items',
 }
 
 export default function AdminPage() {
   // TanStack Query hooks
   const queryClient = useQueryClient()
+  useRealtimeSync()
   const { data: trips = [], isLoading: isTripsLoading } = useTrips()
 
   const { data: wishlistItemsData } = useWishlistItems()
@@ -174,7 +162,7 @@ export default function AdminPage() {
   const [showUserManagement, setShowUserManagement] = useState(false)
   const [users, setUsers] = useState<User[]>([])
   const [editingUser, setEditingUser] = useState<User | null>(null)
-  const [userForm, setUserForm] = useState({ username: '', password: '', displayName: '', role: 'user' as UserRole, avatarUrl: '' })
+  const [userForm, setUserForm] = useState({ username: '', password: '', displayName: '', role: 'planner' as UserRole, avatarUrl: '' })
   // Profile edit state (for current user editing their own profile)
   const [showProfileEdit, setShowProfileEdit] = useState(false)
   const [profileForm, setProfileForm] = useState({ displayName: '', password: '', avatarUrl: '' })
@@ -188,6 +176,8 @@ export default function AdminPage() {
   // Checklist state for travel notice
   const [checkedItems, setCheckedItems] = useState<Record<string, { username: string; displayName: string; avatarUrl?: string }[]>>({})
   const [currentUser, setCurrentUser] = useState<{ username: string; role: string; displayName: string; avatarUrl?: string } | null>(null)
+  // 行程規劃／管理員可編輯行程、航班
+  const canEditTrips = can(currentUser, 'trips.edit')
   const [travelPreparations, setTravelPreparations] = useState<TravelNoticeItem[]>([])
   const [newItemText, setNewItemText] = useState('')
   const [newItemIcon, setNewItemIcon] = useState('📌')
@@ -206,9 +196,13 @@ export default function AdminPage() {
     flag: '',
     primaryHex: '#F472B6',
     emoji: '',
+    countryCode: '',
+    centerLat: '',
+    centerLng: '',
   })
   // Trash bin state
   const [showTrashBin, setShowTrashBin] = useState(false)
+  const [showActivityFeed, setShowActivityFeed] = useState(false)
   // Expanded days state for trip grouping
   const [expandedDays, setExpandedDays] = useState<Set<number>>(new Set())
   // Trip detail view state (Airbnb-style)
@@ -222,8 +216,9 @@ export default function AdminPage() {
       if (!fresh) return prev
       const notesSame = (fresh.trip_notes_rich ?? '') === (prev.trip_notes_rich ?? '')
       const descSame = fresh.description === prev.description
+      const scheduleSame = JSON.stringify(fresh.schedule_items ?? null) === JSON.stringify(prev.schedule_items ?? null)
       const titleSame = fresh.title === prev.title
-      if (notesSame && descSame && titleSame) return prev
+      if (notesSame && descSame && scheduleSame && titleSame) return prev
       return fresh
     })
   }, [trips])
@@ -266,13 +261,22 @@ export default function AdminPage() {
   const [isLoggedIn, setIsLoggedIn] = useState(false)
   // Travel Wallet state
   const [showWallet, setShowWallet] = useState(false)
+  // 「記一筆」 from a stop in 行程管理: the wallet opens straight into the expense form
+  const [walletDraft, setWalletDraft] = useState<ExpenseDraft | null>(null)
   const [showFlightInfo, setShowFlightInfo] = useState(false)
-  const [trashItems, setTrashItems] = useState<{
-    trips: Trip[]
-    users: User[]
-    destinations: DestinationDB[]
-    wishlist: WishlistItemDB[]
-  }>({ trips: [], users: [], destinations: [], wishlist: [] })
+  // 垃圾桶：soft-deleted rows in Supabase, shared across devices
+  const { data: trashData } = useTrash({ enabled: isLoggedIn })
+  const trashItems = {
+    trips: trashData?.trips ?? [],
+    users: trashData?.users ?? [],
+    destinations: trashData?.destinations ?? [],
+    wishlist: trashData?.wishlist_items ?? [],
+  }
+  const restoreFromTrashMutation = useRestoreFromTrash()
+  const deleteFromTrashMutation = useDeleteFromTrash()
+  const purgeTrashMutation = usePurgeTrash()
+  const canManageTrash = can(currentUser, 'trash.manage')
+  const [trashRetentionDays, setTrashRetentionDays] = useState<number | null>(null)
   const [trashTab, setTrashTab] = useState<'trips' | 'users' | 'destinations' | 'wishlist'>('trips')
   const [deleteConfirm, setDeleteConfirm] = useState<{
     mode: 'single' | 'all'
@@ -285,7 +289,7 @@ export default function AdminPage() {
   
   // Disable background scrolling when any popup/modal is active
   useEffect(() => {
-    const anyPopupOpen = showForm || showSettings || showUserManagement || showProfileEdit || showProfileCropper || profileAvatarLightboxUrl != null || showTravelNoticePopup || showDestinationModal || showTrashBin || showWishlistManagement || showMyLikedFood || showProfileWishlist || showDayHeartStatsPopup || showChiikawaEdit || showChiikawaEditDesktop || showWallet || showFlightInfo || showTripDetail
+    const anyPopupOpen = showForm || showSettings || showUserManagement || showProfileEdit || showProfileCropper || profileAvatarLightboxUrl != null || showTravelNoticePopup || showDestinationModal || showTrashBin || showActivityFeed || showWishlistManagement || showMyLikedFood || showProfileWishlist || showDayHeartStatsPopup || showChiikawaEdit || showChiikawaEditDesktop || showWallet || showFlightInfo || showTripDetail
     if (anyPopupOpen) {
       document.body.style.overflow = 'hidden'
     } else {
@@ -294,7 +298,7 @@ export default function AdminPage() {
     return () => {
       document.body.style.overflow = ''
     }
-  }, [showForm, showSettings, showUserManagement, showProfileEdit, showProfileCropper, profileAvatarLightboxUrl, showTravelNoticePopup, showDestinationModal, showTrashBin, showWishlistManagement, showMyLikedFood, showProfileWishlist, showDayHeartStatsPopup, showChiikawaEdit, showChiikawaEditDesktop, showWallet, showFlightInfo, showTripDetail])
+  }, [showForm, showSettings, showUserManagement, showProfileEdit, showProfileCropper, profileAvatarLightboxUrl, showTravelNoticePopup, showDestinationModal, showTrashBin, showActivityFeed, showWishlistManagement, showMyLikedFood, showProfileWishlist, showDayHeartStatsPopup, showChiikawaEdit, showChiikawaEditDesktop, showWallet, showFlightInfo, showTripDetail])
 
   // Refresh settingsForm from latest Supabase data whenever the dialog opens
   useEffect(() => {
@@ -305,7 +309,7 @@ export default function AdminPage() {
         setSiteSettings(prev => ({ ...(prev ?? latest), ...latest }))
         setSettingsForm({
           title: latest.title,
-          tripStartDate: latest.tripStartDate || new Date().toISOString().split('T')[0],
+          tripStartDate: latest.tripStartDate || todayInTimeZone(getDestinationTimeZone()),
           totalDays: latest.totalDays || 3,
           daySchedules: latest.daySchedules || [],
           homeLocationImageUrl: latest.homeLocation?.imageUrl || '',
@@ -321,16 +325,9 @@ export default function AdminPage() {
     if (wishlistItemsData) setWishlistItems(wishlistItemsData)
   }, [wishlistItemsData])
 
-  // Load trash from localStorage
   useEffect(() => {
-    const savedTrash = localStorage.getItem('admin_trash_bin')
-    if (savedTrash) {
-      try {
-        setTrashItems(JSON.parse(savedTrash))
-      } catch (e) {
-        console.error('Failed to parse trash:', e)
-      }
-    }
+    // The trash used to live in this browser only; it is in Supabase now
+    localStorage.removeItem('admin_trash_bin')
     // 摸摸 Chiikawa now lives in Supabase siteSettings (default: true)
     // Check if user is admin
     setIsAdminUser(isAdmin())
@@ -428,10 +425,29 @@ export default function AdminPage() {
     return users.some(u => u.username === currentUser.username)
   }
   
-  // Save trash to localStorage
-  const saveTrash = (newTrash: typeof trashItems) => {
-    setTrashItems(newTrash)
-    safeSetItem('admin_trash_bin', JSON.stringify(newTrash))
+  // Retention purge: whoever can manage the trash removes expired items when opening the panel
+  useEffect(() => {
+    if (!canManageTrash) return
+    ;(async () => {
+      setTrashRetentionDays(await getTrashRetentionDays())
+      const { error } = await purgeExpiredTrash()
+      if (error) console.error('Failed to purge expired trash:', error)
+      await queryClient.invalidateQueries({ queryKey: queryKeys.trash })
+    })()
+  }, [canManageTrash, queryClient])
+
+  const handleSaveTrashRetention = async (days: number) => {
+    if (!Number.isFinite(days) || days < 1) {
+      setMessage({ type: 'error', text: '保留天數至少為 1 天' })
+      return
+    }
+    const { error } = await saveSupabaseSiteSettings({ trash_retention_days: Math.round(days) })
+    if (error) {
+      setMessage({ type: 'error', text: error })
+      return
+    }
+    setTrashRetentionDays(Math.round(days))
+    setMessage({ type: 'success', text: `垃圾桶項目將保留 ${Math.round(days)} 天` })
   }
 
   // Get current destination theme color
@@ -485,7 +501,7 @@ export default function AdminPage() {
       setSiteSettings(settings)
       setSettingsForm({ 
         title: settings.title,
-        tripStartDate: settings.tripStartDate || new Date().toISOString().split('T')[0],
+        tripStartDate: settings.tripStartDate || todayInTimeZone(getDestinationTimeZone()),
         totalDays: settings.totalDays || 3,
         daySchedules: settings.daySchedules || [],
         homeLocationImageUrl: settings.homeLocation?.imageUrl || '',
@@ -527,18 +543,13 @@ export default function AdminPage() {
         if (isAdm) {
           fallbackUser = loadedUsers.find(u => u.role === 'admin')
         } else {
-          // Parse username from auth token: japan_travel_user_{username}_2024
-          const token = getAuthToken()
-          if (token) {
-            const match = token.match(/^japan_travel_user_(.+)_2024$/)
-            if (match) {
-              const tokenUsername = match[1]
-              fallbackUser = loadedUsers.find(u => u.username === tokenUsername)
-            }
+          const tokenUsername = getLoggedInUsername()
+          if (tokenUsername) {
+            fallbackUser = loadedUsers.find(u => u.username === tokenUsername)
           }
           // Last resort: first non-admin user
           if (!fallbackUser) {
-            fallbackUser = loadedUsers.find(u => u.role === 'user') || loadedUsers[0]
+            fallbackUser = loadedUsers.find(u => u.role !== 'admin') || loadedUsers[0]
           }
         }
         
@@ -593,15 +604,13 @@ export default function AdminPage() {
   const handleDeleteWishlistItem = async (item: WishlistItemDB) => {
     if (!confirm(`確定要將「${item.name}」移至垃圾桶嗎？`)) return
     try {
-      // Move to trash first
-      const newTrash = {
-        ...trashItems,
-        wishlist: [...(trashItems.wishlist || []), { ...item, deletedAt: new Date().toISOString() }]
+      const { error } = await deleteSupabaseWishlistItem(item.id)
+      if (error) {
+        setMessage({ type: 'error', text: error })
+        return
       }
-      saveTrash(newTrash)
-      
-      await deleteSupabaseWishlistItem(item.id)
       setWishlistItems(prev => prev.filter(i => i.id !== item.id))
+      await queryClient.invalidateQueries({ queryKey: queryKeys.trash })
       setMessage({ type: 'success', text: '已移至垃圾桶' })
     } catch (err) {
       setMessage({ type: 'error', text: '刪除失敗' })
@@ -619,8 +628,8 @@ export default function AdminPage() {
     }
   }
 
-  const handleLogout = () => {
-    logout()
+  const handleLogout = async () => {
+    await logout()
     // Full navigation so middleware sees cleared cookies (client router alone can leave /panel stuck)
     window.location.assign('/login')
   }
@@ -656,19 +665,17 @@ export default function AdminPage() {
     setMessage(null)
 
     try {
-      // Filter out empty schedule items and convert to JSON
-      const validScheduleItems = formData.scheduleItems.filter(item => 
-        item.content.trim() || item.time_start || item.time_end
-      )
-      const descriptionJson = JSON.stringify(validScheduleItems)
+      // Empty lines are dropped; saved as trip_schedule_items rows
+      const validScheduleItems = scheduleItemsToInput(formData.scheduleItems)
       
       // Get first schedule item's time for sorting purposes
       const firstItem = validScheduleItems[0]
       
+      // description is left alone on edit so legacy HTML notes survive
       const tripData = {
         title: formData.title,
         date: formData.date,
-        description: descriptionJson,
+        schedule_items: validScheduleItems,
         location: formData.location,
         lat: formData.lat,
         lng: formData.lng,
@@ -696,7 +703,7 @@ export default function AdminPage() {
           setMessage({ type: 'error', text: error || '更新行程失敗' })
         }
       } else {
-        const { data, error } = await createTrip(tripData)
+        const { data, error } = await createTrip({ ...tripData, description: '' })
         if (data) {
           setMessage({ type: 'success', text: '行程建立成功！' })
           await fetchTrips()
@@ -714,6 +721,7 @@ export default function AdminPage() {
 
   const handleEdit = (trip: Trip) => {
     const t = trips.find((x) => x.id === trip.id) ?? trip
+    const existingItems = tripScheduleItems(t)
     setEditingTrip(t)
     setFormData({
       title: t.title,
@@ -722,7 +730,7 @@ export default function AdminPage() {
       lat: t.lat,
       lng: t.lng,
       images: parseImages(t.image_url),
-      scheduleItems: parseScheduleItems(t.description),
+      scheduleItems: existingItems.length > 0 ? existingItems : [createEmptyScheduleItem()],
     })
     setTripNotesRich(
       t.trip_notes_rich?.trim() ? t.trip_notes_rich : EMPTY_PLATE_JSON
@@ -758,22 +766,12 @@ export default function AdminPage() {
     if (!confirm('確定要將此行程移至垃圾桶嗎？')) return
 
     try {
-      // Find the trip to move to trash
-      const tripToDelete = trips.find(t => t.id === id)
-      if (tripToDelete) {
-        // Move to trash
-        const newTrash = {
-          ...trashItems,
-          trips: [...trashItems.trips, { ...tripToDelete, deletedAt: new Date().toISOString() }]
-        }
-        saveTrash(newTrash)
-      }
-      
       const { success, error } = await deleteTrip(id)
       if (success) {
         setMessage({ type: 'success', text: '行程已移至垃圾桶！' })
         await fetchTrips()
         await queryClient.invalidateQueries({ queryKey: queryKeys.wishlistItems })
+        await queryClient.invalidateQueries({ queryKey: queryKeys.trash })
       } else {
         setMessage({ type: 'error', text: error || '刪除行程失敗' })
       }
@@ -787,28 +785,33 @@ export default function AdminPage() {
     setDeleteConfirm({ mode: 'single', type, id, label })
   }
 
-  const confirmPermanentDelete = () => {
+  const confirmPermanentDelete = async () => {
     if (!deleteConfirm) return
     if (deleteConfirm.mode === 'all') {
-      saveTrash({ trips: [], users: [], destinations: [], wishlist: [] })
-      setMessage({ type: 'success', text: '垃圾桶已清空！' })
-    } else {
-      const { type, id } = deleteConfirm
-      const newTrash = { ...trashItems }
-      if (type === 'trips') {
-        newTrash.trips = newTrash.trips.filter(t => t.id !== id)
-      } else if (type === 'wishlist') {
-        newTrash.wishlist = newTrash.wishlist.filter(w => w.id !== id)
-      } else if (type === 'users') {
-        newTrash.users = newTrash.users.filter(u => u.username !== id)
-      } else if (type === 'destinations') {
-        newTrash.destinations = newTrash.destinations.filter(d => d.id !== id)
-      }
-      saveTrash(newTrash)
-      setMessage({ type: 'success', text: '項目已永久刪除！' })
+      const { error } = await purgeTrashMutation.mutateAsync(undefined)
+      setMessage(error ? { type: 'error', text: error } : { type: 'success', text: '垃圾桶已清空！' })
+    } else if (deleteConfirm.type && deleteConfirm.id != null) {
+      const { error } = await deleteFromTrashMutation.mutateAsync({
+        table: TRASH_TAB_TABLES[deleteConfirm.type],
+        key: deleteConfirm.id,
+      })
+      setMessage(error ? { type: 'error', text: error } : { type: 'success', text: '項目已永久刪除！' })
     }
     setDeleteConfirm(null)
   }
+
+  // Restore from trash, then refresh the lists this page keeps in local state
+  const handleRestoreFromTrash = async (type: 'trips' | 'users' | 'destinations' | 'wishlist', id: number | string) => {
+    const { error } = await restoreFromTrashMutation.mutateAsync({ table: TRASH_TAB_TABLES[type], key: id })
+    if (error) {
+      setMessage({ type: 'error', text: error })
+      return
+    }
+    if (type === 'trips') await fetchTrips()
+    if (type === 'users') setUsers(await refreshUsers())
+    if (type === 'destinations') setDestinations(await getDestinationsAsync())
+    setMessage({ type: 'success', text: '已還原！' })
+  }
   
   // Clear all trash
   const handleClearTrash = () => {
@@ -819,6 +822,9 @@ export default function AdminPage() {
   const handleDestinationSwitch = (destId: string) => {
     setCurrentDestinationId(destId)
     setCurrentDestination(destId)
+    // Trips and wishlist items are scoped to the destination
+    queryClient.invalidateQueries({ queryKey: queryKeys.trips })
+    queryClient.invalidateQueries({ queryKey: queryKeys.wishlistItems })
     setMessage({ type: 'success', text: `已切換至 ${destinations.find(d => d.id === destId)?.name || destId}` })
   }
 
@@ -830,6 +836,8 @@ export default function AdminPage() {
     }
 
     const gradient = getGradientFromHex(destinationForm.primaryHex)
+    const centerLat = parseFloat(destinationForm.centerLat)
+    const centerLng = parseFloat(destinationForm.centerLng)
     const newDestination: Omit<DestinationDB, 'created_at' | 'updated_at'> = {
       id: destinationForm.id.toLowerCase().replace(/\s+/g, '-'),
       name: destinationForm.name,
@@ -847,6 +855,10 @@ export default function AdminPage() {
       },
       is_active: true,
       sort_order: destinations.length + 1,
+      country_code: destinationForm.countryCode.trim().toUpperCase() || null,
+      map_center: Number.isFinite(centerLat) && Number.isFinite(centerLng)
+        ? { lat: centerLat, lng: centerLng, zoom: editingDestination?.map_center?.zoom ?? 12 }
+        : null,
     }
 
     const { data, error } = await saveSupabaseDestination(newDestination)
@@ -858,7 +870,7 @@ export default function AdminPage() {
       setMessage({ type: 'success', text: editingDestination ? '目的地已更新！' : '目的地已新增！' })
       setShowDestinationModal(false)
       setEditingDestination(null)
-      setDestinationForm({ id: '', name: '', name_en: '', flag: '', primaryHex: '#F472B6', emoji: '' })
+      setDestinationForm({ id: '', name: '', name_en: '', flag: '', primaryHex: '#F472B6', emoji: '', countryCode: '', centerLat: '', centerLng: '' })
     }
   }
 
@@ -1027,6 +1039,11 @@ export default function AdminPage() {
           )}
         </AnimatePresence>
 
+        {/* Trip plan switcher - every plan has its own dates, days, trips, expenses */}
+        <div className="px-4 md:px-0 md:max-w-sm">
+          <TripPlanSwitcher className="mb-4 md:mb-6" onNotify={(msg) => setMessage(msg)} />
+        </div>
+
         {/* ===== MOBILE LAYOUT (Airbnb style) ===== */}
         <div className="md:hidden px-4 space-y-4 pb-6">
 
@@ -1060,7 +1077,7 @@ export default function AdminPage() {
                 return fullUser?.displayName || currentUser?.displayName || currentUser?.username || '用戶'
               })()}
             </h2>
-            <p className="text-sm text-gray-500 mt-1">{isAdminUser ? '管理員' : '成員'}</p>
+            <p className="text-sm text-gray-500 mt-1">{currentUser ? ROLE_LABELS[normalizeRole(currentUser.role)] : '成員'}</p>
           </div>
 
           {/* Feature Cards Grid */}
@@ -1209,6 +1226,14 @@ export default function AdminPage() {
                 <p className="flex-1 text-left text-sm font-medium text-gray-800">旅遊須知</p>
                 <svg className="w-4 h-4 text-gray-300" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" /></svg>
               </button>
+              <button
+                onClick={() => setShowActivityFeed(true)}
+                className="w-full flex items-center gap-3 px-4 py-3.5 border-b border-gray-100 hover:bg-gray-50 transition-colors"
+              >
+                <span className="text-lg w-6 text-center">📝</span>
+                <p className="flex-1 text-left text-sm font-medium text-gray-800">活動紀錄</p>
+                <svg className="w-4 h-4 text-gray-300" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" /></svg>
+              </button>
               <button
                 onClick={() => setShowTrashBin(true)}
                 className="w-full flex items-center gap-3 px-4 py-3.5 hover:bg-gray-50 transition-colors"
@@ -1264,6 +1289,22 @@ export default function AdminPage() {
               </div>
               <span className="text-gray-300 text-lg">→</span>
             </button>
+            {canEditTrips && siteSettings && (
+              <button
+                type="button"
+                onClick={() => setShowItineraryManager(true)}
+                className="mt-3 w-full bg-white rounded-2xl border border-gray-200 p-5 hover:shadow-lg transition-shadow text-left flex items-center gap-4"
+              >
+                <div className="w-12 h-12 rounded-xl flex items-center justify-center text-2xl bg-sakura-50">
+                  📅
+                </div>
+                <div className="flex-1 min-w-0">
+                  <h3 className="font-semibold text-gray-800">行程管理</h3>
+                  <p className="text-xs text-gray-500 mt-0.5">編輯每日行程、住所及天數</p>
+                </div>
+                <span className="text-gray-300 text-lg">→</span>
+              </button>
+            )}
           </div>
         )}
 
@@ -1371,12 +1412,9 @@ export default function AdminPage() {
                 if (isAdminUser) {
                   fallbackUser = users.find(u => u.role === 'admin')
                 } else {
-                  const token = getAuthToken()
-                  if (token) {
-                    const match = token.match(/^japan_travel_user_(.+)_2024$/)
-                    if (match) {
-                      fallbackUser = users.find(u => u.username === match[1])
-                    }
+                  const tokenUsername = getLoggedInUsername()
+                  if (tokenUsername) {
+                    fallbackUser = users.find(u => u.username === tokenUsername)
                   }
                 }
                 if (fallbackUser) {
@@ -1407,18 +1445,15 @@ export default function AdminPage() {
                 if (isAdminUser) {
                   targetUser = freshUsers.find(u => u.role === 'admin')
                 } else {
-                  const token = getAuthToken()
-                  if (token) {
-                    const match = token.match(/^japan_travel_user_(.+)_2024$/)
-                    if (match) {
-                      targetUser = freshUsers.find(u => u.username === match[1])
-                    }
+                  const tokenUsername = getLoggedInUsername()
+                  if (tokenUsername) {
+                    targetUser = freshUsers.find(u => u.username === tokenUsername)
                   }
                 }
                 if (targetUser) {
                   const newUser = {
                     username: targetUser.username,
-                    role: targetUser.role as 'admin' | 'user',
+                    role: targetUser.role,
                     displayName: targetUser.displayName,
                     avatarUrl: targetUser.avatarUrl
                   }
@@ -1634,6 +1669,22 @@ export default function AdminPage() {
                   </div>
                 </div>
               </div>
+
+              {/* Mobile Activity Feed Card */}
+              <div 
+                className="md:hidden col-span-1 bg-white rounded-2xl border border-gray-200 p-4 hover:shadow-lg transition-shadow cursor-pointer"
+                onClick={() => setShowActivityFeed(true)}
+              >
+                <div className="flex flex-col items-center text-center gap-2">
+                  <div className="w-10 h-10 rounded-xl bg-gradient-to-br from-amber-400 to-amber-600 flex items-center justify-center">
+                    <span className="text-xl">📝</span>
+                  </div>
+                  <div>
+                    <h3 className="font-semibold text-gray-800 text-sm">活動紀錄</h3>
+                    <p className="text-xs text-gray-500">誰改了甚麼</p>
+                  </div>
+                </div>
+              </div>
             </>
           )}
 
@@ -1731,7 +1782,7 @@ export default function AdminPage() {
                 </p>
                 <p className="text-xs text-gray-400 mt-1">
                   {siteSettings?.tripStartDate 
-                    ? `${new Date(siteSettings.tripStartDate).toLocaleDateString('zh-TW')} 起`
+                    ? `${formatTripDate(siteSettings.tripStartDate, {})} 起`
                     : '未設定'
                   }
                 </p>
@@ -1923,14 +1974,35 @@ export default function AdminPage() {
               查看垃圾桶
             </button>
           </div>
+
+          {/* Activity Feed Card - Desktop only */}
+          <div className="hidden md:block bg-white rounded-2xl border border-gray-200 p-5 hover:shadow-lg transition-shadow">
+            <div className="flex items-start justify-between">
+              <div className="flex-1">
+                <div className="w-10 h-10 rounded-xl bg-gradient-to-br from-amber-400 to-amber-600 flex items-center justify-center mb-3">
+                  <span className="text-xl">📝</span>
+                </div>
+                <h3 className="font-semibold text-gray-800 mb-1">活動紀錄</h3>
+                <p className="text-xs text-gray-500">
+                  誰在甚麼時候改了甚麼
+                </p>
+              </div>
+            </div>
+            <button
+              onClick={() => setShowActivityFeed(true)}
+              className="mt-4 w-full py-2 text-sm bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-xl transition-colors"
+            >
+              查看活動紀錄
+            </button>
+          </div>
             </>
           )}
           {/* End of Admin Only Content */}
 
         </div>
 
-        {/* Action Bar - Admin Only (Desktop) */}
-        {isAdminUser && (
+        {/* Action Bar - Trip editors (Desktop) */}
+        {canEditTrips && (
           <div className="hidden md:flex items-center justify-between mb-6">
             <h2 className="text-lg font-medium text-gray-800">
               {t.admin.manageTrips} ({trips.length})
@@ -2075,6 +2147,7 @@ export default function AdminPage() {
                       label="住所圖片"
                       value={settingsForm.homeLocationImageUrl}
                       onChange={(url) => setSettingsForm({ ...settingsForm, homeLocationImageUrl: url })}
+                      folder="settings"
                     />
                   </div>
 
@@ -2248,7 +2321,7 @@ export default function AdminPage() {
               if (e.target === e.currentTarget) {
                 setShowUserManagement(false)
                 setEditingUser(null)
-                setUserForm({ username: '', password: '', displayName: '', role: 'user', avatarUrl: '' })
+                setUserForm({ username: '', password: '', displayName: '', role: 'planner', avatarUrl: '' })
               }
             }}
           >
@@ -2266,7 +2339,7 @@ export default function AdminPage() {
                     onClick={() => {
                       setShowUserManagement(false)
                       setEditingUser(null)
-                      setUserForm({ username: '', password: '', displayName: '', role: 'user', avatarUrl: '' })
+                      setUserForm({ username: '', password: '', displayName: '', role: 'planner', avatarUrl: '' })
                     }}
                     className="w-8 h-8 flex items-center justify-center text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded-full transition-colors"
                   >
@@ -2300,13 +2373,15 @@ export default function AdminPage() {
                             <span className={`text-xs px-2 py-0.5 rounded-full ${
                               user.role === 'admin' 
                                 ? 'bg-purple-100 text-purple-600' 
-                                : 'bg-blue-100 text-blue-600'
+                                : user.role === 'viewer'
+                                  ? 'bg-gray-100 text-gray-600'
+                                  : 'bg-blue-100 text-blue-600'
                             }`}>
-                              {user.role === 'admin' ? '管理員' : '用戶'}
+                              {ROLE_LABELS[normalizeRole(user.role)]}
                             </span>
                           </div>
                           <p className="text-xs text-gray-500 mt-0.5">
-                            帳號：{user.username} / 密碼：{user.password}
+                            帳號：{user.username}
                           </p>
                         </div>
                       </div>
@@ -2316,7 +2391,7 @@ export default function AdminPage() {
                             setEditingUser(user)
                             setUserForm({
                               username: user.username,
-                              password: user.password,
+                              password: '',
                               displayName: user.displayName,
                               role: user.role,
                               avatarUrl: user.avatarUrl || ''
@@ -2330,16 +2405,14 @@ export default function AdminPage() {
                           <button
                             onClick={async () => {
                               if (confirm(`確定要將用戶 ${user.displayName} 移至垃圾桶嗎？`)) {
-                                // Move to trash
-                                const newTrash = {
-                                  ...trashItems,
-                                  users: [...trashItems.users, { ...user, deletedAt: new Date().toISOString() }]
+                                const { error } = await deleteUserAsync(user.username)
+                                if (error) {
+                                  setMessage({ type: 'error', text: error })
+                                  return
                                 }
-                                saveTrash(newTrash)
-                                
-                                await deleteUserAsync(user.username)
                                 const freshUsers = await getUsersAsync()
                                 setUsers(freshUsers)
+                                await queryClient.invalidateQueries({ queryKey: queryKeys.trash })
                                 setMessage({ type: 'success', text: '用戶已移至垃圾桶！' })
                               }
                             }}
@@ -2378,7 +2451,7 @@ export default function AdminPage() {
                       type="text"
                       value={userForm.password}
                       onChange={(e) => setUserForm({ ...userForm, password: e.target.value })}
-                      placeholder="密碼"
+                      placeholder={editingUser ? '新密碼（留空則不變更）' : '密碼'}
                       className="w-full px-4 py-2.5 bg-gray-50 border border-gray-200 rounded-xl text-sm focus:outline-none focus:border-sakura-400"
                     />
                     <select
@@ -2387,8 +2460,9 @@ export default function AdminPage() {
                       disabled={editingUser?.username === 'admin'}
                       className="w-full px-4 py-2.5 bg-gray-50 border border-gray-200 rounded-xl text-sm focus:outline-none focus:border-sakura-400 disabled:bg-gray-100"
                     >
-                      <option value="user">用戶（可編輯行程、美食清單）</option>
-                      <option value="admin">管理員（可存取後台）</option>
+                      {ROLES.map(role => (
+                        <option key={role} value={role}>{ROLE_LABELS[role]}（{ROLE_DESCRIPTIONS[role]}）</option>
+                      ))}
                     </select>
                     
                     {/* Avatar Upload */}
@@ -2456,7 +2530,7 @@ export default function AdminPage() {
                     <button
                       onClick={() => {
                         setEditingUser(null)
-                        setUserForm({ username: '', password: '', displayName: '', role: 'user', avatarUrl: '' })
+                        setUserForm({ username: '', password: '', displayName: '', role: 'planner', avatarUrl: '' })
                       }}
                       className="flex-1 py-3 border border-gray-200 text-gray-600 rounded-xl hover:bg-gray-50 transition-colors font-medium"
                     >
@@ -2465,7 +2539,8 @@ export default function AdminPage() {
                   )}
                   <button
                     onClick={async () => {
-                      if (!userForm.username || !userForm.password || !userForm.displayName) {
+                      // Passwords are stored hashed; when editing, an empty password keeps the current one
+                      if (!userForm.username || (!editingUser && !userForm.password) || !userForm.displayName) {
                         alert('請填寫所有欄位')
                         return
                       }
@@ -2729,12 +2804,9 @@ export default function AdminPage() {
                           if (isAdminUser) {
                             fallbackUser = users.find(u => u.role === 'admin')
                           } else {
-                            const token = getAuthToken()
-                            if (token) {
-                              const match = token.match(/^japan_travel_user_(.+)_2024$/)
-                              if (match) {
-                                fallbackUser = users.find(u => u.username === match[1])
-                              }
+                            const tokenUsername = getLoggedInUsername()
+                            if (tokenUsername) {
+                              fallbackUser = users.find(u => u.username === tokenUsername)
                             }
                           }
                           if (fallbackUser) {
@@ -3064,7 +3136,7 @@ export default function AdminPage() {
                 if (e.target === e.currentTarget) {
                   setShowDestinationModal(false)
                   setEditingDestination(null)
-                  setDestinationForm({ id: '', name: '', name_en: '', flag: '', primaryHex: '#F472B6', emoji: '' })
+                  setDestinationForm({ id: '', name: '', name_en: '', flag: '', primaryHex: '#F472B6', emoji: '', countryCode: '', centerLat: '', centerLng: '' })
                 }
               }}
             >
@@ -3128,6 +3200,9 @@ export default function AdminPage() {
                                 flag: dest.flag,
                                 primaryHex: dest.theme.primaryHex,
                                 emoji: dest.theme.emoji,
+                                countryCode: getDestinationCountryCode(dest) || '',
+                                centerLat: String(getDestinationMapCenter(dest).lat),
+                                centerLng: String(getDestinationMapCenter(dest).lng),
                               })
                             }}
                             className="px-3 py-1 text-xs bg-blue-100 hover:bg-blue-200 text-blue-600 rounded-lg transition-colors"
@@ -3138,19 +3213,13 @@ export default function AdminPage() {
                             <button
                               onClick={async () => {
                                 if (confirm(`確定要將 ${dest.name} 移至垃圾桶嗎？`)) {
-                                  // Move to trash
-                                  const newTrash = {
-                                    ...trashItems,
-                                    destinations: [...trashItems.destinations, { ...dest, deletedAt: new Date().toISOString() }]
-                                  }
-                                  saveTrash(newTrash)
-                                  
-                                  const { success, error } = await deleteSupabaseDestination(dest.id)
+                                  const { error } = await deleteSupabaseDestination(dest.id)
                                   if (error) {
                                     setMessage({ type: 'error', text: error })
                                   } else {
                                     const freshDestinations = await getDestinationsAsync()
                                     setDestinations(freshDestinations)
+                                    await queryClient.invalidateQueries({ queryKey: queryKeys.trash })
                                     if (currentDestinationId === dest.id) {
                                       handleDestinationSwitch('japan')
                                     }
@@ -3233,13 +3302,40 @@ export default function AdminPage() {
                           style={{ background: `linear-gradient(135deg, ${destinationForm.primaryHex} 0%, ${adjustColor(destinationForm.primaryHex, -30)} 100%)` }}
                         />
                       </div>
+                      {/* 地圖預設中心與搜尋地點時偏好的國家 */}
+                      <div className="grid grid-cols-3 gap-3">
+                        <input
+                          type="text"
+                          value={destinationForm.countryCode}
+                          onChange={(e) => setDestinationForm({ ...destinationForm, countryCode: e.target.value })}
+                          placeholder="國家代碼 (JP)"
+                          maxLength={2}
+                          className="px-3 py-2 text-sm border border-gray-200 rounded-lg focus:border-sakura-400 outline-none uppercase"
+                        />
+                        <input
+                          type="number"
+                          step="any"
+                          value={destinationForm.centerLat}
+                          onChange={(e) => setDestinationForm({ ...destinationForm, centerLat: e.target.value })}
+                          placeholder="地圖中心緯度"
+                          className="px-3 py-2 text-sm border border-gray-200 rounded-lg focus:border-sakura-400 outline-none"
+                        />
+                        <input
+                          type="number"
+                          step="any"
+                          value={destinationForm.centerLng}
+                          onChange={(e) => setDestinationForm({ ...destinationForm, centerLng: e.target.value })}
+                          placeholder="地圖中心經度"
+                          className="px-3 py-2 text-sm border border-gray-200 rounded-lg focus:border-sakura-400 outline-none"
+                        />
+                      </div>
                     </div>
                     <div className="flex gap-2 mt-4">
                       {editingDestination && (
                         <button
                           onClick={() => {
                             setEditingDestination(null)
-                            setDestinationForm({ id: '', name: '', name_en: '', flag: '', primaryHex: '#F472B6', emoji: '' })
+                            setDestinationForm({ id: '', name: '', name_en: '', flag: '', primaryHex: '#F472B6', emoji: '', countryCode: '', centerLat: '', centerLng: '' })
                           }}
                           className="flex-1 py-2 text-sm border border-gray-200 text-gray-600 rounded-lg hover:bg-gray-50 transition-colors"
                         >
@@ -3256,13 +3352,20 @@ export default function AdminPage() {
                     </div>
                   </div>
 
+                  {/* Custom wishlist areas for the destination being edited (or the current one) */}
+                  <CustomAreaManager
+                    destinationId={editingDestination?.id || currentDestinationId}
+                    destinationName={(editingDestination || destinations.find(d => d.id === currentDestinationId))?.name}
+                    onNotify={setMessage}
+                  />
+
                   {/* Close Button */}
                   <div className="mt-6 pt-4 border-t border-gray-100">
                     <button
                       onClick={() => {
                         setShowDestinationModal(false)
                         setEditingDestination(null)
-                        setDestinationForm({ id: '', name: '', name_en: '', flag: '', primaryHex: '#F472B6', emoji: '' })
+                        setDestinationForm({ id: '', name: '', name_en: '', flag: '', primaryHex: '#F472B6', emoji: '', countryCode: '', centerLat: '', centerLng: '' })
                       }}
                       className="w-full py-2 border border-gray-200 text-gray-600 rounded-lg hover:bg-gray-50 transition-colors"
                     >
@@ -3276,21 +3379,21 @@ export default function AdminPage() {
         </AnimatePresence>
 
         <TravelWalletModal
-          open={showWallet}
+          open={showWallet || !!walletDraft}
           onClose={(reason) => {
                   setShowWallet(false)
+            setWalletDraft(null)
             if (reason?.dataChanged) window.location.reload()
           }}
           themeColor={themeColor}
-          isAdminUser={isAdminUser}
           onNotify={(msg) => setMessage(msg)}
+          expenseDraft={walletDraft}
         />
 
         <FlightInfoModal
           open={showFlightInfo}
           onClose={() => setShowFlightInfo(false)}
           flights={siteSettings?.flights ?? []}
-          isAdminUser={isAdminUser}
           onSave={async (next) => {
             const r = await saveSettingsAsync({ flights: next })
             setSiteSettings((prev) =>
@@ -3299,6 +3402,7 @@ export default function AdminPage() {
             if (r.success) setMessage({ type: 'success', text: '航班資料已更新' })
             else setMessage({ type: 'error', text: r.error || '同步失敗，資料已寫入本機' })
           }}
+          canEdit={canEditTrips}
         />
 
         {/* 已讚好 Modal */}
@@ -3307,6 +3411,9 @@ export default function AdminPage() {
           onClose={() => setShowMyLikedFood(false)}
         />
 
+        {/* 活動紀錄 */}
+        <ActivityFeed open={showActivityFeed} onClose={() => setShowActivityFeed(false)} />
+
         {/* 美食清單 Popup（個人資料頁面） */}
         <ProfileWishlistPopup
           isOpen={showProfileWishlist}
@@ -3322,8 +3429,10 @@ export default function AdminPage() {
           tripStartDate={siteSettings?.tripStartDate || ''}
           daySchedules={siteSettings?.daySchedules || []}
           themeColor={themeColor}
+          onLogExpense={setWalletDraft}
+          username={currentUser?.username}
           onUpdateDaySchedules={async (newSchedules) => {
-            const { success } = await saveSupabaseSiteSettings({ day_schedules: newSchedules })
+            const { success } = await saveSettingsAsync({ daySchedules: newSchedules })
             if (success) {
               setSiteSettings(prev => prev ? { ...prev, daySchedules: newSchedules } : prev)
             }
@@ -3518,6 +3627,14 @@ export default function AdminPage() {
                                 📅 {new Date(trip.date).toLocaleDateString('zh-TW')} · 📍 {trip.location}
                               </p>
                             </div>
+                            {canManageTrash && (
+                              <button
+                                onClick={() => void handleRestoreFromTrash('trips', trip.id)}
+                                className="ml-2 px-3 py-1.5 text-xs bg-gray-200 hover:bg-gray-300 text-gray-700 rounded-lg transition-colors flex-shrink-0"
+                              >
+                                還原
+                              </button>
+                            )}
                             <button
                               onClick={() => handlePermanentDelete('trips', trip.id, trip.title)}
                               className="ml-2 px-3 py-1.5 text-xs bg-red-500 hover:bg-red-600 text-white rounded-lg transition-colors flex-shrink-0"
@@ -3536,20 +3653,28 @@ export default function AdminPage() {
                         trashItems.users.map((user) => (
                           <div key={user.username} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
                             <div className="flex items-center gap-2">
-                              {user.avatarUrl ? (
-                                <img src={user.avatarUrl} alt="" className="w-8 h-8 rounded-full object-cover" />
+                              {user.avatar_url ? (
+                                <img src={user.avatar_url} alt="" className="w-8 h-8 rounded-full object-cover" />
                               ) : (
                                 <div className="w-8 h-8 rounded-full bg-gray-300 flex items-center justify-center text-white text-xs">
-                                  {user.displayName.charAt(0)}
+                                  {(user.display_name || user.username).charAt(0)}
                                 </div>
                               )}
                               <div>
-                                <p className="font-medium text-gray-800">{user.displayName}</p>
+                                <p className="font-medium text-gray-800">{user.display_name || user.username}</p>
                                 <p className="text-xs text-gray-500">@{user.username}</p>
                               </div>
                             </div>
+                            {canManageTrash && (
+                              <button
+                                onClick={() => void handleRestoreFromTrash('users', user.username)}
+                                className="ml-auto mr-2 px-3 py-1.5 text-xs bg-gray-200 hover:bg-gray-300 text-gray-700 rounded-lg transition-colors"
+                              >
+                                還原
+                              </button>
+                            )}
                             <button
-                              onClick={() => handlePermanentDelete('users', user.username, user.displayName)}
+                              onClick={() => handlePermanentDelete('users', user.username, user.display_name || user.username)}
                               className="px-3 py-1.5 text-xs bg-red-500 hover:bg-red-600 text-white rounded-lg transition-colors"
                             >
                               永久刪除
@@ -3577,6 +3702,14 @@ export default function AdminPage() {
                                 <p className="text-xs text-gray-500">{dest.name_en}</p>
                               </div>
                             </div>
+                            {canManageTrash && (
+                              <button
+                                onClick={() => void handleRestoreFromTrash('destinations', dest.id)}
+                                className="ml-auto mr-2 px-3 py-1.5 text-xs bg-gray-200 hover:bg-gray-300 text-gray-700 rounded-lg transition-colors"
+                              >
+                                還原
+                              </button>
+                            )}
                             <button
                               onClick={() => handlePermanentDelete('destinations', dest.id, dest.name)}
                               className="px-3 py-1.5 text-xs bg-red-500 hover:bg-red-600 text-white rounded-lg transition-colors"
@@ -3615,6 +3748,14 @@ export default function AdminPage() {
                                 </p>
                               </div>
                             </div>
+                            {canManageTrash && (
+                              <button
+                                onClick={() => void handleRestoreFromTrash('wishlist', item.id)}
+                                className="ml-2 px-3 py-1.5 text-xs bg-gray-200 hover:bg-gray-300 text-gray-700 rounded-lg transition-colors flex-shrink-0"
+                              >
+                                還原
+                              </button>
+                            )}
                             <button
                               onClick={() => handlePermanentDelete('wishlist', item.id, item.name)}
                               className="ml-2 px-3 py-1.5 text-xs bg-red-500 hover:bg-red-600 text-white rounded-lg transition-colors flex-shrink-0"
@@ -3627,10 +3768,34 @@ export default function AdminPage() {
                     )}
                   </div>
 
-                  {/* Note */}
+                  {/* Retention */}
                   <p className="text-xs text-gray-400 mt-4 text-center">
-                    ⚠️ 垃圾桶中的項目在永久刪除前不會真正從資料庫移除
+                    ⚠️ 垃圾桶中的項目會保留 {trashRetentionDays ?? DEFAULT_TRASH_RETENTION_DAYS} 天，之後自動永久刪除
                   </p>
+                  {isAdminUser && (
+                    <form
+                      className="mt-3 flex items-center justify-center gap-2 text-xs text-gray-500"
+                      onSubmit={(e) => {
+                        e.preventDefault()
+                        const input = e.currentTarget.elements.namedItem('retentionDays') as HTMLInputElement
+                        void handleSaveTrashRetention(Number(input.value))
+                      }}
+                    >
+                      <label htmlFor="trash-retention-days">保留天數</label>
+                      <input
+                        id="trash-retention-days"
+                        name="retentionDays"
+                        type="number"
+                        min={1}
+                        key={trashRetentionDays ?? 'default'}
+                        defaultValue={trashRetentionDays ?? DEFAULT_TRASH_RETENTION_DAYS}
+                        className="w-16 px-2 py-1 border border-gray-200 rounded-lg text-center"
+                      />
+                      <button type="submit" className="px-2.5 py-1 bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg transition-colors">
+                        儲存
+                      </button>
+                    </form>
+                  )}
 
                   {/* Close Button */}
                   <div className="mt-6 pt-4 border-t border-gray-100">
@@ -3673,7 +3838,7 @@ export default function AdminPage() {
                         取消
                       </button>
                       <button
-                        onClick={confirmPermanentDelete}
+                        onClick={() => void confirmPermanentDelete()}
                         className="flex-1 py-2.5 bg-red-500 hover:bg-red-600 text-white rounded-xl transition-colors font-medium text-sm"
                       >
                         確認刪除
@@ -3787,6 +3952,7 @@ export default function AdminPage() {
                       value={formData.images}
                       onChange={(images) => setFormData(prev => ({ ...prev, images }))}
                       maxImages={5}
+                      folder="trips"
                     />
 
                     {/* Schedule Items */}
@@ -3831,6 +3997,30 @@ export default function AdminPage() {
                               placeholder="輸入行程內容..."
                               className="w-full px-3 py-2 text-sm rounded border border-gray-200 focus:border-sakura-400 outline-none"
                             />
+                            <div className="grid grid-cols-3 gap-2 mt-2">
+                              <input
+                                type="text"
+                                value={item.location}
+                                onChange={(e) => updateScheduleItem(item.id, 'location', e.target.value)}
+                                placeholder="📍 地點"
+                                className="min-w-0 px-2 py-1 text-xs rounded border border-gray-200 focus:border-sakura-400 outline-none"
+                              />
+                              <input
+                                type="text"
+                                inputMode="decimal"
+                                value={item.cost}
+                                onChange={(e) => updateScheduleItem(item.id, 'cost', e.target.value)}
+                                placeholder="💴 費用"
+                                className="min-w-0 px-2 py-1 text-xs rounded border border-gray-200 focus:border-sakura-400 outline-none"
+                              />
+                              <input
+                                type="text"
+                                value={item.booking_ref}
+                                onChange={(e) => updateScheduleItem(item.id, 'booking_ref', e.target.value)}
+                                placeholder="🔖 訂位編號"
+                                className="min-w-0 px-2 py-1 text-xs rounded border border-gray-200 focus:border-sakura-400 outline-none"
+                              />
+                            </div>
                           </div>
                         ))}
                         <button
@@ -3904,13 +4094,7 @@ export default function AdminPage() {
           // Helper to calculate day number
           const getDayNumber = (trip: Trip) => {
             if (!siteSettings?.tripStartDate || !trip.date) return null
-            const startDate = new Date(siteSettings.tripStartDate)
-            const tripDate = new Date(trip.date)
-            startDate.setHours(0, 0, 0, 0)
-            tripDate.setHours(0, 0, 0, 0)
-            const diffTime = tripDate.getTime() - startDate.getTime()
-            const diffDays = Math.floor(diffTime / (1000 * 60 * 60 * 24))
-            return diffDays + 1
+            return getDayNumberForDate(siteSettings.tripStartDate, trip.date)
           }
           
           // Group trips by day number
@@ -4189,7 +4373,7 @@ export default function AdminPage() {
               className="h-full md:h-auto md:max-h-[85vh] md:w-full md:max-w-2xl md:bg-white md:rounded-2xl md:shadow-2xl md:overflow-hidden flex flex-col"
             >
               {/* Scrollable Content */}
-              <div className={`flex-1 overflow-y-auto ${isAdminUser ? 'pb-28 md:pb-4' : 'pb-8 md:pb-4'}`}>
+              <div className={`flex-1 overflow-y-auto ${canEditTrips ? 'pb-28 md:pb-4' : 'pb-8 md:pb-4'}`}>
                 {/* Image Section */}
                 <div className="relative">
                   {(() => {
@@ -4249,12 +4433,7 @@ export default function AdminPage() {
                   <div className="flex items-center gap-2 flex-wrap">
                     {(() => {
                       if (!siteSettings?.tripStartDate || !detailTrip.date) return null
-                      const startDate = new Date(siteSettings.tripStartDate)
-                      const tripDate = new Date(detailTrip.date)
-                      startDate.setHours(0, 0, 0, 0)
-                      tripDate.setHours(0, 0, 0, 0)
-                      const diffTime = tripDate.getTime() - startDate.getTime()
-                      const dayNum = Math.floor(diffTime / (1000 * 60 * 60 * 24)) + 1
+                      const dayNum = getDayNumberForDate(siteSettings.tripStartDate, detailTrip.date)
                       if (dayNum > 0) {
                         return (
                           <span 
@@ -4319,52 +4498,57 @@ export default function AdminPage() {
                   <div className="border-t border-gray-100" />
                   
                   {/* Schedule Items */}
-                  {detailTrip.description && (
-                    <div className="space-y-3">
-                      <h3 className="font-semibold text-gray-800 flex items-center gap-2">
-                        <span>📋</span>
-                        行程明細
-                      </h3>
-                      <div className="space-y-2">
-                        {(() => {
-                          try {
-                            const items = JSON.parse(detailTrip.description)
-                            if (Array.isArray(items) && items.length > 0) {
-                              return items.map((item: any, idx: number) => (
-                                <div 
-                                  key={idx} 
-                                  className="flex items-start gap-3 p-3 bg-white border border-gray-100 rounded-xl"
+                  {(() => {
+                    const items = tripScheduleItems(detailTrip)
+                    const legacyHtml = tripLegacyDescription(detailTrip)
+                    if (items.length === 0 && !legacyHtml) return null
+                    return (
+                      <div className="space-y-3">
+                        <h3 className="font-semibold text-gray-800 flex items-center gap-2">
+                          <span>📋</span>
+                          行程明細
+                        </h3>
+                        <div className="space-y-2">
+                          {items.map((item) => (
+                            <div 
+                              key={item.id} 
+                              className="flex items-start gap-3 p-3 bg-white border border-gray-100 rounded-xl"
+                            >
+                              {(item.time_start || item.time_end) && (
+                                <span 
+                                  className="text-xs font-semibold px-2 py-1 rounded-lg whitespace-nowrap"
+                                  style={{ backgroundColor: `${themeColor}15`, color: themeColor }}
                                 >
-                                  {(item.time_start || item.time_end) && (
-                                    <span 
-                                      className="text-xs font-semibold px-2 py-1 rounded-lg whitespace-nowrap"
-                                      style={{ backgroundColor: `${themeColor}15`, color: themeColor }}
-                                    >
-                                      {item.time_start}{item.time_end ? ` - ${item.time_end}` : ''}
-                                    </span>
-                                  )}
-                                  <span className="text-gray-700 flex-1">{item.content}</span>
-                                </div>
-                              ))
-                            }
-                          } catch {
-                            return (
-                              <div 
-                                className="text-gray-600 bg-gray-50 rounded-xl p-4"
-                                dangerouslySetInnerHTML={{ __html: detailTrip.description }}
-                              />
-                            )
-                          }
-                          return null
-                        })()}
+                                  {formatScheduleTimeRange(item)}
+                                </span>
+                              )}
+                              <div className="flex-1 min-w-0">
+                                <span className="text-gray-700">{item.content}</span>
+                                {(item.location || item.cost || item.booking_ref) && (
+                                  <div className="mt-1 flex flex-wrap gap-x-3 gap-y-0.5 text-xs text-gray-500">
+                                    {item.location && <span className="break-all">📍 {item.location}</span>}
+                                    {item.cost && <span>💴 ¥{Number(item.cost).toLocaleString()}</span>}
+                                    {item.booking_ref && <span className="break-all">🔖 {item.booking_ref}</span>}
+                                  </div>
+                                )}
+                              </div>
+                            </div>
+                          ))}
+                          {legacyHtml && (
+                            <div 
+                              className="text-gray-600 bg-gray-50 rounded-xl p-4"
+                              dangerouslySetInnerHTML={{ __html: legacyHtml }}
+                            />
+                          )}
+                        </div>
                       </div>
-                    </div>
-                  )}
+                    )
+                  })()}
                 </div>
               </div>
               
-              {/* Bottom Action Bar - Fixed (Admin only, mobile) */}
-              {isAdminUser && (
+              {/* Bottom Action Bar - Fixed (trip editors, mobile) */}
+              {canEditTrips && (
                 <div className="md:hidden fixed bottom-0 left-0 right-0 bg-white border-t border-gray-100 px-5 pt-3 pb-6 z-10">
                   <div className="flex gap-3">
                     <button
@@ -4392,7 +4576,7 @@ export default function AdminPage() {
               )}
               
               {/* Desktop Bottom Action Bar */}
-              {isAdminUser && (
+              {canEditTrips && (
                 <div className="hidden md:block border-t border-gray-100 px-5 py-3">
                   <div className="flex gap-3 justify-end">
                     <button
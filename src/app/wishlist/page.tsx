@@ -13,12 +13,13 @@ import {
   createTrip,
   syncTripsFromWishlistItem,
   removeWishlistItemFromItinerary,
+  wishlistItemArea,
   type WishlistItemDB 
 } from '@/lib/supabase'
 import { geocodePlaceName } from '@/lib/geocode'
 import { useQueryClient } from '@tanstack/react-query'
-import { useWishlistItems, useChecklistStates, queryKeys } from '@/hooks/useQueries'
-import { getSettings, getSettingsAsync, type SiteSettings } from '@/lib/settings'
+import { useWishlistItems, useChecklistStates, useCustomAreas, useRealtimeSync, queryKeys } from '@/hooks/useQueries'
+import { getSettings, getSettingsAsync, getCurrentDestination, getDestinationMapCenter, getDestinationTimeZone, type SiteSettings } from '@/lib/settings'
 import { formatTripDaySelectOption, formatTripDayAttachedSummary, formatTripDayListBadge } from '@/lib/tripDayLabels'
 import {
   parseFavoritedBy,
@@ -26,16 +27,20 @@ import {
   wishlistLocalItemHasLikeSignal,
   normalizedEquals,
 } from '@/lib/wishlistLikeUtils'
-import { canEdit, getCurrentUser, isAdmin as checkIsAdmin, isAuthenticated, logout, getUsers, getUsersAsync, getAuthToken, getLoggedInUsername, type User } from '@/lib/auth'
+import { getCurrentUser, isAdmin as checkIsAdmin, isAuthenticated, logout, getUsers, getUsersAsync, getLoggedInUsername, type User } from '@/lib/auth'
+import { can } from '@/lib/permissions'
 import SakuraCanvas from '@/components/SakuraCanvas'
 import ChiikawaPet from '@/components/ChiikawaPet'
 import MultiMediaUpload from '@/components/MultiMediaUpload'
 import ImageSlider from '@/components/ImageSlider'
 import { safeSetItem } from '@/lib/safeStorage'
 import { EMPTY_PLATE_JSON, extractPlainTextFromPlateJson, isPlateJsonEffectivelyEmpty } from '@/lib/plateRich'
+import { createEmptyScheduleItem, scheduleItemsToInput } from '@/lib/tripSchedule'
+import { getDateForDay, todayInTimeZone } from '@/lib/tripCalendar'
 import PlateRichEditor from '@/components/PlateRichEditor'
 import PlateRichView from '@/components/PlateRichView'
-import { TOKYO_DISTRICTS, TOKYO_AREAS } from '@/lib/tokyoDistricts'
+import { getRegions, getAreas, findArea } from '@/lib/destinationDistricts'
+import { DEFAULT_DESTINATION_ID } from '@/lib/currentDestination'
 
 // Main categories
 const CATEGORIES = [
@@ -64,6 +69,8 @@ type WishlistItem = {
   /** Per-user likes: usernames who liked. Each user's like is independent. */
   favoritedBy?: string[]
   addedBy?: { username: string; displayName: string; avatarUrl?: string }
+  /** Server updated_at when loaded; edits are rejected if someone saved in between */
+  updatedAt?: string
 }
 
 type Wishlist = {
@@ -132,7 +139,7 @@ function fromSupabaseFormat(db: WishlistItemDB): WishlistItem {
     imageUrl: db.image_url || undefined,
     link: db.link || undefined,
     category: db.category,
-    area: db.map_link || undefined,
+    area: wishlistItemArea(db) || undefined,
     addedAt: db.created_at,
     addedToDay: db.added_to_trip?.day,
     addedTime: db.added_to_trip?.time,
@@ -143,6 +150,7 @@ function fromSupabaseFormat(db: WishlistItemDB): WishlistItem {
       displayName: db.added_by.display_name,
       avatarUrl: db.added_by.avatar_url,
     } : undefined,
+    updatedAt: db.updated_at || undefined,
   }
 }
 
@@ -154,7 +162,8 @@ function toSupabaseFormat(item: Omit<WishlistItem, 'id' | 'addedAt'>): Omit<Wish
     name: item.name,
     note: item.note || null,
     image_url: item.imageUrl || null,
-    map_link: item.area || null,
+    map_link: null,
+    area: item.area || null,
     link: item.link || null,
     added_to_trip: item.addedToDay ? { day: item.addedToDay, time: item.addedTime || '12:00' } : null,
     added_by: item.addedBy ? {
@@ -187,6 +196,7 @@ function HeartOutline({ className = '' }: { className?: string }) {
 export default function WishlistPage() {
   const router = useRouter()
   const queryClient = useQueryClient()
+  useRealtimeSync()
   const { data: wishlistDbItems, isLoading: isWishlistLoading } = useWishlistItems()
   const { data: checklistData } = useChecklistStates()
   const [activeTab, setActiveTab] = useState('all')
@@ -222,6 +232,10 @@ export default function WishlistPage() {
   const [newItemArea, setNewItemArea] = useState('')
   const [areaDropdownOpen, setAreaDropdownOpen] = useState(false)
   const [areaSearch, setAreaSearch] = useState('')
+  // Area picker / filter follow the current destination (read after mount: localStorage)
+  const [destinationId, setDestinationId] = useState(DEFAULT_DESTINATION_ID)
+  const { data: customAreas = [] } = useCustomAreas()
+  const regions = useMemo(() => getRegions(destinationId, customAreas), [destinationId, customAreas])
   const [isSubmitting, setIsSubmitting] = useState(false)
   /** Blocks double submit on the add/edit form (same frame as rapid taps before React re-renders). */
   const wishlistFormSubmitRef = useRef(false)
@@ -306,6 +320,7 @@ export default function WishlistPage() {
   }, [showTravelNotice, showAddForm, selectedItemPopup])
 
   useEffect(() => {
+    setDestinationId(getCurrentDestination())
     setIsAdmin(checkIsAdmin())
     setCurrentUser(getCurrentUser())
     // Load users for avatar display
@@ -332,17 +347,12 @@ export default function WishlistPage() {
           if (isAdm) {
             fallbackUser = freshUsers.find(u => u.role === 'admin')
           } else {
-            // Parse username from auth token: japan_travel_user_{username}_2024
-            const token = getAuthToken()
-            if (token) {
-              const match = token.match(/^japan_travel_user_(.+)_2024$/)
-              if (match) {
-                const tokenUsername = match[1]
-                fallbackUser = freshUsers.find(u => u.username === tokenUsername)
-              }
+            const tokenUsername = getLoggedInUsername()
+            if (tokenUsername) {
+              fallbackUser = freshUsers.find(u => u.username === tokenUsername)
             }
             if (!fallbackUser) {
-              fallbackUser = freshUsers.find(u => u.role === 'user') || freshUsers[0]
+              fallbackUser = freshUsers.find(u => u.role === 'planner') || freshUsers[0]
             }
           }
           
@@ -589,7 +599,7 @@ export default function WishlistPage() {
         )
           return true
         if (item.area) {
-          const areaData = TOKYO_AREAS.find(a => a.id === item.area)
+          const areaData = findArea(item.area, destinationId, customAreas)
           if (areaData) {
             if (areaData.zh.includes(query)) return true
             if (areaData.en.toLowerCase().includes(query)) return true
@@ -627,10 +637,10 @@ export default function WishlistPage() {
         ? allDb
         : allDb.filter(db => db.category === activeTab)
     const usedAreaIds = new Set(
-      relevantDbItems.map(db => db.map_link).filter(Boolean) as string[]
+      relevantDbItems.map(db => wishlistItemArea(db)).filter(Boolean) as string[]
     )
-    return TOKYO_AREAS.filter(a => usedAreaIds.has(a.id))
-  }, [wishlistDbItems, activeTab])
+    return getAreas(destinationId, customAreas).filter(a => usedAreaIds.has(a.id))
+  }, [wishlistDbItems, activeTab, destinationId, customAreas])
 
   // Reset area filter when the selected area has no items in the new tab
   useEffect(() => {
@@ -735,26 +745,10 @@ export default function WishlistPage() {
     }
   }
   
-  /** Move one wishlist item to admin trash + delete from Supabase (no confirm) */
+  /** Move one wishlist item to the shared trash (soft delete in Supabase, no confirm) */
   const deleteWishlistItemCore = async (item: WishlistItem) => {
-    const savedTrash = localStorage.getItem('admin_trash_bin')
-    const trashData = savedTrash ? JSON.parse(savedTrash) : { trips: [], users: [], destinations: [], wishlist: [] }
-    const trashWishlistItem: WishlistItemDB = {
-      id: Number(item.id),
-      category: item.category,
-      name: item.name,
-      note: item.note || null,
-      image_url: item.imageUrl || null,
-      map_link: null,
-      link: item.link || null,
-      added_to_trip: item.addedToDay ? { day: item.addedToDay, time: item.addedTime || '' } : null,
-      added_by: item.addedBy ? { username: item.addedBy.username, display_name: item.addedBy.displayName, avatar_url: item.addedBy.avatarUrl } : null,
-      is_favorite: item.isFavorite || false,
-      created_at: item.addedAt,
-    }
-    trashData.wishlist = [...(trashData.wishlist || []), { ...trashWishlistItem, deletedAt: new Date().toISOString() }]
-    safeSetItem('admin_trash_bin', JSON.stringify(trashData))
-    await deleteSupabaseWishlistItem(Number(item.id))
+    const { error } = await deleteSupabaseWishlistItem(Number(item.id))
+    if (error) throw new Error(error)
   }
 
   const findWishlistItemByNumericId = (id: number): WishlistItem | undefined => {
@@ -783,7 +777,7 @@ export default function WishlistPage() {
   const handleBulkDeleteSelected = async () => {
     if (!isAdmin || bulkSelectedIds.size === 0) return
     const count = bulkSelectedIds.size
-    if (!confirm(`確定將已選的 ${count} 個美食項目移至垃圾桶並從資料庫刪除？此操作無法復原（請至後台垃圾桶確認）。`)) return
+    if (!confirm(`確定將已選的 ${count} 個美食項目移至垃圾桶？可於後台垃圾桶還原。`)) return
 
     setBulkDeleting(true)
     try {
@@ -849,22 +843,18 @@ export default function WishlistPage() {
           ? `${selectedItemPopup.name}（${notePlain}）`
           : selectedItemPopup.name
         const scheduleItem = {
-          id: `add-${Date.now()}`,
-          content,
-          time_start: addToTripTimeStart || undefined,
-          time_end: addToTripTimeEnd || undefined,
+          ...createEmptyScheduleItem(content),
+          time_start: addToTripTimeStart,
+          time_end: addToTripTimeEnd,
         }
-        let dateStr = new Date().toISOString().split('T')[0]
+        let dateStr = todayInTimeZone(getDestinationTimeZone())
         if (settings?.tripStartDate && settings?.totalDays) {
-          const start = new Date(settings.tripStartDate)
-          const target = new Date(start)
-          target.setDate(start.getDate() + addToTripDay - 1)
-          dateStr = target.toISOString().split('T')[0]
+          dateStr = getDateForDay(settings.tripStartDate, addToTripDay)
         }
         // Use wishlist name for map positioning (geocode) and display
         const coords = await geocodePlaceName(selectedItemPopup.name)
-        const lat = coords?.lat ?? 35.6762
-        const lng = coords?.lng ?? 139.6503
+        const lat = coords?.lat ?? getDestinationMapCenter().lat
+        const lng = coords?.lng ?? getDestinationMapCenter().lng
         const wishlistImages = parseWishlistImages(selectedItemPopup.imageUrl)
         const imageUrlForTrip = wishlistImages.length > 0 ? JSON.stringify(wishlistImages) : undefined
         const { data, error } = await createTrip({
@@ -872,7 +862,8 @@ export default function WishlistPage() {
           date: dateStr,
           time_start: addToTripTimeStart || undefined,
           time_end: addToTripTimeEnd || undefined,
-          description: JSON.stringify([scheduleItem]),
+          description: '',
+          schedule_items: scheduleItemsToInput([scheduleItem]),
           location: selectedItemPopup.name,
           lat,
           lng,
@@ -979,15 +970,38 @@ export default function WishlistPage() {
 
     try {
       const imageUrlValue = newItemImages.length > 0 ? JSON.stringify(newItemImages) : null
-      const { error } = await updateSupabaseWishlistItem(Number(editingItem.id), {
+      const updates = {
         name: newItemName.trim(),
         note: isPlateJsonEffectivelyEmpty(newItemNote) ? null : newItemNote.trim(),
         image_url: imageUrlValue,
         link: newItemUrl.trim() || null,
         category: newItemCategory,
-        map_link: newItemArea || null,
+        area: newItemArea || null,
+      }
+      let { error, conflict } = await updateSupabaseWishlistItem(Number(editingItem.id), updates, {
+        expectedUpdatedAt: editingItem.updatedAt,
       })
 
+      // Someone else saved this item while the form was open
+      if (conflict) {
+        const current = conflict.current
+        if (!current) alert('此項目已被其他人刪除')
+        const overwrite = !!current && confirm(`「${current.name}」在你編輯期間已被其他人修改。\n按「確定」以你的版本覆蓋，按「取消」保留對方的版本。`)
+        if (overwrite) {
+          ;({ error, conflict } = await updateSupabaseWishlistItem(Number(editingItem.id), updates, {
+            expectedUpdatedAt: current?.updated_at,
+          }))
+        }
+        if (conflict) {
+          if (overwrite) alert(conflict.message)
+          setEditingItem(null)
+          resetWishlistFormFields()
+          setShowAddForm(false)
+          await queryClient.invalidateQueries({ queryKey: queryKeys.wishlistItems })
+          return
+        }
+      }
+
       if (error) {
         alert(`更新失敗：${error}`)
         return
@@ -1120,14 +1134,16 @@ export default function WishlistPage() {
                   {bulkSelectMode ? '取消多選' : '多選'}
                 </button>
               )}
-              <button
-                type="button"
-                onClick={openNewWishlistForm}
-                className="flex items-center gap-1.5 px-3 sm:px-4 py-2 bg-sakura-500 hover:bg-sakura-600 text-white rounded-full text-xs sm:text-sm font-medium transition-colors"
-              >
-                <span>+</span>
-                <span className="hidden sm:inline">新增</span>
-              </button>
+              {can(currentUser, 'wishlist.edit') && (
+                <button
+                  type="button"
+                  onClick={openNewWishlistForm}
+                  className="flex items-center gap-1.5 px-3 sm:px-4 py-2 bg-sakura-500 hover:bg-sakura-600 text-white rounded-full text-xs sm:text-sm font-medium transition-colors"
+                >
+                  <span>+</span>
+                  <span className="hidden sm:inline">新增</span>
+                </button>
+              )}
             </div>
           </div>
           
@@ -1204,7 +1220,7 @@ export default function WishlistPage() {
                 const dbList = wishlistDbItems ?? []
                 const relevantDbItems =
                   activeTab === 'all' ? dbList : dbList.filter(db => db.category === activeTab)
-                const count = relevantDbItems.filter(db => db.map_link === area.id).length
+                const count = relevantDbItems.filter(db => wishlistItemArea(db) === area.id).length
                 return (
                   <button
                     key={area.id}
@@ -1232,12 +1248,14 @@ export default function WishlistPage() {
           <div className="text-center py-20">
             <div className="text-6xl mb-4">💝</div>
             <p className="text-gray-500 mb-4">還沒有美食項目</p>
-            <button
-              onClick={openNewWishlistForm}
-              className="px-6 py-2 bg-sakura-500 hover:bg-sakura-600 text-white rounded-full text-sm font-medium transition-colors"
-            >
-              新增第一筆美食
-            </button>
+            {can(currentUser, 'wishlist.edit') && (
+              <button
+                onClick={openNewWishlistForm}
+                className="px-6 py-2 bg-sakura-500 hover:bg-sakura-600 text-white rounded-full text-sm font-medium transition-colors"
+              >
+                新增第一筆美食
+              </button>
+            )}
           </div>
         ) : (
           <>
@@ -1314,7 +1332,7 @@ export default function WishlistPage() {
 
                   {/* Top-right: area badge */}
                   {item.area && (() => {
-                    const areaData = TOKYO_AREAS.find(a => a.id === item.area)
+                    const areaData = findArea(item.area, destinationId, customAreas)
                     return areaData ? (
                       <div className="absolute top-2 right-2 px-2 py-0.5 bg-indigo-500/80 backdrop-blur-sm text-white text-[10px] font-medium rounded-full leading-snug" style={{ fontFamily: "'Noto Sans JP', sans-serif" }}>
                         {areaData.zh}
@@ -1549,7 +1567,7 @@ export default function WishlistPage() {
                     >
                       <span className={newItemArea ? 'text-gray-800' : 'text-gray-400'}>
                         {newItemArea
-                          ? (() => { const a = TOKYO_AREAS.find(x => x.id === newItemArea); return a ? `${a.zh} ${a.en}` : newItemArea })()
+                          ? (() => { const a = findArea(newItemArea, destinationId, customAreas); return a ? `${a.zh} ${a.en}` : newItemArea })()
                           : '選擇地區（可略）'}
                       </span>
                       <span className="text-gray-400 text-xs ml-2">{areaDropdownOpen ? '▲' : '▼'}</span>
@@ -1578,36 +1596,50 @@ export default function WishlistPage() {
                           </button>
                           {(() => {
                             const q = areaSearch.toLowerCase()
-                            const hasResults = TOKYO_DISTRICTS.some(d =>
-                              d.areas.some(a => !q || a.zh.includes(q) || a.en.toLowerCase().includes(q))
-                            )
+                            const matches = (a: { zh: string; en: string }) =>
+                              !q || a.zh.includes(q) || a.en.toLowerCase().includes(q)
+                            const hasResults = regions.some(r => r.districts.some(d => d.areas.some(matches)))
                             if (!hasResults) {
                               return <div className="px-4 py-3 text-sm text-gray-400 text-center">沒有結果</div>
                             }
-                            return TOKYO_DISTRICTS.map(district => {
-                              const filtered = district.areas.filter(a =>
-                                !q || a.zh.includes(q) || a.en.toLowerCase().includes(q)
-                              )
-                              if (filtered.length === 0) return null
+                            return regions.map(region => {
+                              if (!region.districts.some(d => d.areas.some(matches))) return null
                               return (
-                                <div key={district.id}>
-                                  <div className="px-3 py-1.5 text-xs font-semibold text-gray-400 bg-gray-50 flex items-center gap-1 sticky top-0">
-                                    <span>{district.icon}</span>
-                                    <span>{district.label}</span>
-                                    <span className="text-gray-300">·</span>
-                                    <span className="font-normal">{district.en}</span>
-                                  </div>
-                                  {filtered.map(a => (
-                                    <button
-                                      key={a.id}
-                                      type="button"
-                                      onClick={() => { setNewItemArea(a.id); setAreaDropdownOpen(false); setAreaSearch('') }}
-                                      className={`w-full text-left px-5 py-2.5 text-sm hover:bg-sakura-50 flex items-center justify-between transition-colors ${newItemArea === a.id ? 'bg-sakura-50 text-sakura-700 font-medium' : 'text-gray-700'}`}
-                                    >
-                                      <span>{a.zh}</span>
-                                      <span className="text-gray-400 text-xs">{a.en}</span>
-                                    </button>
-                                  ))}
+                                <div key={region.id}>
+                                  {/* Region header only when the destination has several (Tokyo / Kyoto / Osaka…) */}
+                                  {regions.length > 1 && (
+                                    <div className="px-3 pt-2.5 pb-1 text-xs font-bold text-gray-600 flex items-center gap-1">
+                                      <span>{region.icon}</span>
+                                      <span>{region.label}</span>
+                                      <span className="text-gray-300">·</span>
+                                      <span className="font-normal text-gray-400">{region.en}</span>
+                                    </div>
+                                  )}
+                                  {region.districts.map(district => {
+                                    const filtered = district.areas.filter(matches)
+                                    if (filtered.length === 0) return null
+                                    return (
+                                      <div key={district.id}>
+                                        <div className="px-3 py-1.5 text-xs font-semibold text-gray-400 bg-gray-50 flex items-center gap-1 sticky top-0">
+                                          <span>{district.icon}</span>
+                                          <span>{district.label}</span>
+                                          <span className="text-gray-300">·</span>
+                                          <span className="font-normal">{district.en}</span>
+                                        </div>
+                                        {filtered.map(a => (
+                                          <button
+                                            key={a.id}
+                                            type="button"
+                                            onClick={() => { setNewItemArea(a.id); setAreaDropdownOpen(false); setAreaSearch('') }}
+                                            className={`w-full text-left px-5 py-2.5 text-sm hover:bg-sakura-50 flex items-center justify-between transition-colors ${newItemArea === a.id ? 'bg-sakura-50 text-sakura-700 font-medium' : 'text-gray-700'}`}
+                                          >
+                                            <span>{a.zh}</span>
+                                            <span className="text-gray-400 text-xs">{a.en}</span>
+                                          </button>
+                                        ))}
+                                      </div>
+                                    )
+                                  })}
                                 </div>
                               )
                             })
@@ -1622,6 +1654,7 @@ export default function WishlistPage() {
                     value={newItemImages}
                     onChange={setNewItemImages}
                     label="圖片"
+                    folder="wishlist"
                     maxImages={5}
                     className="mb-4"
                   />
@@ -2013,8 +2046,8 @@ export default function WishlistPage() {
                     />
                   )}
                   <div className="absolute top-4 right-4 flex items-center gap-2">
-                    {/* More menu (Edit/Delete) - only for canEdit users */}
-                    {canEdit() && (
+                    {/* More menu (Edit/Delete) - only for wishlist editors */}
+                    {can(currentUser, 'wishlist.edit') && (
                       <div className="relative">
                         <button
                           onClick={() => setPopupMoreMenuOpen(v => !v)}
@@ -2218,7 +2251,7 @@ export default function WishlistPage() {
                       )
                     })()}
                     <div className="flex items-center gap-2">
-                    {canEdit() && (
+                    {can(currentUser, 'wishlist.edit') && (
                       <div className="relative">
                         <button
                           onClick={() => setPopupMoreMenuOpen(v => !v)}
@@ -2291,7 +2324,7 @@ export default function WishlistPage() {
                     {CATEGORIES.find(c => c.id === selectedItemPopup.category)?.name || selectedItemPopup.category}
                   </span>
                   {selectedItemPopup.area && (() => {
-                    const areaData = TOKYO_AREAS.find(a => a.id === selectedItemPopup.area)
+                    const areaData = findArea(selectedItemPopup.area, destinationId, customAreas)
                     return areaData ? (
                       <span className="px-3 py-1 bg-blue-50 text-blue-600 text-xs font-medium rounded-full">
                         📍 {areaData.zh} · {areaData.en}
@@ -0,0 +1,184 @@
+'use client'
+
+import { useState } from 'react'
+import { motion, AnimatePresence } from 'framer-motion'
+import { useActivityLog, useRevertActivity } from '@/hooks/useQueries'
+import { getCurrentUser, getUsers } from '@/lib/auth'
+import { can } from '@/lib/permissions'
+import {
+  ACTIVITY_ACTION_LABELS,
+  ACTIVITY_ENTITY_LABELS,
+  formatActivityValue,
+  isActivityRevertable,
+  type ActivityEntityType,
+  type ActivityLogDB,
+} from '@/lib/activityLog'
+
+const ACTION_STYLES: Record<ActivityLogDB['action'], string> = {
+  create: 'bg-green-100 text-green-700',
+  update: 'bg-blue-100 text-blue-700',
+  delete: 'bg-red-100 text-red-600',
+  restore: 'bg-amber-100 text-amber-700',
+  purge: 'bg-gray-200 text-gray-600',
+}
+
+function formatActivityTime(iso: string): string {
+  const date = new Date(iso)
+  return `${date.getMonth() + 1}/${date.getDate()} ${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`
+}
+
+/** Changed fields as "old → new" (updates only; other actions just show the row label) */
+function ActivityChanges({ entry }: { entry: ActivityLogDB }) {
+  if (entry.action !== 'update' || !entry.after) return null
+  const fields = Object.keys(entry.after)
+  return (
+    <ul className="mt-1.5 space-y-0.5">
+      {fields.map(field => (
+        <li key={field} className="text-xs text-gray-500 break-words">
+          <span className="font-mono text-gray-400">{field}</span>{' '}
+          <span className="line-through decoration-gray-300">{formatActivityValue(entry.before?.[field])}</span>
+          {' → '}
+          <span className="text-gray-700">{formatActivityValue(entry.after?.[field])}</span>
+        </li>
+      ))}
+    </ul>
+  )
+}
+
+type Props = {
+  open: boolean
+  onClose: () => void
+}
+
+/** 活動紀錄：who changed what, filterable by user / type / day; admins can revert an entry */
+export default function ActivityFeed({ open, onClose }: Props) {
+  const [actor, setActor] = useState('')
+  const [entityType, setEntityType] = useState<ActivityEntityType | ''>('')
+  const [day, setDay] = useState('')
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null)
+
+  const { data: entries = [], isLoading } = useActivityLog(
+    { actor: actor || null, entityType: entityType || null, day: day || null },
+    { enabled: open }
+  )
+  const revertMutation = useRevertActivity()
+  const canRevert = can(getCurrentUser(), 'activity.revert')
+  const users = getUsers()
+
+  const handleRevert = async (entry: ActivityLogDB) => {
+    const label = entry.entity_label ? `「${entry.entity_label}」` : ''
+    if (!confirm(`確定要還原${label}的這項${ACTIVITY_ACTION_LABELS[entry.action]}嗎？`)) return
+    const result = await revertMutation.mutateAsync(entry)
+    setMessage(result.success ? { type: 'success', text: '已還原此變更' } : { type: 'error', text: result.error || '還原失敗' })
+  }
+
+  return (
+    <AnimatePresence>
+      {open && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4"
+          onClick={(e) => {
+            if (e.target === e.currentTarget) onClose()
+          }}
+        >
+          <motion.div
+            initial={{ opacity: 0, scale: 0.95, y: 20 }}
+            animate={{ opacity: 1, scale: 1, y: 0 }}
+            exit={{ opacity: 0, scale: 0.95, y: 20 }}
+            className="bg-white rounded-2xl shadow-xl w-full max-w-lg max-h-[80vh] overflow-hidden flex flex-col"
+          >
+            <div className="p-4 border-b border-gray-100 flex-shrink-0">
+              <div className="flex items-center justify-between">
+                <h3 className="text-lg font-medium text-gray-800">📝 活動紀錄</h3>
+                <button
+                  type="button"
+                  onClick={onClose}
+                  className="w-9 h-9 flex items-center justify-center text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded-full transition-colors"
+                  aria-label="關閉"
+                >
+                  ✕
+                </button>
+              </div>
+              <div className="mt-3 grid grid-cols-3 gap-2">
+                <select
+                  value={actor}
+                  onChange={(e) => setActor(e.target.value)}
+                  className="px-2 py-1.5 text-xs border border-gray-200 rounded-lg bg-white"
+                  aria-label="用戶"
+                >
+                  <option value="">所有用戶</option>
+                  {users.map(user => (
+                    <option key={user.username} value={user.username}>{user.displayName || user.username}</option>
+                  ))}
+                </select>
+                <select
+                  value={entityType}
+                  onChange={(e) => setEntityType(e.target.value as ActivityEntityType | '')}
+                  className="px-2 py-1.5 text-xs border border-gray-200 rounded-lg bg-white"
+                  aria-label="類型"
+                >
+                  <option value="">所有類型</option>
+                  {(Object.keys(ACTIVITY_ENTITY_LABELS) as ActivityEntityType[]).map(type => (
+                    <option key={type} value={type}>{ACTIVITY_ENTITY_LABELS[type]}</option>
+                  ))}
+                </select>
+                <input
+                  type="date"
+                  value={day}
+                  onChange={(e) => setDay(e.target.value)}
+                  className="px-2 py-1.5 text-xs border border-gray-200 rounded-lg"
+                  aria-label="日期"
+                />
+              </div>
+              {message && (
+                <p className={`mt-2 text-xs ${message.type === 'success' ? 'text-green-600' : 'text-red-500'}`}>{message.text}</p>
+              )}
+            </div>
+
+            <div className="flex-1 overflow-y-auto modal-scroll overscroll-contain p-4">
+              {isLoading ? (
+                <div className="flex justify-center py-12">
+                  <div className="w-8 h-8 border-4 border-sakura-300 border-t-sakura-600 rounded-full animate-spin" />
+                </div>
+              ) : entries.length === 0 ? (
+                <p className="text-center text-gray-400 py-8">沒有符合的紀錄</p>
+              ) : (
+                <div className="space-y-2">
+                  {entries.map(entry => (
+                    <div key={entry.id} className="p-3 bg-gray-50 rounded-lg">
+                      <div className="flex items-center gap-2 flex-wrap">
+                        <span className={`text-xs px-1.5 py-0.5 rounded ${ACTION_STYLES[entry.action]}`}>
+                          {ACTIVITY_ACTION_LABELS[entry.action]}
+                        </span>
+                        <span className="text-xs text-gray-500">{ACTIVITY_ENTITY_LABELS[entry.entity_type] ?? entry.entity_type}</span>
+                        <span className="text-sm text-gray-800 truncate flex-1 min-w-0">{entry.entity_label || `#${entry.entity_id}`}</span>
+                      </div>
+                      <p className="mt-1 text-xs text-gray-400">
+                        {entry.actor_display_name || entry.actor_username || '未知用戶'} · {formatActivityTime(entry.created_at)}
+                        {entry.reverts_id != null && ' · 還原操作'}
+                      </p>
+                      <ActivityChanges entry={entry} />
+                      {canRevert && isActivityRevertable(entry) && (
+                        <button
+                          type="button"
+                          onClick={() => void handleRevert(entry)}
+                          disabled={revertMutation.isPending}
+                          className="mt-2 px-3 py-1 text-xs bg-amber-500 hover:bg-amber-600 disabled:opacity-50 text-white rounded-lg transition-colors"
+                        >
+                          還原此變更
+                        </button>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  )
+}
@@ -0,0 +1,165 @@
+'use client'
+
+import { useEffect, useMemo, useState } from 'react'
+import { useCustomAreas, useCreateCustomArea, useDeleteCustomArea } from '@/hooks/useQueries'
+import { getRegions, CUSTOM_REGION_ID } from '@/lib/destinationDistricts'
+import { getCurrentUser } from '@/lib/auth'
+import { can } from '@/lib/permissions'
+
+type CustomAreaManagerProps = {
+  destinationId: string
+  destinationName?: string
+  onNotify?: (msg: { type: 'success' | 'error'; text: string }) => void
+}
+
+/**
+ * 自訂地區：管理員可為目的地的某個城市／地區新增美食清單可選的地區。
+ * Built-in datasets live in destinationDistricts.ts; these rows are merged on top.
+ */
+export default function CustomAreaManager({ destinationId, destinationName, onNotify }: CustomAreaManagerProps) {
+  const { data: customAreas = [] } = useCustomAreas()
+  const createArea = useCreateCustomArea()
+  const deleteArea = useDeleteCustomArea()
+  const [regionId, setRegionId] = useState('')
+  const [districtId, setDistrictId] = useState('')
+  const [zh, setZh] = useState('')
+  const [en, setEn] = useState('')
+  const [canManage, setCanManage] = useState(false)
+
+  useEffect(() => {
+    setCanManage(can(getCurrentUser(), 'settings.edit'))
+  }, [])
+
+  // Built-in regions only, so the pickers don't list the "自訂" buckets twice
+  const regions = useMemo(() => {
+    const builtin = getRegions(destinationId)
+    return builtin.length > 0
+      ? builtin
+      : [{ id: CUSTOM_REGION_ID, destinationId, label: '自訂地區', en: 'Custom', icon: '📍', districts: [] }]
+  }, [destinationId])
+
+  // Reset the pickers when switching destination
+  useEffect(() => {
+    setRegionId(regions[0]?.id || '')
+    setDistrictId('')
+  }, [regions])
+
+  const region = regions.find(r => r.id === regionId)
+  const ownAreas = customAreas.filter(a => a.destination_id === destinationId)
+
+  const notify = (msg: { type: 'success' | 'error'; text: string }) => {
+    if (onNotify) onNotify(msg)
+    else if (msg.type === 'error') alert(msg.text)
+  }
+
+  const handleAdd = async () => {
+    if (!zh.trim() || !regionId) return
+    const result = await createArea.mutateAsync({
+      destination_id: destinationId,
+      region_id: regionId,
+      district_id: districtId || null,
+      zh,
+      en: en || null,
+    })
+    if (!result.data) {
+      notify({ type: 'error', text: `新增地區失敗：${result.error || '未知錯誤'}` })
+      return
+    }
+    setZh('')
+    setEn('')
+    notify({ type: 'success', text: `已新增地區「${result.data.zh}」` })
+  }
+
+  const handleDelete = async (id: number, name: string) => {
+    if (!confirm(`確定刪除地區「${name}」？已標記此地區的美食不會被刪除，但會顯示為未分類。`)) return
+    const result = await deleteArea.mutateAsync(id)
+    if (!result.success) notify({ type: 'error', text: `刪除地區失敗：${result.error || '未知錯誤'}` })
+  }
+
+  if (!canManage) return null
+
+  const regionLabel = (id: string) => regions.find(r => r.id === id)?.label || '自訂地區'
+  const districtLabel = (rId: string, dId: string | null) =>
+    (dId && regions.find(r => r.id === rId)?.districts.find(d => d.id === dId)?.label) || '自訂'
+
+  return (
+    <div className="border-t border-gray-100 pt-4 mt-6">
+      <h4 className="text-sm font-medium text-gray-700 mb-1">📍 自訂地區</h4>
+      <p className="text-xs text-gray-400 mb-3">
+        新增後可在{destinationName ? `「${destinationName}」的` : ''}美食清單選擇此地區
+      </p>
+
+      {ownAreas.length > 0 && (
+        <div className="space-y-1.5 mb-3">
+          {ownAreas.map(area => (
+            <div key={area.id} className="flex items-center justify-between px-3 py-2 rounded-lg bg-gray-50 text-sm">
+              <div className="min-w-0">
+                <span className="text-gray-800">{area.zh}</span>
+                {area.en && <span className="text-xs text-gray-400 ml-1.5">{area.en}</span>}
+                <span className="block text-xs text-gray-400">
+                  {regionLabel(area.region_id)} · {districtLabel(area.region_id, area.district_id)}
+                </span>
+              </div>
+              <button
+                type="button"
+                onClick={() => handleDelete(area.id, area.zh)}
+                className="text-xs text-gray-300 hover:text-red-500 shrink-0 ml-2"
+                title="刪除地區"
+              >
+                ✕
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="space-y-3">
+        <div className="grid grid-cols-2 gap-3">
+          <select
+            value={regionId}
+            onChange={(e) => { setRegionId(e.target.value); setDistrictId('') }}
+            className="px-3 py-2 text-sm border border-gray-200 rounded-lg focus:border-sakura-400 outline-none bg-white"
+          >
+            {regions.map(r => (
+              <option key={r.id} value={r.id}>{r.icon} {r.label}</option>
+            ))}
+          </select>
+          <select
+            value={districtId}
+            onChange={(e) => setDistrictId(e.target.value)}
+            className="px-3 py-2 text-sm border border-gray-200 rounded-lg focus:border-sakura-400 outline-none bg-white"
+          >
+            <option value="">自訂分類</option>
+            {region?.districts.map(d => (
+              <option key={d.id} value={d.id}>{d.label}</option>
+            ))}
+          </select>
+        </div>
+        <div className="grid grid-cols-2 gap-3">
+          <input
+            type="text"
+            placeholder="地區名稱（中文）"
+            value={zh}
+            onChange={(e) => setZh(e.target.value)}
+            className="px-3 py-2 text-sm border border-gray-200 rounded-lg focus:border-sakura-400 outline-none"
+          />
+          <input
+            type="text"
+            placeholder="English name"
+            value={en}
+            onChange={(e) => setEn(e.target.value)}
+            className="px-3 py-2 text-sm border border-gray-200 rounded-lg focus:border-sakura-400 outline-none"
+          />
+        </div>
+        <button
+          type="button"
+          onClick={() => void handleAdd()}
+          disabled={!zh.trim() || createArea.isPending}
+          className="w-full py-2 text-sm bg-sakura-500 hover:bg-sakura-600 disabled:opacity-50 text-white rounded-lg transition-colors"
+        >
+          新增地區
+        </button>
+      </div>
+    </div>
+  )
+}
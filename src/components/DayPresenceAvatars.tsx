@@ -0,0 +1,41 @@
+'use client'
+
+import type { PresenceViewer } from '@/lib/supabase'
+
+const MAX_SHOWN = 3
+
+/** 正在看這一天的旅伴（realtime presence） — small overlapping avatars for a day tab */
+export default function DayPresenceAvatars({ viewers, className = '' }: { viewers?: PresenceViewer[]; className?: string }) {
+  if (!viewers || viewers.length === 0) return null
+
+  const shown = viewers.slice(0, MAX_SHOWN)
+  const names = viewers.map(v => v.displayName || v.username).join('、')
+
+  return (
+    <div className={`flex -space-x-1.5 ${className}`} title={`${names} 正在查看`}>
+      {shown.map(viewer =>
+        viewer.avatarUrl ? (
+          <img
+            key={viewer.username}
+            src={viewer.avatarUrl}
+            alt=""
+            className="w-4 h-4 rounded-full object-cover ring-2 ring-white"
+            loading="lazy"
+          />
+        ) : (
+          <div
+            key={viewer.username}
+            className="w-4 h-4 rounded-full bg-sakura-400 ring-2 ring-white flex items-center justify-center text-white text-[8px] font-medium"
+          >
+            {(viewer.displayName || viewer.username).charAt(0)}
+          </div>
+        )
+      )}
+      {viewers.length > MAX_SHOWN && (
+        <div className="w-4 h-4 rounded-full bg-gray-500 ring-2 ring-white flex items-center justify-center text-white text-[8px] font-medium">
+          +{viewers.length - MAX_SHOWN}
+        </div>
+      )}
+    </div>
+  )
+}
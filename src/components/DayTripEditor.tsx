@@ -6,6 +6,7 @@ import { updateTrip } from '@/lib/supabase'
 import { queryKeys } from '@/hooks/useQueries'
 import { saveSettingsAsync } from '@/lib/settings'
 import type { Trip } from '@/lib/supabase'
+import { formatTripMonthDay, getDateForDay, isSameTripDate } from '@/lib/tripCalendar'
 
 interface DaySchedule {
   dayNumber: number
@@ -22,28 +23,6 @@ interface DayTripEditorProps {
   onTripsChange: (trips: Trip[]) => void
 }
 
-function getDateForDay(tripStartDate: string, dayNumber: number): string {
-  if (!tripStartDate) return ''
-  const startDate = new Date(tripStartDate)
-  const targetDate = new Date(startDate)
-  targetDate.setDate(startDate.getDate() + dayNumber - 1)
-  return targetDate.toISOString().split('T')[0]
-}
-
-function getDayFromDate(tripStartDate: string, dateStr: string): number {
-  if (!tripStartDate || !dateStr) return 1
-  const start = new Date(tripStartDate)
-  const target = new Date(dateStr)
-  const diff = Math.floor((target.getTime() - start.getTime()) / (1000 * 60 * 60 * 24))
-  return diff + 1
-}
-
-function formatDate(dateStr: string): string {
-  if (!dateStr) return ''
-  const d = new Date(dateStr)
-  return `${d.getMonth() + 1}/${d.getDate()}`
-}
-
 export default function DayTripEditor({
   totalDays,
   tripStartDate,
@@ -63,7 +42,7 @@ export default function DayTripEditor({
   const getTripsForDay = (dayNum: number) => {
     const targetDate = getDateForDay(tripStartDate, dayNum)
     return trips
-      .filter(t => new Date(t.date).toISOString().split('T')[0] === targetDate)
+      .filter(t => isSameTripDate(t.date, targetDate))
       .sort((a, b) => {
         if (!a.time_start && !b.time_start) return (a.created_at || '').localeCompare(b.created_at || '')
         if (!a.time_start) return 1
@@ -88,8 +67,8 @@ export default function DayTripEditor({
     await saveSettingsAsync({ daySchedules: newSchedules })
 
     // Swap trips between days
-    const tripsA = trips.filter(t => new Date(t.date).toISOString().split('T')[0] === dateA)
-    const tripsB = trips.filter(t => new Date(t.date).toISOString().split('T')[0] === dateB)
+    const tripsA = trips.filter(t => isSameTripDate(t.date, dateA))
+    const tripsB = trips.filter(t => isSameTripDate(t.date, dateB))
 
     const updatedTrips = [...trips]
     for (const trip of tripsA) {
@@ -188,7 +167,7 @@ export default function DayTripEditor({
 
               {/* Date Badge */}
               <span className="shrink-0 text-xs font-medium bg-sakura-100 text-sakura-600 px-2 py-0.5 rounded-full">
-                {formatDate(dateStr)}
+                {formatTripMonthDay(dateStr)}
               </span>
 
               {/* Day Number + Theme */}
@@ -0,0 +1,27 @@
+'use client'
+
+import { describeWeatherCode, formatDailyWeather, type PlaceWeather } from '@/lib/weather'
+
+/** 當天天氣 — icon with high/low and rain chance for a day tab; the title lists every place */
+export default function DayWeatherBadge({ weather, className = '' }: { weather?: PlaceWeather[]; className?: string }) {
+  if (!weather || weather.length === 0) return null
+
+  const [main] = weather
+  const { icon } = describeWeatherCode(main.code)
+  const title = weather.map(w => (w.place ? `${w.place}：${formatDailyWeather(w)}` : formatDailyWeather(w))).join('\n')
+
+  return (
+    <span className={`flex items-center justify-center gap-1 ${className}`} title={title}>
+      <span className="text-sm">{icon}</span>
+      {main.tempMax != null && main.tempMin != null && (
+        <span className="text-[10px] leading-none">
+          {Math.round(main.tempMax)}°/{Math.round(main.tempMin)}°
+        </span>
+      )}
+      {main.precipitationChance != null && main.precipitationChance > 0 && (
+        <span className="text-[10px] leading-none opacity-80">💧{Math.round(main.precipitationChance)}%</span>
+      )}
+      {main.source === 'climate' && <span className="text-[9px] leading-none opacity-60">均</span>}
+    </span>
+  )
+}
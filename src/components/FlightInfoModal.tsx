@@ -30,7 +30,9 @@ function FlightListCard({
       flight.depDate,
       flight.depTime,
       flight.arrDate,
-      flight.arrTime
+      flight.arrTime,
+      flight.depCode,
+      flight.arrCode
     ) ||
     '—'
 
@@ -377,8 +379,8 @@ export type FlightInfoModalProps = {
   onClose: () => void
   flights: FlightRecord[]
   onSave: (next: FlightRecord[]) => Promise<void>
-  /** 僅管理員可看見「新增航班」與表單 */
-  isAdminUser?: boolean
+  /** 可編輯行程者才看見「新增航班」與表單 */
+  canEdit?: boolean
 }
 
 export default function FlightInfoModal({
@@ -386,7 +388,7 @@ export default function FlightInfoModal({
   onClose,
   flights,
   onSave,
-  isAdminUser = false,
+  canEdit = false,
 }: FlightInfoModalProps) {
   const [list, setList] = useState<FlightRecord[]>(flights)
   const [showAddForm, setShowAddForm] = useState(false)
@@ -414,8 +416,8 @@ export default function FlightInfoModal({
   }, [open, flights])
 
   useEffect(() => {
-    if (open && !isAdminUser) setShowAddForm(false)
-  }, [open, isAdminUser])
+    if (open && !canEdit) setShowAddForm(false)
+  }, [open, canEdit])
 
   const handleAdd = async () => {
     if (!form.flightNumber.trim()) {
@@ -506,10 +508,10 @@ export default function FlightInfoModal({
             <div className="flex-1 min-h-0 overflow-y-auto overscroll-y-contain modal-scroll p-4 space-y-4">
               {list.length > 0 && (
                 <div
-                  className={`flex items-center mb-1 ${isAdminUser ? 'justify-between' : ''}`}
+                  className={`flex items-center mb-1 ${canEdit ? 'justify-between' : ''}`}
                 >
                   <p className="text-xs font-medium text-gray-500">航班列表</p>
-                  {isAdminUser && (
+                  {canEdit && (
                     <button
                       type="button"
                       onClick={() => setShowAddForm((v) => !v)}
@@ -523,7 +525,7 @@ export default function FlightInfoModal({
               )}
 
               <AnimatePresence>
-                {isAdminUser && showAddForm && (
+                {canEdit && showAddForm && (
                   <motion.div
                     initial={{ opacity: 0, height: 0 }}
                     animate={{ opacity: 1, height: 'auto' }}
@@ -583,7 +585,7 @@ export default function FlightInfoModal({
                         <FlightListCard
                           key={f.id}
                           flight={f}
-                          onDelete={isAdminUser ? () => handleRemove(f.id) : undefined}
+                          onDelete={canEdit ? () => handleRemove(f.id) : undefined}
                         />
                       ))
                     ) : (
@@ -597,9 +599,9 @@ export default function FlightInfoModal({
                 !showAddForm && (
                   <div className="text-center py-8">
                     <p className="text-sm text-gray-500 mb-4">
-                      {isAdminUser ? '尚無航班，請新增' : '尚無航班資料'}
+                      {canEdit ? '尚無航班，請新增' : '尚無航班資料'}
                     </p>
-                    {isAdminUser && (
+                    {canEdit && (
                       <button
                         type="button"
                         onClick={() => setShowAddForm(true)}
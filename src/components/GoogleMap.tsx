@@ -4,18 +4,14 @@ import { useState, useCallback, useEffect, useRef } from 'react'
 import { GoogleMap, useJsApiLoader, Marker, InfoWindow, DirectionsRenderer, TrafficLayer } from '@react-google-maps/api'
 import type { Trip } from '@/lib/supabase'
 import HomeStayLinks from '@/components/HomeStayLinks'
+import { getDestinationCountryCode, getDestinationMapCenter } from '@/lib/settings'
+import { tripLegacyDescription, tripScheduleItems } from '@/lib/tripSchedule'
 
 const containerStyle = {
   width: '100%',
   height: '100%',
 }
 
-// Tokyo coordinates as default center
-const tokyoCenter = {
-  lat: 35.6762,
-  lng: 139.6503,
-}
-
 const mapStyles = [
   {
     featureType: 'all',
@@ -57,13 +53,16 @@ interface GoogleMapComponentProps {
   homeLocation?: HomeLocation
   selectedTripId?: number | null
   onTripSelect?: (id: number | null) => void
+  /** 「記一筆」 at the selected stop */
+  onLogExpense?: (trip: Trip) => void
 }
 
 export default function GoogleMapComponent({ 
   trips, 
   homeLocation,
   selectedTripId,
-  onTripSelect 
+  onTripSelect,
+  onLogExpense,
 }: GoogleMapComponentProps) {
   const [selectedTrip, setSelectedTrip] = useState<Trip | null>(null)
   const [showHomeInfo, setShowHomeInfo] = useState(false)
@@ -84,6 +83,9 @@ export default function GoogleMapComponent({
     steps?: google.maps.DirectionsStep[]
   } | null>(null)
   
+  // Default center follows the current destination; stable object so the map doesn't re-pan on render
+  const [destinationCenter] = useState(() => getDestinationMapCenter())
+
   // Refs to prevent map jumping
   const initialBoundsSet = useRef(false)
   const lastTripIds = useRef<string>('')
@@ -255,7 +257,7 @@ export default function GoogleMapComponent({
     const service = new google.maps.places.PlacesService(map)
     const request = {
       query: searchQuery,
-      region: 'jp', // Prefer Japan results
+      region: getDestinationCountryCode()?.toLowerCase(), // Prefer results in the current destination
     }
     
     service.textSearch(request, (results, status) => {
@@ -321,13 +323,13 @@ export default function GoogleMapComponent({
           google.maps.event.removeListener(listener)
         })
       } else {
-        map.setCenter(tokyoCenter)
-        map.setZoom(12)
+        map.setCenter(destinationCenter)
+        map.setZoom(destinationCenter.zoom)
       }
       initialBoundsSet.current = true
       lastTripIds.current = trips.map(t => t.id).join(',')
     }
-  }, [trips, homeLocation])
+  }, [trips, homeLocation, destinationCenter])
   
   // Only refit bounds when trips list significantly changes (different day selected)
   useEffect(() => {
@@ -413,8 +415,8 @@ export default function GoogleMapComponent({
     <div className="relative w-full h-full">
       <GoogleMap
         mapContainerStyle={containerStyle}
-        center={tokyoCenter}
-        zoom={12}
+        center={destinationCenter}
+        zoom={destinationCenter.zoom}
         onLoad={onLoad}
         onUnmount={onUnmount}
         options={{
@@ -681,42 +683,38 @@ export default function GoogleMapComponent({
                 {/* Description - Parse JSON schedule items with dropdown for 3+ items */}
                 <div className="text-sm text-gray-700">
                   {(() => {
-                    if (!selectedTrip.description) return null
-                    try {
-                      const items = JSON.parse(selectedTrip.description)
-                      if (Array.isArray(items) && items.length > 0) {
-                        const displayItems = showAllScheduleItems ? items : items.slice(0, 2)
-                        return (
-                          <>
-                            {displayItems.map((item: any, idx: number) => (
-                              <div key={idx} className="text-xs mb-1">
-                                {item.time_start && <span className="text-blue-600">{item.time_start} </span>}
-                                <span>{item.content}</span>
-                              </div>
-                            ))}
-                            {items.length > 2 && (
-                              <button
-                                onClick={(e) => {
-                                  e.stopPropagation()
-                                  setShowAllScheduleItems(!showAllScheduleItems)
-                                }}
-                                className="text-xs text-sakura-500 hover:text-sakura-600 mt-1 flex items-center gap-1"
-                              >
-                                {showAllScheduleItems ? (
-                                  <>收起 ▲</>
-                                ) : (
-                                  <>查看更多 ({items.length - 2}) ▼</>
-                                )}
-                              </button>
-                            )}
-                          </>
-                        )
-                      }
-                    } catch {
+                    const items = tripScheduleItems(selectedTrip)
+                    if (items.length === 0) {
                       // Legacy: plain text or HTML
-                      return <span className="text-xs" dangerouslySetInnerHTML={{ __html: selectedTrip.description }} />
+                      const legacyHtml = tripLegacyDescription(selectedTrip)
+                      return legacyHtml ? <span className="text-xs" dangerouslySetInnerHTML={{ __html: legacyHtml }} /> : null
                     }
-                    return null
+                    const displayItems = showAllScheduleItems ? items : items.slice(0, 2)
+                    return (
+                      <>
+                        {displayItems.map((item) => (
+                          <div key={item.id} className="text-xs mb-1">
+                            {item.time_start && <span className="text-blue-600">{item.time_start} </span>}
+                            <span>{item.content}</span>
+                          </div>
+                        ))}
+                        {items.length > 2 && (
+                          <button
+                            onClick={(e) => {
+                              e.stopPropagation()
+                              setShowAllScheduleItems(!showAllScheduleItems)
+                            }}
+                            className="text-xs text-sakura-500 hover:text-sakura-600 mt-1 flex items-center gap-1"
+                          >
+                            {showAllScheduleItems ? (
+                              <>收起 ▲</>
+                            ) : (
+                              <>查看更多 ({items.length - 2}) ▼</>
+                            )}
+                          </button>
+                        )}
+                      </>
+                    )
                   })()}
                 </div>
                 
@@ -734,6 +732,14 @@ export default function GoogleMapComponent({
                       {routeInfo.arrivalTime && <p>🏁 抵達時間：{routeInfo.arrivalTime}</p>}
                     </div>
                   )}
+                  {onLogExpense && (
+                    <button
+                      onClick={() => onLogExpense(selectedTrip)}
+                      className="w-full mb-2 py-1.5 bg-amber-500 hover:bg-amber-600 text-white rounded text-xs font-medium transition-colors"
+                    >
+                      💴 在這裡記一筆
+                    </button>
+                  )}
                   <div className="flex gap-2">
                     {routeInfo ? (
                       <button
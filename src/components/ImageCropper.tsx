@@ -9,6 +9,13 @@ interface ImageCropperProps {
   onCropComplete: (croppedImageDataUrl: string) => void
   onCancel: () => void
   aspectRatio?: number
+  /** Defaults are for avatars: round, 200px */
+  title?: string
+  cropShape?: 'round' | 'rect'
+  /** Longest side of the output in px */
+  maxSize?: number
+  /** Shows a button that keeps the whole image */
+  onSkip?: () => void
 }
 
 // Create canvas and get cropped image
@@ -31,10 +38,10 @@ const getCroppedImg = async (
     throw new Error('No 2d context')
   }
 
-  // Set canvas size to desired output size (compressed)
-  const outputSize = Math.min(maxSize, Math.max(pixelCrop.width, pixelCrop.height))
-  canvas.width = outputSize
-  canvas.height = outputSize
+  // Set canvas size to desired output size (compressed), keeping the crop's aspect ratio
+  const scale = Math.min(1, maxSize / Math.max(pixelCrop.width, pixelCrop.height))
+  canvas.width = Math.round(pixelCrop.width * scale)
+  canvas.height = Math.round(pixelCrop.height * scale)
 
   // Draw the cropped image
   ctx.drawImage(
@@ -45,8 +52,8 @@ const getCroppedImg = async (
     pixelCrop.height,
     0,
     0,
-    outputSize,
-    outputSize
+    canvas.width,
+    canvas.height
   )
 
   // Return as JPEG data URL with compression for smaller file size
@@ -58,6 +65,10 @@ export default function ImageCropper({
   onCropComplete,
   onCancel,
   aspectRatio = 1,
+  title = '裁剪頭像',
+  cropShape = 'round',
+  maxSize = 200,
+  onSkip,
 }: ImageCropperProps) {
   const [crop, setCrop] = useState<Point>({ x: 0, y: 0 })
   const [zoom, setZoom] = useState(1)
@@ -81,7 +92,7 @@ export default function ImageCropper({
 
     setIsProcessing(true)
     try {
-      const croppedImage = await getCroppedImg(imageSrc, croppedAreaPixels, 200)
+      const croppedImage = await getCroppedImg(imageSrc, croppedAreaPixels, maxSize)
       onCropComplete(croppedImage)
     } catch (e) {
       console.error('Error cropping image:', e)
@@ -89,14 +100,14 @@ export default function ImageCropper({
     } finally {
       setIsProcessing(false)
     }
-  }, [imageSrc, croppedAreaPixels, onCropComplete])
+  }, [imageSrc, croppedAreaPixels, onCropComplete, maxSize])
 
   return (
-    <div className="fixed inset-0 z-[60] bg-black/70 flex items-center justify-center p-4">
+    <div className="fixed inset-0 z-[80] bg-black/70 flex items-center justify-center p-4">
       <div className="bg-white rounded-2xl w-full max-w-md overflow-hidden shadow-xl">
         {/* Header */}
         <div className="px-4 py-3 border-b border-gray-200 flex items-center justify-between">
-          <h3 className="text-lg font-semibold text-gray-800">裁剪頭像</h3>
+          <h3 className="text-lg font-semibold text-gray-800">{title}</h3>
           <button
             onClick={onCancel}
             className="text-gray-400 hover:text-gray-600 transition-colors"
@@ -117,7 +128,7 @@ export default function ImageCropper({
             onCropChange={onCropChange}
             onZoomChange={onZoomChange}
             onCropComplete={onCropAreaComplete}
-            cropShape="round"
+            cropShape={cropShape}
             showGrid={false}
           />
         </div>
@@ -152,6 +163,14 @@ export default function ImageCropper({
           >
             取消
           </button>
+          {onSkip && (
+            <button
+              onClick={onSkip}
+              className="flex-1 px-4 py-2.5 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors font-medium"
+            >
+              使用原圖
+            </button>
+          )}
           <button
             onClick={handleSave}
             disabled={isProcessing}
@@ -2,6 +2,8 @@
 
 import { useState, useEffect } from 'react'
 import { motion, AnimatePresence } from 'framer-motion'
+import { blurhashPlaceholderStyle } from '@/lib/imageStorage'
+import { storedImageSrc, storedImageSrcSet } from '@/lib/storedImage'
 
 interface ImageSliderProps {
   images: string[]
@@ -12,6 +14,7 @@ interface ImageSliderProps {
   hideArrows?: boolean // Hide navigation arrows (useful for card view on mobile)
   largeArrows?: boolean // Larger, always-visible arrows for popup/detail view
   priority?: boolean // True for above-fold images — enables eager loading
+  sizes?: string // <img sizes> for picking a thumbnail of uploaded images
 }
 
 export default function ImageSlider({
@@ -23,6 +26,7 @@ export default function ImageSlider({
   hideArrows = false,
   largeArrows = false,
   priority = false,
+  sizes = '(max-width: 768px) 100vw, 640px',
 }: ImageSliderProps) {
   const [currentIndex, setCurrentIndex] = useState(0)
 
@@ -59,8 +63,11 @@ export default function ImageSlider({
     return (
       <div className={`relative overflow-hidden ${className}`}>
         <img
-          src={images[0]}
+          src={storedImageSrc(images[0])}
+          srcSet={storedImageSrcSet(images[0])}
+          sizes={sizes}
           alt="Trip"
+          style={blurhashPlaceholderStyle(images[0])}
           className="w-full h-full object-cover"
           loading={priority ? 'eager' : 'lazy'}
           onError={(e) => {
@@ -85,8 +92,11 @@ export default function ImageSlider({
           <AnimatePresence key={index}>
             {index === currentIndex && (
               <motion.img
-                src={img}
+                src={storedImageSrc(img)}
+                srcSet={storedImageSrcSet(img)}
+                sizes={sizes}
                 alt={`Slide ${index + 1}`}
+                style={blurhashPlaceholderStyle(img)}
                 initial={{ opacity: 0 }}
                 animate={{ opacity: 1 }}
                 exit={{ opacity: 0 }}
@@ -102,7 +112,9 @@ export default function ImageSlider({
         ))}
         {/* Placeholder to maintain size */}
         <img
-          src={images[0]}
+          src={storedImageSrc(images[0])}
+          srcSet={storedImageSrcSet(images[0])}
+          sizes={sizes}
           alt=""
           className="w-full h-full object-cover invisible"
           aria-hidden="true"
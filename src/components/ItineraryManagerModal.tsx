@@ -3,11 +3,16 @@
 import { useState, useEffect, useCallback, useRef } from 'react'
 import { motion, AnimatePresence } from 'framer-motion'
 import { useQueryClient } from '@tanstack/react-query'
-import { updateTrip, deleteTrip, type Trip } from '@/lib/supabase'
+import { updateTrip, deleteTrip, type ExpenseDB, type Trip } from '@/lib/supabase'
 import { queryKeys } from '@/hooks/useQueries'
+import { TRIP_COSTS_SCOPE, useTripCosts } from '@/hooks/useTripCosts'
+import { DEFAULT_CURRENCY, formatMoney } from '@/lib/currency'
+import { expenseDraftForTrip, type ExpenseDraft } from '@/lib/expenseLinks'
 import ImageSlider from '@/components/ImageSlider'
 import PlateRichView from '@/components/PlateRichView'
-import { isPlateJsonEffectivelyEmpty } from '@/lib/plateRich'
+import { isPlateJsonEffectivelyEmpty, extractPlainTextFromPlateJson } from '@/lib/plateRich'
+import { formatTripMonthDay, getDateForDay, getDayNumberForDate, isSameTripDate } from '@/lib/tripCalendar'
+import { formatScheduleTimeRange, parseLegacyScheduleJson, tripLegacyDescription, tripScheduleItems } from '@/lib/tripSchedule'
 
 type DayScheduleEntry = { dayNumber: number; theme: string; imageUrl?: string }
 
@@ -20,6 +25,10 @@ type Props = {
   daySchedules: DayScheduleEntry[]
   themeColor: string
   onUpdateDaySchedules?: (schedules: DayScheduleEntry[]) => void
+  /** 「記一筆」 from a stop (opens the wallet's expense form) */
+  onLogExpense?: (draft: ExpenseDraft) => void
+  /** Viewer, whose personal expenses count in the 花費 next to the shared ones */
+  username?: string | null
 }
 
 function parseImages(imageUrl: string | undefined): string[] {
@@ -33,50 +42,18 @@ function parseImages(imageUrl: string | undefined): string[] {
   return []
 }
 
-type ScheduleItem = {
-  id: string
-  time_start: string
-  time_end: string
-  content: string
-}
-
-function parseScheduleItems(description: string | undefined | null): ScheduleItem[] {
-  if (!description) return []
-  try {
-    const parsed = JSON.parse(description)
-    if (Array.isArray(parsed) && parsed.length > 0 && typeof parsed[0] === 'object' && 'content' in parsed[0]) {
-      return parsed as ScheduleItem[]
-    }
-  } catch {
-    // Not JSON, treat as plain text
-  }
-  return []
-}
-
-function getDateForDay(tripStartDate: string, dayNumber: number): string {
-  if (!tripStartDate) return ''
-  const startDate = new Date(tripStartDate)
-  const targetDate = new Date(startDate)
-  targetDate.setDate(startDate.getDate() + dayNumber - 1)
-  return targetDate.toISOString().split('T')[0]
-}
-
-function getDayNumFromDate(tripStartDate: string, dateStr: string): number {
-  if (!tripStartDate || !dateStr) return 1
-  const start = new Date(tripStartDate)
-  const target = new Date(dateStr)
-  const diff = Math.floor((target.getTime() - start.getTime()) / (1000 * 60 * 60 * 24))
-  return diff + 1
-}
+type ViewMode = 'list' | 'detail' | 'edit'
 
-function formatDate(dateStr: string): string {
-  if (!dateStr) return ''
-  const d = new Date(dateStr)
-  return `${d.getMonth() + 1}/${d.getDate()}`
+type TripConflict = {
+  tripId: number
+  /** Version the edit started from */
+  base: Trip
+  /** My unsaved changes */
+  mine: Partial<Trip>
+  /** Saved by someone else meanwhile */
+  theirs: Trip
 }
 
-type ViewMode = 'list' | 'detail' | 'edit'
-
 export default function ItineraryManagerModal({
   open,
   onClose,
@@ -86,6 +63,8 @@ export default function ItineraryManagerModal({
   daySchedules,
   themeColor,
   onUpdateDaySchedules,
+  onLogExpense,
+  username,
 }: Props) {
   const queryClient = useQueryClient()
   const [selectedDay, setSelectedDay] = useState<number>(1)
@@ -94,6 +73,9 @@ export default function ItineraryManagerModal({
   const [selectedTrip, setSelectedTrip] = useState<Trip | null>(null)
   const [viewMode, setViewMode] = useState<ViewMode>('list')
   const [localTrips, setLocalTrips] = useState<Trip[]>(trips)
+  // 同時編輯衝突：base = 開始編輯時的版本, theirs = 伺服器上的最新版本
+  const [tripConflict, setTripConflict] = useState<TripConflict | null>(null)
+  const [conflictSaving, setConflictSaving] = useState(false)
 
   // ── Trip Order Popup (day-level reordering) ───────────────────────────────
   const [tripOrderPopupOpen, setTripOrderPopupOpen] = useState(false)
@@ -153,7 +135,7 @@ export default function ItineraryManagerModal({
     try {
       // Update localTrips dates first for immediate UI feedback
       const updatedTrips = localTrips.map(t => {
-        const currentDayNum = getDayNumFromDate(tripStartDate, t.date)
+        const currentDayNum = getDayNumberForDate(tripStartDate, t.date)
         const newDayNum = dayList.indexOf(currentDayNum) + 1
         if (newDayNum !== currentDayNum) {
           return { ...t, date: getDateForDay(tripStartDate, newDayNum) }
@@ -174,10 +156,7 @@ export default function ItineraryManagerModal({
         const currentDate = getDateForDay(tripStartDate, day)
         const newDate = getDateForDay(tripStartDate, i + 1)
         if (currentDate !== newDate) {
-          const tripsOnDay = localTrips.filter(t => {
-            const td = new Date(t.date).toISOString().split('T')[0]
-            return td === currentDate
-          })
+          const tripsOnDay = localTrips.filter(t => isSameTripDate(t.date, currentDate))
           tripsOnDay.forEach(t => {
             updates.push(updateTrip(t.id, { date: newDate }))
           })
@@ -207,7 +186,7 @@ export default function ItineraryManagerModal({
   const getTripsForDay = useCallback((dayNum: number) => {
     const targetDate = getDateForDay(tripStartDate, dayNum)
     return localTrips
-      .filter(t => new Date(t.date).toISOString().split('T')[0] === targetDate)
+      .filter(t => isSameTripDate(t.date, targetDate))
       .sort((a, b) => {
         if (a.sort_order !== b.sort_order) return (a.sort_order ?? Infinity) - (b.sort_order ?? Infinity)
         if (!a.time_start && !b.time_start) return (a.created_at || '').localeCompare(b.created_at || '')
@@ -219,6 +198,9 @@ export default function ItineraryManagerModal({
 
   const dayTrips = getTripsForDay(selectedDay)
 
+  // 花費：shared expenses plus the viewer's own, per stop and per day, in the wallet's home currency
+  const { costs, homeCurrency, expenses: spending } = useTripCosts(localTrips, tripStartDate, username ?? null, { enabled: open })
+
   // Delete a trip
   const handleDeleteTrip = async (tripId: number) => {
     if (!confirm('確定要刪除此行程嗎？')) return
@@ -233,16 +215,55 @@ export default function ItineraryManagerModal({
     }
   }
 
-  // Update trip inline
-  const handleUpdateTrip = async (tripId: number, updates: Partial<Trip>) => {
-    const { data } = await updateTrip(tripId, updates)
+  // Update trip inline. `base` = the version the edit started from; a newer save by someone else
+  // opens the merge popup instead of being overwritten. Returns true once saved.
+  const handleUpdateTrip = async (tripId: number, updates: Partial<Trip>, base?: Trip): Promise<boolean> => {
+    const { data, error, conflict } = await updateTrip(tripId, updates, { expectedUpdatedAt: base?.updated_at })
+    if (conflict) {
+      if (conflict.current && base) {
+        setTripConflict({ tripId, base, mine: updates, theirs: conflict.current })
+      } else {
+        alert('此行程已被其他人刪除')
+        setLocalTrips(prev => prev.filter(t => t.id !== tripId))
+        setSelectedTrip(null)
+        setViewMode('list')
+        await queryClient.invalidateQueries({ queryKey: queryKeys.trips })
+      }
+      return false
+    }
     if (data) {
-      setLocalTrips(prev => prev.map(t => t.id === tripId ? { ...t, ...updates } : t))
+      // Keep the server's updated_at so the next edit checks against this version
+      setLocalTrips(prev => prev.map(t => t.id === tripId ? { ...t, ...updates, ...data } : t))
       if (selectedTrip?.id === tripId) {
-        setSelectedTrip(prev => prev ? { ...prev, ...updates } : null)
+        setSelectedTrip(prev => prev ? { ...prev, ...updates, ...data } : null)
       }
       await queryClient.invalidateQueries({ queryKey: queryKeys.trips })
+      return true
     }
+    if (error) alert(`更新失敗：${error}`)
+    return false
+  }
+
+  // Merge popup confirmed: save the picked fields on top of the server's current version
+  const handleResolveConflict = async (merged: Partial<Trip>) => {
+    if (!tripConflict) return
+    const { tripId, theirs } = tripConflict
+    setConflictSaving(true)
+    setTripConflict(null)
+    const saved = await handleUpdateTrip(tripId, merged, theirs)
+    setConflictSaving(false)
+    if (saved) setViewMode('list')
+  }
+
+  // Merge popup dismissed: drop my edit and show the other person's version
+  const handleDiscardMine = async () => {
+    if (!tripConflict) return
+    const { tripId, theirs } = tripConflict
+    setTripConflict(null)
+    setLocalTrips(prev => prev.map(t => t.id === tripId ? theirs : t))
+    if (selectedTrip?.id === tripId) setSelectedTrip(theirs)
+    setViewMode('list')
+    await queryClient.invalidateQueries({ queryKey: queryKeys.trips })
   }
 
   const handleBack = () => {
@@ -397,7 +418,7 @@ export default function ItineraryManagerModal({
                               ? 'bg-sakura-500 text-white'
                               : 'bg-gray-100 text-gray-500'
                           }`}>
-                            {formatDate(dateStr)}
+                            {formatTripMonthDay(dateStr)}
                           </span>
                         </div>
                         <span className={`text-xs font-semibold ${
@@ -415,6 +436,9 @@ export default function ItineraryManagerModal({
                             {count}
                           </span>
                         )}
+                        {costs.byDay[day] > 0 && (
+                          <span className="text-[10px] text-amber-600" title={TRIP_COSTS_SCOPE}>💴 {formatMoney(costs.byDay[day], homeCurrency)}</span>
+                        )}
                       </button>
                     )
                   })}
@@ -483,8 +507,11 @@ export default function ItineraryManagerModal({
                                 {trip.location && (
                                   <p className="text-xs text-gray-400 truncate">📍 {trip.location}</p>
                                 )}
+                                {costs.byTrip[trip.id] > 0 && (
+                                  <p className="text-xs text-amber-600" title={TRIP_COSTS_SCOPE}>💴 已花 {formatMoney(costs.byTrip[trip.id], homeCurrency)}</p>
+                                )}
                                 {(() => {
-                                  const items = parseScheduleItems(trip.description)
+                                  const items = tripScheduleItems(trip)
                                   if (items.length === 0) return null
                                   return (
                                     <p className="text-xs text-gray-400 truncate">
@@ -534,6 +561,10 @@ export default function ItineraryManagerModal({
               onClose={onClose}
               onEdit={() => setViewMode('edit')}
               onDelete={() => void handleDeleteTrip(selectedTrip.id)}
+              onLogExpense={onLogExpense ? () => onLogExpense(expenseDraftForTrip(selectedTrip)) : undefined}
+              expenses={spending.filter(e => e.trip_id === selectedTrip.id)}
+              spent={costs.byTrip[selectedTrip.id] || 0}
+              homeCurrency={homeCurrency}
               totalDays={totalDays}
               tripStartDate={tripStartDate}
               themeColor={themeColor}
@@ -543,8 +574,7 @@ export default function ItineraryManagerModal({
               trip={selectedTrip}
               onBack={handleBack}
               onSave={async (updates) => {
-                await handleUpdateTrip(selectedTrip.id, updates)
-                setViewMode('list')
+                if (await handleUpdateTrip(selectedTrip.id, updates, selectedTrip)) setViewMode('list')
               }}
               totalDays={totalDays}
               tripStartDate={tripStartDate}
@@ -576,6 +606,15 @@ export default function ItineraryManagerModal({
             onSave={handleSaveTripOrder}
             saving={tripOrderSaving}
           />
+
+          {/* Concurrent edit merge popup */}
+          <TripConflictPopup
+            conflict={tripConflict}
+            onResolve={merged => void handleResolveConflict(merged)}
+            onDiscardMine={() => void handleDiscardMine()}
+            saving={conflictSaving}
+            themeColor={themeColor}
+          />
         </motion.div>
       </motion.div>
     </AnimatePresence>
@@ -590,6 +629,10 @@ function TripDetailView({
   onClose,
   onEdit,
   onDelete,
+  onLogExpense,
+  expenses,
+  spent,
+  homeCurrency,
   totalDays,
   tripStartDate,
   themeColor,
@@ -599,19 +642,20 @@ function TripDetailView({
   onClose: () => void
   onEdit: () => void
   onDelete: () => void
+  onLogExpense?: () => void
+  /** Shared and the viewer's personal expenses linked to this stop; `spent` = their total in homeCurrency */
+  expenses: ExpenseDB[]
+  spent: number
+  homeCurrency: string
   totalDays: number
   tripStartDate: string
   themeColor: string
 }) {
   const images = parseImages(trip.image_url)
+  const scheduleItems = tripScheduleItems(trip)
+  const legacyDescription = tripLegacyDescription(trip)
 
-  const getDayNum = (dateStr: string) => {
-    if (!tripStartDate) return 1
-    const start = new Date(tripStartDate)
-    const target = new Date(dateStr)
-    const diff = Math.floor((target.getTime() - start.getTime()) / (1000 * 60 * 60 * 24))
-    return diff + 1
-  }
+  const getDayNum = (dateStr: string) => getDayNumberForDate(tripStartDate, dateStr)
 
   const dayNum = getDayNum(trip.date)
 
@@ -665,9 +709,31 @@ function TripDetailView({
             </div>
           )}
 
-          {trip.description && trip.description.trim() && (
+          {scheduleItems.length > 0 && (
+            <ul className="space-y-1.5 p-4 bg-gray-50 rounded-xl border border-gray-100">
+              {scheduleItems.map(item => (
+                <li key={item.id} className="text-sm text-gray-700">
+                  {(item.time_start || item.time_end) && (
+                    <span className="text-xs font-medium text-sakura-500 mr-2">{formatScheduleTimeRange(item)}</span>
+                  )}
+                  {item.content}
+                  {(item.location || item.cost || item.booking_ref) && (
+                    <span className="block text-xs text-gray-400">
+                      {[
+                        item.location && `📍 ${item.location}`,
+                        item.cost && `💴 ¥${Number(item.cost).toLocaleString()}`,
+                        item.booking_ref && `🔖 ${item.booking_ref}`,
+                      ].filter(Boolean).join('　')}
+                    </span>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {legacyDescription && (
             <div className="prose prose-sm max-w-none p-4 bg-gray-50 rounded-xl border border-gray-100">
-              <div dangerouslySetInnerHTML={{ __html: trip.description }} />
+              <div dangerouslySetInnerHTML={{ __html: legacyDescription }} />
             </div>
           )}
 
@@ -680,6 +746,37 @@ function TripDetailView({
             </div>
           )}
 
+          {(expenses.length > 0 || onLogExpense) && (
+            <div className="p-4 bg-amber-50 rounded-xl border border-amber-100 space-y-2">
+              <div className="flex items-center justify-between">
+                <h3 className="text-sm font-medium text-amber-800">
+                  💴 已花費 {formatMoney(spent, homeCurrency)}
+                  {expenses.length > 0 && <span className="ml-1 text-xs font-normal text-amber-600">（{expenses.length} 筆）</span>}
+                  <span className="block text-[10px] font-normal text-amber-600">{TRIP_COSTS_SCOPE}</span>
+                </h3>
+                {onLogExpense && (
+                  <button
+                    type="button"
+                    onClick={onLogExpense}
+                    className="px-3 py-1 text-xs font-medium text-white bg-amber-500 hover:bg-amber-600 rounded-full transition-colors"
+                  >
+                    + 記一筆
+                  </button>
+                )}
+              </div>
+              {expenses.length > 0 && (
+                <ul className="space-y-0.5">
+                  {expenses.map(expense => (
+                    <li key={expense.id} className="flex justify-between gap-2 text-xs text-gray-600">
+                      <span className="truncate">{expense.note || expense.display_name}</span>
+                      <span className="tabular-nums flex-shrink-0">{formatMoney(expense.amount, expense.currency || DEFAULT_CURRENCY)}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+
           {/* Actions */}
           <div className="flex gap-3 pt-2">
             <button
@@ -726,16 +823,12 @@ function TripEditView({
   const [timeStart, setTimeStart] = useState(trip.time_start || '')
   const [timeEnd, setTimeEnd] = useState(trip.time_end || '')
   const [location, setLocation] = useState(trip.location)
-  const [description, setDescription] = useState(trip.description || '')
+  // Only legacy HTML / text notes are edited here; schedule lines live in trip_schedule_items
+  const initialDescription = tripLegacyDescription(trip)
+  const [description, setDescription] = useState(initialDescription)
   const [saving, setSaving] = useState(false)
 
-  const getDayNum = (dateStr: string) => {
-    if (!tripStartDate) return 1
-    const start = new Date(tripStartDate)
-    const target = new Date(dateStr)
-    const diff = Math.floor((target.getTime() - start.getTime()) / (1000 * 60 * 60 * 24))
-    return diff + 1
-  }
+  const getDayNum = (dateStr: string) => getDayNumberForDate(tripStartDate, dateStr)
 
   const currentDay = getDayNum(trip.date)
 
@@ -748,7 +841,7 @@ function TripEditView({
       time_start: timeStart || undefined,
       time_end: timeEnd || undefined,
       location,
-      description,
+      ...(description !== initialDescription ? { description } : {}),
     })
     setSaving(false)
   }
@@ -862,17 +955,19 @@ function TripEditView({
           />
         </div>
 
-        {/* Description */}
-        <div>
-          <label className="block text-sm font-medium text-gray-700 mb-1">行程明細</label>
-          <textarea
-            value={description}
-            onChange={e => setDescription(e.target.value)}
-            rows={5}
-            className="w-full px-4 py-2.5 rounded-xl border border-gray-200 focus:border-sakura-400 focus:ring-2 focus:ring-sakura-100 outline-none text-sm resize-none"
-            placeholder="行程說明..."
-          />
-        </div>
+        {/* Legacy description (trips saved before schedule items) */}
+        {initialDescription && (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">行程說明（舊版）</label>
+            <textarea
+              value={description}
+              onChange={e => setDescription(e.target.value)}
+              rows={5}
+              className="w-full px-4 py-2.5 rounded-xl border border-gray-200 focus:border-sakura-400 focus:ring-2 focus:ring-sakura-100 outline-none text-sm resize-none"
+              placeholder="行程說明..."
+            />
+          </div>
+        )}
 
         {/* Save Button */}
         <button
@@ -1002,7 +1097,7 @@ function DayOrderPopup({
                         <span className="text-xs text-gray-400 truncate">{schedule.theme}</span>
                       )}
                     </div>
-                    <span className="text-xs text-gray-400">{formatDate(dateStr)}</span>
+                    <span className="text-xs text-gray-400">{formatTripMonthDay(dateStr)}</span>
                   </div>
 
                   {/* Trip count dot */}
@@ -1248,3 +1343,182 @@ function TripOrderPopup({
     </AnimatePresence>
   )
 }
+
+// ── Trip Conflict Popup (concurrent edit merge) ─────────────────────────────
+
+type ConflictField = 'title' | 'date' | 'time_start' | 'time_end' | 'location' | 'trip_notes_rich' | 'description'
+
+const CONFLICT_FIELDS: { key: ConflictField; label: string }[] = [
+  { key: 'title', label: '標題' },
+  { key: 'date', label: '日期' },
+  { key: 'time_start', label: '開始時間' },
+  { key: 'time_end', label: '結束時間' },
+  { key: 'location', label: '地點' },
+  { key: 'trip_notes_rich', label: '行程說明' },
+  { key: 'description', label: '行程明細' },
+]
+
+function fieldValue(trip: Partial<Trip>, key: ConflictField): string {
+  return (trip[key] as string | null | undefined) ?? ''
+}
+
+function ConflictValue({ field, value }: { field: ConflictField; value: string }) {
+  if (!value || (field === 'trip_notes_rich' && isPlateJsonEffectivelyEmpty(value))) {
+    return <span className="text-gray-300">（空白）</span>
+  }
+  if (field === 'trip_notes_rich') {
+    return <span className="whitespace-pre-wrap break-words text-xs">{extractPlainTextFromPlateJson(value)}</span>
+  }
+  if (field === 'description') {
+    const items = parseLegacyScheduleJson(value) ?? []
+    if (items.length > 0) {
+      return (
+        <ul className="space-y-1">
+          {items.map(item => (
+            <li key={item.id} className="text-xs">
+              {(item.time_start || item.time_end) && (
+                <span className="text-gray-400 mr-1">
+                  {formatScheduleTimeRange(item, '–')}
+                </span>
+              )}
+              {item.content}
+            </li>
+          ))}
+        </ul>
+      )
+    }
+  }
+  return <span className="whitespace-pre-wrap break-words">{value}</span>
+}
+
+function TripConflictPopup({
+  conflict,
+  onResolve,
+  onDiscardMine,
+  saving,
+  themeColor,
+}: {
+  conflict: TripConflict | null
+  onResolve: (merged: Partial<Trip>) => void
+  onDiscardMine: () => void
+  saving: boolean
+  themeColor: string
+}) {
+  const [choices, setChoices] = useState<Partial<Record<ConflictField, 'mine' | 'theirs'>>>({})
+
+  // Fields where my save and theirs disagree. Default: keep whichever side actually changed it.
+  const differing = conflict
+    ? CONFLICT_FIELDS.filter(({ key }) =>
+        key in conflict.mine && fieldValue(conflict.mine, key) !== fieldValue(conflict.theirs, key)
+      )
+    : []
+
+  useEffect(() => {
+    if (!conflict) return
+    const defaults: Partial<Record<ConflictField, 'mine' | 'theirs'>> = {}
+    for (const { key } of CONFLICT_FIELDS) {
+      defaults[key] = fieldValue(conflict.mine, key) === fieldValue(conflict.base, key) ? 'theirs' : 'mine'
+    }
+    setChoices(defaults)
+  }, [conflict])
+
+  if (!conflict) return null
+
+  const handleConfirm = () => {
+    const merged: Record<string, unknown> = { ...conflict.mine }
+    for (const { key } of differing) {
+      if (choices[key] === 'theirs') merged[key] = conflict.theirs[key] ?? null
+    }
+    onResolve(merged as Partial<Trip>)
+  }
+
+  return (
+    <AnimatePresence>
+      <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        className="fixed inset-0 bg-black/50 z-[80] flex items-end justify-center"
+      >
+        <motion.div
+          initial={{ opacity: 0, y: 80 }}
+          animate={{ opacity: 1, y: 0 }}
+          exit={{ opacity: 0, y: 80 }}
+          transition={{ type: 'spring', damping: 28, stiffness: 320 }}
+          className="bg-white rounded-t-3xl shadow-2xl w-full max-w-md max-h-[80dvh] flex flex-col"
+          onClick={e => e.stopPropagation()}
+        >
+          {/* Header */}
+          <div
+            className="flex items-center gap-2 px-5 py-4 rounded-t-3xl flex-shrink-0"
+            style={{ background: `linear-gradient(135deg, ${themeColor} 0%, ${themeColor}cc 100%)` }}
+          >
+            <span className="text-lg">⚠️</span>
+            <h3 className="text-white font-semibold text-base">行程已被其他人修改</h3>
+          </div>
+
+          <div className="px-5 py-3 border-b border-gray-100 flex-shrink-0">
+            <p className="text-xs text-gray-400 text-center">
+              你編輯期間「{conflict.theirs.title}」已被儲存過，請逐項選擇要保留的版本
+            </p>
+          </div>
+
+          {/* Field choices */}
+          <div className="flex-1 min-h-0 overflow-y-auto p-4 space-y-4">
+            {differing.length === 0 && (
+              <p className="text-sm text-gray-500 text-center py-4">兩邊的內容相同，可直接儲存</p>
+            )}
+            {differing.map(({ key, label }) => (
+              <div key={key}>
+                <p className="text-xs font-medium text-gray-500 mb-1.5">{label}</p>
+                <div className="grid grid-cols-2 gap-2">
+                  {(['mine', 'theirs'] as const).map(side => {
+                    const selected = choices[key] === side
+                    const source = side === 'mine' ? conflict.mine : conflict.theirs
+                    return (
+                      <button
+                        key={side}
+                        type="button"
+                        onClick={() => setChoices(prev => ({ ...prev, [key]: side }))}
+                        className={`text-left px-3 py-2 rounded-xl border text-sm text-gray-700 transition-colors ${
+                          selected ? 'bg-sakura-50' : 'border-gray-200 hover:border-gray-300'
+                        }`}
+                        style={selected ? { borderColor: themeColor } : {}}
+                      >
+                        <span className="block text-[10px] font-medium text-gray-400 mb-1">
+                          {side === 'mine' ? '我的版本' : '對方的版本'}
+                        </span>
+                        <ConflictValue field={key} value={fieldValue(source, key)} />
+                      </button>
+                    )
+                  })}
+                </div>
+              </div>
+            ))}
+          </div>
+
+          {/* Footer Actions */}
+          <div className="flex-shrink-0 px-5 py-4 border-t border-gray-100 flex gap-3">
+            <button
+              type="button"
+              onClick={onDiscardMine}
+              disabled={saving}
+              className="flex-1 py-3 text-sm font-medium text-gray-500 bg-gray-100 hover:bg-gray-200 rounded-xl transition-colors disabled:opacity-50"
+            >
+              捨棄我的修改
+            </button>
+            <button
+              type="button"
+              onClick={handleConfirm}
+              disabled={saving}
+              className="flex-1 py-3 text-sm font-medium text-white rounded-xl transition-colors disabled:opacity-50"
+              style={{ backgroundColor: themeColor }}
+            >
+              {saving ? '儲存中...' : '儲存合併結果'}
+            </button>
+          </div>
+        </motion.div>
+      </motion.div>
+    </AnimatePresence>
+  )
+}
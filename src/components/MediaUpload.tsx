@@ -1,7 +1,8 @@
 'use client'
 
 import { useState, useRef } from 'react'
-import { compressImageFileToDataUrl } from '@/lib/compressImageClient'
+import { uploadImageFile, blurhashPlaceholderStyle } from '@/lib/imageStorage'
+import { isDataImageUrl, parseStoredImageUrl, storedImageSrc } from '@/lib/storedImage'
 
 interface MediaUploadProps {
   value: string
@@ -9,6 +10,8 @@ interface MediaUploadProps {
   label?: string
   placeholder?: string
   className?: string
+  /** Storage folder for uploaded files */
+  folder?: string
 }
 
 export default function MediaUpload({
@@ -16,14 +19,15 @@ export default function MediaUpload({
   onChange,
   label,
   placeholder = '選擇圖片或輸入網址',
-  className = ''
+  className = '',
+  folder = 'uploads'
 }: MediaUploadProps) {
   const [isUploading, setIsUploading] = useState(false)
   const [error, setError] = useState<string | null>(null)
   const [showUrlInput, setShowUrlInput] = useState(false)
   const fileInputRef = useRef<HTMLInputElement>(null)
 
-  // Convert file to base64 data URL (for local storage/preview)
+  // Compress, then upload to image storage (the row only keeps the URL)
   const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0]
     if (!file) return
@@ -44,8 +48,9 @@ export default function MediaUpload({
     setError(null)
 
     try {
-      const base64 = await compressImageFileToDataUrl(file)
-      onChange(base64)
+      const { url, error: uploadError } = await uploadImageFile(file, folder)
+      if (url) onChange(url)
+      else setError(uploadError || '上傳圖片失敗')
     } catch (err) {
       setError('讀取或壓縮檔案失敗')
     } finally {
@@ -77,8 +82,9 @@ export default function MediaUpload({
       {value && (
         <div className="relative mb-3 inline-block">
           <img
-            src={value}
+            src={storedImageSrc(value, 320)}
             alt="Preview"
+            style={blurhashPlaceholderStyle(value)}
             className="max-h-32 rounded-lg object-cover border border-gray-200"
             onError={() => setError('圖片載入失敗')}
           />
@@ -136,7 +142,7 @@ export default function MediaUpload({
         {showUrlInput && (
           <input
             type="url"
-            value={value.startsWith('data:') ? '' : value}
+            value={isDataImageUrl(value) ? '' : parseStoredImageUrl(value).src}
             onChange={(e) => handleUrlChange(e.target.value)}
             placeholder={placeholder}
             className="w-full px-4 py-2 rounded-lg border border-gray-200 focus:border-sakura-400 focus:ring-2 focus:ring-sakura-100 outline-none text-sm"
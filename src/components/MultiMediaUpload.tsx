@@ -1,7 +1,8 @@
 'use client'
 
 import { useState, useRef } from 'react'
-import { compressImageFileToDataUrl } from '@/lib/compressImageClient'
+import { uploadImageFile, blurhashPlaceholderStyle } from '@/lib/imageStorage'
+import { storedImageSrc } from '@/lib/storedImage'
 
 interface MultiMediaUploadProps {
   value: string[] // Array of image URLs
@@ -9,6 +10,8 @@ interface MultiMediaUploadProps {
   label?: string
   maxImages?: number
   className?: string
+  /** Storage folder for uploaded files */
+  folder?: string
 }
 
 export default function MultiMediaUpload({
@@ -16,7 +19,8 @@ export default function MultiMediaUpload({
   onChange,
   label,
   maxImages = 5,
-  className = ''
+  className = '',
+  folder = 'uploads'
 }: MultiMediaUploadProps) {
   const [isUploading, setIsUploading] = useState(false)
   const [error, setError] = useState<string | null>(null)
@@ -24,7 +28,7 @@ export default function MultiMediaUpload({
   const [urlInputValue, setUrlInputValue] = useState('')
   const fileInputRef = useRef<HTMLInputElement>(null)
 
-  // Convert file to base64 data URL
+  // Compress and upload each file; the row only keeps the URLs
   const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const files = e.target.files
     if (!files || files.length === 0) return
@@ -54,8 +58,9 @@ export default function MultiMediaUpload({
       }
 
       try {
-        const base64 = await compressImageFileToDataUrl(file)
-        newImages.push(base64)
+        const { url, error: uploadError } = await uploadImageFile(file, folder)
+        if (url) newImages.push(url)
+        else setError(uploadError || '部分圖片上傳失敗')
       } catch (err) {
         console.error('Error reading file:', err)
       }
@@ -105,8 +110,9 @@ export default function MultiMediaUpload({
           {value.map((img, index) => (
             <div key={index} className="relative group">
               <img
-                src={img}
+                src={storedImageSrc(img, 160)}
                 alt={`Image ${index + 1}`}
+                style={blurhashPlaceholderStyle(img)}
                 className="w-20 h-20 rounded-lg object-cover border border-gray-200"
                 onError={(e) => {
                   (e.target as HTMLImageElement).src = 'data:image/svg+xml,<svg xmlns="http://www.w3.org/2000/svg" width="80" height="80"><rect fill="%23f3f4f6" width="80" height="80"/><text x="50%" y="50%" fill="%239ca3af" font-size="10" text-anchor="middle" dy=".3em">Error</text></svg>'
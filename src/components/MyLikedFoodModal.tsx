@@ -4,15 +4,15 @@ import { useMemo, useEffect, useState, useCallback } from 'react'
 import Link from 'next/link'
 import { motion, AnimatePresence } from 'framer-motion'
 import { useQueryClient } from '@tanstack/react-query'
-import { useWishlistItems, queryKeys } from '@/hooks/useQueries'
+import { useWishlistItems, useCustomAreas, queryKeys } from '@/hooks/useQueries'
 import { getCurrentUser, getLoggedInUsername, getUsers } from '@/lib/auth'
-import { updateSupabaseWishlistItem, type WishlistItemDB } from '@/lib/supabase'
+import { updateSupabaseWishlistItem, wishlistItemArea, type WishlistItemDB } from '@/lib/supabase'
 import {
   isWishlistDbItemLikedByUser,
   parseFavoritedBy,
   isWishlistLocalItemLikedByUser,
 } from '@/lib/wishlistLikeUtils'
-import { TOKYO_AREAS } from '@/lib/tokyoDistricts'
+import { findArea } from '@/lib/destinationDistricts'
 import { formatTripDayListBadge } from '@/lib/tripDayLabels'
 import { isPlateJsonEffectivelyEmpty } from '@/lib/plateRich'
 import ImageSlider from '@/components/ImageSlider'
@@ -285,7 +285,8 @@ function LikedFoodDetailPanel({
   onToggleFavorite: () => void
 }) {
   const images = parseWishlistImages(item.image_url)
-  const areaData = item.map_link ? TOKYO_AREAS.find(a => a.id === item.map_link) : undefined
+  const { data: customAreas = [] } = useCustomAreas()
+  const areaData = findArea(wishlistItemArea(item), item.destination_id || undefined, customAreas)
   const catUi = WISHLIST_CATEGORY_UI[item.category] || { icon: '📌', name: item.category }
   const users = getUsers()
 
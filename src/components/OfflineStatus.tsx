@@ -0,0 +1,153 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { motion, AnimatePresence } from 'framer-motion'
+import { useQueryClient } from '@tanstack/react-query'
+import {
+  getOutboxEntries,
+  resolveOutboxEntry,
+  replayOutbox,
+  startOutboxSync,
+  subscribeOutbox,
+  OUTBOX_TABLE_LABELS,
+  type OutboxEntry,
+} from '@/lib/offlineOutbox'
+
+const OP_LABELS: Record<OutboxEntry['op'], string> = {
+  insert: '新增',
+  update: '修改',
+  delete: '刪除',
+}
+
+function describeEntry(entry: OutboxEntry): string {
+  const source = { ...entry.serverRow, ...entry.values }
+  const name = source.title || source.name || source.note
+  return typeof name === 'string' && name.trim() ? name.replace(/<[^>]*>/g, '').slice(0, 40) : `#${entry.id}`
+}
+
+/**
+ * 離線狀態：registers the service worker, replays the outbox when back online and
+ * lists queued / conflicting writes. Hidden while online with nothing queued.
+ */
+export default function OfflineStatus() {
+  const queryClient = useQueryClient()
+  const [entries, setEntries] = useState<OutboxEntry[]>([])
+  const [online, setOnline] = useState(true)
+  const [isOpen, setIsOpen] = useState(false)
+
+  useEffect(() => {
+    // Dev server: a caching service worker would fight hot reload
+    if (process.env.NODE_ENV === 'production' && 'serviceWorker' in navigator) {
+      navigator.serviceWorker.register('/sw.js').catch(err => console.error('Service worker registration failed:', err))
+    }
+
+    setOnline(navigator.onLine)
+    const onOnline = () => setOnline(true)
+    const onOffline = () => setOnline(false)
+    window.addEventListener('online', onOnline)
+    window.addEventListener('offline', onOffline)
+
+    const unsubscribe = subscribeOutbox((next, synced) => {
+      setEntries(next)
+      // Replayed writes now have real ids: refetch everything that may show them
+      if (synced > 0) queryClient.invalidateQueries()
+    })
+    void getOutboxEntries().then(setEntries)
+    const stopSync = startOutboxSync()
+
+    return () => {
+      window.removeEventListener('online', onOnline)
+      window.removeEventListener('offline', onOffline)
+      unsubscribe()
+      stopSync()
+    }
+  }, [queryClient])
+
+  const pending = entries.filter(e => e.status === 'pending')
+  const problems = entries.filter(e => e.status !== 'pending')
+
+  if (online && entries.length === 0) return null
+
+  const handleResolve = async (entry: OutboxEntry, resolution: 'mine' | 'discard') => {
+    if (entry.seq == null) return
+    await resolveOutboxEntry(entry.seq, resolution)
+    queryClient.invalidateQueries()
+  }
+
+  return (
+    <div className="fixed bottom-4 left-4 z-[60] max-w-[calc(100vw-2rem)]">
+      <AnimatePresence>
+        {isOpen && entries.length > 0 && (
+          <motion.div
+            initial={{ opacity: 0, y: 10 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: 10 }}
+            className="mb-2 w-80 max-w-full bg-white rounded-2xl shadow-xl border border-gray-100 overflow-hidden"
+          >
+            <div className="px-4 py-3 border-b border-gray-100 flex items-center justify-between">
+              <p className="text-sm font-medium text-gray-800">待同步的變更</p>
+              {online && pending.length > 0 && (
+                <button type="button" onClick={() => void replayOutbox()} className="text-xs text-sakura-600 hover:underline">
+                  立即同步
+                </button>
+              )}
+            </div>
+            <div className="max-h-72 overflow-y-auto divide-y divide-gray-50">
+              {entries.map(entry => (
+                <div key={entry.seq} className="px-4 py-2.5 text-sm">
+                  <div className="flex items-center gap-2">
+                    <span className="text-xs px-1.5 py-0.5 rounded bg-gray-100 text-gray-500 shrink-0">
+                      {OUTBOX_TABLE_LABELS[entry.table]}・{OP_LABELS[entry.op]}
+                    </span>
+                    <span className="truncate text-gray-700">{describeEntry(entry)}</span>
+                  </div>
+                  {entry.status === 'conflict' && (
+                    <p className="mt-1 text-xs text-amber-600">
+                      {entry.serverRow ? '離線期間已被其他人修改' : '離線期間已被其他人刪除'}
+                    </p>
+                  )}
+                  {entry.status === 'failed' && (
+                    <p className="mt-1 text-xs text-red-500">同步失敗：{entry.error || '未知錯誤'}</p>
+                  )}
+                  {entry.status !== 'pending' && (
+                    <div className="mt-1.5 flex gap-2">
+                      {!(entry.status === 'conflict' && !entry.serverRow) && (
+                        <button
+                          type="button"
+                          onClick={() => void handleResolve(entry, 'mine')}
+                          className="px-2.5 py-1 text-xs bg-sakura-500 hover:bg-sakura-600 text-white rounded-lg"
+                        >
+                          {entry.status === 'conflict' ? '用我的版本' : '重試'}
+                        </button>
+                      )}
+                      <button
+                        type="button"
+                        onClick={() => void handleResolve(entry, 'discard')}
+                        className="px-2.5 py-1 text-xs border border-gray-200 text-gray-600 hover:bg-gray-50 rounded-lg"
+                      >
+                        捨棄我的修改
+                      </button>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        className={`flex items-center gap-1.5 px-3 py-2 rounded-full shadow-lg text-xs font-medium text-white ${
+          problems.length > 0 ? 'bg-amber-500' : online ? 'bg-gray-800' : 'bg-gray-500'
+        }`}
+      >
+        <span>{problems.length > 0 ? '⚠️' : online ? '🔄' : '📴'}</span>
+        {!online && <span>離線中</span>}
+        {pending.length > 0 && <span>{pending.length} 項待同步</span>}
+        {problems.length > 0 && <span>{problems.length} 項需處理</span>}
+      </button>
+    </div>
+  )
+}
@@ -2,6 +2,7 @@
 
 import { useState, useRef, useEffect, useCallback } from 'react'
 import { GoogleMap, useJsApiLoader, Marker } from '@react-google-maps/api'
+import { getDestinationCountryCode, getDestinationMapCenter } from '@/lib/settings'
 
 interface PlacePickerProps {
   value: {
@@ -18,15 +19,13 @@ const containerStyle = {
   height: '300px',
 }
 
-const tokyoCenter = {
-  lat: 35.6762,
-  lng: 139.6503,
-}
-
 export default function PlacePicker({ value, onChange, onClose }: PlacePickerProps) {
   const [searchInput, setSearchInput] = useState(value.location || '')
   const [markerPosition, setMarkerPosition] = useState<{ lat: number; lng: number }>(
-    value.lat && value.lng ? { lat: value.lat, lng: value.lng } : tokyoCenter
+    value.lat && value.lng ? { lat: value.lat, lng: value.lng } : (() => {
+      const { lat, lng } = getDestinationMapCenter()
+      return { lat, lng }
+    })()
   )
   const [map, setMap] = useState<google.maps.Map | null>(null)
   const searchBoxRef = useRef<HTMLInputElement>(null)
@@ -44,9 +43,11 @@ export default function PlacePicker({ value, onChange, onClose }: PlacePickerPro
 
   useEffect(() => {
     if (isLoaded && searchBoxRef.current && !autocompleteRef.current) {
+      const countryCode = getDestinationCountryCode()
       autocompleteRef.current = new google.maps.places.Autocomplete(searchBoxRef.current, {
         types: ['establishment', 'geocode'],
-        componentRestrictions: { country: 'jp' }, // Restrict to Japan
+        // Restrict to the current destination's country
+        ...(countryCode ? { componentRestrictions: { country: countryCode.toLowerCase() } } : {}),
       })
 
       autocompleteRef.current.addListener('place_changed', () => {
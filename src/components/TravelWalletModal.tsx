@@ -1,6 +1,6 @@
 'use client'
 
-import { useState, useEffect, useCallback, useMemo } from 'react'
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react'
 import { motion, AnimatePresence } from 'framer-motion'
 import { useQueryClient } from '@tanstack/react-query'
 import {
@@ -10,12 +10,62 @@ import {
   deleteSupabaseExpense,
   getSupabaseExpenses,
   EXPENSE_CATEGORIES,
+  PAYMENT_METHODS,
+  isCashWithdrawal,
+  isIcTopUp,
+  isSettlementPayment,
+  isSpending,
   type ExpenseDB,
   type ExpenseCategory,
+  type PaymentMethod,
   type WalletSettingsDB,
 } from '@/lib/supabase'
+import {
+  SPLIT_MODES,
+  computeBalances,
+  paymentEntry,
+  scaleSplit,
+  settle,
+  splitAmount,
+  validateSplit,
+  type ExpenseSplit,
+  type SettlementEntry,
+  type SplitMode,
+} from '@/lib/settlement'
+import {
+  CURRENCIES,
+  DEFAULT_CURRENCY,
+  captureRateSnapshot,
+  formatMoney,
+  formatRate,
+  getCurrencyInfo,
+  resolveRate,
+  roundMoney,
+  sumInHome,
+  toHomeAmount,
+  type ManualRate,
+  type RateSnapshot,
+  type RateSources,
+} from '@/lib/currency'
+import { scanReceipt, type ReceiptScan } from '@/lib/receiptOcr'
+import { compressImageFileToDataUrl } from '@/lib/compressImageClient'
+import { storeReceiptImage } from '@/lib/imageStorage'
+import { isDataImageUrl } from '@/lib/storedImage'
 import { getCurrentUser, getLoggedInUsername, getUsersAsync, type User } from '@/lib/auth'
-import { useWalletSettings, useExpenses, queryKeys } from '@/hooks/useQueries'
+import { can } from '@/lib/permissions'
+import { getDestinationTimeZone } from '@/lib/settings'
+import { formatTripMonthDay } from '@/lib/tripCalendar'
+import type { BudgetAlert } from '@/lib/budget'
+import type { ImportedExpense } from '@/lib/walletExport'
+import { cashPockets } from '@/lib/cashOnHand'
+import { IC_CARD_CURRENCY, icCardLedger, icFareExpenses, type IcCardReminder } from '@/lib/icCard'
+import { expenseLinkLabel, type ExpenseDraft } from '@/lib/expenseLinks'
+import ImageCropper from '@/components/ImageCropper'
+import WalletBudgetPanel, { budgetSettingsOf, type WalletBudgetPatch } from '@/components/WalletBudgetPanel'
+import WalletExportPanel from '@/components/WalletExportPanel'
+import WalletCashPanel, { type CashWithdrawal } from '@/components/WalletCashPanel'
+import WalletIcCardPanel, { type IcCardTopUp } from '@/components/WalletIcCardPanel'
+import { useSettings, useTrips, useWishlistItems, useWalletSettings, useExpenses, useExchangeRates, useLiveRates, useSaveExchangeRate, useDeleteExchangeRate, useReceiptImageSrc, queryKeys } from '@/hooks/useQueries'
 
 const EXPENSE_LIST_PAGE_SIZE = 5
 
@@ -26,18 +76,21 @@ export type TravelWalletModalProps = {
   onClose: (reason?: TravelWalletCloseReason) => void
   /** Accent for avatars / bars (destination theme) */
   themeColor?: string
-  /** Can edit/delete others' shared expenses */
-  isAdminUser?: boolean
   /** Optional toast (e.g. panel top banner); otherwise alert on error */
   onNotify?: (msg: { type: 'success' | 'error'; text: string }) => void
+  /** 「記一筆」：open straight into a new expense linked to a stop / place; the wallet closes with the form */
+  expenseDraft?: ExpenseDraft | null
 }
 
+type ExpenseLink = Pick<ExpenseDB, 'trip_id' | 'wishlist_item_id'>
+const NO_LINK: ExpenseLink = { trip_id: null, wishlist_item_id: null }
+
 export default function TravelWalletModal({
   open,
   onClose,
   themeColor = '#F472B6',
-  isAdminUser = false,
   onNotify,
+  expenseDraft = null,
 }: TravelWalletModalProps) {
   const queryClient = useQueryClient()
   const [users, setUsers] = useState<User[]>([])
@@ -57,7 +110,23 @@ export default function TravelWalletModal({
     return t || undefined
   }, [open, personalUsername, currentUser?.username])
 
-  const { data: walletSettingsData } = useWalletSettings({ enabled: open })
+  const { data: walletSettingsData, isSuccess: walletSettingsLoaded } = useWalletSettings({ enabled: open })
+  // 行程日期：每日預算與支出對應到 Day 1…N
+  const { data: tripSettings } = useSettings({ enabled: open })
+  // 連結的行程 / 願望清單名稱
+  const { data: trips = [], isSuccess: tripsLoaded } = useTrips({ enabled: open })
+  const { data: wishlistItems = [] } = useWishlistItems({ enabled: open })
+  // 本位幣：預算、總計、結算都以此幣別顯示
+  const homeCurrency = walletSettingsData?.currency || DEFAULT_CURRENCY
+  const { data: manualRates = [] } = useExchangeRates({ enabled: open })
+  const { data: liveRates } = useLiveRates(homeCurrency, { enabled: open })
+  const rateSources = useMemo(() => ({ manual: manualRates, live: liveRates }), [manualRates, liveRates])
+  const saveExchangeRate = useSaveExchangeRate()
+  const deleteExchangeRate = useDeleteExchangeRate()
+
+  const canWriteShared = can(currentUser, 'wallet.shared.write')
+  // 他人的共同支出、預算
+  const canManageShared = can(currentUser, 'wallet.shared.manage')
   const { data: sharedExpensesData = [], isFetching: isSharedFetching } = useExpenses('shared', undefined, { enabled: open })
   const {
     data: personalExpensesData,
@@ -81,8 +150,33 @@ export default function TravelWalletModal({
     category: 'food' as ExpenseCategory,
     note: '',
   })
-  const [budgetForm, setBudgetForm] = useState({ amount: '' })
+  // Kept between entries: consecutive expenses are usually in the same currency
+  const [expenseCurrency, setExpenseCurrency] = useState<string | null>(null)
+  // Stop / wishlist place the expense in the form is linked to
+  const [expenseLink, setExpenseLink] = useState<ExpenseLink>(NO_LINK)
+  // 付款方式 is kept between entries like the currency; pre-paid is per expense
+  const [paymentForm, setPaymentForm] = useState<{ method: PaymentMethod | null; prepaid: boolean }>({ method: null, prepaid: false })
+  const [budgetForm, setBudgetForm] = useState({ amount: '', currency: DEFAULT_CURRENCY })
   const [showBudgetForm, setShowBudgetForm] = useState(false)
+  const [showRatesPanel, setShowRatesPanel] = useState(false)
+  const [showExportPanel, setShowExportPanel] = useState(false)
+  const [showPaymentHistory, setShowPaymentHistory] = useState(false)
+  // Transfer being recorded (`from>to`), to avoid double taps
+  const [payingTransfer, setPayingTransfer] = useState<string | null>(null)
+  // 分攤：selected people and their value per split mode; `touched` = changed since the form opened
+  const [splitForm, setSplitForm] = useState<{ mode: SplitMode; selected: string[]; values: Record<string, string>; touched: boolean }>({
+    mode: 'equal',
+    selected: [],
+    values: {},
+    touched: false,
+  })
+  const [rateInputs, setRateInputs] = useState<Record<string, string>>({})
+  // 收據：photo (stored URL, or a data URL until the expense is saved) and what OCR read from it
+  const [receiptForm, setReceiptForm] = useState<{ url: string | null; data: ReceiptScan | null }>({ url: null, data: null })
+  const [receiptCropSrc, setReceiptCropSrc] = useState<string | null>(null)
+  // 0–1 while OCR runs
+  const [receiptScanProgress, setReceiptScanProgress] = useState<number | null>(null)
+  const [viewingReceipt, setViewingReceipt] = useState<ExpenseDB | null>(null)
 
   const notify = useCallback(
     (msg: { type: 'success' | 'error'; text: string }) => {
@@ -117,7 +211,7 @@ export default function TravelWalletModal({
           } else {
             setCurrentUser({
               username: tokenName,
-              role: tokenName === 'admin' ? 'admin' : 'user',
+              role: tokenName === 'admin' ? 'admin' : 'viewer',
               displayName: tokenName,
             })
           }
@@ -132,14 +226,20 @@ export default function TravelWalletModal({
   useEffect(() => {
     if (walletSettingsData) {
       setWalletSettings(walletSettingsData)
-      setBudgetForm({ amount: walletSettingsData.shared_budget.toString() })
+      setBudgetForm({ amount: walletSettingsData.shared_budget.toString(), currency: walletSettingsData.currency || DEFAULT_CURRENCY })
     }
   }, [walletSettingsData])
 
   useEffect(() => {
-    setSharedExpenses(sharedExpensesData)
+    setSharedExpenses(sharedExpensesData.filter(isSpending))
   }, [sharedExpensesData])
 
+  // 還款紀錄：settle-up payments live with the shared expenses but only move balances
+  const settlementPayments = useMemo(() => sharedExpensesData.filter(isSettlementPayment), [sharedExpensesData])
+  const cashWithdrawals = useMemo(() => sharedExpensesData.filter(isCashWithdrawal), [sharedExpensesData])
+  // Only the current user's personal expenses are loaded, so only their pocket includes them
+  const pockets = useMemo(() => cashPockets([...sharedExpensesData, ...(personalExpensesData ?? [])]), [sharedExpensesData, personalExpensesData])
+
   // 打開錢包時強制重抓支出（與 useExpenses staleTime:0 搭配，避免錯誤空快取）
   useEffect(() => {
     if (!open) return
@@ -179,15 +279,311 @@ export default function TravelWalletModal({
   const sharedListTotalPages = Math.max(1, Math.ceil(sharedExpenses.length / EXPENSE_LIST_PAGE_SIZE))
   const personalListTotalPages = Math.max(1, Math.ceil(personalExpenses.length / EXPENSE_LIST_PAGE_SIZE))
 
+  const formCurrency = expenseCurrency || homeCurrency
+  const homeAmount = useCallback(
+    (expense: ExpenseDB) => toHomeAmount(expense, homeCurrency, rateSources),
+    [homeCurrency, rateSources]
+  )
+  const sharedTotal = sumInHome(sharedExpenses, homeCurrency, rateSources)
+  // IC 卡：top-ups are personal; IC payments can be in either wallet; fares come from the itinerary
+  const icLedger = useMemo(
+    () =>
+      icCardLedger([...(personalExpensesData ?? []), ...sharedExpensesData], trips, personalExpenseUsername || '', getDestinationTimeZone()),
+    [personalExpensesData, sharedExpensesData, trips, personalExpenseUsername]
+  )
+  const icFares = useMemo(() => icFareExpenses(icLedger, personalExpenseUsername || ''), [icLedger, personalExpenseUsername])
+  // IC card top-ups stay in the list but are not spending (what the card pays for is, rides included)
+  const personalSpending = [...personalExpenses.filter(isSpending), ...icFares]
+  const personalTotal = sumInHome(personalSpending, homeCurrency, rateSources)
+  const budgetExpenses = useMemo(() => [...sharedExpenses, ...icFares], [sharedExpenses, icFares])
+  const sharedPrepaid = sumInHome(sharedExpenses.filter((e) => e.prepaid), homeCurrency, rateSources)
+  const personalPrepaid = sumInHome(personalSpending.filter((e) => e.prepaid), homeCurrency, rateSources)
+
   const getUserAvatarUrl = (username: string, fallbackAvatarUrl?: string): string | undefined => {
     const userObj = users.find(u => u.username === username)
     return userObj?.avatarUrl || fallbackAvatarUrl || undefined
   }
 
+  const displayNameOf = (username: string) =>
+    users.find((u) => u.username === username)?.displayName ||
+    sharedExpenses.find((e) => e.username === username)?.display_name ||
+    username
+
+  // 分帳：expenses without a split are shared by everyone who paid or was named in a split; recorded payments reduce what is left to transfer
+  const sharedSettlement = useMemo(() => {
+    const members = Array.from(
+      new Set(sharedExpenses.flatMap((e) => [e.username, ...(e.split?.participants.map((p) => p.username) ?? [])]))
+    )
+    const entries: SettlementEntry[] = []
+    const paid: Record<string, number> = {}
+    // Splits that do not add up are left out of the settlement and listed, not shared equally
+    const splitErrors: { expense: ExpenseDB; error: string }[] = []
+    const decimals = getCurrencyInfo(homeCurrency).decimals
+    for (const expense of sharedExpenses) {
+      const amount = toHomeAmount(expense, homeCurrency, rateSources)
+      if (amount == null) continue
+      const split = scaleSplit(expense.split, expense.amount ? amount / expense.amount : 1, decimals)
+      const error = validateSplit(amount, split, decimals)
+      if (error) {
+        splitErrors.push({ expense, error })
+        continue
+      }
+      entries.push({ payer: expense.username, amount, split })
+      paid[expense.username] = (paid[expense.username] || 0) + amount
+    }
+    const expenseBalances = computeBalances(entries, members, decimals)
+    const payments: SettlementEntry[] = []
+    for (const payment of settlementPayments) {
+      const amount = toHomeAmount(payment, homeCurrency, rateSources)
+      if (amount != null && payment.paid_to) payments.push(paymentEntry(payment.username, payment.paid_to, amount))
+    }
+    const { transfers } = settle([...entries, ...payments], members, decimals)
+    const people = members
+      .map((username) => {
+        const user = users.find((u) => u.username === username)
+        const expense = sharedExpenses.find((e) => e.username === username)
+        return {
+          username,
+          displayName: user?.displayName || expense?.display_name || username,
+          avatarUrl: user?.avatarUrl || expense?.avatar_url || undefined,
+          paid: paid[username] || 0,
+          owed: (paid[username] || 0) - (expenseBalances[username] || 0),
+        }
+      })
+      .sort((a, b) => b.paid - a.paid)
+    return { people, transfers, splitErrors }
+  }, [sharedExpenses, settlementPayments, homeCurrency, rateSources, users])
+
+  // Either side of a transfer can record it; managers can record anyone's
+  const canRecordPayment = (from: string, to: string) =>
+    (canWriteShared && (currentUser?.username === from || currentUser?.username === to)) || canManageShared
+
+  const saveBudgetEnvelopes = async (patch: WalletBudgetPatch) => {
+    const result = await saveSupabaseWalletSettings(patch)
+    if (!result.success) {
+      notify({ type: 'error', text: `預算儲存失敗：${result.error || '未知錯誤'}` })
+      return false
+    }
+    await queryClient.invalidateQueries({ queryKey: queryKeys.walletSettings })
+    notify({ type: 'success', text: '分類 / 每日預算已更新！' })
+    setWalletDirty(true)
+    return true
+  }
+
+  const notifyBudgetAlert = useCallback(
+    (alert: BudgetAlert) => {
+      const category = EXPENSE_CATEGORIES.find((c) => c.id === alert.category)
+      const label = category ? `${category.icon} ${category.label}` : alert.category
+      notify({
+        type: 'error',
+        text:
+          alert.status === 'over'
+            ? `${label} 已超出預算：${formatMoney(alert.spent, homeCurrency)} / ${formatMoney(alert.budget, homeCurrency)}`
+            : `${label} 已用 ${Math.round((alert.spent / alert.budget) * 100)}% 預算`,
+      })
+    },
+    [notify, homeCurrency]
+  )
+
+  const markTransferPaid = async (transfer: { from: string; to: string; amount: number }) => {
+    if (!confirm(`確認 ${displayNameOf(transfer.from)} 已付 ${formatMoney(transfer.amount, homeCurrency)} 給 ${displayNameOf(transfer.to)}？`)) return
+    setPayingTransfer(`${transfer.from}>${transfer.to}`)
+    try {
+      const payer = users.find((u) => u.username === transfer.from)
+      const { error } = await createSupabaseExpense({
+        type: 'shared',
+        kind: 'settlement',
+        username: transfer.from,
+        paid_to: transfer.to,
+        display_name: displayNameOf(transfer.from),
+        avatar_url: payer?.avatarUrl || null,
+        amount: transfer.amount,
+        currency: homeCurrency,
+        ...(await captureRateSnapshot(homeCurrency, manualRates)),
+        category: 'other',
+        note: null,
+      })
+      if (error) {
+        notify({ type: 'error', text: `還款記錄失敗：${error}` })
+        return
+      }
+      await queryClient.invalidateQueries({ queryKey: ['expenses'] })
+      notify({ type: 'success', text: '已記錄還款！' })
+      setWalletDirty(true)
+    } finally {
+      setPayingTransfer(null)
+    }
+  }
+
+  const recordWithdrawal = async ({ amount, currency, note }: CashWithdrawal) => {
+    if (!currentUser) {
+      notify({ type: 'error', text: '請先登入' })
+      return false
+    }
+    const { error } = await createSupabaseExpense({
+      type: 'shared',
+      kind: 'withdrawal',
+      username: currentUser.username,
+      display_name: currentUser.displayName || currentUser.username,
+      avatar_url: currentUser.avatarUrl || null,
+      amount,
+      currency,
+      ...(await captureRateSnapshot(currency, manualRates)),
+      category: 'other',
+      note,
+    })
+    if (error) {
+      notify({ type: 'error', text: `提款記錄失敗：${error}` })
+      return false
+    }
+    await queryClient.invalidateQueries({ queryKey: ['expenses'] })
+    notify({ type: 'success', text: `已記錄提款 ${formatMoney(amount, currency)}！` })
+    setWalletDirty(true)
+    return true
+  }
+
+  const recordIcTopUp = async ({ amount, paymentMethod }: IcCardTopUp) => {
+    if (!currentUser) {
+      notify({ type: 'error', text: '請先登入' })
+      return false
+    }
+    const { error } = await createSupabaseExpense({
+      type: 'personal',
+      username: currentUser.username,
+      display_name: currentUser.displayName || currentUser.username,
+      avatar_url: currentUser.avatarUrl || null,
+      amount,
+      currency: IC_CARD_CURRENCY,
+      ...(await captureRateSnapshot(IC_CARD_CURRENCY, manualRates)),
+      category: 'transport',
+      note: 'IC 卡儲值',
+      payment_method: paymentMethod,
+      kind: 'ic_topup',
+    })
+    if (error) {
+      notify({ type: 'error', text: `儲值記錄失敗：${error}` })
+      return false
+    }
+    await queryClient.invalidateQueries({ queryKey: ['expenses'] })
+    notify({ type: 'success', text: `已記錄儲值 ${formatMoney(amount, IC_CARD_CURRENCY)}！` })
+    setWalletDirty(true)
+    return true
+  }
+
+  const notifyIcCardReminder = useCallback(
+    (reminder: IcCardReminder) => {
+      notify({
+        type: 'error',
+        text: `IC 卡餘額約 ${formatMoney(reminder.balance, IC_CARD_CURRENCY)}，${formatTripMonthDay(reminder.date)} 預估車資 ${formatMoney(reminder.fare, IC_CARD_CURRENCY)}，記得先儲值`,
+      })
+    },
+    [notify]
+  )
+
+  // CSV 匯入：one insert per row so a bad row doesn't lose the rest; returns how many were saved
+  const importExpenses = async (rows: ImportedExpense[]) => {
+    let saved = 0
+    const failures: string[] = []
+    for (const row of rows) {
+      const currency = row.currency || homeCurrency
+      const snapshot = row.fx_rates || currency === homeCurrency ? {} : await captureRateSnapshot(currency, manualRates)
+      const { error } = await createSupabaseExpense({ ...row, ...snapshot })
+      if (error) failures.push(error)
+      else saved++
+    }
+    if (saved > 0) {
+      await queryClient.invalidateQueries({ queryKey: ['expenses'] })
+      setWalletDirty(true)
+    }
+    notify(
+      failures.length === 0
+        ? { type: 'success', text: `已匯入 ${saved} 筆支出！` }
+        : { type: 'error', text: `已匯入 ${saved} 筆，${failures.length} 筆失敗：${failures[0]}` }
+    )
+    return saved
+  }
+
+  const resetSplitForm = (split?: ExpenseSplit | null) => {
+    setSplitForm({
+      mode: split?.mode || 'equal',
+      selected: split ? split.participants.map((p) => p.username) : users.map((u) => u.username),
+      values: Object.fromEntries((split?.participants || []).map((p) => [p.username, p.value != null ? String(p.value) : ''])),
+      touched: false,
+    })
+  }
+
+  const formSplit = (): ExpenseSplit => ({
+    mode: splitForm.mode,
+    participants: splitForm.selected.map((username) =>
+      splitForm.mode === 'equal' ? { username } : { username, value: parseFloat(splitForm.values[username] || '') || 0 }
+    ),
+  })
+
+  const resetReceiptForm = (expense?: ExpenseDB | null) => {
+    setReceiptForm({ url: expense?.receipt_url || null, data: expense?.receipt_data || null })
+    setReceiptCropSrc(null)
+  }
+
+  // OCR on the device, then prefill what is still empty
+  const applyReceiptImage = async (url: string) => {
+    setReceiptCropSrc(null)
+    setReceiptForm({ url, data: null })
+    setReceiptScanProgress(0)
+    try {
+      const scan = await scanReceipt(url, (progress) => setReceiptScanProgress(progress))
+      setReceiptForm({ url, data: scan })
+      setExpenseForm((form) => ({
+        ...form,
+        amount: form.amount || (scan.total != null ? String(scan.total) : ''),
+        note: form.note || scan.shopName || '',
+      }))
+      if (scan.currency && CURRENCIES.some((c) => c.code === scan.currency)) setExpenseCurrency(scan.currency)
+      notify({ type: 'success', text: scan.total != null ? '已從收據讀取金額，請確認' : '讀不到收據金額，請手動輸入' })
+    } catch (err) {
+      console.error('Receipt OCR error:', err)
+      notify({ type: 'error', text: '收據辨識失敗，請手動輸入' })
+    } finally {
+      setReceiptScanProgress(null)
+    }
+  }
+
+  // 「記一筆」：prefill once per draft, after the users are in (the split defaults to everyone)
+  const appliedDraft = useRef<ExpenseDraft | null>(null)
+  useEffect(() => {
+    if (!open) {
+      appliedDraft.current = null
+      return
+    }
+    if (!expenseDraft || appliedDraft.current === expenseDraft || users.length === 0) return
+    appliedDraft.current = expenseDraft
+    setWalletTab(can(getCurrentUser(), 'wallet.shared.write') ? 'shared' : 'personal')
+    setEditingExpense(null)
+    setSplitForm({ mode: 'equal', selected: users.map((u) => u.username), values: {}, touched: false })
+    setReceiptForm({ url: null, data: null })
+    setReceiptCropSrc(null)
+    setExpenseForm({ amount: '', category: expenseDraft.category || 'food', note: expenseDraft.note })
+    setExpenseLink({ trip_id: expenseDraft.trip_id, wishlist_item_id: expenseDraft.wishlist_item_id })
+    setPaymentForm((form) => ({ ...form, prepaid: false }))
+    setShowExpenseForm(true)
+  }, [open, expenseDraft, users])
+
+  const closeExpenseForm = () => {
+    setShowExpenseForm(false)
+    setEditingExpense(null)
+    setExpenseForm({ amount: '', category: 'food', note: '' })
+    setExpenseLink(NO_LINK)
+    // The wallet was opened just for this expense; the expense queries are already refreshed
+    if (expenseDraft) {
+      setWalletDirty(false)
+      onClose()
+    }
+  }
+
   const handleClose = () => {
     setShowExpenseForm(false)
     setEditingExpense(null)
     setExpenseForm({ amount: '', category: 'food', note: '' })
+    setExpenseLink(NO_LINK)
     const changed = walletDirty
     setWalletDirty(false)
     onClose({ dataChanged: changed })
@@ -196,7 +592,7 @@ export default function TravelWalletModal({
   return (
     <>
       <AnimatePresence>
-        {open && (
+        {open && !expenseDraft && (
           <motion.div
             initial={{ opacity: 0 }}
             animate={{ opacity: 1 }}
@@ -217,6 +613,24 @@ export default function TravelWalletModal({
               <div className="p-4 md:p-5 border-b border-gray-100 flex-shrink-0">
                 <div className="flex items-center justify-between mb-4">
                   <h3 className="text-lg font-medium text-gray-800">💰 旅行錢包</h3>
+                  <button
+                    type="button"
+                    onClick={() => setShowRatesPanel(!showRatesPanel)}
+                    className={`ml-auto mr-2 px-2.5 py-1 text-xs rounded-full transition-colors ${
+                      showRatesPanel ? 'bg-amber-100 text-amber-700' : 'text-gray-500 hover:bg-gray-100'
+                    }`}
+                  >
+                    💱 匯率
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setShowExportPanel(!showExportPanel)}
+                    className={`mr-2 px-2.5 py-1 text-xs rounded-full transition-colors ${
+                      showExportPanel ? 'bg-amber-100 text-amber-700' : 'text-gray-500 hover:bg-gray-100'
+                    }`}
+                  >
+                    📤 匯出
+                  </button>
                   <button
                     type="button"
                     onClick={() => handleClose()}
@@ -253,40 +667,121 @@ export default function TravelWalletModal({
               </div>
 
               <div className="flex-1 overflow-y-auto p-5">
+                {showRatesPanel && (
+                  <RatesPanel
+                    homeCurrency={homeCurrency}
+                    manualRates={manualRates}
+                    sources={rateSources}
+                    canEdit={canWriteShared}
+                    inputs={rateInputs}
+                    onInputChange={(code, value) => setRateInputs({ ...rateInputs, [code]: value })}
+                    onSave={async (code) => {
+                      const rate = parseFloat(rateInputs[code] || '')
+                      const { error } = await saveExchangeRate.mutateAsync({ from: code, to: homeCurrency, rate })
+                      if (error) {
+                        notify({ type: 'error', text: `匯率儲存失敗：${error}` })
+                        return
+                      }
+                      setRateInputs({ ...rateInputs, [code]: '' })
+                      notify({ type: 'success', text: `已設定 1 ${code} = ${formatRate(rate)} ${homeCurrency}` })
+                    }}
+                    onDelete={async (id) => {
+                      const { error } = await deleteExchangeRate.mutateAsync(id)
+                      if (error) notify({ type: 'error', text: `匯率刪除失敗：${error}` })
+                    }}
+                  />
+                )}
+                {showExportPanel && (
+                  <WalletExportPanel
+                    sharedExpenses={sharedExpensesData}
+                    personalExpenses={personalExpenses}
+                    people={sharedSettlement.people}
+                    transfers={sharedSettlement.transfers}
+                    nameOf={displayNameOf}
+                    homeCurrency={homeCurrency}
+                    homeAmount={homeAmount}
+                    tripStartDate={tripSettings?.tripStartDate || ''}
+                    totalDays={tripSettings?.totalDays || 0}
+                    timeZone={getDestinationTimeZone()}
+                    importContext={
+                      currentUser
+                        ? {
+                            users,
+                            existingIds: new Set([...sharedExpensesData, ...personalExpenses].map((e) => e.id)),
+                            homeCurrency,
+                            canImport: (type, username) =>
+                              type === 'personal'
+                                ? username === currentUser.username
+                                : canManageShared || (canWriteShared && username === currentUser.username),
+                          }
+                        : null
+                    }
+                    onImport={importExpenses}
+                    onNotify={notify}
+                  />
+                )}
                 {walletTab === 'shared' && (
                   <div className="space-y-4">
                     <div className="bg-gradient-to-br from-amber-50 to-orange-50 rounded-xl p-4 border border-amber-200">
                       <div className="flex items-center justify-between mb-2">
-                        <span className="text-sm text-gray-600">預算</span>
-                        <button
-                          type="button"
-                          onClick={() => setShowBudgetForm(!showBudgetForm)}
-                          className="text-xs text-amber-600 hover:underline"
-                        >
-                          {showBudgetForm ? '取消' : '設定'}
-                        </button>
+                        <span className="text-sm text-gray-600">預算（{getCurrencyInfo(homeCurrency).label}）</span>
+                        {canManageShared && (
+                          <button
+                            type="button"
+                            onClick={() => setShowBudgetForm(!showBudgetForm)}
+                            className="text-xs text-amber-600 hover:underline"
+                          >
+                            {showBudgetForm ? '取消' : '設定'}
+                          </button>
+                        )}
                       </div>
 
                       {showBudgetForm ? (
                         <div className="flex gap-2">
+                          <select
+                            value={budgetForm.currency}
+                            onChange={(e) => {
+                              // 換本位幣時把預算一併換算
+                              const currency = e.target.value
+                              const rate = resolveRate(budgetForm.currency, currency, rateSources)
+                              const amount = parseFloat(budgetForm.amount)
+                              setBudgetForm({
+                                currency,
+                                amount: rate != null && amount ? roundMoney(amount * rate, currency).toString() : budgetForm.amount,
+                              })
+                            }}
+                            title="本位幣"
+                            className="px-2 py-2 text-sm border border-amber-200 rounded-lg focus:border-amber-400 outline-none bg-white"
+                          >
+                            {CURRENCIES.map((c) => (
+                              <option key={c.code} value={c.code}>
+                                {c.code}
+                              </option>
+                            ))}
+                          </select>
                           <input
                             type="number"
                             value={budgetForm.amount}
-                            onChange={(e) => setBudgetForm({ amount: e.target.value })}
+                            onChange={(e) => setBudgetForm({ ...budgetForm, amount: e.target.value })}
                             placeholder="輸入預算金額"
-                            className="flex-1 px-3 py-2 text-sm border border-amber-200 rounded-lg focus:border-amber-400 outline-none"
+                            className="flex-1 min-w-0 px-3 py-2 text-sm border border-amber-200 rounded-lg focus:border-amber-400 outline-none"
                           />
                           <button
                             type="button"
                             onClick={async () => {
                               const amount = parseFloat(budgetForm.amount) || 0
-                              const result = await saveSupabaseWalletSettings({ shared_budget: amount, currency: 'JPY' })
+                              const result = await saveSupabaseWalletSettings({
+                                shared_budget: amount,
+                                currency: budgetForm.currency,
+                                ...convertedBudgetEnvelopes(walletSettings, homeCurrency, budgetForm.currency, rateSources),
+                              })
                               if (!result.success) {
                                 notify({ type: 'error', text: `預算儲存失敗：${result.error || '未知錯誤'}` })
                                 return
                               }
                               await queryClient.invalidateQueries({ queryKey: queryKeys.walletSettings })
                               setShowBudgetForm(false)
+                              setExpenseCurrency(null)
                               notify({ type: 'success', text: '預算已更新！' })
                               setWalletDirty(true)
                             }}
@@ -298,170 +793,222 @@ export default function TravelWalletModal({
                       ) : (
                         <>
                           <div className="text-2xl font-bold text-gray-800">
-                            ¥{(walletSettings?.shared_budget || 0).toLocaleString()}
+                            {formatMoney(walletSettings?.shared_budget || 0, homeCurrency)}
                           </div>
                           <div className="flex items-center gap-2 mt-2">
                             <span className="text-sm text-gray-500">已使用</span>
                             <span className="text-sm font-medium text-orange-600">
-                              ¥{sharedExpenses.reduce((sum, e) => sum + e.amount, 0).toLocaleString()}
+                              {formatMoney(sharedTotal.total, homeCurrency)}
                             </span>
                           </div>
                           {(() => {
-                            const remaining =
-                              (walletSettings?.shared_budget || 0) -
-                              sharedExpenses.reduce((sum, e) => sum + e.amount, 0)
+                            const remaining = (walletSettings?.shared_budget || 0) - sharedTotal.total
                             return (
                               <div
                                 className={`text-lg font-bold mt-1 ${remaining >= 0 ? 'text-green-600' : 'text-red-600'}`}
                               >
-                                餘額: ¥{remaining.toLocaleString()}
+                                餘額: {formatMoney(remaining, homeCurrency)}
                               </div>
                             )
                           })()}
+                          {sharedTotal.missing > 0 && (
+                            <p className="text-xs text-amber-700 mt-1">⚠️ {sharedTotal.missing} 筆支出缺少匯率，未計入（可在「💱 匯率」手動設定）</p>
+                          )}
+                          {sharedPrepaid.total > 0 && (
+                            <p className="text-xs text-gray-500 mt-1">✈️ 其中行前預付 {formatMoney(sharedPrepaid.total, homeCurrency)}（不計入每日預算）</p>
+                          )}
                         </>
                       )}
                     </div>
 
-                    {sharedExpenses.length > 0 &&
-                      (() => {
-                        const perPerson = new Map<
-                          string,
-                          { username: string; displayName: string; avatarUrl?: string; total: number }
-                        >()
-                        sharedExpenses.forEach((expense) => {
-                          const existing = perPerson.get(expense.username)
-                          if (existing) {
-                            existing.total += expense.amount
-                          } else {
-                            perPerson.set(expense.username, {
-                              username: expense.username,
-                              displayName: expense.display_name,
-                              avatarUrl: getUserAvatarUrl(expense.username, expense.avatar_url || undefined),
-                              total: expense.amount,
-                            })
-                          }
-                        })
-                        const people = Array.from(perPerson.values()).sort((a, b) => b.total - a.total)
-                        const grandTotal = sharedExpenses.reduce((sum, e) => sum + e.amount, 0)
-                        const avgPerPerson = people.length > 0 ? grandTotal / people.length : 0
-
-                        return (
-                          <div className="bg-white rounded-xl border border-gray-100 overflow-hidden">
-                            <div className="px-4 pt-3 pb-2 flex items-center justify-between">
-                              <h4 className="text-sm font-medium text-gray-700 flex items-center gap-1.5">👥 各人支出總計</h4>
-                              <span className="text-[10px] text-gray-400">人均 ¥{Math.round(avgPerPerson).toLocaleString()}</span>
-                            </div>
-                            <div className="px-3 pb-3 space-y-1.5">
-                              {people.map((person) => {
-                                const pct = grandTotal > 0 ? (person.total / grandTotal) * 100 : 0
-                                return (
+                    {tripSettings && (
+                      <WalletBudgetPanel
+                        expenses={budgetExpenses}
+                        homeAmount={homeAmount}
+                        settings={walletSettings}
+                        homeCurrency={homeCurrency}
+                        tripStartDate={tripSettings.tripStartDate}
+                        totalDays={tripSettings.totalDays}
+                        timeZone={getDestinationTimeZone()}
+                        ready={walletSettingsLoaded && !isSharedFetching}
+                        canEdit={canManageShared}
+                        onSave={saveBudgetEnvelopes}
+                        onAlert={notifyBudgetAlert}
+                      />
+                    )}
+
+                    {sharedSettlement.splitErrors.length > 0 && (
+                      <div className="px-4 py-2.5 bg-red-50 rounded-xl border border-red-100 space-y-0.5">
+                        <p className="text-xs font-medium text-red-700">⚠️ 以下支出的分攤有誤，未計入分帳，請編輯修正：</p>
+                        {sharedSettlement.splitErrors.map(({ expense, error }) => (
+                          <p key={expense.id} className="text-[11px] text-red-600">
+                            {expense.note || expense.display_name} {formatMoney(expense.amount, expense.currency || DEFAULT_CURRENCY)}：{error}
+                          </p>
+                        ))}
+                      </div>
+                    )}
+
+                    {sharedSettlement.people.length > 0 && (
+                      <div className="bg-white rounded-xl border border-gray-100 overflow-hidden">
+                        <div className="px-4 pt-3 pb-2 flex items-center justify-between">
+                          <h4 className="text-sm font-medium text-gray-700 flex items-center gap-1.5">👥 各人支出總計</h4>
+                          <span className="text-[10px] text-gray-400">已付 / 應分攤</span>
+                        </div>
+                        <div className="px-3 pb-3 space-y-1.5">
+                          {sharedSettlement.people.map((person) => {
+                            const pct = sharedTotal.total > 0 ? (person.paid / sharedTotal.total) * 100 : 0
+                            return (
+                              <div
+                                key={person.username}
+                                className="flex items-center gap-2.5 p-2 rounded-lg hover:bg-gray-50 transition-colors"
+                              >
+                                {person.avatarUrl ? (
+                                  <img
+                                    src={person.avatarUrl}
+                                    alt=""
+                                    className="w-8 h-8 rounded-full object-cover border-2 border-white shadow-sm flex-shrink-0"
+                                  />
+                                ) : (
                                   <div
-                                    key={person.username}
-                                    className="flex items-center gap-2.5 p-2 rounded-lg hover:bg-gray-50 transition-colors"
+                                    className="w-8 h-8 rounded-full flex items-center justify-center text-white text-xs font-medium shadow-sm flex-shrink-0"
+                                    style={{ backgroundColor: themeColor }}
                                   >
-                                    {person.avatarUrl ? (
-                                      <img
-                                        src={person.avatarUrl}
-                                        alt=""
-                                        className="w-8 h-8 rounded-full object-cover border-2 border-white shadow-sm flex-shrink-0"
-                                      />
-                                    ) : (
-                                      <div
-                                        className="w-8 h-8 rounded-full flex items-center justify-center text-white text-xs font-medium shadow-sm flex-shrink-0"
-                                        style={{ backgroundColor: themeColor }}
+                                    {person.displayName.charAt(0)}
+                                  </div>
+                                )}
+                                <div className="flex-1 min-w-0">
+                                  <div className="flex items-center justify-between mb-1">
+                                    <span className="text-sm font-medium text-gray-800 truncate">{person.displayName}</span>
+                                    <span className="text-sm font-semibold text-gray-800 ml-2 flex-shrink-0">
+                                      {formatMoney(person.paid, homeCurrency)}
+                                      <span className="text-[10px] font-normal text-gray-400"> / {formatMoney(person.owed, homeCurrency)}</span>
+                                    </span>
+                                  </div>
+                                  <div className="h-1.5 bg-gray-100 rounded-full overflow-hidden">
+                                    <div
+                                      className="h-full rounded-full transition-all duration-500"
+                                      style={{
+                                        width: `${Math.min(pct, 100)}%`,
+                                        backgroundColor: themeColor,
+                                        opacity: 0.7 + (pct / 100) * 0.3,
+                                      }}
+                                    />
+                                  </div>
+                                </div>
+                              </div>
+                            )
+                          })}
+                        </div>
+
+                        {sharedSettlement.people.length > 1 && (
+                          <div className="px-4 py-2.5 bg-amber-50 border-t border-amber-100">
+                            <div className="space-y-1">
+                              {sharedSettlement.transfers.length === 0 ? (
+                                <p className="text-xs text-amber-700 text-center">✅ 各人已付與應分攤相同，無需補差額</p>
+                              ) : (
+                                sharedSettlement.transfers.map((t, i) => (
+                                  <div key={i} className="flex items-center justify-center gap-2">
+                                    <p className="text-xs text-amber-700">
+                                      💡 <span className="font-medium">{displayNameOf(t.from)}</span> 需付{' '}
+                                      <span className="font-bold">{formatMoney(t.amount, homeCurrency)}</span> 給{' '}
+                                      <span className="font-medium">{displayNameOf(t.to)}</span>
+                                    </p>
+                                    {canRecordPayment(t.from, t.to) && (
+                                      <button
+                                        type="button"
+                                        disabled={payingTransfer === `${t.from}>${t.to}`}
+                                        onClick={() => void markTransferPaid(t)}
+                                        className="px-2 py-0.5 text-[10px] rounded-full bg-white border border-amber-300 text-amber-700 hover:bg-amber-100 disabled:opacity-50 flex-shrink-0"
                                       >
-                                        {person.displayName.charAt(0)}
-                                      </div>
+                                        ✓ 已付
+                                      </button>
                                     )}
-                                    <div className="flex-1 min-w-0">
-                                      <div className="flex items-center justify-between mb-1">
-                                        <span className="text-sm font-medium text-gray-800 truncate">{person.displayName}</span>
-                                        <span className="text-sm font-semibold text-gray-800 ml-2 flex-shrink-0">
-                                          ¥{person.total.toLocaleString()}
-                                        </span>
-                                      </div>
-                                      <div className="h-1.5 bg-gray-100 rounded-full overflow-hidden">
-                                        <div
-                                          className="h-full rounded-full transition-all duration-500"
-                                          style={{
-                                            width: `${Math.min(pct, 100)}%`,
-                                            backgroundColor: themeColor,
-                                            opacity: 0.7 + (pct / 100) * 0.3,
-                                          }}
-                                        />
-                                      </div>
-                                    </div>
                                   </div>
-                                )
-                              })}
+                                ))
+                              )}
                             </div>
+                          </div>
+                        )}
+                      </div>
+                    )}
 
-                            {people.length === 2 && (
-                              <div className="px-4 py-2.5 bg-amber-50 border-t border-amber-100">
-                                {(() => {
-                                  const [a, b] = people
-                                  const diff = Math.abs(a.total - b.total)
-                                  const half = Math.round(diff / 2)
-                                  if (half === 0)
-                                    return <p className="text-xs text-amber-700 text-center">✅ 雙方支出相同，無需補差額</p>
-                                  const payer = a.total > b.total ? a : b
-                                  const receiver = a.total > b.total ? b : a
-                                  return (
-                                    <p className="text-xs text-amber-700 text-center">
-                                      💡 <span className="font-medium">{receiver.displayName}</span> 需付{' '}
-                                      <span className="font-bold">¥{half.toLocaleString()}</span> 給{' '}
-                                      <span className="font-medium">{payer.displayName}</span>
-                                    </p>
-                                  )
-                                })()}
-                              </div>
-                            )}
-                            {people.length > 2 && (
-                              <div className="px-4 py-2.5 bg-amber-50 border-t border-amber-100">
-                                <div className="space-y-1">
-                                  {(() => {
-                                    const balances = people.map((p) => ({
-                                      ...p,
-                                      balance: p.total - avgPerPerson,
-                                    }))
-                                    const creditors = balances.filter((b) => b.balance > 0).sort((a, b) => b.balance - a.balance)
-                                    const debtors = balances.filter((b) => b.balance < 0).sort((a, b) => a.balance - b.balance)
-                                    const settlements: { from: string; to: string; amount: number }[] = []
-                                    let ci = 0,
-                                      di = 0
-                                    const creds = creditors.map((c) => ({ ...c }))
-                                    const debts = debtors.map((d) => ({ ...d, balance: Math.abs(d.balance) }))
-                                    while (ci < creds.length && di < debts.length) {
-                                      const amount = Math.min(creds[ci].balance, debts[di].balance)
-                                      if (Math.round(amount) > 0) {
-                                        settlements.push({
-                                          from: debts[di].displayName,
-                                          to: creds[ci].displayName,
-                                          amount: Math.round(amount),
-                                        })
-                                      }
-                                      creds[ci].balance -= amount
-                                      debts[di].balance -= amount
-                                      if (creds[ci].balance < 1) ci++
-                                      if (debts[di].balance < 1) di++
-                                    }
-                                    if (settlements.length === 0) {
-                                      return <p className="text-xs text-amber-700 text-center">✅ 各人支出相同，無需補差額</p>
-                                    }
-                                    return settlements.map((s, i) => (
-                                      <p key={i} className="text-xs text-amber-700 text-center">
-                                        💡 <span className="font-medium">{s.from}</span> 需付{' '}
-                                        <span className="font-bold">¥{s.amount.toLocaleString()}</span> 給{' '}
-                                        <span className="font-medium">{s.to}</span>
-                                      </p>
-                                    ))
-                                  })()}
+                    <WalletCashPanel
+                      pockets={pockets}
+                      withdrawals={cashWithdrawals}
+                      nameOf={displayNameOf}
+                      currentUsername={currentUser?.username ?? null}
+                      defaultCurrency={formCurrency}
+                      canWithdraw={canWriteShared}
+                      canDelete={(withdrawal) => (canWriteShared && currentUser?.username === withdrawal.username) || canManageShared}
+                      onWithdraw={recordWithdrawal}
+                      onDelete={async (withdrawal) => {
+                        if (!confirm('確定要刪除此提款紀錄？')) return
+                        const { error } = await deleteSupabaseExpense(withdrawal.id)
+                        if (error) {
+                          notify({ type: 'error', text: `刪除失敗：${error}` })
+                          return
+                        }
+                        await queryClient.invalidateQueries({ queryKey: ['expenses'] })
+                        setWalletDirty(true)
+                      }}
+                    />
+
+                    {settlementPayments.length > 0 && (
+                      <div className="bg-white rounded-xl border border-gray-100 overflow-hidden">
+                        <button
+                          type="button"
+                          onClick={() => setShowPaymentHistory(!showPaymentHistory)}
+                          className="w-full px-4 py-2.5 flex items-center justify-between text-sm font-medium text-gray-700 hover:bg-gray-50"
+                        >
+                          <span>🤝 還款紀錄（{settlementPayments.length}）</span>
+                          <span className="text-xs text-gray-400">{showPaymentHistory ? '收合' : '展開'}</span>
+                        </button>
+                        {showPaymentHistory && (
+                          <div className="px-3 pb-3 space-y-1.5">
+                            {settlementPayments.map((payment) => (
+                              <div key={payment.id} className="flex items-center gap-2 p-2 rounded-lg bg-gray-50">
+                                <div className="flex-1 min-w-0">
+                                  <p className="text-xs text-gray-700 truncate">
+                                    <span className="font-medium">{displayNameOf(payment.username)}</span> →{' '}
+                                    <span className="font-medium">{displayNameOf(payment.paid_to || '')}</span>
+                                  </p>
+                                  <p className="text-[10px] text-gray-400">
+                                    {new Date(payment.created_at).toLocaleDateString('zh-TW', {
+                                      month: 'short',
+                                      day: 'numeric',
+                                      hour: '2-digit',
+                                      minute: '2-digit',
+                                    })}
+                                  </p>
                                 </div>
+                                <span className="text-sm font-semibold text-green-600 flex-shrink-0">
+                                  {formatMoney(payment.amount, payment.currency || DEFAULT_CURRENCY)}
+                                </span>
+                                {canRecordPayment(payment.username, payment.paid_to || '') && (
+                                  <button
+                                    type="button"
+                                    title="撤銷此還款"
+                                    onClick={async () => {
+                                      if (!confirm('確定要撤銷此還款紀錄？')) return
+                                      const { error } = await deleteSupabaseExpense(payment.id)
+                                      if (error) {
+                                        notify({ type: 'error', text: `撤銷失敗：${error}` })
+                                        return
+                                      }
+                                      await queryClient.invalidateQueries({ queryKey: ['expenses'] })
+                                      setWalletDirty(true)
+                                    }}
+                                    className="p-1.5 text-xs text-red-500 hover:bg-red-100 rounded"
+                                  >
+                                    🗑️
+                                  </button>
+                                )}
                               </div>
-                            )}
+                            ))}
                           </div>
-                        )
-                      })()}
+                        )}
+                      </div>
+                    )}
 
                     <div className="space-y-2">
                       {sharedExpenses.length === 0 ? (
@@ -506,16 +1053,36 @@ export default function TravelWalletModal({
                                     minute: '2-digit',
                                   })}
                                 </p>
+                                {expense.split && (
+                                  <p className="text-[10px] text-gray-400 truncate">
+                                    {describeSplit(expense.split, displayNameOf, expense.currency || DEFAULT_CURRENCY)}
+                                  </p>
+                                )}
+                                <ExpenseLinkLine label={expenseLinkLabel(expense, trips, wishlistItems)} />
+                                <ExpensePaymentLine expense={expense} />
                               </div>
-                              <div className="text-right">
-                                <p className="font-semibold text-red-600">-¥{expense.amount.toLocaleString()}</p>
-                              </div>
-                              {(currentUser?.username === expense.username || isAdminUser) && (
+                              <ExpenseAmount expense={expense} homeCurrency={homeCurrency} homeAmount={homeAmount(expense)} />
+                              {expense.receipt_url && (
+                                <button
+                                  type="button"
+                                  title="查看收據"
+                                  onClick={() => setViewingReceipt(expense)}
+                                  className="p-1.5 text-xs hover:bg-gray-100 rounded"
+                                >
+                                  🧾
+                                </button>
+                              )}
+                              {((currentUser?.username === expense.username && canWriteShared) || canManageShared) && (
                                 <div className="flex gap-1">
                                   <button
                                     type="button"
                                     onClick={() => {
                                       setEditingExpense(expense)
+                                      setExpenseCurrency(expense.currency || DEFAULT_CURRENCY)
+                                      resetSplitForm(expense.split)
+                                      resetReceiptForm(expense)
+                                      setExpenseLink({ trip_id: expense.trip_id ?? null, wishlist_item_id: expense.wishlist_item_id ?? null })
+                                      setPaymentForm({ method: expense.payment_method ?? null, prepaid: !!expense.prepaid })
                                       setExpenseForm({
                                         amount: expense.amount.toString(),
                                         category: expense.category,
@@ -578,11 +1145,28 @@ export default function TravelWalletModal({
                     <div className="bg-gradient-to-br from-blue-50 to-indigo-50 rounded-xl p-4 border border-blue-200">
                       <span className="text-sm text-gray-600">我的總支出</span>
                       <div className="text-2xl font-bold text-gray-800 mt-1">
-                        ¥{personalExpenses.reduce((sum, e) => sum + e.amount, 0).toLocaleString()}
+                        {formatMoney(personalTotal.total, homeCurrency)}
                       </div>
-                      <p className="text-xs text-gray-400 mt-1">{personalExpenses.length} 筆記錄</p>
+                      <p className="text-xs text-gray-400 mt-1">
+                        {personalExpenses.length} 筆記錄
+                        {personalTotal.missing > 0 && `（${personalTotal.missing} 筆缺少匯率，未計入）`}
+                      </p>
+                      {personalPrepaid.total > 0 && (
+                        <p className="text-xs text-gray-500 mt-0.5">✈️ 其中行前預付 {formatMoney(personalPrepaid.total, homeCurrency)}</p>
+                      )}
                     </div>
 
+                    {personalExpenseUsername && (
+                      <WalletIcCardPanel
+                        ledger={icLedger}
+                        username={personalExpenseUsername}
+                        ready={tripsLoaded && !isPersonalFetching && !isSharedFetching}
+                        canTopUp={currentUser?.username === personalExpenseUsername}
+                        onTopUp={recordIcTopUp}
+                        onAlert={notifyIcCardReminder}
+                      />
+                    )}
+
                     <div className="space-y-2">
                       {personalExpenses.length === 0 ? (
                         personalExpenseUsername && (isPersonalFetching || isPersonalPending) ? (
@@ -609,15 +1193,30 @@ export default function TravelWalletModal({
                                     minute: '2-digit',
                                   })}
                                 </p>
+                                <ExpenseLinkLine label={expenseLinkLabel(expense, trips, wishlistItems)} />
+                                <ExpensePaymentLine expense={expense} />
                               </div>
-                              <div className="text-right">
-                                <p className="font-semibold text-red-600">-¥{expense.amount.toLocaleString()}</p>
-                              </div>
+                              <ExpenseAmount expense={expense} homeCurrency={homeCurrency} homeAmount={homeAmount(expense)} />
+                              {expense.receipt_url && (
+                                <button
+                                  type="button"
+                                  title="查看收據"
+                                  onClick={() => setViewingReceipt(expense)}
+                                  className="p-1.5 text-xs hover:bg-gray-100 rounded"
+                                >
+                                  🧾
+                                </button>
+                              )}
                               <div className="flex gap-1">
                                 <button
                                   type="button"
                                   onClick={() => {
                                     setEditingExpense(expense)
+                                    setExpenseCurrency(expense.currency || DEFAULT_CURRENCY)
+                                    resetSplitForm(expense.split)
+                                    resetReceiptForm(expense)
+                                    setExpenseLink({ trip_id: expense.trip_id ?? null, wishlist_item_id: expense.wishlist_item_id ?? null })
+                                    setPaymentForm({ method: expense.payment_method ?? null, prepaid: !!expense.prepaid })
                                     setExpenseForm({
                                       amount: expense.amount.toString(),
                                       category: expense.category,
@@ -677,11 +1276,16 @@ export default function TravelWalletModal({
                 )}
               </div>
 
-              {!showExpenseForm && (
+              {!showExpenseForm && (walletTab === 'personal' || canWriteShared) && (
                 <div className="p-4 border-t border-gray-100 flex-shrink-0">
                   <button
                     type="button"
-                    onClick={() => setShowExpenseForm(true)}
+                    onClick={() => {
+                      resetSplitForm(null)
+                      resetReceiptForm(null)
+                      setPaymentForm({ ...paymentForm, prepaid: false })
+                      setShowExpenseForm(true)
+                    }}
                     className="w-full py-3 bg-gradient-to-r from-amber-400 to-orange-500 hover:from-amber-500 hover:to-orange-600 text-white font-medium rounded-xl transition-colors flex items-center justify-center gap-2"
                   >
                     <span className="text-lg">+</span>
@@ -702,11 +1306,7 @@ export default function TravelWalletModal({
             exit={{ opacity: 0 }}
             className="fixed inset-0 bg-black/50 z-[75] flex items-center justify-center p-4"
             onClick={(e) => {
-              if (e.target === e.currentTarget) {
-                setShowExpenseForm(false)
-                setEditingExpense(null)
-                setExpenseForm({ amount: '', category: 'food', note: '' })
-              }
+              if (e.target === e.currentTarget) closeExpenseForm()
             }}
           >
             <motion.div
@@ -720,11 +1320,7 @@ export default function TravelWalletModal({
                 <h4 className="font-medium text-gray-800 text-lg">{editingExpense ? '編輯支出' : '新增支出'}</h4>
                 <button
                   type="button"
-                  onClick={() => {
-                    setShowExpenseForm(false)
-                    setEditingExpense(null)
-                    setExpenseForm({ amount: '', category: 'food', note: '' })
-                  }}
+                  onClick={closeExpenseForm}
                   className="text-gray-400 hover:text-gray-600 text-2xl w-8 h-8 flex items-center justify-center"
                 >
                   ×
@@ -733,16 +1329,84 @@ export default function TravelWalletModal({
 
               <div className="flex-1 overflow-y-auto p-4 space-y-3">
                 <div>
-                  <label className="block text-sm text-gray-600 mb-1">金額 (JPY)</label>
-                  <input
-                    type="number"
-                    inputMode="numeric"
-                    value={expenseForm.amount}
-                    onChange={(e) => setExpenseForm({ ...expenseForm, amount: e.target.value })}
-                    placeholder="0"
-                    className="w-full px-4 py-3 text-lg font-semibold border border-gray-200 rounded-xl focus:border-amber-400 outline-none"
-                    autoFocus
-                  />
+                  <label className="block text-sm text-gray-600 mb-1">收據</label>
+                  {receiptForm.url ? (
+                    <div className="flex gap-3 p-2 border border-gray-200 rounded-xl">
+                      <ReceiptImage url={receiptForm.url} width={320} className="w-16 h-20 object-cover rounded-lg bg-gray-100 flex-shrink-0" />
+                      <div className="flex-1 min-w-0 text-xs text-gray-500 space-y-0.5">
+                        {receiptScanProgress != null ? (
+                          <p className="text-amber-600">🔍 辨識中… {Math.round(receiptScanProgress * 100)}%</p>
+                        ) : receiptForm.data ? (
+                          <ReceiptSummary scan={receiptForm.data} currency={formCurrency} />
+                        ) : (
+                          <p>已附加收據</p>
+                        )}
+                      </div>
+                      <button
+                        type="button"
+                        disabled={receiptScanProgress != null}
+                        onClick={() => setReceiptForm({ url: null, data: null })}
+                        className="self-start px-2 py-1 text-xs text-red-500 hover:bg-red-50 rounded disabled:opacity-40"
+                      >
+                        移除
+                      </button>
+                    </div>
+                  ) : (
+                    <label className="flex items-center justify-center gap-2 py-2.5 text-sm text-gray-500 border border-dashed border-gray-300 rounded-xl cursor-pointer hover:border-amber-400 hover:text-amber-600">
+                      📷 拍攝或選擇收據（自動辨識金額）
+                      <input
+                        type="file"
+                        accept="image/*"
+                        capture="environment"
+                        className="hidden"
+                        onChange={async (e) => {
+                          const file = e.target.files?.[0]
+                          e.target.value = ''
+                          if (!file) return
+                          // Large enough for OCR to read small print
+                          setReceiptCropSrc(await compressImageFileToDataUrl(file, { maxWidth: 2400, maxHeight: 2400, quality: 0.9 }))
+                        }}
+                      />
+                    </label>
+                  )}
+                </div>
+                <div>
+                  <label className="block text-sm text-gray-600 mb-1">金額</label>
+                  <div className="flex gap-2">
+                    <select
+                      value={formCurrency}
+                      onChange={(e) => setExpenseCurrency(e.target.value)}
+                      className="px-2 py-3 text-sm font-medium border border-gray-200 rounded-xl focus:border-amber-400 outline-none bg-white"
+                    >
+                      {CURRENCIES.map((c) => (
+                        <option key={c.code} value={c.code}>
+                          {c.code} {c.label}
+                        </option>
+                      ))}
+                    </select>
+                    <input
+                      type="number"
+                      inputMode="decimal"
+                      value={expenseForm.amount}
+                      onChange={(e) => setExpenseForm({ ...expenseForm, amount: e.target.value })}
+                      placeholder="0"
+                      className="flex-1 min-w-0 px-4 py-3 text-lg font-semibold border border-gray-200 rounded-xl focus:border-amber-400 outline-none"
+                      autoFocus
+                    />
+                  </div>
+                  {formCurrency !== homeCurrency &&
+                    (() => {
+                      const rate = resolveRate(formCurrency, homeCurrency, rateSources)
+                      if (rate == null) {
+                        return <p className="text-xs text-amber-700 mt-1">⚠️ 沒有 {formCurrency} 的匯率，請在「💱 匯率」手動設定</p>
+                      }
+                      const amount = parseFloat(expenseForm.amount) || 0
+                      return (
+                        <p className="text-xs text-gray-400 mt-1">
+                          ≈ {formatMoney(amount * rate, homeCurrency)}（1 {formCurrency} = {formatRate(rate)} {homeCurrency}）
+                        </p>
+                      )
+                    })()}
                 </div>
                 <div>
                   <label className="block text-sm text-gray-600 mb-1">類別</label>
@@ -764,6 +1428,113 @@ export default function TravelWalletModal({
                     ))}
                   </div>
                 </div>
+                <div>
+                  <label className="block text-sm text-gray-600 mb-1">付款方式（選填）</label>
+                  <div className="grid grid-cols-4 gap-1">
+                    {PAYMENT_METHODS.map((method) => (
+                      <button
+                        key={method.id}
+                        type="button"
+                        onClick={() => setPaymentForm({ ...paymentForm, method: paymentForm.method === method.id ? null : method.id })}
+                        className={`py-1.5 text-xs rounded-lg border transition-colors ${
+                          paymentForm.method === method.id
+                            ? 'border-amber-400 bg-amber-50 text-amber-700'
+                            : 'border-gray-200 text-gray-600 hover:border-gray-300'
+                        }`}
+                      >
+                        {method.icon} {method.label}
+                      </button>
+                    ))}
+                  </div>
+                  <label className="mt-2 flex items-center gap-2 text-sm text-gray-600 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={paymentForm.prepaid}
+                      onChange={(e) => setPaymentForm({ ...paymentForm, prepaid: e.target.checked })}
+                      className="accent-amber-500"
+                    />
+                    ✈️ 行前預付（機票、住宿、JR Pass 等，不計入旅程當天）
+                  </label>
+                </div>
+                {walletTab === 'shared' && users.length > 0 && (
+                  <div>
+                    <label className="block text-sm text-gray-600 mb-1">分攤</label>
+                    <div className="grid grid-cols-4 gap-1 mb-2">
+                      {SPLIT_MODES.map((mode) => (
+                        <button
+                          key={mode.id}
+                          type="button"
+                          onClick={() => setSplitForm({ ...splitForm, mode: mode.id, touched: true })}
+                          className={`py-1.5 text-xs rounded-lg border transition-colors ${
+                            splitForm.mode === mode.id
+                              ? 'border-amber-400 bg-amber-50 text-amber-700'
+                              : 'border-gray-200 text-gray-600 hover:border-gray-300'
+                          }`}
+                        >
+                          {mode.label}
+                        </button>
+                      ))}
+                    </div>
+                    {(() => {
+                      const amount = parseFloat(expenseForm.amount) || 0
+                      const split = formSplit()
+                      const error = amount > 0 ? validateSplit(amount, split, getCurrencyInfo(formCurrency).decimals) : null
+                      const owed = amount > 0 && !error ? splitAmount(amount, split, [], getCurrencyInfo(formCurrency).decimals) : {}
+                      return (
+                        <>
+                          <div className="space-y-1">
+                            {users.map((u) => {
+                              const selected = splitForm.selected.includes(u.username)
+                              return (
+                                <div key={u.username} className="flex items-center gap-2 text-sm">
+                                  <label className="flex-1 min-w-0 flex items-center gap-2 cursor-pointer">
+                                    <input
+                                      type="checkbox"
+                                      checked={selected}
+                                      onChange={() =>
+                                        setSplitForm({
+                                          ...splitForm,
+                                          selected: selected
+                                            ? splitForm.selected.filter((name) => name !== u.username)
+                                            : [...splitForm.selected, u.username],
+                                          touched: true,
+                                        })
+                                      }
+                                      className="accent-amber-500"
+                                    />
+                                    <span className="truncate text-gray-700">{u.displayName || u.username}</span>
+                                  </label>
+                                  {selected && splitForm.mode !== 'equal' && (
+                                    <input
+                                      type="number"
+                                      inputMode="decimal"
+                                      value={splitForm.values[u.username] || ''}
+                                      onChange={(e) =>
+                                        setSplitForm({
+                                          ...splitForm,
+                                          values: { ...splitForm.values, [u.username]: e.target.value },
+                                          touched: true,
+                                        })
+                                      }
+                                      placeholder={splitForm.mode === 'exact' ? formCurrency : splitForm.mode === 'percent' ? '%' : '份'}
+                                      className="w-20 px-2 py-1 text-xs border border-gray-200 rounded-lg focus:border-amber-400 outline-none"
+                                    />
+                                  )}
+                                  {selected && owed[u.username] != null && (
+                                    <span className="w-20 text-right text-xs text-gray-400 tabular-nums">
+                                      {formatMoney(owed[u.username], formCurrency)}
+                                    </span>
+                                  )}
+                                </div>
+                              )
+                            })}
+                          </div>
+                          {error && <p className="text-xs text-amber-700 mt-1">⚠️ {error}</p>}
+                        </>
+                      )
+                    })()}
+                  </div>
+                )}
                 <div>
                   <label className="block text-sm text-gray-600 mb-1">備註（選填）</label>
                   <input
@@ -774,6 +1545,22 @@ export default function TravelWalletModal({
                     className="w-full px-4 py-2.5 border border-gray-200 rounded-xl focus:border-amber-400 outline-none"
                   />
                 </div>
+                {(() => {
+                  const label = expenseLinkLabel(expenseLink, trips, wishlistItems)
+                  if (!label) return null
+                  return (
+                    <div className="flex items-center justify-between gap-2 px-3 py-2 text-sm bg-sakura-50 text-sakura-700 rounded-xl">
+                      <span className="truncate">📍 {label}</span>
+                      <button
+                        type="button"
+                        onClick={() => setExpenseLink(NO_LINK)}
+                        className="flex-shrink-0 text-xs text-gray-400 hover:text-gray-600"
+                      >
+                        取消連結
+                      </button>
+                    </div>
+                  )
+                })()}
               </div>
 
               <div className="flex-shrink-0 p-4 border-t border-gray-100 bg-white">
@@ -785,6 +1572,14 @@ export default function TravelWalletModal({
                       return
                     }
 
+                    // 舊支出沒動過分攤就維持原狀（null = 所有人平均）
+                    const split = walletTab === 'shared' && (!editingExpense || splitForm.touched) ? formSplit() : undefined
+                    const splitError = validateSplit(parseFloat(expenseForm.amount), split, getCurrencyInfo(formCurrency).decimals)
+                    if (splitError) {
+                      notify({ type: 'error', text: splitError })
+                      return
+                    }
+
                     let user = currentUser || getCurrentUser()
                     if (!user && users.length > 0) {
                       const adminUser = users.find((u) => u.role === 'admin')
@@ -805,10 +1600,50 @@ export default function TravelWalletModal({
                       return
                     }
 
+                    if (receiptScanProgress != null) {
+                      notify({ type: 'error', text: '收據辨識中，請稍候' })
+                      return
+                    }
+
                     try {
+                      // 收據照片在儲存支出時才上傳
+                      let receiptUrl = receiptForm.url
+                      if (receiptUrl && isDataImageUrl(receiptUrl)) {
+                        const uploaded = await storeReceiptImage(receiptUrl, user.username)
+                        if (uploaded.error || !uploaded.url) {
+                          notify({ type: 'error', text: `收據上傳失敗：${uploaded.error || '未知錯誤'}` })
+                          return
+                        }
+                        receiptUrl = uploaded.url
+                        setReceiptForm({ ...receiptForm, url: receiptUrl })
+                      }
+                      const receiptChanged = receiptUrl !== (editingExpense?.receipt_url || null)
+                      const receipt = receiptChanged ? { receipt_url: receiptUrl, receipt_data: receiptUrl ? receiptForm.data : null } : {}
+                      const linkChanged = editingExpense
+                        ? (editingExpense.trip_id ?? null) !== expenseLink.trip_id ||
+                          (editingExpense.wishlist_item_id ?? null) !== expenseLink.wishlist_item_id
+                        : expenseLink.trip_id != null || expenseLink.wishlist_item_id != null
+                      const link = linkChanged ? expenseLink : {}
+                      const paymentChanged = editingExpense
+                        ? (editingExpense.payment_method ?? null) !== paymentForm.method || !!editingExpense.prepaid !== paymentForm.prepaid
+                        : paymentForm.method != null || paymentForm.prepaid
+                      const payment = paymentChanged ? { payment_method: paymentForm.method, prepaid: paymentForm.prepaid } : {}
+
+                      // 匯率快照：新增時擷取；編輯時只在改了幣別（或舊資料沒有快照）才重新擷取
+                      const keepSnapshot =
+                        editingExpense &&
+                        (editingExpense.currency || DEFAULT_CURRENCY) === formCurrency &&
+                        (editingExpense.fx_rates || formCurrency === DEFAULT_CURRENCY)
+                      const snapshot: Partial<RateSnapshot> = keepSnapshot ? {} : await captureRateSnapshot(formCurrency, manualRates)
                       if (editingExpense) {
                         const { error } = await updateSupabaseExpense(editingExpense.id, {
                           amount: parseFloat(expenseForm.amount),
+                          currency: formCurrency,
+                          ...snapshot,
+                          ...(split ? { split } : {}),
+                          ...receipt,
+                          ...link,
+                          ...payment,
                           category: expenseForm.category,
                           note: expenseForm.note || null,
                         })
@@ -823,6 +1658,12 @@ export default function TravelWalletModal({
                           display_name: user.displayName || user.username,
                           avatar_url: user.avatarUrl || null,
                           amount: parseFloat(expenseForm.amount),
+                          currency: formCurrency,
+                          ...snapshot,
+                          ...(split ? { split } : {}),
+                          ...receipt,
+                          ...link,
+                          ...payment,
                           category: expenseForm.category,
                           note: expenseForm.note || null,
                         })
@@ -845,11 +1686,9 @@ export default function TravelWalletModal({
                           queryFn: () => getSupabaseExpenses('personal', user.username),
                         })
                       }
-                      setShowExpenseForm(false)
-                      setEditingExpense(null)
-                      setExpenseForm({ amount: '', category: 'food', note: '' })
                       notify({ type: 'success', text: editingExpense ? '支出已更新！' : '支出已新增！' })
                       setWalletDirty(true)
+                      closeExpenseForm()
                     } catch (err: unknown) {
                       const m = err instanceof Error ? err.message : '未知錯誤'
                       notify({ type: 'error', text: `操作失敗：${m}` })
@@ -864,6 +1703,222 @@ export default function TravelWalletModal({
           </motion.div>
         )}
       </AnimatePresence>
+
+      {receiptCropSrc && (
+        <ImageCropper
+          imageSrc={receiptCropSrc}
+          title="裁剪收據"
+          aspectRatio={3 / 4}
+          cropShape="rect"
+          maxSize={2000}
+          onCropComplete={(url) => void applyReceiptImage(url)}
+          onSkip={() => void applyReceiptImage(receiptCropSrc)}
+          onCancel={() => setReceiptCropSrc(null)}
+        />
+      )}
+
+      {viewingReceipt?.receipt_url && (
+        <div className="fixed inset-0 bg-black/70 z-[80] flex items-center justify-center p-4" onClick={() => setViewingReceipt(null)}>
+          <div className="bg-white w-full max-w-md rounded-2xl shadow-xl max-h-[85vh] overflow-y-auto" onClick={(e) => e.stopPropagation()}>
+            <div className="p-4 border-b border-gray-100 flex items-center justify-between">
+              <h4 className="font-medium text-gray-800">🧾 {viewingReceipt.note || '收據'}</h4>
+              <button
+                type="button"
+                onClick={() => setViewingReceipt(null)}
+                className="text-gray-400 hover:text-gray-600 text-2xl w-8 h-8 flex items-center justify-center"
+              >
+                ×
+              </button>
+            </div>
+            <ReceiptImage url={viewingReceipt.receipt_url} width={640} className="w-full bg-gray-100" />
+            {viewingReceipt.receipt_data && (
+              <div className="p-4 text-sm text-gray-600 space-y-2">
+                <ReceiptSummary scan={viewingReceipt.receipt_data} currency={viewingReceipt.currency || DEFAULT_CURRENCY} />
+                {viewingReceipt.receipt_data.items.length > 0 && (
+                  <ul className="divide-y divide-gray-100 border-t border-gray-100">
+                    {viewingReceipt.receipt_data.items.map((item, i) => (
+                      <li key={i} className="flex items-center justify-between py-1.5 text-xs">
+                        <span className="truncate">
+                          {item.name}
+                          {item.reducedTax && <span className="ml-1 text-gray-400">※8%</span>}
+                          {item.taxFree && <span className="ml-1 text-green-600">免稅</span>}
+                        </span>
+                        <span className="ml-2 flex-shrink-0">{formatMoney(item.amount, viewingReceipt.currency || DEFAULT_CURRENCY)}</span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </>
+  )
+}
+
+/** Receipt photo: unsaved crops as they are, stored ones through a signed URL (the bucket is private) */
+function ReceiptImage({ url, width, className }: { url: string; width: number; className: string }) {
+  const src = useReceiptImageSrc(url, width)
+  return src ? <img src={src} alt="收據" className={className} /> : <div className={`${className} animate-pulse`} />
+}
+
+/** Shop, date, 税込 total and 免税 flag read from a receipt */
+function ReceiptSummary({ scan, currency }: { scan: ReceiptScan; currency: string }) {
+  return (
+    <>
+      {scan.shopName && <p className="font-medium text-gray-700 truncate">{scan.shopName}</p>}
+      {scan.date && <p>📅 {scan.date}</p>}
+      {scan.total != null && (
+        <p>
+          {scan.taxIncludedTotal != null ? '稅込合計' : '合計'} {formatMoney(scan.total, currency)}
+          {scan.tax != null && <span className="text-gray-400">（稅 {formatMoney(scan.tax, currency)}）</span>}
+        </p>
+      )}
+      {scan.taxFree && <p className="text-green-600">免稅</p>}
+      {scan.items.length > 0 && <p className="text-gray-400">{scan.items.length} 項品項</p>}
     </>
   )
 }
+
+/** e.g. "分攤：小明、小美（份數 2:1）" */
+function describeSplit(split: ExpenseSplit, nameOf: (username: string) => string, currency: string): string {
+  const names = split.participants.map((p) => nameOf(p.username)).join('、')
+  if (split.mode === 'equal') return `分攤：${names}`
+  const label = SPLIT_MODES.find((m) => m.id === split.mode)?.label
+  const values = split.participants.map((p) =>
+    split.mode === 'exact' ? formatMoney(Number(p.value) || 0, currency) : split.mode === 'percent' ? `${p.value}%` : String(p.value)
+  )
+  return `分攤：${names}（${label} ${values.join(split.mode === 'shares' ? ':' : '、')}）`
+}
+
+/** Amount as paid, plus the home-currency equivalent for foreign-currency expenses */
+/** 換本位幣時分類 / 每日預算也一併換算；沒設定就不送（舊資料表沒有這些欄位） */
+function convertedBudgetEnvelopes(
+  settings: WalletSettingsDB | null,
+  from: string,
+  to: string,
+  rateSources: RateSources
+): Partial<WalletBudgetPatch> {
+  const rate = from === to ? null : resolveRate(from, to, rateSources)
+  if (!settings || rate == null) return {}
+  const budget = budgetSettingsOf(settings)
+  if (Object.keys(budget.categoryBudgets).length === 0 && budget.dailyBudget == null && Object.keys(budget.dayBudgets).length === 0) {
+    return {}
+  }
+  const convert = (amounts: Record<string, number>) =>
+    Object.fromEntries(Object.entries(amounts).map(([key, amount]) => [key, roundMoney(amount * rate, to)]))
+  return {
+    category_budgets: convert(budget.categoryBudgets),
+    daily_budget: budget.dailyBudget != null ? roundMoney(budget.dailyBudget * rate, to) : null,
+    day_budgets: convert(budget.dayBudgets),
+  }
+}
+
+/** Stop / wishlist place the expense is linked to */
+function ExpenseLinkLine({ label }: { label: string | null }) {
+  if (!label) return null
+  return <p className="text-[10px] text-sakura-500 truncate">📍 {label}</p>
+}
+
+/** How it was paid, whether before departure, and IC card top-ups */
+function ExpensePaymentLine({ expense }: { expense: ExpenseDB }) {
+  const method = PAYMENT_METHODS.find((m) => m.id === expense.payment_method)
+  if (!method && !expense.prepaid && !isIcTopUp(expense)) return null
+  return (
+    <p className="text-[10px] text-gray-400 truncate">
+      {[isIcTopUp(expense) && '🚃 IC 卡儲值（不計入花費）', method && `${method.icon} ${method.label}`, expense.prepaid && '✈️ 行前預付']
+        .filter(Boolean)
+        .join(' · ')}
+    </p>
+  )
+}
+
+function ExpenseAmount({ expense, homeCurrency, homeAmount }: { expense: ExpenseDB; homeCurrency: string; homeAmount: number | null }) {
+  const currency = expense.currency || DEFAULT_CURRENCY
+  return (
+    <div className="text-right">
+      <p className="font-semibold text-red-600">-{formatMoney(expense.amount, currency)}</p>
+      {currency !== homeCurrency && (
+        <p
+          className="text-[10px] text-gray-400"
+          title={expense.fx_captured_at ? `匯率擷取於 ${new Date(expense.fx_captured_at).toLocaleString('zh-TW')}` : '以目前匯率換算'}
+        >
+          {homeAmount != null ? `≈ ${formatMoney(homeAmount, homeCurrency)}` : '缺少匯率'}
+        </p>
+      )}
+    </div>
+  )
+}
+
+/** 匯率：current rate of every currency into the home currency; manual rates override live ones */
+function RatesPanel({
+  homeCurrency,
+  manualRates,
+  sources,
+  canEdit,
+  inputs,
+  onInputChange,
+  onSave,
+  onDelete,
+}: {
+  homeCurrency: string
+  manualRates: (ManualRate & { id: number })[]
+  sources: RateSources
+  canEdit: boolean
+  inputs: Record<string, string>
+  onInputChange: (code: string, value: string) => void
+  onSave: (code: string) => void
+  onDelete: (id: number) => void
+}) {
+  return (
+    <div className="mb-4 rounded-xl border border-gray-200 p-3 space-y-2">
+      <p className="text-xs text-gray-500">
+        以 {homeCurrency} 計算。手動匯率優先於即時匯率，離線時也可使用；已記錄的支出沿用記帳當時的匯率。
+      </p>
+      {CURRENCIES.filter((c) => c.code !== homeCurrency).map((c) => {
+        const manual = manualRates.find((r) => r.from_currency === c.code && r.to_currency === homeCurrency)
+        const rate = resolveRate(c.code, homeCurrency, sources)
+        return (
+          <div key={c.code} className="flex items-center gap-2 text-sm">
+            <span className="w-20 flex-shrink-0 text-gray-700">1 {c.code}</span>
+            <span className="flex-1 min-w-0 text-gray-800 tabular-nums truncate">
+              = {rate != null ? formatRate(rate) : '—'} {homeCurrency}
+              {manual && <span className="ml-1 text-[10px] px-1 py-0.5 rounded bg-amber-100 text-amber-700">手動</span>}
+            </span>
+            {canEdit && (
+              <>
+                <input
+                  type="number"
+                  inputMode="decimal"
+                  value={inputs[c.code] || ''}
+                  onChange={(e) => onInputChange(c.code, e.target.value)}
+                  placeholder="手動"
+                  className="w-20 px-2 py-1 text-xs border border-gray-200 rounded-lg focus:border-amber-400 outline-none"
+                />
+                <button
+                  type="button"
+                  disabled={!(parseFloat(inputs[c.code] || '') > 0)}
+                  onClick={() => onSave(c.code)}
+                  className="px-2 py-1 text-xs bg-amber-500 hover:bg-amber-600 text-white rounded-lg disabled:opacity-40"
+                >
+                  儲存
+                </button>
+                {manual && (
+                  <button
+                    type="button"
+                    onClick={() => onDelete(manual.id)}
+                    title="改回即時匯率"
+                    className="px-1.5 py-1 text-xs text-gray-400 hover:text-red-500"
+                  >
+                    ✕
+                  </button>
+                )}
+              </>
+            )}
+          </div>
+        )
+      })}
+    </div>
+  )
+}
@@ -0,0 +1,190 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { motion, AnimatePresence } from 'framer-motion'
+import { useTripPlans, useCreateTripPlan, useRenameTripPlan, useDeleteTripPlan } from '@/hooks/useQueries'
+import { getCurrentPlanId, switchTripPlan } from '@/lib/settings'
+import { getCurrentUser } from '@/lib/auth'
+import { can } from '@/lib/permissions'
+
+type TripPlanSwitcherProps = {
+  /** Compact pill for headers; otherwise a full-width card row (panel) */
+  compact?: boolean
+  className?: string
+  onNotify?: (msg: { type: 'success' | 'error'; text: string }) => void
+}
+
+/**
+ * 旅程切換：每個旅程有自己的日期、天數、住所、航班、行程、支出及須知勾選。
+ * Switching reloads the page so every page-level cache starts from the new plan.
+ */
+export default function TripPlanSwitcher({ compact = false, className = '', onNotify }: TripPlanSwitcherProps) {
+  const { data: plans = [] } = useTripPlans()
+  const createPlan = useCreateTripPlan()
+  const renamePlan = useRenameTripPlan()
+  const deletePlan = useDeleteTripPlan()
+  const [isOpen, setIsOpen] = useState(false)
+  const [newPlanName, setNewPlanName] = useState('')
+  const [currentPlanId, setCurrentPlanIdState] = useState<number | null>(null)
+  const [canEditPlans, setCanEditPlans] = useState(false)
+
+  // localStorage / cookies are client-only; read after mount to keep SSR output stable
+  useEffect(() => {
+    setCurrentPlanIdState(getCurrentPlanId())
+    setCanEditPlans(can(getCurrentUser(), 'trips.edit'))
+  }, [plans])
+
+  // Before the trip_plans migration there is nothing to switch between
+  if (plans.length === 0) return null
+
+  const currentPlan = plans.find(p => p.id === currentPlanId) || plans[0]
+
+  const notify = (msg: { type: 'success' | 'error'; text: string }) => {
+    if (onNotify) onNotify(msg)
+    else if (msg.type === 'error') alert(msg.text)
+  }
+
+  const handleSwitch = (planId: number) => {
+    setIsOpen(false)
+    if (planId === currentPlan.id) return
+    switchTripPlan(planId)
+    window.location.reload()
+  }
+
+  const handleCreate = async () => {
+    const name = newPlanName.trim()
+    if (!name) return
+    const result = await createPlan.mutateAsync(name)
+    if (!result.data) {
+      notify({ type: 'error', text: `新增旅程失敗：${result.error || '未知錯誤'}` })
+      return
+    }
+    setNewPlanName('')
+    handleSwitch(result.data.id)
+  }
+
+  const handleRename = async () => {
+    const name = prompt('旅程名稱', currentPlan.name)?.trim()
+    if (!name || name === currentPlan.name) return
+    const result = await renamePlan.mutateAsync({ id: currentPlan.id, name })
+    if (!result.success) notify({ type: 'error', text: `重新命名失敗：${result.error || '未知錯誤'}` })
+  }
+
+  const handleDelete = async (planId: number, planName: string) => {
+    if (!confirm(`確定刪除「${planName}」？旅程需先清空行程與支出，勾選紀錄將一併刪除。`)) return
+    const result = await deletePlan.mutateAsync(planId)
+    if (!result.success) notify({ type: 'error', text: `刪除旅程失敗：${result.error || '未知錯誤'}` })
+    else notify({ type: 'success', text: `已刪除「${planName}」` })
+  }
+
+  return (
+    <div className={`relative ${compact ? '' : 'w-full'} ${className}`}>
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        className={
+          compact
+            ? 'flex items-center gap-1.5 px-3 py-2 text-sm text-gray-700 bg-white border border-gray-200 rounded-full hover:bg-gray-50 transition-colors max-w-[10rem]'
+            : 'w-full flex items-center gap-3 px-4 py-3 bg-white border border-gray-100 rounded-2xl shadow-sm hover:shadow-md transition-shadow text-left'
+        }
+      >
+        <span className={compact ? 'text-base' : 'text-2xl'}>🧳</span>
+        {compact ? (
+          <span className="truncate font-medium">{currentPlan.name}</span>
+        ) : (
+          <div className="flex-1 min-w-0">
+            <p className="text-xs text-gray-400">目前旅程</p>
+            <p className="text-sm font-semibold text-gray-800 truncate">{currentPlan.name}</p>
+          </div>
+        )}
+        <svg
+          className={`w-4 h-4 text-gray-500 shrink-0 transition-transform ${isOpen ? 'rotate-180' : ''}`}
+          fill="none"
+          stroke="currentColor"
+          viewBox="0 0 24 24"
+        >
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+        </svg>
+      </button>
+
+      <AnimatePresence>
+        {isOpen && (
+          <>
+            <div className="fixed inset-0 z-40" onClick={() => setIsOpen(false)} />
+            <motion.div
+              initial={{ opacity: 0, y: -10 }}
+              animate={{ opacity: 1, y: 0 }}
+              exit={{ opacity: 0, y: -10 }}
+              className={`absolute mt-2 bg-white rounded-xl shadow-lg border border-gray-200 overflow-hidden z-50 ${
+                compact ? 'right-0 w-64' : 'left-0 right-0'
+              }`}
+            >
+              <div className="max-h-64 overflow-y-auto">
+                {plans.map((plan) => (
+                  <div
+                    key={plan.id}
+                    className={`flex items-center gap-2 px-4 py-2.5 text-sm ${
+                      plan.id === currentPlan.id ? 'bg-sakura-50 text-sakura-700 font-medium' : 'text-gray-700 hover:bg-gray-50'
+                    }`}
+                  >
+                    <button type="button" onClick={() => handleSwitch(plan.id)} className="flex-1 min-w-0 text-left">
+                      <span className="block truncate">{plan.name}</span>
+                      {plan.trip_start_date && (
+                        <span className="block text-xs text-gray-400 font-normal">
+                          {plan.trip_start_date} · {plan.total_days} 天
+                        </span>
+                      )}
+                    </button>
+                    {canEditPlans && plan.id === currentPlan.id && (
+                      <button
+                        type="button"
+                        onClick={handleRename}
+                        className="text-xs text-gray-400 hover:text-gray-600"
+                        title="重新命名"
+                      >
+                        ✏️
+                      </button>
+                    )}
+                    {canEditPlans && plan.id !== currentPlan.id && (
+                      <button
+                        type="button"
+                        onClick={() => handleDelete(plan.id, plan.name)}
+                        className="text-xs text-gray-300 hover:text-red-500"
+                        title="刪除旅程"
+                      >
+                        ✕
+                      </button>
+                    )}
+                  </div>
+                ))}
+              </div>
+
+              {canEditPlans && (
+                <div className="flex gap-2 p-3 border-t border-gray-100">
+                  <input
+                    type="text"
+                    value={newPlanName}
+                    onChange={(e) => setNewPlanName(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') void handleCreate()
+                    }}
+                    placeholder="新旅程名稱（例：大阪 2027）"
+                    className="flex-1 min-w-0 px-3 py-2 bg-gray-50 border border-gray-200 rounded-lg text-sm focus:outline-none focus:border-sakura-400"
+                  />
+                  <button
+                    type="button"
+                    onClick={() => void handleCreate()}
+                    disabled={!newPlanName.trim() || createPlan.isPending}
+                    className="px-3 py-2 bg-sakura-500 hover:bg-sakura-600 disabled:opacity-50 text-white rounded-lg text-sm font-medium transition-colors"
+                  >
+                    新增
+                  </button>
+                </div>
+              )}
+            </motion.div>
+          </>
+        )}
+      </AnimatePresence>
+    </div>
+  )
+}
@@ -0,0 +1,312 @@
+'use client'
+
+import { useEffect, useMemo, useState } from 'react'
+import { EXPENSE_CATEGORIES, type ExpenseDB, type WalletSettingsDB } from '@/lib/supabase'
+import {
+  DEFAULT_ALERT_THRESHOLD,
+  checkBudgetAlerts,
+  spendingDay,
+  projectSpending,
+  summarizeCategories,
+  summarizeDays,
+  type BudgetAlert,
+  type BudgetEntry,
+  type BudgetSettings,
+  type BudgetStatus,
+} from '@/lib/budget'
+import { formatMoney } from '@/lib/currency'
+import { getDayNumberForDate, todayInTimeZone } from '@/lib/tripCalendar'
+
+export type WalletBudgetPatch = Pick<WalletSettingsDB, 'category_budgets' | 'daily_budget' | 'day_budgets' | 'budget_alert_threshold'>
+
+export function budgetSettingsOf(settings: WalletSettingsDB | null | undefined): BudgetSettings {
+  return {
+    categoryBudgets: (settings?.category_budgets as Record<string, number> | null | undefined) || {},
+    dailyBudget: settings?.daily_budget != null ? Number(settings.daily_budget) : null,
+    dayBudgets: settings?.day_budgets || {},
+    alertThreshold: Number(settings?.budget_alert_threshold) || DEFAULT_ALERT_THRESHOLD,
+  }
+}
+
+const STATUS_COLORS: Record<BudgetStatus, string> = {
+  none: '#D1D5DB',
+  ok: '#22C55E',
+  warning: '#F59E0B',
+  over: '#EF4444',
+}
+
+const categoryLabel = (id: string) => {
+  const category = EXPENSE_CATEGORIES.find((c) => c.id === id)
+  return category ? `${category.icon} ${category.label}` : id
+}
+
+/**
+ * 預算分析：category envelopes, daily spending vs plan and the end-of-trip projection for the shared
+ * wallet. Categories crossing the alert threshold are listed on top and reported once via `onAlert`.
+ */
+export default function WalletBudgetPanel({
+  expenses,
+  homeAmount,
+  settings,
+  homeCurrency,
+  tripStartDate,
+  totalDays,
+  timeZone,
+  ready,
+  canEdit,
+  onSave,
+  onAlert,
+}: {
+  /** Shared expenses (no settle-up payments), plus the rides taken off the user's IC card (icFareExpenses) */
+  expenses: ExpenseDB[]
+  homeAmount: (expense: ExpenseDB) => number | null
+  settings: WalletSettingsDB | null
+  homeCurrency: string
+  tripStartDate: string
+  totalDays: number
+  timeZone: string
+  /** Expenses and settings are loaded: alerts are only checked then */
+  ready: boolean
+  canEdit: boolean
+  onSave: (patch: WalletBudgetPatch) => Promise<boolean>
+  onAlert: (alert: BudgetAlert) => void
+}) {
+  const [expanded, setExpanded] = useState(false)
+  const [editing, setEditing] = useState(false)
+  const [form, setForm] = useState<{ categories: Record<string, string>; daily: string; days: Record<string, string>; threshold: string }>({
+    categories: {},
+    daily: '',
+    days: {},
+    threshold: String(DEFAULT_ALERT_THRESHOLD),
+  })
+
+  const budget = useMemo(() => budgetSettingsOf(settings), [settings])
+  const entries = useMemo<BudgetEntry[]>(
+    () =>
+      expenses.flatMap((expense) => {
+        const amount = homeAmount(expense)
+        return amount == null ? [] : [{ amount, category: expense.category, day: spendingDay(expense, tripStartDate, timeZone) }]
+      }),
+    [expenses, homeAmount, tripStartDate, timeZone]
+  )
+  const categories = useMemo(
+    () => summarizeCategories(entries, EXPENSE_CATEGORIES.map((c) => c.id), budget),
+    [entries, budget]
+  )
+  const days = useMemo(() => summarizeDays(entries, totalDays, budget), [entries, totalDays, budget])
+  const today = getDayNumberForDate(tripStartDate, todayInTimeZone(timeZone))
+  const projection = projectSpending(entries, totalDays, today, settings?.shared_budget || null)
+  const alerting = categories.filter((c) => c.status === 'warning' || c.status === 'over')
+
+  useEffect(() => {
+    if (!ready) return
+    for (const alert of checkBudgetAlerts(categories)) onAlert(alert)
+  }, [ready, categories, onAlert])
+
+  const startEditing = () => {
+    setForm({
+      categories: Object.fromEntries(Object.entries(budget.categoryBudgets).map(([id, amount]) => [id, String(amount)])),
+      daily: budget.dailyBudget != null ? String(budget.dailyBudget) : '',
+      days: Object.fromEntries(Object.entries(budget.dayBudgets).map(([day, amount]) => [day, String(amount)])),
+      threshold: String(budget.alertThreshold),
+    })
+    setEditing(true)
+  }
+
+  const positiveAmounts = (values: Record<string, string>) =>
+    Object.fromEntries(
+      Object.entries(values)
+        .map(([key, value]) => [key, parseFloat(value)] as const)
+        .filter(([, amount]) => amount > 0)
+    )
+
+  const maxDay = Math.max(1, ...days.map((d) => Math.max(d.spent, d.planned || 0)))
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-100 overflow-hidden">
+      {alerting.length > 0 && (
+        <div className="px-4 py-2 bg-red-50 border-b border-red-100 space-y-0.5">
+          {alerting.map((c) => (
+            <p key={c.category} className={`text-xs ${c.status === 'over' ? 'text-red-600' : 'text-amber-700'}`}>
+              ⚠️ {categoryLabel(c.category)} 已用 {Math.round((c.spent / (c.budget || 1)) * 100)}%（
+              {formatMoney(c.spent, homeCurrency)} / {formatMoney(c.budget || 0, homeCurrency)}）
+            </p>
+          ))}
+        </div>
+      )}
+      <button
+        type="button"
+        onClick={() => setExpanded(!expanded)}
+        className="w-full px-4 py-2.5 flex items-center justify-between text-sm font-medium text-gray-700 hover:bg-gray-50"
+      >
+        <span>📊 預算分析</span>
+        <span className="text-xs text-gray-400">{expanded ? '收合' : '展開'}</span>
+      </button>
+
+      {expanded && (
+        <div className="px-4 pb-4 space-y-4">
+          {projection && (
+            <p
+              className={`text-xs rounded-lg px-3 py-2 ${
+                projection.overrun != null && projection.overrun > 0 ? 'bg-red-50 text-red-700' : 'bg-green-50 text-green-700'
+              }`}
+            >
+              {today > totalDays ? '旅程總支出' : '依目前每日約 ' + formatMoney(projection.perDay, homeCurrency) + ' 的速度，預計總支出'}{' '}
+              <span className="font-semibold">{formatMoney(projection.projected, homeCurrency)}</span>
+              {projection.overrun != null &&
+                (projection.overrun > 0
+                  ? `，超出預算 ${formatMoney(projection.overrun, homeCurrency)}`
+                  : `，尚餘 ${formatMoney(-projection.overrun, homeCurrency)}`)}
+            </p>
+          )}
+
+          <div className="space-y-1.5">
+            <h5 className="text-xs font-medium text-gray-500">分類預算</h5>
+            {categories
+              .filter((c) => c.budget != null || c.spent > 0)
+              .map((c) => (
+                <div key={c.category}>
+                  <div className="flex items-center justify-between text-xs">
+                    <span className="text-gray-700">{categoryLabel(c.category)}</span>
+                    <span className="tabular-nums text-gray-600">
+                      {formatMoney(c.spent, homeCurrency)}
+                      {c.budget != null && <span className="text-gray-400"> / {formatMoney(c.budget, homeCurrency)}</span>}
+                    </span>
+                  </div>
+                  {c.budget != null && (
+                    <div className="h-1.5 bg-gray-100 rounded-full overflow-hidden mt-0.5">
+                      <div
+                        className="h-full rounded-full"
+                        style={{ width: `${Math.min(100, (c.spent / c.budget) * 100)}%`, backgroundColor: STATUS_COLORS[c.status] }}
+                      />
+                    </div>
+                  )}
+                </div>
+              ))}
+          </div>
+
+          {totalDays > 0 && (
+            <div>
+              <h5 className="text-xs font-medium text-gray-500 mb-1">每日支出 vs 計劃</h5>
+              <div className="flex items-end gap-1 h-24">
+                {days.map((d) => (
+                  <div
+                    key={d.day}
+                    className="flex-1 h-full flex flex-col justify-end relative"
+                    title={`Day ${d.day}：${formatMoney(d.spent, homeCurrency)}${d.planned != null ? ` / ${formatMoney(d.planned, homeCurrency)}` : ''}`}
+                  >
+                    {d.planned != null && (
+                      <div
+                        className="absolute left-0 right-0 border-t-2 border-dashed border-gray-400"
+                        style={{ bottom: `${(d.planned / maxDay) * 100}%` }}
+                      />
+                    )}
+                    <div
+                      className="rounded-t"
+                      style={{
+                        height: `${(d.spent / maxDay) * 100}%`,
+                        backgroundColor: d.planned != null && d.spent > d.planned ? STATUS_COLORS.over : STATUS_COLORS.ok,
+                        opacity: d.day > today ? 0.3 : 1,
+                      }}
+                    />
+                  </div>
+                ))}
+              </div>
+              <div className="flex gap-1 mt-1">
+                {days.map((d) => (
+                  <span key={d.day} className={`flex-1 text-center text-[10px] ${d.day === today ? 'font-bold text-amber-600' : 'text-gray-400'}`}>
+                    D{d.day}
+                  </span>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {canEdit &&
+            (editing ? (
+              <div className="space-y-2 border-t border-gray-100 pt-3">
+                <div className="grid grid-cols-2 gap-2">
+                  {EXPENSE_CATEGORIES.map((c) => (
+                    <label key={c.id} className="flex items-center gap-1 text-xs text-gray-600">
+                      <span className="w-14 flex-shrink-0">
+                        {c.icon} {c.label}
+                      </span>
+                      <input
+                        type="number"
+                        inputMode="decimal"
+                        value={form.categories[c.id] || ''}
+                        onChange={(e) => setForm({ ...form, categories: { ...form.categories, [c.id]: e.target.value } })}
+                        placeholder="不限"
+                        className="flex-1 min-w-0 px-2 py-1 border border-gray-200 rounded-lg"
+                      />
+                    </label>
+                  ))}
+                </div>
+                <label className="flex items-center gap-2 text-xs text-gray-600">
+                  <span className="w-20 flex-shrink-0">每日預算</span>
+                  <input
+                    type="number"
+                    inputMode="decimal"
+                    value={form.daily}
+                    onChange={(e) => setForm({ ...form, daily: e.target.value })}
+                    placeholder="不限"
+                    className="flex-1 min-w-0 px-2 py-1 border border-gray-200 rounded-lg"
+                  />
+                </label>
+                <div className="grid grid-cols-4 gap-1">
+                  {days.map((d) => (
+                    <input
+                      key={d.day}
+                      type="number"
+                      inputMode="decimal"
+                      value={form.days[String(d.day)] || ''}
+                      onChange={(e) => setForm({ ...form, days: { ...form.days, [String(d.day)]: e.target.value } })}
+                      placeholder={`D${d.day}`}
+                      title={`Day ${d.day} 預算（留空 = 每日預算）`}
+                      className="min-w-0 px-2 py-1 text-xs border border-gray-200 rounded-lg"
+                    />
+                  ))}
+                </div>
+                <label className="flex items-center gap-2 text-xs text-gray-600">
+                  <span className="w-20 flex-shrink-0">提醒門檻 %</span>
+                  <input
+                    type="number"
+                    min={1}
+                    max={100}
+                    value={form.threshold}
+                    onChange={(e) => setForm({ ...form, threshold: e.target.value })}
+                    className="w-20 px-2 py-1 border border-gray-200 rounded-lg"
+                  />
+                </label>
+                <div className="flex gap-2">
+                  <button type="button" onClick={() => setEditing(false)} className="flex-1 py-1.5 text-xs border border-gray-200 rounded-lg">
+                    取消
+                  </button>
+                  <button
+                    type="button"
+                    onClick={async () => {
+                      const threshold = parseFloat(form.threshold)
+                      const saved = await onSave({
+                        category_budgets: positiveAmounts(form.categories),
+                        daily_budget: parseFloat(form.daily) > 0 ? parseFloat(form.daily) : null,
+                        day_budgets: positiveAmounts(form.days),
+                        budget_alert_threshold: threshold > 0 && threshold <= 100 ? threshold : DEFAULT_ALERT_THRESHOLD,
+                      })
+                      if (saved) setEditing(false)
+                    }}
+                    className="flex-1 py-1.5 text-xs bg-amber-500 hover:bg-amber-600 text-white rounded-lg"
+                  >
+                    儲存
+                  </button>
+                </div>
+              </div>
+            ) : (
+              <button type="button" onClick={startEditing} className="text-xs text-amber-600 hover:underline">
+                設定分類 / 每日預算
+              </button>
+            ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,188 @@
+'use client'
+
+import { useState } from 'react'
+import type { ExpenseDB } from '@/lib/supabase'
+import { CURRENCIES, DEFAULT_CURRENCY, formatMoney } from '@/lib/currency'
+import type { CashPocket } from '@/lib/cashOnHand'
+
+export type CashWithdrawal = { amount: number; currency: string; note: string | null }
+
+/**
+ * 現金：what is left in each person's pocket (lib/cashOnHand.ts), recording ATM withdrawals /
+ * money exchanged, and the withdrawal history.
+ */
+export default function WalletCashPanel({
+  pockets,
+  withdrawals,
+  nameOf,
+  currentUsername,
+  defaultCurrency,
+  canWithdraw,
+  canDelete,
+  onWithdraw,
+  onDelete,
+}: {
+  pockets: CashPocket[]
+  withdrawals: ExpenseDB[]
+  nameOf: (username: string) => string
+  currentUsername: string | null
+  defaultCurrency: string
+  canWithdraw: boolean
+  canDelete: (withdrawal: ExpenseDB) => boolean
+  onWithdraw: (withdrawal: CashWithdrawal) => Promise<boolean>
+  onDelete: (withdrawal: ExpenseDB) => void
+}) {
+  const [expanded, setExpanded] = useState(false)
+  const [form, setForm] = useState<{ amount: string; currency: string | null; note: string } | null>(null)
+  const [saving, setSaving] = useState(false)
+
+  const mine = pockets.filter((p) => p.username === currentUsername)
+  const formCurrency = form?.currency || defaultCurrency
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-100 overflow-hidden">
+      <button
+        type="button"
+        onClick={() => setExpanded(!expanded)}
+        className="w-full px-4 py-2.5 flex items-center justify-between text-sm font-medium text-gray-700 hover:bg-gray-50"
+      >
+        <span>
+          💴 現金
+          {mine.length > 0 && (
+            <span className="ml-2 text-xs font-normal text-gray-500">
+              我身上 {mine.map((p) => formatMoney(p.balance, p.currency)).join(' + ')}
+            </span>
+          )}
+        </span>
+        <span className="text-xs text-gray-400">{expanded ? '收合' : '展開'}</span>
+      </button>
+
+      {expanded && (
+        <div className="px-4 pb-4 space-y-3">
+          {pockets.length === 0 ? (
+            <p className="text-xs text-gray-400">還沒有提款紀錄。付款方式選「💴 現金」的支出會從提款金額扣除。</p>
+          ) : (
+            <div className="space-y-1.5">
+              {pockets.map((p) => (
+                <div key={`${p.username}:${p.currency}`} className="flex items-center justify-between text-xs">
+                  <span className="text-gray-700">{nameOf(p.username)}</span>
+                  <span className="tabular-nums text-right">
+                    <span className={`font-semibold ${p.balance < 0 ? 'text-red-600' : 'text-gray-800'}`}>{formatMoney(p.balance, p.currency)}</span>
+                    <span className="block text-[10px] text-gray-400">
+                      提領 {formatMoney(p.withdrawn, p.currency)} · 花費 {formatMoney(p.spent, p.currency)}
+                      {p.received > 0 && ` · 收到 ${formatMoney(p.received, p.currency)}`}
+                    </span>
+                  </span>
+                </div>
+              ))}
+              <p className="text-[10px] text-gray-400">其他人的個人現金支出不在這裡扣除</p>
+            </div>
+          )}
+
+          {canWithdraw &&
+            (form ? (
+              <div className="space-y-2 p-3 bg-gray-50 rounded-lg">
+                <div className="flex gap-2">
+                  <select
+                    value={formCurrency}
+                    onChange={(e) => setForm({ ...form, currency: e.target.value })}
+                    className="px-2 py-2 text-sm border border-gray-200 rounded-lg focus:border-amber-400 outline-none bg-white"
+                  >
+                    {CURRENCIES.map((c) => (
+                      <option key={c.code} value={c.code}>
+                        {c.code}
+                      </option>
+                    ))}
+                  </select>
+                  <input
+                    type="number"
+                    inputMode="decimal"
+                    value={form.amount}
+                    onChange={(e) => setForm({ ...form, amount: e.target.value })}
+                    placeholder="提領金額"
+                    className="flex-1 min-w-0 px-3 py-2 text-sm border border-gray-200 rounded-lg focus:border-amber-400 outline-none"
+                    autoFocus
+                  />
+                </div>
+                <input
+                  type="text"
+                  value={form.note}
+                  onChange={(e) => setForm({ ...form, note: e.target.value })}
+                  placeholder="備註（例如：7-Eleven ATM、機場換匯）"
+                  className="w-full px-3 py-2 text-sm border border-gray-200 rounded-lg focus:border-amber-400 outline-none"
+                />
+                <div className="flex gap-2">
+                  <button
+                    type="button"
+                    onClick={() => setForm(null)}
+                    className="flex-1 py-2 text-xs text-gray-600 bg-white border border-gray-200 rounded-lg hover:bg-gray-50"
+                  >
+                    取消
+                  </button>
+                  <button
+                    type="button"
+                    disabled={saving || !(parseFloat(form.amount) > 0)}
+                    onClick={async () => {
+                      setSaving(true)
+                      try {
+                        const saved = await onWithdraw({ amount: parseFloat(form.amount), currency: formCurrency, note: form.note.trim() || null })
+                        if (saved) setForm(null)
+                      } finally {
+                        setSaving(false)
+                      }
+                    }}
+                    className="flex-1 py-2 text-xs font-medium text-white bg-amber-500 hover:bg-amber-600 disabled:opacity-50 rounded-lg"
+                  >
+                    記錄提款
+                  </button>
+                </div>
+              </div>
+            ) : (
+              <button
+                type="button"
+                onClick={() => setForm({ amount: '', currency: null, note: '' })}
+                className="w-full py-2 text-xs font-medium text-amber-700 border border-dashed border-amber-300 rounded-lg hover:bg-amber-50"
+              >
+                🏧 記錄提款 / 換匯
+              </button>
+            ))}
+
+          {withdrawals.length > 0 && (
+            <div className="space-y-1.5">
+              <h5 className="text-xs font-medium text-gray-500">提款紀錄</h5>
+              {withdrawals.map((w) => (
+                <div key={w.id} className="flex items-center gap-2 p-2 rounded-lg bg-gray-50">
+                  <div className="flex-1 min-w-0">
+                    <p className="text-xs text-gray-700 truncate">
+                      <span className="font-medium">{nameOf(w.username)}</span>
+                      {w.note && ` · ${w.note}`}
+                    </p>
+                    <p className="text-[10px] text-gray-400">
+                      {new Date(w.created_at).toLocaleDateString('zh-TW', {
+                        month: 'short',
+                        day: 'numeric',
+                        hour: '2-digit',
+                        minute: '2-digit',
+                      })}
+                    </p>
+                  </div>
+                  <span className="text-sm font-semibold text-green-600 flex-shrink-0">+{formatMoney(w.amount, w.currency || DEFAULT_CURRENCY)}</span>
+                  {canDelete(w) && (
+                    <button
+                      type="button"
+                      title="刪除此提款"
+                      onClick={() => onDelete(w)}
+                      className="p-1.5 text-xs text-red-500 hover:bg-red-100 rounded"
+                    >
+                      🗑️
+                    </button>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,216 @@
+'use client'
+
+import { useState } from 'react'
+import type { ExpenseDB } from '@/lib/supabase'
+import type { Transfer } from '@/lib/settlement'
+import { formatMoney } from '@/lib/currency'
+import { downloadFile } from '@/lib/csv'
+import {
+  balanceRecords,
+  balancesCsv,
+  buildWalletReport,
+  expenseRecord,
+  expensesCsv,
+  previewExpenseImport,
+  transferRecords,
+  walletJson,
+  walletReportHtml,
+  type ExpenseImportContext,
+  type ExpenseImportPreview,
+  type ImportedExpense,
+  type WalletPerson,
+} from '@/lib/walletExport'
+
+const PREVIEW_ROWS = 8
+
+/** Open the report in a new window and bring up the print dialog; false when popups are blocked */
+function printHtml(html: string): boolean {
+  const win = window.open('', '_blank')
+  if (!win) return false
+  win.document.write(html)
+  win.document.close()
+  win.focus()
+  win.print()
+  return true
+}
+
+/**
+ * 匯出 / 匯入：downloads of the wallet (expenses CSV, balances CSV, JSON), the printable report, and
+ * importing an expenses CSV with a preview of what will be added and which rows are wrong.
+ */
+export default function WalletExportPanel({
+  sharedExpenses,
+  personalExpenses,
+  people,
+  transfers,
+  nameOf,
+  homeCurrency,
+  homeAmount,
+  tripStartDate,
+  totalDays,
+  timeZone,
+  importContext,
+  onImport,
+  onNotify,
+}: {
+  /** Shared rows including settle-up payments */
+  sharedExpenses: ExpenseDB[]
+  /** The current user's personal expenses */
+  personalExpenses: ExpenseDB[]
+  people: WalletPerson[]
+  transfers: Transfer[]
+  nameOf: (username: string) => string
+  homeCurrency: string
+  homeAmount: (expense: ExpenseDB) => number | null
+  tripStartDate: string
+  totalDays: number
+  timeZone: string
+  /** null = the current user cannot add expenses */
+  importContext: ExpenseImportContext | null
+  /** Save the rows; resolves to how many were saved */
+  onImport: (rows: ImportedExpense[]) => Promise<number>
+  onNotify: (msg: { type: 'success' | 'error'; text: string }) => void
+}) {
+  const [preview, setPreview] = useState<ExpenseImportPreview | null>(null)
+  const [importing, setImporting] = useState(false)
+
+  const ctx = { homeCurrency, homeAmount, tripStartDate, timeZone }
+  const stamp = new Date().toISOString().slice(0, 10)
+  const allExpenses = [...sharedExpenses, ...personalExpenses]
+  const payments = sharedExpenses.filter((e) => e.kind === 'settlement')
+  const balances = () => balanceRecords(people, payments, ctx)
+  const transferRows = () => transferRecords(transfers, nameOf, homeCurrency)
+
+  const buttonClass = 'flex-1 py-2 text-xs font-medium text-gray-700 bg-white border border-gray-200 rounded-lg hover:bg-gray-50'
+
+  return (
+    <div className="mb-4 p-4 bg-gray-50 rounded-xl border border-gray-200 space-y-3">
+      <div>
+        <h4 className="text-sm font-medium text-gray-700 mb-2">📤 匯出</h4>
+        <div className="grid grid-cols-2 gap-2">
+          <button
+            type="button"
+            className={buttonClass}
+            onClick={() => downloadFile(`wallet-expenses-${stamp}.csv`, expensesCsv(allExpenses, ctx), 'text/csv;charset=utf-8')}
+          >
+            📄 支出 CSV
+          </button>
+          <button
+            type="button"
+            className={buttonClass}
+            onClick={() => downloadFile(`wallet-balances-${stamp}.csv`, balancesCsv(balances(), transferRows()), 'text/csv;charset=utf-8')}
+          >
+            👥 分帳 CSV
+          </button>
+          <button
+            type="button"
+            className={buttonClass}
+            onClick={() =>
+              downloadFile(
+                `wallet-${stamp}.json`,
+                walletJson(
+                  { expenses: allExpenses.map((e) => expenseRecord(e, ctx)), balances: balances(), transfers: transferRows() },
+                  homeCurrency
+                ),
+                'application/json'
+              )
+            }
+          >
+            {'{ }'} JSON
+          </button>
+          <button
+            type="button"
+            className={buttonClass}
+            onClick={() => {
+              const report = buildWalletReport(sharedExpenses, personalExpenses, balances(), transferRows(), { ...ctx, totalDays })
+              if (!printHtml(walletReportHtml(report, `旅行錢包報表 ${stamp}`))) {
+                onNotify({ type: 'error', text: '請允許彈出視窗以列印報表' })
+              }
+            }}
+          >
+            🖨️ 列印報表
+          </button>
+        </div>
+      </div>
+
+      {importContext && (
+        <div className="border-t border-gray-200 pt-3">
+          <h4 className="text-sm font-medium text-gray-700 mb-1">📥 匯入 CSV</h4>
+          <p className="text-[10px] text-gray-400 mb-2">欄位同「支出 CSV」；必填 type、username、category、amount，已存在的 id 會略過</p>
+          {!preview ? (
+            <input
+              type="file"
+              accept=".csv,text/csv"
+              className="block w-full text-xs text-gray-500 file:mr-2 file:px-3 file:py-1.5 file:rounded-lg file:border-0 file:bg-amber-100 file:text-amber-700"
+              onChange={async (e) => {
+                const file = e.target.files?.[0]
+                e.target.value = ''
+                if (!file) return
+                setPreview(previewExpenseImport(await file.text(), importContext))
+              }}
+            />
+          ) : (
+            <div className="space-y-2">
+              <p className="text-xs text-gray-600">
+                可匯入 <span className="font-semibold text-green-600">{preview.rows.length}</span> 筆
+                {preview.duplicates.length > 0 && `，略過已存在 ${preview.duplicates.length} 筆`}
+                {preview.errors.length > 0 && (
+                  <>
+                    ，<span className="font-semibold text-red-600">{preview.errors.length}</span> 筆有誤
+                  </>
+                )}
+              </p>
+              {preview.errors.length > 0 && (
+                <ul className="max-h-24 overflow-y-auto text-[11px] text-red-600 space-y-0.5">
+                  {preview.errors.map((error) => (
+                    <li key={error.line}>
+                      第 {error.line} 行：{error.message}
+                    </li>
+                  ))}
+                </ul>
+              )}
+              {preview.rows.length > 0 && (
+                <table className="w-full text-[11px] text-gray-600">
+                  <tbody>
+                    {preview.rows.slice(0, PREVIEW_ROWS).map(({ line, expense }) => (
+                      <tr key={line} className="border-b border-gray-100">
+                        <td className="py-0.5 text-gray-400">{expense.created_at?.slice(0, 10) || '今天'}</td>
+                        <td className="py-0.5">{expense.type === 'shared' ? '共同' : '個人'}</td>
+                        <td className="py-0.5 truncate max-w-[6rem]">{expense.note || expense.display_name}</td>
+                        <td className="py-0.5 text-right tabular-nums">{formatMoney(expense.amount, expense.currency || homeCurrency)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+              {preview.rows.length > PREVIEW_ROWS && (
+                <p className="text-[10px] text-gray-400">…還有 {preview.rows.length - PREVIEW_ROWS} 筆</p>
+              )}
+              <div className="flex gap-2">
+                <button type="button" disabled={importing} onClick={() => setPreview(null)} className={buttonClass}>
+                  取消
+                </button>
+                <button
+                  type="button"
+                  disabled={importing || preview.rows.length === 0}
+                  onClick={async () => {
+                    setImporting(true)
+                    try {
+                      const saved = await onImport(preview.rows.map((row) => row.expense))
+                      if (saved === preview.rows.length) setPreview(null)
+                    } finally {
+                      setImporting(false)
+                    }
+                  }}
+                  className="flex-1 py-2 text-xs font-medium text-white bg-amber-500 hover:bg-amber-600 disabled:opacity-50 rounded-lg"
+                >
+                  {importing ? '匯入中…' : `匯入 ${preview.rows.length} 筆`}
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,185 @@
+'use client'
+
+import { useEffect, useMemo, useState } from 'react'
+import { PAYMENT_METHODS, type PaymentMethod } from '@/lib/supabase'
+import { formatMoney } from '@/lib/currency'
+import { formatTripMonthDay } from '@/lib/tripCalendar'
+import { IC_CARD_CURRENCY, checkIcCardReminder, icCardReminder, type IcCardLedger, type IcCardReminder } from '@/lib/icCard'
+
+export type IcCardTopUp = { amount: number; paymentMethod: PaymentMethod }
+
+const TOP_UP_AMOUNTS = [1000, 2000, 3000, 5000]
+const LEDGER_ROWS = 10
+
+/**
+ * IC 卡：the current user's estimated Suica / PASMO balance (lib/icCard.ts), recording top-ups, and
+ * the ledger. A low balance before the next transit day is shown on top and reported once via `onAlert`.
+ */
+export default function WalletIcCardPanel({
+  ledger,
+  username,
+  ready,
+  canTopUp,
+  onTopUp,
+  onAlert,
+}: {
+  ledger: IcCardLedger
+  username: string
+  /** Expenses and trips are loaded (no reminder from half the data) */
+  ready: boolean
+  canTopUp: boolean
+  onTopUp: (topUp: IcCardTopUp) => Promise<boolean>
+  onAlert: (reminder: IcCardReminder) => void
+}) {
+  const [expanded, setExpanded] = useState(false)
+  const [form, setForm] = useState<{ amount: string; paymentMethod: PaymentMethod } | null>(null)
+  const [saving, setSaving] = useState(false)
+
+  const reminder = useMemo(() => icCardReminder(ledger), [ledger])
+
+  useEffect(() => {
+    if (ready && reminder && checkIcCardReminder(reminder, username)) onAlert(reminder)
+  }, [ready, reminder, username, onAlert])
+
+  const money = (amount: number) => formatMoney(amount, IC_CARD_CURRENCY)
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-100 overflow-hidden">
+      {reminder && (
+        <div className="px-4 py-2 bg-amber-50 border-b border-amber-100">
+          <p className="text-xs text-amber-700">
+            ⚠️ {formatTripMonthDay(reminder.date)} 預估車資 {money(reminder.fare)}，IC 卡餘額約 {money(reminder.balance)}，記得先儲值
+          </p>
+        </div>
+      )}
+      <button
+        type="button"
+        onClick={() => setExpanded(!expanded)}
+        className="w-full px-4 py-2.5 flex items-center justify-between text-sm font-medium text-gray-700 hover:bg-gray-50"
+      >
+        <span>
+          🚃 IC 卡
+          {ledger.toppedUp > 0 && (
+            <span className={`ml-2 text-xs font-normal ${ledger.balance < 0 ? 'text-red-600' : 'text-gray-500'}`}>約 {money(ledger.balance)}</span>
+          )}
+        </span>
+        <span className="text-xs text-gray-400">{expanded ? '收合' : '展開'}</span>
+      </button>
+
+      {expanded && (
+        <div className="px-4 pb-4 space-y-3">
+          {ledger.toppedUp > 0 ? (
+            <div className="text-xs text-gray-500 space-y-0.5">
+              <p>
+                儲值 {money(ledger.toppedUp)} · 刷卡消費 {money(ledger.spent)} · 預估車資 {money(ledger.fares)}
+              </p>
+              {ledger.upcoming && (
+                <p>
+                  {formatTripMonthDay(ledger.upcoming.date)} 還有 {ledger.upcoming.legs.length} 段車程，約 {money(ledger.upcoming.fare)}
+                </p>
+              )}
+              <p className="text-[10px] text-gray-400">車資依行程各站的直線距離估算，實際餘額以票機為準</p>
+            </div>
+          ) : (
+            <p className="text-xs text-gray-400">記錄 Suica / PASMO 儲值後，會依付款方式「🚃 IC 卡」的支出與行程車程估算餘額。儲值本身不計入花費。</p>
+          )}
+
+          {canTopUp &&
+            (form ? (
+              <div className="space-y-2 p-3 bg-gray-50 rounded-lg">
+                <div className="grid grid-cols-4 gap-1">
+                  {TOP_UP_AMOUNTS.map((amount) => (
+                    <button
+                      key={amount}
+                      type="button"
+                      onClick={() => setForm({ ...form, amount: String(amount) })}
+                      className={`py-1.5 text-xs rounded-lg border transition-colors ${
+                        form.amount === String(amount) ? 'border-amber-400 bg-amber-50 text-amber-700' : 'border-gray-200 text-gray-600 bg-white'
+                      }`}
+                    >
+                      {money(amount)}
+                    </button>
+                  ))}
+                </div>
+                <div className="flex gap-2">
+                  <input
+                    type="number"
+                    inputMode="numeric"
+                    value={form.amount}
+                    onChange={(e) => setForm({ ...form, amount: e.target.value })}
+                    placeholder="儲值金額（日圓）"
+                    className="flex-1 min-w-0 px-3 py-2 text-sm border border-gray-200 rounded-lg focus:border-amber-400 outline-none"
+                  />
+                  <select
+                    value={form.paymentMethod}
+                    onChange={(e) => setForm({ ...form, paymentMethod: e.target.value as PaymentMethod })}
+                    title="用什麼儲值"
+                    className="px-2 py-2 text-sm border border-gray-200 rounded-lg focus:border-amber-400 outline-none bg-white"
+                  >
+                    {PAYMENT_METHODS.filter((m) => m.id !== 'ic').map((m) => (
+                      <option key={m.id} value={m.id}>
+                        {m.icon} {m.label}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div className="flex gap-2">
+                  <button
+                    type="button"
+                    onClick={() => setForm(null)}
+                    className="flex-1 py-2 text-xs text-gray-600 bg-white border border-gray-200 rounded-lg hover:bg-gray-50"
+                  >
+                    取消
+                  </button>
+                  <button
+                    type="button"
+                    disabled={saving || !(parseFloat(form.amount) > 0)}
+                    onClick={async () => {
+                      setSaving(true)
+                      try {
+                        if (await onTopUp({ amount: parseFloat(form.amount), paymentMethod: form.paymentMethod })) setForm(null)
+                      } finally {
+                        setSaving(false)
+                      }
+                    }}
+                    className="flex-1 py-2 text-xs font-medium text-white bg-amber-500 hover:bg-amber-600 disabled:opacity-50 rounded-lg"
+                  >
+                    記錄儲值
+                  </button>
+                </div>
+              </div>
+            ) : (
+              <button
+                type="button"
+                onClick={() => setForm({ amount: '', paymentMethod: 'cash' })}
+                className="w-full py-2 text-xs font-medium text-amber-700 border border-dashed border-amber-300 rounded-lg hover:bg-amber-50"
+              >
+                💳 記錄儲值
+              </button>
+            ))}
+
+          {ledger.entries.length > 0 && (
+            <div className="space-y-1">
+              <h5 className="text-xs font-medium text-gray-500">明細</h5>
+              {ledger.entries.slice(0, LEDGER_ROWS).map((entry, i) => (
+                <div key={`${entry.kind}:${entry.at}:${i}`} className="flex items-center justify-between gap-2 text-xs">
+                  <span className="min-w-0 truncate text-gray-700">
+                    {entry.kind === 'topup' ? '💳' : entry.kind === 'fare' ? '🚃' : '🛒'} {entry.label}
+                    <span className="ml-1 text-[10px] text-gray-400">{formatTripMonthDay(entry.date)}</span>
+                  </span>
+                  <span className={`flex-shrink-0 tabular-nums ${entry.amount > 0 ? 'text-green-600' : 'text-gray-600'}`}>
+                    {entry.amount > 0 ? '+' : ''}
+                    {money(entry.amount)}
+                  </span>
+                </div>
+              ))}
+              {ledger.entries.length > LEDGER_ROWS && (
+                <p className="text-[10px] text-gray-400">…還有 {ledger.entries.length - LEDGER_ROWS} 筆</p>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
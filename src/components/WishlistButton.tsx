@@ -800,6 +800,7 @@ export default function WishlistButton({
                               value={newItemImages}
                               onChange={setNewItemImages}
                               label="圖片"
+                              folder="wishlist"
                               maxImages={5}
                             />
                           </div>
@@ -1187,6 +1188,7 @@ export default function WishlistButton({
                         value={newItemImages}
                         onChange={setNewItemImages}
                         label="圖片"
+                        folder="wishlist"
                         maxImages={5}
                       />
                     </div>
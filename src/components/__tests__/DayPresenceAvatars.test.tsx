@@ -0,0 +1,33 @@
+import { renderToStaticMarkup } from 'react-dom/server'
+import { describe, expect, it } from 'vitest'
+import type { PresenceViewer } from '@/lib/supabase'
+import DayPresenceAvatars from '../DayPresenceAvatars'
+
+function viewer(username: string, avatarUrl?: string): PresenceViewer {
+  return { username, displayName: username.toUpperCase(), avatarUrl, day: 1 }
+}
+
+describe('DayPresenceAvatars', () => {
+  it('renders nothing without viewers', () => {
+    expect(renderToStaticMarkup(<DayPresenceAvatars />)).toBe('')
+    expect(renderToStaticMarkup(<DayPresenceAvatars viewers={[]} />)).toBe('')
+  })
+
+  it('shows avatars or initials and names everyone in the title', () => {
+    const html = renderToStaticMarkup(
+      <DayPresenceAvatars viewers={[viewer('admin', 'https://example.com/a.png'), viewer('girl')]} className="absolute" />
+    )
+    expect(html).toContain('src="https://example.com/a.png"')
+    expect(html).toContain('>G</div>')
+    expect(html).toContain('title="ADMIN、GIRL 正在查看"')
+    expect(html).toContain('class="flex -space-x-1.5 absolute"')
+  })
+
+  it('collapses viewers beyond three into a counter', () => {
+    const html = renderToStaticMarkup(
+      <DayPresenceAvatars viewers={['a', 'b', 'c', 'd', 'e'].map(name => viewer(name))} />
+    )
+    expect(html.match(/ring-white/g)).toHaveLength(4)
+    expect(html).toContain('>+2</div>')
+  })
+})
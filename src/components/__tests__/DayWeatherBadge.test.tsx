@@ -0,0 +1,30 @@
+import { renderToStaticMarkup } from 'react-dom/server'
+import { describe, expect, it } from 'vitest'
+import type { PlaceWeather } from '@/lib/weather'
+import DayWeatherBadge from '../DayWeatherBadge'
+
+function weather(place: string, overrides: Partial<PlaceWeather> = {}): PlaceWeather {
+  return { place, date: '2026-05-16', code: 61, tempMax: 21.6, tempMin: 14.2, precipitationChance: 70, source: 'forecast', ...overrides }
+}
+
+describe('DayWeatherBadge', () => {
+  it('renders nothing without weather', () => {
+    expect(renderToStaticMarkup(<DayWeatherBadge />)).toBe('')
+    expect(renderToStaticMarkup(<DayWeatherBadge weather={[]} />)).toBe('')
+  })
+
+  it('shows icon, high/low and rain chance of the first place', () => {
+    const html = renderToStaticMarkup(<DayWeatherBadge weather={[weather('淺草寺'), weather('住宿', { code: 0 })]} />)
+    expect(html).toContain('🌧️')
+    expect(html).toContain('22°/14°')
+    expect(html).toContain('💧70%')
+    expect(html).toContain('title="淺草寺：🌧️ 雨 22°/14° 降雨 70%（預報）\n住宿：☀️ 晴 22°/14° 降雨 70%（預報）"')
+    expect(html).not.toContain('均')
+  })
+
+  it('marks climate normals and hides a zero rain chance', () => {
+    const html = renderToStaticMarkup(<DayWeatherBadge weather={[weather('住宿', { source: 'climate', precipitationChance: 0 })]} />)
+    expect(html).toContain('均')
+    expect(html).not.toContain('💧')
+  })
+})
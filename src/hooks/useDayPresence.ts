@@ -0,0 +1,46 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import { joinTripPresence, type PresenceViewer } from '@/lib/supabase'
+import { getCurrentUser } from '@/lib/auth'
+
+/**
+ * Who else is looking at the current trip plan, grouped by the day they have open.
+ * Reports `day` for the signed-in user; the result never includes yourself.
+ */
+export function useDayPresence(day: number | null): Record<number, PresenceViewer[]> {
+  const [viewersByDay, setViewersByDay] = useState<Record<number, PresenceViewer[]>>({})
+  const presenceRef = useRef<ReturnType<typeof joinTripPresence> | null>(null)
+  const dayRef = useRef(day)
+  dayRef.current = day
+
+  useEffect(() => {
+    const user = getCurrentUser()
+    if (!user) return
+
+    const presence = joinTripPresence(
+      { username: user.username, displayName: user.displayName, avatarUrl: user.avatarUrl },
+      viewers => {
+        const grouped: Record<number, PresenceViewer[]> = {}
+        for (const viewer of viewers) {
+          if (viewer.username === user.username || viewer.day == null) continue
+          ;(grouped[viewer.day] ||= []).push(viewer)
+        }
+        setViewersByDay(grouped)
+      }
+    )
+    presence.setDay(dayRef.current)
+    presenceRef.current = presence
+
+    return () => {
+      presenceRef.current = null
+      presence.leave()
+    }
+  }, [])
+
+  useEffect(() => {
+    presenceRef.current?.setDay(day)
+  }, [day])
+
+  return viewersByDay
+}
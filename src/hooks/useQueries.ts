@@ -1,12 +1,20 @@
 'use client'
 
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { useEffect } from 'react'
+import { useQuery, useMutation, useQueryClient, type QueryClient } from '@tanstack/react-query'
 import {
   getTrips,
   createTrip,
   updateTrip,
   deleteTrip,
   type Trip,
+  type TripWrite,
+  getTripScheduleItems,
+  createTripScheduleItem,
+  updateTripScheduleItem,
+  deleteTripScheduleItem,
+  type TripScheduleItemDB,
+  type TripScheduleItemInput,
   getSupabaseWishlistItems,
   saveSupabaseWishlistItem,
   updateSupabaseWishlistItem,
@@ -19,6 +27,10 @@ import {
   saveSupabaseDestination,
   deleteSupabaseDestination,
   type DestinationDB,
+  getSupabaseCustomAreas,
+  createSupabaseCustomArea,
+  deleteSupabaseCustomArea,
+  type RegionCustomAreaDB,
   getSupabaseExpenses,
   createSupabaseExpense,
   updateSupabaseExpense,
@@ -28,26 +40,67 @@ import {
   getSupabaseWalletSettings,
   saveSupabaseWalletSettings,
   type WalletSettingsDB,
+  getSupabaseExchangeRates,
+  saveSupabaseExchangeRate,
+  deleteSupabaseExchangeRate,
   getSupabaseUsers,
   saveSupabaseUser,
   deleteSupabaseUser,
   type UserDB,
+  subscribeToTableChanges,
+  sortTrips,
+  dedupeWishlistItems,
+  sortExpenses,
+  type RealtimeChange,
+  getTrash,
+  restoreFromTrash,
+  deleteFromTrash,
+  purgeTrash,
+  type TrashTable,
+  getActivityLog,
+  revertActivity,
 } from '@/lib/supabase'
-import { getSettingsAsync, saveSettingsAsync, type SiteSettings } from '@/lib/settings'
+import {
+  getSettingsAsync,
+  saveSettingsAsync,
+  type SiteSettings,
+  getTripPlansAsync,
+  createTripPlanAsync,
+  renameTripPlanAsync,
+  deleteTripPlanAsync,
+  getCurrentPlanId,
+  getCurrentDestination,
+} from '@/lib/settings'
+import type { ActivityLogDB, ActivityLogFilters } from '@/lib/activityLog'
+import { getLiveRates, getRateProvider } from '@/lib/currency'
+import { receiptImageSrc } from '@/lib/imageStorage'
+import { isDataImageUrl } from '@/lib/storedImage'
+import { getTripDayWeather, getWeatherProvider, type TripDayWeatherRequest } from '@/lib/weather'
 
 // ============================================
 // Query Keys
 // ============================================
 export const queryKeys = {
   trips: ['trips'] as const,
+  tripScheduleItems: (tripId: number) => ['tripScheduleItems', tripId] as const,
   settings: ['settings'] as const,
+  tripPlans: ['tripPlans'] as const,
   wishlistItems: ['wishlistItems'] as const,
   checklistStates: ['checklistStates'] as const,
   users: ['users'] as const,
   destinations: ['destinations'] as const,
+  customAreas: ['customAreas'] as const,
   expenses: (type: 'personal' | 'shared', username?: string) =>
     ['expenses', type, username] as const,
   walletSettings: ['walletSettings'] as const,
+  exchangeRates: ['exchangeRates'] as const,
+  liveRates: (provider: string, base: string) => ['liveRates', provider, base] as const,
+  receiptImage: (url: string, width?: number) => ['receiptImage', url, width ?? null] as const,
+  trash: ['trash'] as const,
+  activityLog: (filters: ActivityLogFilters) =>
+    ['activityLog', filters.actor ?? null, filters.entityType ?? null, filters.day ?? null] as const,
+  weather: (provider: string, timeZone: string, days: TripDayWeatherRequest[]) =>
+    ['weather', provider, timeZone, days.map(d => [d.day, d.date, d.places.map(p => `${p.lat.toFixed(2)},${p.lng.toFixed(2)}`)])] as const,
 }
 
 // ============================================
@@ -68,7 +121,7 @@ export function useCreateTrip() {
   const queryClient = useQueryClient()
 
   return useMutation({
-    mutationFn: (trip: Omit<Trip, 'id' | 'created_at' | 'updated_at'>) => createTrip(trip),
+    mutationFn: (trip: Omit<TripWrite, 'id' | 'created_at' | 'updated_at'>) => createTrip(trip),
     onSuccess: (result) => {
       if (result.data) {
         queryClient.invalidateQueries({ queryKey: queryKeys.trips })
@@ -81,7 +134,8 @@ export function useUpdateTrip() {
   const queryClient = useQueryClient()
 
   return useMutation({
-    mutationFn: ({ id, trip }: { id: number; trip: Partial<Trip> }) => updateTrip(id, trip),
+    mutationFn: ({ id, trip, expectedUpdatedAt }: { id: number; trip: Partial<TripWrite>; expectedUpdatedAt?: string | null }) =>
+      updateTrip(id, trip, { expectedUpdatedAt }),
     onSuccess: (result) => {
       if (result.data) {
         queryClient.invalidateQueries({ queryKey: queryKeys.trips })
@@ -99,11 +153,64 @@ export function useDeleteTrip() {
       if (result.success) {
         queryClient.invalidateQueries({ queryKey: queryKeys.trips })
         queryClient.invalidateQueries({ queryKey: queryKeys.wishlistItems }) // Sync: trip may have been from wishlist
+        queryClient.invalidateQueries({ queryKey: queryKeys.trash })
       }
     },
   })
 }
 
+// ============================================
+// Trip schedule items (行程明細)
+// ============================================
+
+export function useTripScheduleItems(tripId: number | null | undefined) {
+  return useQuery({
+    queryKey: queryKeys.tripScheduleItems(tripId ?? 0),
+    queryFn: () => getTripScheduleItems(tripId!),
+    enabled: tripId != null,
+  })
+}
+
+// Trips embed their schedule items, so every change also refetches the trip list
+function invalidateTripSchedule(queryClient: QueryClient, tripId: number) {
+  queryClient.invalidateQueries({ queryKey: queryKeys.tripScheduleItems(tripId) })
+  queryClient.invalidateQueries({ queryKey: queryKeys.trips })
+}
+
+export function useCreateTripScheduleItem() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ tripId, item }: { tripId: number; item: Partial<TripScheduleItemInput> & { content: string } }) =>
+      createTripScheduleItem(tripId, item),
+    onSuccess: (result) => {
+      if (result.data) invalidateTripSchedule(queryClient, result.data.trip_id)
+    },
+  })
+}
+
+export function useUpdateTripScheduleItem() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ id, item }: { id: number; item: Partial<TripScheduleItemInput> }) => updateTripScheduleItem(id, item),
+    onSuccess: (result) => {
+      if (result.data) invalidateTripSchedule(queryClient, result.data.trip_id)
+    },
+  })
+}
+
+export function useDeleteTripScheduleItem() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ id }: { id: number; tripId: number }) => deleteTripScheduleItem(id),
+    onSuccess: (result, { tripId }) => {
+      if (result.success) invalidateTripSchedule(queryClient, tripId)
+    },
+  })
+}
+
 // ============================================
 // Site Settings
 // ============================================
@@ -129,6 +236,57 @@ export function useSaveSettings() {
   })
 }
 
+// ============================================
+// Trip Plans
+// ============================================
+
+export function useTripPlans(options?: { enabled?: boolean }) {
+  return useQuery({
+    queryKey: queryKeys.tripPlans,
+    queryFn: getTripPlansAsync,
+    enabled: options?.enabled,
+  })
+}
+
+export function useCreateTripPlan() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (name: string) => createTripPlanAsync(name),
+    onSuccess: (result) => {
+      if (result.data) {
+        queryClient.invalidateQueries({ queryKey: queryKeys.tripPlans })
+      }
+    },
+  })
+}
+
+export function useRenameTripPlan() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ id, name }: { id: number; name: string }) => renameTripPlanAsync(id, name),
+    onSuccess: (result) => {
+      if (result.success) {
+        queryClient.invalidateQueries({ queryKey: queryKeys.tripPlans })
+      }
+    },
+  })
+}
+
+export function useDeleteTripPlan() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (id: number) => deleteTripPlanAsync(id),
+    onSuccess: (result) => {
+      if (result.success) {
+        queryClient.invalidateQueries({ queryKey: queryKeys.tripPlans })
+      }
+    },
+  })
+}
+
 // ============================================
 // Wishlist Items
 // ============================================
@@ -164,10 +322,12 @@ export function useUpdateWishlistItem() {
     mutationFn: ({
       id,
       item,
+      expectedUpdatedAt,
     }: {
       id: number
       item: Partial<Omit<WishlistItemDB, 'id' | 'created_at'>>
-    }) => updateSupabaseWishlistItem(id, item),
+      expectedUpdatedAt?: string | null
+    }) => updateSupabaseWishlistItem(id, item, { expectedUpdatedAt }),
     onSuccess: (result) => {
       if (result.data) {
         queryClient.invalidateQueries({ queryKey: queryKeys.wishlistItems })
@@ -184,6 +344,7 @@ export function useDeleteWishlistItem() {
     onSuccess: (result) => {
       if (result.success) {
         queryClient.invalidateQueries({ queryKey: queryKeys.wishlistItems })
+        queryClient.invalidateQueries({ queryKey: queryKeys.trash })
       }
     },
   })
@@ -253,6 +414,7 @@ export function useDeleteUser() {
     onSuccess: (result) => {
       if (result.success) {
         queryClient.invalidateQueries({ queryKey: queryKeys.users })
+        queryClient.invalidateQueries({ queryKey: queryKeys.trash })
       }
     },
   })
@@ -292,6 +454,47 @@ export function useDeleteDestination() {
     onSuccess: (result) => {
       if (result.success) {
         queryClient.invalidateQueries({ queryKey: queryKeys.destinations })
+        queryClient.invalidateQueries({ queryKey: queryKeys.trash })
+      }
+    },
+  })
+}
+
+// ============================================
+// Region Custom Areas
+// ============================================
+
+export function useCustomAreas(options?: { enabled?: boolean }) {
+  return useQuery({
+    queryKey: queryKeys.customAreas,
+    queryFn: getSupabaseCustomAreas,
+    enabled: options?.enabled,
+    staleTime: 5 * 60 * 1000,
+  })
+}
+
+export function useCreateCustomArea() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (area: Omit<RegionCustomAreaDB, 'id' | 'area_id' | 'created_at'>) =>
+      createSupabaseCustomArea(area),
+    onSuccess: (result) => {
+      if (result.data) {
+        queryClient.invalidateQueries({ queryKey: queryKeys.customAreas })
+      }
+    },
+  })
+}
+
+export function useDeleteCustomArea() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (id: number) => deleteSupabaseCustomArea(id),
+    onSuccess: (result) => {
+      if (result.success) {
+        queryClient.invalidateQueries({ queryKey: queryKeys.customAreas })
       }
     },
   })
@@ -388,3 +591,273 @@ export function useSaveWalletSettings() {
     },
   })
 }
+
+// ============================================
+// Exchange rates (manual overrides + live rates)
+// ============================================
+
+export function useExchangeRates(options?: { enabled?: boolean }) {
+  return useQuery({
+    queryKey: queryKeys.exchangeRates,
+    queryFn: getSupabaseExchangeRates,
+    enabled: options?.enabled,
+  })
+}
+
+export function useSaveExchangeRate() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ from, to, rate }: { from: string; to: string; rate: number }) => saveSupabaseExchangeRate(from, to, rate),
+    onSuccess: (result) => {
+      if (result.data) {
+        queryClient.invalidateQueries({ queryKey: queryKeys.exchangeRates })
+      }
+    },
+  })
+}
+
+export function useDeleteExchangeRate() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (id: number) => deleteSupabaseExchangeRate(id),
+    onSuccess: (result) => {
+      if (result.success) {
+        queryClient.invalidateQueries({ queryKey: queryKeys.exchangeRates })
+      }
+    },
+  })
+}
+
+/** Live rates of `base` (lib/currency.ts caches them and falls back to the last ones seen) */
+export function useLiveRates(base: string, options?: { enabled?: boolean }) {
+  return useQuery({
+    queryKey: queryKeys.liveRates(getRateProvider().name, base),
+    queryFn: () => getLiveRates(base),
+    enabled: options?.enabled,
+    staleTime: 60 * 60 * 1000,
+  })
+}
+
+/** What an <img> shows for expenses.receipt_url; private receipts get a signed URL valid for an hour */
+export function useReceiptImageSrc(url: string | null | undefined, displayWidth?: number) {
+  const unsaved = !!url && isDataImageUrl(url)
+  const query = useQuery({
+    queryKey: queryKeys.receiptImage(url ?? '', displayWidth),
+    queryFn: () => receiptImageSrc(url!, displayWidth),
+    enabled: !!url && !unsaved,
+    staleTime: 50 * 60 * 1000,
+  })
+  return unsaved ? url : query.data ?? null
+}
+
+// ============================================
+// Trash (soft-deleted trips / users / destinations / wishlist items)
+// ============================================
+
+const TRASH_TABLE_QUERY_KEYS: Record<TrashTable, readonly string[]> = {
+  trips: queryKeys.trips,
+  users: queryKeys.users,
+  destinations: queryKeys.destinations,
+  wishlist_items: queryKeys.wishlistItems,
+}
+
+export function useTrash(options?: { enabled?: boolean }) {
+  return useQuery({
+    queryKey: queryKeys.trash,
+    queryFn: getTrash,
+    enabled: options?.enabled,
+  })
+}
+
+export function useRestoreFromTrash() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ table, key }: { table: TrashTable; key: number | string }) => restoreFromTrash(table, key),
+    onSuccess: (result, { table }) => {
+      if (result.success) {
+        queryClient.invalidateQueries({ queryKey: queryKeys.trash })
+        queryClient.invalidateQueries({ queryKey: TRASH_TABLE_QUERY_KEYS[table] })
+        if (table === 'trips') queryClient.invalidateQueries({ queryKey: queryKeys.wishlistItems }) // added_to_trip re-linked
+      }
+    },
+  })
+}
+
+export function useDeleteFromTrash() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ table, key }: { table: TrashTable; key: number | string }) => deleteFromTrash(table, key),
+    onSuccess: (result) => {
+      if (result.success) {
+        queryClient.invalidateQueries({ queryKey: queryKeys.trash })
+      }
+    },
+  })
+}
+
+export function usePurgeTrash() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (olderThanDays?: number) => purgeTrash(olderThanDays),
+    onSuccess: (result) => {
+      if (result.success) {
+        queryClient.invalidateQueries({ queryKey: queryKeys.trash })
+      }
+    },
+  })
+}
+
+// ============================================
+// Activity log
+// ============================================
+
+export function useActivityLog(filters: ActivityLogFilters, options?: { enabled?: boolean }) {
+  return useQuery({
+    queryKey: queryKeys.activityLog(filters),
+    queryFn: () => getActivityLog(filters),
+    enabled: options?.enabled,
+  })
+}
+
+export function useRevertActivity() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (entry: ActivityLogDB) => revertActivity(entry),
+    onSuccess: (result) => {
+      // A revert can touch any table (settings, plans, users...): refetch everything
+      if (result.success) queryClient.invalidateQueries()
+    },
+  })
+}
+
+// ============================================
+// Weather (per trip day; not stored in Supabase)
+// ============================================
+
+export function useTripWeather(days: TripDayWeatherRequest[], timeZone: string, options?: { enabled?: boolean }) {
+  const provider = getWeatherProvider().name
+  return useQuery({
+    queryKey: queryKeys.weather(provider, timeZone, days),
+    queryFn: () => getTripDayWeather(days, timeZone),
+    enabled: (options?.enabled ?? true) && days.length > 0,
+    // weather.ts caches per day itself; this only avoids refetching on every mount
+    staleTime: 30 * 60 * 1000,
+  })
+}
+
+// ============================================
+// Realtime: patch cached lists in place when anyone changes a row
+// ============================================
+
+/**
+ * Apply one realtime change to a cached list. Rows that don't belong to this cache
+ * (other plan / destination / user) are dropped; lists not fetched yet are left alone.
+ */
+function patchList<T>(
+  list: T[] | undefined,
+  change: RealtimeChange<T>,
+  keyOf: (row: Partial<T>) => string,
+  belongs: (row: T) => boolean
+): T[] | undefined {
+  if (!list) return list
+  const changed = change.new ?? change.old
+  if (!changed) return list
+  const key = keyOf(changed)
+  const rest = list.filter(row => keyOf(row) !== key)
+  if (change.eventType === 'DELETE' || !change.new || !belongs(change.new)) {
+    return rest.length === list.length ? list : rest
+  }
+  const idx = list.findIndex(row => keyOf(row) === key)
+  if (idx < 0) return [...list, change.new]
+  const next = [...list]
+  next[idx] = change.new
+  return next
+}
+
+function inCurrentPlan(row: { plan_id?: number | null }): boolean {
+  const planId = getCurrentPlanId()
+  return planId == null || row.plan_id == null || row.plan_id === planId
+}
+
+function inCurrentDestination(row: { destination_id?: string | null }): boolean {
+  return !row.destination_id || row.destination_id === getCurrentDestination()
+}
+
+// Trip rows from realtime don't carry the embedded schedule_items; keep the cached ones
+function withCachedScheduleItems(list: Trip[] | undefined, change: RealtimeChange<Trip>): RealtimeChange<Trip> {
+  if (!change.new || change.new.schedule_items) return change
+  const cached = list?.find(trip => trip.id === change.new!.id)?.schedule_items
+  return cached ? { ...change, new: { ...change.new, schedule_items: cached } } : change
+}
+
+function patchTripScheduleItems(list: Trip[] | undefined, change: RealtimeChange<TripScheduleItemDB>): Trip[] | undefined {
+  const changed = change.new ?? change.old
+  if (!list || !changed) return list
+  // DELETE only carries the id (and trip_id with REPLICA IDENTITY FULL): find the owning trip
+  const idx = list.findIndex(trip =>
+    changed.trip_id != null ? trip.id === changed.trip_id : trip.schedule_items?.some(item => item.id === changed.id)
+  )
+  if (idx < 0) return list
+  const items = patchList(list[idx].schedule_items ?? [], change, row => String(row.id), () => true) ?? []
+  const next = [...list]
+  next[idx] = { ...list[idx], schedule_items: [...items].sort((a, b) => a.sort_order - b.sort_order || a.id - b.id) }
+  return next
+}
+
+function patchExpenses(queryClient: QueryClient, change: RealtimeChange<ExpenseDB>) {
+  // One cache per ['expenses', type, username]
+  for (const [queryKey, list] of queryClient.getQueriesData<ExpenseDB[]>({ queryKey: ['expenses'] })) {
+    const [, type, username] = queryKey as ReturnType<typeof queryKeys.expenses>
+    const patched = patchList(
+      list,
+      change,
+      row => String(row.id),
+      row => row.type === type && (type === 'shared' || row.username === username) && inCurrentPlan(row)
+    )
+    if (patched !== list) queryClient.setQueryData(queryKey, patched && sortExpenses(patched))
+  }
+}
+
+/**
+ * Subscribe to trips / trip_schedule_items / wishlist_items / expenses / checklist_states changes (by any user)
+ * and update the React Query caches above without refetching. Mount once per page tree.
+ */
+export function useRealtimeSync() {
+  const queryClient = useQueryClient()
+
+  useEffect(() => {
+    const unsubscribers = [
+      subscribeToTableChanges<Trip>('trips', change => {
+        queryClient.setQueryData<Trip[]>(queryKeys.trips, list => {
+          const patched = patchList(list, withCachedScheduleItems(list, change), row => String(row.id), row => inCurrentPlan(row) && inCurrentDestination(row) && !row.deleted_at)
+          return patched && patched !== list ? sortTrips(patched) : patched
+        })
+      }),
+      subscribeToTableChanges<TripScheduleItemDB>('trip_schedule_items', change => {
+        queryClient.setQueryData<Trip[]>(queryKeys.trips, list => patchTripScheduleItems(list, change))
+        const tripId = (change.new ?? change.old)?.trip_id
+        if (tripId != null) queryClient.invalidateQueries({ queryKey: queryKeys.tripScheduleItems(tripId) })
+      }),
+      subscribeToTableChanges<WishlistItemDB>('wishlist_items', change => {
+        queryClient.setQueryData<WishlistItemDB[]>(queryKeys.wishlistItems, list => {
+          const patched = patchList(list, change, row => String(row.id), row => inCurrentDestination(row) && !row.deleted_at)
+          return patched && patched !== list ? dedupeWishlistItems(patched) : patched
+        })
+      }),
+      subscribeToTableChanges<ExpenseDB>('expenses', change => patchExpenses(queryClient, change)),
+      subscribeToTableChanges<ChecklistStateDB>('checklist_states', change => {
+        queryClient.setQueryData<ChecklistStateDB[]>(queryKeys.checklistStates, list =>
+          patchList(list, change, row => `${row.plan_id ?? ''}:${row.id}`, inCurrentPlan)
+        )
+      }),
+    ]
+
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe())
+  }, [queryClient])
+}
@@ -0,0 +1,44 @@
+'use client'
+
+import { useMemo } from 'react'
+import { isSpending, type ExpenseDB, type Trip } from '@/lib/supabase'
+import { DEFAULT_CURRENCY, toHomeAmount } from '@/lib/currency'
+import { rollupTripCosts, type TripCostRollup } from '@/lib/expenseLinks'
+import { getDestinationTimeZone } from '@/lib/settings'
+import { useExchangeRates, useExpenses, useLiveRates, useWalletSettings } from './useQueries'
+
+/** What the 花費 figures cover, shown next to them */
+export const TRIP_COSTS_SCOPE = '共同支出 + 我的個人支出'
+
+/**
+ * 花費 of the itinerary, as the viewer sees it: shared expenses plus the viewer's own personal ones
+ * (other people's personal expenses stay private), per stop and per day in the wallet's home currency.
+ */
+export function useTripCosts(
+  trips: Pick<Trip, 'id' | 'date'>[],
+  tripStartDate: string,
+  username: string | null,
+  options?: { enabled?: boolean }
+): { costs: TripCostRollup; homeCurrency: string; expenses: ExpenseDB[] } {
+  const enabled = options?.enabled ?? true
+  const { data: shared } = useExpenses('shared', undefined, { enabled })
+  const { data: personal } = useExpenses('personal', username ?? undefined, { enabled: enabled && !!username })
+  const { data: walletSettings } = useWalletSettings({ enabled })
+  const homeCurrency = walletSettings?.currency || DEFAULT_CURRENCY
+  const { data: manualRates = [] } = useExchangeRates({ enabled })
+  const { data: liveRates } = useLiveRates(homeCurrency, { enabled })
+
+  const expenses = useMemo(() => [...(shared ?? []), ...(username ? personal ?? [] : [])].filter(isSpending), [shared, personal, username])
+  const costs = useMemo(
+    () =>
+      rollupTripCosts(
+        expenses,
+        trips,
+        expense => toHomeAmount(expense, homeCurrency, { manual: manualRates, live: liveRates }),
+        tripStartDate,
+        getDestinationTimeZone()
+      ),
+    [expenses, trips, homeCurrency, manualRates, liveRates, tripStartDate]
+  )
+  return { costs, homeCurrency, expenses }
+}
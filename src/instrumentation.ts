@@ -0,0 +1,9 @@
+// Runs once when the Next.js server starts
+export async function register() {
+  // Local data backend: server-side supabase calls (API routes) go straight to the in-memory database
+  if (process.env.NEXT_RUNTIME === 'nodejs' && process.env.NEXT_PUBLIC_DATA_BACKEND === 'local') {
+    const { registerLocalQueryExecutor } = await import('./lib/localSupabaseClient')
+    const { executeLocalQuery } = await import('./lib/localDbServer')
+    registerLocalQueryExecutor(executeLocalQuery)
+  }
+}
@@ -0,0 +1,229 @@
+import { NextRequest } from 'next/server'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { mockSupabase } from '@/test/supabaseMock'
+import { POST as login } from '@/app/api/auth/login/route'
+import { middleware } from '@/middleware'
+import { loginAsync, logout } from '../auth'
+import { clearOfflineData } from '../offlineOutbox'
+import { getSupabaseUsers } from '../supabase'
+import { base64UrlToBytes, hashPassword, isPasswordHash, verifyPassword } from '../password'
+import {
+  SESSION_COOKIE_NAME,
+  SUPABASE_TOKEN_COOKIE_NAME,
+  USER_INFO_COOKIE_NAME,
+  getSessionSecret,
+  signSessionToken,
+  verifySessionToken,
+} from '../session'
+
+vi.mock('../offlineOutbox', async importOriginal => ({
+  ...(await importOriginal<typeof import('../offlineOutbox')>()),
+  clearOfflineData: vi.fn(async () => {}),
+}))
+
+const SECRET = 'test-session-secret'
+
+function loginRequest(body: unknown): NextRequest {
+  return new NextRequest('http://localhost/api/auth/login', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: typeof body === 'string' ? body : JSON.stringify(body),
+  })
+}
+
+function pageRequest(path: string, cookies: Record<string, string> = {}): NextRequest {
+  const cookie = Object.entries(cookies).map(([name, value]) => `${name}=${value}`).join('; ')
+  return new NextRequest(`http://localhost${path}`, { headers: cookie ? { cookie } : {} })
+}
+
+beforeEach(() => {
+  vi.stubEnv('AUTH_SESSION_SECRET', SECRET)
+  vi.spyOn(console, 'error').mockImplementation(() => {})
+})
+
+afterEach(() => {
+  vi.unstubAllEnvs()
+  vi.unstubAllGlobals()
+  vi.restoreAllMocks()
+})
+
+describe('passwords', () => {
+  it('hashes with a random salt and verifies', async () => {
+    const hash = await hashPassword('sakura123')
+    expect(isPasswordHash(hash)).toBe(true)
+    expect(hash).not.toBe(await hashPassword('sakura123'))
+    expect(await verifyPassword('sakura123', hash)).toEqual({ valid: true, needsRehash: false })
+    expect(await verifyPassword('Sakura123', hash)).toEqual({ valid: false, needsRehash: false })
+  })
+
+  it('accepts legacy plaintext once and asks for a rehash', async () => {
+    expect(await verifyPassword('sakura123', 'sakura123')).toEqual({ valid: true, needsRehash: true })
+    expect(await verifyPassword('wrong', 'sakura123')).toEqual({ valid: false, needsRehash: false })
+  })
+
+  it('rejects empty and malformed stored values', async () => {
+    expect((await verifyPassword('x', null)).valid).toBe(false)
+    expect((await verifyPassword('x', 'pbkdf2$abc$$')).valid).toBe(false)
+  })
+})
+
+describe('session tokens', () => {
+  it('round-trips username and role', async () => {
+    const token = await signSessionToken({ username: 'girl', role: 'planner' }, SECRET)
+    expect(await verifySessionToken(token, SECRET)).toMatchObject({ username: 'girl', role: 'planner' })
+  })
+
+  it('rejects a wrong secret, a tampered payload and an expired token', async () => {
+    const token = await signSessionToken({ username: 'girl', role: 'planner' }, SECRET)
+    expect(await verifySessionToken(token, 'other-secret')).toBeNull()
+
+    const [, signature] = token.split('.')
+    const forged = Buffer.from(JSON.stringify({ username: 'girl', role: 'admin', exp: 9999999999 })).toString('base64url')
+    expect(await verifySessionToken(`${forged}.${signature}`, SECRET)).toBeNull()
+
+    const expired = await signSessionToken({ username: 'girl', role: 'planner' }, SECRET, -1)
+    expect(await verifySessionToken(expired, SECRET)).toBeNull()
+    expect(await verifySessionToken(undefined, SECRET)).toBeNull()
+  })
+
+  it('has no secret in production unless configured', () => {
+    vi.stubEnv('AUTH_SESSION_SECRET', '')
+    vi.stubEnv('NODE_ENV', 'production')
+    expect(getSessionSecret()).toBeNull()
+  })
+})
+
+describe('POST /api/auth/login', () => {
+  beforeEach(async () => {
+    mockSupabase.reset({
+      users: [
+        { id: 1, username: 'admin', password: await hashPassword('admin-pass'), role: 'admin', display_name: 'Admin', avatar_url: null },
+        { id: 2, username: 'girl', password: 'legacy-pass', role: 'user', display_name: 'Girl', avatar_url: 'data:image/png;base64,xx' },
+        { id: 3, username: 'gone', password: 'gone-pass', role: 'planner', deleted_at: '2026-05-01T00:00:00Z' },
+      ],
+    })
+  })
+
+  it('signs in with a case-insensitive username and sets both cookies', async () => {
+    const res = await login(loginRequest({ username: ' ADMIN ', password: 'admin-pass' }))
+    expect(res.status).toBe(200)
+    expect(await res.json()).toEqual({ user: { username: 'admin', role: 'admin', displayName: 'Admin', avatarUrl: '' } })
+
+    const session = res.cookies.get(SESSION_COOKIE_NAME)
+    expect(session?.httpOnly).toBe(true)
+    expect(await verifySessionToken(session?.value, SECRET)).toMatchObject({ username: 'admin', role: 'admin' })
+    expect(JSON.parse(res.cookies.get(USER_INFO_COOKIE_NAME)!.value)).toMatchObject({ username: 'admin' })
+  })
+
+  it('hashes a legacy plaintext password on first login and maps legacy roles', async () => {
+    const res = await login(loginRequest({ username: 'girl', password: 'legacy-pass' }))
+    expect(res.status).toBe(200)
+    // Legacy `user` role is a planner; data-URL avatars stay out of the cookie
+    expect((await res.json()).user).toMatchObject({ role: 'planner', avatarUrl: '' })
+
+    const stored = mockSupabase.rows('users').find(u => u.username === 'girl')!.password
+    expect(isPasswordHash(stored)).toBe(true)
+    expect((await verifyPassword('legacy-pass', stored)).valid).toBe(true)
+  })
+
+  it('rejects a wrong password, unknown and trashed users', async () => {
+    expect((await login(loginRequest({ username: 'admin', password: 'ADMIN-PASS' }))).status).toBe(401)
+    expect((await login(loginRequest({ username: 'nobody', password: 'x' }))).status).toBe(401)
+    expect((await login(loginRequest({ username: 'gone', password: 'gone-pass' }))).status).toBe(401)
+  })
+
+  it('reads only the user signing in, taking the username literally', async () => {
+    mockSupabase.calls = []
+    expect((await login(loginRequest({ username: 'ad%', password: 'admin-pass' }))).status).toBe(401)
+    expect(mockSupabase.calls.filter(c => c.table === 'users')).toEqual([
+      { table: 'users', op: 'select', values: undefined, filters: ['username=ilike.ad\\%'] },
+    ])
+  })
+
+  it('keeps passwords out of the users list', async () => {
+    const users = await getSupabaseUsers()
+    expect(users.map(u => u.username)).toEqual(['admin', 'girl'])
+    expect(users.every(u => !('password' in u))).toBe(true)
+  })
+
+  it('rejects malformed requests', async () => {
+    expect((await login(loginRequest('not json'))).status).toBe(400)
+    expect((await login(loginRequest({ username: 'admin' }))).status).toBe(400)
+  })
+})
+
+describe('middleware', () => {
+  it('sends signed-out visitors to /login', async () => {
+    const res = await middleware(pageRequest('/main'))
+    expect(res.headers.get('location')).toBe('http://localhost/login')
+    expect((await middleware(pageRequest('/panel/trips'))).headers.get('location')).toBe('http://localhost/login')
+  })
+
+  it('lets a valid session through and skips the login page', async () => {
+    const token = await signSessionToken({ username: 'girl', role: 'planner' }, SECRET)
+    expect((await middleware(pageRequest('/main', { [SESSION_COOKIE_NAME]: token }))).headers.get('location')).toBeNull()
+    expect((await middleware(pageRequest('/login', { [SESSION_COOKIE_NAME]: token }))).headers.get('location')).toBe('http://localhost/main')
+  })
+
+  it('clears forged sessions together with user_info', async () => {
+    const token = await signSessionToken({ username: 'girl', role: 'admin' }, 'attacker-secret')
+    const res = await middleware(pageRequest('/main', { [SESSION_COOKIE_NAME]: token, [USER_INFO_COOKIE_NAME]: '{}' }))
+    expect(res.headers.get('location')).toBe('http://localhost/login')
+    expect(res.cookies.get(SESSION_COOKIE_NAME)?.value).toBe('')
+    expect(res.cookies.get(USER_INFO_COOKIE_NAME)?.value).toBe('')
+  })
+
+  it('rewrites a user_info cookie edited to another role or user', async () => {
+    const token = await signSessionToken({ username: 'girl', role: 'viewer' }, SECRET)
+    const edited = encodeURIComponent(JSON.stringify({ username: 'girl', role: 'admin', displayName: 'Girl' }))
+    const res = await middleware(pageRequest('/main', { [SESSION_COOKIE_NAME]: token, [USER_INFO_COOKIE_NAME]: edited }))
+    expect(JSON.parse(res.cookies.get(USER_INFO_COOKIE_NAME)!.value)).toEqual({ username: 'girl', role: 'viewer', displayName: 'Girl', avatarUrl: '' })
+
+    const other = encodeURIComponent(JSON.stringify({ username: 'admin', role: 'admin', displayName: 'Admin' }))
+    const swapped = await middleware(pageRequest('/main', { [SESSION_COOKIE_NAME]: token, [USER_INFO_COOKIE_NAME]: other }))
+    expect(JSON.parse(swapped.cookies.get(USER_INFO_COOKIE_NAME)!.value)).toMatchObject({ username: 'girl', role: 'viewer', displayName: 'girl' })
+
+    const matching = encodeURIComponent(JSON.stringify({ username: 'girl', role: 'viewer', displayName: 'Girl' }))
+    expect((await middleware(pageRequest('/main', { [SESSION_COOKIE_NAME]: token, [USER_INFO_COOKIE_NAME]: matching }))).cookies.get(USER_INFO_COOKIE_NAME)).toBeUndefined()
+  })
+
+  it('hands out a Supabase access token when SUPABASE_JWT_SECRET is set', async () => {
+    vi.stubEnv('SUPABASE_JWT_SECRET', 'jwt-secret')
+    const token = await signSessionToken({ username: 'girl', role: 'planner' }, SECRET)
+    const res = await middleware(pageRequest('/main', { [SESSION_COOKIE_NAME]: token }))
+    const [, payload] = res.cookies.get(SUPABASE_TOKEN_COOKIE_NAME)!.value.split('.')
+    expect(JSON.parse(new TextDecoder().decode(base64UrlToBytes(payload)))).toMatchObject({ sub: 'girl', app_role: 'planner', role: 'authenticated' })
+  })
+})
+
+describe('client login / logout', () => {
+  it('returns the signed-in user from the login route', async () => {
+    const fetchMock = vi.fn(async () => Response.json({ user: { username: 'girl', role: 'user', displayName: 'Girl' } }))
+    vi.stubGlobal('fetch', fetchMock)
+    expect(await loginAsync('girl', 'pass')).toEqual({ username: 'girl', role: 'planner', displayName: 'Girl', password: '' })
+    expect(fetchMock).toHaveBeenCalledWith('/api/auth/login', expect.objectContaining({ method: 'POST' }))
+  })
+
+  it('returns null when the login is refused or the network fails', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => Response.json({ error: 'invalid_credentials' }, { status: 401 })))
+    expect(await loginAsync('girl', 'wrong')).toBeNull()
+    vi.stubGlobal('fetch', vi.fn(async () => { throw new TypeError('fetch failed') }))
+    expect(await loginAsync('girl', 'pass')).toBeNull()
+  })
+
+  it('asks the server to clear the session on logout', async () => {
+    const fetchMock = vi.fn(async () => Response.json({ success: true }))
+    vi.stubGlobal('fetch', fetchMock)
+    await logout()
+    expect(fetchMock).toHaveBeenCalledWith('/api/auth/logout', { method: 'POST' })
+  })
+
+  it('clears the offline snapshots and outbox before the session ends', async () => {
+    const fetchMock = vi.fn(async () => Response.json({ success: true }))
+    vi.stubGlobal('fetch', fetchMock)
+    vi.mocked(clearOfflineData).mockClear()
+    await logout()
+    expect(clearOfflineData).toHaveBeenCalledOnce()
+    expect(vi.mocked(clearOfflineData).mock.invocationCallOrder[0]).toBeLessThan(fetchMock.mock.invocationCallOrder[0])
+  })
+})
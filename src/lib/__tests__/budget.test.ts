@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest'
+import {
+  expenseTripDay,
+  nextBudgetAlerts,
+  plannedForDay,
+  projectSpending,
+  spendingDay,
+  summarizeCategories,
+  summarizeDays,
+  type BudgetEntry,
+  type BudgetSettings,
+} from '../budget'
+
+const settings: BudgetSettings = {
+  categoryBudgets: { food: 10000, shopping: 20000 },
+  dailyBudget: 8000,
+  dayBudgets: { '3': 15000 },
+  alertThreshold: 80,
+}
+
+const entries: BudgetEntry[] = [
+  // Hotel booked before the trip
+  { amount: 30000, category: 'accommodation', day: -10 },
+  { amount: 5000, category: 'food', day: 1 },
+  { amount: 3500, category: 'food', day: 2 },
+  { amount: 4000, category: 'transport', day: 2 },
+  { amount: 21000, category: 'shopping', day: 2 },
+]
+
+describe('placing expenses on trip days', () => {
+  it('uses the time at the destination', () => {
+    // 23:30 in Hong Kong is already the next day in Tokyo
+    expect(expenseTripDay('2026-05-16T15:30:00Z', '2026-05-16', 'Asia/Tokyo')).toBe(2)
+    expect(expenseTripDay('2026-05-16T15:30:00Z', '2026-05-16', 'Asia/Hong_Kong')).toBe(1)
+    expect(expenseTripDay('2026-05-01T00:00:00Z', '2026-05-16', 'Asia/Tokyo')).toBe(-14)
+  })
+
+  it('puts pre-paid expenses before the trip whenever they were logged', () => {
+    expect(spendingDay({ created_at: '2026-05-17T03:00:00Z', prepaid: true }, '2026-05-16', 'Asia/Tokyo')).toBe(0)
+    expect(spendingDay({ created_at: '2026-05-17T03:00:00Z', prepaid: false }, '2026-05-16', 'Asia/Tokyo')).toBe(2)
+  })
+
+  it('plans each day from its own envelope or the daily one', () => {
+    expect(plannedForDay(settings, 3)).toBe(15000)
+    expect(plannedForDay(settings, 1)).toBe(8000)
+    expect(plannedForDay({ ...settings, dailyBudget: null }, 1)).toBeNull()
+  })
+})
+
+describe('summaries', () => {
+  it('compares each category with its envelope', () => {
+    expect(summarizeCategories(entries, ['food', 'shopping', 'transport'], settings)).toEqual([
+      { category: 'food', spent: 8500, budget: 10000, status: 'warning' },
+      { category: 'shopping', spent: 21000, budget: 20000, status: 'over' },
+      { category: 'transport', spent: 4000, budget: null, status: 'none' },
+    ])
+  })
+
+  it('compares each trip day with its plan', () => {
+    expect(summarizeDays(entries, 3, settings)).toEqual([
+      { day: 1, spent: 5000, planned: 8000 },
+      { day: 2, spent: 28500, planned: 8000 },
+      { day: 3, spent: 0, planned: 15000 },
+    ])
+  })
+})
+
+describe('projectSpending', () => {
+  it('extends the pace of the trip so far, counting pre-trip spending once', () => {
+    // 33,500 over 2 days → 16,750 a day for 3 more days
+    expect(projectSpending(entries, 5, 2, 100000)).toEqual({ spent: 63500, perDay: 16750, projected: 113750, overrun: 13750 })
+  })
+
+  it('has nothing to project before the trip and stops at its end', () => {
+    expect(projectSpending(entries, 5, 0, 100000)).toBeNull()
+    expect(projectSpending(entries, 2, 4, null)).toMatchObject({ projected: 63500, overrun: null })
+  })
+})
+
+describe('nextBudgetAlerts', () => {
+  const summaries = summarizeCategories(entries, ['food', 'shopping'], settings)
+
+  it('alerts each category once per level', () => {
+    const first = nextBudgetAlerts(summaries, {})
+    expect(first.alerts.map(a => [a.category, a.status])).toEqual([
+      ['food', 'warning'],
+      ['shopping', 'over'],
+    ])
+    expect(nextBudgetAlerts(summaries, first.memory).alerts).toEqual([])
+
+    const foodOver = summarizeCategories([...entries, { amount: 2000, category: 'food', day: 3 }], ['food', 'shopping'], settings)
+    expect(nextBudgetAlerts(foodOver, first.memory).alerts).toEqual([{ category: 'food', status: 'over', spent: 10500, budget: 10000 }])
+  })
+
+  it('re-arms when the envelope changes', () => {
+    const { memory } = nextBudgetAlerts(summaries, {})
+    const raised = summarizeCategories(entries, ['shopping'], { ...settings, categoryBudgets: { shopping: 25000 } })
+    expect(nextBudgetAlerts(raised, memory).alerts).toEqual([{ category: 'shopping', status: 'warning', spent: 21000, budget: 25000 }])
+  })
+})
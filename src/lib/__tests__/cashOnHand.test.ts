@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest'
+import { cashPockets } from '../cashOnHand'
+import { spendingDay } from '../budget'
+import type { ExpenseDB } from '../supabase'
+
+const expense = (fields: Partial<ExpenseDB>) =>
+  ({ type: 'personal', username: 'amy', amount: 0, currency: 'JPY', created_at: '2026-05-17T03:00:00Z', ...fields }) as ExpenseDB
+
+describe('cashPockets', () => {
+  it('adds withdrawals and cash received, and takes away cash spent on the trip', () => {
+    const pockets = cashPockets([
+      { username: 'amy', amount: 30000, currency: 'JPY', kind: 'withdrawal' },
+      { username: 'amy', amount: 1200, currency: 'JPY', payment_method: 'cash' },
+      { username: 'amy', amount: 800, currency: 'JPY', payment_method: 'ic' },
+      // Paid before leaving, not from the travel cash
+      { username: 'amy', amount: 500, currency: 'HKD', payment_method: 'cash', prepaid: true },
+      { username: 'ben', amount: 200, currency: 'HKD', kind: 'withdrawal' },
+      { username: 'ben', amount: 3000, currency: 'JPY', kind: 'settlement', paid_to: 'amy', payment_method: 'cash' },
+      { username: 'ben', amount: 2000, currency: 'JPY', kind: 'settlement', paid_to: 'amy', payment_method: 'paypay' },
+    ])
+    expect(pockets).toEqual([
+      { username: 'amy', currency: 'JPY', withdrawn: 30000, spent: 1200, received: 3000, balance: 31800 },
+      { username: 'ben', currency: 'HKD', withdrawn: 200, spent: 0, received: 0, balance: 200 },
+      { username: 'ben', currency: 'JPY', withdrawn: 0, spent: 3000, received: 0, balance: -3000 },
+    ])
+  })
+
+  it('takes a shared cash expense out of the pocket of whoever paid it', () => {
+    const pockets = cashPockets([
+      expense({ kind: 'withdrawal', amount: 20000 }),
+      expense({ type: 'shared', amount: 6000, payment_method: 'cash', split: { mode: 'equal', participants: [{ username: 'amy' }, { username: 'ben' }] } }),
+    ])
+    expect(pockets).toEqual([{ username: 'amy', currency: 'JPY', withdrawn: 20000, spent: 6000, received: 0, balance: 14000 }])
+  })
+
+  it('adds up every withdrawal in the same currency', () => {
+    const pockets = cashPockets([
+      expense({ kind: 'withdrawal', amount: 10000 }),
+      expense({ kind: 'withdrawal', amount: 15000, created_at: '2026-05-18T01:00:00Z' }),
+      expense({ kind: 'withdrawal', amount: 5000, created_at: '2026-05-19T01:00:00Z' }),
+      expense({ amount: 2500, payment_method: 'cash' }),
+    ])
+    expect(pockets).toEqual([{ username: 'amy', currency: 'JPY', withdrawn: 30000, spent: 2500, received: 0, balance: 27500 }])
+  })
+
+  it('leaves pre-paid expenses, counted on day 0, out of the travel cash', () => {
+    const hotel = expense({ amount: 40000, payment_method: 'cash', prepaid: true, created_at: '2026-05-18T03:00:00Z' })
+    expect(spendingDay(hotel, '2026-05-16', 'Asia/Tokyo')).toBe(0)
+    expect(cashPockets([expense({ kind: 'withdrawal', amount: 10000 }), hotel])).toEqual([
+      { username: 'amy', currency: 'JPY', withdrawn: 10000, spent: 0, received: 0, balance: 10000 },
+    ])
+  })
+
+  it('ignores expenses paid any other way than cash', () => {
+    const others = (['card', 'ic', 'paypay', null] as const).map(payment_method => expense({ amount: 1000, payment_method }))
+    expect(cashPockets(others)).toEqual([])
+    expect(cashPockets([expense({ kind: 'withdrawal', amount: 3000 }), ...others])).toEqual([
+      { username: 'amy', currency: 'JPY', withdrawn: 3000, spent: 0, received: 0, balance: 3000 },
+    ])
+  })
+})
@@ -0,0 +1,152 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import {
+  buildRateSnapshot,
+  captureRateSnapshot,
+  formatMoney,
+  formatRate,
+  getLiveRates,
+  openExchangeRateProvider,
+  resolveRate,
+  setRateProvider,
+  sumInHome,
+  toHomeAmount,
+  type LiveRates,
+  type ManualRate,
+  type RateProvider,
+} from '../currency'
+
+const NOW = new Date('2026-05-10T00:00:00Z')
+// 1 JPY in other currencies
+const JPY_LIVE: LiveRates = { base: 'JPY', rates: { JPY: 1, HKD: 0.05, TWD: 0.21, USD: 0.0064 }, fetchedAt: NOW.getTime() }
+
+function fixtureProvider(rates: Record<string, Record<string, number>>): RateProvider {
+  return {
+    name: 'fixture',
+    getRates: vi.fn(async (base: string) => {
+      if (!rates[base]) throw new Error(`no rates for ${base}`)
+      return rates[base]
+    }),
+  }
+}
+
+beforeEach(() => {
+  vi.spyOn(console, 'error').mockImplementation(() => {})
+})
+
+afterEach(() => {
+  setRateProvider(null)
+  vi.unstubAllGlobals()
+})
+
+describe('formatMoney', () => {
+  it('uses the currency symbol and its decimals', () => {
+    expect(formatMoney(12000.4, 'JPY')).toBe('¥12,000')
+    expect(formatMoney(1234.567, 'HKD')).toBe('HK$1,234.57')
+    expect(formatMoney(-50, 'TWD')).toBe('-NT$50')
+    expect(formatMoney(10, 'CHF')).toBe('CHF 10')
+  })
+
+  it('shows rates with four significant digits', () => {
+    expect(formatRate(19.4832)).toBe('19.48')
+    expect(formatRate(0.051354)).toBe('0.05135')
+  })
+})
+
+describe('resolveRate', () => {
+  it('converts through live rates of any base', () => {
+    expect(resolveRate('JPY', 'JPY', {})).toBe(1)
+    expect(resolveRate('HKD', 'JPY', { live: JPY_LIVE })).toBeCloseTo(20)
+    expect(resolveRate('HKD', 'TWD', { live: JPY_LIVE })).toBeCloseTo(4.2)
+    expect(resolveRate('HKD', 'KRW', { live: JPY_LIVE })).toBeNull()
+  })
+
+  it('prefers manual rates, in either direction, and chains two of them', () => {
+    const manual: ManualRate[] = [
+      { from_currency: 'HKD', to_currency: 'JPY', rate: 19.5 },
+      { from_currency: 'TWD', to_currency: 'HKD', rate: 0.25 },
+    ]
+    expect(resolveRate('HKD', 'JPY', { manual, live: JPY_LIVE })).toBe(19.5)
+    expect(resolveRate('JPY', 'HKD', { manual })).toBeCloseTo(1 / 19.5)
+    expect(resolveRate('TWD', 'JPY', { manual })).toBeCloseTo(4.875)
+  })
+
+  it('snapshots every resolvable currency', () => {
+    expect(buildRateSnapshot('HKD', { live: JPY_LIVE })).toEqual({
+      JPY: expect.closeTo(20),
+      HKD: 1,
+      TWD: expect.closeTo(4.2),
+      USD: expect.closeTo(0.128),
+    })
+  })
+})
+
+describe('converting expenses', () => {
+  it('uses the snapshot taken with the expense, then current rates', () => {
+    const hkd = { amount: 100, currency: 'HKD', fx_rates: { JPY: 19 } }
+    expect(toHomeAmount(hkd, 'JPY', { live: JPY_LIVE })).toBe(1900)
+    expect(toHomeAmount(hkd, 'TWD', { live: JPY_LIVE })).toBeCloseTo(420)
+    expect(toHomeAmount({ amount: 500 }, 'JPY')).toBe(500)
+    expect(toHomeAmount({ amount: 500 }, 'HKD')).toBeNull()
+  })
+
+  it('sums in the home currency and counts rows without a rate', () => {
+    expect(
+      sumInHome(
+        [
+          { amount: 1000, currency: 'JPY' },
+          { amount: 100, currency: 'HKD', fx_rates: { JPY: 19 } },
+          { amount: 10, currency: 'KRW' },
+        ],
+        'JPY'
+      )
+    ).toEqual({ total: 2900, missing: 1 })
+  })
+})
+
+describe('live rates', () => {
+  it('caches rates per base and falls back to the last ones when offline', async () => {
+    const provider = fixtureProvider({ HKD: { HKD: 1, JPY: 20 } })
+    setRateProvider(provider)
+
+    expect((await getLiveRates('HKD', NOW))?.rates.JPY).toBe(20)
+    await getLiveRates('HKD', new Date(NOW.getTime() + 60 * 60 * 1000))
+    expect(provider.getRates).toHaveBeenCalledTimes(1)
+
+    provider.getRates = vi.fn(async () => {
+      throw new Error('offline')
+    })
+    const later = new Date(NOW.getTime() + 24 * 60 * 60 * 1000)
+    expect((await getLiveRates('HKD', later))?.fetchedAt).toBe(NOW.getTime())
+    expect(await getLiveRates('TWD', later)).toBeNull()
+  })
+
+  it('captures a snapshot from live rates with manual rates on top', async () => {
+    setRateProvider(fixtureProvider({ HKD: { HKD: 1, JPY: 20, TWD: 4.2 } }))
+
+    expect(await captureRateSnapshot('HKD', [{ from_currency: 'HKD', to_currency: 'JPY', rate: 19.5 }], NOW)).toEqual({
+      fx_rates: { HKD: 1, JPY: 19.5, TWD: 4.2 },
+      fx_source: 'fixture',
+      fx_captured_at: NOW.toISOString(),
+    })
+  })
+
+  it('captures manual rates alone when no live rates are available', async () => {
+    setRateProvider(fixtureProvider({}))
+
+    expect(await captureRateSnapshot('HKD', [{ from_currency: 'HKD', to_currency: 'JPY', rate: 19.5 }], NOW)).toMatchObject({
+      fx_rates: { HKD: 1, JPY: 19.5 },
+      fx_source: 'manual',
+    })
+  })
+
+  it('reads open.er-api.com responses', async () => {
+    const fetchMock = vi.fn(async (_url: string) => Response.json({ result: 'success', base_code: 'HKD', rates: { HKD: 1, JPY: 19.8 } }))
+    vi.stubGlobal('fetch', fetchMock)
+
+    expect(await openExchangeRateProvider.getRates('HKD')).toEqual({ HKD: 1, JPY: 19.8 })
+    expect(fetchMock.mock.calls[0][0]).toBe('https://open.er-api.com/v6/latest/HKD')
+
+    fetchMock.mockImplementationOnce(async () => Response.json({ result: 'error', 'error-type': 'unsupported-code' }))
+    await expect(openExchangeRateProvider.getRates('XXX')).rejects.toThrow('open.er-api unsupported-code')
+  })
+})
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest'
+import type { ExpenseDB } from '../supabase'
+import { expenseDraftForTrip, expenseDraftForWishlistItem, expenseLinkLabel, rollupTripCosts } from '../expenseLinks'
+
+function expense(id: number, overrides: Partial<ExpenseDB> = {}): ExpenseDB {
+  return {
+    id,
+    type: 'shared',
+    username: 'admin',
+    display_name: '管理員',
+    avatar_url: null,
+    amount: 1000,
+    category: 'food',
+    note: null,
+    created_at: '2026-05-16T03:00:00Z',
+    ...overrides,
+  }
+}
+
+const trips = [
+  { id: 1, title: '一蘭拉麵', date: '2026-05-17' },
+  { id: 2, title: '淺草寺', date: '2026-05-18' },
+]
+
+describe('expense drafts', () => {
+  it('prefills the stop, its wishlist place and a category', () => {
+    expect(
+      expenseDraftForTrip({ ...trips[0], description: '', location: '', lat: 0, lng: 0, wishlist_item_id: 7 })
+    ).toEqual({ trip_id: 1, wishlist_item_id: 7, note: '一蘭拉麵' })
+    expect(
+      expenseDraftForWishlistItem({
+        id: 7,
+        category: 'restaurant',
+        name: '一蘭拉麵',
+        note: null,
+        image_url: null,
+        map_link: null,
+        link: null,
+        added_to_trip: null,
+        added_by: null,
+      } as Parameters<typeof expenseDraftForWishlistItem>[0])
+    ).toEqual({ trip_id: null, wishlist_item_id: 7, note: '一蘭拉麵', category: 'food' })
+  })
+
+  it('names the link after the stop, else the wishlist place', () => {
+    const places = [{ id: 7, name: '一蘭 新宿店' }]
+    expect(expenseLinkLabel({ trip_id: 1, wishlist_item_id: 7 }, trips, places)).toBe('一蘭拉麵')
+    expect(expenseLinkLabel({ trip_id: 99, wishlist_item_id: 7 }, trips, places)).toBe('一蘭 新宿店')
+    expect(expenseLinkLabel({}, trips, places)).toBeNull()
+  })
+})
+
+describe('rollupTripCosts', () => {
+  it('sums per stop and per day, placing linked expenses on their stop', () => {
+    const rollup = rollupTripCosts(
+      [
+        // Logged the evening after, still counts on the stop's day
+        expense(1, { amount: 4800, trip_id: 1, created_at: '2026-05-18T12:00:00Z' }),
+        expense(2, { amount: 500, trip_id: 2 }),
+        expense(3, { amount: 1200, created_at: '2026-05-17T01:00:00Z' }),
+        expense(4, { amount: 300, currency: 'HKD' }),
+        expense(5, { amount: 2000, kind: 'settlement', paid_to: 'guest', trip_id: 1 }),
+      ],
+      trips,
+      e => (e.currency === 'HKD' ? null : e.amount),
+      '2026-05-16',
+      'Asia/Tokyo'
+    )
+    expect(rollup).toEqual({ byTrip: { 1: 4800, 2: 500 }, byDay: { 2: 6000, 3: 500 }, missing: 1 })
+  })
+})
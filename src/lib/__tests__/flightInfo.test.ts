@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest'
+import {
+  DEFAULT_FLIGHT_CX527_RETURN,
+  DEFAULT_FLIGHT_UO848,
+  airportCodeCityLine,
+  classifyFlightLeg,
+  computeFlightDurationLabel,
+  emptyFlightForm,
+  flightRecordFromForm,
+  formatFlightFooterLine,
+  type FlightRecord,
+} from '../flightInfo'
+
+function flight(depCode: string, arrCode: string): FlightRecord {
+  return flightRecordFromForm({ ...emptyFlightForm(), depCode, arrCode }, 'f1')
+}
+
+describe('computeFlightDurationLabel', () => {
+  it('uses both airports\' time zones', () => {
+    const f = DEFAULT_FLIGHT_UO848
+    expect(computeFlightDurationLabel(f.depDate, f.depTime, f.arrDate, f.arrTime, f.depCode, f.arrCode)).toBe('4h 30m')
+    const r = DEFAULT_FLIGHT_CX527_RETURN
+    expect(computeFlightDurationLabel(r.depDate, r.depTime, r.arrDate, r.arrTime, r.depCode, r.arrCode)).toBe('5h 0m')
+  })
+
+  it('handles overnight arrivals', () => {
+    expect(computeFlightDurationLabel('2026-05-16', '23:30', '2026-05-17', '04:50', 'HKG', 'HND')).toBe('4h 20m')
+  })
+
+  it('adds a day when the arrival date was left on the departure date', () => {
+    expect(computeFlightDurationLabel('2026-05-16', '23:30', '2026-05-16', '04:50', 'HKG', 'HND')).toBe('4h 20m')
+  })
+
+  it('returns null when a field is missing or the times are equal', () => {
+    expect(computeFlightDurationLabel('', '09:15', '2026-05-16', '14:45')).toBeNull()
+    expect(computeFlightDurationLabel('2026-05-16', '09:15', '2026-05-16', ' ')).toBeNull()
+    expect(computeFlightDurationLabel('2026-05-16', '09:15', '2026-05-16', '09:15')).toBeNull()
+  })
+})
+
+describe('classifyFlightLeg', () => {
+  it('treats Hong Kong → Japan as outbound and Japan → Hong Kong as return', () => {
+    expect(classifyFlightLeg(DEFAULT_FLIGHT_UO848)).toBe('outbound')
+    expect(classifyFlightLeg(DEFAULT_FLIGHT_CX527_RETURN)).toBe('return')
+  })
+
+  it('ignores case and whitespace in airport codes', () => {
+    expect(classifyFlightLeg(flight(' kix ', 'hkg'))).toBe('return')
+  })
+
+  it('classifies other routes by which end is Hong Kong', () => {
+    expect(classifyFlightLeg(flight('ICN', 'HKG'))).toBe('return')
+    expect(classifyFlightLeg(flight('HKG', 'TPE'))).toBe('outbound')
+  })
+
+  it('defaults to outbound when it cannot tell', () => {
+    expect(classifyFlightLeg(flight('HND', 'CTS'))).toBe('outbound')
+    expect(classifyFlightLeg(flight('', ''))).toBe('outbound')
+  })
+})
+
+describe('flightRecordFromForm', () => {
+  it('keeps the given id and all form fields', () => {
+    const form = { ...emptyFlightForm(), flightNumber: 'UO848', depCode: 'HKG' }
+    expect(flightRecordFromForm(form, 'uo848')).toEqual({ id: 'uo848', ...form })
+  })
+
+  it('generates a unique id for new flights', () => {
+    const a = flightRecordFromForm(emptyFlightForm())
+    const b = flightRecordFromForm(emptyFlightForm())
+    expect(a.id).toBeTruthy()
+    expect(a.id).not.toBe(b.id)
+  })
+})
+
+describe('flight card text', () => {
+  it('formats the footer from the departure date', () => {
+    expect(formatFlightFooterLine('2026-05-16', '直飛')).toBe('5月16日 週六 · 直飛')
+    expect(formatFlightFooterLine('2026-05-16')).toBe('5月16日 週六 · 直飛')
+    expect(formatFlightFooterLine('', 'Nonstop')).toBe('Nonstop')
+  })
+
+  it('formats airport code with city', () => {
+    expect(airportCodeCityLine('HKG', '香港')).toBe('HKG (香港)')
+    expect(airportCodeCityLine('HKG')).toBe('HKG')
+    expect(airportCodeCityLine('', '')).toBe('—')
+  })
+})
@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest'
+import { estimateFare, icCardLedger, icCardReminder, icFareExpenses, transitLegs } from '../icCard'
+import { sumInHome } from '../currency'
+import { isSpending, type ExpenseDB } from '../supabase'
+
+// Shinjuku → Shibuya (~3.4 km) → Shibuya Scramble (walk) on day 1, Asakusa → Ueno (~2 km) on day 2
+const stop = (id: number, date: string, lat: number, lng: number, time_start?: string) => ({
+  id,
+  title: `stop ${id}`,
+  date,
+  lat,
+  lng,
+  time_start,
+  sort_order: id,
+})
+const trips = [
+  stop(1, '2026-05-16', 35.6896, 139.7006),
+  stop(2, '2026-05-16', 35.658, 139.7016, '13:00'),
+  stop(3, '2026-05-16', 35.6595, 139.7005),
+  stop(4, '2026-05-17', 35.7148, 139.7967),
+  stop(5, '2026-05-17', 35.7141, 139.7774, '15:00'),
+]
+
+const expense = (id: number, overrides: object) => ({
+  id,
+  username: 'amy',
+  amount: 0,
+  currency: 'JPY',
+  note: null,
+  created_at: '2026-05-16T00:00:00Z',
+  ...overrides,
+})
+
+describe('fares', () => {
+  it('walks nearby stops and leaves long trips to tickets', () => {
+    expect(estimateFare(0.4)).toBe(0)
+    expect(estimateFare(5)).toBe(210)
+    expect(estimateFare(300)).toBeNull()
+  })
+
+  it('only has legs between consecutive stops of the same day', () => {
+    expect(transitLegs(trips).map(leg => [leg.from.id, leg.to.id, leg.fare])).toEqual([
+      [1, 2, 210],
+      [4, 5, 180],
+    ])
+  })
+})
+
+describe('icCardLedger', () => {
+  const expenses = [
+    expense(1, { kind: 'ic_topup', amount: 2000, note: 'Suica' }),
+    expense(2, { payment_method: 'ic', amount: 150, note: '自販機' }),
+    expense(3, { payment_method: 'ic', amount: 500, username: 'ben' }),
+    expense(4, { payment_method: 'cash', amount: 800 }),
+  ]
+
+  it('takes IC payments and the rides already taken off the top-ups', () => {
+    // Day 1, 14:00 in Tokyo: the ride to stop 2 is done, day 2 is ahead
+    const ledger = icCardLedger(expenses, trips, 'amy', 'Asia/Tokyo', new Date('2026-05-16T05:00:00Z'))
+    expect(ledger).toMatchObject({ toppedUp: 2000, spent: 150, fares: 210, balance: 1640 })
+    expect(ledger.upcoming).toMatchObject({ date: '2026-05-17', fare: 180 })
+    expect(icCardReminder(ledger)).toBeNull()
+  })
+
+  it('does not count rides before the card was loaded', () => {
+    const late = [expense(1, { kind: 'ic_topup', amount: 1000, created_at: '2026-05-17T00:00:00Z' })]
+    expect(icCardLedger(late, trips, 'amy', 'Asia/Tokyo', new Date('2026-05-18T00:00:00Z')).fares).toBe(180)
+    expect(icCardLedger([], trips, 'amy', 'Asia/Tokyo', new Date('2026-05-18T00:00:00Z')).fares).toBe(0)
+  })
+
+  it('reminds to top up before rides that would run the card low', () => {
+    const low = [expense(1, { kind: 'ic_topup', amount: 1300 })]
+    const ledger = icCardLedger(low, trips, 'amy', 'Asia/Tokyo', new Date('2026-05-16T05:00:00Z'))
+    expect(icCardReminder(ledger)).toEqual({ balance: 1090, date: '2026-05-17', fare: 180 })
+  })
+
+  it('orders the ledger by when things happened, whatever format the times come in', () => {
+    const ledger = icCardLedger(
+      [
+        expense(1, { kind: 'ic_topup', amount: 2000, created_at: '2026-05-16T00:30:00+00:00' }),
+        expense(2, { payment_method: 'ic', amount: 150, created_at: '2026-05-16T06:00:00.000Z' }),
+      ],
+      trips,
+      'amy',
+      'Asia/Tokyo',
+      new Date('2026-05-17T08:00:00Z')
+    )
+    // Rides end at the next stop's start time: 13:00 on day 1, 15:00 on day 2
+    expect(ledger.entries.map(e => [e.kind, e.amount])).toEqual([
+      ['fare', -180],
+      ['spend', -150],
+      ['fare', -210],
+      ['topup', 2000],
+    ])
+  })
+
+  it('counts what the card paid for and the rides as spending once, and the top-up not at all', () => {
+    const row = (id: number, fields: Pick<ExpenseDB, 'type' | 'amount' | 'kind' | 'payment_method'>) => ({ ...expense(id, {}), ...fields })
+    const rows = [
+      row(1, { type: 'personal', kind: 'ic_topup', amount: 3000, payment_method: 'cash' }),
+      row(2, { type: 'personal', amount: 150, payment_method: 'ic' }),
+      row(3, { type: 'shared', amount: 400, payment_method: 'ic' }),
+    ]
+    // Both days ridden
+    const ledger = icCardLedger(rows, trips, 'amy', 'Asia/Tokyo', new Date('2026-05-18T00:00:00Z'))
+    expect(ledger).toMatchObject({ toppedUp: 3000, spent: 550, fares: 390, balance: 2060 })
+    const fares = icFareExpenses(ledger, 'amy')
+    expect(fares.map(e => [e.category, e.amount, e.created_at.slice(0, 10)])).toEqual([
+      ['transport', 180, '2026-05-17'],
+      ['transport', 210, '2026-05-16'],
+    ])
+    expect(sumInHome([...rows.filter(isSpending), ...fares], 'JPY').total).toBe(940)
+  })
+})
@@ -0,0 +1,157 @@
+import { readFileSync, readdirSync } from 'fs'
+import path from 'path'
+import { beforeEach, describe, expect, it } from 'vitest'
+import { LocalDatabase, splitSqlStatements } from '../localDb'
+import { createLocalSupabaseClient } from '../localSupabaseClient'
+
+const MIGRATIONS_DIR = path.join(process.cwd(), 'supabase', 'migrations')
+const migrations = readdirSync(MIGRATIONS_DIR).map(name => ({ name, sql: readFileSync(path.join(MIGRATIONS_DIR, name), 'utf8') }))
+const seeded = LocalDatabase.fromMigrations(migrations)
+
+let db: LocalDatabase
+let client: ReturnType<typeof createLocalSupabaseClient>
+
+beforeEach(() => {
+  db = seeded.clone()
+  client = createLocalSupabaseClient(async query => db.execute(query))
+})
+
+describe('splitSqlStatements', () => {
+  it('keeps semicolons inside strings, dollar quotes and comments', () => {
+    const statements = splitSqlStatements(`
+      -- a; comment
+      INSERT INTO t (a) VALUES ('x;y');
+      DO $$ BEGIN PERFORM 1; END $$;
+      /* b; */ UPDATE t SET a = 'it''s'
+    `)
+    expect(statements).toEqual([
+      "INSERT INTO t (a) VALUES ('x;y')",
+      'DO $$ BEGIN PERFORM 1; END $$',
+      "UPDATE t SET a = 'it''s'",
+    ])
+  })
+})
+
+describe('replaying supabase/migrations', () => {
+  it('seeds the default admin, settings and destinations', async () => {
+    const { data: users } = await client.from('users').select('username, password, role, deleted_at')
+    expect(users).toEqual([{ username: 'admin', password: 'admin123', role: 'admin', deleted_at: null }])
+
+    const { data: settings } = await client.from('site_settings').select('*').eq('id', 1).single()
+    expect(settings).toMatchObject({ title: '日本行程規劃', total_days: 5, flights: [], day_heart_counts: {}, trash_retention_days: 30 })
+
+    const { data: japan } = await client.from('destinations').select('*').eq('id', 'japan').single()
+    expect(japan.theme).toMatchObject({ primary: 'sakura', emoji: '🌸' })
+    expect(japan).toMatchObject({ country_code: 'JP', map_center: { lat: 35.6762, lng: 139.6503, zoom: 12 } })
+  })
+
+  it('applies later column defaults and keys', async () => {
+    await client.from('users').insert({ username: 'girl', password: 'x' })
+    expect(db.rows('users').find(u => u.username === 'girl')).toMatchObject({ id: 2, role: 'planner', display_name: null })
+
+    await client.from('trips').insert({ title: '淺草', date: '2026-05-16', location: '東京' })
+    expect(db.rows('trips')[0]).toMatchObject({ destination_id: 'japan', description: '[]', lat: 0, deleted_at: null })
+
+    // checklist_states is keyed by (plan_id, id) since add_trip_plans
+    await client.from('checklist_states').upsert({ plan_id: 1, id: 'passport', checked_by: ['admin'] }, { onConflict: 'plan_id,id' })
+    await client.from('checklist_states').upsert({ plan_id: 1, id: 'passport', checked_by: [] }, { onConflict: 'plan_id,id' })
+    await client.from('checklist_states').upsert({ plan_id: 2, id: 'passport', checked_by: [] }, { onConflict: 'plan_id,id' })
+    expect(db.rows('checklist_states').map(row => [row.plan_id, row.checked_by])).toEqual([[1, []], [2, []]])
+  })
+
+  it('skips statements it cannot evaluate', () => {
+    // INSERT … SELECT backfill of add_trip_plans
+    expect(db.rows('trip_plans')).toEqual([])
+    expect(db.hasTable('buckets')).toBe(false)
+  })
+})
+
+describe('queries', () => {
+  it('reports missing tables and columns like PostgREST', async () => {
+    expect((await client.from('nope').select('*')).error).toEqual({ message: 'relation "public.nope" does not exist', code: '42P01' })
+    expect((await client.from('trips').select('*').eq('nope', 1)).error?.message).toBe('column trips.nope does not exist')
+    expect((await client.from('trips').select('id, nope')).error?.code).toBe('42703')
+    expect((await client.from('trips').insert({ title: 'x', nope: 1 })).error).toEqual({
+      message: "Could not find the 'nope' column of 'trips' in the schema cache",
+      code: 'PGRST204',
+    })
+    expect((await client.from('users').select('*, trips(*)')).error?.code).toBe('PGRST200')
+  })
+
+  it('enforces not-null and unique constraints', async () => {
+    expect((await client.from('trips').insert({ title: 'x', date: '2026-05-16' })).error?.code).toBe('23502')
+    expect((await client.from('users').insert({ username: 'admin', password: 'x' })).error).toEqual({
+      message: 'duplicate key value violates unique constraint "users_username_key"',
+      code: '23505',
+    })
+    await client.from('exchange_rates').insert({ from_currency: 'HKD', to_currency: 'JPY', rate: 19.5 })
+    expect((await client.from('exchange_rates').insert({ from_currency: 'HKD', to_currency: 'JPY', rate: 20 })).error?.message).toBe(
+      'duplicate key value violates unique constraint "exchange_rates_from_currency_to_currency_key"'
+    )
+  })
+
+  it('filters with SQL null semantics and coerces filter values', async () => {
+    db.seed({
+      trips: [
+        { id: 1, title: 'a', date: '2026-05-16', location: '' },
+        { id: 2, title: 'b', date: '2026-05-16', location: '', deleted_at: '2026-05-01T00:00:00Z' },
+      ],
+    })
+    const ids = async (query: PromiseLike<{ data: any }>) => ((await query).data as { id: number }[]).map(row => row.id)
+
+    expect(await ids(client.from('trips').select('id').neq('deleted_at', 'x'))).toEqual([2])
+    expect(await ids(client.from('trips').select('id').is('deleted_at', null))).toEqual([1])
+    expect(await ids(client.from('trips').select('id').not('deleted_at', 'is', null))).toEqual([2])
+    expect(await ids(client.from('trips').select('id').eq('id', '2'))).toEqual([2])
+    expect(await ids(client.from('trips').select('id').in('id', [2, 3]))).toEqual([2])
+  })
+
+  it('orders nulls last ascending and first descending', async () => {
+    db.seed({ trip_schedule_items: [100, null, 0].map((cost, i) => ({ id: i + 1, trip_id: 1, sort_order: 0, content: '', cost })) })
+
+    const ascending = await client.from('trip_schedule_items').select('id').order('cost')
+    const descending = await client.from('trip_schedule_items').select('id').order('cost', { ascending: false })
+    const nullsFirst = await client.from('trip_schedule_items').select('id').order('cost', { nullsFirst: true })
+    expect(ascending.data?.map((row: { id: number }) => row.id)).toEqual([3, 1, 2])
+    expect(descending.data?.map((row: { id: number }) => row.id)).toEqual([2, 1, 3])
+    expect(nullsFirst.data?.map((row: { id: number }) => row.id)).toEqual([2, 3, 1])
+  })
+
+  it('embeds through foreign keys and cascades deletes', async () => {
+    const { data: trip } = await client.from('trips').insert({ title: '淺草', date: '2026-05-16', location: '東京' }).select().single()
+    await client.from('trip_schedule_items').insert([
+      { trip_id: trip.id, sort_order: 0, content: '雷門' },
+      { trip_id: trip.id, sort_order: 1, content: '仲見世' },
+    ])
+
+    const { data } = await client.from('trips').select('id, schedule_items:trip_schedule_items(content)').single()
+    expect(data).toEqual({ id: trip.id, schedule_items: [{ content: '雷門' }, { content: '仲見世' }] })
+
+    await client.from('trips').delete().eq('id', trip.id)
+    expect(db.rows('trip_schedule_items')).toEqual([])
+  })
+
+  it('refuses to delete a trip plan its rows still reference', async () => {
+    const { data: plan } = await client.from('trip_plans').insert({ name: '東京' }).select().single()
+    await client.from('trips').insert({ title: '淺草', date: '2026-05-16', location: '東京', plan_id: plan.id })
+
+    expect((await client.from('trip_plans').delete().eq('id', plan.id)).error).toEqual({
+      message: 'update or delete on table "trip_plans" violates foreign key constraint "trips_plan_id_fkey" on table "trips"',
+      code: '23503',
+    })
+    expect(db.rows('trip_plans')).toHaveLength(1)
+    expect(db.rows('trips')).toHaveLength(1)
+  })
+
+  it('returns single rows or PGRST116', async () => {
+    expect((await client.from('users').select('*').eq('username', 'admin').single()).data?.id).toBe(1)
+    expect((await client.from('users').select('*').eq('username', 'nobody').maybeSingle())).toEqual({ data: null, error: null })
+    expect((await client.from('destinations').select('*').single()).error?.code).toBe('PGRST116')
+  })
+
+  it('hands out copies, not the stored rows', async () => {
+    const { data } = await client.from('destinations').select('*').eq('id', 'japan').single()
+    data.theme.emoji = '🍣'
+    expect(db.rows('destinations')[0].theme.emoji).toBe('🌸')
+  })
+})
@@ -0,0 +1,138 @@
+import { readFileSync, readdirSync } from 'fs'
+import path from 'path'
+import { NextRequest } from 'next/server'
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest'
+import { POST as login } from '@/app/api/auth/login/route'
+import { POST as localDbQuery } from '@/app/api/local-db/route'
+import { LocalDatabase, type LocalQuery } from '../localDb'
+import { getLocalDatabase, resetLocalDatabase } from '../localDbServer'
+import { SESSION_COOKIE_NAME, getSessionSecret, signSessionToken } from '../session'
+import { registerLocalQueryExecutor } from '../localSupabaseClient'
+import { createTrip, deleteTrip, getSupabaseDestinations, getSupabaseUsers, getTrash, getTrips } from '../supabase'
+
+const MIGRATIONS_DIR = path.join(process.cwd(), 'supabase', 'migrations')
+const seeded = LocalDatabase.fromMigrations(
+  readdirSync(MIGRATIONS_DIR).map(name => ({ name, sql: readFileSync(path.join(MIGRATIONS_DIR, name), 'utf8') }))
+)
+let db: LocalDatabase
+
+// supabase.ts picks its client on first use, so the backend is chosen before any test runs
+beforeAll(() => {
+  vi.stubEnv('NEXT_PUBLIC_DATA_BACKEND', 'local')
+  registerLocalQueryExecutor(async query => db.execute(query))
+})
+
+afterAll(() => {
+  registerLocalQueryExecutor(null)
+  vi.unstubAllEnvs()
+})
+
+beforeEach(() => {
+  db = seeded.clone()
+  vi.spyOn(console, 'error').mockImplementation(() => {})
+  vi.spyOn(console, 'warn').mockImplementation(() => {})
+})
+
+describe('supabase.ts on the local data backend', () => {
+  it('reads the migrated seed data', async () => {
+    expect((await getSupabaseDestinations()).map(d => d.id)).toEqual(['japan', 'thailand', 'korea', 'taiwan'])
+    expect((await getSupabaseUsers()).map(u => [u.username, u.role])).toEqual([['admin', 'admin']])
+  })
+
+  it('creates, lists and trashes trips with their schedule lines', async () => {
+    const { data, error } = await createTrip({
+      title: '淺草寺',
+      date: '2026-05-16',
+      description: '',
+      location: '淺草',
+      lat: 35.71,
+      lng: 139.79,
+      schedule_items: [{ sort_order: 0, time_start: '09:00', time_end: null, content: '雷門', location: null, cost: null, booking_ref: null }],
+    })
+    expect(error).toBeNull()
+    expect(data).toMatchObject({ id: 1, destination_id: 'japan' })
+    expect(db.rows('trip_schedule_items')).toMatchObject([{ trip_id: 1, content: '雷門', time_start: '09:00' }])
+
+    const trips = await getTrips()
+    expect(trips.map(t => [t.title, t.schedule_items?.map(s => s.content)])).toEqual([['淺草寺', ['雷門']]])
+
+    expect(await deleteTrip(1)).toEqual({ success: true, error: null })
+    expect(await getTrips()).toEqual([])
+    expect((await getTrash()).trips.map(t => t.title)).toEqual(['淺草寺'])
+  })
+
+  it('signs in the seeded admin and stores a hashed password', async () => {
+    vi.stubEnv('AUTH_SESSION_SECRET', 'test-session-secret')
+    const res = await login(
+      new NextRequest('http://localhost/api/auth/login', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ username: 'admin', password: 'admin123' }),
+      })
+    )
+
+    expect(res.status).toBe(200)
+    expect((await res.json()).user).toMatchObject({ username: 'admin', role: 'admin', displayName: '管理員' })
+    expect(db.rows('users')[0].password).toMatch(/^pbkdf2\$/)
+  })
+})
+
+describe('POST /api/local-db', () => {
+  function query(table: string, op: LocalQuery['op'], values?: Record<string, unknown>[], filters: LocalQuery['filters'] = []): LocalQuery {
+    return { table, op, columns: '*', returning: false, values, filters, orders: [], mode: 'many' }
+  }
+
+  async function send(q: LocalQuery, session?: { username: string; role: string }) {
+    const token = session ? await signSessionToken(session, getSessionSecret()!) : null
+    const res = await localDbQuery(
+      new NextRequest('http://localhost/api/local-db', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...(token ? { cookie: `${SESSION_COOKIE_NAME}=${token}` } : {}) },
+        body: JSON.stringify(q),
+      })
+    )
+    return (await res.json()) as { data: any; error: { message: string } | null }
+  }
+
+  async function run(q: LocalQuery, session?: { username: string; role: string }) {
+    return (await send(q, session)).error
+  }
+
+  const amy = { username: 'amy', role: 'viewer' }
+  const expense = (username: string) => ({ type: 'personal', username, display_name: username, amount: 100, category: 'food' })
+
+  beforeEach(() => {
+    resetLocalDatabase()
+    getLocalDatabase().execute(query('users', 'insert', [{ username: 'amy', password: 'x', role: 'viewer', display_name: 'Amy' }]))
+  })
+
+  it('keeps reads public and needs a session for writes', async () => {
+    expect(await run(query('destinations', 'select'))).toBeNull()
+    expect(await run(query('checklist_states', 'insert', [{ item_id: 'passport', checked: true }]))).toEqual({ message: '請先登入', code: '42501' })
+  })
+
+  it('never hands out passwords, nor lets them be matched', async () => {
+    const { data } = await send(query('users', 'select'))
+    expect(data).toContainEqual(expect.objectContaining({ username: 'amy' }))
+    expect(data.some((row: object) => 'password' in row)).toBe(false)
+    expect(await run(query('users', 'select', undefined, [{ column: 'password', op: 'eq', value: 'x' }]))).toMatchObject({ code: '42501' })
+  })
+
+  it('checks writes against the role of the signed session, not user_info', async () => {
+    const denied = { message: '沒有權限執行此操作', code: '42501' }
+    expect(await run(query('region_custom_areas', 'delete', undefined, [{ column: 'id', op: 'eq', value: 1 }]), amy)).toEqual(denied)
+    expect(await run(query('expenses', 'insert', [expense('amy')]), amy)).toBeNull()
+    expect(await run(query('expenses', 'insert', [expense('admin')]), amy)).toEqual(denied)
+    // Handing one's own expense to someone else counts as writing theirs
+    expect(await run(query('expenses', 'update', [{ username: 'admin' }], [{ column: 'username', op: 'eq', value: 'amy' }]), amy)).toEqual(denied)
+    expect(await run(query('expenses', 'insert', [expense('admin')]), { username: 'admin', role: 'admin' })).toBeNull()
+  })
+
+  it('lets users edit their own profile but not their role', async () => {
+    const own = [{ column: 'username', op: 'eq' as const, value: 'amy' }]
+    expect(await run(query('users', 'update', [{ display_name: 'Amy W' }], own), amy)).toBeNull()
+    expect(await run(query('users', 'update', [{ role: 'admin' }], own), amy)).toMatchObject({ message: '沒有權限執行此操作' })
+    expect(await run(query('users', 'update', [{ display_name: 'x' }], [{ column: 'username', op: 'eq', value: 'admin' }]), amy)).not.toBeNull()
+    expect(getLocalDatabase().rows('users').find(u => u.username === 'amy')).toMatchObject({ display_name: 'Amy W', role: 'viewer' })
+  })
+})
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest'
+import {
+  EMPTY_PLATE_JSON,
+  extractPlainTextFromPlateJson,
+  isLikelyPlateJsonString,
+  isPlateJsonEffectivelyEmpty,
+  parsePlateValueJson,
+  renderNoteText,
+} from '../plateRich'
+
+const richNote = JSON.stringify([
+  { type: 'h2', children: [{ text: '晚餐' }] },
+  { type: 'p', children: [{ text: '一蘭 ', bold: true }, { text: '拉麵' }] },
+  { type: 'ul', children: [{ type: 'li', children: [{ text: '  記得排隊  ' }] }] },
+])
+
+describe('isLikelyPlateJsonString', () => {
+  it('recognises Plate node arrays', () => {
+    expect(isLikelyPlateJsonString(richNote)).toBe(true)
+    expect(isLikelyPlateJsonString(` ${EMPTY_PLATE_JSON} `)).toBe(true)
+  })
+
+  it('rejects plain text, other JSON and broken JSON', () => {
+    expect(isLikelyPlateJsonString('早上去淺草')).toBe(false)
+    expect(isLikelyPlateJsonString('[1, 2]')).toBe(false)
+    expect(isLikelyPlateJsonString('[]')).toBe(false)
+    expect(isLikelyPlateJsonString('[{"type": "p"')).toBe(false)
+  })
+})
+
+describe('parsePlateValueJson', () => {
+  it('returns stored Plate JSON as nodes', () => {
+    expect(parsePlateValueJson(richNote)).toEqual(JSON.parse(richNote))
+  })
+
+  it('wraps legacy plain-text notes in a paragraph', () => {
+    expect(parsePlateValueJson('早上去淺草')).toEqual([{ type: 'p', children: [{ text: '早上去淺草' }] }])
+  })
+
+  it('returns an empty paragraph for empty input', () => {
+    expect(parsePlateValueJson(null)).toEqual(JSON.parse(EMPTY_PLATE_JSON))
+    expect(parsePlateValueJson('   ')).toEqual(JSON.parse(EMPTY_PLATE_JSON))
+  })
+})
+
+describe('extractPlainTextFromPlateJson', () => {
+  it('joins text of nested nodes and trims whitespace', () => {
+    expect(extractPlainTextFromPlateJson(richNote)).toBe('晚餐一蘭 拉麵記得排隊')
+  })
+
+  it('returns plain text notes trimmed', () => {
+    expect(extractPlainTextFromPlateJson('  早上去淺草 ')).toBe('早上去淺草')
+    expect(renderNoteText('  早上去淺草 ')).toBe('早上去淺草')
+  })
+
+  it('treats an empty editor value as empty', () => {
+    expect(isPlateJsonEffectivelyEmpty(EMPTY_PLATE_JSON)).toBe(true)
+    expect(isPlateJsonEffectivelyEmpty(undefined)).toBe(true)
+    expect(isPlateJsonEffectivelyEmpty(richNote)).toBe(false)
+    expect(renderNoteText(EMPTY_PLATE_JSON)).toBe('')
+  })
+})
@@ -0,0 +1,120 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { parseReceiptText, scanReceipt, setOcrEngine } from '../receiptOcr'
+
+// OCR output as tesseract gives it: full-width digits, spaces between Japanese characters
+const KONBINI = `
+ローソン 新 宿 三 丁 目 店
+東京都新宿区新宿3-1-1
+TEL 03-1234-5678
+領 収 書
+2026年 5月10日(日) 12:34
+おにぎり 鮭 ※  ￥160
+お ー い お 茶 ※ ￥151
+ボールペン  ￥220
+値引  -20
+小 計  ￥511
+( 8%対象  ￥311)
+( 内消費税等  ￥43)
+合 計  ￥511
+お預り  ￥1,000
+お釣り  ￥489
+`
+
+const TAX_FREE = `
+MATSUMOTO KIYOSHI
+令和8年5月11日 18:02
+免税 TAX FREE
+化粧水   1,980 免
+目薬     ７８０ 免
+小計  2,760
+外税 10%  276
+`
+
+const HONG_KONG = `
+Tsui Wah Restaurant
+Date: 26/05/12
+Milk Tea   HK$32.00
+Pineapple Bun  HK$18.50
+TOTAL  HK$50.50
+VISA 50.50
+`
+
+afterEach(() => {
+  setOcrEngine(null)
+})
+
+describe('parseReceiptText', () => {
+  it('reads a convenience store receipt', () => {
+    expect(parseReceiptText(KONBINI)).toEqual({
+      total: 511,
+      taxIncludedTotal: 511,
+      subtotal: 511,
+      tax: 43,
+      date: '2026-05-10',
+      shopName: 'ローソン新宿三丁目店',
+      currency: 'JPY',
+      taxFree: false,
+      items: [
+        { name: 'おにぎり鮭', amount: 160, reducedTax: true },
+        { name: 'おーいお茶', amount: 151, reducedTax: true },
+        { name: 'ボールペン', amount: 220 },
+        { name: '値引', amount: -20 },
+      ],
+    })
+  })
+
+  it('adds 外税 to the subtotal and flags tax-free items', () => {
+    const scan = parseReceiptText(TAX_FREE)
+    expect(scan).toMatchObject({ total: 3036, taxIncludedTotal: 3036, subtotal: 2760, tax: 276, date: '2026-05-11', taxFree: true })
+    expect(scan.items).toEqual([
+      { name: '化粧水', amount: 1980, taxFree: true },
+      { name: '目薬', amount: 780, taxFree: true },
+    ])
+  })
+
+  it('reads receipts in other currencies', () => {
+    expect(parseReceiptText(HONG_KONG)).toMatchObject({
+      total: 50.5,
+      taxIncludedTotal: null,
+      date: '2026-05-12',
+      shopName: 'Tsui Wah Restaurant',
+      currency: 'HKD',
+      items: [
+        { name: 'Milk Tea', amount: 32 },
+        { name: 'Pineapple Bun', amount: 18.5 },
+      ],
+    })
+  })
+
+  it('prefers the printed 税込 total', () => {
+    expect(parseReceiptText('ラーメン 一蘭\n合計 1,800\n税込合計 1,980').total).toBe(1980)
+  })
+
+  it('returns empty fields for text that is not a receipt', () => {
+    expect(parseReceiptText('')).toEqual({
+      total: null,
+      taxIncludedTotal: null,
+      subtotal: null,
+      tax: null,
+      date: null,
+      shopName: null,
+      currency: null,
+      taxFree: false,
+      items: [],
+    })
+  })
+})
+
+describe('scanReceipt', () => {
+  it('runs the OCR engine and parses its text', async () => {
+    const recognize = vi.fn(async (_image: string | Blob, onProgress?: (p: number) => void) => {
+      onProgress?.(1)
+      return HONG_KONG
+    })
+    setOcrEngine({ name: 'fixture', recognize })
+    const onProgress = vi.fn()
+
+    expect((await scanReceipt('data:image/jpeg;base64,', onProgress)).total).toBe(50.5)
+    expect(onProgress).toHaveBeenCalledWith(1)
+  })
+})
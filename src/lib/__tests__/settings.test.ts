@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest'
+import type { SiteSettingsDB } from '../supabase'
+import {
+  defaultTravelEssentials,
+  fromSupabaseFormat,
+  getTotalDayHeartCounts,
+  parseDayHeartCounts,
+  toSupabaseFormat,
+} from '../settings'
+import { DEFAULT_SEED_FLIGHTS } from '../flightInfo'
+
+function dbRow(overrides: Partial<SiteSettingsDB> = {}): SiteSettingsDB {
+  return {
+    id: 1,
+    title: '東京之旅',
+    home_location: { name: '酒店', address: '東京都墨田區', lat: 35.7, lng: 139.8 },
+    trip_start_date: '2026-05-16',
+    total_days: 7,
+    day_schedules: [{ dayNumber: 1, theme: '淺草' }],
+    travel_essentials: null,
+    travel_preparations: null,
+    recaptcha_enabled: null,
+    sakura_mode_enabled: null,
+    chiikawa_messages: null,
+    flights: null,
+    day_heart_counts: { '1': 3, '2': 5 },
+    updated_at: '2026-05-01T00:00:00Z',
+    ...overrides,
+  }
+}
+
+describe('parseDayHeartCounts', () => {
+  it('keeps valid day → count pairs', () => {
+    expect(parseDayHeartCounts({ '1': 3, '2': '5' })).toEqual({ 1: 3, 2: 5 })
+  })
+
+  it('floors fractions and caps large counts', () => {
+    expect(parseDayHeartCounts({ '3': 2.7, '4': 1_000_000 })).toEqual({ 3: 2, 4: 99999 })
+  })
+
+  it('drops out-of-range days and invalid counts', () => {
+    expect(parseDayHeartCounts({ '0': 1, '100': 1, abc: 1, '5': -1, '6': 'x', '7': 4 })).toEqual({ 7: 4 })
+  })
+
+  it('returns {} for anything that is not an object', () => {
+    expect(parseDayHeartCounts(null)).toEqual({})
+    expect(parseDayHeartCounts('{"1":2}')).toEqual({})
+    expect(parseDayHeartCounts([1, 2])).toEqual({})
+  })
+
+  it('sums to the total shown on the profile', () => {
+    expect(getTotalDayHeartCounts({ 1: 3, 2: 5 })).toBe(8)
+    expect(getTotalDayHeartCounts(undefined)).toBe(0)
+  })
+})
+
+describe('fromSupabaseFormat', () => {
+  it('maps snake_case columns onto SiteSettings', () => {
+    const settings = fromSupabaseFormat(dbRow({ recaptcha_enabled: true, sakura_mode_enabled: false, flights: DEFAULT_SEED_FLIGHTS }))
+    expect(settings).toMatchObject({
+      title: '東京之旅',
+      homeLocation: { name: '酒店' },
+      tripStartDate: '2026-05-16',
+      totalDays: 7,
+      daySchedules: [{ dayNumber: 1, theme: '淺草' }],
+      recaptchaEnabled: true,
+      sakuraModeEnabled: false,
+      flights: DEFAULT_SEED_FLIGHTS,
+      dayHeartCounts: { 1: 3, 2: 5 },
+    })
+  })
+
+  it('fills missing columns with defaults', () => {
+    const settings = fromSupabaseFormat(dbRow({ title: '', total_days: 0, day_heart_counts: null }))
+    expect(settings?.title).toBe('日本旅遊')
+    expect(settings?.totalDays).toBe(3)
+    expect(settings?.travelEssentials).toEqual(defaultTravelEssentials)
+    expect(settings?.recaptchaEnabled).toBe(false)
+    expect(settings?.sakuraModeEnabled).toBe(true)
+    expect(settings?.flights).toEqual([])
+    expect(settings?.dayHeartCounts).toEqual({})
+  })
+
+  it('returns null for the empty default row so local settings are used', () => {
+    expect(fromSupabaseFormat(dbRow({ home_location: null, day_schedules: null, trip_start_date: null }))).toBeNull()
+  })
+})
+
+describe('toSupabaseFormat', () => {
+  it('only includes the fields that were given', () => {
+    expect(toSupabaseFormat({ title: '大阪', totalDays: 4 })).toEqual({ title: '大阪', total_days: 4 })
+    expect(toSupabaseFormat({})).toEqual({})
+  })
+
+  it('keeps explicit false / empty values', () => {
+    expect(toSupabaseFormat({ sakuraModeEnabled: false, flights: [], recaptchaEnabled: false })).toEqual({
+      sakura_mode_enabled: false,
+      flights: [],
+      recaptcha_enabled: false,
+    })
+  })
+
+  it('writes day heart counts with string keys', () => {
+    expect(toSupabaseFormat({ dayHeartCounts: { 1: 3, 2: 5 } })).toEqual({ day_heart_counts: { '1': 3, '2': 5 } })
+  })
+
+  it('round-trips through fromSupabaseFormat', () => {
+    const original = fromSupabaseFormat(dbRow())!
+    const { planId: _planId, planName: _planName, ...fields } = original
+    const written = toSupabaseFormat(fields)
+    expect(fromSupabaseFormat({ ...dbRow(), ...written } as SiteSettingsDB)).toEqual(original)
+  })
+})
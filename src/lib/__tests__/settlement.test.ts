@@ -0,0 +1,202 @@
+import { describe, expect, it } from 'vitest'
+import {
+  computeBalances,
+  minimizeTransfers,
+  paymentEntry,
+  scaleSplit,
+  settle,
+  splitAmount,
+  validateSplit,
+  type ExpenseSplit,
+  type Transfer,
+} from '../settlement'
+
+const equal = (...names: string[]): ExpenseSplit => ({ mode: 'equal', participants: names.map(username => ({ username })) })
+
+/** Apply transfers to balances: everyone should end at zero */
+function afterTransfers(balances: Record<string, number>, transfers: Transfer[]): Record<string, number> {
+  const result = { ...balances }
+  for (const t of transfers) {
+    result[t.from] = Math.round((result[t.from] + t.amount) * 100) / 100
+    result[t.to] = Math.round((result[t.to] - t.amount) * 100) / 100
+  }
+  return result
+}
+
+describe('splitAmount', () => {
+  it('shares equally among members without a split, handing leftover yen to the first people', () => {
+    expect(splitAmount(1000, null, ['a', 'b', 'c'])).toEqual({ a: 334, b: 333, c: 333 })
+    expect(splitAmount(100, null, ['a', 'b', 'c'], 2)).toEqual({ a: 33.34, b: 33.33, c: 33.33 })
+  })
+
+  it('shares equally among the selected participants only', () => {
+    expect(splitAmount(900, equal('a', 'c'), ['a', 'b', 'c'])).toEqual({ a: 450, c: 450 })
+  })
+
+  it('uses exact amounts, percentages and shares', () => {
+    const exact: ExpenseSplit = { mode: 'exact', participants: [{ username: 'a', value: 700 }, { username: 'b', value: 300 }] }
+    expect(splitAmount(1000, exact, [])).toEqual({ a: 700, b: 300 })
+
+    const percent: ExpenseSplit = { mode: 'percent', participants: [{ username: 'a', value: 50 }, { username: 'b', value: 25 }, { username: 'c', value: 25 }] }
+    expect(splitAmount(1001, percent, [])).toEqual({ a: 501, b: 250, c: 250 })
+
+    // Hotel room split 2:1
+    const shares: ExpenseSplit = { mode: 'shares', participants: [{ username: 'a', value: 2 }, { username: 'b', value: 1 }] }
+    expect(splitAmount(30000, shares, [])).toEqual({ a: 20000, b: 10000 })
+  })
+
+  it('refuses a split that does not add up instead of sharing equally', () => {
+    const exact: ExpenseSplit = { mode: 'exact', participants: [{ username: 'a', value: 100 }] }
+    expect(() => splitAmount(1000, exact, ['a', 'b'])).toThrow('指定金額合計 100 與支出 1000 不符')
+    expect(() => computeBalances([{ payer: 'a', amount: 1000, split: exact }], ['a', 'b'])).toThrow()
+  })
+
+  it('scales exact amounts when converting currencies', () => {
+    const exact: ExpenseSplit = { mode: 'exact', participants: [{ username: 'a', value: 60 }, { username: 'b', value: 40 }] }
+    expect(scaleSplit(exact, 20)?.participants.map(p => p.value)).toEqual([1200, 800])
+    expect(scaleSplit(equal('a'), 20)).toEqual(equal('a'))
+    expect(scaleSplit(null, 20)).toBeNull()
+  })
+
+  it('keeps a converted exact split adding up to the converted total', () => {
+    // US$10.00 at ¥140.05 = ¥1,401 (1400.5), but each share rounded alone adds up to ¥1,400
+    const usd: ExpenseSplit = {
+      mode: 'exact',
+      participants: [{ username: 'a', value: 3.33 }, { username: 'b', value: 3.33 }, { username: 'c', value: 3.34 }],
+    }
+    expect(validateSplit(10, usd, 2)).toBeNull()
+    const yen = scaleSplit(usd, 140.05)
+    expect(yen?.participants.map(p => p.value)).toEqual([467, 466, 468])
+    expect(validateSplit(1401, yen)).toBeNull()
+    expect(splitAmount(1401, yen, ['a', 'b', 'c'])).toEqual({ a: 467, b: 466, c: 468 })
+    expect(computeBalances([{ payer: 'a', amount: 1401, split: yen }], ['a', 'b', 'c'])).toEqual({ a: 934, b: -466, c: -468 })
+
+    // Home currency with cents: ¥5,000 split 3,000 / 2,000 at 0.0066666
+    const cents = scaleSplit({ mode: 'exact', participants: [{ username: 'a', value: 3000 }, { username: 'b', value: 2000 }] }, 0.0066666, 2)
+    expect(cents?.participants.map(p => p.value)).toEqual([20, 13.33])
+  })
+})
+
+describe('validateSplit', () => {
+  it('accepts consistent splits', () => {
+    expect(validateSplit(1000, null)).toBeNull()
+    expect(validateSplit(1000, equal('a'))).toBeNull()
+    expect(validateSplit(10.5, { mode: 'exact', participants: [{ username: 'a', value: 10 }, { username: 'b', value: 0.5 }] }, 2)).toBeNull()
+  })
+
+  it('explains what is wrong', () => {
+    expect(validateSplit(1000, equal())).toBe('請選擇至少一位分攤者')
+    expect(validateSplit(1000, equal('a', 'a'))).toBe('分攤者重複')
+    expect(validateSplit(1000, { mode: 'exact', participants: [{ username: 'a', value: 900 }] })).toBe('指定金額合計 900 與支出 1000 不符')
+    expect(validateSplit(1000, { mode: 'percent', participants: [{ username: 'a', value: 60 }, { username: 'b', value: 30 }] })).toBe(
+      '百分比合計為 90%，需為 100%'
+    )
+    expect(validateSplit(1000, { mode: 'shares', participants: [{ username: 'a', value: 0 }] })).toBe('份數合計需大於 0')
+    expect(validateSplit(1000, { mode: 'shares', participants: [{ username: 'a', value: -1 }, { username: 'b', value: 2 }] })).toBe(
+      '分攤數值不可為負數'
+    )
+  })
+})
+
+describe('computeBalances', () => {
+  it('credits the payer and debits each participant', () => {
+    const balances = computeBalances(
+      [
+        { payer: 'a', amount: 3000, split: equal('a', 'b', 'c') },
+        // Dinner b skipped
+        { payer: 'c', amount: 2000, split: equal('a', 'c') },
+      ],
+      ['a', 'b', 'c']
+    )
+    expect(balances).toEqual({ a: 1000, b: -1000, c: 0 })
+  })
+
+  it('keeps the old behaviour for expenses without a split', () => {
+    expect(computeBalances([{ payer: 'a', amount: 1000 }, { payer: 'b', amount: 500 }], ['a', 'b'])).toEqual({ a: 250, b: -250 })
+  })
+
+  it('always balances to zero despite rounding', () => {
+    const balances = computeBalances(
+      [
+        { payer: 'a', amount: 100, split: equal('a', 'b', 'c') },
+        { payer: 'b', amount: 10.01, split: { mode: 'shares', participants: [{ username: 'a', value: 1 }, { username: 'c', value: 2 }] } },
+      ],
+      ['a', 'b', 'c'],
+      2
+    )
+    expect(Object.values(balances).reduce((sum, v) => sum + v, 0)).toBeCloseTo(0, 10)
+  })
+})
+
+describe('minimizeTransfers', () => {
+  it('returns nothing when everyone is even', () => {
+    expect(minimizeTransfers({ a: 0, b: 0 })).toEqual([])
+  })
+
+  it('settles two people with one transfer', () => {
+    expect(minimizeTransfers({ a: 500, b: -500 })).toEqual([{ from: 'b', to: 'a', amount: 500 }])
+  })
+
+  it('pairs off people whose balances cancel out', () => {
+    const balances = { a: 6, b: 4, c: 3, d: -3, e: -4, f: -6 }
+    const transfers = minimizeTransfers(balances)
+    expect(transfers).toHaveLength(3)
+    expect(afterTransfers(balances, transfers)).toEqual({ a: 0, b: 0, c: 0, d: 0, e: 0, f: 0 })
+  })
+
+  it('finds zero-sum groups that greedy misses', () => {
+    // {a, d, e} and {b, c, f} each sum to zero → 4 transfers; greedy by size needs 5
+    const balances = { a: 5, b: 4, c: 3, d: -2, e: -3, f: -7 }
+    const transfers = minimizeTransfers(balances)
+    expect(transfers).toHaveLength(4)
+    expect(afterTransfers(balances, transfers)).toEqual({ a: 0, b: 0, c: 0, d: 0, e: 0, f: 0 })
+  })
+
+  it('works in minor units for currencies with decimals', () => {
+    expect(minimizeTransfers({ a: 10.5, b: -10.25, c: -0.25 }, 2)).toEqual([
+      { from: 'b', to: 'a', amount: 10.25 },
+      { from: 'c', to: 'a', amount: 0.25 },
+    ])
+  })
+
+  it('still settles large groups', () => {
+    const balances: Record<string, number> = {}
+    for (let i = 0; i < 20; i++) balances[`p${String(i).padStart(2, '0')}`] = i < 10 ? 100 + i : -(100 + i - 10)
+    const transfers = minimizeTransfers(balances)
+    expect(transfers.length).toBeLessThanOrEqual(19)
+    expect(Object.values(afterTransfers(balances, transfers)).every(v => v === 0)).toBe(true)
+  })
+})
+
+describe('settle', () => {
+  it('turns a trip into who-pays-whom', () => {
+    const { balances, transfers } = settle(
+      [
+        // Hotel paid by a, room split 2:1 with b
+        { payer: 'a', amount: 30000, split: { mode: 'shares', participants: [{ username: 'a', value: 2 }, { username: 'b', value: 1 }] } },
+        // Dinner paid by b for everyone
+        { payer: 'b', amount: 6000, split: equal('a', 'b', 'c') },
+        // Taxi: c owes exactly 1000 of 1500
+        { payer: 'c', amount: 1500, split: { mode: 'exact', participants: [{ username: 'a', value: 500 }, { username: 'c', value: 1000 }] } },
+      ],
+      ['a', 'b', 'c']
+    )
+    expect(balances).toEqual({ a: 7500, b: -6000, c: -1500 })
+    expect(transfers).toEqual([
+      { from: 'b', to: 'a', amount: 6000 },
+      { from: 'c', to: 'a', amount: 1500 },
+    ])
+  })
+
+  it('takes recorded payments into account', () => {
+    const expenses = [{ payer: 'a', amount: 3000, split: equal('a', 'b', 'c') }]
+    expect(settle([...expenses, paymentEntry('b', 'a', 1000)], ['a', 'b', 'c']).transfers).toEqual([{ from: 'c', to: 'a', amount: 1000 }])
+
+    // Partly paid back, then overpaid
+    expect(settle([...expenses, paymentEntry('c', 'a', 400)], ['a', 'b', 'c']).balances).toEqual({ a: 1600, b: -1000, c: -600 })
+    expect(settle([...expenses, paymentEntry('c', 'a', 1500)], ['a', 'b', 'c']).transfers).toEqual([
+      { from: 'b', to: 'a', amount: 500 },
+      { from: 'b', to: 'c', amount: 500 },
+    ])
+  })
+})
@@ -0,0 +1,322 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { mockSupabase, type MockRow } from '@/test/supabaseMock'
+import {
+  createSupabaseExpense,
+  createTrip,
+  deleteTrip,
+  getSupabaseExchangeRates,
+  saveSupabaseExchangeRate,
+  saveSupabaseWalletSettings,
+  getSupabaseWishlistItems,
+  getTrips,
+  updateTrip,
+  type TripScheduleItemInput,
+} from '../supabase'
+
+function trip(id: number, overrides: MockRow = {}): MockRow {
+  return {
+    id,
+    title: `行程 ${id}`,
+    date: '2026-05-16',
+    description: '',
+    location: '東京',
+    lat: 35.7,
+    lng: 139.8,
+    destination_id: 'japan',
+    sort_order: null,
+    created_at: `2026-04-0${id}T00:00:00Z`,
+    updated_at: `2026-04-0${id}T00:00:00Z`,
+    ...overrides,
+  }
+}
+
+function scheduleLine(content: string, overrides: Partial<TripScheduleItemInput> = {}): TripScheduleItemInput {
+  return { sort_order: 0, time_start: null, time_end: null, content, location: null, cost: null, booking_ref: null, ...overrides }
+}
+
+const newTrip = { title: '晴空塔', date: '2026-05-17', description: '', location: '押上', lat: 35.71, lng: 139.81 }
+
+beforeEach(() => {
+  mockSupabase.reset()
+  vi.spyOn(console, 'error').mockImplementation(() => {})
+  vi.spyOn(console, 'warn').mockImplementation(() => {})
+})
+
+describe('getTrips', () => {
+  it('returns the destination\'s trips in itinerary order with their schedule lines', async () => {
+    mockSupabase.reset({
+      trips: [
+        trip(1, { date: '2026-05-17' }),
+        trip(2, { sort_order: 1 }),
+        trip(3, { sort_order: 0 }),
+        trip(4, { deleted_at: '2026-05-01T00:00:00Z' }),
+        trip(5, { destination_id: 'korea' }),
+      ],
+      trip_schedule_items: [
+        { id: 11, trip_id: 3, sort_order: 1, content: '午餐' },
+        { id: 10, trip_id: 3, sort_order: 0, content: '早餐' },
+      ],
+    })
+
+    const trips = await getTrips()
+    expect(trips.map(t => t.id)).toEqual([3, 2, 1])
+    expect(trips[0].schedule_items?.map(s => s.content)).toEqual(['早餐', '午餐'])
+    expect(trips[1].schedule_items).toEqual([])
+  })
+
+  it('drops the destination filter when destination_id has not been migrated', async () => {
+    mockSupabase.reset({ trips: [trip(1), trip(2, { destination_id: 'korea' })] })
+    mockSupabase.failNext('trips', 'column trips.destination_id does not exist')
+
+    expect((await getTrips()).map(t => t.id)).toEqual([1, 2])
+    expect(mockSupabase.calls.filter(c => c.table === 'trips').map(c => c.filters)).toEqual([
+      ['destination_id=eq.japan'],
+      [],
+    ])
+  })
+
+  it('returns the (empty) offline snapshot when the request fails', async () => {
+    mockSupabase.reset({ trips: [trip(1)] })
+    mockSupabase.failNext('trips', 'TypeError: fetch failed')
+    expect(await getTrips()).toEqual([])
+  })
+})
+
+describe('createTrip', () => {
+  it('inserts the trip for the current destination with its schedule lines', async () => {
+    const { data, error } = await createTrip({
+      ...newTrip,
+      schedule_items: [scheduleLine('登塔', { time_start: '10:00' }), scheduleLine('購物', { sort_order: 5 })],
+    })
+
+    expect(error).toBeNull()
+    expect(data).toMatchObject({ id: 1, title: '晴空塔', destination_id: 'japan', time_start: null })
+    expect(data?.schedule_items?.map(s => [s.sort_order, s.content])).toEqual([[0, '登塔'], [1, '購物']])
+    expect(mockSupabase.rows('trip_schedule_items')).toHaveLength(2)
+    expect(mockSupabase.rows('trip_schedule_items').every(s => s.trip_id === 1)).toBe(true)
+  })
+
+  it('retries without columns whose migrations have not run', async () => {
+    mockSupabase.failNext('trips', 'column trips.sort_order does not exist')
+    const { data, error } = await createTrip({ ...newTrip, sort_order: 3 })
+
+    expect(error).toBeNull()
+    expect(data).not.toHaveProperty('sort_order')
+  })
+
+  it('reports database errors', async () => {
+    mockSupabase.failNext('trips', 'permission denied for table trips')
+    expect(await createTrip(newTrip)).toEqual({ data: null, error: 'permission denied for table trips' })
+  })
+})
+
+describe('updateTrip', () => {
+  beforeEach(() => {
+    mockSupabase.reset({
+      trips: [trip(1)],
+      trip_schedule_items: [{ id: 7, trip_id: 1, sort_order: 0, content: '舊行程' }],
+    })
+  })
+
+  it('saves when the row is still the version being edited', async () => {
+    const { data, error, conflict } = await updateTrip(1, { title: '新標題' }, { expectedUpdatedAt: '2026-04-01T00:00:00Z' })
+
+    expect(error).toBeNull()
+    expect(conflict).toBeUndefined()
+    expect(data?.title).toBe('新標題')
+    expect(data?.updated_at).not.toBe('2026-04-01T00:00:00Z')
+  })
+
+  it('returns a conflict with the current row when someone saved in between', async () => {
+    mockSupabase.rows('trips')[0].title = '別人的修改'
+    mockSupabase.rows('trips')[0].updated_at = '2026-04-02T00:00:00Z'
+
+    const { data, conflict } = await updateTrip(1, { title: '我的修改' }, { expectedUpdatedAt: '2026-04-01T00:00:00Z' })
+
+    expect(data).toBeNull()
+    expect(conflict?.current).toMatchObject({ title: '別人的修改' })
+    expect(mockSupabase.rows('trips')[0].title).toBe('別人的修改')
+  })
+
+  it('replaces the schedule lines when they are given', async () => {
+    const { data } = await updateTrip(1, { schedule_items: [scheduleLine('新行程')] })
+
+    expect(data?.schedule_items?.map(s => s.content)).toEqual(['新行程'])
+    expect(mockSupabase.rows('trip_schedule_items').map(s => s.content)).toEqual(['新行程'])
+  })
+
+  it('reports a missing trip', async () => {
+    expect(await updateTrip(99, { title: 'x' })).toEqual({ data: null, error: '找不到此行程' })
+  })
+})
+
+describe('deleteTrip', () => {
+  it('moves the trip to the trash and unlinks its wishlist item', async () => {
+    mockSupabase.reset({
+      trips: [trip(1, { wishlist_item_id: 5 })],
+      wishlist_items: [{ id: 5, name: '一蘭', destination_id: 'japan', added_to_trip: { day: 1, time: '12:00' } }],
+    })
+
+    expect(await deleteTrip(1)).toEqual({ success: true, error: null })
+    expect(mockSupabase.rows('trips')[0].deleted_at).toBeTruthy()
+    expect(mockSupabase.rows('wishlist_items')[0].added_to_trip).toBeNull()
+    expect(await getTrips()).toEqual([])
+  })
+})
+
+describe('getSupabaseWishlistItems', () => {
+  it('returns the destination\'s items, newest first, without trashed ones', async () => {
+    mockSupabase.reset({
+      wishlist_items: [
+        { id: 1, name: '一蘭', destination_id: 'japan', created_at: '2026-04-01T00:00:00Z' },
+        { id: 2, name: '敘敘苑', destination_id: 'japan', created_at: '2026-04-02T00:00:00Z' },
+        { id: 3, name: '已刪除', destination_id: 'japan', created_at: '2026-04-03T00:00:00Z', deleted_at: '2026-04-04T00:00:00Z' },
+        { id: 4, name: '首爾', destination_id: 'korea', created_at: '2026-04-05T00:00:00Z' },
+      ],
+    })
+
+    expect((await getSupabaseWishlistItems()).map(w => w.name)).toEqual(['敘敘苑', '一蘭'])
+  })
+})
+
+describe('createSupabaseExpense', () => {
+  const expense = {
+    type: 'shared' as const,
+    username: 'admin',
+    display_name: '管理員',
+    avatar_url: null,
+    amount: 120,
+    currency: 'HKD',
+    fx_rates: { HKD: 1, JPY: 19.5 },
+    fx_source: 'manual',
+    fx_captured_at: '2026-05-10T00:00:00.000Z',
+    category: 'food' as const,
+    note: '燒味飯',
+  }
+
+  it('stores the original currency with its rate snapshot', async () => {
+    const { data, error } = await createSupabaseExpense(expense)
+
+    expect(error).toBeNull()
+    expect(data).toMatchObject({ amount: 120, currency: 'HKD', fx_rates: { JPY: 19.5 } })
+  })
+
+  it('saves yen without the currency columns before the migration', async () => {
+    mockSupabase.failNext('expenses', "Could not find the 'currency' column of 'expenses' in the schema cache", 'PGRST204')
+    const { data, error } = await createSupabaseExpense({ ...expense, amount: 1500, currency: 'JPY', fx_rates: { JPY: 1 } })
+
+    expect(error).toBeNull()
+    expect(data).toMatchObject({ amount: 1500 })
+    expect(data).not.toHaveProperty('fx_rates')
+  })
+
+  it('refuses foreign currencies before the migration instead of saving them as yen', async () => {
+    mockSupabase.failNext('expenses', "Could not find the 'currency' column of 'expenses' in the schema cache", 'PGRST204')
+
+    expect(await createSupabaseExpense(expense)).toEqual({ data: null, error: '請先執行 add_multi_currency.sql 才能記錄外幣支出' })
+    expect(mockSupabase.rows('expenses')).toEqual([])
+  })
+
+  it('keeps receipts, and refuses to drop a receipt photo before the migration', async () => {
+    const receipt = { receipt_url: 'https://example.com/receipts/a.jpg', receipt_data: null }
+    expect((await createSupabaseExpense({ ...expense, ...receipt })).data).toMatchObject(receipt)
+
+    mockSupabase.failNext('expenses', "Could not find the 'receipt_url' column of 'expenses' in the schema cache", 'PGRST204')
+    expect(await createSupabaseExpense({ ...expense, ...receipt })).toEqual({ data: null, error: '請先執行 add_expense_receipts.sql 才能附加收據' })
+  })
+
+  it('links expenses to a stop, and saves them without the link before the migration', async () => {
+    expect((await createSupabaseExpense({ ...expense, trip_id: 1, wishlist_item_id: 5 })).data).toMatchObject({ trip_id: 1, wishlist_item_id: 5 })
+
+    mockSupabase.failNext('expenses', "Could not find the 'trip_id' column of 'expenses' in the schema cache", 'PGRST204')
+    const { data, error } = await createSupabaseExpense({ ...expense, trip_id: 1, wishlist_item_id: 5 })
+    expect(error).toBeNull()
+    expect(data).not.toHaveProperty('trip_id')
+  })
+
+  it('records settle-up payments, but not as spending before the migration', async () => {
+    const payment = { ...expense, kind: 'settlement' as const, paid_to: 'guest', category: 'other' as const, note: null }
+    expect((await createSupabaseExpense(payment)).data).toMatchObject({ kind: 'settlement', paid_to: 'guest' })
+
+    mockSupabase.failNext('expenses', "Could not find the 'kind' column of 'expenses' in the schema cache", 'PGRST204')
+    expect(await createSupabaseExpense(payment)).toEqual({ data: null, error: '請先執行 add_settlement_payments.sql 才能記錄還款' })
+    expect(mockSupabase.rows('expenses')).toHaveLength(1)
+  })
+
+  it('keeps the payment method, refusing pre-paid expenses and withdrawals before the migration', async () => {
+    expect((await createSupabaseExpense({ ...expense, payment_method: 'cash', prepaid: true })).data).toMatchObject({
+      payment_method: 'cash',
+      prepaid: true,
+    })
+
+    mockSupabase.failNext('expenses', "Could not find the 'payment_method' column of 'expenses' in the schema cache", 'PGRST204')
+    const { data, error } = await createSupabaseExpense({ ...expense, payment_method: 'card', prepaid: false })
+    expect(error).toBeNull()
+    expect(data).not.toHaveProperty('payment_method')
+
+    mockSupabase.failNext('expenses', "Could not find the 'prepaid' column of 'expenses' in the schema cache", 'PGRST204')
+    expect(await createSupabaseExpense({ ...expense, prepaid: true })).toEqual({
+      data: null,
+      error: '請先執行 add_expense_payments.sql 才能記錄付款方式',
+    })
+
+    mockSupabase.failNext('expenses', 'new row for relation "expenses" violates check constraint "expenses_kind_check"', '23514')
+    expect(await createSupabaseExpense({ ...expense, kind: 'withdrawal', category: 'other' })).toEqual({
+      data: null,
+      error: '請先執行 add_expense_payments.sql 才能記錄提款',
+    })
+  })
+
+  it('refuses IC card top-ups before the migration', async () => {
+    const topUp = { ...expense, amount: 3000, currency: 'JPY', fx_rates: { JPY: 1 }, category: 'transport' as const, kind: 'ic_topup' as const }
+    mockSupabase.failNext('expenses', 'new row for relation "expenses" violates check constraint "expenses_kind_check"', '23514')
+    expect(await createSupabaseExpense(topUp)).toEqual({ data: null, error: '請先執行 add_ic_card_topups.sql 才能記錄 IC 卡儲值' })
+
+    const { data } = await createSupabaseExpense(topUp)
+    expect(data).toMatchObject({ kind: 'ic_topup', amount: 3000 })
+  })
+})
+
+describe('wallet settings', () => {
+  it('saves budget envelopes, and asks for the migration before it ran', async () => {
+    const envelopes = { category_budgets: { food: 30000 }, daily_budget: 10000, day_budgets: { '2': 20000 }, budget_alert_threshold: 80 }
+    expect(await saveSupabaseWalletSettings(envelopes)).toEqual({ success: true, error: null })
+    expect(mockSupabase.rows('wallet_settings')[0]).toMatchObject(envelopes)
+
+    mockSupabase.failNext('wallet_settings', "Could not find the 'category_budgets' column of 'wallet_settings' in the schema cache", 'PGRST204')
+    expect(await saveSupabaseWalletSettings(envelopes)).toEqual({
+      success: false,
+      error: '請先執行 add_wallet_budgets.sql 才能設定分類與每日預算',
+    })
+  })
+})
+
+describe('exchange rates', () => {
+  it('upserts one manual rate per currency pair', async () => {
+    await saveSupabaseExchangeRate('HKD', 'JPY', 19.5)
+    const { data, error } = await saveSupabaseExchangeRate('HKD', 'JPY', 19.8)
+
+    expect(error).toBeNull()
+    expect(data).toMatchObject({ id: 1, rate: 19.8 })
+    expect((await getSupabaseExchangeRates()).map(r => [r.from_currency, r.to_currency, r.rate])).toEqual([['HKD', 'JPY', 19.8]])
+  })
+
+  it('rejects rates that cannot be used', async () => {
+    expect(await saveSupabaseExchangeRate('HKD', 'HKD', 1)).toEqual({ data: null, error: '請選擇兩種不同的貨幣' })
+    expect(await saveSupabaseExchangeRate('HKD', 'JPY', 0)).toEqual({ data: null, error: '匯率必須大於 0' })
+  })
+})
+
+// Runs last: once trip_schedule_items is found missing, supabase.ts stops using it for this module
+describe('before the trip_schedule_items migration', () => {
+  it('keeps schedule lines as JSON in description', async () => {
+    mockSupabase.reset({ trips: [trip(1)] })
+    mockSupabase.failNext('trips', 'Could not find a relationship between \'trips\' and \'trip_schedule_items\'')
+    expect((await getTrips()).map(t => t.id)).toEqual([1])
+
+    const { data } = await createTrip({ ...newTrip, schedule_items: [scheduleLine('登塔', { time_start: '10:00' })] })
+
+    expect(JSON.parse(data!.description)).toEqual([expect.objectContaining({ content: '登塔', time_start: '10:00' })])
+    expect(mockSupabase.calls.some(c => c.table === 'trip_schedule_items')).toBe(false)
+  })
+})
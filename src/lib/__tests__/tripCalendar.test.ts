@@ -0,0 +1,144 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import {
+  addDays,
+  diffDays,
+  formatTripDate,
+  formatTripMonthDay,
+  getDateForDay,
+  getDayNumberForDate,
+  getTimeZoneForCountry,
+  getTodayTripDay,
+  isSameTripDate,
+  normalizeTripDate,
+  timeZoneOffsetMinutes,
+  todayInTimeZone,
+  zonedTimeToUtc,
+} from '../tripCalendar'
+import { computeFlightDurationLabel } from '../flightInfo'
+
+const iso = (ms: number | null) => (ms == null ? null : new Date(ms).toISOString())
+
+describe('day arithmetic', () => {
+  const originalTz = process.env.TZ
+
+  // Device in a zone with DST: local-midnight math used to lose an hour here and floor to the wrong day
+  beforeEach(() => {
+    process.env.TZ = 'America/New_York'
+  })
+  afterEach(() => {
+    process.env.TZ = originalTz
+  })
+
+  it('adds days across a DST change', () => {
+    // US DST starts 2026-03-08
+    expect(addDays('2026-03-07', 1)).toBe('2026-03-08')
+    expect(addDays('2026-03-07', 2)).toBe('2026-03-09')
+    // and ends 2026-11-01
+    expect(addDays('2026-10-31', 2)).toBe('2026-11-02')
+  })
+
+  it('counts whole days across a DST change', () => {
+    expect(diffDays('2026-03-01', '2026-03-31')).toBe(30)
+    expect(diffDays('2026-10-25', '2026-11-05')).toBe(11)
+    expect(diffDays('2026-03-10', '2026-03-01')).toBe(-9)
+    expect(diffDays('not a date', '2026-03-01')).toBeNull()
+  })
+
+  it('maps day numbers to dates and back', () => {
+    expect(getDateForDay('2026-03-06', 1)).toBe('2026-03-06')
+    expect(getDateForDay('2026-03-06', 4)).toBe('2026-03-09')
+    expect(getDateForDay('', 4)).toBe('')
+    expect(getDayNumberForDate('2026-03-06', '2026-03-09')).toBe(4)
+    expect(getDayNumberForDate('2026-03-06', '2026-03-05')).toBe(0)
+    expect(getDayNumberForDate('2026-03-06', '')).toBe(1)
+  })
+
+  it('compares stored dates by calendar day, ignoring any time part', () => {
+    expect(normalizeTripDate('2026-05-16T00:00:00+00:00')).toBe('2026-05-16')
+    expect(isSameTripDate('2026-05-16T00:00:00+00:00', '2026-05-16')).toBe(true)
+    expect(isSameTripDate('2026-05-16', '2026-05-17')).toBe(false)
+    expect(isSameTripDate('', '')).toBe(false)
+  })
+
+  it('formats the date itself, not the date shifted into the device zone', () => {
+    // 2026-05-16 is a Saturday everywhere
+    expect(formatTripDate('2026-05-16', { weekday: 'short' })).toBe('週六')
+    expect(formatTripDate('2026-05-16', { month: 'numeric', day: 'numeric' })).toBe('5/16')
+    expect(formatTripMonthDay('2026-05-16')).toBe('5/16')
+    expect(formatTripDate('', { weekday: 'short' })).toBe('')
+  })
+})
+
+describe('today at the destination (UTC+9 / UTC+8)', () => {
+  const tokyo = getTimeZoneForCountry('JP')
+  const hongKong = getTimeZoneForCountry('hk')
+
+  it('resolves destination zones from country codes', () => {
+    expect(tokyo).toBe('Asia/Tokyo')
+    expect(hongKong).toBe('Asia/Hong_Kong')
+    expect(timeZoneOffsetMinutes(tokyo, Date.parse('2026-05-15T12:00:00Z'))).toBe(540)
+    expect(timeZoneOffsetMinutes(hongKong, Date.parse('2026-05-15T12:00:00Z'))).toBe(480)
+  })
+
+  it('rolls over at local midnight in each zone', () => {
+    // 15:00Z is midnight in Tokyo; 16:00Z is midnight in Hong Kong
+    expect(todayInTimeZone(tokyo, new Date('2026-05-15T14:59:59Z'))).toBe('2026-05-15')
+    expect(todayInTimeZone(tokyo, new Date('2026-05-15T15:00:00Z'))).toBe('2026-05-16')
+    expect(todayInTimeZone(hongKong, new Date('2026-05-15T15:30:00Z'))).toBe('2026-05-15')
+    expect(todayInTimeZone(hongKong, new Date('2026-05-15T16:00:00Z'))).toBe('2026-05-16')
+  })
+
+  it('picks the trip day that is today at the destination', () => {
+    const now = new Date('2026-05-15T15:30:00Z')
+    expect(getTodayTripDay('2026-05-14', 5, tokyo, now)).toBe(3)
+    expect(getTodayTripDay('2026-05-14', 5, hongKong, now)).toBe(2)
+  })
+
+  it('returns null before and after the trip', () => {
+    expect(getTodayTripDay('2026-05-16', 5, hongKong, new Date('2026-05-15T15:30:00Z'))).toBeNull()
+    expect(getTodayTripDay('2026-05-16', 5, tokyo, new Date('2026-05-15T15:30:00Z'))).toBe(1)
+    expect(getTodayTripDay('2026-05-10', 5, tokyo, new Date('2026-05-15T15:30:00Z'))).toBeNull()
+    expect(getTodayTripDay('', 5, tokyo)).toBeNull()
+  })
+})
+
+describe('zonedTimeToUtc', () => {
+  it('converts wall-clock times in fixed-offset zones', () => {
+    expect(iso(zonedTimeToUtc('2026-05-16', '00:30', 'Asia/Tokyo'))).toBe('2026-05-15T15:30:00.000Z')
+    expect(iso(zonedTimeToUtc('2026-05-16', '00:30', 'Asia/Hong_Kong'))).toBe('2026-05-15T16:30:00.000Z')
+  })
+
+  it('moves a time skipped by DST forward', () => {
+    // London 2026-03-29 01:00 GMT → 02:00 BST: 01:30 does not exist, becomes 02:30 BST
+    expect(iso(zonedTimeToUtc('2026-03-29', '01:30', 'Europe/London'))).toBe('2026-03-29T01:30:00.000Z')
+    expect(iso(zonedTimeToUtc('2026-03-29', '03:00', 'Europe/London'))).toBe('2026-03-29T02:00:00.000Z')
+  })
+
+  it('takes the first of a time repeated by DST', () => {
+    // London 2026-10-25 02:00 BST → 01:00 GMT: 01:30 happens twice
+    expect(iso(zonedTimeToUtc('2026-10-25', '01:30', 'Europe/London'))).toBe('2026-10-25T00:30:00.000Z')
+    expect(iso(zonedTimeToUtc('2026-10-25', '03:00', 'Europe/London'))).toBe('2026-10-25T03:00:00.000Z')
+  })
+
+  it('rejects invalid input', () => {
+    expect(zonedTimeToUtc('', '10:00', 'Asia/Tokyo')).toBeNull()
+    expect(zonedTimeToUtc('2026-05-16', 'noon', 'Asia/Tokyo')).toBeNull()
+  })
+})
+
+describe('flight durations with airport time zones', () => {
+  it('accounts for the UTC+8 / UTC+9 difference', () => {
+    expect(computeFlightDurationLabel('2026-05-16', '09:15', '2026-05-16', '14:45', 'HKG', 'NRT')).toBe('4h 30m')
+    expect(computeFlightDurationLabel('2026-05-20', '10:00', '2026-05-20', '13:30', 'NRT', 'HKG')).toBe('4h 30m')
+  })
+
+  it('spans a DST change at one end', () => {
+    // 21:00 GMT = 21:00Z; 17:00 HKT next day = 09:00Z
+    expect(computeFlightDurationLabel('2026-03-28', '21:00', '2026-03-29', '17:00', 'LHR', 'HKG')).toBe('12h 0m')
+  })
+
+  it('falls back to plain clock difference when an airport is unknown', () => {
+    expect(computeFlightDurationLabel('2026-05-16', '09:15', '2026-05-16', '14:45', 'HKG', 'XXX')).toBe('5h 30m')
+    expect(computeFlightDurationLabel('2026-05-16', '23:00', '2026-05-16', '01:00')).toBe('2h 0m')
+  })
+})
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest'
+import {
+  formatTripDayAttachedSummary,
+  formatTripDayListBadge,
+  formatTripDaySelectOption,
+  getDayScheduleTheme,
+} from '../tripDayLabels'
+
+const settings = {
+  tripStartDate: '2026-05-16',
+  daySchedules: [
+    { dayNumber: 1, theme: '  淺草 ' },
+    { dayNumber: 2, theme: '' },
+  ],
+}
+
+describe('getDayScheduleTheme', () => {
+  it('returns the trimmed theme of a day', () => {
+    expect(getDayScheduleTheme(1, settings)).toBe('淺草')
+  })
+
+  it('is undefined for blank or missing themes', () => {
+    expect(getDayScheduleTheme(2, settings)).toBeUndefined()
+    expect(getDayScheduleTheme(3, settings)).toBeUndefined()
+    expect(getDayScheduleTheme(1, null)).toBeUndefined()
+  })
+})
+
+describe('formatTripDaySelectOption', () => {
+  it('shows day, theme and date', () => {
+    expect(formatTripDaySelectOption(1, settings)).toBe('Day 1 · 淺草 (5/16（週六）)')
+  })
+
+  it('leaves out a missing theme', () => {
+    expect(formatTripDaySelectOption(3, settings)).toBe('Day 3 (5/18（週一）)')
+  })
+
+  it('leaves out the date without a start date', () => {
+    expect(formatTripDaySelectOption(1, { ...settings, tripStartDate: '' })).toBe('Day 1 · 淺草')
+    expect(formatTripDaySelectOption(4, undefined)).toBe('Day 4')
+  })
+})
+
+describe('short labels', () => {
+  it('formats the attached summary and list badge', () => {
+    expect(formatTripDayAttachedSummary(1, settings)).toBe('Day 1 · 淺草')
+    expect(formatTripDayAttachedSummary(2, settings)).toBe('Day 2')
+    expect(formatTripDayListBadge(5)).toBe('Day 5')
+  })
+})
@@ -0,0 +1,259 @@
+import { describe, expect, it } from 'vitest'
+import type { ExpenseDB } from '../supabase'
+import { parseCsv, parseCsvRecords, toCsv } from '../csv'
+import {
+  balanceRecords,
+  buildWalletReport,
+  expensesCsv,
+  formatSplit,
+  parseSplit,
+  previewExpenseImport,
+  walletReportHtml,
+  type ExpenseImportContext,
+  type WalletExportContext,
+} from '../walletExport'
+
+function expense(id: number, overrides: Partial<ExpenseDB> = {}): ExpenseDB {
+  return {
+    id,
+    type: 'shared',
+    username: 'amy',
+    display_name: 'Amy',
+    avatar_url: null,
+    amount: 1000,
+    currency: 'JPY',
+    category: 'food',
+    note: null,
+    created_at: '2026-05-16T03:00:00.000Z',
+    ...overrides,
+  }
+}
+
+const ctx: WalletExportContext = {
+  homeCurrency: 'JPY',
+  homeAmount: e => (e.currency === 'HKD' ? (e.fx_rates?.JPY ? e.amount * e.fx_rates.JPY : null) : e.amount),
+  tripStartDate: '2026-05-16',
+  timeZone: 'Asia/Tokyo',
+}
+
+const importCtx: ExpenseImportContext = {
+  users: [
+    { username: 'amy', displayName: 'Amy' },
+    { username: 'ben', displayName: 'Ben' },
+  ],
+  existingIds: new Set([1]),
+  homeCurrency: 'JPY',
+  canImport: (type, username) => type === 'shared' || username === 'amy',
+}
+
+describe('csv', () => {
+  it('quotes what needs quoting and reads it back', () => {
+    const rows = [['拉麵, 餃子', 'say "hi"', 'line\nbreak', 12, null]]
+    const csv = toCsv(['a', 'b', 'c', 'd', 'e'], rows)
+    expect(csv.startsWith('\uFEFFa,b,c,d,e\r\n"拉麵, 餃子","say ""hi""","line\nbreak",12,\r\n')).toBe(true)
+    expect(parseCsv(csv)).toEqual([['a', 'b', 'c', 'd', 'e'], ['拉麵, 餃子', 'say "hi"', 'line\nbreak', '12', '']])
+  })
+
+  it('keeps spreadsheets from running text as a formula', () => {
+    const csv = toCsv(['note', 'amount'], [['=HYPERLINK("http://x")', -500], ['+81 3', 1], ['-', 2], ['@SUM(A1)', 3]])
+    expect(csv).toBe('\uFEFFnote,amount\r\n"\'=HYPERLINK(""http://x"")",-500\r\n"\'+81 3",1\r\n"\'-",2\r\n"\'@SUM(A1)",3\r\n')
+    expect(parseCsvRecords(csv).records.map(r => r.note)).toEqual(['=HYPERLINK("http://x")', '+81 3', '-', '@SUM(A1)'])
+  })
+})
+
+describe('export', () => {
+  it('writes one row per expense with the home amount and split', () => {
+    const csv = expensesCsv(
+      [
+        expense(1, {
+          amount: 50,
+          currency: 'HKD',
+          fx_rates: { JPY: 19.5 },
+          note: '奶茶',
+          split: { mode: 'exact', participants: [{ username: 'amy', value: 30 }, { username: 'ben', value: 20 }] },
+          trip_id: 3,
+        }),
+      ],
+      ctx
+    )
+    const [header, row] = parseCsv(csv)
+    const record = Object.fromEntries(header.map((h, i) => [h, row[i]]))
+    expect(record).toMatchObject({
+      id: '1',
+      day: '1',
+      type: 'shared',
+      kind: 'expense',
+      amount: '50',
+      currency: 'HKD',
+      fx_rate: '19.5',
+      home_amount: '975',
+      home_currency: 'JPY',
+      split: 'exact:amy=30;ben=20',
+      trip_id: '3',
+    })
+  })
+
+  it('round-trips splits', () => {
+    const split = { mode: 'shares' as const, participants: [{ username: 'amy', value: 2 }, { username: 'ben', value: 1 }] }
+    expect(parseSplit(formatSplit(split))).toEqual(split)
+    expect(parseSplit('equal:amy;ben')).toEqual({ mode: 'equal', participants: [{ username: 'amy' }, { username: 'ben' }] })
+    expect(parseSplit('')).toBeNull()
+    expect(parseSplit('half:amy')).toBe('invalid')
+  })
+
+  it('nets settle-up payments into the balances', () => {
+    const balances = balanceRecords(
+      [
+        { username: 'amy', displayName: 'Amy', paid: 3000, owed: 1500 },
+        { username: 'ben', displayName: 'Ben', paid: 0, owed: 1500 },
+      ],
+      [expense(9, { username: 'ben', amount: 1000, kind: 'settlement', paid_to: 'amy' })],
+      ctx
+    )
+    expect(balances.map(b => [b.username, b.balance])).toEqual([
+      ['amy', 500],
+      ['ben', -500],
+    ])
+  })
+
+  it('groups the report by day and category, with trip days before / after on their own', () => {
+    const report = buildWalletReport(
+      [
+        expense(1, { created_at: '2026-05-01T00:00:00Z', category: 'accommodation', amount: 30000, note: '<hotel>' }),
+        expense(2, { amount: 1200 }),
+        expense(3, { amount: 800, category: 'transport' }),
+        expense(4, { amount: 600 }),
+        expense(5, { amount: 50, currency: 'HKD', created_at: '2026-05-17T03:00:00Z' }),
+        expense(6, { amount: 500, kind: 'settlement', paid_to: 'ben' }),
+      ],
+      [],
+      [],
+      [],
+      { ...ctx, totalDays: 3 }
+    )
+    expect(report.shared.total).toBe(32600)
+    expect(report.shared.missing).toBe(1)
+    expect(report.shared.days.map(d => [d.label, d.total])).toEqual([
+      ['行前', 30000],
+      ['Day 1（5/16）', 2600],
+      ['Day 2（5/17）', 0],
+    ])
+    expect(report.shared.days[1].categories.map(c => [c.category, c.total, c.items.length])).toEqual([
+      ['food', 1800, 2],
+      ['transport', 800, 1],
+    ])
+    expect(report.personal.days).toEqual([])
+    const html = walletReportHtml(report, '東京之旅')
+    expect(html).toContain('&lt;hotel&gt;')
+    expect(html).not.toContain('我的個人支出')
+  })
+
+  it('lists personal expenses in their own section, apart from the shared totals', () => {
+    const report = buildWalletReport(
+      [expense(1, { amount: 1200 })],
+      [
+        expense(2, { type: 'personal', amount: 3000, category: 'shopping', note: '手帕' }),
+        expense(3, { type: 'personal', amount: 5000, kind: 'withdrawal' }),
+      ],
+      [],
+      [],
+      { ...ctx, totalDays: 3 }
+    )
+    expect(report.shared.total).toBe(1200)
+    expect(report.personal.total).toBe(3000)
+    expect(report.personal.categoryTotals.map(c => [c.category, c.total])).toEqual([['shopping', 3000]])
+    const html = walletReportHtml(report, '東京之旅')
+    expect(html).toContain('我的個人支出')
+    expect(html.slice(html.indexOf('我的個人支出'))).toContain('手帕')
+  })
+})
+
+describe('previewExpenseImport', () => {
+  const header = 'id,date,type,kind,username,category,note,amount,currency,fx_rate,home_currency,paid_to,split'
+
+  it('reads the exported columns back, skipping expenses already in the wallet', () => {
+    const preview = previewExpenseImport(
+      [
+        header,
+        '1,2026-05-16T03:00:00Z,shared,expense,amy,food,拉麵,1000,JPY,,,,',
+        '2,2026-05-16T05:00:00Z,shared,expense,amy,餐飲,奶茶,50,HKD,19.5,JPY,,exact:amy=30;ben=20',
+        ',2026-05-17T01:00:00Z,shared,settlement,ben,other,,975,JPY,,,amy,',
+      ].join('\n'),
+      importCtx
+    )
+    expect(preview.errors).toEqual([])
+    expect(preview.duplicates).toEqual([2])
+    expect(preview.rows.map(r => r.line)).toEqual([3, 4])
+    expect(preview.rows[0].expense).toMatchObject({
+      type: 'shared',
+      username: 'amy',
+      display_name: 'Amy',
+      category: 'food',
+      amount: 50,
+      currency: 'HKD',
+      fx_rates: { JPY: 19.5 },
+      split: { mode: 'exact', participants: [{ username: 'amy', value: 30 }, { username: 'ben', value: 20 }] },
+      created_at: '2026-05-16T05:00:00.000Z',
+    })
+    expect(preview.rows[1].expense).toMatchObject({ kind: 'settlement', paid_to: 'amy' })
+  })
+
+  it('reports each bad row with its line number', () => {
+    const preview = previewExpenseImport(
+      [
+        header,
+        ',,shared,,zoe,food,,100,,,,,',
+        ',,personal,,ben,food,,100,,,,,',
+        ',,shared,,amy,snacks,,100,,,,,',
+        ',,shared,,amy,food,,-5,,,,,',
+        ',someday,shared,,amy,food,,100,,,,,',
+        ',,shared,,amy,food,,100,XXX,,,,',
+        ',,shared,,amy,food,,100,,,,,exact:amy=30;ben=20',
+        ',,shared,settlement,amy,other,,100,,,,,',
+      ].join('\n'),
+      importCtx
+    )
+    expect(preview.rows).toEqual([])
+    expect(preview.errors.map(e => e.line)).toEqual([2, 3, 4, 5, 6, 7, 8, 9])
+    expect(preview.errors[0].message).toBe('未知的使用者：zoe')
+    expect(preview.errors[1].message).toBe('沒有權限匯入 Ben 的個人支出')
+  })
+
+  it('reads payment methods, pre-paid flags, IC card top-ups and cash withdrawals', () => {
+    const preview = previewExpenseImport(
+      [
+        'type,kind,username,category,amount,currency,payment_method,prepaid',
+        'shared,,amy,accommodation,42000,JPY,💳 信用卡,true',
+        'shared,withdrawal,amy,other,30000,JPY,,',
+        'shared,,amy,food,800,JPY,cash,no',
+        'personal,withdrawal,amy,other,10000,JPY,,',
+        'shared,,amy,food,800,JPY,支付寶,',
+        'shared,,amy,food,800,JPY,,maybe',
+        'personal,ic_topup,amy,transport,3000,JPY,cash,',
+        'shared,ic_topup,amy,transport,3000,JPY,cash,',
+        'personal,ic_topup,amy,transport,100,USD,cash,',
+      ].join('\n'),
+      importCtx
+    )
+    expect(preview.rows.map(r => r.expense)).toMatchObject([
+      { payment_method: 'card', prepaid: true },
+      { kind: 'withdrawal' },
+      { payment_method: 'cash' },
+      { kind: 'ic_topup', payment_method: 'cash' },
+    ])
+    expect(preview.rows[2].expense).not.toHaveProperty('prepaid')
+    expect(preview.errors.map(e => e.message)).toEqual([
+      '提款只能記在共同錢包',
+      '未知的付款方式：支付寶',
+      'prepaid 需為 true 或 false：maybe',
+      'IC 卡儲值只能記在個人錢包',
+      'IC 卡儲值需為 JPY：USD',
+    ])
+  })
+
+  it('needs the type, username, category and amount columns', () => {
+    expect(previewExpenseImport('note,amount\n拉麵,1000', importCtx).errors).toEqual([
+      { line: 1, message: '缺少欄位：type, username, category' },
+    ])
+  })
+})
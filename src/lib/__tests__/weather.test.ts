@@ -0,0 +1,217 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import {
+  climateWeatherCode,
+  describeWeatherCode,
+  formatDailyWeather,
+  getDailyWeather,
+  getTripDayWeather,
+  openMeteoProvider,
+  setWeatherProvider,
+  type DailyWeather,
+  type WeatherLocation,
+  type WeatherProvider,
+} from '../weather'
+
+const TOKYO: WeatherLocation = { lat: 35.6812, lng: 139.7671, name: '東京' }
+const TZ = 'Asia/Tokyo'
+// 2026-05-10 09:00 in Tokyo
+const NOW = new Date('2026-05-10T00:00:00Z')
+
+function fixtureProvider(forecastDays = 3) {
+  const day = (date: string, source: DailyWeather['source']): DailyWeather => ({
+    date,
+    code: source === 'forecast' ? 61 : 1,
+    tempMax: 24,
+    tempMin: 16,
+    precipitationChance: source === 'forecast' ? 80 : 20,
+    source,
+  })
+  const provider: WeatherProvider = {
+    name: 'fixture',
+    forecastDays,
+    forecast: vi.fn(async (_location: WeatherLocation, dates: string[]) => dates.map(date => day(date, 'forecast'))),
+    climate: vi.fn(async (_location: WeatherLocation, dates: string[]) => dates.map(date => day(date, 'climate'))),
+  }
+  return provider
+}
+
+beforeEach(() => {
+  vi.spyOn(console, 'error').mockImplementation(() => {})
+})
+
+afterEach(() => {
+  setWeatherProvider(null)
+  vi.unstubAllGlobals()
+})
+
+describe('weather codes', () => {
+  it('maps WMO codes to an icon and label', () => {
+    expect(describeWeatherCode(0)).toEqual({ icon: '☀️', label: '晴' })
+    expect(describeWeatherCode(63)).toEqual({ icon: '🌧️', label: '雨' })
+    expect(describeWeatherCode(95)).toEqual({ icon: '⛈️', label: '雷雨' })
+    expect(describeWeatherCode(null).label).toBe('無資料')
+  })
+
+  it('derives a code for climate normals from rain chance', () => {
+    expect(climateWeatherCode(10, 25)).toBe(1)
+    expect(climateWeatherCode(30, 25)).toBe(2)
+    expect(climateWeatherCode(60, 25)).toBe(61)
+    expect(climateWeatherCode(60, 0)).toBe(71)
+    expect(climateWeatherCode(null, 25)).toBeNull()
+  })
+
+  it('formats a day for tooltips', () => {
+    expect(
+      formatDailyWeather({ date: '2026-05-10', code: 2, tempMax: 23.6, tempMin: 15.2, precipitationChance: 30, source: 'climate' })
+    ).toBe('⛅ 多雲 24°/15° 降雨 30%（氣候平均）')
+  })
+})
+
+describe('getDailyWeather', () => {
+  it('uses the forecast inside its range and climate normals beyond it', async () => {
+    const provider = fixtureProvider(3)
+    setWeatherProvider(provider)
+
+    const days = await getDailyWeather(TOKYO, ['2026-05-10', '2026-05-12', '2026-05-13', '2026-06-01'], TZ, NOW)
+
+    expect(days.map(d => [d.date, d.source])).toEqual([
+      ['2026-05-10', 'forecast'],
+      ['2026-05-12', 'forecast'],
+      ['2026-05-13', 'climate'],
+      ['2026-06-01', 'climate'],
+    ])
+    expect(provider.forecast).toHaveBeenCalledWith(TOKYO, ['2026-05-10', '2026-05-12'], TZ)
+    expect(provider.climate).toHaveBeenCalledWith(TOKYO, ['2026-05-13', '2026-06-01'], TZ)
+  })
+
+  it('falls back to climate for days the forecast left out', async () => {
+    const provider = fixtureProvider(16)
+    provider.forecast = vi.fn(async () => [])
+    setWeatherProvider(provider)
+
+    const [day] = await getDailyWeather(TOKYO, ['2026-05-11'], TZ, NOW)
+    expect(day.source).toBe('climate')
+  })
+
+  it('caches days per rounded location until they expire', async () => {
+    const provider = fixtureProvider(16)
+    setWeatherProvider(provider)
+
+    await getDailyWeather(TOKYO, ['2026-05-11'], TZ, NOW)
+    await getDailyWeather({ lat: 35.6801, lng: 139.7699 }, ['2026-05-11'], TZ, new Date(NOW.getTime() + 60 * 60 * 1000))
+    expect(provider.forecast).toHaveBeenCalledTimes(1)
+
+    await getDailyWeather(TOKYO, ['2026-05-11'], TZ, new Date(NOW.getTime() + 4 * 60 * 60 * 1000))
+    expect(provider.forecast).toHaveBeenCalledTimes(2)
+  })
+
+  it('falls back to climate normals when the forecast request rejects', async () => {
+    const provider = fixtureProvider(16)
+    provider.forecast = vi.fn(async () => {
+      throw new Error('HTTP 502')
+    })
+    setWeatherProvider(provider)
+
+    const days = await getDailyWeather(TOKYO, ['2026-05-11', '2026-06-01'], TZ, NOW)
+    expect(days.map(d => [d.date, d.source])).toEqual([
+      ['2026-05-11', 'climate'],
+      ['2026-06-01', 'climate'],
+    ])
+    expect(provider.climate).toHaveBeenCalledWith(TOKYO, ['2026-05-11', '2026-06-01'], TZ)
+  })
+
+  it('keeps showing stale days when the provider fails', async () => {
+    const provider = fixtureProvider(16)
+    setWeatherProvider(provider)
+    await getDailyWeather(TOKYO, ['2026-05-11'], TZ, NOW)
+
+    const offline = async () => {
+      throw new Error('offline')
+    }
+    provider.forecast = vi.fn(offline)
+    provider.climate = vi.fn(offline)
+    const later = new Date(NOW.getTime() + 4 * 60 * 60 * 1000)
+    const days = await getDailyWeather(TOKYO, ['2026-05-11', '2026-05-12'], TZ, later)
+    expect(days.map(d => [d.date, d.source])).toEqual([['2026-05-11', 'forecast']])
+    // The expired forecast beats climate normals
+    expect(provider.climate).toHaveBeenCalledWith(TOKYO, ['2026-05-12'], TZ)
+  })
+})
+
+describe('getTripDayWeather', () => {
+  it('requests each place once and returns weather per day and place', async () => {
+    const provider = fixtureProvider(16)
+    setWeatherProvider(provider)
+    const home = { lat: 35.69, lng: 139.7, name: '住宿' }
+    const asakusa = { lat: 35.7148, lng: 139.7967, name: '淺草寺' }
+
+    const weather = await getTripDayWeather(
+      [
+        { day: 1, date: '2026-05-11', places: [asakusa, home] },
+        { day: 2, date: '2026-05-12', places: [home, { ...home, name: '重複' }] },
+      ],
+      TZ,
+      NOW
+    )
+
+    expect(provider.forecast).toHaveBeenCalledTimes(2)
+    expect(weather[1].map(w => w.place)).toEqual(['淺草寺', '住宿'])
+    expect(weather[2].map(w => [w.place, w.date])).toEqual([['住宿', '2026-05-12']])
+  })
+})
+
+describe('openMeteoProvider', () => {
+  it('parses the daily forecast', async () => {
+    const fetchMock = vi.fn(async (_url: string) =>
+      Response.json({
+        daily: {
+          time: ['2026-05-10', '2026-05-11', '2026-05-12'],
+          weather_code: [3, 61, 0],
+          temperature_2m_max: [22.1, 19.4, 25],
+          temperature_2m_min: [14, 13.2, 15.8],
+          precipitation_probability_max: [20, 85, 0],
+        },
+      })
+    )
+    vi.stubGlobal('fetch', fetchMock)
+
+    const days = await openMeteoProvider.forecast(TOKYO, ['2026-05-12', '2026-05-10'], TZ)
+
+    const url = new URL(String(fetchMock.mock.calls[0][0]))
+    expect(url.origin + url.pathname).toBe('https://api.open-meteo.com/v1/forecast')
+    expect(url.searchParams.get('start_date')).toBe('2026-05-10')
+    expect(url.searchParams.get('end_date')).toBe('2026-05-12')
+    expect(url.searchParams.get('timezone')).toBe(TZ)
+    expect(days).toEqual([
+      { date: '2026-05-10', code: 3, tempMax: 22.1, tempMin: 14, precipitationChance: 20, source: 'forecast' },
+      { date: '2026-05-12', code: 0, tempMax: 25, tempMin: 15.8, precipitationChance: 0, source: 'forecast' },
+    ])
+  })
+
+  it('averages the same calendar day over past years for climate normals', async () => {
+    const fetchMock = vi.fn(async (_url: string) =>
+      Response.json({
+        daily: {
+          time: ['2021-07-01', '2021-07-02', '2022-07-01', '2023-07-01', '2024-07-01', '2025-07-01'],
+          temperature_2m_max: [28, 40, 30, 29, 31, 32],
+          temperature_2m_min: [21, 30, 22, 23, 22, 22],
+          precipitation_sum: [0, 50, 5.2, 0.4, 12, 0],
+        },
+      })
+    )
+    vi.stubGlobal('fetch', fetchMock)
+
+    const [day] = await openMeteoProvider.climate(TOKYO, ['2026-07-01'], TZ)
+
+    const url = new URL(String(fetchMock.mock.calls[0][0]))
+    expect(url.origin + url.pathname).toBe('https://archive-api.open-meteo.com/v1/archive')
+    expect(url.searchParams.get('start_date')).toBe('2021-07-01')
+    expect(url.searchParams.get('end_date')).toBe('2025-07-01')
+    expect(day).toEqual({ date: '2026-07-01', code: 2, tempMax: 30, tempMin: 22, precipitationChance: 40, source: 'climate' })
+  })
+
+  it('reports HTTP errors', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('', { status: 429 })))
+    await expect(openMeteoProvider.forecast(TOKYO, ['2026-05-10'], TZ)).rejects.toThrow('Open-Meteo 429')
+  })
+})
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest'
+import type { WishlistItemDB } from '../supabase'
+import {
+  isWishlistDbItemLikedByUser,
+  isWishlistLocalItemLikedByUser,
+  normalizedEquals,
+  parseFavoritedBy,
+  wishlistLocalItemHasLikeSignal,
+} from '../wishlistLikeUtils'
+
+function dbItem(favorited_by: unknown, is_favorite = false): WishlistItemDB {
+  return { id: 1, category: 'food', name: '一蘭', favorited_by, is_favorite } as unknown as WishlistItemDB
+}
+
+describe('parseFavoritedBy', () => {
+  it('accepts a jsonb array or its JSON string', () => {
+    expect(parseFavoritedBy(['admin', 'girl'])).toEqual(['admin', 'girl'])
+    expect(parseFavoritedBy('["admin"]')).toEqual(['admin'])
+  })
+
+  it('drops non-strings and blank names', () => {
+    expect(parseFavoritedBy(['admin', '', '  ', 3, null])).toEqual(['admin'])
+  })
+
+  it('returns [] for anything else', () => {
+    expect(parseFavoritedBy(null)).toEqual([])
+    expect(parseFavoritedBy('not json')).toEqual([])
+    expect(parseFavoritedBy('{"admin":true}')).toEqual([])
+  })
+})
+
+describe('likes', () => {
+  it('compares usernames case-insensitively', () => {
+    expect(normalizedEquals(' Admin ', 'admin')).toBe(true)
+    expect(isWishlistDbItemLikedByUser(dbItem(['Girl']), 'girl')).toBe(true)
+    expect(isWishlistLocalItemLikedByUser({ favoritedBy: ['GIRL'] }, 'girl')).toBe(true)
+  })
+
+  it('is not liked by other users', () => {
+    expect(isWishlistDbItemLikedByUser(dbItem(['admin']), 'girl')).toBe(false)
+    expect(isWishlistLocalItemLikedByUser({ favoritedBy: ['admin'] }, 'girl')).toBe(false)
+  })
+
+  it('counts legacy is_favorite rows only when nobody is listed', () => {
+    expect(isWishlistDbItemLikedByUser(dbItem([], true), 'girl')).toBe(true)
+    expect(isWishlistDbItemLikedByUser(dbItem(['admin'], true), 'girl')).toBe(false)
+    expect(isWishlistLocalItemLikedByUser({ isFavorite: true }, 'girl')).toBe(true)
+  })
+
+  it('is never liked without a username', () => {
+    expect(isWishlistDbItemLikedByUser(dbItem([], true), null)).toBe(false)
+    expect(isWishlistLocalItemLikedByUser({ isFavorite: true }, '  ')).toBe(false)
+  })
+
+  it('shows the like bubble for any like signal', () => {
+    expect(wishlistLocalItemHasLikeSignal({ favoritedBy: ['admin'] })).toBe(true)
+    expect(wishlistLocalItemHasLikeSignal({ isFavorite: true })).toBe(true)
+    expect(wishlistLocalItemHasLikeSignal({})).toBe(false)
+  })
+})
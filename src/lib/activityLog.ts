@@ -0,0 +1,137 @@
+import { extractPlainTextFromPlateJson, isLikelyPlateJsonString } from './plateRich'
+
+/**
+ * 活動紀錄：types and pure helpers for the activity_log table. Rows are written by the mutating
+ * functions in supabase.ts (logActivity there); this module must not import supabase.ts.
+ */
+
+export type ActivityEntityType =
+  | 'trip'
+  | 'wishlist_item'
+  | 'expense'
+  | 'settings'
+  | 'trip_plan'
+  | 'wallet_settings'
+  | 'user'
+  | 'destination'
+
+export type ActivityAction = 'create' | 'update' | 'delete' | 'restore' | 'purge'
+
+export type ActivityLogDB = {
+  id: number
+  actor_username: string | null
+  actor_display_name: string | null
+  entity_type: ActivityEntityType
+  /** Row key as text (numeric id, username or destination id) */
+  entity_id: string
+  /** Title / name at the time of the change, for the feed */
+  entity_label: string | null
+  action: ActivityAction
+  /** create/restore: null; update: old values of the changed fields; delete/purge: the whole row */
+  before: Record<string, unknown> | null
+  /** create/restore: the whole row; update: new values of the changed fields; delete/purge: null */
+  after: Record<string, unknown> | null
+  /** Set when this change was made by "revert" on another entry */
+  reverts_id: number | null
+  created_at: string
+}
+
+export type ActivityLogFilters = {
+  actor?: string | null
+  entityType?: ActivityEntityType | null
+  /** YYYY-MM-DD in the viewer's time zone */
+  day?: string | null
+}
+
+export const ACTIVITY_ENTITY_LABELS: Record<ActivityEntityType, string> = {
+  trip: '行程',
+  wishlist_item: '美食清單',
+  expense: '支出',
+  settings: '網站設定',
+  trip_plan: '旅程',
+  wallet_settings: '錢包設定',
+  user: '用戶',
+  destination: '目的地',
+}
+
+export const ACTIVITY_ACTION_LABELS: Record<ActivityAction, string> = {
+  create: '新增',
+  update: '修改',
+  delete: '刪除',
+  restore: '還原',
+  purge: '永久刪除',
+}
+
+// Bookkeeping columns that change on every write
+const IGNORED_FIELDS = new Set(['updated_at', 'created_at'])
+// Never copied into the log
+const SECRET_FIELDS = new Set(['password'])
+
+/** Row without secrets (password hashes) */
+export function redactActivityRow(row: Record<string, unknown>): Record<string, unknown> {
+  const copy: Record<string, unknown> = {}
+  for (const [key, value] of Object.entries(row)) {
+    if (!SECRET_FIELDS.has(key)) copy[key] = value
+  }
+  return copy
+}
+
+/** Old / new values of the fields that differ; null when nothing meaningful changed */
+export function diffActivityFields(
+  before: Record<string, unknown>,
+  after: Record<string, unknown>
+): { before: Record<string, unknown>; after: Record<string, unknown> } | null {
+  const oldValues: Record<string, unknown> = {}
+  const newValues: Record<string, unknown> = {}
+  const keys = Object.keys(before).concat(Object.keys(after).filter(key => !(key in before)))
+  for (const key of keys) {
+    if (IGNORED_FIELDS.has(key) || SECRET_FIELDS.has(key) || !(key in after)) continue
+    if (JSON.stringify(before[key] ?? null) === JSON.stringify(after[key] ?? null)) continue
+    oldValues[key] = before[key] ?? null
+    newValues[key] = after[key] ?? null
+  }
+  return Object.keys(newValues).length > 0 ? { before: oldValues, after: newValues } : null
+}
+
+/** Human name of a row: trip title, wishlist/destination name, expense note, user display name */
+export function activityEntityLabel(row: Record<string, unknown> | null | undefined): string | null {
+  if (!row) return null
+  for (const key of ['title', 'name', 'note', 'display_name', 'username']) {
+    const value = row[key]
+    if (typeof value === 'string' && value.trim()) return formatActivityValue(value, 40)
+  }
+  return null
+}
+
+/** One-line display of a logged value (Plate JSON as plain text, objects as JSON) */
+export function formatActivityValue(value: unknown, maxLength = 80): string {
+  if (value === null || value === undefined || value === '') return '（空白）'
+  let text: string
+  if (typeof value === 'string') {
+    text = isLikelyPlateJsonString(value) ? extractPlainTextFromPlateJson(value) : value
+  } else if (typeof value === 'object') {
+    text = JSON.stringify(value)
+  } else {
+    text = String(value)
+  }
+  text = text.replace(/\s+/g, ' ').trim()
+  return text.length > maxLength ? `${text.slice(0, maxLength)}…` : text
+}
+
+/**
+ * Whether "revert this change" can undo an entry. Site/wallet settings have no create/delete,
+ * a deleted trip plan took its trips with it (cascade), and purges are gone for good.
+ */
+export function isActivityRevertable(entry: Pick<ActivityLogDB, 'action' | 'entity_type' | 'before'>): boolean {
+  switch (entry.action) {
+    case 'update':
+      return !!entry.before && Object.keys(entry.before).length > 0
+    case 'create':
+    case 'restore':
+      return entry.entity_type !== 'settings' && entry.entity_type !== 'wallet_settings'
+    case 'delete':
+      return entry.entity_type !== 'trip_plan' && !!entry.before
+    case 'purge':
+      return false
+  }
+}
@@ -1,17 +1,21 @@
 import Cookies from 'js-cookie'
-import { getSupabaseUsers, saveSupabaseUser, deleteSupabaseUser, type UserDB } from './supabase'
+import { getSupabaseUsers, saveSupabaseUser, deleteSupabaseUser, type UserDB, type UserProfileDB } from './supabase'
+import { hashPassword, isPasswordHash } from './password'
+import { uploadImageDataUrl } from './imageStorage'
+import { clearOfflineData } from './offlineOutbox'
+import { USER_INFO_COOKIE_NAME as USER_COOKIE_NAME } from './session'
+import { getSessionUserInfo, normalizeRole, type Role } from './permissions'
 
-const AUTH_COOKIE_NAME = 'admin_auth_token'
-const USER_COOKIE_NAME = 'user_info'
 const USERS_STORAGE_KEY = 'japan_travel_users'
 const USERS_CACHE_KEY = 'japan_travel_users_cache_time'
 const CACHE_DURATION = 5 * 60 * 1000 // 5 minutes cache
 
-// User roles
-export type UserRole = 'admin' | 'user'
+// User roles (capabilities per role live in ./permissions)
+export type UserRole = Role
 
 export type User = {
   username: string
+  /** Only set when creating a user or changing a password; cached users always carry '' (hashes never leave Supabase) */
   password: string
   role: UserRole
   displayName: string
@@ -20,16 +24,16 @@ export type User = {
 
 // Default users
 const DEFAULT_USERS: User[] = [
-  { username: 'admin', password: 'admin', role: 'admin', displayName: 'Admin', avatarUrl: '' },
-  { username: 'girl', password: 'girl', role: 'user', displayName: 'Girl', avatarUrl: '' },
+  { username: 'admin', password: '', role: 'admin', displayName: 'Admin', avatarUrl: '' },
+  { username: 'girl', password: '', role: 'planner', displayName: 'Girl', avatarUrl: '' },
 ]
 
 // Convert from Supabase format to local format
-function fromSupabaseFormat(db: UserDB): User {
+function fromSupabaseFormat(db: UserProfileDB): User {
   return {
     username: db.username,
-    password: db.password,
-    role: db.role as UserRole,
+    password: '',
+    role: normalizeRole(db.role),
     displayName: db.display_name || db.username,
     avatarUrl: db.avatar_url || '',
   }
@@ -46,6 +50,21 @@ function toSupabaseFormat(user: User): Omit<UserDB, 'id' | 'created_at'> {
   }
 }
 
+// Hash a newly entered password before it is sent to Supabase ('' keeps the stored one),
+// and move a cropped (data URL) avatar to image storage
+async function toSupabaseFormatHashed(user: User): Promise<Omit<UserDB, 'id' | 'created_at'>> {
+  const db = toSupabaseFormat(user)
+  if (db.password && !isPasswordHash(db.password)) {
+    db.password = await hashPassword(db.password)
+  }
+  if (db.avatar_url) {
+    const { url, error } = await uploadImageDataUrl(db.avatar_url, 'avatars')
+    if (error) throw new Error(error)
+    db.avatar_url = url
+  }
+  return db
+}
+
 // Get users from localStorage cache
 function getLocalUsers(): User[] {
   if (typeof window === 'undefined') return DEFAULT_USERS
@@ -53,7 +72,8 @@ function getLocalUsers(): User[] {
   const saved = localStorage.getItem(USERS_STORAGE_KEY)
   if (saved) {
     try {
-      return JSON.parse(saved)
+      // Older caches stored plaintext passwords; never hand them back out
+      return (JSON.parse(saved) as User[]).map(u => ({ ...u, password: '', role: normalizeRole(u.role) }))
     } catch {
       return DEFAULT_USERS
     }
@@ -119,11 +139,12 @@ export function saveUsers(users: User[]): void {
 export function updateUser(user: User): void {
   const users = getLocalUsers()
   const existingIndex = users.findIndex(u => u.username === user.username)
+  const cached = { ...user, password: '' }
   
   if (existingIndex >= 0) {
-    users[existingIndex] = user
+    users[existingIndex] = cached
   } else {
-    users.push(user)
+    users.push(cached)
   }
   
   saveLocalUsers(users)
@@ -137,7 +158,7 @@ export async function updateUserAsync(user: User, originalUsername?: string): Pr
   if (originalUsername && originalUsername !== user.username) {
     const users = getLocalUsers()
     const filtered = users.filter(u => u.username !== originalUsername)
-    filtered.push(user)
+    filtered.push({ ...user, password: '' })
     saveLocalUsers(filtered)
   } else {
     updateUser(user)
@@ -145,7 +166,10 @@ export async function updateUserAsync(user: User, originalUsername?: string): Pr
   
   // Then sync to Supabase
   try {
-    const dbFormat = toSupabaseFormat(user)
+    const dbFormat = await toSupabaseFormatHashed(user)
+    if ((dbFormat.avatar_url || '') !== (user.avatarUrl || '')) {
+      updateUser({ ...user, avatarUrl: dbFormat.avatar_url || '' })
+    }
     const result = await saveSupabaseUser(dbFormat, originalUsername)
     
     if (result.error) {
@@ -189,65 +213,42 @@ export async function deleteUserAsync(username: string): Promise<{ success: bool
   }
 }
 
-// Login function - returns user info if successful
+// Login - the server verifies the password hash and sets the signed session cookie
 // Username comparison is case-insensitive, password is case-sensitive
-export function login(username: string, password: string): User | null {
-  const users = getLocalUsers()
-  const user = users.find(u => 
-    u.username.toLowerCase() === username.toLowerCase() && 
-    u.password === password
-  )
-  
-  if (user) {
-    // Generate token based on role
-    const token = user.role === 'admin' 
-      ? 'japan_travel_admin_authenticated_2024'
-      : `japan_travel_user_${user.username}_2024`
-    
-    const setOpts = {
-      expires: 1,
-      path: '/',
-      secure: process.env.NODE_ENV === 'production',
-      sameSite: 'strict' as const,
+export async function loginAsync(username: string, password: string): Promise<User | null> {
+  try {
+    const res = await fetch('/api/auth/login', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ username, password }),
+    })
+    if (!res.ok) return null
+
+    const { user } = (await res.json()) as {
+      user: { username: string; role: string; displayName: string; avatarUrl?: string }
     }
-    Cookies.set(AUTH_COOKIE_NAME, token, setOpts)
-
-    Cookies.set(
-      USER_COOKIE_NAME,
-      JSON.stringify({
-        username: user.username,
-        role: user.role,
-        displayName: user.displayName,
-        avatarUrl: user.avatarUrl || '',
-      }),
-      setOpts
-    )
-    
-    return user
+    // Refresh the users cache in the background (avatars, display names)
+    void getUsersAsync()
+    return { ...user, role: normalizeRole(user.role), password: '' }
+  } catch (err) {
+    console.error('Login request failed:', err)
+    return null
   }
-  
-  return null
-}
-
-// Async login - fetches fresh user data from Supabase first
-export async function loginAsync(username: string, password: string): Promise<User | null> {
-  // Fetch fresh users from Supabase
-  await getUsersAsync()
-  
-  // Then do regular login
-  return login(username, password)
 }
 
-const cookieBaseOpts = { path: '/' as const, sameSite: 'strict' as const }
-
-export function logout(): void {
-  // Must match path (and secure in prod) used in login(), or the browser keeps the session cookie
-  Cookies.remove(AUTH_COOKIE_NAME, {
-    ...cookieBaseOpts,
-    secure: process.env.NODE_ENV === 'production',
-  })
+export async function logout(): Promise<void> {
+  // Offline snapshots and queued writes belong to this user (needs the session, so before it ends)
+  await clearOfflineData()
+  // The session cookie is httpOnly; the server clears it (and user_info)
+  try {
+    await fetch('/api/auth/logout', { method: 'POST' })
+  } catch (err) {
+    console.error('Logout request failed:', err)
+  }
+  // Must match path used by the login route, or the browser keeps the cookie
   Cookies.remove(USER_COOKIE_NAME, {
-    ...cookieBaseOpts,
+    path: '/',
+    sameSite: 'strict',
     secure: process.env.NODE_ENV === 'production',
   })
   if (typeof window !== 'undefined') {
@@ -255,33 +256,22 @@ export function logout(): void {
   }
 }
 
+// Client-side auth checks read the user_info cookie written next to the signed session.
+// They only drive UI; middleware verifies the session signature for protected routes.
+
 // Check if any user is authenticated
 export function isAuthenticated(): boolean {
-  if (typeof window === 'undefined') return false
-  const token = Cookies.get(AUTH_COOKIE_NAME)
-  return !!token && token.startsWith('japan_travel_')
+  return getCurrentUser() !== null
 }
 
 // Check if current user is admin
 export function isAdmin(): boolean {
-  if (typeof window === 'undefined') return false
-  const token = Cookies.get(AUTH_COOKIE_NAME)
-  return token === 'japan_travel_admin_authenticated_2024'
+  return getCurrentUser()?.role === 'admin'
 }
 
 // Get current user info
 export function getCurrentUser(): { username: string; role: UserRole; displayName: string; avatarUrl?: string } | null {
-  if (typeof window === 'undefined') return null
-  
-  const userInfo = Cookies.get(USER_COOKIE_NAME)
-  if (userInfo) {
-    try {
-      return JSON.parse(userInfo)
-    } catch {
-      return null
-    }
-  }
-  return null
+  return getSessionUserInfo()
 }
 
 // Get user by username (synchronous)
@@ -296,32 +286,11 @@ export async function getUserByUsernameAsync(username: string): Promise<User | u
   return users.find(u => u.username === username)
 }
 
-// Check if user can edit (both admin and regular users can edit)
-export function canEdit(): boolean {
-  return isAuthenticated()
-}
-
-// Check if user can access admin page (only admin)
-export function canAccessAdmin(): boolean {
-  return isAdmin()
-}
-
-export function getAuthToken(): string | undefined {
-  return Cookies.get(AUTH_COOKIE_NAME)
-}
-
-/** Get logged-in username from auth token (source of truth). Returns null if not authenticated. */
+/** Get logged-in username. Returns null if not authenticated. */
 export function getLoggedInUsername(): string | null {
-  if (typeof window === 'undefined') return null
-  const token = Cookies.get(AUTH_COOKIE_NAME)
-  if (!token || !token.startsWith('japan_travel_')) return null
-  if (token === 'japan_travel_admin_authenticated_2024') return 'admin'
-  const match = token.match(/^japan_travel_user_(.+)_2024$/)
-  return match ? match[1] : null
+  return getCurrentUser()?.username ?? null
 }
 
-export const AUTH_TOKEN_VALUE = 'japan_travel_admin_authenticated_2024'
-
 // Force refresh users from Supabase
 export async function refreshUsers(): Promise<User[]> {
   try {
@@ -350,7 +319,7 @@ export async function migrateUsersToSupabase(): Promise<void> {
   if (dbUsers.length < localUsers.length) {
     console.log('Migrating users to Supabase...')
     for (const user of localUsers) {
-      await saveSupabaseUser(toSupabaseFormat(user))
+      await saveSupabaseUser(await toSupabaseFormatHashed(user))
     }
   }
 }
@@ -0,0 +1,140 @@
+import { getDayNumberForDate, todayInTimeZone } from './tripCalendar'
+import { safeSetItem } from './safeStorage'
+
+/**
+ * 預算：envelopes per expense category and per trip day on top of the wallet's total budget, the
+ * spending pace projected to the end of the trip, and which categories have crossed the alert
+ * threshold. Amounts are in the wallet's home currency; pure helpers apart from the alert memory.
+ */
+
+export type BudgetSettings = {
+  /** Envelope per category id; missing = no envelope */
+  categoryBudgets: Record<string, number>
+  /** Envelope for any day without its own */
+  dailyBudget: number | null
+  /** Envelope per day number, overriding dailyBudget */
+  dayBudgets: Record<string, number>
+  /** Alert when a category reaches this percentage of its envelope */
+  alertThreshold: number
+}
+
+export const DEFAULT_ALERT_THRESHOLD = 80
+
+/** One expense in the home currency, placed on its trip day */
+export type BudgetEntry = { amount: number; category: string; day: number }
+
+/** Trip day of an expense: its time at the destination; < 1 before the trip, > total days after */
+export function expenseTripDay(createdAt: string, tripStartDate: string, timeZone: string): number {
+  return getDayNumberForDate(tripStartDate, todayInTimeZone(timeZone, new Date(createdAt)))
+}
+
+/** Like expenseTripDay, but pre-paid expenses (flights, hotels, passes) count before the trip whenever they were logged */
+export function spendingDay(expense: { created_at: string; prepaid?: boolean | null }, tripStartDate: string, timeZone: string): number {
+  return expense.prepaid ? 0 : expenseTripDay(expense.created_at, tripStartDate, timeZone)
+}
+
+export function plannedForDay(settings: BudgetSettings, day: number): number | null {
+  const own = settings.dayBudgets[String(day)]
+  if (own != null && own > 0) return own
+  return settings.dailyBudget != null && settings.dailyBudget > 0 ? settings.dailyBudget : null
+}
+
+export type BudgetStatus = 'none' | 'ok' | 'warning' | 'over'
+
+function statusOf(spent: number, budget: number | null, threshold: number): BudgetStatus {
+  if (budget == null || budget <= 0) return 'none'
+  if (spent > budget) return 'over'
+  return spent >= (budget * threshold) / 100 ? 'warning' : 'ok'
+}
+
+export type CategoryBudget = { category: string; spent: number; budget: number | null; status: BudgetStatus }
+
+/** Spending per category against its envelope, in the order of `categories` */
+export function summarizeCategories(entries: BudgetEntry[], categories: string[], settings: BudgetSettings): CategoryBudget[] {
+  return categories.map(category => {
+    const spent = entries.filter(e => e.category === category).reduce((sum, e) => sum + e.amount, 0)
+    const budget = settings.categoryBudgets[category] ?? null
+    return { category, spent, budget: budget && budget > 0 ? budget : null, status: statusOf(spent, budget, settings.alertThreshold) }
+  })
+}
+
+export type DayBudget = { day: number; spent: number; planned: number | null }
+
+/** Spending of each trip day against its plan; expenses before / after the trip are left out */
+export function summarizeDays(entries: BudgetEntry[], totalDays: number, settings: BudgetSettings): DayBudget[] {
+  return Array.from({ length: totalDays }, (_, i) => {
+    const day = i + 1
+    const spent = entries.filter(e => e.day === day).reduce((sum, e) => sum + e.amount, 0)
+    return { day, spent, planned: plannedForDay(settings, day) }
+  })
+}
+
+export type SpendingProjection = {
+  spent: number
+  /** Average per trip day so far */
+  perDay: number
+  /** Expected total at the end of the trip */
+  projected: number
+  /** projected - budget: > 0 = expected overrun; null without a budget */
+  overrun: number | null
+}
+
+/**
+ * End-of-trip total at the current pace: everything spent so far plus the average of the trip days
+ * up to `today` for each day left. Spending before the trip (flights, hotels) counts once, not as
+ * pace. null before the trip starts.
+ */
+export function projectSpending(entries: BudgetEntry[], totalDays: number, today: number, budget: number | null): SpendingProjection | null {
+  if (today < 1 || totalDays < 1) return null
+  const elapsed = Math.min(today, totalDays)
+  const spent = entries.reduce((sum, e) => sum + e.amount, 0)
+  const duringTrip = entries.filter(e => e.day >= 1 && e.day <= elapsed).reduce((sum, e) => sum + e.amount, 0)
+  const perDay = duringTrip / elapsed
+  const projected = spent + perDay * (totalDays - elapsed)
+  return { spent, perDay, projected, overrun: budget != null && budget > 0 ? projected - budget : null }
+}
+
+// ============================================
+// Alerts
+// ============================================
+
+export type BudgetAlert = { category: string; status: 'warning' | 'over'; spent: number; budget: number }
+
+/** Highest status already alerted per category, with the envelope it was for */
+export type AlertMemory = Record<string, { status: 'warning' | 'over'; budget: number }>
+
+/**
+ * Categories that crossed into warning / over since last time. A category is alerted once per level
+ * and envelope: raising the envelope (or spending dropping after a delete) re-arms it.
+ */
+export function nextBudgetAlerts(summaries: CategoryBudget[], memory: AlertMemory): { alerts: BudgetAlert[]; memory: AlertMemory } {
+  const alerts: BudgetAlert[] = []
+  const next: AlertMemory = {}
+  for (const { category, spent, budget, status } of summaries) {
+    if (budget == null || (status !== 'warning' && status !== 'over')) continue
+    const seen = memory[category]
+    if (seen && seen.budget === budget && (seen.status === status || seen.status === 'over')) {
+      next[category] = seen
+      continue
+    }
+    alerts.push({ category, status, spent, budget })
+    next[category] = { status, budget }
+  }
+  return { alerts, memory: next }
+}
+
+const ALERT_MEMORY_KEY = 'budget_alerts_seen'
+
+/** `nextBudgetAlerts` remembered on this device, so each alert shows once */
+export function checkBudgetAlerts(summaries: CategoryBudget[]): BudgetAlert[] {
+  if (typeof window === 'undefined') return []
+  let memory: AlertMemory = {}
+  try {
+    memory = JSON.parse(localStorage.getItem(ALERT_MEMORY_KEY) || '{}') as AlertMemory
+  } catch {
+    // Broken memory: alert again
+  }
+  const result = nextBudgetAlerts(summaries, memory)
+  safeSetItem(ALERT_MEMORY_KEY, JSON.stringify(result.memory))
+  return result.alerts
+}
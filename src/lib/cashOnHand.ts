@@ -0,0 +1,60 @@
+import type { ExpenseDB } from './supabase'
+import { DEFAULT_CURRENCY, roundMoney } from './currency'
+
+/**
+ * 現金：what each person should still have in their pocket, per currency. Cash comes in with
+ * withdrawals (kind = 'withdrawal': ATM, money exchange) and settle-up payments received in cash,
+ * and goes out with cash expenses they paid and cash payments they made. Pre-paid expenses were
+ * paid before leaving and are not taken from the travel cash.
+ */
+
+export type CashPocket = {
+  username: string
+  currency: string
+  withdrawn: number
+  /** Cash expenses, and cash settle-up payments made */
+  spent: number
+  /** Cash settle-up payments received */
+  received: number
+  balance: number
+}
+
+type CashRow = Pick<ExpenseDB, 'username' | 'amount' | 'currency' | 'kind' | 'paid_to' | 'payment_method' | 'prepaid'>
+
+/** Pockets with any cash activity, by username then currency */
+export function cashPockets(rows: CashRow[]): CashPocket[] {
+  const pockets = new Map<string, CashPocket>()
+  const pocket = (username: string, currency: string) => {
+    const key = `${username}\u0000${currency}`
+    let found = pockets.get(key)
+    if (!found) {
+      found = { username, currency, withdrawn: 0, spent: 0, received: 0, balance: 0 }
+      pockets.set(key, found)
+    }
+    return found
+  }
+
+  for (const row of rows) {
+    const currency = row.currency || DEFAULT_CURRENCY
+    if (row.kind === 'withdrawal') {
+      pocket(row.username, currency).withdrawn += row.amount
+    } else if (row.payment_method !== 'cash' || row.prepaid) {
+      continue
+    } else if (row.kind === 'settlement') {
+      pocket(row.username, currency).spent += row.amount
+      if (row.paid_to) pocket(row.paid_to, currency).received += row.amount
+    } else {
+      pocket(row.username, currency).spent += row.amount
+    }
+  }
+
+  return Array.from(pockets.values())
+    .map(p => ({
+      ...p,
+      withdrawn: roundMoney(p.withdrawn, p.currency),
+      spent: roundMoney(p.spent, p.currency),
+      received: roundMoney(p.received, p.currency),
+      balance: roundMoney(p.withdrawn + p.received - p.spent, p.currency),
+    }))
+    .sort((a, b) => a.username.localeCompare(b.username) || a.currency.localeCompare(b.currency))
+}
@@ -17,32 +17,25 @@ function blobOrFileToDataUrl(blob: Blob): Promise<string> {
   })
 }
 
-/** 上傳前壓縮，降低寫入 Supabase 的 payload，減少 statement timeout 風險。失敗時退回原圖。 */
-export function compressImageFileToDataUrl(
-  file: File,
-  options?: ClientCompressOptions
-): Promise<string> {
-  return new Promise((resolve, reject) => {
+/** 上傳前壓縮（縮到 1920px 內）。失敗時退回原檔。 */
+export function compressImageFile(file: File | Blob, options?: ClientCompressOptions): Promise<Blob> {
+  return new Promise((resolve) => {
     new Compressor(file, {
       quality: 0.82,
       maxWidth: 1920,
       maxHeight: 1920,
       checkOrientation: true,
       ...options,
-      success: async (result) => {
-        try {
-          resolve(await blobOrFileToDataUrl(result))
-        } catch (e) {
-          reject(e)
-        }
-      },
-      error: async () => {
-        try {
-          resolve(await blobOrFileToDataUrl(file))
-        } catch (e) {
-          reject(e)
-        }
-      },
+      success: resolve,
+      error: () => resolve(file),
     })
   })
 }
+
+/** 壓縮後轉成 data URL — only for local previews (e.g. the avatar cropper); saved images go through imageStorage */
+export async function compressImageFileToDataUrl(
+  file: File,
+  options?: ClientCompressOptions
+): Promise<string> {
+  return blobOrFileToDataUrl(await compressImageFile(file, options))
+}
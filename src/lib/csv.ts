@@ -0,0 +1,81 @@
+/**
+ * CSV（RFC 4180）：quoted fields, "" for a quote inside one, CRLF between rows. Written with a BOM
+ * so Excel opens the Chinese / Japanese text as UTF-8. Text that a spreadsheet would run as a
+ * formula (starting with = + - @) gets a leading ' and is quoted; parseCsvRecords drops the '.
+ */
+
+export type CsvValue = string | number | boolean | null | undefined
+
+const FORMULA_START = /^[=+\-@]/
+
+function csvField(value: CsvValue): string {
+  if (value == null) return ''
+  if (typeof value === 'string' && FORMULA_START.test(value)) return `"'${value.replace(/"/g, '""')}"`
+  const text = String(value)
+  return /[",\r\n]/.test(text) || /^\s|\s$/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+export function toCsv(header: readonly string[], rows: CsvValue[][]): string {
+  return '\uFEFF' + [header, ...rows].map(row => row.map(csvField).join(',')).join('\r\n') + '\r\n'
+}
+
+/** Rows of fields; blank lines are dropped */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let quoted = false
+  const input = text.replace(/^\uFEFF/, '')
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i]
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        field += char
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true
+    } else if (char === ',') {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++
+      row.push(field)
+      if (row.some(f => f !== '')) rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+  row.push(field)
+  if (row.some(f => f !== '')) rows.push(row)
+  return rows
+}
+
+/** Rows as objects keyed by the header row (trimmed, lowercase); the ' toCsv puts before formulas is dropped */
+export function parseCsvRecords(text: string): { header: string[]; records: Record<string, string>[] } {
+  const [head = [], ...rows] = parseCsv(text)
+  const header = head.map(h => h.trim().toLowerCase())
+  return {
+    header,
+    records: rows.map(row => Object.fromEntries(header.map((key, i) => [key, (row[i] ?? '').trim().replace(/^'(?=[=+\-@])/, '')]))),
+  }
+}
+
+/** Let the browser save `content` as a file */
+export function downloadFile(filename: string, content: string, type: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type }))
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  document.body.appendChild(link)
+  link.click()
+  link.remove()
+  setTimeout(() => URL.revokeObjectURL(url), 1000)
+}
@@ -0,0 +1,218 @@
+import { safeSetItem } from './safeStorage'
+
+/**
+ * 多幣別：expenses keep the amount in the currency they were paid in plus a snapshot of exchange
+ * rates taken when they were entered; the wallet converts them into its home currency
+ * (wallet_settings.currency) with that snapshot.
+ *
+ * Rates come from a swappable provider (`setRateProvider`, default open.er-api.com, no API key).
+ * Manual rates from the `exchange_rates` table always win, so the wallet keeps working offline or
+ * when someone wants the rate their card actually charged.
+ */
+
+export type CurrencyInfo = { code: string; label: string; symbol: string; decimals: number }
+
+export const CURRENCIES: CurrencyInfo[] = [
+  { code: 'JPY', label: '日圓', symbol: '¥', decimals: 0 },
+  { code: 'HKD', label: '港幣', symbol: 'HK$', decimals: 2 },
+  { code: 'TWD', label: '新台幣', symbol: 'NT$', decimals: 0 },
+  { code: 'USD', label: '美元', symbol: 'US$', decimals: 2 },
+  { code: 'KRW', label: '韓圜', symbol: '₩', decimals: 0 },
+  { code: 'THB', label: '泰銖', symbol: '฿', decimals: 2 },
+  { code: 'CNY', label: '人民幣', symbol: 'CN¥', decimals: 2 },
+  { code: 'EUR', label: '歐元', symbol: '€', decimals: 2 },
+]
+
+/** Rows saved before multi-currency were all yen */
+export const DEFAULT_CURRENCY = 'JPY'
+
+export function getCurrencyInfo(code: string | null | undefined): CurrencyInfo {
+  const upper = (code || DEFAULT_CURRENCY).toUpperCase()
+  return CURRENCIES.find(c => c.code === upper) || { code: upper, label: upper, symbol: `${upper} `, decimals: 2 }
+}
+
+export function roundMoney(amount: number, currency: string): number {
+  const factor = Math.pow(10, getCurrencyInfo(currency).decimals)
+  return Math.round(amount * factor) / factor
+}
+
+/** e.g. "HK$1,234.5", "¥12,000" */
+export function formatMoney(amount: number, currency: string): string {
+  const { symbol, decimals } = getCurrencyInfo(currency)
+  const sign = amount < 0 ? '-' : ''
+  return `${sign}${symbol}${Math.abs(roundMoney(amount, currency)).toLocaleString('en-US', { maximumFractionDigits: decimals })}`
+}
+
+/** Rate for display with 4 significant digits, e.g. 19.48, 0.05135 */
+export function formatRate(rate: number): string {
+  return String(Number(rate.toPrecision(4)))
+}
+
+// ============================================
+// Rates
+// ============================================
+
+/** Units of each currency per 1 unit of the base currency (the base itself is 1) */
+export type RateTable = Record<string, number>
+
+/** Live rates of one base currency */
+export type LiveRates = { base: string; rates: RateTable; fetchedAt: number }
+
+/** Manual override: 1 `from_currency` = `rate` `to_currency` (row of the exchange_rates table) */
+export type ManualRate = { from_currency: string; to_currency: string; rate: number }
+
+export type RateSources = { manual?: ManualRate[]; live?: LiveRates | null }
+
+export type RateProvider = {
+  name: string
+  getRates(base: string): Promise<RateTable>
+}
+
+export const openExchangeRateProvider: RateProvider = {
+  name: 'open-er-api',
+  async getRates(base) {
+    const res = await fetch(`https://open.er-api.com/v6/latest/${encodeURIComponent(base)}`)
+    if (!res.ok) throw new Error(`open.er-api ${res.status}`)
+    const body = (await res.json()) as { result?: string; rates?: RateTable; 'error-type'?: string }
+    if (body.result !== 'success' || !body.rates) throw new Error(`open.er-api ${body['error-type'] || 'error'}`)
+    return body.rates
+  },
+}
+
+let provider: RateProvider = openExchangeRateProvider
+
+export function getRateProvider(): RateProvider {
+  return provider
+}
+
+/** Swap the provider (null = open.er-api.com); also forgets cached rates */
+export function setRateProvider(next: RateProvider | null): void {
+  provider = next || openExchangeRateProvider
+  liveCache.clear()
+}
+
+const CACHE_KEY = 'exchange_rates_cache'
+const LIVE_TTL_MS = 6 * 60 * 60 * 1000
+
+const liveCache = new Map<string, LiveRates>()
+let storageLoaded = false
+
+function loadStoredRates(): void {
+  if (storageLoaded || typeof window === 'undefined') return
+  storageLoaded = true
+  try {
+    const stored = JSON.parse(localStorage.getItem(CACHE_KEY) || '{}') as Record<string, LiveRates>
+    for (const [key, entry] of Object.entries(stored)) {
+      if (!liveCache.has(key)) liveCache.set(key, entry)
+    }
+  } catch {
+    // Broken cache: start over
+  }
+}
+
+/**
+ * Live rates for `base`, cached for a few hours. When the provider cannot be reached the last rates
+ * seen are returned (however old), or null.
+ */
+export async function getLiveRates(base: string, now: Date = new Date()): Promise<LiveRates | null> {
+  loadStoredRates()
+  const key = `${provider.name}:${base}`
+  const cached = liveCache.get(key)
+  if (cached && now.getTime() - cached.fetchedAt < LIVE_TTL_MS) return cached
+  try {
+    const live: LiveRates = { base, rates: await provider.getRates(base), fetchedAt: now.getTime() }
+    liveCache.set(key, live)
+    if (typeof window !== 'undefined') safeSetItem(CACHE_KEY, JSON.stringify(Object.fromEntries(liveCache)))
+    return live
+  } catch (err) {
+    console.error('Error fetching exchange rates:', err)
+    return cached || null
+  }
+}
+
+function manualRate(from: string, to: string, manual: ManualRate[]): number | null {
+  const direct = manual.find(r => r.from_currency === from && r.to_currency === to && r.rate > 0)
+  if (direct) return direct.rate
+  const inverse = manual.find(r => r.from_currency === to && r.to_currency === from && r.rate > 0)
+  return inverse ? 1 / inverse.rate : null
+}
+
+function liveRate(from: string, to: string, live: LiveRates | null | undefined): number | null {
+  if (!live) return null
+  const rateOf = (code: string) => (code === live.base ? 1 : live.rates[code])
+  const fromRate = rateOf(from)
+  const toRate = rateOf(to)
+  return fromRate > 0 && toRate > 0 ? toRate / fromRate : null
+}
+
+/**
+ * How many `to` one `from` is worth: a manual rate (either direction) first, then live rates,
+ * then two manual rates through a shared currency. null = unknown.
+ */
+export function resolveRate(from: string, to: string, { manual = [], live }: RateSources): number | null {
+  if (from === to) return 1
+  const direct = manualRate(from, to, manual) ?? liveRate(from, to, live)
+  if (direct != null) return direct
+  for (const via of CURRENCIES) {
+    if (via.code === from || via.code === to) continue
+    const first = manualRate(from, via.code, manual)
+    const second = first != null ? manualRate(via.code, to, manual) : null
+    if (first != null && second != null) return first * second
+  }
+  return null
+}
+
+/** Rates from `from` into every known currency that can be resolved, for storing with an expense */
+export function buildRateSnapshot(from: string, sources: RateSources): RateTable {
+  const snapshot: RateTable = {}
+  for (const { code } of CURRENCIES) {
+    const rate = resolveRate(from, code, sources)
+    if (rate != null) snapshot[code] = rate
+  }
+  return snapshot
+}
+
+export type RateSnapshot = { fx_rates: RateTable; fx_source: string; fx_captured_at: string }
+
+/** Snapshot for a new expense paid in `currency`: live rates when reachable, manual rates on top */
+export async function captureRateSnapshot(currency: string, manual: ManualRate[], now: Date = new Date()): Promise<RateSnapshot> {
+  const live = await getLiveRates(currency, now)
+  return {
+    fx_rates: buildRateSnapshot(currency, { manual, live }),
+    fx_source: live ? provider.name : 'manual',
+    fx_captured_at: now.toISOString(),
+  }
+}
+
+// ============================================
+// Converting expenses
+// ============================================
+
+export type MoneyInCurrency = {
+  amount: number
+  currency?: string | null
+  fx_rates?: RateTable | null
+}
+
+/**
+ * Amount in the home currency: the rate snapshotted with the expense, else the current rate from
+ * `sources` (rows from before a snapshot existed). null = no rate known.
+ */
+export function toHomeAmount(money: MoneyInCurrency, home: string, sources: RateSources = {}): number | null {
+  const currency = money.currency || DEFAULT_CURRENCY
+  if (currency === home) return money.amount
+  const rate = money.fx_rates?.[home] ?? resolveRate(currency, home, sources)
+  return rate != null ? money.amount * rate : null
+}
+
+/** Sum in the home currency; `missing` counts rows left out for lack of a rate */
+export function sumInHome(rows: MoneyInCurrency[], home: string, sources: RateSources = {}): { total: number; missing: number } {
+  let total = 0
+  let missing = 0
+  for (const row of rows) {
+    const amount = toHomeAmount(row, home, sources)
+    if (amount == null) missing++
+    else total += amount
+  }
+  return { total, missing }
+}
@@ -0,0 +1,31 @@
+/**
+ * Which destination (country) this device is planning for, stored per browser.
+ * supabase.ts scopes trips and wishlist items to it; maps, geocoding and the
+ * area picker follow it too.
+ */
+
+const DESTINATION_KEY = 'current_destination'
+export const DEFAULT_DESTINATION_ID = 'japan'
+
+// Get current destination from localStorage
+export function getCurrentDestination(): string {
+  if (typeof window === 'undefined') return DEFAULT_DESTINATION_ID
+
+  try {
+    return localStorage.getItem(DESTINATION_KEY) || DEFAULT_DESTINATION_ID
+  } catch (e) {
+    console.error('Error reading current destination:', e)
+    return DEFAULT_DESTINATION_ID
+  }
+}
+
+// Set current destination
+export function setCurrentDestination(destinationId: string): void {
+  if (typeof window === 'undefined') return
+
+  try {
+    localStorage.setItem(DESTINATION_KEY, destinationId)
+  } catch (e) {
+    console.error('Error saving current destination:', e)
+  }
+}
@@ -0,0 +1,31 @@
+/**
+ * Which trip plan this device is looking at (like `current_destination`, stored per browser).
+ * supabase.ts scopes trips / expenses / checklist_states to it; settings.ts overlays its
+ * start date, days, home location and flights onto the site settings.
+ */
+
+const CURRENT_PLAN_KEY = 'current_trip_plan'
+
+export function getCurrentPlanId(): number | null {
+  if (typeof window === 'undefined') return null
+
+  try {
+    const raw = localStorage.getItem(CURRENT_PLAN_KEY)
+    const id = raw ? parseInt(raw, 10) : NaN
+    return Number.isFinite(id) ? id : null
+  } catch (e) {
+    console.error('Error reading current trip plan:', e)
+    return null
+  }
+}
+
+export function setCurrentPlanId(id: number | null): void {
+  if (typeof window === 'undefined') return
+
+  try {
+    if (id == null) localStorage.removeItem(CURRENT_PLAN_KEY)
+    else localStorage.setItem(CURRENT_PLAN_KEY, String(id))
+  } catch (e) {
+    console.error('Error saving current trip plan:', e)
+  }
+}
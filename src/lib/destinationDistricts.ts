@@ -0,0 +1,391 @@
+// 各目的地的地區資料 — 美食清單新增/編輯、篩選與已讚好詳情依目前目的地切換
+// Region datasets register per destination (japan → Tokyo, Kyoto, Osaka, Hokkaido…);
+// admins can add custom areas to a region (region_custom_areas, see supabase.ts).
+import { TOKYO_DISTRICTS, type TokyoArea, type TokyoDistrict } from './tokyoDistricts'
+import { DEFAULT_DESTINATION_ID } from './currentDestination'
+import type { RegionCustomAreaDB } from './supabase'
+
+export type Area = TokyoArea
+export type District = TokyoDistrict
+
+/** A city / region within a destination, grouping its districts */
+export type RegionDataset = {
+  id: string
+  destinationId: string
+  label: string
+  en: string
+  icon: string
+  districts: District[]
+}
+
+/** Region for custom areas whose region is not registered (e.g. custom destinations) */
+export const CUSTOM_REGION_ID = 'custom'
+
+const KYOTO_DISTRICTS: District[] = [
+  {
+    id: 'kyoto_central',
+    label: '京都市區',
+    en: 'Central Kyoto',
+    icon: '⛩️',
+    areas: [
+      { id: 'kyoto_station', zh: '京都車站', en: 'Kyoto Station' },
+      { id: 'gion', zh: '祇園', en: 'Gion' },
+      { id: 'nishiki', zh: '錦市場', en: 'Nishiki Market' },
+      { id: 'kawaramachi', zh: '河原町', en: 'Kawaramachi' },
+      { id: 'higashiyama', zh: '東山', en: 'Higashiyama' },
+      { id: 'kiyomizu', zh: '清水寺', en: 'Kiyomizu-dera' },
+    ],
+  },
+  {
+    id: 'kyoto_outer',
+    label: '京都近郊',
+    en: 'Around Kyoto',
+    icon: '🎋',
+    areas: [
+      { id: 'arashiyama', zh: '嵐山', en: 'Arashiyama' },
+      { id: 'fushimi', zh: '伏見', en: 'Fushimi' },
+      { id: 'kinkakuji', zh: '金閣寺', en: 'Kinkaku-ji' },
+      { id: 'uji', zh: '宇治', en: 'Uji' },
+      { id: 'kibune', zh: '貴船', en: 'Kibune' },
+    ],
+  },
+]
+
+const OSAKA_DISTRICTS: District[] = [
+  {
+    id: 'osaka_minami',
+    label: '大阪ミナミ',
+    en: 'Minami',
+    icon: '🐙',
+    areas: [
+      { id: 'namba', zh: '難波', en: 'Namba' },
+      { id: 'shinsaibashi', zh: '心齋橋', en: 'Shinsaibashi' },
+      { id: 'dotonbori', zh: '道頓堀', en: 'Dotonbori' },
+      { id: 'kuromon', zh: '黑門市場', en: 'Kuromon Market' },
+      { id: 'shinsekai', zh: '新世界', en: 'Shinsekai' },
+      { id: 'tennoji', zh: '天王寺', en: 'Tennoji' },
+    ],
+  },
+  {
+    id: 'osaka_kita',
+    label: '大阪キタ',
+    en: 'Kita',
+    icon: '🏙️',
+    areas: [
+      { id: 'umeda', zh: '梅田', en: 'Umeda' },
+      { id: 'tenma', zh: '天滿', en: 'Tenma' },
+      { id: 'osaka_castle', zh: '大阪城', en: 'Osaka Castle' },
+      { id: 'usj', zh: '環球影城', en: 'Universal Studios Japan' },
+    ],
+  },
+  {
+    id: 'kansai_around',
+    label: '關西近郊',
+    en: 'Around Kansai',
+    icon: '🦌',
+    areas: [
+      { id: 'nara', zh: '奈良', en: 'Nara' },
+      { id: 'kobe', zh: '神戶', en: 'Kobe' },
+      { id: 'himeji', zh: '姬路', en: 'Himeji' },
+      { id: 'wakayama', zh: '和歌山', en: 'Wakayama' },
+      { id: 'kix_airport', zh: '關西機場', en: 'Kansai Airport' },
+    ],
+  },
+]
+
+const HOKKAIDO_DISTRICTS: District[] = [
+  {
+    id: 'sapporo_area',
+    label: '札幌・小樽',
+    en: 'Sapporo & Otaru',
+    icon: '❄️',
+    areas: [
+      { id: 'sapporo', zh: '札幌', en: 'Sapporo' },
+      { id: 'susukino', zh: '薄野', en: 'Susukino' },
+      { id: 'otaru', zh: '小樽', en: 'Otaru' },
+      { id: 'jozankei', zh: '定山溪', en: 'Jozankei' },
+      { id: 'new_chitose', zh: '新千歲機場', en: 'New Chitose Airport' },
+    ],
+  },
+  {
+    id: 'hokkaido_other',
+    label: '道央・道南・道東',
+    en: 'Around Hokkaido',
+    icon: '🦊',
+    areas: [
+      { id: 'niseko', zh: '二世古', en: 'Niseko' },
+      { id: 'hakodate', zh: '函館', en: 'Hakodate' },
+      { id: 'asahikawa', zh: '旭川', en: 'Asahikawa' },
+      { id: 'furano', zh: '富良野', en: 'Furano' },
+      { id: 'biei', zh: '美瑛', en: 'Biei' },
+      { id: 'noboribetsu', zh: '登別', en: 'Noboribetsu' },
+      { id: 'kushiro', zh: '釧路', en: 'Kushiro' },
+    ],
+  },
+]
+
+const JAPAN_OTHER_DISTRICTS: District[] = [
+  {
+    id: 'chubu',
+    label: '中部（名古屋・石川）',
+    en: 'Chubu (Nagoya, Ishikawa)',
+    icon: '🏯',
+    areas: [
+      { id: 'nagoya', zh: '名古屋', en: 'Nagoya' },
+      { id: 'kanazawa', zh: '金澤', en: 'Kanazawa' },
+      { id: 'shirakawa', zh: '白川郷', en: 'Shirakawa-go' },
+      { id: 'toyama', zh: '富山', en: 'Toyama' },
+      { id: 'niigata', zh: '新潟', en: 'Niigata' },
+    ],
+  },
+  {
+    id: 'tohoku',
+    label: '東北（仙台・青森）',
+    en: 'Tohoku (Sendai, Aomori)',
+    icon: '🌾',
+    areas: [
+      { id: 'sendai', zh: '仙台', en: 'Sendai' },
+      { id: 'aomori', zh: '青森', en: 'Aomori' },
+      { id: 'akita', zh: '秋田', en: 'Akita' },
+      { id: 'yamagata', zh: '山形', en: 'Yamagata' },
+      { id: 'fukushima', zh: '福島', en: 'Fukushima' },
+      { id: 'hachimantai', zh: '八幡平', en: 'Hachimantai' },
+    ],
+  },
+  {
+    id: 'okinawa',
+    label: '沖繩',
+    en: 'Okinawa',
+    icon: '🌺',
+    areas: [
+      { id: 'naha', zh: '那霸', en: 'Naha' },
+      { id: 'churaumi', zh: '美麗海水族館', en: 'Churaumi' },
+    ],
+  },
+]
+
+const SEOUL_DISTRICTS: District[] = [
+  {
+    id: 'seoul_north',
+    label: '江北',
+    en: 'Gangbuk',
+    icon: '🏯',
+    areas: [
+      { id: 'myeongdong', zh: '明洞', en: 'Myeongdong' },
+      { id: 'jongno', zh: '鐘路', en: 'Jongno' },
+      { id: 'insadong', zh: '仁寺洞', en: 'Insadong' },
+      { id: 'bukchon', zh: '北村', en: 'Bukchon' },
+      { id: 'dongdaemun', zh: '東大門', en: 'Dongdaemun' },
+      { id: 'hongdae', zh: '弘大', en: 'Hongdae' },
+      { id: 'itaewon', zh: '梨泰院', en: 'Itaewon' },
+      { id: 'seongsu', zh: '聖水', en: 'Seongsu' },
+    ],
+  },
+  {
+    id: 'seoul_south',
+    label: '江南',
+    en: 'Gangnam',
+    icon: '🛍️',
+    areas: [
+      { id: 'gangnam', zh: '江南', en: 'Gangnam' },
+      { id: 'sinsa', zh: '新沙洞', en: 'Sinsa' },
+      { id: 'apgujeong', zh: '狎鷗亭', en: 'Apgujeong' },
+      { id: 'jamsil', zh: '蠶室', en: 'Jamsil' },
+      { id: 'yeouido', zh: '汝矣島', en: 'Yeouido' },
+    ],
+  },
+]
+
+const KOREA_OTHER_DISTRICTS: District[] = [
+  {
+    id: 'korea_other',
+    label: '其他地區',
+    en: 'Other Regions',
+    icon: '🌊',
+    areas: [
+      { id: 'busan', zh: '釜山', en: 'Busan' },
+      { id: 'jeju', zh: '濟州', en: 'Jeju' },
+      { id: 'incheon', zh: '仁川', en: 'Incheon' },
+      { id: 'gyeongju', zh: '慶州', en: 'Gyeongju' },
+    ],
+  },
+]
+
+const BANGKOK_DISTRICTS: District[] = [
+  {
+    id: 'bangkok_central',
+    label: '曼谷市中心',
+    en: 'Central Bangkok',
+    icon: '🛕',
+    areas: [
+      { id: 'siam', zh: '暹羅', en: 'Siam' },
+      { id: 'sukhumvit', zh: '素坤逸', en: 'Sukhumvit' },
+      { id: 'silom', zh: '是隆', en: 'Silom' },
+      { id: 'chinatown_bkk', zh: '唐人街', en: 'Chinatown' },
+      { id: 'rattanakosin', zh: '拉達那哥欣島', en: 'Rattanakosin' },
+      { id: 'khaosan', zh: '考山路', en: 'Khao San' },
+      { id: 'chatuchak', zh: '洽圖洽', en: 'Chatuchak' },
+    ],
+  },
+]
+
+const THAILAND_OTHER_DISTRICTS: District[] = [
+  {
+    id: 'thailand_other',
+    label: '其他地區',
+    en: 'Other Regions',
+    icon: '🏝️',
+    areas: [
+      { id: 'chiangmai', zh: '清邁', en: 'Chiang Mai' },
+      { id: 'phuket', zh: '布吉', en: 'Phuket' },
+      { id: 'pattaya', zh: '芭堤雅', en: 'Pattaya' },
+      { id: 'ayutthaya', zh: '大城', en: 'Ayutthaya' },
+      { id: 'krabi', zh: '喀比', en: 'Krabi' },
+    ],
+  },
+]
+
+const TAIPEI_DISTRICTS: District[] = [
+  {
+    id: 'taipei',
+    label: '台北',
+    en: 'Taipei',
+    icon: '🏙️',
+    areas: [
+      { id: 'ximending', zh: '西門町', en: 'Ximending' },
+      { id: 'xinyi', zh: '信義', en: 'Xinyi' },
+      { id: 'daan', zh: '大安', en: "Da'an" },
+      { id: 'zhongshan_tpe', zh: '中山', en: 'Zhongshan' },
+      { id: 'shilin', zh: '士林', en: 'Shilin' },
+      { id: 'beitou', zh: '北投', en: 'Beitou' },
+      { id: 'tamsui', zh: '淡水', en: 'Tamsui' },
+      { id: 'jiufen', zh: '九份', en: 'Jiufen' },
+    ],
+  },
+]
+
+const TAIWAN_OTHER_DISTRICTS: District[] = [
+  {
+    id: 'taiwan_other',
+    label: '其他地區',
+    en: 'Other Regions',
+    icon: '🧋',
+    areas: [
+      { id: 'taichung', zh: '台中', en: 'Taichung' },
+      { id: 'tainan', zh: '台南', en: 'Tainan' },
+      { id: 'kaohsiung', zh: '高雄', en: 'Kaohsiung' },
+      { id: 'hualien', zh: '花蓮', en: 'Hualien' },
+      { id: 'yilan', zh: '宜蘭', en: 'Yilan' },
+    ],
+  },
+]
+
+// destinationId → regions in display order
+const REGIONS_BY_DESTINATION = new Map<string, RegionDataset[]>()
+
+/** Add (or replace, by id) a region dataset for a destination */
+export function registerRegion(region: RegionDataset): void {
+  const list = REGIONS_BY_DESTINATION.get(region.destinationId) || []
+  const idx = list.findIndex(r => r.id === region.id)
+  if (idx >= 0) list[idx] = region
+  else list.push(region)
+  REGIONS_BY_DESTINATION.set(region.destinationId, list)
+}
+
+const BUILTIN_REGIONS: RegionDataset[] = [
+  { id: 'tokyo', destinationId: 'japan', label: '東京・關東', en: 'Tokyo & Kanto', icon: '🗼', districts: TOKYO_DISTRICTS },
+  { id: 'kyoto', destinationId: 'japan', label: '京都', en: 'Kyoto', icon: '⛩️', districts: KYOTO_DISTRICTS },
+  { id: 'osaka', destinationId: 'japan', label: '大阪・關西', en: 'Osaka & Kansai', icon: '🏯', districts: OSAKA_DISTRICTS },
+  { id: 'hokkaido', destinationId: 'japan', label: '北海道', en: 'Hokkaido', icon: '❄️', districts: HOKKAIDO_DISTRICTS },
+  { id: 'japan_other', destinationId: 'japan', label: '日本其他地區', en: 'Rest of Japan', icon: '🗾', districts: JAPAN_OTHER_DISTRICTS },
+  { id: 'seoul', destinationId: 'korea', label: '首爾', en: 'Seoul', icon: '🏙️', districts: SEOUL_DISTRICTS },
+  { id: 'korea_other', destinationId: 'korea', label: '韓國其他地區', en: 'Rest of Korea', icon: '🌊', districts: KOREA_OTHER_DISTRICTS },
+  { id: 'bangkok', destinationId: 'thailand', label: '曼谷', en: 'Bangkok', icon: '🛕', districts: BANGKOK_DISTRICTS },
+  { id: 'thailand_other', destinationId: 'thailand', label: '泰國其他地區', en: 'Rest of Thailand', icon: '🏝️', districts: THAILAND_OTHER_DISTRICTS },
+  { id: 'taipei', destinationId: 'taiwan', label: '台北', en: 'Taipei', icon: '🏙️', districts: TAIPEI_DISTRICTS },
+  { id: 'taiwan_other', destinationId: 'taiwan', label: '台灣其他地區', en: 'Rest of Taiwan', icon: '🧋', districts: TAIWAN_OTHER_DISTRICTS },
+]
+BUILTIN_REGIONS.forEach(registerRegion)
+
+function customDistrictId(regionId: string): string {
+  return `${regionId}__custom`
+}
+
+/**
+ * Registered regions of a destination with admin-added custom areas merged in.
+ * Custom areas go into their district when it exists, otherwise a "自訂" district of the region;
+ * an unknown region (e.g. a custom destination) becomes a "自訂地區" region.
+ */
+export function getRegions(
+  destinationId: string = DEFAULT_DESTINATION_ID,
+  customAreas: RegionCustomAreaDB[] = []
+): RegionDataset[] {
+  const regions = (REGIONS_BY_DESTINATION.get(destinationId) || []).map(r => ({
+    ...r,
+    districts: r.districts.map(d => ({ ...d, areas: [...d.areas] })),
+  }))
+
+  for (const custom of customAreas) {
+    if (custom.destination_id !== destinationId) continue
+    let region = regions.find(r => r.id === custom.region_id)
+    if (!region) {
+      region = regions.find(r => r.id === CUSTOM_REGION_ID)
+      if (!region) {
+        region = { id: CUSTOM_REGION_ID, destinationId, label: '自訂地區', en: 'Custom', icon: '📍', districts: [] }
+        regions.push(region)
+      }
+    }
+    const districtId = custom.district_id || customDistrictId(region.id)
+    let district = region.districts.find(d => d.id === districtId)
+    if (!district) {
+      district = region.districts.find(d => d.id === customDistrictId(region!.id))
+      if (!district) {
+        district = { id: customDistrictId(region.id), label: '自訂', en: 'Custom', icon: '📍', areas: [] }
+        region.districts.push(district)
+      }
+    }
+    if (!district.areas.some(a => a.id === custom.area_id)) {
+      district.areas.push({ id: custom.area_id, zh: custom.zh, en: custom.en || custom.zh })
+    }
+  }
+
+  return regions
+}
+
+/** Districts for a destination; custom destinations without a dataset get only their custom areas */
+export function getDistricts(
+  destinationId: string = DEFAULT_DESTINATION_ID,
+  customAreas: RegionCustomAreaDB[] = []
+): District[] {
+  return getRegions(destinationId, customAreas).flatMap(r => r.districts)
+}
+
+export function getAreas(
+  destinationId: string = DEFAULT_DESTINATION_ID,
+  customAreas: RegionCustomAreaDB[] = []
+): Area[] {
+  return getDistricts(destinationId, customAreas).flatMap(d => d.areas)
+}
+
+/** Look up an area id, preferring the given destination (ids are unique across datasets) */
+export function findArea(
+  areaId: string | null | undefined,
+  destinationId?: string,
+  customAreas: RegionCustomAreaDB[] = []
+): Area | undefined {
+  if (!areaId) return undefined
+  if (destinationId) {
+    const hit = getAreas(destinationId, customAreas).find(a => a.id === areaId)
+    if (hit) return hit
+  }
+  for (const regions of Array.from(REGIONS_BY_DESTINATION.values())) {
+    for (const region of regions) {
+      for (const d of region.districts) {
+        const hit = d.areas.find(a => a.id === areaId)
+        if (hit) return hit
+      }
+    }
+  }
+  const custom = customAreas.find(c => c.area_id === areaId)
+  return custom ? { id: custom.area_id, zh: custom.zh, en: custom.en || custom.zh } : undefined
+}
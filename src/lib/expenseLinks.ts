@@ -0,0 +1,83 @@
+import { isSpending, type ExpenseCategory, type ExpenseDB, type Trip, type WishlistItemDB } from './supabase'
+import { spendingDay } from './budget'
+import { getDayNumberForDate } from './tripCalendar'
+
+/**
+ * 支出連結：an expense can point at the trip stop and / or wishlist place it was spent at
+ * (expenses.trip_id / wishlist_item_id), so the itinerary can show what each stop and day cost.
+ */
+
+/** What "log expense here" prefills in the wallet's expense form */
+export type ExpenseDraft = {
+  trip_id: number | null
+  wishlist_item_id: number | null
+  note: string
+  category?: ExpenseCategory
+}
+
+/** Wishlist categories (WishlistButton) that map onto an expense category */
+const WISHLIST_EXPENSE_CATEGORIES: Record<string, ExpenseCategory> = {
+  cafe: 'food',
+  restaurant: 'food',
+  bakery: 'food',
+  shopping: 'shopping',
+  park: 'entertainment',
+}
+
+export function expenseDraftForTrip(trip: Trip): ExpenseDraft {
+  return { trip_id: trip.id, wishlist_item_id: trip.wishlist_item_id ?? null, note: trip.title }
+}
+
+export function expenseDraftForWishlistItem(item: WishlistItemDB): ExpenseDraft {
+  return {
+    trip_id: null,
+    wishlist_item_id: item.id,
+    note: item.name,
+    ...(WISHLIST_EXPENSE_CATEGORIES[item.category] ? { category: WISHLIST_EXPENSE_CATEGORIES[item.category] } : {}),
+  }
+}
+
+/** Name of what the expense is linked to: the stop, else the wishlist place */
+export function expenseLinkLabel(
+  link: Pick<ExpenseDB, 'trip_id' | 'wishlist_item_id'>,
+  trips: Pick<Trip, 'id' | 'title'>[],
+  wishlistItems: Pick<WishlistItemDB, 'id' | 'name'>[]
+): string | null {
+  const trip = link.trip_id != null ? trips.find(t => t.id === link.trip_id) : undefined
+  if (trip) return trip.title
+  const item = link.wishlist_item_id != null ? wishlistItems.find(w => w.id === link.wishlist_item_id) : undefined
+  return item?.name ?? null
+}
+
+export type TripCostRollup = {
+  /** Per trip id: expenses linked to the stop */
+  byTrip: Record<number, number>
+  /** Per trip day: linked expenses on their stop's day, the rest on the day they were spent */
+  byDay: Record<number, number>
+  /** Expenses left out for lack of an exchange rate */
+  missing: number
+}
+
+/** What each stop and day cost, in the home currency (`amountOf` = null when it cannot be converted) */
+export function rollupTripCosts(
+  expenses: ExpenseDB[],
+  trips: Pick<Trip, 'id' | 'date'>[],
+  amountOf: (expense: ExpenseDB) => number | null,
+  tripStartDate: string,
+  timeZone: string
+): TripCostRollup {
+  const rollup: TripCostRollup = { byTrip: {}, byDay: {}, missing: 0 }
+  for (const expense of expenses) {
+    if (!isSpending(expense)) continue
+    const amount = amountOf(expense)
+    if (amount == null) {
+      rollup.missing++
+      continue
+    }
+    const trip = expense.trip_id != null ? trips.find(t => t.id === expense.trip_id) : undefined
+    if (trip) rollup.byTrip[trip.id] = (rollup.byTrip[trip.id] || 0) + amount
+    const day = trip ? getDayNumberForDate(tripStartDate, trip.date) : spendingDay(expense, tripStartDate, timeZone)
+    rollup.byDay[day] = (rollup.byDay[day] || 0) + amount
+  }
+  return rollup
+}
@@ -1,3 +1,5 @@
+import { formatTripDate, zonedTimeToUtc } from './tripCalendar'
+
 /** 個人資料「航班資料」一筆紀錄（列表採圖1 機票卡版面） */
 export type FlightRecord = {
   id: string
@@ -86,31 +88,67 @@ export const DEFAULT_SEED_FLIGHTS: FlightRecord[] = [
 
 /** 圖1 底部：日期 + 星期（簡）+ 經停 */
 export function formatFlightFooterLine(isoDate: string, stops?: string): string {
-  const raw = isoDate?.trim()
-  if (!raw) return stops?.trim() || ''
-  const d = new Date(raw.includes('T') ? raw : `${raw}T12:00:00`)
-  if (Number.isNaN(d.getTime())) return stops?.trim() || ''
-  const datePart = d.toLocaleDateString('zh-TW', {
+  // depDate is the local date at the departure airport; format it as that date, not an instant
+  const datePart = formatTripDate(isoDate || '', {
     month: 'long',
     day: 'numeric',
     weekday: 'short',
   })
+  if (!datePart) return stops?.trim() || ''
   const stopPart = stops?.trim() || '直飛'
   return `${datePart} · ${stopPart}`
 }
 
-/** 依出發／抵達日期與時間推算 "13h 45m" */
+/** 機場代碼 → 時區（起降時間皆為當地時間；未列出的機場以 UTC 計，即不做時差換算） */
+const AIRPORT_TIME_ZONES: Record<string, string> = {
+  HKG: 'Asia/Hong_Kong',
+  MFM: 'Asia/Macau',
+  TPE: 'Asia/Taipei',
+  TSA: 'Asia/Taipei',
+  KHH: 'Asia/Taipei',
+  ICN: 'Asia/Seoul',
+  GMP: 'Asia/Seoul',
+  PUS: 'Asia/Seoul',
+  CJU: 'Asia/Seoul',
+  BKK: 'Asia/Bangkok',
+  DMK: 'Asia/Bangkok',
+  CNX: 'Asia/Bangkok',
+  HKT: 'Asia/Bangkok',
+  SIN: 'Asia/Singapore',
+  PVG: 'Asia/Shanghai',
+  PEK: 'Asia/Shanghai',
+  LHR: 'Europe/London',
+  CDG: 'Europe/Paris',
+  SYD: 'Australia/Sydney',
+}
+
+/** IANA time zone of an airport, or null when unknown */
+export function airportTimeZone(code: string | null | undefined): string | null {
+  const c = (code || '').toUpperCase().trim()
+  if (JP_AIRPORT_CODES.has(c)) return 'Asia/Tokyo'
+  return AIRPORT_TIME_ZONES[c] ?? null
+}
+
+/**
+ * 依出發／抵達日期與時間推算 "13h 45m"。Times are local at each airport: with both airport codes
+ * known the time difference is taken into account (HKG 09:15 → NRT 14:45 is 4h 30m).
+ */
 export function computeFlightDurationLabel(
   depDate: string,
   depTime: string,
   arrDate: string,
-  arrTime: string
+  arrTime: string,
+  depCode?: string,
+  arrCode?: string
 ): string | null {
   if (!depDate?.trim() || !depTime?.trim() || !arrDate?.trim() || !arrTime?.trim()) return null
-  const dep = new Date(`${depDate}T${depTime}:00`)
-  const arr = new Date(`${arrDate}T${arrTime}:00`)
-  if (Number.isNaN(dep.getTime()) || Number.isNaN(arr.getTime())) return null
-  let ms = arr.getTime() - dep.getTime()
+  const depZone = airportTimeZone(depCode)
+  const arrZone = airportTimeZone(arrCode)
+  const bothKnown = depZone != null && arrZone != null
+  const dep = zonedTimeToUtc(depDate, depTime, bothKnown ? depZone : 'UTC')
+  const arr = zonedTimeToUtc(arrDate, arrTime, bothKnown ? arrZone : 'UTC')
+  if (dep == null || arr == null) return null
+  let ms = arr - dep
   if (ms < 0) ms += 86400000
   const h = Math.floor(ms / 3600000)
   const m = Math.floor((ms % 3600000) / 60000)
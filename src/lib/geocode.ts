@@ -1,3 +1,5 @@
+import { getCurrentDestinationData, getDestinationCountryCode, type DestinationDB } from './settings'
+
 const reverseGeocodeZhCache = new Map<string, string>()
 
 /**
@@ -30,13 +32,23 @@ export async function reverseGeocodeZhTW(lat: number, lng: number): Promise<stri
   return null
 }
 
-/** Geocode a place name to lat/lng using Google Geocoding API. Adds " Japan" for better accuracy. */
-export async function geocodePlaceName(placeName: string): Promise<{ lat: number; lng: number } | null> {
+/**
+ * Geocode a place name to lat/lng using Google Geocoding API.
+ * Biased to the current destination: appends its English name and restricts results to its country.
+ */
+export async function geocodePlaceName(
+  placeName: string,
+  destination: DestinationDB = getCurrentDestinationData()
+): Promise<{ lat: number; lng: number } | null> {
   if (!placeName?.trim()) return null
   try {
-    const query = placeName.trim().endsWith('Japan') ? placeName.trim() : `${placeName.trim()} Japan`
+    const name = placeName.trim()
+    const country = destination.name_en
+    const query = name.toLowerCase().endsWith(country.toLowerCase()) ? name : `${name} ${country}`
+    const countryCode = getDestinationCountryCode(destination)
+    const bias = countryCode ? `&region=${countryCode.toLowerCase()}&components=country:${countryCode}` : ''
     const res = await fetch(
-      `https://maps.googleapis.com/maps/api/geocode/json?address=${encodeURIComponent(query)}&key=${process.env.NEXT_PUBLIC_GOOGLE_MAPS_API_KEY}`
+      `https://maps.googleapis.com/maps/api/geocode/json?address=${encodeURIComponent(query)}${bias}&key=${process.env.NEXT_PUBLIC_GOOGLE_MAPS_API_KEY}`
     )
     const data = await res.json()
     if (data.status === 'OK' && data.results?.length > 0) {
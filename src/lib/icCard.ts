@@ -0,0 +1,203 @@
+import { isIcTopUp, isSettlementPayment, sortTrips, type ExpenseDB, type Trip } from './supabase'
+import { addDays, todayInTimeZone, zonedTimeToUtc } from './tripCalendar'
+import { safeSetItem } from './safeStorage'
+
+/**
+ * IC 卡（Suica / PASMO）：a per-user ledger of the card balance. Top-ups are wallet rows of kind
+ * ic_topup (not spending); what the card paid for is taken off as it happens: expenses paid by IC
+ * card at their amount, and rides between consecutive stops of a trip day at an estimated fare.
+ * Balances are in yen, the only currency IC cards hold. Estimates only: the real balance is on the
+ * last receipt.
+ */
+
+export const IC_CARD_CURRENCY = 'JPY'
+
+/** Remind when the rides ahead would leave less than this on the card */
+export const IC_LOW_BALANCE = 1000
+
+type Point = { lat: number; lng: number }
+
+export function distanceKm(a: Point, b: Point): number {
+  const rad = (deg: number) => (deg * Math.PI) / 180
+  const dLat = rad(b.lat - a.lat)
+  const dLng = rad(b.lng - a.lng)
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(rad(a.lat)) * Math.cos(rad(b.lat)) * Math.sin(dLng / 2) ** 2
+  return 2 * 6371 * Math.asin(Math.min(1, Math.sqrt(h)))
+}
+
+// Straight-line km → IC fare, roughly Tokyo-area metro / JR; nearby stops are walked
+const WALKING_KM = 1
+const FARE_BANDS: { upToKm: number; fare: number }[] = [
+  { upToKm: 3, fare: 180 },
+  { upToKm: 7, fare: 210 },
+  { upToKm: 12, fare: 260 },
+  { upToKm: 20, fare: 320 },
+  { upToKm: 35, fare: 480 },
+  { upToKm: 60, fare: 800 },
+]
+
+/** Estimated IC fare for a ride of `km`; 0 = walking, null = too far for an IC fare (Shinkansen, limited express) */
+export function estimateFare(km: number): number | null {
+  if (km < WALKING_KM) return 0
+  return FARE_BANDS.find(band => km <= band.upToKm)?.fare ?? null
+}
+
+type LegStop = Pick<Trip, 'id' | 'title' | 'date' | 'lat' | 'lng' | 'time_start' | 'sort_order' | 'created_at'>
+
+/** Ride from one stop of a day to the next */
+export type TransitLeg = { date: string; from: LegStop; to: LegStop; km: number; fare: number }
+
+/** Legs between consecutive stops of each day that need a fare (not walked, not too far for IC) */
+export function transitLegs(trips: LegStop[]): TransitLeg[] {
+  const stops = sortTrips(trips.filter(t => t.lat || t.lng))
+  const legs: TransitLeg[] = []
+  for (let i = 1; i < stops.length; i++) {
+    const from = stops[i - 1]
+    const to = stops[i]
+    if (from.date !== to.date) continue
+    const km = distanceKm(from, to)
+    const fare = estimateFare(km)
+    if (fare) legs.push({ date: to.date, from, to, km, fare })
+  }
+  return legs
+}
+
+/** Taken once the next stop's start time has passed at the destination; legs without a time count from the next day */
+function legTaken(leg: TransitLeg, today: string, now: Date, timeZone: string): boolean {
+  if (leg.date < today) return true
+  if (leg.date > today || !leg.to.time_start) return false
+  const arrival = zonedTimeToUtc(leg.date, leg.to.time_start, timeZone)
+  return arrival != null && arrival <= now.getTime()
+}
+
+export type IcLedgerEntry = {
+  kind: 'topup' | 'spend' | 'fare'
+  /** When it happened (ms): expenses when logged, fares when the ride ended; for ordering */
+  at: number
+  /** Date at the destination */
+  date: string
+  label: string
+  /** + top-up, - spending */
+  amount: number
+}
+
+export type IcCardLedger = {
+  balance: number
+  toppedUp: number
+  spent: number
+  fares: number
+  /** Newest first */
+  entries: IcLedgerEntry[]
+  /** Legs of today / tomorrow still to ride, for the reminder */
+  upcoming: { date: string; fare: number; legs: TransitLeg[] } | null
+}
+
+type LedgerExpense = Pick<ExpenseDB, 'id' | 'username' | 'amount' | 'currency' | 'kind' | 'payment_method' | 'note' | 'created_at'>
+
+/**
+ * The ledger of `username`'s card from their expenses (top-ups and IC-paid, any wallet) and the
+ * itinerary. Rides count from the day of the first top-up, when the card was bought or loaded.
+ */
+export function icCardLedger(
+  expenses: LedgerExpense[],
+  trips: LegStop[],
+  username: string,
+  timeZone: string,
+  now: Date = new Date()
+): IcCardLedger {
+  const entries: IcLedgerEntry[] = []
+  const dateOf = (expense: LedgerExpense) => todayInTimeZone(timeZone, new Date(expense.created_at))
+  const own = expenses.filter(e => e.username === username && (e.currency || IC_CARD_CURRENCY) === IC_CARD_CURRENCY)
+  for (const expense of own) {
+    const at = Date.parse(expense.created_at)
+    if (isIcTopUp(expense)) {
+      entries.push({ kind: 'topup', at, date: dateOf(expense), label: expense.note || '儲值', amount: expense.amount })
+    } else if (expense.payment_method === 'ic' && !isSettlementPayment(expense)) {
+      entries.push({ kind: 'spend', at, date: dateOf(expense), label: expense.note || '刷卡', amount: -expense.amount })
+    }
+  }
+
+  const today = todayInTimeZone(timeZone, now)
+  const firstTopUp = entries
+    .filter(e => e.kind === 'topup')
+    .map(e => e.date)
+    .sort()[0]
+  const legs = firstTopUp ? transitLegs(trips).filter(leg => leg.date >= firstTopUp) : []
+  for (const leg of legs) {
+    if (legTaken(leg, today, now, timeZone)) {
+      // Rides without a time sort at the end of their day
+      const at = zonedTimeToUtc(leg.date, leg.to.time_start || '23:59', timeZone) ?? Date.parse(leg.date)
+      entries.push({ kind: 'fare', at, date: leg.date, label: `${leg.from.title} → ${leg.to.title}`, amount: -leg.fare })
+    }
+  }
+
+  const total = (kind: IcLedgerEntry['kind']) => entries.filter(e => e.kind === kind).reduce((sum, e) => sum + Math.abs(e.amount), 0)
+  const toppedUp = total('topup')
+  const spent = total('spend')
+  const fares = total('fare')
+
+  let upcoming: IcCardLedger['upcoming'] = null
+  for (const date of [today, addDays(today, 1)]) {
+    const ahead = legs.filter(leg => leg.date === date && !legTaken(leg, today, now, timeZone))
+    if (ahead.length) {
+      upcoming = { date, fare: ahead.reduce((total, leg) => total + leg.fare, 0), legs: ahead }
+      break
+    }
+  }
+
+  return {
+    balance: toppedUp - spent - fares,
+    toppedUp,
+    spent,
+    fares,
+    entries: entries.sort((a, b) => b.at - a.at),
+    upcoming,
+  }
+}
+
+/**
+ * Rides taken off the card as transport spending rows (yen, paid by IC card), so wallet totals and the
+ * transport envelope count them. Only the fares: what the card paid for is an expense of its own
+ * already, and top-ups are not spending. Negative ids keep them apart from saved rows.
+ */
+export function icFareExpenses(ledger: IcCardLedger, username: string): ExpenseDB[] {
+  return ledger.entries
+    .filter(entry => entry.kind === 'fare')
+    .map((entry, i) => ({
+      id: -(i + 1),
+      type: 'personal',
+      username,
+      display_name: username,
+      avatar_url: null,
+      amount: -entry.amount,
+      currency: IC_CARD_CURRENCY,
+      category: 'transport',
+      note: `🚃 ${entry.label}`,
+      created_at: new Date(entry.at).toISOString(),
+      payment_method: 'ic',
+    }))
+}
+
+export type IcCardReminder = { balance: number; date: string; fare: number }
+
+/** Top up before a day whose rides would run the card below IC_LOW_BALANCE */
+export function icCardReminder(ledger: IcCardLedger): IcCardReminder | null {
+  if (!ledger.toppedUp || !ledger.upcoming) return null
+  const { date, fare } = ledger.upcoming
+  return ledger.balance - fare < IC_LOW_BALANCE ? { balance: ledger.balance, date, fare } : null
+}
+
+const REMINDER_MEMORY_KEY = 'ic_card_reminder_seen'
+
+/** Whether to pop the reminder up: once per user and transit day on this device */
+export function checkIcCardReminder(reminder: IcCardReminder | null, username: string): boolean {
+  if (!reminder || typeof window === 'undefined') return false
+  const key = `${username}:${reminder.date}`
+  try {
+    if (localStorage.getItem(REMINDER_MEMORY_KEY) === key) return false
+  } catch {
+    // Storage unavailable: remind again
+  }
+  safeSetItem(REMINDER_MEMORY_KEY, key)
+  return true
+}
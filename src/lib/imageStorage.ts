@@ -0,0 +1,280 @@
+'use client'
+
+import type { CSSProperties } from 'react'
+import { encode, decode } from 'blurhash'
+import { supabase } from './supabase'
+import { compressImageFile, type ClientCompressOptions } from './compressImageClient'
+import {
+  RECEIPT_REF_PREFIX,
+  THUMBNAIL_WIDTHS,
+  buildStoredImageUrl,
+  isDataImageUrl,
+  isReceiptRef,
+  parseStoredImageUrl,
+  receiptRefPath,
+  storedImageSrc,
+  thumbnailPath,
+} from './storedImage'
+
+/**
+ * 圖片上傳：images go to a storage bucket instead of base64 in image_url / avatar_url.
+ * Supabase Storage by default; NEXT_PUBLIC_IMAGE_STORAGE=local writes to public/uploads
+ * through /api/uploads for local dev without a bucket.
+ */
+
+/** Supabase Storage bucket (created by supabase/migrations/add_image_storage.sql) */
+export const IMAGE_BUCKET = 'images'
+
+/** Private bucket for receipt photos (supabase/migrations/add_expense_receipts.sql) */
+export const RECEIPT_BUCKET = 'receipts'
+
+/** How long a signed receipt URL works */
+const RECEIPT_URL_SECONDS = 60 * 60
+
+export type ImageStorageAdapter = {
+  name: 'supabase' | 'local'
+  /** Store one file; resolves to its public URL */
+  upload(path: string, blob: Blob): Promise<{ url: string | null; error: string | null }>
+  remove(paths: string[]): Promise<{ error: string | null }>
+  /** Store a receipt photo in the private bucket */
+  uploadReceipt(path: string, blob: Blob): Promise<{ error: string | null }>
+  /** Short-lived URL of a private receipt photo */
+  receiptUrl(path: string): Promise<{ url: string | null; error: string | null }>
+}
+
+const supabaseStorageAdapter: ImageStorageAdapter = {
+  name: 'supabase',
+  async upload(path, blob) {
+    const bucket = supabase.storage.from(IMAGE_BUCKET)
+    const { error } = await bucket.upload(path, blob, { contentType: blob.type, cacheControl: '31536000', upsert: false })
+    if (error) return { url: null, error: error.message }
+    return { url: bucket.getPublicUrl(path).data.publicUrl, error: null }
+  },
+  async remove(paths) {
+    const { error } = await supabase.storage.from(IMAGE_BUCKET).remove(paths)
+    return { error: error?.message ?? null }
+  },
+  async uploadReceipt(path, blob) {
+    const { error } = await supabase.storage.from(RECEIPT_BUCKET).upload(path, blob, { contentType: blob.type, upsert: false })
+    return { error: error?.message ?? null }
+  },
+  async receiptUrl(path) {
+    const { data, error } = await supabase.storage.from(RECEIPT_BUCKET).createSignedUrl(path, RECEIPT_URL_SECONDS)
+    return { url: data?.signedUrl ?? null, error: error?.message ?? null }
+  },
+}
+
+const localStorageAdapter: ImageStorageAdapter = {
+  name: 'local',
+  async upload(path, blob) {
+    const form = new FormData()
+    form.append('path', path)
+    form.append('file', blob)
+    const res = await fetch('/api/uploads', { method: 'POST', body: form })
+    const body = await res.json().catch(() => ({}))
+    if (!res.ok) return { url: null, error: body.error || `上傳失敗（${res.status}）` }
+    return { url: body.url as string, error: null }
+  },
+  async remove(paths) {
+    const res = await fetch('/api/uploads', {
+      method: 'DELETE',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ paths }),
+    })
+    return { error: res.ok ? null : `刪除失敗（${res.status}）` }
+  },
+  async uploadReceipt(path, blob) {
+    const form = new FormData()
+    form.append('bucket', RECEIPT_BUCKET)
+    form.append('path', path)
+    form.append('file', blob)
+    const res = await fetch('/api/uploads', { method: 'POST', body: form })
+    const body = await res.json().catch(() => ({}))
+    return { error: res.ok ? null : body.error || `上傳失敗（${res.status}）` }
+  },
+  async receiptUrl(path) {
+    // Served by the route after the same checks as the bucket's read policy
+    return { url: `/api/uploads?receipt=${encodeURIComponent(path)}`, error: null }
+  },
+}
+
+export function getImageStorage(): ImageStorageAdapter {
+  return process.env.NEXT_PUBLIC_IMAGE_STORAGE === 'local' ? localStorageAdapter : supabaseStorageAdapter
+}
+
+function loadImage(blob: Blob): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const objectUrl = URL.createObjectURL(blob)
+    const img = new Image()
+    img.onload = () => {
+      URL.revokeObjectURL(objectUrl)
+      resolve(img)
+    }
+    img.onerror = () => {
+      URL.revokeObjectURL(objectUrl)
+      reject(new Error('無法讀取圖片'))
+    }
+    img.src = objectUrl
+  })
+}
+
+function drawScaled(img: HTMLImageElement, width: number, height: number): HTMLCanvasElement {
+  const canvas = document.createElement('canvas')
+  canvas.width = width
+  canvas.height = height
+  const ctx = canvas.getContext('2d')
+  if (!ctx) throw new Error('Canvas not supported')
+  ctx.drawImage(img, 0, 0, width, height)
+  return canvas
+}
+
+function canvasToBlob(canvas: HTMLCanvasElement, type: string): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('縮圖產生失敗'))), type, 0.8)
+  })
+}
+
+function blurhashOf(img: HTMLImageElement): string | null {
+  try {
+    const canvas = drawScaled(img, 32, 32)
+    const pixels = canvas.getContext('2d')!.getImageData(0, 0, 32, 32).data
+    return encode(pixels, 32, 32, 4, 3)
+  } catch (err) {
+    console.error('Blurhash error:', err)
+    return null
+  }
+}
+
+const EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+}
+
+function newImagePath(folder: string, type: string): string {
+  const id = typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`
+  return `${folder}/${id}.${EXTENSIONS[type] ?? 'jpg'}`
+}
+
+/**
+ * Upload an already-compressed image plus its thumbnails. Resolves to the URL to store in the row
+ * (public URL + width/height/blurhash fragment, see storedImage.ts).
+ */
+export async function storeImageBlob(blob: Blob, folder: string): Promise<{ url: string | null; error: string | null }> {
+  if (typeof navigator !== 'undefined' && !navigator.onLine) {
+    return { url: null, error: '離線時無法上傳圖片，請連線後再試' }
+  }
+  const storage = getImageStorage()
+  const type = EXTENSIONS[blob.type] ? blob.type : 'image/jpeg'
+  const path = newImagePath(folder, type)
+  const uploaded: string[] = []
+  try {
+    const img = await loadImage(blob)
+    const width = img.naturalWidth
+    const height = img.naturalHeight
+
+    const original = await storage.upload(path, blob)
+    if (original.error || !original.url) throw new Error(original.error || '上傳失敗')
+    uploaded.push(path)
+
+    // GIFs keep their animation only in the original; thumbnails are still frames
+    const thumbType = type === 'image/png' || type === 'image/webp' ? type : 'image/jpeg'
+    for (const thumbWidth of THUMBNAIL_WIDTHS) {
+      if (thumbWidth >= width) break
+      const thumb = await canvasToBlob(drawScaled(img, thumbWidth, Math.round((height * thumbWidth) / width)), thumbType)
+      const thumbPath = thumbnailPath(path, thumbWidth)
+      const result = await storage.upload(thumbPath, thumb)
+      if (result.error) throw new Error(result.error)
+      uploaded.push(thumbPath)
+    }
+
+    return { url: buildStoredImageUrl(original.url, { width, height, blurhash: blurhashOf(img) }), error: null }
+  } catch (err: any) {
+    console.error('Image upload error:', err)
+    if (uploaded.length > 0) void storage.remove(uploaded)
+    return { url: null, error: err.message || '上傳圖片時發生錯誤' }
+  }
+}
+
+/** Compress a picked file and upload it */
+export async function uploadImageFile(
+  file: File,
+  folder: string,
+  options?: ClientCompressOptions
+): Promise<{ url: string | null; error: string | null }> {
+  return storeImageBlob(await compressImageFile(file, options), folder)
+}
+
+/** Upload a data URL (cropper output, legacy rows); other URLs are returned as they are */
+export async function uploadImageDataUrl(url: string, folder: string): Promise<{ url: string | null; error: string | null }> {
+  if (!isDataImageUrl(url)) return { url, error: null }
+  try {
+    const blob = await (await fetch(url)).blob()
+    return storeImageBlob(blob, folder)
+  } catch (err: any) {
+    console.error('Data URL upload error:', err)
+    return { url: null, error: err.message || '上傳圖片時發生錯誤' }
+  }
+}
+
+/**
+ * Upload a receipt photo (cropper output, a data URL) to `username`'s folder of the private receipts
+ * bucket. Resolves to the `receipt:` reference kept in expenses.receipt_url.
+ */
+export async function storeReceiptImage(dataUrl: string, username: string): Promise<{ url: string | null; error: string | null }> {
+  if (typeof navigator !== 'undefined' && !navigator.onLine) {
+    return { url: null, error: '離線時無法上傳圖片，請連線後再試' }
+  }
+  try {
+    const blob = await (await fetch(dataUrl)).blob()
+    const path = newImagePath(username, EXTENSIONS[blob.type] ? blob.type : 'image/jpeg')
+    const { error } = await getImageStorage().uploadReceipt(path, blob)
+    if (error) return { url: null, error }
+    return { url: `${RECEIPT_REF_PREFIX}${path}`, error: null }
+  } catch (err: any) {
+    console.error('Receipt upload error:', err)
+    return { url: null, error: err.message || '上傳圖片時發生錯誤' }
+  }
+}
+
+/** What an <img> can show for expenses.receipt_url: a signed URL for private receipts, older public URLs as they are */
+export async function receiptImageSrc(url: string, displayWidth?: number): Promise<string | null> {
+  if (!isReceiptRef(url)) return storedImageSrc(url, displayWidth)
+  const { url: signed, error } = await getImageStorage().receiptUrl(receiptRefPath(url))
+  if (error) console.error('Receipt URL error:', error)
+  return signed
+}
+
+const blurhashCache = new Map<string, string>()
+
+/** Tiny data URL of a blurhash for use as a CSS background while the real image loads */
+export function blurhashToDataUrl(hash: string): string | null {
+  const cached = blurhashCache.get(hash)
+  if (cached) return cached
+  try {
+    const canvas = document.createElement('canvas')
+    canvas.width = 16
+    canvas.height = 16
+    const ctx = canvas.getContext('2d')
+    if (!ctx) return null
+    const imageData = ctx.createImageData(16, 16)
+    imageData.data.set(decode(hash, 16, 16))
+    ctx.putImageData(imageData, 0, 0)
+    const dataUrl = canvas.toDataURL()
+    blurhashCache.set(hash, dataUrl)
+    return dataUrl
+  } catch {
+    return null
+  }
+}
+
+/** Inline style showing the blurhash behind an <img> until it has loaded */
+export function blurhashPlaceholderStyle(url: string): CSSProperties | undefined {
+  if (typeof document === 'undefined') return undefined
+  const { blurhash } = parseStoredImageUrl(url)
+  const placeholder = blurhash ? blurhashToDataUrl(blurhash) : null
+  return placeholder ? { backgroundImage: `url(${placeholder})`, backgroundSize: 'cover' } : undefined
+}
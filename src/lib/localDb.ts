@@ -0,0 +1,999 @@
+/**
+ * In-memory Postgres stand-in behind the local data backend (NEXT_PUBLIC_DATA_BACKEND=local) and the
+ * test mock. Tables, defaults, keys and seed rows come from replaying supabase/migrations/*.sql;
+ * queries are the serialized PostgREST calls built by localSupabaseClient.ts.
+ *
+ * The SQL side understands what our migrations use to shape data: CREATE / DROP TABLE, ALTER TABLE
+ * (add / drop / rename column, defaults, NOT NULL, primary keys), INSERT … VALUES … ON CONFLICT and
+ * UPDATE … SET with simple WHERE clauses. Everything else (policies, indexes, comments, DO blocks,
+ * INSERT … SELECT backfills) is skipped.
+ */
+
+export type LocalRow = Record<string, any>
+export type LocalFilterOp = 'eq' | 'neq' | 'is' | 'not.is' | 'in' | 'ilike' | 'gt' | 'gte' | 'lt' | 'lte'
+export type LocalFilter = { column: string; op: LocalFilterOp; value: unknown }
+export type LocalOrder = { column: string; ascending: boolean; nullsFirst?: boolean }
+
+/** One supabase-js query builder chain, serializable so the browser can POST it to /api/local-db */
+export type LocalQuery = {
+  table: string
+  op: 'select' | 'insert' | 'update' | 'upsert' | 'delete'
+  /** Select list (PostgREST syntax); for writes only used when `returning` */
+  columns: string
+  returning: boolean
+  values?: LocalRow[]
+  onConflict?: string
+  ignoreDuplicates?: boolean
+  filters: LocalFilter[]
+  orders: LocalOrder[]
+  limit?: number | null
+  mode: 'many' | 'single' | 'maybeSingle'
+}
+
+export type LocalError = { message: string; code?: string }
+export type LocalResult = { data: any; error: LocalError | null }
+
+/** Migration file contents; `name` decides the replay order */
+export type MigrationFile = { name: string; sql: string }
+
+// ============================================
+// Schema
+// ============================================
+
+type Expr =
+  | { kind: 'literal'; value: unknown; cast?: string }
+  | { kind: 'column'; name: string }
+  | { kind: 'now' }
+  | { kind: 'uuid' }
+
+type ForeignKey = { table: string; column: string; onDelete: 'cascade' | 'set null' | 'restrict' }
+
+type Column = {
+  name: string
+  type: string
+  notNull: boolean
+  unique: boolean
+  default?: Expr
+  references?: ForeignKey
+}
+
+type Table = {
+  name: string
+  columns: Map<string, Column>
+  primaryKey: string[]
+  /** Multi-column UNIQUE (a, b) constraints; single columns are flagged on the column */
+  uniqueKeys: string[][]
+  rows: LocalRow[]
+  sequence: number
+}
+
+class QueryError extends Error {
+  constructor(message: string, readonly code?: string) {
+    super(message)
+  }
+}
+
+/** Statement the SQL replay cannot evaluate; it is skipped as a whole */
+class UnsupportedSql extends Error {}
+
+const NUMERIC_TYPES = /^(smallint|integer|int|int2|int4|int8|bigint|serial|bigserial|smallserial|numeric|decimal|real|float4|float8|double precision)$/
+const SERIAL_TYPES = /^(serial|bigserial|smallserial)$/
+const SINGLE_ROW_ERROR = { code: 'PGRST116', message: 'JSON object requested, multiple (or no) rows returned' }
+
+function isNumericType(type: string): boolean {
+  return NUMERIC_TYPES.test(type)
+}
+
+function isJsonType(type: string): boolean {
+  return type === 'json' || type === 'jsonb'
+}
+
+function evaluate(expr: Expr, row: LocalRow = {}): unknown {
+  switch (expr.kind) {
+    case 'now':
+      return new Date().toISOString()
+    case 'uuid':
+      return crypto.randomUUID()
+    case 'column':
+      return row[expr.name] ?? null
+    case 'literal':
+      if (expr.cast && isJsonType(expr.cast) && typeof expr.value === 'string') return JSON.parse(expr.value)
+      return expr.value
+  }
+}
+
+/** Value as Postgres would store it in `column`; `fromSql` parses JSON text the way a '…' literal is read */
+function coerce(column: Column | undefined, value: unknown, fromSql = false): unknown {
+  if (value == null || !column) return value ?? null
+  if (isNumericType(column.type) && typeof value === 'string' && value.trim() !== '' && !Number.isNaN(Number(value))) {
+    return Number(value)
+  }
+  if (column.type === 'boolean' && typeof value === 'string') return value === 'true' || value === 't'
+  if (fromSql && isJsonType(column.type) && typeof value === 'string') return JSON.parse(value)
+  return value
+}
+
+/** ILIKE pattern as a RegExp: % = any run, _ = one character, \ escapes the next character */
+function ilikePattern(pattern: string): RegExp {
+  const literal = (char: string) => char.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+  let source = ''
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i]
+    if (char === '\\' && i + 1 < pattern.length) source += literal(pattern[++i])
+    else source += char === '%' ? '.*' : char === '_' ? '.' : literal(char)
+  }
+  return new RegExp(`^${source}$`, 'is')
+}
+
+function compare(a: unknown, b: unknown): number {
+  if (a === b) return 0
+  if (typeof a === 'object' || typeof b === 'object') return compare(JSON.stringify(a), JSON.stringify(b))
+  return (a as any) < (b as any) ? -1 : (a as any) > (b as any) ? 1 : 0
+}
+
+function singularize(table: string): string {
+  return table.endsWith('ies') ? `${table.slice(0, -3)}y` : table.replace(/s$/, '')
+}
+
+// ============================================
+// SQL parsing
+// ============================================
+
+/** Split a migration into statements, keeping `;` inside strings, dollar quotes and comments */
+export function splitSqlStatements(sql: string): string[] {
+  const statements: string[] = []
+  let current = ''
+  let i = 0
+  while (i < sql.length) {
+    const char = sql[i]
+    if (char === '-' && sql[i + 1] === '-') {
+      const end = sql.indexOf('\n', i)
+      i = end === -1 ? sql.length : end
+      continue
+    }
+    if (char === '/' && sql[i + 1] === '*') {
+      const end = sql.indexOf('*/', i + 2)
+      i = end === -1 ? sql.length : end + 2
+      current += ' '
+      continue
+    }
+    if (char === "'" || char === '"') {
+      let end = i + 1
+      while (end < sql.length) {
+        if (sql[end] === char && sql[end + 1] === char) end += 2
+        else if (sql[end] === char) break
+        else end++
+      }
+      current += sql.slice(i, end + 1)
+      i = end + 1
+      continue
+    }
+    if (char === '$') {
+      const tag = /^\$[A-Za-z_]*\$/.exec(sql.slice(i))?.[0]
+      if (tag) {
+        const end = sql.indexOf(tag, i + tag.length)
+        const stop = end === -1 ? sql.length : end + tag.length
+        current += sql.slice(i, stop)
+        i = stop
+        continue
+      }
+    }
+    if (char === ';') {
+      if (current.trim()) statements.push(current.trim())
+      current = ''
+      i++
+      continue
+    }
+    current += char
+    i++
+  }
+  if (current.trim()) statements.push(current.trim())
+  return statements
+}
+
+type Token = { type: 'word' | 'ident' | 'string' | 'number' | 'punct'; value: string }
+
+function tokenize(statement: string): Token[] {
+  const tokens: Token[] = []
+  const pattern = /\s+|(E?'(?:[^']|'')*')|("(?:[^"]|"")*")|(\d+(?:\.\d+)?)|([A-Za-z_][A-Za-z0-9_$]*)|(::|<>|!=|<=|>=|\$[A-Za-z_]*\$[\s\S]*?\$[A-Za-z_]*\$|.)/g
+  let match: RegExpExecArray | null
+  while ((match = pattern.exec(statement)) !== null) {
+    const [, string, ident, number, word, punct] = match
+    if (string) tokens.push({ type: 'string', value: string.slice(string.indexOf("'") + 1, -1).replace(/''/g, "'") })
+    else if (ident) tokens.push({ type: 'ident', value: ident.slice(1, -1).replace(/""/g, '"') })
+    else if (number) tokens.push({ type: 'number', value: number })
+    else if (word) tokens.push({ type: 'word', value: word.toLowerCase() })
+    else if (punct) tokens.push({ type: 'punct', value: punct })
+  }
+  return tokens
+}
+
+class TokenStream {
+  private index = 0
+
+  constructor(private tokens: Token[]) {}
+
+  get done(): boolean {
+    return this.index >= this.tokens.length
+  }
+
+  peek(offset = 0): Token | undefined {
+    return this.tokens[this.index + offset]
+  }
+
+  next(): Token {
+    const token = this.tokens[this.index++]
+    if (!token) throw new UnsupportedSql('unexpected end of statement')
+    return token
+  }
+
+  /** Consume the given keywords / punctuation if they come next */
+  accept(...values: string[]): boolean {
+    const matches = values.every((value, offset) => {
+      const token = this.peek(offset)
+      return !!token && (token.type === 'word' || token.type === 'punct') && token.value === value
+    })
+    if (matches) this.index += values.length
+    return matches
+  }
+
+  expect(...values: string[]): void {
+    if (!this.accept(...values)) throw new UnsupportedSql(`expected ${values.join(' ')}`)
+  }
+
+  /** Identifier, dropping a `public.` schema; null for other schemas (storage.buckets, …) */
+  name(): string | null {
+    const first = this.next()
+    if (first.type !== 'word' && first.type !== 'ident') throw new UnsupportedSql('expected a name')
+    if (this.accept('.')) {
+      const second = this.next()
+      return first.value === 'public' ? second.value : null
+    }
+    return first.value
+  }
+
+  /** Parenthesized, comma separated name list */
+  nameList(): string[] {
+    this.expect('(')
+    const names: string[] = []
+    do {
+      names.push(this.next().value)
+    } while (this.accept(','))
+    this.expect(')')
+    return names
+  }
+
+  /** Skip a balanced (…) group */
+  skipGroup(): void {
+    this.expect('(')
+    let depth = 1
+    while (depth > 0) {
+      const token = this.next()
+      if (token.type === 'punct' && token.value === '(') depth++
+      if (token.type === 'punct' && token.value === ')') depth--
+    }
+  }
+
+  /** Tokens up to (not including) the next top-level `,` or `)`, or any of `stopWords` */
+  until(stopWords: string[] = []): Token[] {
+    const collected: Token[] = []
+    let depth = 0
+    while (!this.done) {
+      const token = this.peek()!
+      if (depth === 0 && token.type === 'punct' && (token.value === ',' || token.value === ')')) break
+      if (depth === 0 && collected.length > 0 && token.type === 'word' && stopWords.includes(token.value)) break
+      if (token.type === 'punct' && token.value === '(') depth++
+      if (token.type === 'punct' && token.value === ')') depth--
+      collected.push(this.next())
+    }
+    return collected
+  }
+}
+
+function parseExpr(tokens: Token[]): Expr {
+  const stream = new TokenStream(tokens)
+  const first = stream.next()
+  let expr: Expr
+  if (first.type === 'string') expr = { kind: 'literal', value: first.value }
+  else if (first.type === 'number') expr = { kind: 'literal', value: Number(first.value) }
+  else if (first.type === 'punct' && first.value === '-' && stream.peek()?.type === 'number') {
+    expr = { kind: 'literal', value: -Number(stream.next().value) }
+  } else if (first.type === 'word' && ['true', 'false', 'null'].includes(first.value)) {
+    expr = { kind: 'literal', value: first.value === 'null' ? null : first.value === 'true' }
+  } else if (first.type === 'word' && ['now', 'gen_random_uuid', 'uuid_generate_v4'].includes(first.value) && stream.accept('(', ')')) {
+    expr = first.value === 'now' ? { kind: 'now' } : { kind: 'uuid' }
+  } else if (first.type === 'word' && ['current_timestamp', 'localtimestamp'].includes(first.value)) {
+    expr = { kind: 'now' }
+  } else if (first.type === 'word' || first.type === 'ident') {
+    if (!stream.done && stream.peek()?.value !== '::') throw new UnsupportedSql(`unsupported expression ${first.value}`)
+    expr = { kind: 'column', name: first.value }
+  } else {
+    throw new UnsupportedSql(`unsupported expression ${first.value}`)
+  }
+  if (stream.accept('::')) {
+    const cast = stream.next().value
+    if (expr.kind === 'literal') expr.cast = cast
+  }
+  if (!stream.done) throw new UnsupportedSql('unsupported expression')
+  return expr
+}
+
+const COLUMN_CONSTRAINT_WORDS = ['primary', 'not', 'null', 'unique', 'default', 'references', 'check', 'constraint', 'generated', 'collate']
+
+function parseOnDelete(stream: TokenStream): ForeignKey['onDelete'] {
+  let onDelete: ForeignKey['onDelete'] = 'restrict'
+  while (stream.accept('on')) {
+    const event = stream.next().value
+    let action: string
+    if (stream.accept('set', 'null')) action = 'set null'
+    else if (stream.accept('set', 'default')) action = 'restrict'
+    else if (stream.accept('no', 'action')) action = 'restrict'
+    else action = stream.next().value
+    if (event === 'delete') onDelete = action === 'cascade' ? 'cascade' : action === 'set null' ? 'set null' : 'restrict'
+  }
+  return onDelete
+}
+
+function parseReferences(stream: TokenStream): ForeignKey {
+  const table = stream.name()
+  if (!table) throw new UnsupportedSql('reference to another schema')
+  const column = stream.peek()?.value === '(' ? stream.nameList()[0] : 'id'
+  return { table, column, onDelete: parseOnDelete(stream) }
+}
+
+/** `name type [constraints…]` of CREATE TABLE / ADD COLUMN; primary key flagged separately */
+function parseColumnDefinition(stream: TokenStream): { column: Column; primaryKey: boolean } {
+  const name = stream.next().value
+  const typeWords: string[] = []
+  while (!stream.done) {
+    const token = stream.peek()!
+    if (token.type === 'punct' && (token.value === ',' || token.value === ')')) break
+    if (token.type === 'word' && COLUMN_CONSTRAINT_WORDS.includes(token.value)) break
+    if (token.type === 'punct' && token.value === '(') {
+      stream.skipGroup()
+      continue
+    }
+    if (token.type === 'punct' && token.value === '[') {
+      stream.next()
+      stream.accept(']')
+      typeWords.push('[]')
+      continue
+    }
+    typeWords.push(stream.next().value)
+  }
+  const type = typeWords.join(' ').replace(/ \[\]$/, '[]').replace(/^timestamp with time zone$/, 'timestamptz')
+  const column: Column = { name, type, notNull: false, unique: false }
+  let primaryKey = false
+  if (SERIAL_TYPES.test(type)) column.notNull = true
+
+  while (!stream.done && !(stream.peek()!.type === 'punct' && [',', ')'].includes(stream.peek()!.value))) {
+    if (stream.accept('constraint')) stream.next()
+    else if (stream.accept('primary', 'key')) {
+      primaryKey = true
+      column.notNull = true
+    } else if (stream.accept('not', 'null')) column.notNull = true
+    else if (stream.accept('null')) column.notNull = false
+    else if (stream.accept('unique')) column.unique = true
+    else if (stream.accept('default')) column.default = parseExpr(stream.until(COLUMN_CONSTRAINT_WORDS))
+    else if (stream.accept('references')) column.references = parseReferences(stream)
+    else if (stream.accept('check')) stream.skipGroup()
+    else throw new UnsupportedSql(`unsupported column option ${stream.peek()!.value}`)
+  }
+  return { column, primaryKey }
+}
+
+/** Table-level constraint of CREATE TABLE / ALTER TABLE ADD; false when the tokens are a column instead */
+function parseTableConstraint(stream: TokenStream, table: Table): boolean {
+  const isConstraint =
+    stream.peek()?.value === 'constraint' ||
+    (stream.peek()?.value === 'primary' && stream.peek(1)?.value === 'key') ||
+    (stream.peek()?.value === 'foreign' && stream.peek(1)?.value === 'key') ||
+    (stream.peek()?.value === 'unique' && stream.peek(1)?.value === '(') ||
+    (stream.peek()?.value === 'check' && stream.peek(1)?.value === '(')
+  if (!isConstraint) return false
+
+  if (stream.accept('constraint')) stream.next()
+  if (stream.accept('primary', 'key')) {
+    table.primaryKey = stream.nameList()
+    for (const name of table.primaryKey) {
+      const column = table.columns.get(name)
+      if (column) column.notNull = true
+    }
+  } else if (stream.accept('foreign', 'key')) {
+    const [name] = stream.nameList()
+    stream.expect('references')
+    const column = table.columns.get(name)
+    if (column) column.references = parseReferences(stream)
+  } else if (stream.accept('unique')) {
+    const names = stream.nameList()
+    const column = names.length === 1 ? table.columns.get(names[0]) : undefined
+    if (column) column.unique = true
+    else if (names.length > 1) table.uniqueKeys.push(names)
+  } else if (stream.accept('check')) {
+    stream.skipGroup()
+  }
+  return true
+}
+
+type Condition = (row: LocalRow) => boolean
+
+/** WHERE clause of a migration UPDATE: comparisons with literals joined by AND */
+function parseCondition(stream: TokenStream): Condition {
+  const parts: Condition[] = []
+  do {
+    const column = stream.next().value
+    const negated = stream.accept('not', 'like')
+    if (stream.accept('is', 'not', 'null')) parts.push(row => row[column] != null)
+    else if (stream.accept('is', 'null')) parts.push(row => row[column] == null)
+    else if (negated || stream.accept('like')) {
+      const pattern = stream.next()
+      if (pattern.type !== 'string') throw new UnsupportedSql('unsupported LIKE pattern')
+      const regex = new RegExp(`^${pattern.value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/%/g, '[\\s\\S]*').replace(/_/g, '[\\s\\S]')}$`)
+      parts.push(row => row[column] != null && regex.test(String(row[column])) !== negated)
+    } else {
+      const operator = stream.next().value
+      if (!['=', '<>', '!='].includes(operator)) throw new UnsupportedSql(`unsupported operator ${operator}`)
+      const expr = parseExpr(stream.until(['and', 'or']))
+      if (expr.kind !== 'literal' && expr.kind !== 'column') throw new UnsupportedSql('unsupported comparison')
+      parts.push(row => {
+        const left = row[column]
+        const right = evaluate(expr, row)
+        if (left == null || right == null) return false
+        return operator === '=' ? compare(left, right) === 0 : compare(left, right) !== 0
+      })
+    }
+    if (stream.peek()?.value === 'or') throw new UnsupportedSql('OR is not supported')
+  } while (stream.accept('and'))
+  if (!stream.done) throw new UnsupportedSql('unsupported WHERE clause')
+  return row => parts.every(part => part(row))
+}
+
+// ============================================
+// Select lists / embeds
+// ============================================
+
+type Selection = { name: string; alias: string; embed?: { table: string; selections: Selection[] } }
+
+function splitTopLevel(list: string): string[] {
+  const parts: string[] = []
+  let depth = 0
+  let current = ''
+  for (const char of list) {
+    if (char === '(') depth++
+    if (char === ')') depth--
+    if (char === ',' && depth === 0) {
+      parts.push(current.trim())
+      current = ''
+    } else {
+      current += char
+    }
+  }
+  if (current.trim()) parts.push(current.trim())
+  return parts
+}
+
+function parseSelectList(list: string): Selection[] {
+  return splitTopLevel(list || '*').map(part => {
+    const match = /^(?:([\w]+):)?([\w*]+)(?:![\w]+)?(?:\((.*)\))?$/.exec(part.replace(/\s+/g, ''))
+    if (!match) throw new QueryError(`failed to parse select parameter (${part})`, 'PGRST100')
+    const [, alias, name, nested] = match
+    if (nested !== undefined) return { name, alias: alias || name, embed: { table: name, selections: parseSelectList(nested) } }
+    return { name, alias: alias || name }
+  })
+}
+
+// ============================================
+// Database
+// ============================================
+
+export type LocalDatabaseOptions = {
+  /**
+   * false: tables appear on first use, any column is accepted and inserts fill id / created_at /
+   * updated_at — for tests that seed rows without replaying migrations
+   */
+  strict?: boolean
+}
+
+export class LocalDatabase {
+  private tables = new Map<string, Table>()
+  readonly strict: boolean
+
+  constructor(options: LocalDatabaseOptions = {}) {
+    this.strict = options.strict ?? true
+  }
+
+  /** Database with every migration replayed: 001_initial_setup first, the rest by file name */
+  static fromMigrations(files: MigrationFile[]): LocalDatabase {
+    const db = new LocalDatabase()
+    const ordered = [...files].sort((a, b) => {
+      const aInitial = /^\d/.test(a.name)
+      const bInitial = /^\d/.test(b.name)
+      if (aInitial !== bInitial) return aInitial ? -1 : 1
+      return a.name.localeCompare(b.name)
+    })
+    for (const file of ordered) db.applySql(file.sql)
+    return db
+  }
+
+  /** Deep copy, e.g. to keep the freshly seeded state around for resets */
+  clone(): LocalDatabase {
+    const copy = new LocalDatabase({ strict: this.strict })
+    for (const [name, table] of Array.from(this.tables)) {
+      copy.tables.set(name, {
+        ...table,
+        columns: new Map(Array.from(table.columns, ([key, column]) => [key, { ...column }])),
+        primaryKey: [...table.primaryKey],
+        uniqueKeys: table.uniqueKeys.map(key => [...key]),
+        rows: structuredClone(table.rows),
+      })
+    }
+    return copy
+  }
+
+  /** Replace the rows of the given tables (loose mode creates them) */
+  seed(tables: Record<string, LocalRow[]>): void {
+    for (const [name, rows] of Object.entries(tables)) {
+      const table = this.table(name)
+      table.rows = rows.map(row => ({ ...row }))
+    }
+  }
+
+  /** Drop every table (loose mode) or every row (strict mode) */
+  clear(): void {
+    if (!this.strict) this.tables.clear()
+    else for (const table of Array.from(this.tables.values())) table.rows = []
+  }
+
+  hasTable(name: string): boolean {
+    return this.tables.has(name)
+  }
+
+  /** Live rows of a table; loose mode creates the table */
+  rows(name: string): LocalRow[] {
+    return this.table(name).rows
+  }
+
+  /** Replay a migration file; statements that cannot be evaluated locally are skipped */
+  applySql(sql: string): void {
+    for (const statement of splitSqlStatements(sql)) {
+      try {
+        this.applyStatement(new TokenStream(tokenize(statement)))
+      } catch (err) {
+        if (!(err instanceof UnsupportedSql)) throw err
+      }
+    }
+  }
+
+  execute(query: LocalQuery): LocalResult {
+    try {
+      const table = this.table(query.table)
+      const selections = parseSelectList(query.columns)
+      if (query.op === 'select' || query.returning) this.checkSelection(table, selections)
+      for (const { column } of query.orders) this.column(table, column)
+
+      const rows = this.run(table, query)
+      if (query.op !== 'select' && !query.returning) return { data: null, error: null }
+
+      let result = this.sorted(rows, query.orders)
+      if (query.limit != null) result = result.slice(0, query.limit)
+      const data = result.map(row => this.project(table, row, selections))
+
+      if (query.mode === 'many') return { data, error: null }
+      if (data.length === 1) return { data: data[0], error: null }
+      if (data.length === 0 && query.mode === 'maybeSingle') return { data: null, error: null }
+      return { data: null, error: SINGLE_ROW_ERROR }
+    } catch (err) {
+      if (err instanceof QueryError) return { data: null, error: { message: err.message, code: err.code } }
+      throw err
+    }
+  }
+
+  // ---------- tables ----------
+
+  private table(name: string): Table {
+    const existing = this.tables.get(name)
+    if (existing) return existing
+    if (this.strict) throw new QueryError(`relation "public.${name}" does not exist`, '42P01')
+    const table: Table = { name, columns: new Map(), primaryKey: ['id'], uniqueKeys: [], rows: [], sequence: 0 }
+    this.tables.set(name, table)
+    return table
+  }
+
+  private column(table: Table, name: string): Column | undefined {
+    const column = table.columns.get(name)
+    if (!column && this.strict) throw new QueryError(`column ${table.name}.${name} does not exist`, '42703')
+    return column
+  }
+
+  private writableColumn(table: Table, name: string): Column | undefined {
+    const column = table.columns.get(name)
+    if (!column && this.strict) {
+      throw new QueryError(`Could not find the '${name}' column of '${table.name}' in the schema cache`, 'PGRST204')
+    }
+    return column
+  }
+
+  // ---------- SQL statements ----------
+
+  private applyStatement(stream: TokenStream): void {
+    if (stream.accept('create', 'table')) return this.createTable(stream)
+    if (stream.accept('alter', 'table')) return this.alterTable(stream)
+    if (stream.accept('insert', 'into')) return this.insertSql(stream)
+    if (stream.accept('update')) return this.updateSql(stream)
+    if (stream.accept('drop', 'table')) {
+      stream.accept('if', 'exists')
+      const name = stream.name()
+      if (name) this.tables.delete(name)
+    }
+  }
+
+  private createTable(stream: TokenStream): void {
+    const ifNotExists = stream.accept('if', 'not', 'exists')
+    const name = stream.name()
+    if (!name) return
+    if (this.tables.has(name)) {
+      if (ifNotExists) return
+      throw new UnsupportedSql(`relation "${name}" already exists`)
+    }
+    const table: Table = { name, columns: new Map(), primaryKey: [], uniqueKeys: [], rows: [], sequence: 0 }
+    stream.expect('(')
+    do {
+      if (parseTableConstraint(stream, table)) continue
+      const { column, primaryKey } = parseColumnDefinition(stream)
+      table.columns.set(column.name, column)
+      if (primaryKey) table.primaryKey = [column.name]
+    } while (stream.accept(','))
+    stream.expect(')')
+    this.tables.set(name, table)
+  }
+
+  private alterTable(stream: TokenStream): void {
+    stream.accept('if', 'exists')
+    stream.accept('only')
+    const name = stream.name()
+    const table = name ? this.tables.get(name) : undefined
+    if (!table) return
+    do {
+      if (stream.accept('add')) {
+        if (parseTableConstraint(stream, table)) continue
+        stream.accept('column')
+        const ifNotExists = stream.accept('if', 'not', 'exists')
+        const { column, primaryKey } = parseColumnDefinition(stream)
+        if (table.columns.has(column.name)) {
+          if (ifNotExists) continue
+          throw new UnsupportedSql(`column "${column.name}" already exists`)
+        }
+        table.columns.set(column.name, column)
+        if (primaryKey) table.primaryKey = [column.name]
+        for (const row of table.rows) row[column.name] = column.default ? coerce(column, evaluate(column.default, row)) : null
+      } else if (stream.accept('drop', 'column')) {
+        stream.accept('if', 'exists')
+        const column = stream.next().value
+        table.columns.delete(column)
+        for (const row of table.rows) delete row[column]
+      } else if (stream.accept('drop', 'constraint')) {
+        stream.accept('if', 'exists')
+        const constraint = stream.next().value
+        if (constraint === `${table.name}_pkey`) table.primaryKey = []
+        table.uniqueKeys = table.uniqueKeys.filter(key => `${table.name}_${key.join('_')}_key` !== constraint)
+        stream.accept('cascade')
+      } else if (stream.accept('rename', 'column')) {
+        const from = stream.next().value
+        stream.expect('to')
+        const to = stream.next().value
+        const column = table.columns.get(from)
+        if (!column) throw new UnsupportedSql(`column "${from}" does not exist`)
+        table.columns.delete(from)
+        table.columns.set(to, { ...column, name: to })
+        table.primaryKey = table.primaryKey.map(key => (key === from ? to : key))
+        table.uniqueKeys = table.uniqueKeys.map(key => key.map(name => (name === from ? to : name)))
+        for (const row of table.rows) {
+          row[to] = row[from]
+          delete row[from]
+        }
+      } else if (stream.accept('alter', 'column') || stream.accept('alter')) {
+        const column = table.columns.get(stream.next().value)
+        if (!column) throw new UnsupportedSql('unknown column')
+        if (stream.accept('set', 'default')) column.default = parseExpr(stream.until())
+        else if (stream.accept('drop', 'default')) column.default = undefined
+        else if (stream.accept('set', 'not', 'null')) column.notNull = true
+        else if (stream.accept('drop', 'not', 'null')) column.notNull = false
+        else throw new UnsupportedSql('unsupported ALTER COLUMN')
+      } else {
+        // ENABLE ROW LEVEL SECURITY, REPLICA IDENTITY, OWNER TO, …
+        return
+      }
+    } while (stream.accept(','))
+  }
+
+  private insertSql(stream: TokenStream): void {
+    const name = stream.name()
+    if (!name) return
+    const table = this.tables.get(name)
+    if (!table) throw new UnsupportedSql(`relation "${name}" does not exist`)
+    const columns = stream.nameList()
+    stream.expect('values')
+    const rows: LocalRow[] = []
+    do {
+      stream.expect('(')
+      const row: LocalRow = {}
+      columns.forEach((column, index) => {
+        if (index > 0) stream.expect(',')
+        row[column] = coerce(table.columns.get(column), evaluate(parseExpr(stream.until())), true)
+      })
+      stream.expect(')')
+      rows.push(row)
+    } while (stream.accept(','))
+
+    let conflict: 'error' | 'nothing' = 'error'
+    let target = table.primaryKey
+    if (stream.accept('on', 'conflict')) {
+      if (stream.peek()?.value === '(') target = stream.nameList()
+      stream.expect('do', 'nothing')
+      conflict = 'nothing'
+    }
+    if (!stream.done) throw new UnsupportedSql('unsupported INSERT')
+    for (const row of rows) {
+      if (conflict === 'nothing' && this.findConflict(table, row, target)) continue
+      this.insertRow(table, row)
+    }
+  }
+
+  private updateSql(stream: TokenStream): void {
+    const name = stream.name()
+    if (!name) return
+    const table = this.tables.get(name)
+    if (!table) throw new UnsupportedSql(`relation "${name}" does not exist`)
+    stream.expect('set')
+    const assignments: [string, Expr][] = []
+    do {
+      const column = stream.next().value
+      stream.expect('=')
+      assignments.push([column, parseExpr(stream.until(['where']))])
+    } while (stream.accept(','))
+    const condition = stream.accept('where') ? parseCondition(stream) : () => true
+    if (!stream.done) throw new UnsupportedSql('unsupported UPDATE')
+    for (const row of table.rows.filter(condition)) {
+      const values = Object.fromEntries(assignments.map(([column, expr]) => [column, coerce(table.columns.get(column), evaluate(expr, row), true)]))
+      Object.assign(row, values)
+    }
+  }
+
+  // ---------- queries ----------
+
+  private run(table: Table, query: LocalQuery): LocalRow[] {
+    switch (query.op) {
+      case 'select':
+        return table.rows.filter(this.matcher(table, query.filters))
+      case 'insert':
+        return (query.values || []).map(values => this.insertRow(table, this.writable(table, values)))
+      case 'upsert': {
+        const target = query.onConflict ? query.onConflict.split(',').map(key => key.trim()) : table.primaryKey
+        const result: LocalRow[] = []
+        for (const raw of query.values || []) {
+          const values = this.writable(table, raw)
+          const existing = this.findConflict(table, values, target)
+          if (!existing) result.push(this.insertRow(table, values))
+          else if (!query.ignoreDuplicates) result.push(this.updateRow(table, existing, values))
+        }
+        return result
+      }
+      case 'update': {
+        const values = this.writable(table, query.values?.[0] || {})
+        return table.rows.filter(this.matcher(table, query.filters)).map(row => this.updateRow(table, row, values))
+      }
+      case 'delete': {
+        const doomed = table.rows.filter(this.matcher(table, query.filters))
+        this.deleteRows(table, doomed)
+        return doomed
+      }
+    }
+  }
+
+  /** Drop undefined values (as JSON would) and coerce to the column types */
+  private writable(table: Table, values: LocalRow): LocalRow {
+    const row: LocalRow = {}
+    for (const [key, value] of Object.entries(values)) {
+      if (value === undefined) continue
+      row[key] = coerce(this.writableColumn(table, key), value)
+    }
+    return row
+  }
+
+  private insertRow(table: Table, values: LocalRow): LocalRow {
+    const row: LocalRow = {}
+    for (const column of Array.from(table.columns.values())) {
+      if (column.name in values) row[column.name] = values[column.name]
+      else if (SERIAL_TYPES.test(column.type)) row[column.name] = this.nextSerial(table, column.name)
+      else row[column.name] = column.default ? coerce(column, evaluate(column.default, values)) : null
+    }
+    if (!this.strict) {
+      const now = new Date().toISOString()
+      Object.assign(row, { id: values.id ?? this.nextSerial(table, 'id'), created_at: now, updated_at: now }, values)
+    }
+    for (const column of Array.from(table.columns.values())) {
+      if (column.notNull && row[column.name] == null) {
+        throw new QueryError(`null value in column "${column.name}" of relation "${table.name}" violates not-null constraint`, '23502')
+      }
+    }
+    this.checkUnique(table, row)
+    table.rows.push(row)
+    return row
+  }
+
+  private updateRow(table: Table, row: LocalRow, values: LocalRow): LocalRow {
+    const updated = { ...row, ...values }
+    for (const column of Array.from(table.columns.values())) {
+      if (column.notNull && updated[column.name] == null) {
+        throw new QueryError(`null value in column "${column.name}" of relation "${table.name}" violates not-null constraint`, '23502')
+      }
+    }
+    this.checkUnique(table, updated, row)
+    return Object.assign(row, values)
+  }
+
+  private deleteRows(table: Table, doomed: LocalRow[]): void {
+    if (doomed.length === 0) return
+    const referencing: { child: Table; column: string; onDelete: ForeignKey['onDelete']; affected: LocalRow[] }[] = []
+    for (const child of Array.from(this.tables.values())) {
+      for (const column of Array.from(child.columns.values())) {
+        const ref = column.references
+        if (!ref || ref.table !== table.name) continue
+        const keys = new Set(doomed.map(row => row[ref.column]))
+        const affected = child.rows.filter(row => row[column.name] != null && keys.has(row[column.name]))
+        if (affected.length === 0) continue
+        // ON DELETE RESTRICT (and the default NO ACTION): refuse before anything is deleted
+        if (ref.onDelete === 'restrict') {
+          throw new QueryError(
+            `update or delete on table "${table.name}" violates foreign key constraint "${child.name}_${column.name}_fkey" on table "${child.name}"`,
+            '23503'
+          )
+        }
+        referencing.push({ child, column: column.name, onDelete: ref.onDelete, affected })
+      }
+    }
+    table.rows = table.rows.filter(row => !doomed.includes(row))
+    // ON DELETE CASCADE / SET NULL of tables referencing this one
+    for (const { child, column, onDelete, affected } of referencing) {
+      if (onDelete === 'cascade') this.deleteRows(child, affected)
+      else for (const row of affected) row[column] = null
+    }
+  }
+
+  /** Serial values continue after the highest id present, so explicitly seeded ids never collide */
+  private nextSerial(table: Table, column: string): number {
+    const highest = table.rows.reduce((max, row) => (typeof row[column] === 'number' && row[column] > max ? row[column] : max), 0)
+    table.sequence = Math.max(table.sequence, highest) + 1
+    return table.sequence
+  }
+
+  private findConflict(table: Table, values: LocalRow, target: string[]): LocalRow | undefined {
+    if (target.length === 0 || target.some(key => values[key] == null)) return undefined
+    return table.rows.find(row => target.every(key => compare(row[key], values[key]) === 0))
+  }
+
+  private checkUnique(table: Table, row: LocalRow, self?: LocalRow): void {
+    const keys: [string, string[]][] = []
+    if (table.primaryKey.length > 0) keys.push([`${table.name}_pkey`, table.primaryKey])
+    for (const column of Array.from(table.columns.values())) {
+      if (column.unique) keys.push([`${table.name}_${column.name}_key`, [column.name]])
+    }
+    for (const columns of table.uniqueKeys) keys.push([`${table.name}_${columns.join('_')}_key`, columns])
+    for (const [constraint, columns] of keys) {
+      const duplicate = this.findConflict(table, row, columns)
+      if (duplicate && duplicate !== self) {
+        throw new QueryError(`duplicate key value violates unique constraint "${constraint}"`, '23505')
+      }
+    }
+  }
+
+  private matcher(table: Table, filters: LocalFilter[]): (row: LocalRow) => boolean {
+    const tests = filters.map(({ column: name, op, value }) => {
+      const column = this.column(table, name)
+      const expected = op === 'in' ? (value as unknown[]).map(item => coerce(column, item)) : coerce(column, value)
+      const pattern = op === 'ilike' ? ilikePattern(String(value)) : null
+      return (row: LocalRow): boolean => {
+        const actual = row[name]
+        switch (op) {
+          case 'is':
+            return expected === null ? actual == null : actual === expected
+          case 'not.is':
+            return expected === null ? actual != null : actual !== expected
+          case 'in':
+            return actual != null && (expected as unknown[]).some(item => compare(actual, item) === 0)
+          case 'ilike':
+            return typeof actual === 'string' && !!pattern?.test(actual)
+        }
+        // SQL comparisons with NULL are never true
+        if (actual == null || expected == null) return false
+        const diff = compare(actual, expected)
+        switch (op) {
+          case 'eq':
+            return diff === 0
+          case 'neq':
+            return diff !== 0
+          case 'gt':
+            return diff > 0
+          case 'gte':
+            return diff >= 0
+          case 'lt':
+            return diff < 0
+          case 'lte':
+            return diff <= 0
+        }
+      }
+    })
+    return row => tests.every(test => test(row))
+  }
+
+  private sorted(rows: LocalRow[], orders: LocalOrder[]): LocalRow[] {
+    if (orders.length === 0) return rows
+    return [...rows].sort((a, b) => {
+      for (const { column, ascending, nullsFirst } of orders) {
+        const left = a[column]
+        const right = b[column]
+        if (left == null || right == null) {
+          if (left == null && right == null) continue
+          // Postgres puts nulls last ascending and first descending unless told otherwise
+          return (left == null) === (nullsFirst ?? !ascending) ? -1 : 1
+        }
+        const diff = compare(left, right)
+        if (diff !== 0) return ascending ? diff : -diff
+      }
+      return 0
+    })
+  }
+
+  /** Unknown columns and embeds fail even when no row matches, like PostgREST */
+  private checkSelection(table: Table, selections: Selection[]): void {
+    for (const selection of selections) {
+      if (selection.embed) {
+        const child = this.tables.get(selection.embed.table)
+        if (!child && !this.strict) continue
+        if (!child || !this.relationship(table, child)) {
+          throw new QueryError(
+            `Could not find a relationship between '${table.name}' and '${selection.embed.table}' in the schema cache`,
+            'PGRST200'
+          )
+        }
+        this.checkSelection(child, selection.embed.selections)
+      } else if (selection.name !== '*') {
+        this.column(table, selection.name)
+      }
+    }
+  }
+
+  /** Foreign key joining two tables: child rows pointing at the parent (many) or the other way round (one) */
+  private relationship(parent: Table, child: Table): { kind: 'many' | 'one'; from: string; to: string } | null {
+    const toParent = Array.from(child.columns.values()).find(column => column.references?.table === parent.name)
+    if (toParent) return { kind: 'many', from: toParent.references!.column, to: toParent.name }
+    const toChild = Array.from(parent.columns.values()).find(column => column.references?.table === child.name)
+    if (toChild) return { kind: 'one', from: toChild.name, to: toChild.references!.column }
+    // Loose mode: children carry `<parent>_id`
+    if (!this.strict) return { kind: 'many', from: 'id', to: `${singularize(parent.name)}_id` }
+    return null
+  }
+
+  private project(table: Table, row: LocalRow, selections: Selection[]): LocalRow {
+    const result: LocalRow = {}
+    for (const selection of selections) {
+      if (selection.embed) {
+        const child = this.tables.get(selection.embed.table)
+        const relationship = child && this.relationship(table, child)
+        if (!child || !relationship) {
+          result[selection.alias] = []
+          continue
+        }
+        const key = row[relationship.from]
+        const related = child.rows.filter(item => key != null && compare(item[relationship.to], key) === 0)
+        const embedded = related.map(item => this.project(child, item, selection.embed!.selections))
+        result[selection.alias] = relationship.kind === 'many' ? embedded : embedded[0] ?? null
+      } else if (selection.name === '*') {
+        Object.assign(result, structuredClone(row))
+      } else {
+        result[selection.alias] = structuredClone(row[selection.name] ?? null)
+      }
+    }
+    return result
+  }
+}
@@ -0,0 +1,45 @@
+import { readFileSync, readdirSync } from 'fs'
+import path from 'path'
+import { LocalDatabase, type LocalQuery, type LocalResult } from './localDb'
+
+/**
+ * Server-only home of the local data backend's database: supabase/migrations replayed into memory
+ * on first use. Lives on globalThis so dev-server reloads and separately bundled route handlers
+ * share one database; data is gone when the server stops.
+ */
+
+const MIGRATIONS_DIR = path.join(process.cwd(), 'supabase', 'migrations')
+
+type LocalDbState = { seed: LocalDatabase; current: LocalDatabase }
+
+const STATE_KEY = Symbol.for('japan-travel-app.localDb')
+
+function loadSeed(): LocalDatabase {
+  const files = readdirSync(MIGRATIONS_DIR)
+    .filter(name => name.endsWith('.sql'))
+    .map(name => ({ name, sql: readFileSync(path.join(MIGRATIONS_DIR, name), 'utf8') }))
+  return LocalDatabase.fromMigrations(files)
+}
+
+function state(): LocalDbState {
+  const store = globalThis as Record<symbol, LocalDbState | undefined>
+  if (!store[STATE_KEY]) {
+    const seed = loadSeed()
+    store[STATE_KEY] = { seed, current: seed.clone() }
+  }
+  return store[STATE_KEY]!
+}
+
+export function getLocalDatabase(): LocalDatabase {
+  return state().current
+}
+
+export async function executeLocalQuery(query: LocalQuery): Promise<LocalResult> {
+  return getLocalDatabase().execute(query)
+}
+
+/** Back to the freshly migrated state (end-to-end tests call this between tests) */
+export function resetLocalDatabase(): void {
+  const current = state()
+  current.current = current.seed.clone()
+}
@@ -0,0 +1,195 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { LocalFilterOp, LocalQuery, LocalResult, LocalRow } from './localDb'
+
+/**
+ * Supabase client stand-in for the local data backend (NEXT_PUBLIC_DATA_BACKEND=local): the
+ * query builder calls supabase.ts makes are collected into a LocalQuery and handed to an executor.
+ * In the browser the executor POSTs to /api/local-db; on the server it is the in-memory database
+ * registered by src/instrumentation.ts. No realtime (channels are inert) and no Storage.
+ */
+
+export type LocalQueryExecutor = (query: LocalQuery) => Promise<LocalResult>
+
+export function isLocalDataBackend(): boolean {
+  return process.env.NEXT_PUBLIC_DATA_BACKEND === 'local'
+}
+
+// Kept on globalThis: instrumentation and route handlers are bundled separately on the server
+const SERVER_EXECUTOR_KEY = Symbol.for('japan-travel-app.localDbExecutor')
+
+/** Server side: where queries run (set once by instrumentation, or by tests) */
+export function registerLocalQueryExecutor(execute: LocalQueryExecutor | null): void {
+  ;(globalThis as Record<symbol, unknown>)[SERVER_EXECUTOR_KEY] = execute
+}
+
+async function executeOverHttp(query: LocalQuery): Promise<LocalResult> {
+  try {
+    const res = await fetch('/api/local-db', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(query),
+    })
+    const body = await res.json().catch(() => null)
+    if (!body) return { data: null, error: { message: `本機資料庫回應錯誤（${res.status}）` } }
+    return body as LocalResult
+  } catch (err) {
+    // Same shape supabase-js reports network failures in, so the offline fallbacks kick in
+    const error = err as Error
+    return { data: null, error: { message: `${error.name}: ${error.message}` } }
+  }
+}
+
+async function executeDefault(query: LocalQuery): Promise<LocalResult> {
+  if (typeof window !== 'undefined') return executeOverHttp(query)
+  const execute = (globalThis as Record<symbol, LocalQueryExecutor | undefined>)[SERVER_EXECUTOR_KEY]
+  if (!execute) return { data: null, error: { message: '本機資料庫尚未啟動（src/instrumentation.ts 未執行）' } }
+  return execute(query)
+}
+
+class LocalQueryBuilder implements PromiseLike<LocalResult> {
+  private query: LocalQuery
+
+  constructor(private execute: LocalQueryExecutor, table: string) {
+    this.query = { table, op: 'select', columns: '*', returning: false, filters: [], orders: [], mode: 'many' }
+  }
+
+  select(columns = '*') {
+    this.query.columns = columns
+    if (this.query.op !== 'select') this.query.returning = true
+    return this
+  }
+
+  insert(values: LocalRow | LocalRow[]) {
+    this.query.op = 'insert'
+    this.query.values = Array.isArray(values) ? values : [values]
+    return this
+  }
+
+  upsert(values: LocalRow | LocalRow[], options: { onConflict?: string; ignoreDuplicates?: boolean } = {}) {
+    this.query.op = 'upsert'
+    this.query.values = Array.isArray(values) ? values : [values]
+    this.query.onConflict = options.onConflict
+    this.query.ignoreDuplicates = options.ignoreDuplicates
+    return this
+  }
+
+  update(values: LocalRow) {
+    this.query.op = 'update'
+    this.query.values = [values]
+    return this
+  }
+
+  delete() {
+    this.query.op = 'delete'
+    return this
+  }
+
+  private where(column: string, op: LocalFilterOp, value: unknown) {
+    this.query.filters.push({ column, op, value })
+    return this
+  }
+
+  eq(column: string, value: unknown) {
+    return this.where(column, 'eq', value)
+  }
+
+  neq(column: string, value: unknown) {
+    return this.where(column, 'neq', value)
+  }
+
+  is(column: string, value: null | boolean) {
+    return this.where(column, 'is', value)
+  }
+
+  not(column: string, operator: string, value: unknown) {
+    if (operator !== 'is') throw new Error(`本機資料後端不支援 not(${operator})`)
+    return this.where(column, 'not.is', value)
+  }
+
+  in(column: string, values: unknown[]) {
+    return this.where(column, 'in', values)
+  }
+
+  ilike(column: string, pattern: string) {
+    return this.where(column, 'ilike', pattern)
+  }
+
+  gt(column: string, value: unknown) {
+    return this.where(column, 'gt', value)
+  }
+
+  gte(column: string, value: unknown) {
+    return this.where(column, 'gte', value)
+  }
+
+  lt(column: string, value: unknown) {
+    return this.where(column, 'lt', value)
+  }
+
+  lte(column: string, value: unknown) {
+    return this.where(column, 'lte', value)
+  }
+
+  order(column: string, options: { ascending?: boolean; nullsFirst?: boolean } = {}) {
+    this.query.orders.push({ column, ascending: options.ascending ?? true, nullsFirst: options.nullsFirst })
+    return this
+  }
+
+  limit(count: number) {
+    this.query.limit = count
+    return this
+  }
+
+  single() {
+    this.query.mode = 'single'
+    return this
+  }
+
+  maybeSingle() {
+    this.query.mode = 'maybeSingle'
+    return this
+  }
+
+  returns() {
+    return this
+  }
+
+  then<TResult1 = LocalResult, TResult2 = never>(
+    onfulfilled?: ((value: LocalResult) => TResult1 | PromiseLike<TResult1>) | null,
+    onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | null
+  ): PromiseLike<TResult1 | TResult2> {
+    return Promise.resolve()
+      .then(() => this.execute(this.query))
+      .then(onfulfilled, onrejected)
+  }
+}
+
+function createChannel() {
+  const channel = {
+    on: () => channel,
+    subscribe: () => channel,
+    send: async () => 'ok',
+    track: async () => 'ok',
+    untrack: async () => 'ok',
+    unsubscribe: async () => 'ok',
+    presenceState: () => ({}),
+  }
+  return channel
+}
+
+const NO_STORAGE = { data: null, error: { message: '本機資料後端沒有 Storage，請一併設定 NEXT_PUBLIC_IMAGE_STORAGE=local' } }
+
+export function createLocalSupabaseClient(execute: LocalQueryExecutor = executeDefault): SupabaseClient {
+  return {
+    from: (table: string) => new LocalQueryBuilder(execute, table),
+    channel: () => createChannel(),
+    removeChannel: async () => 'ok',
+    storage: {
+      from: () => ({
+        upload: async () => NO_STORAGE,
+        remove: async () => NO_STORAGE,
+        getPublicUrl: () => ({ data: { publicUrl: '' } }),
+      }),
+    },
+  } as unknown as SupabaseClient
+}
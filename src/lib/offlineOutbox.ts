@@ -0,0 +1,301 @@
+import {
+  OUTBOX_STORE,
+  SNAPSHOT_STORE,
+  clearRecords,
+  getAllRecords,
+  putRecord,
+  deleteRecord,
+  readSnapshotsWithPrefix,
+} from './offlineStore'
+
+/**
+ * Mutation outbox: writes made while offline (or that hit a network error) are queued in
+ * IndexedDB and answered optimistically; they are replayed in order when the connection
+ * returns. supabase.ts registers one set of replay handlers per table.
+ *
+ * Rows created offline get a negative temp id until their insert is replayed.
+ * An update/delete whose row changed (updated_at) or vanished on the server in the meantime
+ * becomes a `conflict` for the user to resolve in <OfflineStatus />.
+ */
+
+export type OutboxTable = 'trips' | 'wishlist_items' | 'expenses'
+export type OutboxOp = 'insert' | 'update' | 'delete'
+
+type Row = Record<string, unknown> & { id: number }
+
+export type OutboxEntry = {
+  seq?: number
+  table: OutboxTable
+  op: OutboxOp
+  /** Row id; negative for rows created offline */
+  id: number
+  values?: Record<string, unknown>
+  /** Snapshot scope an insert belongs to (e.g. `trips:3:japan`), so it only shows in that list */
+  scope?: string
+  /** updated_at the user last saw; a different server value at replay time is a conflict */
+  baseUpdatedAt?: string | null
+  status: 'pending' | 'conflict' | 'failed'
+  error?: string
+  /** Server row at conflict time (null = deleted on the server) */
+  serverRow?: Row | null
+  queuedAt: string
+}
+
+export type ReplayHandlers = {
+  insert: (values: Record<string, unknown>) => Promise<{ data: Row | null; error: string | null }>
+  update: (id: number, values: Record<string, unknown>) => Promise<{ error: string | null }>
+  remove: (id: number) => Promise<{ error: string | null }>
+  /** Current server row; null when it no longer exists, undefined when the network failed */
+  fetchCurrent: (id: number) => Promise<Row | null | undefined>
+}
+
+export const OUTBOX_TABLE_LABELS: Record<OutboxTable, string> = {
+  trips: '行程',
+  wishlist_items: '美食清單',
+  expenses: '支出',
+}
+
+const handlers: Partial<Record<OutboxTable, ReplayHandlers>> = {}
+const listeners = new Set<(entries: OutboxEntry[], synced: number) => void>()
+let replaying = false
+let tempCounter = 0
+
+export function registerReplayHandlers(table: OutboxTable, tableHandlers: ReplayHandlers): void {
+  handlers[table] = tableHandlers
+}
+
+export function createTempId(): number {
+  tempCounter = (tempCounter + 1) % 1000
+  return -(Date.now() * 1000 + tempCounter)
+}
+
+export function isTempId(id: number | null | undefined): boolean {
+  return typeof id === 'number' && id < 0
+}
+
+export function isOffline(): boolean {
+  return typeof navigator !== 'undefined' && navigator.onLine === false
+}
+
+export function isNetworkError(message: string | null | undefined): boolean {
+  if (!message) return false
+  return /failed to fetch|networkerror|network request failed|load failed|fetch failed/i.test(message)
+}
+
+/**
+ * Should a write be queued instead of sent? True when offline, after a network error,
+ * or when it targets a row that only exists in the outbox. Never while replaying.
+ */
+export function shouldQueueMutation(error?: { message?: string } | null, id?: number): boolean {
+  if (typeof window === 'undefined' || replaying) return false
+  if (isTempId(id)) return true
+  return isOffline() || isNetworkError(error?.message)
+}
+
+export async function getOutboxEntries(): Promise<OutboxEntry[]> {
+  const entries = await getAllRecords<OutboxEntry>(OUTBOX_STORE)
+  return entries.sort((a, b) => (a.seq ?? 0) - (b.seq ?? 0))
+}
+
+export function subscribeOutbox(listener: (entries: OutboxEntry[], synced: number) => void): () => void {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+async function notify(synced = 0): Promise<void> {
+  const entries = await getOutboxEntries()
+  listeners.forEach(listener => listener(entries, synced))
+}
+
+/** Last row the client saw (any snapshot scope, or a pending insert) */
+export async function lastKnownRow(table: OutboxTable, id: number): Promise<Row | null> {
+  if (isTempId(id)) {
+    const insert = (await getOutboxEntries()).find(e => e.table === table && e.op === 'insert' && e.id === id)
+    return insert ? ({ ...insert.values, id } as Row) : null
+  }
+  const snapshots = await readSnapshotsWithPrefix<Row[]>(`${table}:`)
+  for (const rows of snapshots) {
+    const hit = Array.isArray(rows) ? rows.find(r => r.id === id) : undefined
+    if (hit) return hit
+  }
+  return null
+}
+
+/** Queue a write. Changes to rows created offline are folded into their pending insert. */
+export async function enqueueMutation(
+  entry: Omit<OutboxEntry, 'seq' | 'status' | 'queuedAt'>
+): Promise<void> {
+  const entries = await getOutboxEntries()
+
+  if (isTempId(entry.id)) {
+    const insert = entries.find(e => e.table === entry.table && e.op === 'insert' && e.id === entry.id)
+    if (insert && entry.op === 'update') {
+      await putRecord(OUTBOX_STORE, { ...insert, values: { ...insert.values, ...entry.values } })
+      await notify()
+      return
+    }
+    if (entry.op === 'delete') {
+      for (const e of entries) {
+        if (e.table === entry.table && e.id === entry.id && e.seq != null) await deleteRecord(OUTBOX_STORE, e.seq)
+      }
+      await notify()
+      return
+    }
+  }
+
+  let baseUpdatedAt = entry.baseUpdatedAt
+  if (baseUpdatedAt === undefined && entry.op !== 'insert') {
+    const known = await lastKnownRow(entry.table, entry.id)
+    baseUpdatedAt = typeof known?.updated_at === 'string' ? known.updated_at : null
+  }
+
+  await putRecord(OUTBOX_STORE, {
+    ...entry,
+    baseUpdatedAt,
+    status: 'pending',
+    queuedAt: new Date().toISOString(),
+  } satisfies Omit<OutboxEntry, 'seq'>)
+  await notify()
+}
+
+/** Overlay queued (not yet replayed) writes onto rows read from the server or a snapshot */
+export async function applyPendingMutations<T extends { id: number }>(
+  table: OutboxTable,
+  scope: string,
+  rows: T[]
+): Promise<T[]> {
+  const entries = (await getOutboxEntries()).filter(e => e.table === table && e.status !== 'conflict')
+  if (entries.length === 0) return rows
+
+  let result = [...rows]
+  for (const e of entries) {
+    if (e.op === 'insert' && e.scope === scope && !result.some(r => r.id === e.id)) {
+      result.push({ ...(e.values as object), id: e.id } as T)
+    } else if (e.op === 'update') {
+      result = result.map(r => (r.id === e.id ? { ...r, ...e.values } : r))
+    } else if (e.op === 'delete') {
+      result = result.filter(r => r.id !== e.id)
+    }
+  }
+  return result
+}
+
+async function replaceIdInLaterEntries(table: OutboxTable, tempId: number, realId: number): Promise<void> {
+  const entries = await getOutboxEntries()
+  for (const e of entries) {
+    if (e.table === table && e.id === tempId) await putRecord(OUTBOX_STORE, { ...e, id: realId })
+  }
+}
+
+/** Replay an entry. Returns false when the network failed again (stop and keep the rest). */
+async function replayEntry(entry: OutboxEntry, tableHandlers: ReplayHandlers): Promise<boolean> {
+  const seq = entry.seq as number
+
+  if (entry.op === 'insert') {
+    const { data, error } = await tableHandlers.insert(entry.values || {})
+    if (error) {
+      if (isNetworkError(error)) return false
+      await putRecord(OUTBOX_STORE, { ...entry, status: 'failed', error })
+      return true
+    }
+    await deleteRecord(OUTBOX_STORE, seq)
+    if (data) await replaceIdInLaterEntries(entry.table, entry.id, data.id)
+    return true
+  }
+
+  const current = await tableHandlers.fetchCurrent(entry.id)
+  if (current === undefined) return false
+  if (current === null) {
+    // Already gone: nothing left to delete; an edit to it is a conflict
+    if (entry.op === 'delete') await deleteRecord(OUTBOX_STORE, seq)
+    else await putRecord(OUTBOX_STORE, { ...entry, status: 'conflict', serverRow: null })
+    return true
+  }
+  const serverUpdatedAt = typeof current.updated_at === 'string' ? current.updated_at : null
+  if (entry.baseUpdatedAt && serverUpdatedAt && serverUpdatedAt !== entry.baseUpdatedAt) {
+    await putRecord(OUTBOX_STORE, { ...entry, status: 'conflict', serverRow: current })
+    return true
+  }
+
+  const { error } =
+    entry.op === 'update'
+      ? await tableHandlers.update(entry.id, entry.values || {})
+      : await tableHandlers.remove(entry.id)
+  if (error) {
+    if (isNetworkError(error)) return false
+    await putRecord(OUTBOX_STORE, { ...entry, status: 'failed', error })
+    return true
+  }
+  await deleteRecord(OUTBOX_STORE, seq)
+  return true
+}
+
+/** Send queued writes in order; conflicts and failures stay in the outbox for the user */
+export async function replayOutbox(): Promise<void> {
+  if (replaying || isOffline()) return
+  replaying = true
+  let synced = 0
+  try {
+    // Re-read after every entry: a replayed insert rewrites later entries' temp ids
+    for (;;) {
+      const next = (await getOutboxEntries()).find(e => e.status === 'pending')
+      if (!next) break
+      const tableHandlers = handlers[next.table]
+      if (!tableHandlers) break
+      const ok = await replayEntry(next, tableHandlers)
+      if (!ok) break
+      synced++
+    }
+  } catch (err) {
+    console.error('Outbox replay error:', err)
+  } finally {
+    replaying = false
+  }
+  await notify(synced)
+}
+
+/**
+ * Resolve a conflict / failure: `mine` re-sends the queued change over the server version,
+ * `discard` drops it (the server version stays).
+ */
+export async function resolveOutboxEntry(seq: number, resolution: 'mine' | 'discard'): Promise<void> {
+  const entry = (await getOutboxEntries()).find(e => e.seq === seq)
+  if (!entry) return
+  if (resolution === 'discard') {
+    await deleteRecord(OUTBOX_STORE, seq)
+    await notify()
+    return
+  }
+  const serverUpdatedAt = typeof entry.serverRow?.updated_at === 'string' ? entry.serverRow.updated_at : entry.baseUpdatedAt
+  await putRecord(OUTBOX_STORE, {
+    ...entry,
+    status: 'pending',
+    error: undefined,
+    serverRow: undefined,
+    baseUpdatedAt: serverUpdatedAt ?? null,
+  })
+  await replayOutbox()
+}
+
+/**
+ * On logout: send what can still be sent with this session, then forget the rest along with the
+ * snapshots, so the next user of the device neither sees this user's data nor replays their writes.
+ */
+export async function clearOfflineData(): Promise<void> {
+  await replayOutbox()
+  await Promise.all([clearRecords(OUTBOX_STORE), clearRecords(SNAPSHOT_STORE)])
+  await notify()
+}
+
+/** Replay now and whenever the browser comes back online. Returns a cleanup. */
+export function startOutboxSync(): () => void {
+  if (typeof window === 'undefined') return () => {}
+  const onOnline = () => {
+    void replayOutbox()
+  }
+  window.addEventListener('online', onOnline)
+  void replayOutbox()
+  return () => window.removeEventListener('online', onOnline)
+}
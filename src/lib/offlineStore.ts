@@ -0,0 +1,97 @@
+/**
+ * IndexedDB for offline use (pocket WiFi drops out a lot).
+ * - `snapshots`: last successful read per query scope (e.g. `trips:3:japan`), used when the network fails
+ * - `outbox`: queued creates / updates / deletes, replayed by offlineOutbox.ts
+ * Every helper resolves to an empty result when IndexedDB is unavailable (SSR, private mode).
+ */
+
+const DB_NAME = 'japan-travel-offline'
+const DB_VERSION = 1
+export const SNAPSHOT_STORE = 'snapshots'
+export const OUTBOX_STORE = 'outbox'
+
+let dbPromise: Promise<IDBDatabase | null> | null = null
+
+function openDb(): Promise<IDBDatabase | null> {
+  if (typeof indexedDB === 'undefined') return Promise.resolve(null)
+  if (dbPromise) return dbPromise
+
+  dbPromise = new Promise(resolve => {
+    try {
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+      request.onupgradeneeded = () => {
+        const db = request.result
+        if (!db.objectStoreNames.contains(SNAPSHOT_STORE)) db.createObjectStore(SNAPSHOT_STORE)
+        if (!db.objectStoreNames.contains(OUTBOX_STORE)) {
+          db.createObjectStore(OUTBOX_STORE, { keyPath: 'seq', autoIncrement: true })
+        }
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => {
+        console.error('Error opening offline store:', request.error)
+        resolve(null)
+      }
+    } catch (e) {
+      console.error('Error opening offline store:', e)
+      resolve(null)
+    }
+  })
+  return dbPromise
+}
+
+function run<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest,
+  fallback: T
+): Promise<T> {
+  return openDb().then(
+    db =>
+      new Promise<T>(resolve => {
+        if (!db) return resolve(fallback)
+        try {
+          const request = action(db.transaction(storeName, mode).objectStore(storeName))
+          request.onsuccess = () => resolve((request.result as T) ?? fallback)
+          request.onerror = () => {
+            console.error(`Offline store ${storeName} error:`, request.error)
+            resolve(fallback)
+          }
+        } catch (e) {
+          console.error(`Offline store ${storeName} error:`, e)
+          resolve(fallback)
+        }
+      })
+  )
+}
+
+export function readSnapshot<T>(key: string): Promise<T | null> {
+  return run<T | null>(SNAPSHOT_STORE, 'readonly', store => store.get(key), null)
+}
+
+export function writeSnapshot(key: string, value: unknown): Promise<void> {
+  return run<unknown>(SNAPSHOT_STORE, 'readwrite', store => store.put(value, key), null).then(() => undefined)
+}
+
+/** All snapshots whose key starts with `prefix` (e.g. every `trips:` scope) */
+export async function readSnapshotsWithPrefix<T>(prefix: string): Promise<T[]> {
+  if (typeof IDBKeyRange === 'undefined') return []
+  const range = IDBKeyRange.bound(prefix, `${prefix}\uffff`)
+  return run<T[]>(SNAPSHOT_STORE, 'readonly', store => store.getAll(range), [])
+}
+
+export function getAllRecords<T>(storeName: string): Promise<T[]> {
+  return run<T[]>(storeName, 'readonly', store => store.getAll(), [])
+}
+
+/** Insert or replace; resolves to the record key (the outbox seq for new entries) */
+export function putRecord(storeName: string, value: unknown): Promise<IDBValidKey | null> {
+  return run<IDBValidKey | null>(storeName, 'readwrite', store => store.put(value), null)
+}
+
+export function deleteRecord(storeName: string, key: IDBValidKey): Promise<void> {
+  return run<unknown>(storeName, 'readwrite', store => store.delete(key), null).then(() => undefined)
+}
+
+export function clearRecords(storeName: string): Promise<void> {
+  return run<unknown>(storeName, 'readwrite', store => store.clear(), null).then(() => undefined)
+}
@@ -0,0 +1,93 @@
+/**
+ * Salted password hashing (PBKDF2-SHA256 via Web Crypto).
+ * Works in the browser, Node route handlers and the Edge middleware runtime alike.
+ *
+ * Stored format: `pbkdf2$<iterations>$<saltB64url>$<hashB64url>`
+ * Rows without the `pbkdf2$` prefix are legacy plaintext passwords and are
+ * re-hashed on the next successful login (see /api/auth/login).
+ */
+
+const HASH_PREFIX = 'pbkdf2'
+const ITERATIONS = 100_000
+const SALT_BYTES = 16
+const KEY_BITS = 256
+
+export function bytesToBase64Url(bytes: Uint8Array): string {
+  let bin = ''
+  for (let i = 0; i < bytes.length; i++) bin += String.fromCharCode(bytes[i])
+  return btoa(bin).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+export function base64UrlToBytes(s: string) {
+  const b64 = s.replace(/-/g, '+').replace(/_/g, '/')
+  const padded = b64 + '='.repeat((4 - (b64.length % 4)) % 4)
+  const bin = atob(padded)
+  const out = new Uint8Array(bin.length)
+  for (let i = 0; i < bin.length; i++) out[i] = bin.charCodeAt(i)
+  return out
+}
+
+async function derive(password: string, salt: BufferSource, iterations: number): Promise<Uint8Array> {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(password),
+    'PBKDF2',
+    false,
+    ['deriveBits']
+  )
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    key,
+    KEY_BITS
+  )
+  return new Uint8Array(bits)
+}
+
+function timingSafeEqual(a: Uint8Array, b: Uint8Array): boolean {
+  if (a.length !== b.length) return false
+  let diff = 0
+  for (let i = 0; i < a.length; i++) diff |= a[i] ^ b[i]
+  return diff === 0
+}
+
+/** 是否為已雜湊的密碼（否則視為舊版明文） */
+export function isPasswordHash(stored: string | null | undefined): boolean {
+  return typeof stored === 'string' && stored.startsWith(`${HASH_PREFIX}$`)
+}
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES))
+  const hash = await derive(password, salt, ITERATIONS)
+  return `${HASH_PREFIX}$${ITERATIONS}$${bytesToBase64Url(salt)}$${bytesToBase64Url(hash)}`
+}
+
+/**
+ * Check a password against a stored value.
+ * `needsRehash` is true when the stored value is legacy plaintext and matched.
+ */
+export async function verifyPassword(
+  password: string,
+  stored: string | null | undefined
+): Promise<{ valid: boolean; needsRehash: boolean }> {
+  if (!stored) return { valid: false, needsRehash: false }
+
+  if (!isPasswordHash(stored)) {
+    const enc = new TextEncoder()
+    const valid = timingSafeEqual(enc.encode(password), enc.encode(stored))
+    return { valid, needsRehash: valid }
+  }
+
+  const [, iterRaw, saltRaw, hashRaw] = stored.split('$')
+  const iterations = parseInt(iterRaw, 10)
+  if (!Number.isFinite(iterations) || iterations < 1 || !saltRaw || !hashRaw) {
+    return { valid: false, needsRehash: false }
+  }
+  try {
+    const expected = base64UrlToBytes(hashRaw)
+    const actual = await derive(password, base64UrlToBytes(saltRaw), iterations)
+    const valid = timingSafeEqual(actual, expected)
+    return { valid, needsRehash: valid && iterations < ITERATIONS }
+  } catch {
+    return { valid: false, needsRehash: false }
+  }
+}
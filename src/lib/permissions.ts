@@ -0,0 +1,143 @@
+import Cookies from 'js-cookie'
+import { USER_INFO_COOKIE_NAME } from './session'
+
+/**
+ * Role → capability matrix. UI and the data functions in supabase.ts both ask `can(user, capability)`.
+ * Legacy `user` rows (before roles existed) behave as `planner`.
+ */
+
+export type Role = 'viewer' | 'planner' | 'treasurer' | 'admin'
+
+export type Capability =
+  | 'trips.edit' // 行程、天數、住所、航班
+  | 'wishlist.edit' // 新增／編輯／刪除美食清單
+  | 'reactions.add' // 讚好、旅遊須知勾選、❤️❤️
+  | 'wallet.personal.write' // 自己的個人支出
+  | 'wallet.shared.write' // 自己記的共同支出
+  | 'wallet.shared.manage' // 他人的共同支出、預算
+  | 'settings.edit' // 網站設定、目的地、Chiikawa 對白、旅遊須知
+  | 'users.manage'
+  | 'trash.manage'
+  | 'activity.revert' // 活動紀錄「還原此變更」
+
+export const ROLES: Role[] = ['viewer', 'planner', 'treasurer', 'admin']
+
+export const ROLE_LABELS: Record<Role, string> = {
+  viewer: '觀看者',
+  planner: '行程規劃',
+  treasurer: '財務',
+  admin: '管理員',
+}
+
+export const ROLE_DESCRIPTIONS: Record<Role, string> = {
+  viewer: '只可瀏覽，記錄個人支出',
+  planner: '可編輯行程、美食清單、共同支出',
+  treasurer: '可管理共同支出及預算',
+  admin: '可存取全部後台功能',
+}
+
+const VIEWER: Capability[] = ['reactions.add', 'wallet.personal.write']
+
+export const ROLE_CAPABILITIES: Record<Role, ReadonlySet<Capability>> = {
+  viewer: new Set(VIEWER),
+  planner: new Set<Capability>([...VIEWER, 'trips.edit', 'wishlist.edit', 'wallet.shared.write']),
+  treasurer: new Set<Capability>([...VIEWER, 'wallet.shared.write', 'wallet.shared.manage']),
+  admin: new Set<Capability>([
+    ...VIEWER,
+    'trips.edit',
+    'wishlist.edit',
+    'wallet.shared.write',
+    'wallet.shared.manage',
+    'settings.edit',
+    'users.manage',
+    'trash.manage',
+    'activity.revert',
+  ]),
+}
+
+/** Map stored role strings (incl. legacy 'user') onto a known role; unknown → viewer */
+export function normalizeRole(role: string | null | undefined): Role {
+  if (role === 'user') return 'planner'
+  return ROLES.includes(role as Role) ? (role as Role) : 'viewer'
+}
+
+export function can(user: { role?: string | null } | null | undefined, capability: Capability): boolean {
+  if (!user) return false
+  return ROLE_CAPABILITIES[normalizeRole(user.role)].has(capability)
+}
+
+/**
+ * What a write to each table needs when checked on the server (route handlers; the Supabase policies in
+ * add_role_policies.sql mirror it). Coarser than the data functions: site settings, trip plans and
+ * wishlist items also take reactions, so any signed-in user may update them. `expenses` rows are
+ * checked one by one with canWriteExpense; tables not listed are not written by the browser.
+ */
+export const TABLE_WRITE_CAPABILITIES: Record<string, Capability> = {
+  trips: 'trips.edit',
+  trip_schedule_items: 'trips.edit',
+  trip_plans: 'reactions.add',
+  site_settings: 'reactions.add',
+  wishlist_items: 'reactions.add',
+  checklist_states: 'reactions.add',
+  activity_log: 'reactions.add',
+  destinations: 'settings.edit',
+  region_custom_areas: 'settings.edit',
+  exchange_rates: 'wallet.shared.write',
+  wallet_settings: 'wallet.shared.manage',
+  expenses: 'wallet.personal.write',
+  users: 'users.manage',
+}
+
+/**
+ * What storing or removing an image needs, by its top folder in the images bucket (imageStorage.ts);
+ * the storage policies in add_role_policies.sql mirror it. Avatars are each user's own profile.
+ */
+export const IMAGE_FOLDER_CAPABILITIES: Record<string, Capability> = {
+  trips: 'trips.edit',
+  settings: 'trips.edit',
+  wishlist: 'wishlist.edit',
+  avatars: 'reactions.add',
+}
+
+/**
+ * Personal expenses: only the owner (wallet.personal.write).
+ * Shared expenses: own rows with wallet.shared.write, anyone's with wallet.shared.manage.
+ * Settle-up payments belong to both the payer and the receiver.
+ */
+export function canWriteExpense(
+  user: { username: string; role?: string | null } | null | undefined,
+  row: { type?: string | null; username?: string | null; kind?: string | null; paid_to?: string | null }
+): boolean {
+  if (!user) return false
+  const isOwner = user.username === row.username || (row.kind === 'settlement' && user.username === row.paid_to)
+  if (row.type === 'personal') return isOwner && can(user, 'wallet.personal.write')
+  return (isOwner && can(user, 'wallet.shared.write')) || can(user, 'wallet.shared.manage')
+}
+
+export type SessionUserInfo = { username: string; role: Role; displayName: string; avatarUrl?: string }
+
+/** Display info written by /api/auth/login next to the signed session cookie (UI hint only). */
+export function getSessionUserInfo(): SessionUserInfo | null {
+  if (typeof window === 'undefined') return null
+
+  const userInfo = Cookies.get(USER_INFO_COOKIE_NAME)
+  if (userInfo) {
+    try {
+      const parsed = JSON.parse(userInfo)
+      if (!parsed || typeof parsed.username !== 'string') return null
+      return { ...parsed, role: normalizeRole(parsed.role) }
+    } catch {
+      return null
+    }
+  }
+  return null
+}
+
+/**
+ * Guard for client-side data functions: returns an error message when the signed-in
+ * user lacks the capability, otherwise null. Server callers (route handlers) skip it.
+ */
+export function permissionError(capability: Capability): string | null {
+  if (typeof window === 'undefined') return null
+  return can(getSessionUserInfo(), capability) ? null : '沒有權限執行此操作'
+}
@@ -17,6 +17,12 @@ export function QueryProvider({ children }: { children: React.ReactNode }) {
             retry: 1,
             // Refetch on window focus
             refetchOnWindowFocus: true,
+            // Offline: still call queryFn once so supabase.ts can answer from its IndexedDB snapshot
+            networkMode: 'offlineFirst',
+          },
+          mutations: {
+            // Offline writes go to the outbox (offlineOutbox.ts) instead of being paused here
+            networkMode: 'always',
           },
         },
       })
@@ -0,0 +1,232 @@
+/**
+ * 收據辨識：reads a receipt photo on the device (tesseract.js, WebAssembly — the photo never leaves
+ * the browser) and picks out what the expense form needs: the total, the date, the shop and, on
+ * Japanese receipts, the 税込 total and tax-free (免税) / reduced-rate (※ 軽減税率) marks.
+ *
+ * The engine is swappable (`setOcrEngine`) and `parseReceiptText` is plain text in, fields out, so
+ * the parsing can be tested without OCR. Language data is downloaded once and cached by the
+ * browser; set NEXT_PUBLIC_OCR_LANG_PATH to serve it yourself.
+ */
+
+export type ReceiptItem = {
+  name: string
+  amount: number
+  /** ※ / 軽: 8% reduced rate (food, drinks) */
+  reducedTax?: boolean
+  /** 免: sold tax-free */
+  taxFree?: boolean
+}
+
+/** What could be read; every field may be missing */
+export type ReceiptScan = {
+  /** Amount paid: the 税込 total when there is one */
+  total: number | null
+  /** 税込合計 / 合計（税込） as printed, or 小計 + 外税 */
+  taxIncludedTotal: number | null
+  subtotal: number | null
+  tax: number | null
+  /** YYYY-MM-DD */
+  date: string | null
+  shopName: string | null
+  /** ISO 4217 code when the receipt shows it (¥ / 円 → JPY, HK$ → HKD, …) */
+  currency: string | null
+  /** 免税 / Tax Free receipt */
+  taxFree: boolean
+  items: ReceiptItem[]
+}
+
+export type OcrEngine = {
+  name: string
+  /** Plain text of the image, line by line; `onProgress` gets 0–1 */
+  recognize(image: string | Blob, onProgress?: (progress: number) => void): Promise<string>
+}
+
+/** Japanese first, English for shop names, card slips and foreign receipts */
+const OCR_LANGS = ['jpn', 'eng']
+
+export const tesseractEngine: OcrEngine = {
+  name: 'tesseract',
+  async recognize(image, onProgress) {
+    // Loaded on first scan only: the WebAssembly core is large
+    const { createWorker } = await import('tesseract.js')
+    const worker = await createWorker(OCR_LANGS, undefined, {
+      ...(process.env.NEXT_PUBLIC_OCR_LANG_PATH ? { langPath: process.env.NEXT_PUBLIC_OCR_LANG_PATH } : {}),
+      logger: (m: { status: string; progress: number }) => {
+        if (m.status === 'recognizing text') onProgress?.(m.progress)
+      },
+    })
+    try {
+      const { data } = await worker.recognize(image)
+      return data.text
+    } finally {
+      await worker.terminate()
+    }
+  },
+}
+
+let engine: OcrEngine = tesseractEngine
+
+export function getOcrEngine(): OcrEngine {
+  return engine
+}
+
+/** Swap the engine (null = tesseract.js) */
+export function setOcrEngine(next: OcrEngine | null): void {
+  engine = next || tesseractEngine
+}
+
+// ============================================
+// Parsing
+// ============================================
+
+/** Half-width digits / ASCII, ￥ → ¥, and no spaces between Japanese characters (OCR adds them) */
+function normalizeLine(line: string): string {
+  return line
+    .normalize('NFKC')
+    .replace(/[−―‐](?=\d)/g, '-')
+    .replace(/(?<=[^\x00-\x7F])\s+(?=[^\x00-\x7F])/g, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+/** Text of a line without spaces, for keyword matching */
+function labelOf(line: string): string {
+  return line.replace(/\s+/g, '').toUpperCase()
+}
+
+/**
+ * Amount at the end of a line, after a space or currency sign ("合計 ¥1,234", "お茶 150円",
+ * "TOTAL HK$12.50", "(内消費税等 ¥43)"), so "新宿3-1-1" is not read as -1
+ */
+const TRAILING_AMOUNT =
+  /(?:^|[\s¥\\$(])(-?)(?:[A-Z]{2}\$|[¥\\$])?\s*((?:\d{1,3}(?:,\d{3})+|\d+)(?:\.\d{1,2})?)\s*(?:円|[A-Z]{3})?\s*[※*軽免]?\s*\)?$/
+
+function trailingAmount(line: string): number | null {
+  const match = line.match(TRAILING_AMOUNT)
+  if (!match) return null
+  const amount = parseFloat(match[2].replace(/,/g, ''))
+  return Number.isFinite(amount) ? (match[1] ? -amount : amount) : null
+}
+
+const TAX_INCLUDED_TOTAL = /税込合計|合計\(税込\)|税込計|税込金額|お買上げ?合計|お買上計|お買い上げ合計|ご請求額|お会計/
+const TOTAL = /合計|^計|TOTAL|AMOUNTDUE/
+const SUBTOTAL = /小計|SUBTOTAL/
+const TAX = /消費税|内税|外税|税額|^TAX/
+/** "(8%対象 ¥1,080)" is the amount taxed, not the tax */
+const NOT_TAX = /対象|免税/
+/** Lines after the total: payment, change, card slip */
+const NOT_AN_ITEM =
+  /預り|預かり|お釣|釣銭|おつり|CHANGE|CASH|現金|クレジット|VISA|MASTER|JCB|SUICA|PASMO|ICOCA|電子マネー|支払|対象|TEL|電話|登録番号|レジ|担当|NO\.|領収|返品/
+
+function parseDate(text: string): string | null {
+  const valid = (y: number, m: number, d: number) =>
+    m >= 1 && m <= 12 && d >= 1 && d <= 31 ? `${y}-${String(m).padStart(2, '0')}-${String(d).padStart(2, '0')}` : null
+
+  const western = text.match(/(20\d{2})\s*[年/.-]\s*(\d{1,2})\s*[月/.-]\s*(\d{1,2})/)
+  if (western) return valid(Number(western[1]), Number(western[2]), Number(western[3]))
+
+  // 令和8年5月10日 / R8.5.10 (令和元年 = 2019)
+  const reiwa = text.match(/(?:令和|R)\s*(\d{1,2}|元)\s*[年/.]\s*(\d{1,2})\s*[月/.]\s*(\d{1,2})/)
+  if (reiwa) return valid(2018 + (reiwa[1] === '元' ? 1 : Number(reiwa[1])), Number(reiwa[2]), Number(reiwa[3]))
+
+  const short = text.match(/(?<![\d.,])(\d{2})\/(\d{1,2})\/(\d{1,2})(?![\d.,])/)
+  if (short) return valid(2000 + Number(short[1]), Number(short[2]), Number(short[3]))
+  return null
+}
+
+function parseCurrency(text: string): string | null {
+  if (/HK\$/.test(text)) return 'HKD'
+  if (/NT\$/.test(text)) return 'TWD'
+  if (/US\$/.test(text)) return 'USD'
+  if (/₩|원/.test(text)) return 'KRW'
+  if (/฿|บาท/.test(text)) return 'THB'
+  if (/¥|円|税込|消費税/.test(text)) return 'JPY'
+  return null
+}
+
+/** Latin, kana, kanji, hangul and Thai letters */
+const LETTER = /[A-Za-z\u3040-\u30ff\u3400-\u9fff\uac00-\ud7af\u0e00-\u0e7f]/
+
+const NOT_A_SHOP_NAME = /領収|レシート|RECEIPT|いらっしゃいませ|ありがとう|TEL|電話|〒|登録番号|^\d/i
+
+/** Shop name: the first line near the top that reads like a name */
+function parseShopName(lines: string[]): string | null {
+  for (const line of lines.slice(0, 6)) {
+    if (!LETTER.test(line) || NOT_A_SHOP_NAME.test(line) || parseDate(line) || trailingAmount(line) != null) continue
+    const name = line.replace(/^[\s\-=*#★☆◆■【「]+|[\s\-=*#★☆◆■】」]+$/g, '')
+    if (name.length >= 2) return name
+  }
+  return null
+}
+
+/** Read the fields of a receipt out of OCR text */
+export function parseReceiptText(text: string): ReceiptScan {
+  const lines = text.split(/\r?\n/).map(normalizeLine).filter(Boolean)
+
+  let taxIncludedTotal: number | null = null
+  let total: number | null = null
+  let subtotal: number | null = null
+  let tax: number | null = null
+  let externalTax = false
+  // Items are listed above the first total line
+  let itemsEnd = lines.length
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i]
+    const label = labelOf(line)
+    const amount = trailingAmount(line)
+    if (/外税|税抜/.test(label)) externalTax = true
+    // 点数: number of items
+    if (amount == null || /点数/.test(label)) continue
+    if (TAX_INCLUDED_TOTAL.test(label)) taxIncludedTotal ??= amount
+    else if (SUBTOTAL.test(label)) subtotal ??= amount
+    else if (TAX.test(label) && !NOT_TAX.test(label)) tax ??= amount
+    else if (TOTAL.test(label)) total ??= amount
+    else continue
+    itemsEnd = Math.min(itemsEnd, i)
+  }
+
+  // 外税 without a readable total: 小計 is before tax, so 小計 + 税 is what was paid
+  if (taxIncludedTotal == null && total == null && subtotal != null && tax != null && externalTax) {
+    taxIncludedTotal = subtotal + tax
+  }
+  const all = lines.join('\n')
+  // On receipts that mention tax at all, 合計 is the amount paid including it
+  if (taxIncludedTotal == null && total != null && /税/.test(all)) taxIncludedTotal = total
+
+  const shopName = parseShopName(lines)
+  const items: ReceiptItem[] = []
+  for (const line of lines.slice(0, itemsEnd)) {
+    const amount = trailingAmount(line)
+    if (amount == null || line === shopName || parseDate(line) || NOT_AN_ITEM.test(labelOf(line)) || line.includes('@')) continue
+    const name = line
+      .replace(TRAILING_AMOUNT, '')
+      .replace(/^[※*軽免]\s*|\s*[※*軽免]$/g, '')
+      .trim()
+    if (!LETTER.test(name)) continue
+    const discount = /値引|割引|DISCOUNT/i.test(name)
+    items.push({
+      name,
+      amount: discount ? -Math.abs(amount) : amount,
+      ...(/[※*]|軽$/.test(line) ? { reducedTax: true } : {}),
+      ...(/免$|免税/.test(line) ? { taxFree: true } : {}),
+    })
+  }
+
+  return {
+    total: taxIncludedTotal ?? total ?? subtotal,
+    taxIncludedTotal,
+    subtotal,
+    tax,
+    date: parseDate(all),
+    shopName,
+    currency: parseCurrency(all),
+    taxFree: /免税|TAX\s*FREE/i.test(all),
+    items,
+  }
+}
+
+/** OCR a receipt photo (data URL or blob) and parse it */
+export async function scanReceipt(image: string | Blob, onProgress?: (progress: number) => void): Promise<ReceiptScan> {
+  return parseReceiptText(await engine.recognize(image, onProgress))
+}
@@ -8,8 +8,9 @@
  */
 
 const CLEARABLE_KEYS = [
-  'admin_trash_bin',          // Admin trash bin — backed up in Supabase before deletion
   'travel_info_cache',        // Pure cache, safe to clear
+  'weather_cache',            // Pure cache, refetched from the weather provider
+  'exchange_rates_cache',     // Pure cache, refetched from the rate provider
 ]
 
 export function safeSetItem(key: string, value: string): boolean {
@@ -0,0 +1,109 @@
+/**
+ * HMAC-signed session tokens shared by the login route handler and middleware.
+ * Token format: `<payloadB64url>.<signatureB64url>` where the payload is
+ * `{ username, role, exp }` JSON and the signature is HMAC-SHA256 over the payload segment.
+ *
+ * The secret comes from AUTH_SESSION_SECRET (server-only env var).
+ */
+import { base64UrlToBytes, bytesToBase64Url } from './password'
+
+export const SESSION_COOKIE_NAME = 'admin_auth_token'
+export const USER_INFO_COOKIE_NAME = 'user_info'
+/** Supabase access token for the browser's client; row-level security reads the role from it */
+export const SUPABASE_TOKEN_COOKIE_NAME = 'supabase_access_token'
+export const SESSION_MAX_AGE_SECONDS = 24 * 60 * 60 // 1 day
+
+export type SessionPayload = {
+  username: string
+  role: string
+  /** Expiry, unix seconds */
+  exp: number
+}
+
+const DEV_FALLBACK_SECRET = 'japan-travel-dev-session-secret'
+
+/** Returns null in production when the secret is not configured (all sessions are then rejected). */
+export function getSessionSecret(): string | null {
+  const secret = process.env.AUTH_SESSION_SECRET
+  if (secret && secret.length > 0) return secret
+  if (process.env.NODE_ENV !== 'production') return DEV_FALLBACK_SECRET
+  return null
+}
+
+async function hmacKey(secret: string): Promise<CryptoKey> {
+  return crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign', 'verify']
+  )
+}
+
+export async function signSessionToken(
+  data: { username: string; role: string },
+  secret: string,
+  maxAgeSeconds: number = SESSION_MAX_AGE_SECONDS
+): Promise<string> {
+  const payload: SessionPayload = {
+    username: data.username,
+    role: data.role,
+    exp: Math.floor(Date.now() / 1000) + maxAgeSeconds,
+  }
+  const body = bytesToBase64Url(new TextEncoder().encode(JSON.stringify(payload)))
+  const sig = await crypto.subtle.sign('HMAC', await hmacKey(secret), new TextEncoder().encode(body))
+  return `${body}.${bytesToBase64Url(new Uint8Array(sig))}`
+}
+
+/** Verify signature and expiry. Returns the payload, or null for any invalid/expired token. */
+export async function verifySessionToken(
+  token: string | null | undefined,
+  secret: string | null
+): Promise<SessionPayload | null> {
+  if (!token || !secret) return null
+  const [body, sig, extra] = token.split('.')
+  if (!body || !sig || extra !== undefined) return null
+  try {
+    const ok = await crypto.subtle.verify(
+      'HMAC',
+      await hmacKey(secret),
+      base64UrlToBytes(sig),
+      new TextEncoder().encode(body)
+    )
+    if (!ok) return null
+    const payload = JSON.parse(new TextDecoder().decode(base64UrlToBytes(body))) as SessionPayload
+    if (typeof payload?.username !== 'string' || typeof payload.role !== 'string') return null
+    if (typeof payload.exp !== 'number' || payload.exp * 1000 <= Date.now()) return null
+    return payload
+  } catch {
+    return null
+  }
+}
+
+/** Project JWT secret (Supabase → Settings → API); without it the browser talks to Supabase as anon. */
+export function getSupabaseJwtSecret(): string | null {
+  return process.env.SUPABASE_JWT_SECRET || null
+}
+
+/**
+ * HS256 JWT Supabase accepts as an access token: `sub` = username, `app_role` = role, checked by
+ * the policies in supabase/migrations/add_role_policies.sql.
+ */
+export async function signSupabaseAccessToken(
+  data: { username: string; role: string },
+  secret: string,
+  maxAgeSeconds: number = SESSION_MAX_AGE_SECONDS
+): Promise<string> {
+  const now = Math.floor(Date.now() / 1000)
+  const encode = (part: object) => bytesToBase64Url(new TextEncoder().encode(JSON.stringify(part)))
+  const body = `${encode({ alg: 'HS256', typ: 'JWT' })}.${encode({
+    sub: data.username,
+    role: 'authenticated',
+    aud: 'authenticated',
+    app_role: data.role,
+    iat: now,
+    exp: now + maxAgeSeconds,
+  })}`
+  const sig = await crypto.subtle.sign('HMAC', await hmacKey(secret), new TextEncoder().encode(body))
+  return `${body}.${bytesToBase64Url(new Uint8Array(sig))}`
+}
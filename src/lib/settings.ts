@@ -1,12 +1,27 @@
 // Site settings with Supabase sync
-import { getSupabaseSiteSettings, saveSupabaseSiteSettings, type SiteSettingsDB, type DestinationDB, getSupabaseDestinations, DEFAULT_DESTINATIONS } from './supabase'
+import {
+  getSupabaseSiteSettings,
+  saveSupabaseSiteSettings,
+  type SiteSettingsDB,
+  type DestinationDB,
+  getSupabaseDestinations,
+  DEFAULT_DESTINATIONS,
+  getSupabaseTripPlans,
+  createSupabaseTripPlan,
+  updateSupabaseTripPlan,
+  deleteSupabaseTripPlan,
+  TRIP_PLAN_COLUMNS,
+  type TripPlanDB,
+} from './supabase'
 import { DEFAULT_FLIGHT_CX527_RETURN, DEFAULT_SEED_FLIGHTS, type FlightRecord } from './flightInfo'
+import { getCurrentPlanId, setCurrentPlanId } from './currentTripPlan'
+import { getCurrentDestination } from './currentDestination'
+import { getDeviceTimeZone, getTimeZoneForCountry, todayInTimeZone } from './tripCalendar'
 
 const SETTINGS_KEY = 'site_settings'
 /** 使用者曾透過儲存明確清空航班列表時設為 1，之後不再自動寫入預設航班 */
 const FLIGHT_LIST_USER_EMPTIED_KEY = 'site_settings_flight_list_user_emptied'
 const SETTINGS_CACHE_KEY = 'site_settings_cache_time'
-const DESTINATION_KEY = 'current_destination'
 const DESTINATIONS_CACHE_KEY = 'destinations_cache'
 const CACHE_DURATION = 5 * 60 * 1000 // 5 minutes cache
 
@@ -51,6 +66,9 @@ export interface SiteSettings {
   flights?: FlightRecord[]
   /** 各 Day 的 ❤️❤️ 累計（管理員於行程頁 😈 新增） */
   dayHeartCounts?: Record<number, number>
+  /** 目前旅程（trip_plans）；未執行 trip_plans migration 時為 undefined */
+  planId?: number
+  planName?: string
 }
 
 // Default travel notice items
@@ -97,7 +115,7 @@ const defaultSettings: SiteSettings = {
     lat: 35.6969,
     lng: 139.8144,
   },
-  tripStartDate: new Date().toISOString().split('T')[0],
+  tripStartDate: todayInTimeZone(getDeviceTimeZone()),
   totalDays: 3,
   daySchedules: [
     { dayNumber: 1, theme: 'Day 1' },
@@ -112,7 +130,7 @@ const defaultSettings: SiteSettings = {
 
 // Convert from Supabase format to local format
 // Returns null if Supabase data is empty/default (so we can fallback to localStorage)
-function fromSupabaseFormat(db: SiteSettingsDB): SiteSettings | null {
+export function fromSupabaseFormat(db: SiteSettingsDB): SiteSettings | null {
   // If Supabase has no real data (just default insert), return null to use localStorage instead
   if (!db.home_location && !db.day_schedules && !db.trip_start_date) {
     return null
@@ -135,7 +153,7 @@ function fromSupabaseFormat(db: SiteSettingsDB): SiteSettings | null {
 }
 
 // Convert from local format to Supabase format
-function toSupabaseFormat(settings: Partial<SiteSettings>): Partial<Omit<SiteSettingsDB, 'id' | 'updated_at'>> {
+export function toSupabaseFormat(settings: Partial<SiteSettings>): Partial<Omit<SiteSettingsDB, 'id' | 'updated_at'>> {
   const result: Partial<Omit<SiteSettingsDB, 'id' | 'updated_at'>> = {}
   
   if (settings.title !== undefined) result.title = settings.title
@@ -161,7 +179,54 @@ function toSupabaseFormat(settings: Partial<SiteSettings>): Partial<Omit<SiteSet
   return result
 }
 
-/** Supabase 航班為空時寫入預設去程+回程；僅有舊版單筆 UO848 時補上回程 CX527 */
+// Overlay the per-plan columns (dates, days, home, flights, hearts) onto the site-wide row
+function withTripPlan(db: SiteSettingsDB, plan: TripPlanDB): SiteSettingsDB {
+  return {
+    ...db,
+    home_location: plan.home_location,
+    trip_start_date: plan.trip_start_date,
+    total_days: plan.total_days,
+    day_schedules: plan.day_schedules,
+    flights: plan.flights,
+    day_heart_counts: plan.day_heart_counts,
+  }
+}
+
+// Keep the stored plan id valid: fall back to the first (oldest) plan
+function resolveCurrentPlan(plans: TripPlanDB[]): TripPlanDB | null {
+  if (plans.length === 0) {
+    setCurrentPlanId(null)
+    return null
+  }
+  const storedId = getCurrentPlanId()
+  const plan = plans.find(p => p.id === storedId) || plans[0]
+  if (plan.id !== storedId) setCurrentPlanId(plan.id)
+  return plan
+}
+
+// Writes go to trip_plans (per-plan columns) and site_settings (everything else)
+async function saveToSupabase(dbFormat: Partial<Omit<SiteSettingsDB, 'id' | 'updated_at'>>): Promise<{ success: boolean; error: string | null }> {
+  const planId = getCurrentPlanId()
+  if (planId == null) return saveSupabaseSiteSettings(dbFormat)
+
+  const planPart: Record<string, unknown> = {}
+  const sitePart: Record<string, unknown> = {}
+  for (const [key, value] of Object.entries(dbFormat)) {
+    if ((TRIP_PLAN_COLUMNS as readonly string[]).includes(key)) planPart[key] = value
+    else sitePart[key] = value
+  }
+
+  if (Object.keys(planPart).length > 0) {
+    const result = await updateSupabaseTripPlan(planId, planPart as Partial<TripPlanDB>)
+    if (!result.success) return result
+  }
+  if (Object.keys(sitePart).length > 0) {
+    return saveSupabaseSiteSettings(sitePart as Partial<SiteSettingsDB>)
+  }
+  return { success: true, error: null }
+}
+
+/** Supabase 航班為空時寫入預設去程+回程；僅有舊版單筆 UO848 時補上回程 CX527（只套用於第一個旅程） */
 async function ensureDefaultFlightSeeded(settings: SiteSettings): Promise<SiteSettings> {
   let flights = Array.isArray(settings.flights) ? settings.flights : []
 
@@ -171,7 +236,7 @@ async function ensureDefaultFlightSeeded(settings: SiteSettings): Promise<SiteSe
     }
     const seeded = { ...settings, flights: [...DEFAULT_SEED_FLIGHTS] }
     if (typeof window !== 'undefined') {
-      await saveSupabaseSiteSettings({ flights: seeded.flights })
+      await saveToSupabase({ flights: seeded.flights })
     }
     return seeded
   }
@@ -181,7 +246,7 @@ async function ensureDefaultFlightSeeded(settings: SiteSettings): Promise<SiteSe
   if (hasOutboundSeed && !hasReturnSeed) {
     const upgraded = { ...settings, flights: [...flights, DEFAULT_FLIGHT_CX527_RETURN] }
     if (typeof window !== 'undefined') {
-      await saveSupabaseSiteSettings({ flights: upgraded.flights })
+      await saveToSupabase({ flights: upgraded.flights })
     }
     return upgraded
   }
@@ -189,6 +254,21 @@ async function ensureDefaultFlightSeeded(settings: SiteSettings): Promise<SiteSe
   return settings
 }
 
+// Fetch site settings merged with the current trip plan; null when Supabase has nothing usable
+async function fetchSettingsFromSupabase(): Promise<SiteSettings | null> {
+  const [dbSettings, plans] = await Promise.all([getSupabaseSiteSettings(), getSupabaseTripPlans()])
+  if (!dbSettings) return null
+
+  const plan = resolveCurrentPlan(plans)
+  const settings = fromSupabaseFormat(plan ? withTripPlan(dbSettings, plan) : dbSettings)
+  if (!settings) return null
+
+  if (!plan) return ensureDefaultFlightSeeded(settings)
+  const withPlanInfo = { ...settings, planId: plan.id, planName: plan.name }
+  // Default seed flights belong to the original (migrated) trip only
+  return plan.id === plans[0].id ? ensureDefaultFlightSeeded(withPlanInfo) : withPlanInfo
+}
+
 // Get settings from localStorage cache
 function getLocalSettings(): SiteSettings {
   if (typeof window === 'undefined') return defaultSettings
@@ -253,15 +333,10 @@ export async function getSettingsAsync(): Promise<SiteSettings> {
   }
   
   try {
-    const dbSettings = await getSupabaseSiteSettings()
-    
-    if (dbSettings) {
-      const settings = fromSupabaseFormat(dbSettings)
-      if (settings) {
-        const final = await ensureDefaultFlightSeeded(settings)
-        saveLocalSettings(final)
-        return final
-      }
+    const final = await fetchSettingsFromSupabase()
+    if (final) {
+      saveLocalSettings(final)
+      return final
     }
   } catch (err) {
     console.error('Error fetching settings from Supabase:', err)
@@ -301,7 +376,7 @@ export async function saveSettingsAsync(settings: Partial<SiteSettings>): Promis
   // Then sync to Supabase
   try {
     const dbFormat = toSupabaseFormat(settings)
-    const result = await saveSupabaseSiteSettings(dbFormat)
+    const result = await saveToSupabase(dbFormat)
     
     if (!result.success) {
       console.error('Failed to sync settings to Supabase:', result.error)
@@ -317,15 +392,10 @@ export async function saveSettingsAsync(settings: Partial<SiteSettings>): Promis
 // Force refresh settings from Supabase
 export async function refreshSettings(): Promise<SiteSettings> {
   try {
-    const dbSettings = await getSupabaseSiteSettings()
-    
-    if (dbSettings) {
-      const settings = fromSupabaseFormat(dbSettings)
-      if (settings) {
-        const final = await ensureDefaultFlightSeeded(settings)
-        saveLocalSettings(final)
-        return final
-      }
+    const final = await fetchSettingsFromSupabase()
+    if (final) {
+      saveLocalSettings(final)
+      return final
     }
   } catch (err) {
     console.error('Error refreshing settings from Supabase:', err)
@@ -349,32 +419,61 @@ export async function migrateSettingsToSupabase(): Promise<void> {
 }
 
 // ============================================
-// Destination Management
+// Trip Plans
 // ============================================
 
-// Get current destination from localStorage
-export function getCurrentDestination(): string {
-  if (typeof window === 'undefined') return 'japan'
-  
-  try {
-    return localStorage.getItem(DESTINATION_KEY) || 'japan'
-  } catch (e) {
-    console.error('Error reading current destination:', e)
-    return 'japan'
-  }
+export type { TripPlanDB } from './supabase'
+export { getCurrentPlanId } from './currentTripPlan'
+
+export async function getTripPlansAsync(): Promise<TripPlanDB[]> {
+  const plans = await getSupabaseTripPlans()
+  resolveCurrentPlan(plans)
+  return plans
 }
 
-// Set current destination
-export function setCurrentDestination(destinationId: string): void {
+// Switch plan: drop the cached settings so the next read fetches the new plan's dates/days/flights
+export function switchTripPlan(planId: number): void {
   if (typeof window === 'undefined') return
-  
-  try {
-    localStorage.setItem(DESTINATION_KEY, destinationId)
-  } catch (e) {
-    console.error('Error saving current destination:', e)
+
+  setCurrentPlanId(planId)
+  localStorage.removeItem(SETTINGS_KEY)
+  localStorage.removeItem(SETTINGS_CACHE_KEY)
+  window.dispatchEvent(new CustomEvent('settingsUpdated'))
+}
+
+/** New plan starts empty (1 day from today), keeping the current home location as a starting point */
+export async function createTripPlanAsync(name: string): Promise<{ data: TripPlanDB | null; error: string | null }> {
+  const current = getLocalSettings()
+  return createSupabaseTripPlan({
+    name: name.trim(),
+    home_location: current.homeLocation,
+    trip_start_date: todayInTimeZone(getDestinationTimeZone()),
+    total_days: 1,
+    day_schedules: [{ dayNumber: 1, theme: 'Day 1' }],
+    flights: [],
+    day_heart_counts: {},
+  })
+}
+
+export async function renameTripPlanAsync(planId: number, name: string): Promise<{ success: boolean; error: string | null }> {
+  return updateSupabaseTripPlan(planId, { name: name.trim() })
+}
+
+export async function deleteTripPlanAsync(planId: number): Promise<{ success: boolean; error: string | null }> {
+  const result = await deleteSupabaseTripPlan(planId)
+  if (result.success && getCurrentPlanId() === planId) {
+    setCurrentPlanId(null)
+    localStorage.removeItem(SETTINGS_CACHE_KEY)
   }
+  return result
 }
 
+// ============================================
+// Destination Management
+// ============================================
+
+export { getCurrentDestination, setCurrentDestination } from './currentDestination'
+
 // Get all destinations (cached)
 export function getDestinations(): DestinationDB[] {
   if (typeof window === 'undefined') {
@@ -442,5 +541,24 @@ export function getCurrentDestinationData(): DestinationDB {
   return destination
 }
 
+const TOKYO_CENTER = { lat: 35.6762, lng: 139.6503, zoom: 12 }
+
+/** Default map center of a destination (rows saved before map_center existed use the built-in default) */
+export function getDestinationMapCenter(destination: DestinationDB = getCurrentDestinationData()): { lat: number; lng: number; zoom: number } {
+  const center = destination.map_center || DEFAULT_DESTINATIONS.find(d => d.id === destination.id)?.map_center
+  if (!center) return TOKYO_CENTER
+  return { lat: center.lat, lng: center.lng, zoom: center.zoom ?? TOKYO_CENTER.zoom }
+}
+
+/** ISO 3166-1 alpha-2 country code used to bias geocoding (e.g. 'JP'), or null when unknown */
+export function getDestinationCountryCode(destination: DestinationDB = getCurrentDestinationData()): string | null {
+  return destination.country_code || DEFAULT_DESTINATIONS.find(d => d.id === destination.id)?.country_code || null
+}
+
+/** IANA time zone trip dates and "today" are counted in (from the destination's country code) */
+export function getDestinationTimeZone(destination: DestinationDB = getCurrentDestinationData()): string {
+  return getTimeZoneForCountry(getDestinationCountryCode(destination))
+}
+
 // Export destination type for use in components
 export type { DestinationDB } from './supabase'
@@ -0,0 +1,221 @@
+/**
+ * 分帳：who owes what for the shared wallet. Each expense is split among its participants (equal,
+ * exact amounts, percentages or shares); balances are paid minus owed, and `minimizeTransfers`
+ * settles them with as few transfers as possible. Recorded payments (`paymentEntry`) move balances
+ * like any other entry, so paid transfers drop out of the suggestions.
+ *
+ * Everything is computed in integer minor units of one currency (pass its decimals), so shares of
+ * an expense always add up to the expense and balances to zero.
+ */
+
+export type SplitMode = 'equal' | 'exact' | 'percent' | 'shares'
+
+/** `value`: exact → amount, percent → 0–100, shares → weight; ignored for equal */
+export type SplitParticipant = { username: string; value?: number | null }
+
+/** Stored in expenses.split; null = equal among all wallet members (expenses before splits existed) */
+export type ExpenseSplit = { mode: SplitMode; participants: SplitParticipant[] }
+
+export const SPLIT_MODES: { id: SplitMode; label: string }[] = [
+  { id: 'equal', label: '平均分攤' },
+  { id: 'exact', label: '指定金額' },
+  { id: 'percent', label: '百分比' },
+  { id: 'shares', label: '份數' },
+]
+
+export type SettlementEntry = {
+  /** Who paid */
+  payer: string
+  amount: number
+  split?: ExpenseSplit | null
+}
+
+export type Transfer = { from: string; to: string; amount: number }
+
+/** A recorded settle-up payment: `from` paid `to` back, which counts as `to` owing `from` that amount */
+export function paymentEntry(from: string, to: string, amount: number): SettlementEntry {
+  return { payer: from, amount, split: { mode: 'exact', participants: [{ username: to, value: amount }] } }
+}
+
+function toMinor(amount: number, decimals: number): number {
+  return Math.round(amount * Math.pow(10, decimals))
+}
+
+function fromMinor(units: number, decimals: number): number {
+  return units / Math.pow(10, decimals)
+}
+
+/** Split `total` minor units by `weights`, handing leftover units to the largest remainders (ties: list order) */
+function allocate(total: number, weights: number[]): number[] {
+  const weightSum = weights.reduce((sum, w) => sum + w, 0)
+  if (weightSum <= 0) return weights.map(() => 0)
+  const exact = weights.map(w => (total * w) / weightSum)
+  const result = exact.map(Math.floor)
+  let left = total - result.reduce((sum, v) => sum + v, 0)
+  const order = exact.map((value, i) => ({ i, rest: value - Math.floor(value) })).sort((a, b) => b.rest - a.rest || a.i - b.i)
+  for (let k = 0; left > 0 && order.length > 0; k = (k + 1) % order.length, left--) result[order[k].i]++
+  return result
+}
+
+/** Why the split cannot be used for `amount`, or null when it is fine */
+export function validateSplit(amount: number, split: ExpenseSplit | null | undefined, decimals = 0): string | null {
+  if (!split) return null
+  const participants = split.participants
+  if (participants.length === 0) return '請選擇至少一位分攤者'
+  if (new Set(participants.map(p => p.username)).size !== participants.length) return '分攤者重複'
+  if (split.mode === 'equal') return null
+  const values = participants.map(p => Number(p.value) || 0)
+  if (values.some(v => v < 0)) return '分攤數值不可為負數'
+  const sum = values.reduce((total, v) => total + v, 0)
+  if (split.mode === 'exact' && toMinor(sum, decimals) !== toMinor(amount, decimals)) return `指定金額合計 ${sum} 與支出 ${amount} 不符`
+  if (split.mode === 'percent' && Math.abs(sum - 100) > 0.001) return `百分比合計為 ${sum}%，需為 100%`
+  if (split.mode === 'shares' && sum <= 0) return '份數合計需大於 0'
+  return null
+}
+
+/**
+ * What each participant owes of `amount`; without a split it is shared equally among `members`.
+ * Throws with validateSplit's message when the split does not fit the amount (check first).
+ */
+export function splitAmount(
+  amount: number,
+  split: ExpenseSplit | null | undefined,
+  members: string[],
+  decimals = 0
+): Record<string, number> {
+  const error = validateSplit(amount, split, decimals)
+  if (error) throw new Error(error)
+  const usable = split ?? null
+  const names = usable ? usable.participants.map(p => p.username) : members
+  const total = toMinor(amount, decimals)
+  let units: number[]
+  if (!usable || usable.mode === 'equal') units = allocate(total, names.map(() => 1))
+  else if (usable.mode === 'exact') units = usable.participants.map(p => toMinor(Number(p.value) || 0, decimals))
+  else units = allocate(total, usable.participants.map(p => Number(p.value) || 0))
+
+  const owed: Record<string, number> = {}
+  names.forEach((name, i) => {
+    owed[name] = fromMinor(units[i], decimals)
+  })
+  return owed
+}
+
+/**
+ * Exact amounts are in the expense's currency: scale them when converting the expense. The scaled
+ * amounts are rounded to `decimals` by largest remainder, so they still add up to the converted total.
+ */
+export function scaleSplit(split: ExpenseSplit | null | undefined, factor: number, decimals = 0): ExpenseSplit | null {
+  if (!split) return null
+  if (split.mode !== 'exact') return split
+  const scaled = split.participants.map(p => (Number(p.value) || 0) * factor)
+  const units = allocate(toMinor(scaled.reduce((sum, v) => sum + v, 0), decimals), scaled)
+  return { ...split, participants: split.participants.map((p, i) => ({ ...p, value: fromMinor(units[i], decimals) })) }
+}
+
+/**
+ * Paid minus owed per person (positive = is owed money); `members` share expenses without a split.
+ * Throws like splitAmount when an entry's split is unusable.
+ */
+export function computeBalances(entries: SettlementEntry[], members: string[], decimals = 0): Record<string, number> {
+  const units: Record<string, number> = {}
+  const add = (name: string, value: number) => {
+    units[name] = (units[name] || 0) + value
+  }
+  for (const name of members) add(name, 0)
+  for (const entry of entries) {
+    add(entry.payer, toMinor(entry.amount, decimals))
+    // Shares of one expense are rounded so they add up to it; re-derive them in minor units
+    const owed = splitAmount(entry.amount, entry.split, members, decimals)
+    for (const [name, value] of Object.entries(owed)) add(name, -toMinor(value, decimals))
+  }
+  const balances: Record<string, number> = {}
+  for (const [name, value] of Object.entries(units)) balances[name] = fromMinor(value, decimals)
+  return balances
+}
+
+/** Greedy within one zero-sum group: largest debtor pays largest creditor (n people → ≤ n-1 transfers) */
+function settleGroup(group: { name: string; units: number }[]): { from: string; to: string; units: number }[] {
+  const creditors = group.filter(p => p.units > 0).map(p => ({ ...p }))
+  const debtors = group.filter(p => p.units < 0).map(p => ({ ...p, units: -p.units }))
+  const transfers: { from: string; to: string; units: number }[] = []
+  while (creditors.length > 0 && debtors.length > 0) {
+    creditors.sort((a, b) => b.units - a.units || a.name.localeCompare(b.name))
+    debtors.sort((a, b) => b.units - a.units || a.name.localeCompare(b.name))
+    const creditor = creditors[0]
+    const debtor = debtors[0]
+    const units = Math.min(creditor.units, debtor.units)
+    transfers.push({ from: debtor.name, to: creditor.name, units })
+    creditor.units -= units
+    debtor.units -= units
+    if (creditor.units === 0) creditors.shift()
+    if (debtor.units === 0) debtors.shift()
+  }
+  return transfers
+}
+
+/** Above this many non-zero balances the exact search (2^n subsets) falls back to plain greedy */
+const EXACT_SEARCH_LIMIT = 15
+
+/**
+ * Transfers that settle `balances` (positive = is owed). The fewest transfers is n minus the most
+ * groups the people can be split into that each sum to zero, so those groups are found first
+ * (exact subset search for small groups) and each group is then settled greedily.
+ */
+export function minimizeTransfers(balances: Record<string, number>, decimals = 0): Transfer[] {
+  const people = Object.entries(balances)
+    .map(([name, amount]) => ({ name, units: toMinor(amount, decimals) }))
+    .filter(p => p.units !== 0)
+    .sort((a, b) => a.name.localeCompare(b.name))
+  if (people.length === 0) return []
+
+  let groups: { name: string; units: number }[][]
+  if (people.length > EXACT_SEARCH_LIMIT) {
+    groups = [people]
+  } else {
+    const n = people.length
+    const full = (1 << n) - 1
+    const sum = new Array<number>(full + 1).fill(0)
+    for (let mask = 1; mask <= full; mask++) {
+      const low = mask & -mask
+      sum[mask] = sum[mask ^ low] + people[31 - Math.clz32(low)].units
+    }
+    // best[mask]: most zero-sum groups `mask` can be partitioned into (-1 = impossible)
+    const best = new Array<number>(full + 1).fill(-1)
+    const choice = new Array<number>(full + 1).fill(0)
+    best[0] = 0
+    for (let mask = 1; mask <= full; mask++) {
+      if (sum[mask] !== 0) continue
+      // The group holding the lowest member of `mask`
+      const low = mask & -mask
+      const rest = mask ^ low
+      for (let sub = rest; ; sub = (sub - 1) & rest) {
+        const group = sub | low
+        const remaining = mask ^ group
+        if (sum[group] === 0 && best[remaining] >= 0 && best[remaining] + 1 > best[mask]) {
+          best[mask] = best[remaining] + 1
+          choice[mask] = group
+        }
+        if (sub === 0) break
+      }
+    }
+    groups = []
+    for (let mask = full; mask !== 0; mask ^= choice[mask]) {
+      groups.push(people.filter((_, i) => choice[mask] & (1 << i)))
+    }
+  }
+
+  return groups
+    .flatMap(settleGroup)
+    .map(t => ({ from: t.from, to: t.to, amount: fromMinor(t.units, decimals) }))
+    .sort((a, b) => b.amount - a.amount || a.from.localeCompare(b.from))
+}
+
+/** Balances and the transfers that settle them */
+export function settle(
+  entries: SettlementEntry[],
+  members: string[],
+  decimals = 0
+): { balances: Record<string, number>; transfers: Transfer[] } {
+  const balances = computeBalances(entries, members, decimals)
+  return { balances, transfers: minimizeTransfers(balances, decimals) }
+}
@@ -0,0 +1,105 @@
+/**
+ * 圖片網址格式：uploads go to object storage and rows keep only the URL. Width, height and
+ * blurhash ride along in the URL fragment (`…/abc.jpg#w=1200&h=800&bh=…`), which browsers never
+ * send to the server, so image_url / avatar_url stay plain strings (or JSON string arrays) and
+ * every existing parser keeps working. Thumbnails sit next to the original as `abc_w320.jpg`.
+ *
+ * Pure helpers only (no browser APIs) — scripts/migrate-images-to-storage.mjs mirrors this format.
+ */
+
+/** Widths generated for every upload (the original is capped at 1920px) */
+export const THUMBNAIL_WIDTHS = [320, 640, 1280] as const
+
+export type ThumbnailWidth = (typeof THUMBNAIL_WIDTHS)[number]
+
+export type StoredImageMeta = {
+  width: number
+  height: number
+  blurhash: string | null
+}
+
+export type StoredImage = StoredImageMeta & {
+  /** Public URL of the original, without the metadata fragment */
+  src: string
+  /** Whether thumbnails exist (uploaded through imageStorage / the migration script) */
+  hasThumbnails: boolean
+}
+
+/**
+ * Receipt photos are private (add_expense_receipts.sql): expenses.receipt_url keeps
+ * `receipt:<username>/<id>.jpg`, a path in the receipts bucket shown through short-lived signed URLs.
+ * Older receipts were public images-bucket URLs and are shown as they are.
+ */
+export const RECEIPT_REF_PREFIX = 'receipt:'
+
+export function isReceiptRef(url: string | null | undefined): url is string {
+  return !!url && url.startsWith(RECEIPT_REF_PREFIX)
+}
+
+export function receiptRefPath(url: string): string {
+  return url.slice(RECEIPT_REF_PREFIX.length)
+}
+
+const DATA_IMAGE_URL = /^data:image\/[a-z0-9.+-]+;base64,/i
+// Every data URL inside a larger string (Plate JSON, JSON arrays)
+const DATA_IMAGE_URL_GLOBAL = /data:image\/[a-z0-9.+-]+;base64,[A-Za-z0-9+/=]+/gi
+
+export function isDataImageUrl(url: string | null | undefined): boolean {
+  return !!url && DATA_IMAGE_URL.test(url)
+}
+
+/** All base64 images embedded anywhere in a text column */
+export function findDataImageUrls(text: string | null | undefined): string[] {
+  if (!text) return []
+  return text.match(DATA_IMAGE_URL_GLOBAL) ?? []
+}
+
+/** Public URL + metadata fragment, as stored in the row */
+export function buildStoredImageUrl(src: string, meta: StoredImageMeta): string {
+  const params = new URLSearchParams({ w: String(meta.width), h: String(meta.height), t: '1' })
+  if (meta.blurhash) params.set('bh', meta.blurhash)
+  return `${src}#${params.toString()}`
+}
+
+/** Split a stored URL back into the plain src and its metadata (0 / null when unknown) */
+export function parseStoredImageUrl(url: string): StoredImage {
+  const hashIndex = isDataImageUrl(url) ? -1 : url.indexOf('#')
+  if (hashIndex < 0) return { src: url, width: 0, height: 0, blurhash: null, hasThumbnails: false }
+  const params = new URLSearchParams(url.slice(hashIndex + 1))
+  return {
+    src: url.slice(0, hashIndex),
+    width: Number(params.get('w')) || 0,
+    height: Number(params.get('h')) || 0,
+    blurhash: params.get('bh') || null,
+    hasThumbnails: params.get('t') === '1',
+  }
+}
+
+/** `…/abc.jpg` → `…/abc_w320.jpg` */
+export function thumbnailPath(path: string, width: ThumbnailWidth): string {
+  const dot = path.lastIndexOf('.')
+  const slash = path.lastIndexOf('/')
+  if (dot <= slash) return `${path}_w${width}`
+  return `${path.slice(0, dot)}_w${width}${path.slice(dot)}`
+}
+
+/**
+ * Smallest thumbnail at least `displayWidth` wide, or the original. Images that were not uploaded
+ * through storage (external URLs, legacy data URLs) are returned unchanged.
+ */
+export function storedImageSrc(url: string, displayWidth?: number): string {
+  const image = parseStoredImageUrl(url)
+  if (!image.hasThumbnails || !displayWidth) return image.src
+  const width = THUMBNAIL_WIDTHS.find(w => w >= displayWidth && (!image.width || w < image.width))
+  return width ? thumbnailPath(image.src, width) : image.src
+}
+
+/** srcSet for <img>; undefined when the image has no thumbnails */
+export function storedImageSrcSet(url: string): string | undefined {
+  const image = parseStoredImageUrl(url)
+  if (!image.hasThumbnails) return undefined
+  const widths = THUMBNAIL_WIDTHS.filter(w => !image.width || w < image.width)
+  const entries = widths.map(w => `${thumbnailPath(image.src, w)} ${w}w`)
+  if (image.width) entries.push(`${image.src} ${image.width}w`)
+  return entries.join(', ')
+}
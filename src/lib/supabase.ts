@@ -1,5 +1,36 @@
 import { createClient, type SupabaseClient } from '@supabase/supabase-js'
+import Cookies from 'js-cookie'
 import type { FlightRecord } from './flightInfo'
+import { createLocalSupabaseClient, isLocalDataBackend } from './localSupabaseClient'
+import { can, canWriteExpense, getSessionUserInfo, permissionError, type Capability } from './permissions'
+import { SUPABASE_TOKEN_COOKIE_NAME } from './session'
+import { getCurrentPlanId } from './currentTripPlan'
+import { getCurrentDestination } from './currentDestination'
+import {
+  activityEntityLabel,
+  diffActivityFields,
+  isActivityRevertable,
+  redactActivityRow,
+  type ActivityAction,
+  type ActivityEntityType,
+  type ActivityLogDB,
+  type ActivityLogFilters,
+} from './activityLog'
+import { readSnapshot, writeSnapshot } from './offlineStore'
+import type { ExpenseSplit } from './settlement'
+import type { ReceiptScan } from './receiptOcr'
+import { createEmptyScheduleItem, parseLegacyScheduleJson, scheduleItemsToInput } from './tripSchedule'
+import { getDateForDay, getDayNumberForDate, isSameTripDate } from './tripCalendar'
+import {
+  applyPendingMutations,
+  createTempId,
+  enqueueMutation,
+  isNetworkError,
+  lastKnownRow,
+  registerReplayHandlers,
+  shouldQueueMutation,
+  type OutboxTable,
+} from './offlineOutbox'
 
 /**
  * Lazily initialized so build-time SSR / static generation does not crash
@@ -10,6 +41,11 @@ let _client: SupabaseClient | null = null
 
 function getClient(): SupabaseClient {
   if (_client) return _client
+  // NEXT_PUBLIC_DATA_BACKEND=local: in-memory database seeded from supabase/migrations (dev / e2e)
+  if (isLocalDataBackend()) {
+    _client = createLocalSupabaseClient()
+    return _client
+  }
   const url = process.env.NEXT_PUBLIC_SUPABASE_URL
   const key = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY
   if (!url || !key) {
@@ -18,10 +54,34 @@ function getClient(): SupabaseClient {
         'Add them in Vercel Dashboard → Settings → Environment Variables.'
     )
   }
-  _client = createClient(url, key)
+  if (typeof window === 'undefined') {
+    // Route handlers act for no signed-in user: the service role passes the role policies
+    _client = createClient(url, process.env.SUPABASE_SERVICE_ROLE_KEY || key)
+    return _client
+  }
+  // The access token from the login route carries the user's role for row-level security;
+  // without one (SUPABASE_JWT_SECRET unset) requests go out with the anon key
+  _client = createClient(url, key, { accessToken: async () => Cookies.get(SUPABASE_TOKEN_COOKIE_NAME) ?? null })
   return _client
 }
 
+let _serviceClient: SupabaseClient | null = null
+
+/**
+ * Server only: the service role, the one key that may read users.password (add_role_policies.sql
+ * revokes it from anon / authenticated). Null in the browser or without SUPABASE_SERVICE_ROLE_KEY.
+ */
+function getServiceClient(): SupabaseClient | null {
+  if (typeof window !== 'undefined') return null
+  // The local backend runs in this process: there is no key to hold back
+  if (isLocalDataBackend()) return getClient()
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL
+  const key = process.env.SUPABASE_SERVICE_ROLE_KEY
+  if (!url || !key) return null
+  _serviceClient ??= createClient(url, key)
+  return _serviceClient
+}
+
 // The Proxy defers actual Supabase client creation until first use,
 // avoiding top-level crashes during Next.js static generation (no env vars on server).
 export const supabase: SupabaseClient = new Proxy({} as SupabaseClient, {
@@ -33,13 +93,92 @@ export const supabase: SupabaseClient = new Proxy({} as SupabaseClient, {
   },
 })
 
+// ============================================
+// Offline: reads fall back to IndexedDB snapshots, writes queue in the outbox
+// ============================================
+
+type OfflineRow = Record<string, unknown> & { id: number }
+
+/** Keep a successful read for offline use, then overlay writes still waiting in the outbox */
+async function withOfflineSnapshot<T extends { id: number }>(table: OutboxTable, scope: string, rows: T[]): Promise<T[]> {
+  void writeSnapshot(scope, rows)
+  return applyPendingMutations(table, scope, rows)
+}
+
+/** Read failed: last snapshot of this scope plus queued writes */
+async function readOfflineSnapshot<T extends { id: number }>(table: OutboxTable, scope: string): Promise<T[]> {
+  const rows = (await readSnapshot<T[]>(scope)) || []
+  return applyPendingMutations(table, scope, rows)
+}
+
+async function queueInsert<T>(table: OutboxTable, scope: string, values: Record<string, unknown>): Promise<{ data: T; error: null }> {
+  const id = createTempId()
+  const row = { created_at: new Date().toISOString(), ...values }
+  await enqueueMutation({ table, op: 'insert', id, values: row, scope })
+  return { data: { ...row, id } as T, error: null }
+}
+
+async function queueUpdate<T>(
+  table: OutboxTable,
+  id: number,
+  values: Record<string, unknown>,
+  baseUpdatedAt?: string | null
+): Promise<{ data: T; error: null }> {
+  const known = await lastKnownRow(table, id)
+  await enqueueMutation({ table, op: 'update', id, values, baseUpdatedAt })
+  return { data: { ...known, ...values, id } as T, error: null }
+}
+
+async function queueDelete(table: OutboxTable, id: number): Promise<{ success: boolean; error: null }> {
+  await enqueueMutation({ table, op: 'delete', id })
+  return { success: true, error: null }
+}
+
+/** For outbox conflict checks: null = row is gone, undefined = network failed */
+async function fetchRowForReplay(table: OutboxTable, id: number): Promise<OfflineRow | null | undefined> {
+  const { data, error } = await supabase.from(table).select('*').eq('id', id).maybeSingle()
+  if (error) {
+    if (isNetworkError(error.message)) return undefined
+    // Can't tell; let the write itself report the problem
+    console.error(`Error checking ${table} row before replay:`, error.message)
+    return { id }
+  }
+  return (data as OfflineRow | null) ?? null
+}
+
+// ============================================
+// Optimistic concurrency: updates can require the row to be unchanged since it was loaded
+// ============================================
+
+/** Returned (instead of overwriting) when someone else saved the row after we loaded it */
+export type ConflictError<T> = {
+  type: 'conflict'
+  message: string
+  /** The row as it is on the server now; null when it was deleted meanwhile */
+  current: T | null
+}
+
+export type UpdateOptions = {
+  /** updated_at of the version being edited; the update only applies if the row still has it */
+  expectedUpdatedAt?: string | null
+}
+
+async function conflictResult<T>(
+  table: OutboxTable,
+  id: number,
+  message: string
+): Promise<{ data: null; error: string; conflict: ConflictError<T> }> {
+  const { data } = await supabase.from(table).select('*').eq('id', id).maybeSingle()
+  return { data: null, error: message, conflict: { type: 'conflict', message, current: (data as T | null) ?? null } }
+}
+
 export type Trip = {
   id: number
   title: string
   date: string
   time_start?: string // Start time (HH:mm)
   time_end?: string // End time (HH:mm)
-  description: string // HTML content
+  description: string // Legacy HTML / plain-text notes (held the schedule JSON before trip_schedule_items)
   /** Plate / Slate JSON 字串：行程富文本說明（與 description 行程明細 JSON 分開） */
   trip_notes_rich?: string | null
   location: string
@@ -48,33 +187,78 @@ export type Trip = {
   image_url?: string // Optional image URL
   wishlist_item_id?: number // Link to wishlist item for syncing name/note updates
   sort_order?: number // Display order within the same day
+  plan_id?: number | null // Owning trip_plans row (null before the trip_plans migration)
+  destination_id?: string | null // destinations.id; trips are listed per current destination
   created_at?: string
   updated_at?: string
+  deleted_at?: string | null // In the trash since (see Trash section)
+  schedule_items?: TripScheduleItemDB[] // 行程明細, embedded by getTrips (see Trip schedule items section)
 }
 
+/** createTrip / updateTrip input: schedule_items replaces the trip's schedule lines when present */
+export type TripWrite = Omit<Trip, 'schedule_items'> & { schedule_items?: TripScheduleItemInput[] }
+
 // Alias for backwards compatibility
 export type TripWithInfo = Trip & { info: string }
 
-// Local cache for trips (fallback when Supabase fails)
-let tripsCache: Trip[] = []
-let tripsCacheTime = 0
-const TRIPS_CACHE_DURATION = 60 * 1000 // 1 minute
+export function sortTrips<T extends Pick<Trip, 'date' | 'sort_order' | 'created_at'>>(trips: T[]): T[] {
+  return [...trips].sort((a, b) => {
+    if (a.date !== b.date) return a.date.localeCompare(b.date)
+    if (a.sort_order !== b.sort_order) return (a.sort_order ?? Infinity) - (b.sort_order ?? Infinity)
+    return (a.created_at || '').localeCompare(b.created_at || '')
+  })
+}
+
+function tripsScope(planId: number | null | undefined, destinationId: string | null | undefined): string {
+  return `trips:${planId ?? ''}:${destinationId ?? ''}`
+}
 
+/** Trips of the current trip plan and destination (unscoped when those migrations have not run) */
 export async function getTrips(): Promise<Trip[]> {
+  const planId = getCurrentPlanId()
+  const destinationId = getCurrentDestination()
+  const scope = tripsScope(planId, destinationId)
+  let scopeToDestination = true
+  let embedScheduleItems = tripScheduleItemsAvailable
+  const tripsQuery = () => {
+    let query = supabase.from('trips').select(embedScheduleItems ? TRIPS_WITH_SCHEDULE_SELECT : '*')
+    if (planId != null) query = query.eq('plan_id', planId)
+    if (scopeToDestination) query = query.eq('destination_id', destinationId)
+    return query.returns<Trip[]>()
+  }
+
   try {
-    let { data, error } = await supabase
-      .from('trips')
-      .select('*')
+    let { data, error } = await tripsQuery()
       .order('date', { ascending: true })
       .order('sort_order', { ascending: true, nullsFirst: true })
       .order('created_at', { ascending: true })
 
+    // Fallback if the trip_schedule_items migration has not run (schedule stays JSON in description)
+    if (error && isMissingScheduleItemsTable(error.message)) {
+      tripScheduleItemsAvailable = embedScheduleItems = false
+      const res = await tripsQuery()
+        .order('date', { ascending: true })
+        .order('sort_order', { ascending: true, nullsFirst: true })
+        .order('created_at', { ascending: true })
+      data = res.data
+      error = res.error
+    }
+
+    // Fallback if destination_id column doesn't exist yet
+    if (error && error.message?.includes('destination_id')) {
+      scopeToDestination = false
+      const res = await tripsQuery()
+        .order('date', { ascending: true })
+        .order('sort_order', { ascending: true, nullsFirst: true })
+        .order('created_at', { ascending: true })
+      data = res.data
+      error = res.error
+    }
+
     // Fallback if sort_order column doesn't exist yet
     if (error && (error.message?.includes('sort_order') || error.message?.includes('column') || error.message?.includes('does not exist'))) {
       console.warn('sort_order column not found, using fallback sort')
-      const res = await supabase
-        .from('trips')
-        .select('*')
+      const res = await tripsQuery()
         .order('date', { ascending: true })
         .order('created_at', { ascending: true })
       data = res.data
@@ -83,40 +267,20 @@ export async function getTrips(): Promise<Trip[]> {
 
     if (error) {
       console.error('Error fetching trips:', error.message)
-      if (tripsCache.length > 0 && Date.now() - tripsCacheTime < TRIPS_CACHE_DURATION * 5) {
-        return [...tripsCache].sort((a, b) => {
-          if (a.date !== b.date) return a.date.localeCompare(b.date)
-          if (a.sort_order !== b.sort_order) return (a.sort_order ?? Infinity) - (b.sort_order ?? Infinity)
-          return (a.created_at || '').localeCompare(b.created_at || '')
-        })
-      }
-      return []
-    }
-
-    if (data && data.length > 0) {
-      tripsCache = data
-      tripsCacheTime = Date.now()
+      return sortTrips(await readOfflineSnapshot<Trip>('trips', scope))
     }
 
-    return [...(data || [])].sort((a, b) => {
-      if (a.date !== b.date) return a.date.localeCompare(b.date)
-      if (a.sort_order !== b.sort_order) return (a.sort_order ?? Infinity) - (b.sort_order ?? Infinity)
-      return (a.created_at || '').localeCompare(b.created_at || '')
-    })
+    const trips = withoutDeleted(data || []).map(withSortedScheduleItems)
+    return sortTrips(await withOfflineSnapshot('trips', scope, trips))
   } catch (err) {
     console.error('Supabase connection error:', err)
-    if (tripsCache.length > 0) {
-      return [...tripsCache].sort((a, b) => {
-        if (a.date !== b.date) return a.date.localeCompare(b.date)
-        if (a.sort_order !== b.sort_order) return (a.sort_order ?? Infinity) - (b.sort_order ?? Infinity)
-        return (a.created_at || '').localeCompare(b.created_at || '')
-      })
-    }
-    return []
+    return sortTrips(await readOfflineSnapshot<Trip>('trips', scope))
   }
 }
 
-export async function createTrip(trip: Omit<Trip, 'id' | 'created_at' | 'updated_at'>): Promise<{ data: Trip | null; error: string | null }> {
+export async function createTrip(trip: Omit<TripWrite, 'id' | 'created_at' | 'updated_at'>): Promise<{ data: Trip | null; error: string | null }> {
+  const denied = permissionError('trips.edit')
+  if (denied) return { data: null, error: denied }
   try {
     const insertPayload: Record<string, unknown> = {
       title: trip.title,
@@ -138,6 +302,16 @@ export async function createTrip(trip: Omit<Trip, 'id' | 'created_at' | 'updated
     if (trip.sort_order != null) {
       insertPayload.sort_order = trip.sort_order
     }
+    const planId = trip.plan_id ?? getCurrentPlanId()
+    if (planId != null) {
+      insertPayload.plan_id = planId
+    }
+    insertPayload.destination_id = trip.destination_id ?? getCurrentDestination()
+
+    const scope = tripsScope(planId, insertPayload.destination_id as string)
+    // Queued inserts carry the schedule lines along; createTrip stores them on replay
+    const queuedPayload = trip.schedule_items ? { ...insertPayload, schedule_items: trip.schedule_items } : insertPayload
+    if (shouldQueueMutation()) return queueInsert<Trip>('trips', scope, queuedPayload)
 
     let { data, error } = await supabase
       .from('trips')
@@ -145,6 +319,8 @@ export async function createTrip(trip: Omit<Trip, 'id' | 'created_at' | 'updated
       .select()
       .single()
 
+    if (error && shouldQueueMutation(error)) return queueInsert<Trip>('trips', scope, queuedPayload)
+
     // If column doesn't exist (migration not run), retry without wishlist_item_id
     if (error && insertPayload.wishlist_item_id != null && (
       error.message?.includes('wishlist_item_id') || error.message?.includes('column')
@@ -187,11 +363,44 @@ export async function createTrip(trip: Omit<Trip, 'id' | 'created_at' | 'updated
       error = retry3.error
     }
 
+    // Retry without plan_id if the trip_plans migration has not run
+    if (error && insertPayload.plan_id != null && (
+      error.message?.includes('plan_id') || error.message?.includes('column')
+    )) {
+      delete insertPayload.plan_id
+      const retry4 = await supabase
+        .from('trips')
+        .insert([insertPayload])
+        .select()
+        .single()
+      data = retry4.data
+      error = retry4.error
+    }
+
+    // Retry without destination_id if the destination-scope migration has not run
+    if (error && error.message?.includes('destination_id')) {
+      delete insertPayload.destination_id
+      const retry5 = await supabase
+        .from('trips')
+        .insert([insertPayload])
+        .select()
+        .single()
+      data = retry5.data
+      error = retry5.error
+    }
+
     if (error) {
       console.error('Error creating trip:', error)
       return { data: null, error: error.message }
     }
 
+    if (trip.schedule_items) {
+      const scheduled = await writeTripScheduleItems(data, trip.schedule_items)
+      if (scheduled.error) console.error('Error saving trip schedule items:', scheduled.error)
+      data = scheduled.data
+    }
+
+    void logActivity({ entityType: 'trip', entityId: data.id, action: 'create', after: withScheduleForLog(data) })
     return { data, error: null }
   } catch (err: any) {
     console.error('Create trip error:', err)
@@ -199,36 +408,67 @@ export async function createTrip(trip: Omit<Trip, 'id' | 'created_at' | 'updated
   }
 }
 
-export async function updateTrip(id: number, trip: Partial<Trip>): Promise<{ data: Trip | null; error: string | null }> {
+/**
+ * Update a trip. With `expectedUpdatedAt` the write only lands if nobody saved the trip since
+ * that version; otherwise nothing is written and `conflict` carries the server's current row.
+ */
+export async function updateTrip(
+  id: number,
+  trip: Partial<TripWrite>,
+  options: UpdateOptions = {}
+): Promise<{ data: Trip | null; error: string | null; conflict?: ConflictError<Trip> }> {
+  const denied = permissionError('trips.edit')
+  if (denied) return { data: null, error: denied }
+  const expected = options.expectedUpdatedAt
   try {
-    const payload: Record<string, unknown> = { ...trip, updated_at: new Date().toISOString() }
+    const { schedule_items: scheduleItems, ...fields } = trip
+    const payload: Record<string, unknown> = { ...fields, updated_at: new Date().toISOString() }
+    // Queued updates carry the schedule lines along; updateTrip stores them on replay
+    const queuedPayload = scheduleItems ? { ...payload, schedule_items: scheduleItems } : payload
+    if (shouldQueueMutation(null, id)) return queueUpdate<Trip>('trips', id, queuedPayload, expected)
+
+    const before = await fetchActivityBefore('trip', id)
+    if (before && scheduleItems) before.schedule_items = (await getTripScheduleItems(id)).map(toScheduleItemInput)
+    const runUpdate = () => {
+      let query = supabase.from('trips').update(payload).eq('id', id)
+      if (expected) query = query.eq('updated_at', expected)
+      return query.select().maybeSingle<Trip>()
+    }
 
-    let { data, error } = await supabase
-      .from('trips')
-      .update(payload)
-      .eq('id', id)
-      .select()
-      .single()
+    let { data, error } = await runUpdate()
+
+    if (error && shouldQueueMutation(error)) return queueUpdate<Trip>('trips', id, queuedPayload, expected)
 
     if (error && payload.trip_notes_rich !== undefined && (
       error.message?.includes('trip_notes_rich') || error.message?.includes('column')
     )) {
       delete payload.trip_notes_rich
-      const retry = await supabase
-        .from('trips')
-        .update(payload)
-        .eq('id', id)
-        .select()
-        .single()
+      const retry = await runUpdate()
       data = retry.data
       error = retry.error
     }
 
+    // No row matched: changed by someone else (or deleted) since it was loaded
+    if (!error && !data) {
+      if (expected) return conflictResult<Trip>('trips', id, '此行程已被其他人修改，請確認要保留的內容')
+      return { data: null, error: '找不到此行程' }
+    }
+
     if (error) {
       console.error('Error updating trip:', error)
       return { data: null, error: error.message }
     }
 
+    if (scheduleItems && data) {
+      const scheduled = await writeTripScheduleItems(data, scheduleItems)
+      if (scheduled.error) {
+        console.error('Error saving trip schedule items:', scheduled.error)
+        return { data: null, error: scheduled.error }
+      }
+      data = scheduled.data
+    }
+
+    void logActivity({ entityType: 'trip', entityId: id, action: 'update', before, after: data && withScheduleForLog(data) })
     return { data, error: null }
   } catch (err: any) {
     console.error('Update trip error:', err)
@@ -243,11 +483,22 @@ export async function syncTripsFromWishlistItem(
   note: string,
   imageUrl?: string | null
 ): Promise<{ updated: number; error: string | null }> {
+  const denied = permissionError('trips.edit')
+  if (denied) return { updated: 0, error: denied }
   try {
-    const { data: trips, error: fetchError } = await supabase
+    const fetchTrips = () => supabase
       .from('trips')
-      .select('id, description, time_start, time_end')
+      .select(tripScheduleItemsAvailable ? 'id, description, schedule_items:trip_schedule_items(*)' : 'id, description')
       .eq('wishlist_item_id', wishlistItemId)
+      .returns<Pick<Trip, 'id' | 'description' | 'schedule_items'>[]>()
+
+    let { data: trips, error: fetchError } = await fetchTrips()
+    if (fetchError && isMissingScheduleItemsTable(fetchError.message)) {
+      tripScheduleItemsAvailable = false
+      const retry = await fetchTrips()
+      trips = retry.data
+      fetchError = retry.error
+    }
 
     if (fetchError) {
       if (fetchError.message?.includes('column') && fetchError.message?.includes('wishlist_item_id')) {
@@ -261,30 +512,30 @@ export async function syncTripsFromWishlistItem(
     const content = note ? `${name}（${note}）` : name
     let updatedCount = 0
     for (const trip of trips) {
-      let scheduleItems: { id: string; time_start?: string; time_end?: string; content: string }[]
-      try {
-        const parsed = JSON.parse(trip.description || '[]')
-        scheduleItems = Array.isArray(parsed) ? parsed : []
-      } catch {
-        scheduleItems = []
-      }
+      const scheduleItems = trip.schedule_items?.length
+        ? [...trip.schedule_items].sort(byScheduleOrder).map(toScheduleItemInput)
+        : scheduleItemsToInput(parseLegacyScheduleJson(trip.description) ?? [])
       const updated = scheduleItems.length > 0
         ? scheduleItems.map((s, i) => (i === 0 ? { ...s, content } : s))
-        : [{ id: Date.now().toString(), content }]
+        : scheduleItemsToInput([createEmptyScheduleItem(content)])
       const updatePayload: Record<string, unknown> = {
         title: name,
         location: name,
-        description: JSON.stringify(updated),
         updated_at: new Date().toISOString(),
       }
       if (imageUrl !== undefined) {
         updatePayload.image_url = imageUrl || null
       }
-      const { error: updateError } = await supabase
+      const { data: row, error: updateError } = await supabase
         .from('trips')
         .update(updatePayload)
         .eq('id', trip.id)
-      if (!updateError) updatedCount++
+        .select()
+        .maybeSingle<Trip>()
+      if (updateError || !row) continue
+      const { error: scheduleError } = await writeTripScheduleItems(row, updated)
+      if (scheduleError) console.error('syncTripsFromWishlistItem schedule:', scheduleError)
+      else updatedCount++
     }
     return { updated: updatedCount, error: null }
   } catch (err: any) {
@@ -294,13 +545,17 @@ export async function syncTripsFromWishlistItem(
 }
 
 export async function deleteTrip(id: number): Promise<{ success: boolean; error: string | null }> {
+  const denied = permissionError('trips.edit')
+  if (denied) return { success: false, error: denied }
+  // Queued: the wishlist unlinking below runs when the delete is replayed
+  if (shouldQueueMutation(null, id)) return queueDelete('trips', id)
   try {
     let wishlistItemId: number | undefined
     let tripTitle: string | undefined
     let tripDate: string | undefined
     const { data: trip, error: fetchErr } = await supabase
       .from('trips')
-      .select('wishlist_item_id, title, date')
+      .select('*')
       .eq('id', id)
       .maybeSingle()
     if (!fetchErr && trip) {
@@ -310,15 +565,14 @@ export async function deleteTrip(id: number): Promise<{ success: boolean; error:
       tripDate = t.date
     }
 
-    const { error } = await supabase
-      .from('trips')
-      .delete()
-      .eq('id', id)
+    const { error } = await moveToTrash('trips', id)
 
+    if (error && shouldQueueMutation(error)) return queueDelete('trips', id)
     if (error) {
       console.error('Error deleting trip:', error)
       return { success: false, error: error.message }
     }
+    void logActivity({ entityType: 'trip', entityId: id, action: 'delete', before: trip })
 
     if (wishlistItemId != null) {
       await updateSupabaseWishlistItem(wishlistItemId, { added_to_trip: null })
@@ -326,13 +580,9 @@ export async function deleteTrip(id: number): Promise<{ success: boolean; error:
       // Fallback for trips without wishlist_item_id (created before migration or from legacy flow)
       try {
         const wishlistItems = await getSupabaseWishlistItems()
-        const settings = await getSupabaseSiteSettings()
-        const startDate = settings?.trip_start_date
+        const startDate = await getCurrentTripStartDate()
         if (startDate) {
-          const start = new Date(startDate)
-          const tripDateObj = new Date(tripDate)
-          const diffDays = Math.round((tripDateObj.getTime() - start.getTime()) / (1000 * 60 * 60 * 24))
-          const dayNum = Math.max(1, diffDays + 1)
+          const dayNum = Math.max(1, getDayNumberForDate(startDate, tripDate))
           const normalizedTitle = tripTitle.replace(/^⭐\s*/, '').trim().replace(/\s+/g, ' ')
           const namesMatch = (a: string, b: string) => {
             const na = (a || '').trim().replace(/\s+/g, ' ')
@@ -365,6 +615,8 @@ export async function removeWishlistItemFromItinerary(
   wishlistItemId: number,
   options?: { name: string; addedToDay?: number }
 ): Promise<{ success: boolean; error: string | null }> {
+  const denied = permissionError('trips.edit')
+  if (denied) return { success: false, error: denied }
   try {
     await updateSupabaseWishlistItem(wishlistItemId, { added_to_trip: null })
 
@@ -374,17 +626,13 @@ export async function removeWishlistItemFromItinerary(
       .eq('wishlist_item_id', wishlistItemId)
 
     if (!tripsWithWishlist?.length && options?.name && options?.addedToDay != null) {
-      const settings = await getSupabaseSiteSettings()
-      const startDate = settings?.trip_start_date
+      const startDate = await getCurrentTripStartDate()
       if (startDate) {
-        const start = new Date(startDate)
-        const target = new Date(start)
-        target.setDate(start.getDate() + options.addedToDay - 1)
-        const dateStr = target.toISOString().split('T')[0]
+        const dateStr = getDateForDay(startDate, options.addedToDay)
         const normalizedName = options.name.trim().replace(/\s+/g, ' ')
         const allTrips = await getTrips()
         const match = allTrips.find(
-          t => t.date?.startsWith(dateStr.split('T')[0]) &&
+          t => isSameTripDate(t.date, dateStr) &&
             (t.title?.trim().replace(/\s+/g, ' ') === normalizedName || (t.title || '').includes(normalizedName) || normalizedName.includes(t.title || ''))
         )
         if (match?.id) {
@@ -404,6 +652,227 @@ export async function removeWishlistItemFromItinerary(
   }
 }
 
+// ============================================
+// Trip schedule items (行程明細 in trip_schedule_items; JSON in trips.description before that migration)
+// ============================================
+
+/** trip_schedule_items row: one time-ranged line of a trip */
+export type TripScheduleItemDB = {
+  id: number
+  trip_id: number
+  sort_order: number
+  time_start: string | null // HH:mm
+  time_end: string | null // HH:mm
+  content: string
+  location: string | null
+  cost: number | null
+  booking_ref: string | null // Reservation / confirmation number
+  created_at?: string
+  updated_at?: string
+}
+
+export type TripScheduleItemInput = Omit<TripScheduleItemDB, 'id' | 'trip_id' | 'created_at' | 'updated_at'>
+
+const TRIPS_WITH_SCHEDULE_SELECT = '*, schedule_items:trip_schedule_items(*)'
+
+// Off once trip_schedule_items turns out to be missing (migration not run); schedule lines then
+// keep being written as JSON into trips.description like before
+let tripScheduleItemsAvailable = true
+
+function isMissingScheduleItemsTable(message: string | null | undefined): boolean {
+  return !!message?.includes('trip_schedule_items')
+}
+
+function byScheduleOrder(a: TripScheduleItemDB, b: TripScheduleItemDB): number {
+  return a.sort_order - b.sort_order || a.id - b.id
+}
+
+function withSortedScheduleItems(trip: Trip): Trip {
+  return trip.schedule_items ? { ...trip, schedule_items: [...trip.schedule_items].sort(byScheduleOrder) } : trip
+}
+
+function toScheduleItemInput(row: TripScheduleItemInput): TripScheduleItemInput {
+  return {
+    sort_order: row.sort_order,
+    time_start: row.time_start,
+    time_end: row.time_end,
+    content: row.content,
+    location: row.location,
+    cost: row.cost,
+    booking_ref: row.booking_ref,
+  }
+}
+
+/** Activity log side of a trip: schedule lines without row ids (they change on every save) */
+function withScheduleForLog(trip: Trip): Record<string, unknown> {
+  return trip.schedule_items ? { ...trip, schedule_items: trip.schedule_items.map(toScheduleItemInput) } : trip
+}
+
+/** Replace all schedule lines of a trip (the trip forms always save the whole list) */
+async function replaceTripScheduleItems(
+  tripId: number,
+  items: TripScheduleItemInput[]
+): Promise<{ data: TripScheduleItemDB[]; error: string | null }> {
+  const { error: deleteError } = await supabase.from('trip_schedule_items').delete().eq('trip_id', tripId)
+  if (deleteError) return { data: [], error: deleteError.message }
+  if (items.length === 0) return { data: [], error: null }
+
+  const rows = items.map((item, index) => ({ ...toScheduleItemInput(item), sort_order: index, trip_id: tripId }))
+  const { data, error } = await supabase.from('trip_schedule_items').insert(rows).select()
+  if (error) return { data: [], error: error.message }
+  return { data: ((data || []) as TripScheduleItemDB[]).sort(byScheduleOrder), error: null }
+}
+
+/**
+ * Store a trip's schedule lines: rows in trip_schedule_items (clearing schedule JSON left in
+ * description), or the old description JSON when that table does not exist yet.
+ */
+async function writeTripScheduleItems(trip: Trip, items: TripScheduleItemInput[]): Promise<{ data: Trip; error: string | null }> {
+  if (tripScheduleItemsAvailable) {
+    const { data, error } = await replaceTripScheduleItems(trip.id, items)
+    if (!error) {
+      if (parseLegacyScheduleJson(trip.description) === null) return { data: { ...trip, schedule_items: data }, error: null }
+      const { error: clearError } = await supabase.from('trips').update({ description: '' }).eq('id', trip.id)
+      if (clearError) console.error('Error clearing legacy schedule JSON:', clearError.message)
+      return { data: { ...trip, description: clearError ? trip.description : '', schedule_items: data }, error: null }
+    }
+    if (!isMissingScheduleItemsTable(error)) return { data: trip, error }
+    tripScheduleItemsAvailable = false
+  }
+
+  const description = JSON.stringify(items.map((item, index) => ({ id: `${trip.id}-${index}`, ...toScheduleItemInput(item) })))
+  const { data, error } = await supabase
+    .from('trips')
+    .update({ description })
+    .eq('id', trip.id)
+    .select()
+    .maybeSingle<Trip>()
+  if (error) return { data: trip, error: error.message }
+  return { data: data ?? { ...trip, description }, error: null }
+}
+
+/** Bump the trip's updated_at after a single-line change so open editors see a newer version */
+async function touchTrip(tripId: number): Promise<void> {
+  const { error } = await supabase.from('trips').update({ updated_at: new Date().toISOString() }).eq('id', tripId)
+  if (error) console.error('Error touching trip:', error.message)
+}
+
+export async function getTripScheduleItems(tripId: number): Promise<TripScheduleItemDB[]> {
+  if (!tripScheduleItemsAvailable) return []
+  try {
+    const { data, error } = await supabase
+      .from('trip_schedule_items')
+      .select('*')
+      .eq('trip_id', tripId)
+      .order('sort_order', { ascending: true })
+      .order('id', { ascending: true })
+
+    if (error) {
+      // Don't log error for missing table (expected before the trip_schedule_items migration)
+      if (isMissingScheduleItemsTable(error.message)) tripScheduleItemsAvailable = false
+      else console.error('Error fetching trip schedule items:', error.message)
+      return []
+    }
+
+    return data || []
+  } catch (err) {
+    console.error('Supabase trip schedule items error:', err)
+    return []
+  }
+}
+
+export async function createTripScheduleItem(
+  tripId: number,
+  item: Partial<TripScheduleItemInput> & { content: string }
+): Promise<{ data: TripScheduleItemDB | null; error: string | null }> {
+  const denied = permissionError('trips.edit')
+  if (denied) return { data: null, error: denied }
+  try {
+    let sortOrder = item.sort_order
+    if (sortOrder == null) {
+      const existing = await getTripScheduleItems(tripId)
+      sortOrder = existing.length > 0 ? existing[existing.length - 1].sort_order + 1 : 0
+    }
+    const { data, error } = await supabase
+      .from('trip_schedule_items')
+      .insert([{
+        trip_id: tripId,
+        sort_order: sortOrder,
+        time_start: item.time_start || null,
+        time_end: item.time_end || null,
+        content: item.content,
+        location: item.location || null,
+        cost: item.cost ?? null,
+        booking_ref: item.booking_ref || null,
+      }])
+      .select()
+      .single<TripScheduleItemDB>()
+
+    if (error) {
+      console.error('Error creating trip schedule item:', error)
+      return { data: null, error: isMissingScheduleItemsTable(error.message) ? '請先執行 add_trip_schedule_items.sql 遷移' : error.message }
+    }
+
+    void touchTrip(tripId)
+    return { data, error: null }
+  } catch (err: any) {
+    console.error('Create trip schedule item error:', err)
+    return { data: null, error: err.message || '新增行程明細時發生錯誤' }
+  }
+}
+
+export async function updateTripScheduleItem(
+  id: number,
+  item: Partial<TripScheduleItemInput>
+): Promise<{ data: TripScheduleItemDB | null; error: string | null }> {
+  const denied = permissionError('trips.edit')
+  if (denied) return { data: null, error: denied }
+  try {
+    const { data, error } = await supabase
+      .from('trip_schedule_items')
+      .update({ ...item, updated_at: new Date().toISOString() })
+      .eq('id', id)
+      .select()
+      .maybeSingle<TripScheduleItemDB>()
+
+    if (error) {
+      console.error('Error updating trip schedule item:', error)
+      return { data: null, error: error.message }
+    }
+    if (!data) return { data: null, error: '找不到此行程明細' }
+
+    void touchTrip(data.trip_id)
+    return { data, error: null }
+  } catch (err: any) {
+    console.error('Update trip schedule item error:', err)
+    return { data: null, error: err.message || '更新行程明細時發生錯誤' }
+  }
+}
+
+export async function deleteTripScheduleItem(id: number): Promise<{ success: boolean; error: string | null }> {
+  const denied = permissionError('trips.edit')
+  if (denied) return { success: false, error: denied }
+  try {
+    const { data, error } = await supabase
+      .from('trip_schedule_items')
+      .delete()
+      .eq('id', id)
+      .select('trip_id')
+
+    if (error) {
+      console.error('Error deleting trip schedule item:', error)
+      return { success: false, error: error.message }
+    }
+
+    const tripId = (data as { trip_id: number }[] | null)?.[0]?.trip_id
+    if (tripId != null) void touchTrip(tripId)
+    return { success: true, error: null }
+  } catch (err: any) {
+    console.error('Delete trip schedule item error:', err)
+    return { success: false, error: err.message || '刪除行程明細時發生錯誤' }
+  }
+}
+
 // ============================================
 // Site Settings
 // ============================================
@@ -445,6 +914,8 @@ export type SiteSettingsDB = {
   flights?: FlightRecord[] | null
   /** 各 Day 的 ❤️❤️ 累計，鍵為 "1","2",… */
   day_heart_counts?: Record<string, number> | null
+  /** 垃圾桶保留天數；過期項目會被永久刪除 */
+  trash_retention_days?: number | null
   updated_at: string
 }
 
@@ -489,8 +960,25 @@ export async function getSupabaseSiteSettings(): Promise<SiteSettingsDB | null>
   }
 }
 
+// Trip-structure columns are editable by planners; heart counts by anyone signed in; the rest is admin site config
+const TRIP_SETTINGS_COLUMNS = ['home_location', 'trip_start_date', 'total_days', 'day_schedules', 'flights']
+const REACTION_SETTINGS_COLUMNS = ['day_heart_counts']
+
+function siteSettingsCapability(column: string): Capability {
+  if (TRIP_SETTINGS_COLUMNS.includes(column)) return 'trips.edit'
+  if (REACTION_SETTINGS_COLUMNS.includes(column)) return 'reactions.add'
+  return 'settings.edit'
+}
+
 export async function saveSupabaseSiteSettings(settings: Partial<Omit<SiteSettingsDB, 'id' | 'updated_at'>>): Promise<{ success: boolean; error: string | null }> {
+  for (const column of Object.keys(settings)) {
+    const denied = permissionError(siteSettingsCapability(column))
+    if (denied) return { success: false, error: denied }
+  }
+  // ❤️❤️ taps are reactions, not logged
+  const logged = Object.keys(settings).some(column => !REACTION_SETTINGS_COLUMNS.includes(column))
   try {
+    const before = logged ? await fetchActivityBefore('settings', 1) : null
     const { error } = await supabase
       .from('site_settings')
       .upsert({
@@ -504,6 +992,7 @@ export async function saveSupabaseSiteSettings(settings: Partial<Omit<SiteSettin
       return { success: false, error: error.message }
     }
 
+    if (logged) void logActivity({ entityType: 'settings', entityId: 1, action: 'update', before, after: settings })
     return { success: true, error: null }
   } catch (err: any) {
     console.error('[Supabase] site_settings save exception:', err)
@@ -511,7 +1000,7 @@ export async function saveSupabaseSiteSettings(settings: Partial<Omit<SiteSettin
   }
 }
 
-// Subscribe to site_settings table changes (Realtime)
+// Subscribe to site_settings / trip_plans table changes (Realtime)
 export function subscribeToSettingsChanges(callback: () => void): () => void {
   const channel = supabase
     .channel('site_settings_realtime')
@@ -520,6 +1009,11 @@ export function subscribeToSettingsChanges(callback: () => void): () => void {
       { event: '*', schema: 'public', table: 'site_settings' },
       () => callback()
     )
+    .on(
+      'postgres_changes' as any,
+      { event: '*', schema: 'public', table: 'trip_plans' },
+      () => callback()
+    )
     .subscribe()
 
   return () => {
@@ -528,87 +1022,437 @@ export function subscribeToSettingsChanges(callback: () => void): () => void {
 }
 
 // ============================================
-// Users
+// Realtime (trips / wishlist / expenses / checklist) & presence
 // ============================================
 
-export type UserDB = {
-  id: number
-  username: string
-  password: string
-  role: 'admin' | 'user'
-  display_name: string | null
-  avatar_url: string | null
-  created_at: string
-}
+export type RealtimeTable = 'trips' | 'trip_schedule_items' | 'wishlist_items' | 'expenses' | 'checklist_states'
 
-export async function getSupabaseUsers(): Promise<UserDB[]> {
-  try {
-    const { data, error } = await supabase
-      .from('users')
-      .select('*')
-      .order('id', { ascending: true })
+export type RealtimeChange<T> = {
+  eventType: 'INSERT' | 'UPDATE' | 'DELETE'
+  /** Row after the change (null on DELETE) */
+  new: T | null
+  /** Primary key only on DELETE unless the table has REPLICA IDENTITY FULL */
+  old: Partial<T> | null
+}
 
-    if (error) {
-      // Don't log error for missing table (expected when not set up)
-      if (!error.message.includes('does not exist')) {
-        console.error('Error fetching users:', error.message)
+/** Row changes of one table by anyone (see add_realtime_publication.sql) */
+export function subscribeToTableChanges<T>(table: RealtimeTable, callback: (change: RealtimeChange<T>) => void): () => void {
+  const channel = supabase
+    .channel(`${table}_realtime`)
+    .on(
+      'postgres_changes' as any,
+      { event: '*', schema: 'public', table },
+      (payload: { eventType: RealtimeChange<T>['eventType']; new: Record<string, unknown>; old: Record<string, unknown> }) => {
+        const hasNew = payload.new && Object.keys(payload.new).length > 0
+        const hasOld = payload.old && Object.keys(payload.old).length > 0
+        callback({
+          eventType: payload.eventType,
+          new: hasNew ? (payload.new as T) : null,
+          old: hasOld ? (payload.old as Partial<T>) : null,
+        })
       }
-      return []
-    }
+    )
+    .subscribe()
 
-    return data || []
-  } catch (err) {
-    console.error('Supabase users error:', err)
-    return []
+  return () => {
+    supabase.removeChannel(channel)
   }
 }
 
-export async function saveSupabaseUser(user: Omit<UserDB, 'id' | 'created_at'>, originalUsername?: string): Promise<{ data: UserDB | null; error: string | null }> {
-  try {
-    // Use originalUsername for lookup if provided (for username changes), otherwise use current username
-    const lookupUsername = originalUsername || user.username
-    
-    // Check if user exists
-    const { data: existing } = await supabase
-      .from('users')
-      .select('id')
-      .eq('username', lookupUsername)
-      .single()
+export type PresenceViewer = {
+  username: string
+  displayName: string
+  avatarUrl?: string
+  /** Day number being viewed, null when not on a day */
+  day: number | null
+}
 
-    if (existing) {
+/**
+ * Presence on the current trip plan: who is viewing which day.
+ * `onChange` receives everyone (one entry per user; several tabs → last reported day).
+ */
+export function joinTripPresence(
+  me: Omit<PresenceViewer, 'day'>,
+  onChange: (viewers: PresenceViewer[]) => void
+): { setDay: (day: number | null) => void; leave: () => void } {
+  const planId = getCurrentPlanId()
+  const channel = supabase.channel(`trip_presence:${planId ?? 'default'}`, {
+    config: { presence: { key: me.username } },
+  })
+  let day: number | null = null
+  let subscribed = false
+
+  const track = () => {
+    if (subscribed) void channel.track({ ...me, day })
+  }
+
+  channel
+    .on('presence', { event: 'sync' }, () => {
+      const state = channel.presenceState<PresenceViewer>()
+      const byUser = new Map<string, PresenceViewer>()
+      for (const metas of Object.values(state)) {
+        for (const meta of metas) {
+          if (meta?.username) {
+            byUser.set(meta.username, {
+              username: meta.username,
+              displayName: meta.displayName,
+              avatarUrl: meta.avatarUrl,
+              day: meta.day ?? null,
+            })
+          }
+        }
+      }
+      onChange(Array.from(byUser.values()))
+    })
+    .subscribe(status => {
+      if (status === 'SUBSCRIBED') {
+        subscribed = true
+        track()
+      }
+    })
+
+  return {
+    setDay: (next) => {
+      day = next
+      track()
+    },
+    leave: () => {
+      supabase.removeChannel(channel)
+    },
+  }
+}
+
+// ============================================
+// Trip Plans (每個旅程各自的日期、天數、住所、航班)
+// ============================================
+
+export type TripPlanDB = {
+  id: number
+  name: string
+  home_location: SiteSettingsDB['home_location']
+  trip_start_date: string | null
+  total_days: number
+  day_schedules: DaySchedule[] | null
+  flights: FlightRecord[] | null
+  day_heart_counts: Record<string, number> | null
+  created_at: string
+  updated_at: string
+}
+
+/** site_settings columns that moved onto trip_plans; settings.ts routes saves by this list */
+export const TRIP_PLAN_COLUMNS = ['home_location', 'trip_start_date', 'total_days', 'day_schedules', 'flights', 'day_heart_counts'] as const
+
+export async function getSupabaseTripPlans(): Promise<TripPlanDB[]> {
+  try {
+    const { data, error } = await supabase
+      .from('trip_plans')
+      .select('*')
+      .order('created_at', { ascending: true })
+
+    if (error) {
+      // Don't log error for missing table (expected before the trip_plans migration)
+      if (!error.message.includes('does not exist')) {
+        console.error('Error fetching trip plans:', error.message)
+      }
+      return []
+    }
+
+    return data || []
+  } catch (err) {
+    console.error('Supabase trip plans error:', err)
+    return []
+  }
+}
+
+export async function createSupabaseTripPlan(plan: Partial<Omit<TripPlanDB, 'id' | 'created_at' | 'updated_at'>> & { name: string }): Promise<{ data: TripPlanDB | null; error: string | null }> {
+  const denied = permissionError('trips.edit')
+  if (denied) return { data: null, error: denied }
+  try {
+    const { data, error } = await supabase
+      .from('trip_plans')
+      .insert([plan])
+      .select()
+      .single()
+
+    if (error) {
+      console.error('Error creating trip plan:', error)
+      return { data: null, error: error.message }
+    }
+
+    void logActivity({ entityType: 'trip_plan', entityId: data.id, action: 'create', after: data })
+    return { data, error: null }
+  } catch (err: any) {
+    console.error('Create trip plan error:', err)
+    return { data: null, error: err.message || '建立旅程時發生錯誤' }
+  }
+}
+
+export async function updateSupabaseTripPlan(id: number, plan: Partial<Omit<TripPlanDB, 'id' | 'created_at' | 'updated_at'>>): Promise<{ success: boolean; error: string | null }> {
+  for (const column of Object.keys(plan)) {
+    const denied = permissionError(column === 'name' ? 'trips.edit' : siteSettingsCapability(column))
+    if (denied) return { success: false, error: denied }
+  }
+  const logged = Object.keys(plan).some(column => !REACTION_SETTINGS_COLUMNS.includes(column))
+  try {
+    const before = logged ? await fetchActivityBefore('trip_plan', id) : null
+    const { error } = await supabase
+      .from('trip_plans')
+      .update({ ...plan, updated_at: new Date().toISOString() })
+      .eq('id', id)
+
+    if (error) {
+      console.error('Error updating trip plan:', error)
+      return { success: false, error: error.message }
+    }
+
+    if (logged) void logActivity({ entityType: 'trip_plan', entityId: id, action: 'update', before, after: plan })
+    return { success: true, error: null }
+  } catch (err: any) {
+    console.error('Update trip plan error:', err)
+    return { success: false, error: err.message || '更新旅程時發生錯誤' }
+  }
+}
+
+/**
+ * Deletes an empty plan, with its checklist ticks. Plans that still have trips or expenses (trashed
+ * trips included) are refused: those go through the trash and the activity log one by one, and the
+ * foreign keys are ON DELETE RESTRICT.
+ */
+export async function deleteSupabaseTripPlan(id: number): Promise<{ success: boolean; error: string | null }> {
+  const denied = permissionError('trips.edit')
+  if (denied) return { success: false, error: denied }
+  try {
+    const plans = await getSupabaseTripPlans()
+    if (plans.length <= 1) {
+      return { success: false, error: '至少需要保留一個旅程' }
+    }
+
+    for (const table of ['trips', 'expenses'] as const) {
+      const { data: rows, error: rowsError } = await supabase.from(table).select('id').eq('plan_id', id).limit(1)
+      if (rowsError) {
+        console.error('Error checking trip plan rows:', rowsError)
+        return { success: false, error: rowsError.message }
+      }
+      if (rows && rows.length > 0) {
+        return { success: false, error: '此旅程還有行程或支出（包括垃圾桶中的行程），請先刪除後再刪除旅程' }
+      }
+    }
+
+    const before = plans.find(plan => plan.id === id) ?? null
+    const { error: checklistError } = await supabase.from('checklist_states').delete().eq('plan_id', id)
+    if (checklistError) {
+      console.error('Error deleting trip plan checklist:', checklistError)
+      return { success: false, error: checklistError.message }
+    }
+    const { error } = await supabase
+      .from('trip_plans')
+      .delete()
+      .eq('id', id)
+
+    if (error) {
+      console.error('Error deleting trip plan:', error)
+      return { success: false, error: error.message }
+    }
+
+    void logActivity({ entityType: 'trip_plan', entityId: id, action: 'delete', before })
+    return { success: true, error: null }
+  } catch (err: any) {
+    console.error('Delete trip plan error:', err)
+    return { success: false, error: err.message || '刪除旅程時發生錯誤' }
+  }
+}
+
+/** Start date of the current plan, falling back to the legacy site_settings row */
+async function getCurrentTripStartDate(): Promise<string | null> {
+  const planId = getCurrentPlanId()
+  if (planId != null) {
+    const { data, error } = await supabase
+      .from('trip_plans')
+      .select('trip_start_date')
+      .eq('id', planId)
+      .maybeSingle()
+    if (!error && data) return (data as { trip_start_date: string | null }).trip_start_date
+  }
+  const settings = await getSupabaseSiteSettings()
+  return settings?.trip_start_date ?? null
+}
+
+// ============================================
+// Users
+// ============================================
+
+export type UserDB = {
+  id: number
+  username: string
+  /** PBKDF2 hash (see lib/password.ts); legacy rows may still hold plaintext until next login */
+  password: string
+  /** viewer | planner | treasurer | admin (legacy rows may still say 'user' → planner) */
+  role: string
+  display_name: string | null
+  avatar_url: string | null
+  created_at: string
+  deleted_at?: string | null
+}
+
+/** A user as the browser sees it: everything but the password */
+export type UserProfileDB = Omit<UserDB, 'password'>
+
+// Columns readable from the browser; the password hash is only read by the login route
+const USER_COLUMNS = 'id, username, role, display_name, avatar_url, created_at, deleted_at'
+// Before add_soft_delete.sql
+const LEGACY_USER_COLUMNS = 'id, username, role, display_name, avatar_url, created_at'
+
+/** `.select()` columns for rows of `table` returned to the browser */
+function readableColumns(table: string): string {
+  return table === 'users' ? USER_COLUMNS : '*'
+}
+
+/** Run a users query with USER_COLUMNS, again without deleted_at before the soft-delete migration */
+async function selectUsers<R extends { error: { message: string } | null }>(run: (columns: string) => PromiseLike<R>): Promise<R> {
+  const result = await run(USER_COLUMNS)
+  return result.error && isMissingDeletedAtColumn(result.error.message) ? run(LEGACY_USER_COLUMNS) : result
+}
+
+export async function getSupabaseUsers(): Promise<UserProfileDB[]> {
+  try {
+    const { data, error } = await selectUsers(columns =>
+      supabase.from('users').select(columns).order('id', { ascending: true }).returns<UserProfileDB[]>()
+    )
+
+    if (error) {
+      // Don't log error for missing table (expected when not set up)
+      if (!error.message.includes('does not exist')) {
+        console.error('Error fetching users:', error.message)
+      }
+      return []
+    }
+
+    // Trashed users are hidden everywhere, including the login lookup
+    return withoutDeleted(data || [])
+  } catch (err) {
+    console.error('Supabase users error:', err)
+    return []
+  }
+}
+
+/**
+ * Server only (the login route): the user with their stored password, matched case-insensitively,
+ * read with the service role. Trashed users cannot log in. Null in the browser or without the key.
+ */
+export async function getSupabaseUserCredentials(username: string): Promise<UserDB | null> {
+  const client = getServiceClient()
+  if (!client) {
+    if (typeof window === 'undefined') console.error('SUPABASE_SERVICE_ROLE_KEY is not set: passwords cannot be checked')
+    return null
+  }
+  try {
+    // ILIKE without wildcards: the username as typed, in any case
+    const pattern = username.replace(/[\\%_]/g, '\\$&')
+    const { data, error } = await client.from('users').select('*').ilike('username', pattern).maybeSingle<UserDB>()
+
+    if (error) {
+      if (!error.message.includes('does not exist')) {
+        console.error('Error fetching user credentials:', error.message)
+      }
+      return null
+    }
+
+    return data && !data.deleted_at ? data : null
+  } catch (err) {
+    console.error('Supabase user credentials error:', err)
+    return null
+  }
+}
+
+/**
+ * Server only (/api/uploads, local image storage): whether a shared expense shows this receipt, so any
+ * signed-in user may see it. Mirrors the receipts bucket's read policy.
+ */
+export async function isSharedExpenseReceipt(receiptUrl: string): Promise<boolean> {
+  const client = getServiceClient()
+  if (!client) return false
+  try {
+    const { data, error } = await client
+      .from('expenses')
+      .select('id')
+      .eq('receipt_url', receiptUrl)
+      .eq('type', 'shared')
+      .limit(1)
+    if (error) {
+      console.error('Error checking receipt:', error.message)
+      return false
+    }
+    return (data || []).length > 0
+  } catch (err) {
+    console.error('Supabase receipt check error:', err)
+    return false
+  }
+}
+
+export async function saveSupabaseUser(user: Omit<UserDB, 'id' | 'created_at'>, originalUsername?: string): Promise<{ data: UserProfileDB | null; error: string | null }> {
+  // Without users.manage, a user may only edit their own profile and cannot change username or role
+  const actor = getSessionUserInfo()
+  if (typeof window !== 'undefined' && !can(actor, 'users.manage')) {
+    const isSelf = !!actor && (originalUsername || user.username) === actor.username
+    if (!isSelf || user.username !== actor.username || user.role !== actor.role) {
+      return { data: null, error: '沒有權限執行此操作' }
+    }
+  }
+  try {
+    // Use originalUsername for lookup if provided (for username changes), otherwise use current username
+    const lookupUsername = originalUsername || user.username
+    
+    // Check if user exists
+    const { data: existing } = await selectUsers(columns =>
+      supabase.from('users').select(columns).eq('username', lookupUsername).returns<UserProfileDB[]>().single()
+    )
+
+    if (existing) {
       // Update existing user (including potentially new username)
-      const { data, error } = await supabase
-        .from('users')
-        .update({
-          username: user.username, // Allow username change
-          password: user.password,
-          role: user.role,
-          display_name: user.display_name,
-          avatar_url: user.avatar_url
-        })
-        .eq('username', lookupUsername) // Use original username for lookup
-        .select()
-        .single()
+      const updatePayload: Record<string, unknown> = {
+        username: user.username, // Allow username change
+        role: user.role,
+        display_name: user.display_name,
+        avatar_url: user.avatar_url
+      }
+      // Re-adding a username that is in the trash takes that row back out
+      if (existing.deleted_at) {
+        updatePayload.deleted_at = null
+      }
+      // Empty password = keep the stored hash unchanged
+      if (user.password) {
+        updatePayload.password = user.password
+      }
+      // A failed select rolls the update back, so the retry without deleted_at is safe
+      const { data, error } = await selectUsers(columns =>
+        supabase
+          .from('users')
+          .update(updatePayload)
+          .eq('username', lookupUsername) // Use original username for lookup
+          .select(columns)
+          .returns<UserProfileDB[]>()
+          .single()
+      )
 
       if (error) {
         console.error('Error updating user:', error)
         return { data: null, error: error.message }
       }
 
+      void logActivity({ entityType: 'user', entityId: data.username, action: 'update', before: existing, after: data })
       return { data, error: null }
     } else {
       // Insert new user
-      const { data, error } = await supabase
-        .from('users')
-        .insert([user])
-        .select()
-        .single()
+      const { data, error } = await selectUsers(columns =>
+        supabase.from('users').insert([user]).select(columns).returns<UserProfileDB[]>().single()
+      )
 
       if (error) {
         console.error('Error creating user:', error)
         return { data: null, error: error.message }
       }
 
+      void logActivity({ entityType: 'user', entityId: data.username, action: 'create', after: data })
       return { data, error: null }
     }
   } catch (err: any) {
@@ -617,22 +1461,43 @@ export async function saveSupabaseUser(user: Omit<UserDB, 'id' | 'created_at'>,
   }
 }
 
+/** Replace a user's stored password (hash). Used by the login route to migrate legacy plaintext rows. */
+export async function updateSupabaseUserPassword(username: string, passwordHash: string): Promise<{ success: boolean; error: string | null }> {
+  try {
+    const { error } = await supabase
+      .from('users')
+      .update({ password: passwordHash })
+      .eq('username', username)
+
+    if (error) {
+      console.error('Error updating user password:', error)
+      return { success: false, error: error.message }
+    }
+
+    return { success: true, error: null }
+  } catch (err: any) {
+    console.error('Update user password error:', err)
+    return { success: false, error: err.message || '更新密碼時發生錯誤' }
+  }
+}
+
 export async function deleteSupabaseUser(username: string): Promise<{ success: boolean; error: string | null }> {
   if (username === 'admin') {
     return { success: false, error: '無法刪除管理員帳號' }
   }
+  const denied = permissionError('users.manage')
+  if (denied) return { success: false, error: denied }
 
   try {
-    const { error } = await supabase
-      .from('users')
-      .delete()
-      .eq('username', username)
+    const before = await fetchActivityBefore('user', username)
+    const { error } = await moveToTrash('users', username)
 
     if (error) {
       console.error('Error deleting user:', error)
       return { success: false, error: error.message }
     }
 
+    void logActivity({ entityType: 'user', entityId: username, action: 'delete', before })
     return { success: true, error: null }
   } catch (err: any) {
     console.error('Delete user error:', err)
@@ -650,60 +1515,128 @@ export type WishlistItemDB = {
   name: string
   note: string | null
   image_url: string | null
+  /** Before the `area` column existed the area id was stored here; see wishlistItemArea() */
   map_link: string | null
+  /** Area id from destinationDistricts.ts (built-in or region_custom_areas.area_id) */
+  area?: string | null
   link: string | null
   added_to_trip: { day: number; time: string } | null
   added_by: { username: string; display_name: string; avatar_url?: string } | null
   is_favorite: boolean
   /** Per-user likes: usernames who liked. Cancelling does not affect other users. */
   favorited_by?: string[] | null
+  /** destinations.id; the wishlist only shows items of the current destination */
+  destination_id?: string | null
   created_at: string
+  /** Bumped on content edits (not likes); used for conflict checks. Missing before add_wishlist_updated_at */
+  updated_at?: string | null
+  deleted_at?: string | null
+}
+
+/** Area id of a wishlist item; rows fetched before the `area` migration still carry it in map_link */
+export function wishlistItemArea(item: Pick<WishlistItemDB, 'map_link' | 'area'>): string | null {
+  return item.area !== undefined ? item.area : item.map_link
+}
+
+function isMissingAreaColumn(message: string): boolean {
+  return message.includes("'area'") || message.includes('"area"')
 }
 
+/** Pre-migration: write the area into map_link instead of the missing `area` column */
+function withAreaInMapLink<T extends Partial<Pick<WishlistItemDB, 'map_link' | 'area'>>>(row: T): T {
+  const { area, ...rest } = row
+  return (area !== undefined ? { ...rest, map_link: area } : rest) as T
+}
+
+/** Wishlist items of the current destination (all items when the destination column is missing) */
 export async function getSupabaseWishlistItems(): Promise<WishlistItemDB[]> {
+  const destinationId = getCurrentDestination()
+  const scope = `wishlist_items:${destinationId}`
   try {
-    const { data, error } = await supabase
+    let { data, error } = await supabase
       .from('wishlist_items')
       .select('*')
+      .eq('destination_id', destinationId)
       .order('created_at', { ascending: false })
 
+    // Fallback if destination_id column doesn't exist yet
+    if (error && error.message.includes('destination_id')) {
+      const res = await supabase
+        .from('wishlist_items')
+        .select('*')
+        .order('created_at', { ascending: false })
+      data = res.data
+      error = res.error
+    }
+
     if (error) {
       // Don't log error for missing table (expected when not set up)
       if (!error.message.includes('does not exist')) {
         console.error('Error fetching wishlist items:', error.message)
       }
-      return []
+      return dedupeWishlistItems(await readOfflineSnapshot<WishlistItemDB>('wishlist_items', scope))
     }
 
-    const rows = data || []
-    // Defensive: same id should not appear twice; keeps UI stable if data is ever odd
-    const byId = new Map<string | number, WishlistItemDB>()
-    for (const row of rows) {
-      if (row && row.id != null && !byId.has(row.id)) {
-        byId.set(row.id, row)
-      }
-    }
-    return Array.from(byId.values()).sort(
-      (a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime()
-    )
+    return dedupeWishlistItems(await withOfflineSnapshot('wishlist_items', scope, withoutDeleted(data || [])))
   } catch (err) {
     console.error('Supabase wishlist error:', err)
-    return []
+    return dedupeWishlistItems(await readOfflineSnapshot<WishlistItemDB>('wishlist_items', scope))
   }
 }
 
+export function dedupeWishlistItems(rows: WishlistItemDB[]): WishlistItemDB[] {
+  // Defensive: same id should not appear twice; keeps UI stable if data is ever odd
+  const byId = new Map<string | number, WishlistItemDB>()
+  for (const row of rows) {
+    if (row && row.id != null && !byId.has(row.id)) {
+      byId.set(row.id, row)
+    }
+  }
+  return Array.from(byId.values()).sort(
+    (a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime()
+  )
+}
+
 export async function saveSupabaseWishlistItem(item: Omit<WishlistItemDB, 'id' | 'created_at'>): Promise<{ data: WishlistItemDB | null; error: string | null }> {
+  const denied = permissionError('wishlist.edit')
+  if (denied) return { data: null, error: denied }
   try {
-    const { data, error } = await supabase
+    let row: Omit<WishlistItemDB, 'id' | 'created_at'> = { ...item, destination_id: item.destination_id ?? getCurrentDestination() }
+    const scope = `wishlist_items:${row.destination_id}`
+    if (shouldQueueMutation()) return queueInsert<WishlistItemDB>('wishlist_items', scope, row)
+
+    let { data, error } = await supabase
       .from('wishlist_items')
-      .insert([item])
+      .insert([row])
       .select()
       .single()
 
+    if (error && shouldQueueMutation(error)) return queueInsert<WishlistItemDB>('wishlist_items', scope, row)
+
+    // Older schemas: area lived in map_link (wishlist-area migration) and there was no
+    // destination_id (destination-scope migration). Either error may come back first.
+    for (let attempt = 0; error && attempt < 2; attempt++) {
+      if (isMissingAreaColumn(error.message) && 'area' in row) {
+        row = withAreaInMapLink(row)
+      } else if (error.message.includes('destination_id') && 'destination_id' in row) {
+        const { destination_id, ...rowWithoutDestination } = row
+        row = rowWithoutDestination
+      } else {
+        break
+      }
+      const retry = await supabase
+        .from('wishlist_items')
+        .insert([row])
+        .select()
+        .single()
+      data = retry.data
+      error = retry.error
+    }
+
     if (error) {
       // If added_by column doesn't exist, retry without it
       if (error.message.includes('added_by')) {
-        const { added_by, ...itemWithoutAddedBy } = item
+        const { added_by, ...itemWithoutAddedBy } = row
         const { data: retryData, error: retryError } = await supabase
           .from('wishlist_items')
           .insert([itemWithoutAddedBy])
@@ -713,12 +1646,14 @@ export async function saveSupabaseWishlistItem(item: Omit<WishlistItemDB, 'id' |
           console.error('Error creating wishlist item (retry):', retryError)
           return { data: null, error: retryError.message }
         }
+        void logActivity({ entityType: 'wishlist_item', entityId: retryData.id, action: 'create', after: retryData })
         return { data: retryData, error: null }
       }
       console.error('Error creating wishlist item:', error)
       return { data: null, error: error.message }
     }
 
+    void logActivity({ entityType: 'wishlist_item', entityId: data.id, action: 'create', after: data })
     return { data, error: null }
   } catch (err: any) {
     console.error('Save wishlist item error:', err)
@@ -726,20 +1661,65 @@ export async function saveSupabaseWishlistItem(item: Omit<WishlistItemDB, 'id' |
   }
 }
 
-export async function updateSupabaseWishlistItem(id: number, item: Partial<Omit<WishlistItemDB, 'id' | 'created_at'>>): Promise<{ data: WishlistItemDB | null; error: string | null }> {
+// Likes only touch these columns, so viewers can like without wishlist.edit
+const WISHLIST_REACTION_COLUMNS = ['favorited_by', 'is_favorite']
+
+/**
+ * Update a wishlist item. Content edits bump updated_at; pass `expectedUpdatedAt` to refuse
+ * overwriting someone else's newer edit (see updateTrip).
+ */
+export async function updateSupabaseWishlistItem(
+  id: number,
+  item: Partial<Omit<WishlistItemDB, 'id' | 'created_at'>>,
+  options: UpdateOptions = {}
+): Promise<{ data: WishlistItemDB | null; error: string | null; conflict?: ConflictError<WishlistItemDB> }> {
+  const reactionOnly = Object.keys(item).every(k => WISHLIST_REACTION_COLUMNS.includes(k))
+  const denied = permissionError(reactionOnly ? 'reactions.add' : 'wishlist.edit')
+  if (denied) return { data: null, error: denied }
+  // Likes must not make someone's open edit form look stale
+  let payload: Record<string, unknown> = reactionOnly ? { ...item } : { ...item, updated_at: new Date().toISOString() }
+  const expected = reactionOnly ? undefined : options.expectedUpdatedAt
+  if (shouldQueueMutation(null, id)) return queueUpdate<WishlistItemDB>('wishlist_items', id, payload, expected)
   try {
-    const { data, error } = await supabase
-      .from('wishlist_items')
-      .update(item)
-      .eq('id', id)
-      .select()
-      .single()
+    const before = reactionOnly ? null : await fetchActivityBefore('wishlist_item', id)
+    let checkVersion = !!expected
+    const runUpdate = () => {
+      let query = supabase.from('wishlist_items').update(payload).eq('id', id)
+      if (checkVersion && expected) query = query.eq('updated_at', expected)
+      return query.select().maybeSingle<WishlistItemDB>()
+    }
+
+    let { data, error } = await runUpdate()
+
+    if (error && shouldQueueMutation(error)) return queueUpdate<WishlistItemDB>('wishlist_items', id, payload, expected)
+
+    // Retry without columns whose migrations have not run (one missing column is reported per error)
+    for (let attempt = 0; attempt < 2 && error; attempt++) {
+      if (error.message?.includes('updated_at') && payload.updated_at !== undefined) {
+        // add_wishlist_updated_at not applied: no version to check against
+        delete payload.updated_at
+        checkVersion = false
+      } else if (isMissingAreaColumn(error.message) && payload.area !== undefined) {
+        payload = withAreaInMapLink(payload)
+      } else {
+        break
+      }
+      const retry = await runUpdate()
+      data = retry.data
+      error = retry.error
+    }
+
+    if (!error && !data) {
+      if (checkVersion) return conflictResult<WishlistItemDB>('wishlist_items', id, '此項目已被其他人修改')
+      return { data: null, error: '找不到此項目' }
+    }
 
     if (error) {
       console.error('Error updating wishlist item:', error)
       return { data: null, error: error.message }
     }
 
+    if (!reactionOnly) void logActivity({ entityType: 'wishlist_item', entityId: id, action: 'update', before, after: data })
     return { data, error: null }
   } catch (err: any) {
     console.error('Update wishlist item error:', err)
@@ -748,17 +1728,20 @@ export async function updateSupabaseWishlistItem(id: number, item: Partial<Omit<
 }
 
 export async function deleteSupabaseWishlistItem(id: number): Promise<{ success: boolean; error: string | null }> {
+  const denied = permissionError('wishlist.edit')
+  if (denied) return { success: false, error: denied }
+  if (shouldQueueMutation(null, id)) return queueDelete('wishlist_items', id)
   try {
-    const { error } = await supabase
-      .from('wishlist_items')
-      .delete()
-      .eq('id', id)
+    const before = await fetchActivityBefore('wishlist_item', id)
+    const { error } = await moveToTrash('wishlist_items', id)
 
+    if (error && shouldQueueMutation(error)) return queueDelete('wishlist_items', id)
     if (error) {
       console.error('Error deleting wishlist item:', error)
       return { success: false, error: error.message }
     }
 
+    void logActivity({ entityType: 'wishlist_item', entityId: id, action: 'delete', before })
     return { success: true, error: null }
   } catch (err: any) {
     console.error('Delete wishlist item error:', err)
@@ -773,14 +1756,17 @@ export async function deleteSupabaseWishlistItem(id: number): Promise<{ success:
 export type ChecklistStateDB = {
   id: string
   checked_by: { username: string; displayName?: string; avatarUrl?: string }[]
+  plan_id?: number | null
   updated_at: string
 }
 
 export async function getSupabaseChecklistStates(): Promise<ChecklistStateDB[]> {
+  const planId = getCurrentPlanId()
   try {
-    const { data, error } = await supabase
+    const query = supabase
       .from('checklist_states')
       .select('*')
+    const { data, error } = await (planId != null ? query.eq('plan_id', planId) : query)
 
     if (error) {
       // Don't log error for missing table (expected when not set up)
@@ -798,14 +1784,27 @@ export async function getSupabaseChecklistStates(): Promise<ChecklistStateDB[]>
 }
 
 export async function saveSupabaseChecklistState(state: ChecklistStateDB): Promise<{ success: boolean; error: string | null }> {
+  const denied = permissionError('reactions.add')
+  if (denied) return { success: false, error: denied }
+  const planId = state.plan_id ?? getCurrentPlanId()
   try {
-    const { error } = await supabase
-      .from('checklist_states')
-      .upsert({
-        id: state.id,
-        checked_by: state.checked_by,
-        updated_at: new Date().toISOString()
-      })
+    // Primary key is (plan_id, id) once trip plans exist
+    const { error } = planId != null
+      ? await supabase
+        .from('checklist_states')
+        .upsert({
+          id: state.id,
+          plan_id: planId,
+          checked_by: state.checked_by,
+          updated_at: new Date().toISOString()
+        }, { onConflict: 'plan_id,id' })
+      : await supabase
+        .from('checklist_states')
+        .upsert({
+          id: state.id,
+          checked_by: state.checked_by,
+          updated_at: new Date().toISOString()
+        })
 
     if (error) {
       console.error('Error saving checklist state:', error)
@@ -842,8 +1841,11 @@ export type DestinationDB = {
   theme: DestinationTheme
   is_active: boolean   // Whether this destination is enabled
   sort_order: number   // Display order
+  map_center?: { lat: number; lng: number; zoom?: number } | null // Default map center (capital / main city)
+  country_code?: string | null // ISO 3166-1 alpha-2, biases geocoding (e.g. 'JP')
   created_at: string
   updated_at: string
+  deleted_at?: string | null
 }
 
 // Default destination themes
@@ -865,6 +1867,8 @@ export const DEFAULT_DESTINATIONS: Omit<DestinationDB, 'created_at' | 'updated_a
     },
     is_active: true,
     sort_order: 1,
+    map_center: { lat: 35.6762, lng: 139.6503, zoom: 12 },
+    country_code: 'JP',
   },
   {
     id: 'thailand',
@@ -883,6 +1887,8 @@ export const DEFAULT_DESTINATIONS: Omit<DestinationDB, 'created_at' | 'updated_a
     },
     is_active: true,
     sort_order: 2,
+    map_center: { lat: 13.7563, lng: 100.5018, zoom: 12 },
+    country_code: 'TH',
   },
   {
     id: 'korea',
@@ -901,6 +1907,8 @@ export const DEFAULT_DESTINATIONS: Omit<DestinationDB, 'created_at' | 'updated_a
     },
     is_active: true,
     sort_order: 3,
+    map_center: { lat: 37.5665, lng: 126.978, zoom: 12 },
+    country_code: 'KR',
   },
   {
     id: 'taiwan',
@@ -919,12 +1927,14 @@ export const DEFAULT_DESTINATIONS: Omit<DestinationDB, 'created_at' | 'updated_a
     },
     is_active: true,
     sort_order: 4,
+    map_center: { lat: 25.033, lng: 121.5654, zoom: 12 },
+    country_code: 'TW',
   },
 ]
 
 export async function getSupabaseDestinations(): Promise<DestinationDB[]> {
   try {
-    const { data, error } = await supabase
+    let { data, error } = await supabase
       .from('destinations')
       .select('*')
       .order('sort_order', { ascending: true })
@@ -942,6 +1952,8 @@ export async function getSupabaseDestinations(): Promise<DestinationDB[]> {
       }))
     }
 
+    data = data ? withoutDeleted(data) : data
+
     // If no data, return defaults
     if (!data || data.length === 0) {
       return DEFAULT_DESTINATIONS.map(d => ({
@@ -963,21 +1975,40 @@ export async function getSupabaseDestinations(): Promise<DestinationDB[]> {
 }
 
 export async function saveSupabaseDestination(destination: Omit<DestinationDB, 'created_at' | 'updated_at'>): Promise<{ data: DestinationDB | null; error: string | null }> {
+  const denied = permissionError('settings.edit')
+  if (denied) return { data: null, error: denied }
   try {
-    const { data, error } = await supabase
+    // Saving an id that is in the trash brings that destination back
+    const before = await fetchActivityBefore('destination', destination.id)
+    const payload: Record<string, unknown> = { ...destination, updated_at: new Date().toISOString(), deleted_at: null }
+    let { data, error } = await supabase
       .from('destinations')
-      .upsert({
-        ...destination,
-        updated_at: new Date().toISOString()
-      })
+      .upsert(payload)
       .select()
       .single()
 
+    if (error && isMissingDeletedAtColumn(error.message)) {
+      delete payload.deleted_at
+      const retry = await supabase
+        .from('destinations')
+        .upsert(payload)
+        .select()
+        .single()
+      data = retry.data
+      error = retry.error
+    }
+
     if (error) {
       console.error('Error saving destination:', error)
       return { data: null, error: error.message }
     }
 
+    // Saving over a trashed id counts as a new destination
+    if (before && !before.deleted_at) {
+      void logActivity({ entityType: 'destination', entityId: destination.id, action: 'update', before, after: data })
+    } else {
+      void logActivity({ entityType: 'destination', entityId: destination.id, action: 'create', after: data })
+    }
     return { data, error: null }
   } catch (err: any) {
     console.error('Save destination error:', err)
@@ -990,18 +2021,19 @@ export async function deleteSupabaseDestination(id: string): Promise<{ success:
   if (id === 'japan') {
     return { success: false, error: '無法刪除預設的日本目的地' }
   }
+  const denied = permissionError('settings.edit')
+  if (denied) return { success: false, error: denied }
 
   try {
-    const { error } = await supabase
-      .from('destinations')
-      .delete()
-      .eq('id', id)
+    const before = await fetchActivityBefore('destination', id)
+    const { error } = await moveToTrash('destinations', id)
 
     if (error) {
       console.error('Error deleting destination:', error)
       return { success: false, error: error.message }
     }
 
+    void logActivity({ entityType: 'destination', entityId: id, action: 'delete', before })
     return { success: true, error: null }
   } catch (err: any) {
     console.error('Delete destination error:', err)
@@ -1009,6 +2041,97 @@ export async function deleteSupabaseDestination(id: string): Promise<{ success:
   }
 }
 
+// ============================================
+// Region Custom Areas (admin-added areas, merged into destinationDistricts.ts)
+// ============================================
+
+export type RegionCustomAreaDB = {
+  id: number
+  destination_id: string
+  /** RegionDataset.id (e.g. 'kyoto'); unknown ids end up in the "自訂地區" region */
+  region_id: string
+  /** District within the region; null → the region's "自訂" district */
+  district_id: string | null
+  /** Stored on wishlist_items.area */
+  area_id: string
+  zh: string
+  en: string | null
+  created_at: string
+}
+
+export async function getSupabaseCustomAreas(): Promise<RegionCustomAreaDB[]> {
+  try {
+    const { data, error } = await supabase
+      .from('region_custom_areas')
+      .select('*')
+      .order('created_at', { ascending: true })
+
+    if (error) {
+      // Don't log error for missing table (expected when not set up)
+      if (!error.message.includes('does not exist')) {
+        console.error('Error fetching custom areas:', error.message)
+      }
+      return []
+    }
+
+    return data || []
+  } catch (err) {
+    console.error('Supabase custom areas error:', err)
+    return []
+  }
+}
+
+export async function createSupabaseCustomArea(
+  area: Omit<RegionCustomAreaDB, 'id' | 'area_id' | 'created_at'>
+): Promise<{ data: RegionCustomAreaDB | null; error: string | null }> {
+  const denied = permissionError('settings.edit')
+  if (denied) return { data: null, error: denied }
+  if (!area.zh.trim()) return { data: null, error: '請輸入地區名稱' }
+  try {
+    const { data, error } = await supabase
+      .from('region_custom_areas')
+      .insert([{
+        ...area,
+        area_id: `custom_${Date.now().toString(36)}`,
+        zh: area.zh.trim(),
+        en: area.en?.trim() || null,
+      }])
+      .select()
+      .single()
+
+    if (error) {
+      console.error('Error creating custom area:', error)
+      return { data: null, error: error.message }
+    }
+
+    return { data, error: null }
+  } catch (err: any) {
+    console.error('Create custom area error:', err)
+    return { data: null, error: err.message || '新增地區時發生錯誤' }
+  }
+}
+
+export async function deleteSupabaseCustomArea(id: number): Promise<{ success: boolean; error: string | null }> {
+  const denied = permissionError('settings.edit')
+  if (denied) return { success: false, error: denied }
+  try {
+    const { error } = await supabase
+      .from('region_custom_areas')
+      .delete()
+      .eq('id', id)
+
+    if (error) {
+      console.error('Error deleting custom area:', error)
+      return { success: false, error: error.message }
+    }
+
+    return { success: true, error: null }
+  } catch (err: any) {
+    console.error('Delete custom area error:', err)
+    return { success: false, error: err.message || '刪除地區時發生錯誤' }
+  }
+}
+
 // ============================================
 // Travel Wallet / Expenses
 // ============================================
@@ -1024,6 +2147,15 @@ export const EXPENSE_CATEGORIES: { id: ExpenseCategory; label: string; icon: str
   { id: 'other', label: '其他', icon: '📦' },
 ]
 
+export type PaymentMethod = 'cash' | 'card' | 'ic' | 'paypay'
+
+export const PAYMENT_METHODS: { id: PaymentMethod; label: string; icon: string }[] = [
+  { id: 'cash', label: '現金', icon: '💴' },
+  { id: 'card', label: '信用卡', icon: '💳' },
+  { id: 'ic', label: 'Suica / IC 卡', icon: '🚃' },
+  { id: 'paypay', label: 'PayPay', icon: '📱' },
+]
+
 // User colors for shared wallet (avoiding green/red)
 export const USER_COLORS = [
   '#3B82F6', // Blue
@@ -1040,19 +2172,84 @@ export type ExpenseDB = {
   username: string
   display_name: string
   avatar_url: string | null
+  /** In `currency` (as paid) */
   amount: number
+  /** Missing before add_multi_currency.sql (= JPY) */
+  currency?: string
+  /** Units of each currency per 1 `currency` when the expense was entered; see lib/currency.ts */
+  fx_rates?: Record<string, number> | null
+  fx_source?: string | null
+  fx_captured_at?: string | null
+  /** Shared expenses: who shares it and how; null / missing = equal among everyone (lib/settlement.ts) */
+  split?: ExpenseSplit | null
+  /**
+   * Missing before add_settlement_payments.sql (= expense); settlement = `username` paid `paid_to` back;
+   * withdrawal = `username` took cash out (add_expense_payments.sql, lib/cashOnHand.ts);
+   * ic_topup = money put on `username`'s IC card (add_ic_card_topups.sql, lib/icCard.ts)
+   */
+  kind?: 'expense' | 'settlement' | 'withdrawal' | 'ic_topup'
+  paid_to?: string | null
+  /** Receipt photo (stored image URL) and what OCR read from it; missing before add_expense_receipts.sql */
+  receipt_url?: string | null
+  receipt_data?: ReceiptScan | null
+  /** Trip stop / wishlist place it was spent at (lib/expenseLinks.ts); missing before add_expense_links.sql */
+  trip_id?: number | null
+  wishlist_item_id?: number | null
+  /** How it was paid and whether before departure; missing before add_expense_payments.sql */
+  payment_method?: PaymentMethod | null
+  prepaid?: boolean | null
   category: ExpenseCategory
   note: string | null
+  plan_id?: number | null
   created_at: string
 }
 
 export type WalletSettingsDB = {
   id: number
-  shared_budget: number
-  currency: string
+  /** In `currency` */
+  shared_budget: number
+  /** Home currency of the wallet */
+  currency: string
+  /** Envelopes in `currency` (lib/budget.ts); missing before add_wallet_budgets.sql */
+  category_budgets?: Partial<Record<ExpenseCategory, number>> | null
+  daily_budget?: number | null
+  /** Per trip day number, overriding daily_budget */
+  day_budgets?: Record<string, number> | null
+  /** Percentage of a category envelope that triggers an alert */
+  budget_alert_threshold?: number | null
+  updated_at: string
+}
+
+/** Manual exchange rate: 1 from_currency = rate to_currency */
+export type ExchangeRateDB = {
+  id: number
+  from_currency: string
+  to_currency: string
+  rate: number
+  updated_by: string | null
   updated_at: string
 }
 
+/** Settle-up payment rather than an expense: not part of totals or the budget, only of balances */
+export function isSettlementPayment(row: Pick<ExpenseDB, 'kind'>): boolean {
+  return row.kind === 'settlement'
+}
+
+/** Cash taken out (ATM, money exchange): only moves cash on hand */
+export function isCashWithdrawal(row: Pick<ExpenseDB, 'kind'>): boolean {
+  return row.kind === 'withdrawal'
+}
+
+/** Money put on an IC card: spent only once the card pays for something, so only the card balance counts it */
+export function isIcTopUp(row: Pick<ExpenseDB, 'kind'>): boolean {
+  return row.kind === 'ic_topup'
+}
+
+/** Money actually spent: what totals, budgets, splits and rollups count */
+export function isSpending(row: Pick<ExpenseDB, 'kind'>): boolean {
+  return !row.kind || row.kind === 'expense'
+}
+
 // Get all expenses (personal filtered by username, shared shows all)
 export async function getSupabaseExpenses(type: 'personal' | 'shared', username?: string): Promise<ExpenseDB[]> {
   const userKey = username?.trim() || ''
@@ -1060,6 +2257,7 @@ export async function getSupabaseExpenses(type: 'personal' | 'shared', username?
   if (type === 'personal' && !userKey) {
     return []
   }
+  const scope = expensesScope(type, userKey, getCurrentPlanId())
 
   try {
     let query = supabase
@@ -1071,6 +2269,10 @@ export async function getSupabaseExpenses(type: 'personal' | 'shared', username?
     if (type === 'personal' && userKey) {
       query = query.eq('username', userKey)
     }
+    const planId = getCurrentPlanId()
+    if (planId != null) {
+      query = query.eq('plan_id', planId)
+    }
 
     const { data, error } = await query
 
@@ -1078,29 +2280,171 @@ export async function getSupabaseExpenses(type: 'personal' | 'shared', username?
       if (!error.message.includes('does not exist')) {
         console.error('Error fetching expenses:', error.message)
       }
-      return []
+      return sortExpenses(await readOfflineSnapshot<ExpenseDB>('expenses', scope))
     }
 
-    return data || []
+    return sortExpenses(await withOfflineSnapshot('expenses', scope, data || []))
   } catch (err) {
     console.error('Supabase expenses error:', err)
-    return []
+    return sortExpenses(await readOfflineSnapshot<ExpenseDB>('expenses', scope))
+  }
+}
+
+function expensesScope(type: ExpenseDB['type'], username: string, planId: number | null | undefined): string {
+  return `expenses:${type}:${type === 'personal' ? username : ''}:${planId ?? ''}`
+}
+
+export function sortExpenses(rows: ExpenseDB[]): ExpenseDB[] {
+  return [...rows].sort((a, b) => (b.created_at || '').localeCompare(a.created_at || ''))
+}
+
+/** See canWriteExpense (lib/permissions.ts) */
+function expensePermissionError(row: Pick<ExpenseDB, 'type' | 'username' | 'kind' | 'paid_to'>): string | null {
+  if (typeof window === 'undefined') return null
+  return canWriteExpense(getSessionUserInfo(), row) ? null : '沒有權限執行此操作'
+}
+
+async function existingExpensePermissionError(id: number): Promise<string | null> {
+  if (typeof window === 'undefined') return null
+  if (shouldQueueMutation(null, id)) return queuedExpensePermissionError(id)
+  const { data, error } = await supabase
+    .from('expenses')
+    .select('*')
+    .eq('id', id)
+    .maybeSingle()
+  if (error && shouldQueueMutation(error)) return queuedExpensePermissionError(id)
+  if (error || !data) return error?.message || '找不到此支出'
+  return expensePermissionError(data as ExpenseDB)
+}
+
+/** Offline: check against the last row this device saw */
+async function queuedExpensePermissionError(id: number): Promise<string | null> {
+  const known = await lastKnownRow('expenses', id)
+  if (!known) return '找不到此支出'
+  return expensePermissionError(known as unknown as ExpenseDB)
+}
+
+const EXPENSE_CURRENCY_COLUMNS = ['currency', 'fx_rates', 'fx_source', 'fx_captured_at'] as const
+
+/**
+ * Columns added to expenses by later migrations. When one is missing the row is retried without it
+ * if that loses nothing (`strip`), otherwise the save is refused with `error` (strip returns null).
+ */
+const EXPENSE_LEGACY_FALLBACKS: {
+  columns: readonly string[]
+  strip: <T extends Partial<ExpenseDB>>(row: T) => T | null
+  error: string
+}[] = [
+  {
+    // add_multi_currency.sql: only yen amounts can be saved without a currency
+    columns: EXPENSE_CURRENCY_COLUMNS,
+    strip: row => (row.currency && row.currency !== 'JPY' ? null : omitColumns(row, EXPENSE_CURRENCY_COLUMNS)),
+    error: '請先執行 add_multi_currency.sql 才能記錄外幣支出',
+  },
+  {
+    // add_expense_splits.sql: an equal split among the selected people can only be saved as
+    // "equal among everyone", anything else is refused rather than silently changed
+    columns: ['split'],
+    strip: row => (row.split && row.split.mode !== 'equal' ? null : omitColumns(row, ['split'])),
+    error: '請先執行 add_expense_splits.sql 才能設定分攤方式',
+  },
+  {
+    // add_settlement_payments.sql: payments cannot be stored as plain expenses, they would count as spending
+    columns: ['kind', 'paid_to'],
+    strip: () => null,
+    error: '請先執行 add_settlement_payments.sql 才能記錄還款',
+  },
+  {
+    // add_expense_receipts.sql: keep the expense, not a receipt photo that would be lost
+    columns: ['receipt_url', 'receipt_data'],
+    strip: row => (row.receipt_url ? null : omitColumns(row, ['receipt_url', 'receipt_data'])),
+    error: '請先執行 add_expense_receipts.sql 才能附加收據',
+  },
+  {
+    // add_expense_links.sql: the link only feeds the itinerary rollups, the expense itself is kept
+    columns: ['trip_id', 'wishlist_item_id'],
+    strip: row => omitColumns(row, ['trip_id', 'wishlist_item_id']),
+    error: '請先執行 add_expense_links.sql 才能連結行程',
+  },
+  {
+    // add_expense_payments.sql: a pre-paid expense would count on the day it was logged, so it is refused
+    columns: ['payment_method', 'prepaid'],
+    strip: row => (row.prepaid ? null : omitColumns(row, ['payment_method', 'prepaid'])),
+    error: '請先執行 add_expense_payments.sql 才能記錄付款方式',
+  },
+]
+
+/** Kinds added after add_settlement_payments.sql fail the old kind check rather than a missing column */
+const KIND_MIGRATION_ERRORS: Partial<Record<NonNullable<ExpenseDB['kind']>, string>> = {
+  withdrawal: '請先執行 add_expense_payments.sql 才能記錄提款',
+  ic_topup: '請先執行 add_ic_card_topups.sql 才能記錄 IC 卡儲值',
+}
+
+function omitColumns<T extends Partial<ExpenseDB>>(row: T, columns: readonly string[]): T {
+  const rest: Record<string, unknown> = { ...row }
+  for (const column of columns) delete rest[column]
+  return rest as T
+}
+
+/** The fallback for the column a "column does not exist" error names, if any */
+function legacyFallbackFor(error: { message?: string } | null) {
+  const message = error?.message
+  if (!message?.includes('column')) return null
+  return EXPENSE_LEGACY_FALLBACKS.find(f => f.columns.some(column => new RegExp(`\\b${column}\\b`).test(message))) ?? null
+}
+
+/**
+ * Run `save` (insert or update of `row`), retrying without columns whose migration has not run yet;
+ * each retry can reveal the next missing column. `refused` = the row cannot be saved before a migration.
+ */
+async function saveWithLegacyFallbacks<T extends Partial<ExpenseDB>>(
+  row: T,
+  save: (row: T) => PromiseLike<{ data: any; error: any }>
+): Promise<{ data: any; error: any; refused: string | null }> {
+  let current = row
+  let result = await save(current)
+  for (let attempt = 0; attempt < EXPENSE_LEGACY_FALLBACKS.length; attempt++) {
+    const fallback = legacyFallbackFor(result.error)
+    if (!fallback) break
+    const legacy = fallback.strip(current)
+    if (!legacy) return { data: null, error: null, refused: fallback.error }
+    current = legacy
+    result = await save(current)
   }
+  return { ...result, refused: null }
 }
 
-export async function createSupabaseExpense(expense: Omit<ExpenseDB, 'id' | 'created_at'>): Promise<{ data: ExpenseDB | null; error: string | null }> {
+/** `created_at` is only passed by imports (keeps the original time); otherwise the database sets it */
+export async function createSupabaseExpense(
+  expense: Omit<ExpenseDB, 'id' | 'created_at'> & { created_at?: string }
+): Promise<{ data: ExpenseDB | null; error: string | null }> {
+  const denied = expensePermissionError(expense)
+  if (denied) return { data: null, error: denied }
+  const planId = expense.plan_id ?? getCurrentPlanId()
+  const row = planId != null ? { ...expense, plan_id: planId } : expense
+  const scope = expensesScope(expense.type, expense.username, planId)
   try {
-    const { data, error } = await supabase
-      .from('expenses')
-      .insert([expense])
-      .select()
-      .single()
+    if (shouldQueueMutation()) return queueInsert<ExpenseDB>('expenses', scope, row)
+
+    const { data, error, refused } = await saveWithLegacyFallbacks(row, next =>
+      supabase
+        .from('expenses')
+        .insert([next])
+        .select()
+        .single()
+    )
+    if (refused) return { data: null, error: refused }
+    const kindError = error?.message?.includes('expenses_kind_check') && expense.kind ? KIND_MIGRATION_ERRORS[expense.kind] : undefined
+    if (kindError) return { data: null, error: kindError }
+
+    if (error && shouldQueueMutation(error)) return queueInsert<ExpenseDB>('expenses', scope, row)
 
     if (error) {
       console.error('Error creating expense:', error)
       return { data: null, error: error.message }
     }
 
+    void logActivity({ entityType: 'expense', entityId: data.id, action: 'create', after: data })
     return { data, error: null }
   } catch (err: any) {
     console.error('Create expense error:', err)
@@ -1110,18 +2454,29 @@ export async function createSupabaseExpense(expense: Omit<ExpenseDB, 'id' | 'cre
 
 export async function updateSupabaseExpense(id: number, expense: Partial<Omit<ExpenseDB, 'id' | 'created_at'>>): Promise<{ data: ExpenseDB | null; error: string | null }> {
   try {
-    const { data, error } = await supabase
-      .from('expenses')
-      .update(expense)
-      .eq('id', id)
-      .select()
-      .single()
+    const denied = await existingExpensePermissionError(id)
+    if (denied) return { data: null, error: denied }
+    if (shouldQueueMutation(null, id)) return queueUpdate<ExpenseDB>('expenses', id, expense)
+
+    const before = await fetchActivityBefore('expense', id)
+    const { data, error, refused } = await saveWithLegacyFallbacks(expense, patch =>
+      supabase
+        .from('expenses')
+        .update(patch)
+        .eq('id', id)
+        .select()
+        .single()
+    )
+    if (refused) return { data: null, error: refused }
+
+    if (error && shouldQueueMutation(error)) return queueUpdate<ExpenseDB>('expenses', id, expense)
 
     if (error) {
       console.error('Error updating expense:', error)
       return { data: null, error: error.message }
     }
 
+    void logActivity({ entityType: 'expense', entityId: id, action: 'update', before, after: data })
     return { data, error: null }
   } catch (err: any) {
     console.error('Update expense error:', err)
@@ -1131,16 +2486,23 @@ export async function updateSupabaseExpense(id: number, expense: Partial<Omit<Ex
 
 export async function deleteSupabaseExpense(id: number): Promise<{ success: boolean; error: string | null }> {
   try {
+    const denied = await existingExpensePermissionError(id)
+    if (denied) return { success: false, error: denied }
+    if (shouldQueueMutation(null, id)) return queueDelete('expenses', id)
+
+    const before = await fetchActivityBefore('expense', id)
     const { error } = await supabase
       .from('expenses')
       .delete()
       .eq('id', id)
 
+    if (error && shouldQueueMutation(error)) return queueDelete('expenses', id)
     if (error) {
       console.error('Error deleting expense:', error)
       return { success: false, error: error.message }
     }
 
+    void logActivity({ entityType: 'expense', entityId: id, action: 'delete', before })
     return { success: true, error: null }
   } catch (err: any) {
     console.error('Delete expense error:', err)
@@ -1149,6 +2511,8 @@ export async function deleteSupabaseExpense(id: number): Promise<{ success: bool
 }
 
 // Wallet settings (budget)
+const WALLET_BUDGET_COLUMNS = ['category_budgets', 'daily_budget', 'day_budgets', 'budget_alert_threshold']
+
 export async function getSupabaseWalletSettings(): Promise<WalletSettingsDB | null> {
   try {
     const { data, error } = await supabase
@@ -1172,7 +2536,10 @@ export async function getSupabaseWalletSettings(): Promise<WalletSettingsDB | nu
 }
 
 export async function saveSupabaseWalletSettings(settings: Partial<Omit<WalletSettingsDB, 'id' | 'updated_at'>>): Promise<{ success: boolean; error: string | null }> {
+  const denied = permissionError('wallet.shared.manage')
+  if (denied) return { success: false, error: denied }
   try {
+    const before = await fetchActivityBefore('wallet_settings', 1)
     const { error } = await supabase
       .from('wallet_settings')
       .upsert({
@@ -1182,13 +2549,506 @@ export async function saveSupabaseWalletSettings(settings: Partial<Omit<WalletSe
       })
 
     if (error) {
+      if (WALLET_BUDGET_COLUMNS.some(column => error.message?.includes(column)) && error.message?.includes('column')) {
+        return { success: false, error: '請先執行 add_wallet_budgets.sql 才能設定分類與每日預算' }
+      }
       console.error('Error saving wallet settings:', error)
       return { success: false, error: error.message }
     }
 
+    void logActivity({ entityType: 'wallet_settings', entityId: 1, action: 'update', before, after: settings })
     return { success: true, error: null }
   } catch (err: any) {
     console.error('Save wallet settings error:', err)
     return { success: false, error: err.message || '儲存錢包設定時發生錯誤' }
   }
 }
+
+// Manual exchange rates (exchange_rates table); the last list read is kept for offline use
+const EXCHANGE_RATES_SCOPE = 'exchange_rates'
+
+export async function getSupabaseExchangeRates(): Promise<ExchangeRateDB[]> {
+  try {
+    const { data, error } = await supabase
+      .from('exchange_rates')
+      .select('*')
+      .order('from_currency', { ascending: true })
+
+    if (error) {
+      if (!error.message.includes('does not exist')) {
+        console.error('Error fetching exchange rates:', error.message)
+      }
+      return (await readSnapshot<ExchangeRateDB[]>(EXCHANGE_RATES_SCOPE)) || []
+    }
+
+    void writeSnapshot(EXCHANGE_RATES_SCOPE, data || [])
+    return data || []
+  } catch (err) {
+    console.error('Supabase exchange rates error:', err)
+    return (await readSnapshot<ExchangeRateDB[]>(EXCHANGE_RATES_SCOPE)) || []
+  }
+}
+
+export async function saveSupabaseExchangeRate(
+  fromCurrency: string,
+  toCurrency: string,
+  rate: number
+): Promise<{ data: ExchangeRateDB | null; error: string | null }> {
+  const denied = permissionError('wallet.shared.write')
+  if (denied) return { data: null, error: denied }
+  if (fromCurrency === toCurrency) return { data: null, error: '請選擇兩種不同的貨幣' }
+  if (!(rate > 0)) return { data: null, error: '匯率必須大於 0' }
+  try {
+    const { data, error } = await supabase
+      .from('exchange_rates')
+      .upsert(
+        {
+          from_currency: fromCurrency,
+          to_currency: toCurrency,
+          rate,
+          updated_by: getSessionUserInfo()?.username ?? null,
+          updated_at: new Date().toISOString(),
+        },
+        { onConflict: 'from_currency,to_currency' }
+      )
+      .select()
+      .single()
+
+    if (error) {
+      console.error('Error saving exchange rate:', error)
+      return { data: null, error: error.message }
+    }
+
+    return { data, error: null }
+  } catch (err: any) {
+    console.error('Save exchange rate error:', err)
+    return { data: null, error: err.message || '儲存匯率時發生錯誤' }
+  }
+}
+
+export async function deleteSupabaseExchangeRate(id: number): Promise<{ success: boolean; error: string | null }> {
+  const denied = permissionError('wallet.shared.write')
+  if (denied) return { success: false, error: denied }
+  try {
+    const { error } = await supabase
+      .from('exchange_rates')
+      .delete()
+      .eq('id', id)
+
+    if (error) {
+      console.error('Error deleting exchange rate:', error)
+      return { success: false, error: error.message }
+    }
+
+    return { success: true, error: null }
+  } catch (err: any) {
+    console.error('Delete exchange rate error:', err)
+    return { success: false, error: err.message || '刪除匯率時發生錯誤' }
+  }
+}
+
+// ============================================
+// Trash (垃圾桶): trips / users / destinations / wishlist items are soft-deleted via deleted_at
+// ============================================
+
+export type TrashTable = 'trips' | 'users' | 'destinations' | 'wishlist_items'
+
+export type TrashContents = {
+  trips: Trip[]
+  users: UserProfileDB[]
+  destinations: DestinationDB[]
+  wishlist_items: WishlistItemDB[]
+}
+
+export const TRASH_TABLES: TrashTable[] = ['trips', 'users', 'destinations', 'wishlist_items']
+
+/** Used until an admin sets site_settings.trash_retention_days */
+export const DEFAULT_TRASH_RETENTION_DAYS = 30
+
+// users are keyed by username, destinations by their text id
+const TRASH_KEY_COLUMNS: Record<TrashTable, string> = {
+  trips: 'id',
+  users: 'username',
+  destinations: 'id',
+  wishlist_items: 'id',
+}
+
+function isMissingDeletedAtColumn(message: string | null | undefined): boolean {
+  return !!message?.includes('deleted_at')
+}
+
+/** Drop rows that are in the trash (rows fetched before the soft-delete migration have no deleted_at) */
+export function withoutDeleted<T extends { deleted_at?: string | null }>(rows: T[]): T[] {
+  return rows.filter(row => !row.deleted_at)
+}
+
+/** Soft delete; callers check permissions. Before add_soft_delete has run the row is deleted for good. */
+async function moveToTrash(table: TrashTable, key: number | string) {
+  const keyColumn = TRASH_KEY_COLUMNS[table]
+  const { error } = await supabase
+    .from(table)
+    .update({ deleted_at: new Date().toISOString() })
+    .eq(keyColumn, key)
+  if (error && isMissingDeletedAtColumn(error.message)) {
+    return supabase.from(table).delete().eq(keyColumn, key)
+  }
+  return { error }
+}
+
+/** Everything in the shared trash, newest first (empty lists before the soft-delete migration) */
+export async function getTrash(): Promise<TrashContents> {
+  const trash: TrashContents = { trips: [], users: [], destinations: [], wishlist_items: [] }
+  try {
+    await Promise.all(
+      TRASH_TABLES.map(async table => {
+        const { data, error } = await supabase
+          .from(table)
+          .select(readableColumns(table))
+          .not('deleted_at', 'is', null)
+          .order('deleted_at', { ascending: false })
+          .returns<any[]>()
+        if (error) {
+          if (!isMissingDeletedAtColumn(error.message) && !error.message.includes('does not exist')) {
+            console.error(`Error fetching trashed ${table}:`, error.message)
+          }
+          return
+        }
+        trash[table] = data || []
+      })
+    )
+  } catch (err) {
+    console.error('Supabase trash error:', err)
+  }
+  return trash
+}
+
+const TRASH_ACTIVITY_TYPES: Record<TrashTable, ActivityEntityType> = {
+  trips: 'trip',
+  users: 'user',
+  destinations: 'destination',
+  wishlist_items: 'wishlist_item',
+}
+
+/** Take a row back out of the trash. A restored trip is re-linked to its wishlist item. */
+export async function restoreFromTrash(table: TrashTable, key: number | string): Promise<{ success: boolean; error: string | null }> {
+  const denied = permissionError('trash.manage')
+  if (denied) return { success: false, error: denied }
+  try {
+    const { data, error } = await supabase
+      .from(table)
+      .update({ deleted_at: null })
+      .eq(TRASH_KEY_COLUMNS[table], key)
+      .select(readableColumns(table))
+      .returns<Record<string, unknown>[]>()
+      .maybeSingle()
+
+    if (error) {
+      console.error('Error restoring from trash:', error)
+      return { success: false, error: error.message }
+    }
+    if (!data) return { success: false, error: '找不到此項目' }
+    const restoredKey = (data as Record<string, unknown>)[TRASH_KEY_COLUMNS[table]] as number | string
+    void logActivity({ entityType: TRASH_ACTIVITY_TYPES[table], entityId: restoredKey, action: 'restore', after: data })
+
+    // deleteTrip cleared the wishlist item's added_to_trip; put it back
+    const trip = table === 'trips' ? (data as Trip) : null
+    if (trip?.wishlist_item_id != null) {
+      const startDate = await getCurrentTripStartDate()
+      if (startDate) {
+        await updateSupabaseWishlistItem(trip.wishlist_item_id, {
+          added_to_trip: { day: Math.max(1, getDayNumberForDate(startDate, trip.date)), time: trip.time_start || trip.time_end || '12:00' },
+        })
+      }
+    }
+
+    return { success: true, error: null }
+  } catch (err: any) {
+    console.error('Restore from trash error:', err)
+    return { success: false, error: err.message || '還原項目時發生錯誤' }
+  }
+}
+
+/** Delete one trashed row for good (rows not in the trash are left alone) */
+export async function deleteFromTrash(table: TrashTable, key: number | string): Promise<{ success: boolean; error: string | null }> {
+  const denied = permissionError('trash.manage')
+  if (denied) return { success: false, error: denied }
+  try {
+    const { data, error } = await supabase
+      .from(table)
+      .delete()
+      .eq(TRASH_KEY_COLUMNS[table], key)
+      .not('deleted_at', 'is', null)
+      .select(readableColumns(table))
+      .returns<Record<string, unknown>[]>()
+
+    if (error) {
+      console.error('Error deleting from trash:', error)
+      return { success: false, error: error.message }
+    }
+
+    for (const row of data || []) {
+      void logActivity({ entityType: TRASH_ACTIVITY_TYPES[table], entityId: key, action: 'purge', before: row })
+    }
+    return { success: true, error: null }
+  } catch (err: any) {
+    console.error('Delete from trash error:', err)
+    return { success: false, error: err.message || '永久刪除時發生錯誤' }
+  }
+}
+
+/**
+ * Permanently delete trashed rows. With `olderThanDays` only rows trashed before that many days ago
+ * (retention purge); without it the whole trash is emptied.
+ */
+export async function purgeTrash(olderThanDays?: number): Promise<{ success: boolean; error: string | null }> {
+  const denied = permissionError('trash.manage')
+  if (denied) return { success: false, error: denied }
+  const cutoff = olderThanDays != null ? new Date(Date.now() - olderThanDays * 24 * 60 * 60 * 1000).toISOString() : null
+  try {
+    for (const table of TRASH_TABLES) {
+      let query = supabase.from(table).delete().not('deleted_at', 'is', null)
+      if (cutoff) query = query.lt('deleted_at', cutoff)
+      const { data, error } = await query.select(readableColumns(table)).returns<Record<string, unknown>[]>()
+      if (error && !isMissingDeletedAtColumn(error.message)) {
+        console.error(`Error purging trashed ${table}:`, error)
+        return { success: false, error: error.message }
+      }
+      for (const row of (data || []) as Record<string, unknown>[]) {
+        const rowKey = row[TRASH_KEY_COLUMNS[table]] as number | string
+        void logActivity({ entityType: TRASH_ACTIVITY_TYPES[table], entityId: rowKey, action: 'purge', before: row })
+      }
+    }
+    return { success: true, error: null }
+  } catch (err: any) {
+    console.error('Purge trash error:', err)
+    return { success: false, error: err.message || '清空垃圾桶時發生錯誤' }
+  }
+}
+
+/** Days a trashed row is kept before purgeExpiredTrash removes it */
+export async function getTrashRetentionDays(): Promise<number> {
+  const settings = await getSupabaseSiteSettings()
+  const days = settings?.trash_retention_days
+  return typeof days === 'number' && days > 0 ? days : DEFAULT_TRASH_RETENTION_DAYS
+}
+
+/** Retention purge; the panel runs it when someone who can manage the trash opens it */
+export async function purgeExpiredTrash(): Promise<{ success: boolean; error: string | null }> {
+  return purgeTrash(await getTrashRetentionDays())
+}
+
+// ============================================
+// Activity log (活動紀錄): who changed what, written by the mutating functions above
+// ============================================
+
+const ACTIVITY_TABLES: Record<ActivityEntityType, { table: string; keyColumn: string }> = {
+  trip: { table: 'trips', keyColumn: 'id' },
+  wishlist_item: { table: 'wishlist_items', keyColumn: 'id' },
+  expense: { table: 'expenses', keyColumn: 'id' },
+  settings: { table: 'site_settings', keyColumn: 'id' },
+  trip_plan: { table: 'trip_plans', keyColumn: 'id' },
+  wallet_settings: { table: 'wallet_settings', keyColumn: 'id' },
+  user: { table: 'users', keyColumn: 'username' },
+  destination: { table: 'destinations', keyColumn: 'id' },
+}
+
+// Off once the activity_log table turns out to be missing (migration not run)
+let activityLogAvailable = true
+// Set while revertActivity runs so the changes it makes point back at the reverted entry
+let revertingActivityId: number | null = null
+
+/** Current row, for the "before" side of an update/delete entry */
+async function fetchActivityBefore(entityType: ActivityEntityType, key: number | string): Promise<Record<string, unknown> | null> {
+  if (!activityLogAvailable || typeof window === 'undefined') return null
+  const { table, keyColumn } = ACTIVITY_TABLES[entityType]
+  const { data } = await supabase.from(table).select(readableColumns(table)).eq(keyColumn, key).returns<Record<string, unknown>[]>().maybeSingle()
+  return (data as Record<string, unknown> | null) ?? null
+}
+
+/**
+ * Append an activity_log entry. Never fails the change itself; updates with no real difference
+ * are skipped. Reactions (likes, ❤️❤️) and checklist ticks are not logged.
+ */
+async function logActivity(entry: {
+  entityType: ActivityEntityType
+  entityId: number | string
+  action: ActivityAction
+  before?: object | null
+  after?: object | null
+}): Promise<void> {
+  if (!activityLogAvailable || typeof window === 'undefined') return
+  const revertsId = revertingActivityId
+  const actor = getSessionUserInfo()
+  let before = entry.before ? redactActivityRow(entry.before as Record<string, unknown>) : null
+  let after = entry.after ? redactActivityRow(entry.after as Record<string, unknown>) : null
+  const label = activityEntityLabel(after ?? before)
+  if (entry.action === 'update') {
+    const diff = diffActivityFields(before ?? {}, after ?? {})
+    if (!diff) return
+    before = diff.before
+    after = diff.after
+  }
+  try {
+    const { error } = await supabase.from('activity_log').insert([{
+      actor_username: actor?.username ?? null,
+      actor_display_name: actor?.displayName ?? null,
+      entity_type: entry.entityType,
+      entity_id: String(entry.entityId),
+      entity_label: label,
+      action: entry.action,
+      before,
+      after,
+      reverts_id: revertsId,
+    }])
+    if (error) {
+      if (error.message.includes('activity_log')) activityLogAvailable = false
+      else console.error('Error writing activity log:', error.message)
+    }
+  } catch (err) {
+    console.error('Activity log error:', err)
+  }
+}
+
+/** Newest first; `day` is a local calendar day (YYYY-MM-DD) */
+export async function getActivityLog(filters: ActivityLogFilters = {}, limit = 200): Promise<ActivityLogDB[]> {
+  try {
+    let query = supabase.from('activity_log').select('*')
+    if (filters.actor) query = query.eq('actor_username', filters.actor)
+    if (filters.entityType) query = query.eq('entity_type', filters.entityType)
+    if (filters.day) {
+      const start = new Date(`${filters.day}T00:00:00`)
+      const end = new Date(start)
+      end.setDate(start.getDate() + 1)
+      query = query.gte('created_at', start.toISOString()).lt('created_at', end.toISOString())
+    }
+    const { data, error } = await query.order('created_at', { ascending: false }).limit(limit)
+
+    if (error) {
+      // Don't log error for missing table (expected before the activity_log migration)
+      if (!error.message.includes('activity_log')) {
+        console.error('Error fetching activity log:', error.message)
+      }
+      return []
+    }
+
+    return data || []
+  } catch (err) {
+    console.error('Supabase activity log error:', err)
+    return []
+  }
+}
+
+type MutationResult = { error: string | null }
+
+function asRevertResult(result: MutationResult): { success: boolean; error: string | null } {
+  return { success: !result.error, error: result.error }
+}
+
+function withoutKeys(row: Record<string, unknown>, keys: string[]): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(row).filter(([key]) => !keys.includes(key)))
+}
+
+/** Move a row back to the trash / delete it (undo of create or restore) */
+async function revertByDeleting(entityType: ActivityEntityType, key: string): Promise<MutationResult> {
+  switch (entityType) {
+    case 'trip': return deleteTrip(Number(key))
+    case 'wishlist_item': return deleteSupabaseWishlistItem(Number(key))
+    case 'expense': return deleteSupabaseExpense(Number(key))
+    case 'trip_plan': return deleteSupabaseTripPlan(Number(key))
+    case 'user': return deleteSupabaseUser(key)
+    case 'destination': return deleteSupabaseDestination(key)
+    default: return { error: '此變更無法還原' }
+  }
+}
+
+/** Put the old values of the changed fields back (undo of update) */
+async function revertByPatching(entityType: ActivityEntityType, key: string, patch: Record<string, unknown>): Promise<MutationResult> {
+  switch (entityType) {
+    case 'trip': return updateTrip(Number(key), patch as Partial<Trip>)
+    case 'wishlist_item': return updateSupabaseWishlistItem(Number(key), patch as Partial<WishlistItemDB>)
+    case 'expense': return updateSupabaseExpense(Number(key), patch as Partial<ExpenseDB>)
+    case 'settings': return saveSupabaseSiteSettings(patch as Partial<SiteSettingsDB>)
+    case 'trip_plan': return updateSupabaseTripPlan(Number(key), patch as Partial<TripPlanDB>)
+    case 'wallet_settings': return saveSupabaseWalletSettings(patch as Partial<WalletSettingsDB>)
+    case 'user': {
+      const current = (await fetchActivityBefore('user', key)) as UserDB | null
+      if (!current) return { error: '找不到此用戶' }
+      return saveSupabaseUser(
+        { ...withoutKeys(current, ['id', 'created_at', 'deleted_at']), ...patch, password: '' } as Omit<UserDB, 'id' | 'created_at'>,
+        current.username
+      )
+    }
+    case 'destination': {
+      const current = await fetchActivityBefore('destination', key)
+      if (!current) return { error: '找不到此目的地' }
+      return saveSupabaseDestination({ ...withoutKeys(current, ['created_at', 'updated_at']), ...patch } as Omit<DestinationDB, 'created_at' | 'updated_at'>)
+    }
+  }
+}
+
+/** Bring a deleted row back: trashed rows are restored, deleted expenses are re-created */
+async function revertByRecreating(entityType: ActivityEntityType, key: string, row: Record<string, unknown>): Promise<MutationResult> {
+  switch (entityType) {
+    case 'trip': return restoreFromTrash('trips', Number(key))
+    case 'wishlist_item': return restoreFromTrash('wishlist_items', Number(key))
+    case 'user': return restoreFromTrash('users', key)
+    case 'destination': return restoreFromTrash('destinations', key)
+    case 'expense': return createSupabaseExpense(withoutKeys(row, ['id', 'created_at']) as Omit<ExpenseDB, 'id' | 'created_at'>)
+    default: return { error: '此變更無法還原' }
+  }
+}
+
+/**
+ * 還原此變更: undo one activity entry through the normal data functions, so the undo is
+ * permission-checked and shows up in the feed itself (with reverts_id pointing here).
+ */
+export async function revertActivity(entry: ActivityLogDB): Promise<{ success: boolean; error: string | null }> {
+  const denied = permissionError('activity.revert')
+  if (denied) return { success: false, error: denied }
+  if (!isActivityRevertable(entry)) return { success: false, error: '此變更無法還原' }
+
+  revertingActivityId = entry.id
+  try {
+    switch (entry.action) {
+      case 'create':
+      case 'restore':
+        return asRevertResult(await revertByDeleting(entry.entity_type, entry.entity_id))
+      case 'update':
+        return asRevertResult(await revertByPatching(entry.entity_type, entry.entity_id, entry.before || {}))
+      case 'delete':
+        return asRevertResult(await revertByRecreating(entry.entity_type, entry.entity_id, entry.before || {}))
+      default:
+        return { success: false, error: '此變更無法還原' }
+    }
+  } catch (err: any) {
+    console.error('Revert activity error:', err)
+    return { success: false, error: err.message || '還原變更時發生錯誤' }
+  } finally {
+    revertingActivityId = null
+  }
+}
+
+// ============================================
+// Outbox replay (offlineOutbox.ts calls these when back online)
+// ============================================
+
+registerReplayHandlers('trips', {
+  insert: values => createTrip(values as Omit<TripWrite, 'id' | 'created_at' | 'updated_at'>),
+  update: (id, values) => updateTrip(id, values as Partial<TripWrite>),
+  remove: deleteTrip,
+  fetchCurrent: id => fetchRowForReplay('trips', id),
+})
+
+registerReplayHandlers('wishlist_items', {
+  insert: values => saveSupabaseWishlistItem(values as Omit<WishlistItemDB, 'id' | 'created_at'>),
+  update: (id, values) => updateSupabaseWishlistItem(id, values as Partial<WishlistItemDB>),
+  remove: deleteSupabaseWishlistItem,
+  fetchCurrent: id => fetchRowForReplay('wishlist_items', id),
+})
+
+registerReplayHandlers('expenses', {
+  insert: values => createSupabaseExpense(values as Omit<ExpenseDB, 'id' | 'created_at'>),
+  update: (id, values) => updateSupabaseExpense(id, values as Partial<ExpenseDB>),
+  remove: deleteSupabaseExpense,
+  fetchCurrent: id => fetchRowForReplay('expenses', id),
+})
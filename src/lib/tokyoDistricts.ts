@@ -1,4 +1,4 @@
-// Tokyo & 關東常用地區 — shared by 美食清單新增/編輯、篩選與已讚好詳情
+// Tokyo & 關東常用地區 — the `tokyo` region of japan in destinationDistricts.ts
 
 export type TokyoArea = { id: string; zh: string; en: string }
 
@@ -215,68 +215,6 @@ export const TOKYO_DISTRICTS: TokyoDistrict[] = [
       { id: 'chichibu', zh: '秩父', en: 'Chichibu' },
     ],
   },
-  {
-    id: 'kansai',
-    label: '關西（京・阪・奈）',
-    en: 'Kansai (Kyoto, Osaka, Nara)',
-    icon: '⛩️',
-    areas: [
-      { id: 'kyoto_station', zh: '京都車站', en: 'Kyoto Station' },
-      { id: 'arashiyama', zh: '嵐山', en: 'Arashiyama' },
-      { id: 'gion', zh: '祇園', en: 'Gion' },
-      { id: 'fushimi', zh: '伏見', en: 'Fushimi' },
-      { id: 'nishiki', zh: '錦市場', en: 'Nishiki Market' },
-      { id: 'shinsaibashi', zh: '心齋橋', en: 'Shinsaibashi' },
-      { id: 'namba', zh: '難波', en: 'Namba' },
-      { id: 'umeda', zh: '梅田', en: 'Umeda' },
-      { id: 'dotonbori', zh: '道頓堀', en: 'Dotonbori' },
-      { id: 'nara', zh: '奈良', en: 'Nara' },
-      { id: 'kobe', zh: '神戶', en: 'Kobe' },
-      { id: 'kix_airport', zh: '關西機場', en: 'Kansai Airport' },
-    ],
-  },
-  {
-    id: 'chubu',
-    label: '中部（名古屋・石川）',
-    en: 'Chubu (Nagoya, Ishikawa)',
-    icon: '🏯',
-    areas: [
-      { id: 'nagoya', zh: '名古屋', en: 'Nagoya' },
-      { id: 'kanazawa', zh: '金澤', en: 'Kanazawa' },
-      { id: 'shirakawa', zh: '白川郷', en: 'Shirakawa-go' },
-      { id: 'toyama', zh: '富山', en: 'Toyama' },
-      { id: 'niigata', zh: '新潟', en: 'Niigata' },
-    ],
-  },
-  {
-    id: 'tohoku',
-    label: '東北（仙台・青森）',
-    en: 'Tohoku (Sendai, Aomori)',
-    icon: '🌾',
-    areas: [
-      { id: 'sendai', zh: '仙台', en: 'Sendai' },
-      { id: 'aomori', zh: '青森', en: 'Aomori' },
-      { id: 'akita', zh: '秋田', en: 'Akita' },
-      { id: 'yamagata', zh: '山形', en: 'Yamagata' },
-      { id: 'fukushima', zh: '福島', en: 'Fukushima' },
-      { id: 'hachimantai', zh: '八幡平', en: 'Hachimantai' },
-    ],
-  },
-  {
-    id: 'hokkaido_okinawa',
-    label: '北海道・沖繩',
-    en: 'Hokkaido & Okinawa',
-    icon: '❄️',
-    areas: [
-      { id: 'sapporo', zh: '札幌', en: 'Sapporo' },
-      { id: 'otaru', zh: '小樽', en: 'Otaru' },
-      { id: 'niseko', zh: '二世古', en: 'Niseko' },
-      { id: 'hakodate', zh: '函館', en: 'Hakodate' },
-      { id: 'asahikawa', zh: '旭川', en: 'Asahikawa' },
-      { id: 'naha', zh: '那霸', en: 'Naha' },
-      { id: 'churaumi', zh: '美麗海水族館', en: 'Churaumi' },
-    ],
-  },
 ]
 
 export const TOKYO_AREAS: TokyoArea[] = TOKYO_DISTRICTS.flatMap(d => d.areas)
@@ -0,0 +1,176 @@
+/**
+ * 行程日曆：trip dates are plain calendar dates ("YYYY-MM-DD") in the destination's time zone.
+ * Day arithmetic is done on the date itself (UTC midnight internally), never through the
+ * browser's local time, so a phone in Hong Kong and one in Tokyo agree on which day is Day 3
+ * and on what "today" is at the destination. Pure helpers; no Supabase / settings imports.
+ */
+
+const DATE_ONLY = /^(\d{4})-(\d{2})-(\d{2})/
+const MS_PER_DAY = 24 * 60 * 60 * 1000
+
+/** Country code (destinations.country_code) → IANA time zone of the trip */
+const COUNTRY_TIME_ZONES: Record<string, string> = {
+  JP: 'Asia/Tokyo',
+  KR: 'Asia/Seoul',
+  TW: 'Asia/Taipei',
+  HK: 'Asia/Hong_Kong',
+  MO: 'Asia/Macau',
+  CN: 'Asia/Shanghai',
+  TH: 'Asia/Bangkok',
+  VN: 'Asia/Ho_Chi_Minh',
+  SG: 'Asia/Singapore',
+  MY: 'Asia/Kuala_Lumpur',
+  PH: 'Asia/Manila',
+  ID: 'Asia/Jakarta',
+  GB: 'Europe/London',
+  FR: 'Europe/Paris',
+  DE: 'Europe/Berlin',
+  IT: 'Europe/Rome',
+  ES: 'Europe/Madrid',
+  AU: 'Australia/Sydney',
+  NZ: 'Pacific/Auckland',
+}
+
+/** Trip time zone for a destination country; falls back to the device's zone */
+export function getTimeZoneForCountry(countryCode: string | null | undefined): string {
+  const zone = countryCode ? COUNTRY_TIME_ZONES[countryCode.toUpperCase()] : undefined
+  return zone || getDeviceTimeZone()
+}
+
+export function getDeviceTimeZone(): string {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC'
+  } catch {
+    return 'UTC'
+  }
+}
+
+/**
+ * "YYYY-MM-DD" part of a stored trip date. Rows sometimes carry a time ("2026-05-16T00:00:00+00:00");
+ * the calendar date written there is what counts, not that instant in the viewer's zone.
+ */
+export function normalizeTripDate(value: string | null | undefined): string {
+  const match = value?.trim().match(DATE_ONLY)
+  return match ? `${match[1]}-${match[2]}-${match[3]}` : ''
+}
+
+function toUtcMs(date: string): number | null {
+  const match = date.match(DATE_ONLY)
+  if (!match) return null
+  const ms = Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3]))
+  return Number.isNaN(ms) ? null : ms
+}
+
+function fromUtcMs(ms: number): string {
+  return new Date(ms).toISOString().slice(0, 10)
+}
+
+/** date + n calendar days ('' when date is not a date) */
+export function addDays(date: string, days: number): string {
+  const ms = toUtcMs(normalizeTripDate(date))
+  return ms == null ? '' : fromUtcMs(ms + days * MS_PER_DAY)
+}
+
+/** Whole calendar days from `from` to `to` (negative when `to` is earlier); null for invalid input */
+export function diffDays(from: string, to: string): number | null {
+  const a = toUtcMs(normalizeTripDate(from))
+  const b = toUtcMs(normalizeTripDate(to))
+  if (a == null || b == null) return null
+  return Math.round((b - a) / MS_PER_DAY)
+}
+
+/** Date of Day N (1-based) of a trip starting on tripStartDate */
+export function getDateForDay(tripStartDate: string, dayNumber: number): string {
+  if (!tripStartDate) return ''
+  return addDays(tripStartDate, dayNumber - 1)
+}
+
+/** Day number (1-based, may be < 1 or > total days) of a date in a trip; 1 when unknown */
+export function getDayNumberForDate(tripStartDate: string, date: string): number {
+  const diff = diffDays(tripStartDate, date)
+  return diff == null ? 1 : diff + 1
+}
+
+/** Whether a stored trip date falls on the given calendar date */
+export function isSameTripDate(a: string | null | undefined, b: string | null | undefined): boolean {
+  const left = normalizeTripDate(a)
+  return left !== '' && left === normalizeTripDate(b)
+}
+
+/** Wall-clock parts of an instant in a time zone */
+function zonedParts(instant: number, timeZone: string): { date: string; ms: number } {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(new Date(instant))
+  const get = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(p => p.type === type)?.value)
+  const ms = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'))
+  return { date: fromUtcMs(Date.UTC(get('year'), get('month') - 1, get('day'))), ms }
+}
+
+/** Calendar date of an instant at the destination ("today" = todayInTimeZone(zone)) */
+export function todayInTimeZone(timeZone: string, now: Date = new Date()): string {
+  return zonedParts(now.getTime(), timeZone).date
+}
+
+/** Offset of a time zone from UTC at an instant, in minutes (Tokyo: 540) */
+export function timeZoneOffsetMinutes(timeZone: string, instant: number): number {
+  const { ms } = zonedParts(instant, timeZone)
+  return Math.round((ms - Math.floor(instant / 1000) * 1000) / 60000)
+}
+
+/**
+ * Instant of a wall-clock time ("YYYY-MM-DD", "HH:mm") in a time zone. Like JS Date for local
+ * times: a time skipped by a DST change moves forward by the gap, a repeated time is the first one.
+ */
+export function zonedTimeToUtc(date: string, time: string, timeZone: string): number | null {
+  const day = toUtcMs(normalizeTripDate(date))
+  const match = time.trim().match(/^(\d{1,2}):(\d{2})/)
+  if (day == null || !match) return null
+  const wall = day + (Number(match[1]) * 60 + Number(match[2])) * 60000
+  // Offsets a day either side cover both sides of any DST change near this time
+  const offsetBefore = timeZoneOffsetMinutes(timeZone, wall - MS_PER_DAY)
+  const offsetAfter = timeZoneOffsetMinutes(timeZone, wall + MS_PER_DAY)
+  const candidates = [offsetBefore, offsetAfter]
+    .map(offset => wall - offset * 60000)
+    .filter(instant => zonedParts(instant, timeZone).ms === wall)
+  return candidates.length > 0 ? Math.min(...candidates) : wall - offsetBefore * 60000
+}
+
+/**
+ * Day N that is "today" at the destination, or null before / after the trip. Used to open the
+ * itinerary on the current day and to highlight it.
+ */
+export function getTodayTripDay(
+  tripStartDate: string,
+  totalDays: number,
+  timeZone: string,
+  now: Date = new Date()
+): number | null {
+  if (!normalizeTripDate(tripStartDate)) return null
+  const day = getDayNumberForDate(tripStartDate, todayInTimeZone(timeZone, now))
+  return day >= 1 && day <= totalDays ? day : null
+}
+
+/** "M/D" of a plain date, for day tabs ('' when not a date) */
+export function formatTripMonthDay(date: string | null | undefined): string {
+  const match = normalizeTripDate(date).match(DATE_ONLY)
+  return match ? `${Number(match[2])}/${Number(match[3])}` : ''
+}
+
+/** Locale formatting of a plain date (weekday etc. are those of the date itself, not shifted) */
+export function formatTripDate(
+  date: string,
+  options: Intl.DateTimeFormatOptions,
+  locale = 'zh-TW'
+): string {
+  const ms = toUtcMs(normalizeTripDate(date))
+  if (ms == null) return ''
+  return new Date(ms).toLocaleDateString(locale, { ...options, timeZone: 'UTC' })
+}
@@ -1,4 +1,5 @@
 import type { SiteSettings } from '@/lib/settings'
+import { formatTripDate, getDateForDay } from '@/lib/tripCalendar'
 
 type DayLabelSettings = Pick<SiteSettings, 'daySchedules' | 'tripStartDate'> | null | undefined
 
@@ -12,11 +13,9 @@ export function getDayScheduleTheme(dayNumber: number, settings: DayLabelSetting
 export function formatTripDaySelectOption(dayNumber: number, settings: DayLabelSettings): string {
   const theme = getDayScheduleTheme(dayNumber, settings)
   let datePart = ''
-  if (settings?.tripStartDate) {
-    const start = new Date(settings.tripStartDate)
-    const t = new Date(start)
-    t.setDate(start.getDate() + dayNumber - 1)
-    datePart = `(${t.toLocaleDateString('zh-TW', { month: 'numeric', day: 'numeric', weekday: 'short' })})`
+  const date = settings?.tripStartDate ? getDateForDay(settings.tripStartDate, dayNumber) : ''
+  if (date) {
+    datePart = `(${formatTripDate(date, { month: 'numeric', day: 'numeric', weekday: 'short' })})`
   }
   const base = `Day ${dayNumber}`
   if (theme) return `${base} · ${theme} ${datePart}`.trim()
@@ -0,0 +1,98 @@
+import type { Trip, TripScheduleItemDB, TripScheduleItemInput } from './supabase'
+
+/**
+ * 行程明細：the time-ranged lines of a trip, stored in trip_schedule_items.
+ * Older trips kept them as a JSON-serialized array in trips.description; those are still read
+ * here until add_trip_schedule_items.sql has moved them. Anything else in description is legacy
+ * HTML / plain text and is shown as-is.
+ */
+
+/** One line in the trip forms (string fields, string ids so unsaved lines can have temp ids) */
+export type ScheduleItem = {
+  id: string
+  time_start: string
+  time_end: string
+  content: string
+  location: string
+  cost: string
+  booking_ref: string
+}
+
+function newScheduleItemId(): string {
+  return Date.now().toString() + Math.random().toString(36).substr(2, 9)
+}
+
+export function createEmptyScheduleItem(content = ''): ScheduleItem {
+  return { id: newScheduleItemId(), time_start: '', time_end: '', content, location: '', cost: '', booking_ref: '' }
+}
+
+/** A table row, or a line of the legacy description JSON (string ids like "12-0", costs kept as typed) */
+type StoredScheduleItem = Partial<Omit<TripScheduleItemDB, 'id' | 'cost'>> & { id?: number | string; cost?: number | string | null }
+
+function toScheduleItem(item: StoredScheduleItem): ScheduleItem {
+  return {
+    id: item.id != null ? String(item.id) : newScheduleItemId(),
+    time_start: item.time_start || '',
+    time_end: item.time_end || '',
+    content: item.content || '',
+    location: item.location || '',
+    cost: item.cost != null ? String(item.cost) : '',
+    booking_ref: item.booking_ref || '',
+  }
+}
+
+/** Legacy description JSON (`[{ id, time_start, time_end, content }]`); null when description is not that */
+export function parseLegacyScheduleJson(description: string | null | undefined): ScheduleItem[] | null {
+  if (!description || !description.trim().startsWith('[')) return null
+  try {
+    const parsed = JSON.parse(description)
+    if (!Array.isArray(parsed)) return null
+    if (parsed.some(item => typeof item !== 'object' || item === null || !('content' in item))) return null
+    return parsed.map(toScheduleItem)
+  } catch {
+    return null
+  }
+}
+
+/** Schedule lines of a trip, in order: table rows when there are any, else the legacy JSON */
+export function tripScheduleItems(trip: Pick<Trip, 'description' | 'schedule_items'>): ScheduleItem[] {
+  if (trip.schedule_items && trip.schedule_items.length > 0) {
+    return [...trip.schedule_items]
+      .sort((a, b) => (a.sort_order ?? 0) - (b.sort_order ?? 0))
+      .map(toScheduleItem)
+  }
+  return parseLegacyScheduleJson(trip.description) ?? []
+}
+
+/** HTML / plain-text description kept from before schedule items; '' when it held schedule JSON */
+export function tripLegacyDescription(trip: Pick<Trip, 'description'>): string {
+  const description = trip.description || ''
+  if (!description.trim() || parseLegacyScheduleJson(description) !== null) return ''
+  return description
+}
+
+export function isScheduleItemFilled(item: ScheduleItem): boolean {
+  return !!(item.content.trim() || item.time_start || item.time_end || item.location.trim() || item.booking_ref.trim())
+}
+
+/** Form lines → rows for replaceTripScheduleItems (empty lines dropped, cost parsed) */
+export function scheduleItemsToInput(items: ScheduleItem[]): TripScheduleItemInput[] {
+  return items.filter(isScheduleItemFilled).map((item, index) => {
+    const cost = Number(item.cost.replace(/[,\s]/g, ''))
+    return {
+      sort_order: index,
+      time_start: item.time_start || null,
+      time_end: item.time_end || null,
+      content: item.content.trim(),
+      location: item.location.trim() || null,
+      cost: item.cost.trim() && Number.isFinite(cost) ? cost : null,
+      booking_ref: item.booking_ref.trim() || null,
+    }
+  })
+}
+
+/** "HH:mm - HH:mm" / "HH:mm" / '' */
+export function formatScheduleTimeRange(item: Pick<ScheduleItem, 'time_start' | 'time_end'>, separator = ' - '): string {
+  if (!item.time_start && !item.time_end) return ''
+  return `${item.time_start}${item.time_end ? `${separator}${item.time_end}` : ''}`
+}
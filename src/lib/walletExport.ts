@@ -0,0 +1,505 @@
+import { EXPENSE_CATEGORIES, PAYMENT_METHODS, isSpending, type ExpenseCategory, type ExpenseDB, type PaymentMethod } from './supabase'
+import { CURRENCIES, DEFAULT_CURRENCY, formatMoney, getCurrencyInfo, roundMoney } from './currency'
+import { SPLIT_MODES, validateSplit, type ExpenseSplit, type SplitMode, type Transfer } from './settlement'
+import { spendingDay } from './budget'
+import { formatTripMonthDay, getDateForDay } from './tripCalendar'
+import { parseCsvRecords, toCsv } from './csv'
+import { IC_CARD_CURRENCY } from './icCard'
+
+/**
+ * 匯出 / 匯入：the wallet as CSV (one row per expense, the columns a spreadsheet needs) and flat
+ * JSON, a printable report grouped by day and category, and reading the same CSV back in with every
+ * row checked before anything is saved.
+ */
+
+export const EXPENSE_CSV_COLUMNS = [
+  'id',
+  'date',
+  'day',
+  'type',
+  'kind',
+  'username',
+  'display_name',
+  'category',
+  'note',
+  'amount',
+  'currency',
+  'fx_rate',
+  'home_amount',
+  'home_currency',
+  'paid_to',
+  'split',
+  'payment_method',
+  'prepaid',
+  'trip_id',
+  'wishlist_item_id',
+  'receipt_url',
+] as const
+
+export type ExpenseRecord = Record<(typeof EXPENSE_CSV_COLUMNS)[number], string | number | null>
+
+export type WalletExportContext = {
+  homeCurrency: string
+  homeAmount: (expense: ExpenseDB) => number | null
+  tripStartDate: string
+  timeZone: string
+}
+
+/** "exact:amy=1200;ben=800", "equal:amy;ben"; empty = equal among everyone */
+export function formatSplit(split: ExpenseSplit | null | undefined): string {
+  if (!split) return ''
+  return `${split.mode}:${split.participants.map(p => (split.mode === 'equal' || p.value == null ? p.username : `${p.username}=${p.value}`)).join(';')}`
+}
+
+export function parseSplit(text: string): ExpenseSplit | null | 'invalid' {
+  if (!text.trim()) return null
+  const match = text.trim().match(/^(\w+):(.+)$/)
+  if (!match || !SPLIT_MODES.some(m => m.id === match[1])) return 'invalid'
+  const mode = match[1] as SplitMode
+  const participants = match[2].split(';').map(part => {
+    const [username, value] = part.split('=').map(s => s.trim())
+    return mode === 'equal' ? { username } : { username, value: value ? Number(value) : null }
+  })
+  if (participants.some(p => !p.username || ('value' in p && p.value != null && !Number.isFinite(p.value)))) return 'invalid'
+  return { mode, participants }
+}
+
+export function expenseRecord(expense: ExpenseDB, ctx: WalletExportContext): ExpenseRecord {
+  const currency = expense.currency || DEFAULT_CURRENCY
+  const home = ctx.homeAmount(expense)
+  return {
+    id: expense.id,
+    date: expense.created_at,
+    day: ctx.tripStartDate ? spendingDay(expense, ctx.tripStartDate, ctx.timeZone) : null,
+    type: expense.type,
+    kind: expense.kind || 'expense',
+    username: expense.username,
+    display_name: expense.display_name,
+    category: expense.category,
+    note: expense.note,
+    amount: expense.amount,
+    currency,
+    fx_rate: home != null && expense.amount ? Number((home / expense.amount).toPrecision(8)) : null,
+    home_amount: home != null ? roundMoney(home, ctx.homeCurrency) : null,
+    home_currency: ctx.homeCurrency,
+    paid_to: expense.paid_to ?? null,
+    split: formatSplit(expense.split),
+    payment_method: expense.payment_method ?? null,
+    prepaid: expense.prepaid ? 'true' : 'false',
+    trip_id: expense.trip_id ?? null,
+    wishlist_item_id: expense.wishlist_item_id ?? null,
+    receipt_url: expense.receipt_url ?? null,
+  }
+}
+
+export function expensesCsv(expenses: ExpenseDB[], ctx: WalletExportContext): string {
+  return toCsv(
+    EXPENSE_CSV_COLUMNS,
+    expenses.map(expense => {
+      const record = expenseRecord(expense, ctx)
+      return EXPENSE_CSV_COLUMNS.map(column => record[column])
+    })
+  )
+}
+
+// ============================================
+// Balances
+// ============================================
+
+/** Per person in the shared wallet, as the settlement card shows it */
+export type WalletPerson = { username: string; displayName: string; paid: number; owed: number }
+
+export type BalanceRecord = {
+  username: string
+  display_name: string
+  paid: number
+  share: number
+  /** Settle-up payments sent / received */
+  paid_back: number
+  received: number
+  /** > 0 = still gets money back, < 0 = still owes */
+  balance: number
+  home_currency: string
+}
+
+export type TransferRecord = { from: string; from_name: string; to: string; to_name: string; amount: number; home_currency: string }
+
+export function balanceRecords(people: WalletPerson[], payments: ExpenseDB[], ctx: WalletExportContext): BalanceRecord[] {
+  const sent: Record<string, number> = {}
+  const received: Record<string, number> = {}
+  for (const payment of payments) {
+    const amount = ctx.homeAmount(payment)
+    if (amount == null || !payment.paid_to) continue
+    sent[payment.username] = (sent[payment.username] || 0) + amount
+    received[payment.paid_to] = (received[payment.paid_to] || 0) + amount
+  }
+  const round = (amount: number) => roundMoney(amount, ctx.homeCurrency)
+  return people.map(person => {
+    const paidBack = sent[person.username] || 0
+    const got = received[person.username] || 0
+    return {
+      username: person.username,
+      display_name: person.displayName,
+      paid: round(person.paid),
+      share: round(person.owed),
+      paid_back: round(paidBack),
+      received: round(got),
+      balance: round(person.paid - person.owed + paidBack - got),
+      home_currency: ctx.homeCurrency,
+    }
+  })
+}
+
+export function transferRecords(transfers: Transfer[], nameOf: (username: string) => string, homeCurrency: string): TransferRecord[] {
+  return transfers.map(t => ({ from: t.from, from_name: nameOf(t.from), to: t.to, to_name: nameOf(t.to), amount: t.amount, home_currency: homeCurrency }))
+}
+
+function recordsCsv<T extends Record<string, unknown>>(records: T[], columns: readonly (keyof T & string)[]): string {
+  return toCsv(columns, records.map(record => columns.map(column => record[column] as string | number | null)))
+}
+
+export function balancesCsv(balances: BalanceRecord[], transfers: TransferRecord[]): string {
+  const balanceColumns = ['username', 'display_name', 'paid', 'share', 'paid_back', 'received', 'balance', 'home_currency'] as const
+  const transferColumns = ['from', 'from_name', 'to', 'to_name', 'amount', 'home_currency'] as const
+  // Two tables in one sheet, separated by a blank row
+  return recordsCsv(balances, balanceColumns) + '\r\n' + recordsCsv(transfers, transferColumns).replace(/^\uFEFF/, '')
+}
+
+export type WalletExport = {
+  exported_at: string
+  home_currency: string
+  expenses: ExpenseRecord[]
+  balances: BalanceRecord[]
+  transfers: TransferRecord[]
+}
+
+/** Flat arrays of flat objects: each one pastes or imports into a spreadsheet as a table */
+export function walletJson(data: Omit<WalletExport, 'exported_at' | 'home_currency'>, homeCurrency: string, now: Date = new Date()): string {
+  return JSON.stringify({ exported_at: now.toISOString(), home_currency: homeCurrency, ...data } satisfies WalletExport, null, 2)
+}
+
+// ============================================
+// Report
+// ============================================
+
+export type ReportItem = { id: number; name: string; note: string; amount: number | null; original: string }
+
+export type ReportDay = {
+  label: string
+  total: number
+  categories: { category: string; label: string; total: number; items: ReportItem[] }[]
+}
+
+export type ReportSection = {
+  total: number
+  /** Expenses without an exchange rate (shown, not counted) */
+  missing: number
+  days: ReportDay[]
+  categoryTotals: { category: string; label: string; total: number }[]
+}
+
+export type WalletReport = {
+  homeCurrency: string
+  shared: ReportSection
+  /** The current user's personal expenses, kept apart from the shared wallet */
+  personal: ReportSection
+  balances: BalanceRecord[]
+  transfers: TransferRecord[]
+}
+
+const categoryLabel = (id: string) => {
+  const category = EXPENSE_CATEGORIES.find(c => c.id === id)
+  return category ? `${category.icon} ${category.label}` : id
+}
+
+/** Spending by trip day (before / after the trip grouped on their own), then by category */
+function reportSection(expenses: ExpenseDB[], ctx: WalletExportContext & { totalDays: number }): ReportSection {
+  const spending = expenses.filter(isSpending)
+  const groups = new Map<number, ExpenseDB[]>()
+  for (const expense of spending) {
+    const raw = ctx.tripStartDate ? spendingDay(expense, ctx.tripStartDate, ctx.timeZone) : 1
+    const day = raw < 1 ? 0 : raw > ctx.totalDays ? ctx.totalDays + 1 : raw
+    groups.set(day, [...(groups.get(day) || []), expense])
+  }
+
+  let total = 0
+  let missing = 0
+  const categoryTotals: Record<string, number> = {}
+  const days = Array.from(groups.keys())
+    .sort((a, b) => a - b)
+    .map(day => {
+      const byCategory = new Map<string, ReportItem[]>()
+      let dayTotal = 0
+      for (const expense of groups.get(day) || []) {
+        const amount = ctx.homeAmount(expense)
+        if (amount == null) missing++
+        else {
+          dayTotal += amount
+          categoryTotals[expense.category] = (categoryTotals[expense.category] || 0) + amount
+        }
+        byCategory.set(expense.category, [
+          ...(byCategory.get(expense.category) || []),
+          {
+            id: expense.id,
+            name: expense.display_name,
+            note: expense.note || '',
+            amount,
+            original: formatMoney(expense.amount, expense.currency || DEFAULT_CURRENCY),
+          },
+        ])
+      }
+      total += dayTotal
+      const label =
+        day === 0 ? '行前' : day > ctx.totalDays ? '行後' : `Day ${day}${ctx.tripStartDate ? `（${formatTripMonthDay(getDateForDay(ctx.tripStartDate, day))}）` : ''}`
+      return {
+        label,
+        total: dayTotal,
+        categories: EXPENSE_CATEGORIES.filter(c => byCategory.has(c.id)).map(c => {
+          const items = byCategory.get(c.id) || []
+          return { category: c.id, label: categoryLabel(c.id), total: items.reduce((sum, item) => sum + (item.amount || 0), 0), items }
+        }),
+      }
+    })
+
+  return {
+    total,
+    missing,
+    days,
+    categoryTotals: EXPENSE_CATEGORIES.filter(c => categoryTotals[c.id]).map(c => ({ category: c.id, label: categoryLabel(c.id), total: categoryTotals[c.id] })),
+  }
+}
+
+/** Shared spending, then the current user's personal spending in its own section */
+export function buildWalletReport(
+  sharedExpenses: ExpenseDB[],
+  personalExpenses: ExpenseDB[],
+  balances: BalanceRecord[],
+  transfers: TransferRecord[],
+  ctx: WalletExportContext & { totalDays: number }
+): WalletReport {
+  return {
+    homeCurrency: ctx.homeCurrency,
+    shared: reportSection(sharedExpenses, ctx),
+    personal: reportSection(personalExpenses, ctx),
+    balances,
+    transfers,
+  }
+}
+
+const escapeHtml = (text: string) =>
+  text.replace(/[&<>"']/g, char => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[char] || char)
+
+/** Stand-alone HTML page of the report, laid out for printing (A4, no app chrome) */
+export function walletReportHtml(report: WalletReport, title: string): string {
+  const money = (amount: number | null) => (amount == null ? '—' : escapeHtml(formatMoney(amount, report.homeCurrency)))
+  const rows = (cells: string[][]) => cells.map(row => `<tr>${row.map(cell => `<td>${cell}</td>`).join('')}</tr>`).join('')
+
+  const section = ({ total, missing, days, categoryTotals }: ReportSection) => `
+<p class="muted">總支出 ${money(total)}${missing ? `（${missing} 筆缺少匯率未計入）` : ''}</p>
+<h2>分類總計</h2>
+<table>${rows(categoryTotals.map(c => [escapeHtml(c.label), '', '', money(c.total)]))}</table>
+${days
+  .map(
+    day => `
+<h2>${escapeHtml(day.label)}<span>${money(day.total)}</span></h2>
+${day.categories
+  .map(
+    category => `
+<h3>${escapeHtml(category.label)}<span>${money(category.total)}</span></h3>
+<table>${rows(
+      category.items.map(item => [
+        escapeHtml(item.note || '—'),
+        escapeHtml(item.name),
+        escapeHtml(item.original),
+        money(item.amount),
+      ])
+    )}</table>`
+  )
+  .join('')}`
+  )
+  .join('')}`
+
+  return `<!DOCTYPE html>
+<html lang="zh-Hant">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>
+  @page { size: A4; margin: 16mm; }
+  body { font-family: system-ui, -apple-system, 'Noto Sans TC', 'Noto Sans JP', sans-serif; color: #1f2937; font-size: 12px; }
+  h1 { font-size: 20px; margin: 0 0 4px; }
+  h1.section { font-size: 17px; break-before: page; }
+  h2 { font-size: 15px; border-bottom: 2px solid #f59e0b; padding-bottom: 2px; margin: 20px 0 6px; break-after: avoid; }
+  h3 { font-size: 12px; color: #6b7280; margin: 10px 0 4px; break-after: avoid; }
+  h2 span, h3 span { float: right; }
+  table { width: 100%; border-collapse: collapse; break-inside: avoid; }
+  td { padding: 3px 4px; border-bottom: 1px solid #f3f4f6; }
+  td:nth-child(n + 3) { text-align: right; white-space: nowrap; }
+  .muted { color: #9ca3af; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+${section(report.shared)}
+${
+  report.balances.length
+    ? `<h2>分帳</h2>
+<table>${rows([
+        ['', '已付', '應分攤', '尚差'].map(h => `<b>${h}</b>`),
+        ...report.balances.map(b => [escapeHtml(b.display_name), money(b.paid), money(b.share), money(b.balance)]),
+      ])}</table>`
+    : ''
+}
+${
+  report.transfers.length
+    ? `<h3>建議轉帳</h3>
+<table>${rows(report.transfers.map(t => [`${escapeHtml(t.from_name)} → ${escapeHtml(t.to_name)}`, '', '', money(t.amount)]))}</table>`
+    : ''
+}
+${report.personal.days.length ? `<h1 class="section">我的個人支出</h1>${section(report.personal)}` : ''}
+</body>
+</html>`
+}
+
+// ============================================
+// Import
+// ============================================
+
+/** A row ready for createSupabaseExpense; imports keep the original time */
+export type ImportedExpense = Omit<ExpenseDB, 'id' | 'created_at'> & { created_at?: string }
+
+export type ExpenseImportPreview = {
+  rows: { line: number; expense: ImportedExpense }[]
+  errors: { line: number; message: string }[]
+  /** Lines whose id is already in the wallet (skipped) */
+  duplicates: number[]
+}
+
+export type ExpenseImportContext = {
+  users: { username: string; displayName?: string; avatarUrl?: string }[]
+  existingIds: Set<number>
+  homeCurrency: string
+  /** Whether the current user may add this row */
+  canImport: (type: ExpenseDB['type'], username: string) => boolean
+}
+
+const REQUIRED_COLUMNS = ['type', 'username', 'category', 'amount']
+
+function importPaymentMethod(text: string): PaymentMethod | null {
+  const match = PAYMENT_METHODS.find(m => m.id === text.toLowerCase() || m.label === text || `${m.icon} ${m.label}` === text)
+  return match ? match.id : null
+}
+
+/** true / false, 1 / 0, yes / no, 是 / 否; null when it is none of these */
+function importBoolean(text: string): boolean | null {
+  const value = text.trim().toLowerCase()
+  if (['', 'false', '0', 'no', '否'].includes(value)) return false
+  return ['true', '1', 'yes', '是'].includes(value) ? true : null
+}
+
+function importCategory(text: string): ExpenseCategory | null {
+  const match = EXPENSE_CATEGORIES.find(c => c.id === text.toLowerCase() || c.label === text || `${c.icon} ${c.label}` === text)
+  return match ? match.id : null
+}
+
+/** Check every row of an expenses CSV (the export's columns; only type, username, category and amount are required) */
+export function previewExpenseImport(text: string, ctx: ExpenseImportContext): ExpenseImportPreview {
+  const preview: ExpenseImportPreview = { rows: [], errors: [], duplicates: [] }
+  const { header, records } = parseCsvRecords(text)
+  const missingColumns = REQUIRED_COLUMNS.filter(column => !header.includes(column))
+  if (missingColumns.length) {
+    preview.errors.push({ line: 1, message: `缺少欄位：${missingColumns.join(', ')}` })
+    return preview
+  }
+
+  records.forEach((record, index) => {
+    // Line in the file: the header is line 1
+    const line = index + 2
+    const fail = (message: string) => preview.errors.push({ line, message })
+
+    const id = record.id ? Number(record.id) : null
+    if (id != null && ctx.existingIds.has(id)) {
+      preview.duplicates.push(line)
+      return
+    }
+    const type = record.type.toLowerCase()
+    if (type !== 'shared' && type !== 'personal') return fail(`type 需為 shared 或 personal：${record.type}`)
+    const kind = (record.kind || 'expense').toLowerCase()
+    if (kind !== 'expense' && kind !== 'settlement' && kind !== 'withdrawal' && kind !== 'ic_topup') {
+      return fail(`kind 需為 expense、settlement、withdrawal 或 ic_topup：${record.kind}`)
+    }
+    const user = ctx.users.find(u => u.username === record.username)
+    if (!user) return fail(`未知的使用者：${record.username}`)
+    if (!ctx.canImport(type, user.username)) return fail(`沒有權限匯入 ${user.displayName || user.username} 的${type === 'shared' ? '共同' : '個人'}支出`)
+    const category = importCategory(record.category)
+    if (!category) return fail(`未知的分類：${record.category}`)
+    const amount = Number(record.amount.replace(/,/g, ''))
+    if (!Number.isFinite(amount) || amount <= 0) return fail(`金額無效：${record.amount}`)
+    const currency = (record.currency || ctx.homeCurrency).toUpperCase()
+    if (!CURRENCIES.some(c => c.code === currency)) return fail(`不支援的幣別：${currency}`)
+
+    let createdAt: string | undefined
+    if (record.date) {
+      const time = Date.parse(record.date)
+      if (Number.isNaN(time)) return fail(`日期無效：${record.date}`)
+      createdAt = new Date(time).toISOString()
+    }
+
+    const paidTo = record.paid_to || null
+    if (kind === 'settlement') {
+      if (type !== 'shared') return fail('還款只能是共同支出')
+      if (!paidTo || !ctx.users.some(u => u.username === paidTo)) return fail(`還款對象無效：${record.paid_to || '（空白）'}`)
+    }
+    if (kind === 'withdrawal' && type !== 'shared') return fail('提款只能記在共同錢包')
+    if (kind === 'ic_topup') {
+      if (type !== 'personal') return fail('IC 卡儲值只能記在個人錢包')
+      if (currency !== IC_CARD_CURRENCY) return fail(`IC 卡儲值需為 ${IC_CARD_CURRENCY}：${currency}`)
+    }
+
+    const paymentMethod = record.payment_method ? importPaymentMethod(record.payment_method) : null
+    if (record.payment_method && !paymentMethod) return fail(`未知的付款方式：${record.payment_method}`)
+    const prepaid = importBoolean(record.prepaid || '')
+    if (prepaid == null) return fail(`prepaid 需為 true 或 false：${record.prepaid}`)
+
+    const split = type === 'shared' && kind === 'expense' ? parseSplit(record.split || '') : null
+    if (split === 'invalid') return fail(`分攤格式無效：${record.split}`)
+    const splitError = validateSplit(amount, split, getCurrencyInfo(currency).decimals)
+    if (splitError) return fail(splitError)
+    if (split && split.participants.some(p => !ctx.users.some(u => u.username === p.username))) return fail(`分攤者不存在：${record.split}`)
+
+    // The exported rate into the exported home currency becomes the expense's snapshot
+    const fxRate = record.fx_rate ? Number(record.fx_rate) : null
+    const fxHome = (record.home_currency || '').toUpperCase()
+    const snapshot =
+      fxRate && fxRate > 0 && fxHome && fxHome !== currency
+        ? { fx_rates: { [fxHome]: fxRate }, fx_source: 'import', fx_captured_at: createdAt || new Date().toISOString() }
+        : {}
+    const optionalId = (value: string | undefined) => (value && Number.isInteger(Number(value)) ? Number(value) : null)
+
+    preview.rows.push({
+      line,
+      expense: {
+        type,
+        username: user.username,
+        display_name: record.display_name || user.displayName || user.username,
+        avatar_url: user.avatarUrl || null,
+        amount,
+        currency,
+        ...snapshot,
+        ...(split ? { split } : {}),
+        ...(kind === 'settlement' ? { kind: 'settlement' as const, paid_to: paidTo } : {}),
+        ...(kind === 'withdrawal' ? { kind: 'withdrawal' as const } : {}),
+        ...(kind === 'ic_topup' ? { kind: 'ic_topup' as const } : {}),
+        ...(paymentMethod ? { payment_method: paymentMethod } : {}),
+        ...(prepaid && kind === 'expense' ? { prepaid } : {}),
+        ...(optionalId(record.trip_id) != null ? { trip_id: optionalId(record.trip_id) } : {}),
+        ...(optionalId(record.wishlist_item_id) != null ? { wishlist_item_id: optionalId(record.wishlist_item_id) } : {}),
+        ...(record.receipt_url ? { receipt_url: record.receipt_url } : {}),
+        category,
+        note: record.note || null,
+        ...(createdAt ? { created_at: createdAt } : {}),
+      },
+    })
+  })
+  return preview
+}
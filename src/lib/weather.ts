@@ -0,0 +1,346 @@
+import { safeSetItem } from './safeStorage'
+import { addDays, normalizeTripDate, todayInTimeZone } from './tripCalendar'
+
+/**
+ * 天氣預報：daily weather for each trip day. Days inside the provider's forecast range use the
+ * forecast; later (or past) days fall back to climate normals for that calendar day. Results are
+ * cached in memory and localStorage; a stale entry is still used when the provider cannot be reached.
+ *
+ * The provider is swappable (`setWeatherProvider`) so tests can use a fixture; the default is
+ * Open-Meteo, which needs no API key.
+ */
+
+export type WeatherLocation = { lat: number; lng: number; name?: string }
+
+export type DailyWeather = {
+  date: string // YYYY-MM-DD
+  /** WMO weather interpretation code */
+  code: number | null
+  tempMax: number | null
+  tempMin: number | null
+  /** 0–100 */
+  precipitationChance: number | null
+  source: 'forecast' | 'climate'
+}
+
+/** Weather of one place on one trip day */
+export type PlaceWeather = DailyWeather & { place: string }
+
+export type WeatherProvider = {
+  name: string
+  /** Days from today (destination time) the forecast reaches, today included */
+  forecastDays: number
+  /** Forecast for dates in range; dates it has nothing for may be left out */
+  forecast(location: WeatherLocation, dates: string[], timeZone: string): Promise<DailyWeather[]>
+  /** Typical weather for the calendar days of `dates` */
+  climate(location: WeatherLocation, dates: string[], timeZone: string): Promise<DailyWeather[]>
+}
+
+// ============================================
+// Weather codes
+// ============================================
+
+/** Icon + label for a WMO weather code (https://open-meteo.com/en/docs#weathervariables) */
+export function describeWeatherCode(code: number | null | undefined): { icon: string; label: string } {
+  if (code == null) return { icon: '🌡️', label: '無資料' }
+  if (code === 0) return { icon: '☀️', label: '晴' }
+  if (code === 1) return { icon: '🌤️', label: '晴時多雲' }
+  if (code === 2) return { icon: '⛅', label: '多雲' }
+  if (code === 3) return { icon: '☁️', label: '陰' }
+  if (code === 45 || code === 48) return { icon: '🌫️', label: '霧' }
+  if (code >= 51 && code <= 57) return { icon: '🌦️', label: '毛毛雨' }
+  if (code === 65 || code === 67) return { icon: '🌧️', label: '大雨' }
+  if (code >= 61 && code <= 67) return { icon: '🌧️', label: '雨' }
+  if (code >= 71 && code <= 77) return { icon: '🌨️', label: '雪' }
+  if (code >= 80 && code <= 82) return { icon: '🌦️', label: '陣雨' }
+  if (code === 85 || code === 86) return { icon: '🌨️', label: '陣雪' }
+  if (code >= 95) return { icon: '⛈️', label: '雷雨' }
+  return { icon: '🌡️', label: '無資料' }
+}
+
+/** Representative code for climate normals, which have no weather code of their own */
+export function climateWeatherCode(precipitationChance: number | null, tempMax: number | null): number | null {
+  if (precipitationChance == null) return null
+  if (precipitationChance >= 50) return tempMax != null && tempMax <= 2 ? 71 : 61
+  if (precipitationChance >= 25) return 2
+  return 1
+}
+
+/** e.g. "☀️ 晴 24°/16° 降雨 10%（預報）" */
+export function formatDailyWeather(weather: DailyWeather): string {
+  const { icon, label } = describeWeatherCode(weather.code)
+  const parts = [`${icon} ${label}`]
+  if (weather.tempMax != null && weather.tempMin != null) parts.push(`${Math.round(weather.tempMax)}°/${Math.round(weather.tempMin)}°`)
+  if (weather.precipitationChance != null) parts.push(`降雨 ${Math.round(weather.precipitationChance)}%`)
+  return `${parts.join(' ')}（${weather.source === 'forecast' ? '預報' : '氣候平均'}）`
+}
+
+// ============================================
+// Open-Meteo
+// ============================================
+
+const FORECAST_URL = 'https://api.open-meteo.com/v1/forecast'
+const ARCHIVE_URL = 'https://archive-api.open-meteo.com/v1/archive'
+/** Years of history averaged into climate normals */
+const CLIMATE_YEARS = 5
+/** A day counts as rainy from 1 mm */
+const RAINY_DAY_MM = 1
+
+type OpenMeteoDaily = {
+  daily?: {
+    time: string[]
+    weather_code?: (number | null)[]
+    temperature_2m_max?: (number | null)[]
+    temperature_2m_min?: (number | null)[]
+    precipitation_probability_max?: (number | null)[]
+    precipitation_sum?: (number | null)[]
+  }
+}
+
+async function fetchOpenMeteo(base: string, params: Record<string, string | number>): Promise<OpenMeteoDaily> {
+  const query = new URLSearchParams(Object.entries(params).map(([key, value]) => [key, String(value)]))
+  const res = await fetch(`${base}?${query}`)
+  if (!res.ok) throw new Error(`Open-Meteo ${res.status}`)
+  return res.json()
+}
+
+function shiftYears(date: string, years: number): string {
+  return `${Number(date.slice(0, 4)) + years}${date.slice(4)}`
+}
+
+function average(values: number[]): number | null {
+  if (values.length === 0) return null
+  return Math.round((values.reduce((sum, value) => sum + value, 0) / values.length) * 10) / 10
+}
+
+export const openMeteoProvider: WeatherProvider = {
+  name: 'open-meteo',
+  forecastDays: 16,
+  async forecast(location, dates, timeZone) {
+    const sorted = [...dates].sort()
+    const body = await fetchOpenMeteo(FORECAST_URL, {
+      latitude: location.lat,
+      longitude: location.lng,
+      daily: 'weather_code,temperature_2m_max,temperature_2m_min,precipitation_probability_max',
+      timezone: timeZone,
+      start_date: sorted[0],
+      end_date: sorted[sorted.length - 1],
+    })
+    const daily = body.daily
+    if (!daily) return []
+    return daily.time
+      .map((date, i) => ({
+        date,
+        code: daily.weather_code?.[i] ?? null,
+        tempMax: daily.temperature_2m_max?.[i] ?? null,
+        tempMin: daily.temperature_2m_min?.[i] ?? null,
+        precipitationChance: daily.precipitation_probability_max?.[i] ?? null,
+        source: 'forecast' as const,
+      }))
+      .filter(day => dates.includes(day.date) && (day.tempMax != null || day.code != null))
+  },
+  async climate(location, dates, timeZone) {
+    // Same calendar days over the previous CLIMATE_YEARS years, in one request
+    const sorted = [...dates].sort()
+    const body = await fetchOpenMeteo(ARCHIVE_URL, {
+      latitude: location.lat,
+      longitude: location.lng,
+      daily: 'temperature_2m_max,temperature_2m_min,precipitation_sum',
+      timezone: timeZone,
+      start_date: shiftYears(sorted[0], -CLIMATE_YEARS),
+      end_date: shiftYears(sorted[sorted.length - 1], -1),
+    })
+    const daily = body.daily
+    if (!daily) return []
+
+    return dates.map(date => {
+      const monthDay = date.slice(5)
+      const maxes: number[] = []
+      const mins: number[] = []
+      let years = 0
+      let rainyYears = 0
+      daily.time.forEach((day, i) => {
+        if (day.slice(5) !== monthDay) return
+        const max = daily.temperature_2m_max?.[i]
+        const min = daily.temperature_2m_min?.[i]
+        const rain = daily.precipitation_sum?.[i]
+        if (max != null) maxes.push(max)
+        if (min != null) mins.push(min)
+        if (rain != null) {
+          years++
+          if (rain >= RAINY_DAY_MM) rainyYears++
+        }
+      })
+      const tempMax = average(maxes)
+      const precipitationChance = years > 0 ? Math.round((rainyYears / years) * 100) : null
+      return {
+        date,
+        code: climateWeatherCode(precipitationChance, tempMax),
+        tempMax,
+        tempMin: average(mins),
+        precipitationChance,
+        source: 'climate' as const,
+      }
+    })
+  },
+}
+
+let provider: WeatherProvider = openMeteoProvider
+
+export function getWeatherProvider(): WeatherProvider {
+  return provider
+}
+
+/** Swap the provider (null = Open-Meteo); also forgets everything cached */
+export function setWeatherProvider(next: WeatherProvider | null): void {
+  provider = next || openMeteoProvider
+  memoryCache.clear()
+}
+
+// ============================================
+// Cache
+// ============================================
+
+const CACHE_KEY = 'weather_cache'
+const FORECAST_TTL_MS = 3 * 60 * 60 * 1000
+const CLIMATE_TTL_MS = 30 * 24 * 60 * 60 * 1000
+
+type CacheEntry = { weather: DailyWeather; expiresAt: number }
+
+const memoryCache = new Map<string, CacheEntry>()
+let storageLoaded = false
+
+function cacheKey(location: WeatherLocation, date: string): string {
+  return `${provider.name}:${location.lat.toFixed(2)},${location.lng.toFixed(2)}:${date}`
+}
+
+function loadStoredCache(): void {
+  if (storageLoaded || typeof window === 'undefined') return
+  storageLoaded = true
+  try {
+    const stored = JSON.parse(localStorage.getItem(CACHE_KEY) || '{}') as Record<string, CacheEntry>
+    for (const [key, entry] of Object.entries(stored)) {
+      if (!memoryCache.has(key)) memoryCache.set(key, entry)
+    }
+  } catch {
+    // Broken cache: start over
+  }
+}
+
+function saveStoredCache(now: number): void {
+  if (typeof window === 'undefined') return
+  // Entries stay a week past expiry as an offline fallback
+  const keep = Array.from(memoryCache).filter(([, entry]) => entry.expiresAt > now - 7 * 24 * 60 * 60 * 1000)
+  safeSetItem(CACHE_KEY, JSON.stringify(Object.fromEntries(keep)))
+}
+
+// ============================================
+// Trip days
+// ============================================
+
+/** Rounded to ~1 km so nearby stops share requests and cache entries */
+function locationKey(location: WeatherLocation): string {
+  return `${location.lat.toFixed(2)},${location.lng.toFixed(2)}`
+}
+
+/**
+ * Daily weather for `dates` at one place: cached days first, then the forecast for days in range
+ * and climate normals for the rest (and for forecast days the provider left out).
+ */
+export async function getDailyWeather(
+  location: WeatherLocation,
+  dates: string[],
+  timeZone: string,
+  now: Date = new Date()
+): Promise<DailyWeather[]> {
+  loadStoredCache()
+  const time = now.getTime()
+  const wanted = Array.from(new Set(dates.map(date => normalizeTripDate(date)).filter(Boolean)))
+  const found = new Map<string, DailyWeather>()
+  for (const date of wanted) {
+    const entry = memoryCache.get(cacheKey(location, date))
+    if (entry && entry.expiresAt > time) found.set(date, entry.weather)
+  }
+
+  const missing = wanted.filter(date => !found.has(date))
+  if (missing.length > 0) {
+    const today = todayInTimeZone(timeZone, now)
+    const lastForecastDay = addDays(today, provider.forecastDays - 1)
+    const inRange = missing.filter(date => date >= today && date <= lastForecastDay)
+    const fetched: DailyWeather[] = []
+    if (inRange.length > 0) {
+      try {
+        fetched.push(...(await provider.forecast(location, inRange, timeZone)))
+      } catch (err) {
+        console.error('Error fetching weather forecast:', err)
+      }
+    }
+    // Days the forecast left out or failed on get climate normals, unless an expired forecast is cached
+    const rest = missing.filter(
+      date => !fetched.some(day => day.date === date) && memoryCache.get(cacheKey(location, date))?.weather.source !== 'forecast'
+    )
+    if (rest.length > 0) {
+      try {
+        fetched.push(...(await provider.climate(location, rest, timeZone)))
+      } catch (err) {
+        console.error('Error fetching climate normals:', err)
+      }
+    }
+    for (const weather of fetched) {
+      const ttl = weather.source === 'forecast' ? FORECAST_TTL_MS : CLIMATE_TTL_MS
+      memoryCache.set(cacheKey(location, weather.date), { weather, expiresAt: time + ttl })
+      found.set(weather.date, weather)
+    }
+    // Offline / provider down: an expired entry beats nothing
+    for (const date of missing) {
+      const stale = memoryCache.get(cacheKey(location, date))
+      if (!found.has(date) && stale) found.set(date, stale.weather)
+    }
+    if (fetched.length > 0) saveStoredCache(time)
+  }
+
+  return wanted.filter(date => found.has(date)).map(date => found.get(date)!)
+}
+
+export type TripDayWeatherRequest = {
+  day: number
+  date: string
+  /** Most relevant first, e.g. the day's first stop, then home */
+  places: WeatherLocation[]
+}
+
+/** Weather per trip day and place, with one request per distinct place */
+export async function getTripDayWeather(
+  days: TripDayWeatherRequest[],
+  timeZone: string,
+  now: Date = new Date()
+): Promise<Record<number, PlaceWeather[]>> {
+  const byPlace = new Map<string, { location: WeatherLocation; dates: Set<string> }>()
+  for (const { date, places } of days) {
+    for (const place of places) {
+      const key = locationKey(place)
+      if (!byPlace.has(key)) byPlace.set(key, { location: place, dates: new Set() })
+      byPlace.get(key)!.dates.add(date)
+    }
+  }
+
+  const weatherByPlace = new Map<string, DailyWeather[]>()
+  await Promise.all(
+    Array.from(byPlace).map(async ([key, { location, dates }]) => {
+      weatherByPlace.set(key, await getDailyWeather(location, Array.from(dates), timeZone, now))
+    })
+  )
+
+  const result: Record<number, PlaceWeather[]> = {}
+  for (const { day, date, places } of days) {
+    const seen = new Set<string>()
+    result[day] = places.flatMap(place => {
+      const key = locationKey(place)
+      if (seen.has(key)) return []
+      seen.add(key)
+      const weather = weatherByPlace.get(key)?.find(item => item.date === normalizeTripDate(date))
+      return weather ? [{ ...weather, place: place.name || '' }] : []
+    })
+  }
+  return result
+}
@@ -1,18 +1,76 @@
 import { NextResponse } from 'next/server'
 import type { NextRequest } from 'next/server'
+import { normalizeRole } from '@/lib/permissions'
+import {
+  SESSION_COOKIE_NAME,
+  SUPABASE_TOKEN_COOKIE_NAME,
+  USER_INFO_COOKIE_NAME,
+  getSessionSecret,
+  getSupabaseJwtSecret,
+  signSupabaseAccessToken,
+  verifySessionToken,
+  type SessionPayload,
+} from '@/lib/session'
 
-const AUTH_COOKIE_NAME = 'admin_auth_token'
-const ADMIN_TOKEN = 'japan_travel_admin_authenticated_2024'
+export async function middleware(request: NextRequest) {
+  const authToken = request.cookies.get(SESSION_COOKIE_NAME)?.value
 
-export function middleware(request: NextRequest) {
+  // Check if user is authenticated (signature + expiry verified)
+  const session = await verifySessionToken(authToken, getSessionSecret())
+  const response = route(request, session !== null)
+
+  // Forged / expired / missing token: drop leftovers together with user_info so the
+  // client (which only sees user_info) doesn't bounce between /login and /main
+  if (!session) {
+    if (authToken || request.cookies.has(USER_INFO_COOKIE_NAME) || request.cookies.has(SUPABASE_TOKEN_COOKIE_NAME)) {
+      response.cookies.delete(SESSION_COOKIE_NAME)
+      response.cookies.delete(USER_INFO_COOKIE_NAME)
+      response.cookies.delete(SUPABASE_TOKEN_COOKIE_NAME)
+    }
+    return response
+  }
+
+  const cookieOpts = {
+    path: '/',
+    maxAge: Math.max(0, session.exp - Math.floor(Date.now() / 1000)),
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'strict' as const,
+  }
+  // user_info is not httpOnly: put back the username / role of the signed session if it was edited
+  const userInfo = reconciledUserInfo(request.cookies.get(USER_INFO_COOKIE_NAME)?.value, session)
+  if (userInfo) response.cookies.set(USER_INFO_COOKIE_NAME, userInfo, cookieOpts)
+
+  // Sessions signed before SUPABASE_JWT_SECRET was configured get their Supabase token here
+  const jwtSecret = getSupabaseJwtSecret()
+  if (jwtSecret && !request.cookies.has(SUPABASE_TOKEN_COOKIE_NAME)) {
+    const token = await signSupabaseAccessToken(session, jwtSecret, cookieOpts.maxAge)
+    response.cookies.set(SUPABASE_TOKEN_COOKIE_NAME, token, cookieOpts)
+  }
+  return response
+}
+
+/** The user_info cookie to write for `session`, or null when the current one already matches it */
+function reconciledUserInfo(raw: string | undefined, session: SessionPayload): string | null {
+  let info: { username?: unknown; role?: unknown; displayName?: unknown; avatarUrl?: unknown } | null = null
+  try {
+    info = raw ? JSON.parse(raw) : null
+  } catch {
+    info = null
+  }
+  const role = normalizeRole(session.role)
+  if (info?.username === session.username && info.role === role) return null
+  // Display fields only survive when they belong to the same user
+  const sameUser = info?.username === session.username
+  return JSON.stringify({
+    username: session.username,
+    role,
+    displayName: sameUser && typeof info?.displayName === 'string' ? info.displayName : session.username,
+    avatarUrl: sameUser && typeof info?.avatarUrl === 'string' ? info.avatarUrl : '',
+  })
+}
+
+function route(request: NextRequest, isAuthenticated: boolean): NextResponse {
   const { pathname } = request.nextUrl
-  const authToken = request.cookies.get(AUTH_COOKIE_NAME)?.value
-  
-  // Check if user is authenticated (any valid token)
-  const isAuthenticated = authToken && authToken.startsWith('japan_travel_')
-  
-  // Check if user is admin
-  const isAdmin = authToken === ADMIN_TOKEN
 
   // Landing page (/) - always accessible, but redirect to main if already logged in
   if (pathname === '/') {
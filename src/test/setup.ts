@@ -0,0 +1,7 @@
+import { vi } from 'vitest'
+
+// Tests never talk to a real Supabase project: every client is the in-memory mock
+vi.mock('@supabase/supabase-js', async () => {
+  const { mockSupabase } = await import('./supabaseMock')
+  return { createClient: () => mockSupabase.client }
+})
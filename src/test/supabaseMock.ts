@@ -0,0 +1,64 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { LocalDatabase, type LocalError, type LocalFilter, type LocalQuery, type LocalResult, type LocalRow } from '@/lib/localDb'
+import { createLocalSupabaseClient } from '@/lib/localSupabaseClient'
+
+/**
+ * In-memory stand-in for the Supabase client so supabase.ts (and everything on top of it) can be
+ * tested offline. Runs on the local data backend's engine (src/lib/localDb.ts) in loose mode:
+ * tables need no migration, any column is accepted, inserts fill id / created_at / updated_at and
+ * `alias:child_table(*)` embeds match children on `<parent>_id`.
+ *
+ * src/test/setup.ts routes `createClient` here; tests seed tables with `mockSupabase.reset()`.
+ */
+
+export type MockRow = LocalRow
+export type MockTables = Record<string, MockRow[]>
+
+/** One executed query, for assertions (`mockSupabase.calls`) */
+export type MockCall = { table: string; op: LocalQuery['op']; values?: unknown; filters: string[] }
+
+function filterLabel({ column, op, value }: LocalFilter): string {
+  return op === 'in' ? `${column}=in.(${(value as unknown[]).join(',')})` : `${column}=${op}.${value}`
+}
+
+export class SupabaseMock {
+  calls: MockCall[] = []
+  private db = new LocalDatabase({ strict: false })
+  private errors: Record<string, LocalError[]> = {}
+
+  /** Client handed out by the mocked `createClient` */
+  readonly client: SupabaseClient = createLocalSupabaseClient(async query => this.execute(query))
+
+  /** Replace all tables (rows are copied) and clear recorded calls / pending errors */
+  reset(tables: MockTables = {}): void {
+    this.db.clear()
+    this.db.seed(tables)
+    this.calls = []
+    this.errors = {}
+  }
+
+  /** Make the next query on `table` fail with `message` (queue several for several failures) */
+  failNext(table: string, message: string, code?: string): void {
+    ;(this.errors[table] ||= []).push({ message, code })
+  }
+
+  /** Live rows of `table` (edit them to simulate someone else's change) */
+  rows(table: string): MockRow[] {
+    return this.db.rows(table)
+  }
+
+  private execute(query: LocalQuery): LocalResult {
+    this.calls.push({
+      table: query.table,
+      op: query.op,
+      values: query.op === 'update' ? query.values?.[0] : query.op === 'select' || query.op === 'delete' ? undefined : query.values,
+      filters: query.filters.map(filterLabel),
+    })
+    const injected = this.errors[query.table]?.shift()
+    if (injected) return { data: null, error: injected }
+    // Serialize like the HTTP transport would, so callers never hold on to the database's rows
+    return JSON.parse(JSON.stringify(this.db.execute(query)))
+  }
+}
+
+export const mockSupabase = new SupabaseMock()
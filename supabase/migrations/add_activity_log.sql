@@ -0,0 +1,38 @@
+-- Activity log (活動紀錄): one row per create / update / delete / restore / purge made through the app,
+-- shown in the panel's activity feed. Admins can revert an entry; the revert is logged too and points
+-- back at it via reverts_id. Append-only: no update / delete policies. Safe to run more than once.
+
+CREATE TABLE IF NOT EXISTS activity_log (
+  id bigserial PRIMARY KEY,
+  actor_username text,
+  actor_display_name text,
+  entity_type text NOT NULL,
+  entity_id text NOT NULL,
+  entity_label text,
+  action text NOT NULL,
+  before jsonb,
+  after jsonb,
+  reverts_id bigint REFERENCES activity_log (id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS activity_log_created_at_idx ON activity_log (created_at DESC);
+CREATE INDEX IF NOT EXISTS activity_log_entity_idx ON activity_log (entity_type, entity_id);
+CREATE INDEX IF NOT EXISTS activity_log_actor_idx ON activity_log (actor_username);
+
+COMMENT ON TABLE activity_log IS 'Who changed what and when; written by the app after each change';
+COMMENT ON COLUMN activity_log.entity_type IS 'trip | wishlist_item | expense | settings | trip_plan | wallet_settings | user | destination';
+COMMENT ON COLUMN activity_log.entity_id IS 'Key of the changed row as text (numeric id, username or destination id)';
+COMMENT ON COLUMN activity_log.entity_label IS 'Title / name of the row at the time of the change';
+COMMENT ON COLUMN activity_log.action IS 'create | update | delete | restore | purge';
+COMMENT ON COLUMN activity_log.before IS 'update: old values of the changed fields; delete / purge: the whole row (passwords removed)';
+COMMENT ON COLUMN activity_log.after IS 'update: new values of the changed fields; create / restore: the whole row (passwords removed)';
+COMMENT ON COLUMN activity_log.reverts_id IS 'Entry this change reverted, if it was made by "還原此變更"';
+
+ALTER TABLE activity_log ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow public read activity_log" ON activity_log;
+CREATE POLICY "Allow public read activity_log" ON activity_log FOR SELECT USING (true);
+
+DROP POLICY IF EXISTS "Allow public insert activity_log" ON activity_log;
+CREATE POLICY "Allow public insert activity_log" ON activity_log FOR INSERT WITH CHECK (true);
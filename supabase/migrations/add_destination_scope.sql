@@ -0,0 +1,26 @@
+-- Multi-country mode: trips and wishlist items belong to a destination, and each destination
+-- carries its default map center and ISO country code (used to bias geocoding / place search).
+-- Existing rows were all planned for Japan. Safe to run more than once.
+
+ALTER TABLE destinations ADD COLUMN IF NOT EXISTS map_center jsonb DEFAULT null;
+ALTER TABLE destinations ADD COLUMN IF NOT EXISTS country_code text DEFAULT null;
+
+UPDATE destinations SET map_center = '{"lat":35.6762,"lng":139.6503,"zoom":12}', country_code = 'JP'
+  WHERE id = 'japan' AND map_center IS NULL;
+UPDATE destinations SET map_center = '{"lat":13.7563,"lng":100.5018,"zoom":12}', country_code = 'TH'
+  WHERE id = 'thailand' AND map_center IS NULL;
+UPDATE destinations SET map_center = '{"lat":37.5665,"lng":126.978,"zoom":12}', country_code = 'KR'
+  WHERE id = 'korea' AND map_center IS NULL;
+UPDATE destinations SET map_center = '{"lat":25.033,"lng":121.5654,"zoom":12}', country_code = 'TW'
+  WHERE id = 'taiwan' AND map_center IS NULL;
+
+ALTER TABLE trips ADD COLUMN IF NOT EXISTS destination_id text NOT NULL DEFAULT 'japan';
+ALTER TABLE wishlist_items ADD COLUMN IF NOT EXISTS destination_id text NOT NULL DEFAULT 'japan';
+
+CREATE INDEX IF NOT EXISTS trips_destination_id_idx ON trips (destination_id);
+CREATE INDEX IF NOT EXISTS wishlist_items_destination_id_idx ON wishlist_items (destination_id);
+
+COMMENT ON COLUMN destinations.map_center IS 'Default map center {lat, lng, zoom}';
+COMMENT ON COLUMN destinations.country_code IS 'ISO 3166-1 alpha-2 code for geocoding bias';
+COMMENT ON COLUMN trips.destination_id IS 'destinations.id this trip belongs to';
+COMMENT ON COLUMN wishlist_items.destination_id IS 'destinations.id this wishlist item belongs to';
@@ -0,0 +1,13 @@
+-- Link expenses to the trip stop (trips) and / or wishlist place (wishlist_items) they were spent
+-- at, for the per-stop and per-day cost rollups in the itinerary. Both are optional and cleared
+-- when the stop or place is deleted. Until this runs expenses are saved without links.
+-- Safe to run more than once.
+
+ALTER TABLE expenses ADD COLUMN IF NOT EXISTS trip_id integer REFERENCES trips(id) ON DELETE SET NULL;
+ALTER TABLE expenses ADD COLUMN IF NOT EXISTS wishlist_item_id integer REFERENCES wishlist_items(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS expenses_trip_id_idx ON expenses (trip_id);
+CREATE INDEX IF NOT EXISTS expenses_wishlist_item_id_idx ON expenses (wishlist_item_id);
+
+COMMENT ON COLUMN expenses.trip_id IS 'Trip stop the expense belongs to (itinerary cost rollups)';
+COMMENT ON COLUMN expenses.wishlist_item_id IS 'Wishlist place the expense was spent at';
@@ -0,0 +1,18 @@
+-- How each expense was paid (cash, credit card, Suica / IC card, PayPay) and whether it was paid
+-- before departure (flights, hotels, JR Pass): pre-paid expenses count before the trip, not on the
+-- day they were logged. Cash withdrawals (ATM, money exchange) are expenses rows with
+-- kind = 'withdrawal' in the shared wallet; with cash expenses they give each person's cash on hand
+-- (src/lib/cashOnHand.ts) and are left out of totals, the budget and balances.
+-- Until this runs expenses are saved without a payment method. Safe to run more than once.
+
+ALTER TABLE expenses ADD COLUMN IF NOT EXISTS payment_method text DEFAULT null
+  CHECK (payment_method IN ('cash', 'card', 'ic', 'paypay'));
+ALTER TABLE expenses ADD COLUMN IF NOT EXISTS prepaid boolean NOT NULL DEFAULT false;
+
+-- Widen the check added by add_settlement_payments.sql
+ALTER TABLE expenses DROP CONSTRAINT IF EXISTS expenses_kind_check;
+ALTER TABLE expenses ADD CONSTRAINT expenses_kind_check CHECK (kind IN ('expense', 'settlement', 'withdrawal'));
+
+COMMENT ON COLUMN expenses.payment_method IS 'cash, card (credit card), ic (Suica / IC card) or paypay; null = not recorded';
+COMMENT ON COLUMN expenses.prepaid IS 'Paid before departure: counted before the trip, not on a trip day';
+COMMENT ON COLUMN expenses.kind IS 'expense, settlement = username paid paid_to back, or withdrawal = username took cash out (ATM / exchange)';
@@ -0,0 +1,15 @@
+-- Receipt photos for expenses: the photo is uploaded to the private receipts bucket, in the
+-- uploader's folder, and what on-device OCR read from it (total, date, shop, line items, 税込 /
+-- 免税 flags; see src/lib/receiptOcr.ts) is kept with the expense. Who may read the photos is set
+-- by add_role_policies.sql (run it after this); the app shows them through signed URLs.
+-- Until this runs expenses are saved without receipts. Safe to run more than once.
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('receipts', 'receipts', false, 8388608, ARRAY['image/jpeg', 'image/png', 'image/webp', 'image/gif'])
+ON CONFLICT (id) DO UPDATE SET public = false;
+
+ALTER TABLE expenses ADD COLUMN IF NOT EXISTS receipt_url text DEFAULT null;
+ALTER TABLE expenses ADD COLUMN IF NOT EXISTS receipt_data jsonb DEFAULT null;
+
+COMMENT ON COLUMN expenses.receipt_url IS 'receipt:<path> in the receipts bucket; older rows hold a public images-bucket URL (with width / height / blurhash fragment)';
+COMMENT ON COLUMN expenses.receipt_data IS 'Fields read from the receipt, e.g. {"shopName": "ローソン", "date": "2026-05-10", "total": 511, "items": [...]}';
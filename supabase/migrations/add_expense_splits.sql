@@ -0,0 +1,8 @@
+-- Split rules for shared expenses: who shares each expense and how (equal among the selected
+-- people, exact amounts, percentages or shares). Settlements are computed by src/lib/settlement.ts.
+-- Expenses without a split (all rows before this migration) are shared equally by everyone in
+-- the wallet, as before. Safe to run more than once.
+
+ALTER TABLE expenses ADD COLUMN IF NOT EXISTS split jsonb DEFAULT null;
+
+COMMENT ON COLUMN expenses.split IS 'Split rule, e.g. {"mode": "shares", "participants": [{"username": "a", "value": 2}, {"username": "b", "value": 1}]}; null = equal among everyone';
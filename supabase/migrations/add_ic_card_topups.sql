@@ -0,0 +1,10 @@
+-- IC card (Suica / PASMO) top-ups: an expenses row with kind = 'ic_topup' is money put on the
+-- user's card, not spending (what the card pays for is). The card balance (src/lib/icCard.ts) is
+-- top-ups minus expenses paid by IC card (payment_method = 'ic', add_expense_payments.sql) and
+-- estimated fares between trip stops. Needs add_expense_payments.sql. Until this runs top-ups
+-- cannot be recorded. Safe to run more than once.
+
+ALTER TABLE expenses DROP CONSTRAINT IF EXISTS expenses_kind_check;
+ALTER TABLE expenses ADD CONSTRAINT expenses_kind_check CHECK (kind IN ('expense', 'settlement', 'withdrawal', 'ic_topup'));
+
+COMMENT ON COLUMN expenses.kind IS 'expense, settlement = username paid paid_to back, withdrawal = username took cash out (ATM / exchange), or ic_topup = money put on username''s IC card';
@@ -0,0 +1,19 @@
+-- Image storage: uploads go to the public "images" bucket instead of base64 data URLs in
+-- image_url / avatar_url columns. Rows keep the public URL with width / height / blurhash in the
+-- URL fragment (see src/lib/storedImage.ts); thumbnails are stored next to each original as
+-- <name>_w320.<ext>, _w640, _w1280. Safe to run more than once.
+--
+-- Run add_role_policies.sql too, or nobody can upload. Existing rows: run `npm run migrate-images`
+-- once after this migration to move the base64 images already stored in trips, wishlist items, day
+-- schedules, site settings and avatars.
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('images', 'images', true, 8388608, ARRAY['image/jpeg', 'image/png', 'image/webp', 'image/gif'])
+ON CONFLICT (id) DO UPDATE SET public = true;
+
+-- Public object URLs serve the images; who may upload, remove or list them is up to the role
+-- policies (add_role_policies.sql). The open policies this file used to create let anyone with the
+-- anon key overwrite or delete every image.
+DROP POLICY IF EXISTS "Allow public read images" ON storage.objects;
+DROP POLICY IF EXISTS "Allow public insert images" ON storage.objects;
+DROP POLICY IF EXISTS "Allow public delete images" ON storage.objects;
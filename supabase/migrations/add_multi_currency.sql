@@ -0,0 +1,42 @@
+-- Multi-currency expenses: each expense keeps the amount in the currency it was paid in plus the
+-- exchange rates captured when it was entered; the wallet converts into its home currency
+-- (wallet_settings.currency). exchange_rates holds manual rates that override the live ones
+-- (offline use, or the rate a card actually charged). Existing expenses were all yen.
+-- Until this runs the app only records JPY expenses. Safe to run more than once.
+
+ALTER TABLE expenses ADD COLUMN IF NOT EXISTS currency text NOT NULL DEFAULT 'JPY';
+ALTER TABLE expenses ADD COLUMN IF NOT EXISTS fx_rates jsonb DEFAULT null;
+ALTER TABLE expenses ADD COLUMN IF NOT EXISTS fx_source text DEFAULT null;
+ALTER TABLE expenses ADD COLUMN IF NOT EXISTS fx_captured_at timestamptz DEFAULT null;
+
+COMMENT ON COLUMN expenses.amount IS 'Amount in expenses.currency (as paid)';
+COMMENT ON COLUMN expenses.currency IS 'ISO 4217 code of the amount, e.g. JPY, HKD';
+COMMENT ON COLUMN expenses.fx_rates IS 'Units of each currency per 1 expenses.currency at entry time, e.g. {"JPY": 19.2, "HKD": 1}';
+COMMENT ON COLUMN expenses.fx_source IS 'Where fx_rates came from: the rate provider name, or manual';
+COMMENT ON COLUMN wallet_settings.currency IS 'Home currency: budget, totals and settlements are shown in it';
+
+CREATE TABLE IF NOT EXISTS exchange_rates (
+  id SERIAL PRIMARY KEY,
+  from_currency text NOT NULL,
+  to_currency text NOT NULL,
+  rate numeric NOT NULL CHECK (rate > 0),
+  updated_by text DEFAULT null,
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (from_currency, to_currency)
+);
+
+COMMENT ON TABLE exchange_rates IS 'Manual exchange rates, used instead of live rates: 1 from_currency = rate to_currency';
+
+ALTER TABLE exchange_rates ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow public read exchange_rates" ON exchange_rates;
+CREATE POLICY "Allow public read exchange_rates" ON exchange_rates FOR SELECT USING (true);
+
+DROP POLICY IF EXISTS "Allow public insert exchange_rates" ON exchange_rates;
+CREATE POLICY "Allow public insert exchange_rates" ON exchange_rates FOR INSERT WITH CHECK (true);
+
+DROP POLICY IF EXISTS "Allow public update exchange_rates" ON exchange_rates;
+CREATE POLICY "Allow public update exchange_rates" ON exchange_rates FOR UPDATE USING (true);
+
+DROP POLICY IF EXISTS "Allow public delete exchange_rates" ON exchange_rates;
+CREATE POLICY "Allow public delete exchange_rates" ON exchange_rates FOR DELETE USING (true);
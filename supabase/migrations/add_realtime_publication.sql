@@ -0,0 +1,17 @@
+-- Realtime collaboration: stream row changes of trips / wishlist_items / expenses /
+-- checklist_states to the app (useRealtimeSync in src/hooks/useQueries.ts).
+-- Presence (who is viewing which day) needs no table. Safe to run more than once.
+
+DO $$
+DECLARE
+  t text;
+BEGIN
+  FOREACH t IN ARRAY ARRAY['trips', 'wishlist_items', 'expenses', 'checklist_states'] LOOP
+    IF NOT EXISTS (
+      SELECT 1 FROM pg_publication_tables
+      WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = t
+    ) THEN
+      EXECUTE format('ALTER PUBLICATION supabase_realtime ADD TABLE public.%I', t);
+    END IF;
+  END LOOP;
+END $$;
@@ -0,0 +1,223 @@
+-- Role-based write policies. The login route gives the browser a Supabase access token signed with
+-- the project's JWT secret (SUPABASE_JWT_SECRET): `sub` = username, `app_role` = role. Until now every
+-- table let the anon key write anything, so the role checks only ran in the browser, which trusts the
+-- editable user_info cookie. Reads stay public, except users.password (service role only) and receipt photos. Mirrors
+-- TABLE_WRITE_CAPABILITIES / canWriteExpense in src/lib/permissions.ts.
+--
+-- Before running: set SUPABASE_JWT_SECRET and SUPABASE_SERVICE_ROLE_KEY (the login route hashes
+-- legacy passwords with it) and sign in again; without a token every write below is refused.
+-- Needs add_settlement_payments.sql (expenses.kind / paid_to), add_image_storage.sql and
+-- add_expense_receipts.sql.
+
+CREATE OR REPLACE FUNCTION app_username() RETURNS text LANGUAGE sql STABLE AS $$
+  SELECT nullif(auth.jwt() ->> 'sub', '')
+$$;
+
+-- Role → capability matrix of lib/permissions.ts (the token carries the normalized role)
+CREATE OR REPLACE FUNCTION app_can(capability text) RETURNS boolean LANGUAGE sql STABLE AS $$
+  SELECT CASE coalesce(auth.jwt() ->> 'app_role', '')
+    WHEN 'admin' THEN true
+    WHEN 'treasurer' THEN capability IN ('reactions.add', 'wallet.personal.write', 'wallet.shared.write', 'wallet.shared.manage')
+    WHEN 'planner' THEN capability IN ('reactions.add', 'wallet.personal.write', 'trips.edit', 'wishlist.edit', 'wallet.shared.write')
+    WHEN 'viewer' THEN capability IN ('reactions.add', 'wallet.personal.write')
+    ELSE false
+  END
+$$;
+
+-- Personal rows: the owner. Shared rows: own (or received settle-up payments) with wallet.shared.write,
+-- anyone's with wallet.shared.manage.
+CREATE OR REPLACE FUNCTION app_can_write_expense(row_type text, row_username text, row_kind text, row_paid_to text)
+RETURNS boolean LANGUAGE sql STABLE AS $$
+  SELECT CASE
+    WHEN row_type = 'personal' THEN row_username = app_username() AND app_can('wallet.personal.write')
+    ELSE (app_can('wallet.shared.write') AND (row_username = app_username() OR (row_kind = 'settlement' AND row_paid_to = app_username())))
+      OR app_can('wallet.shared.manage')
+  END
+$$;
+
+-- Images bucket: the top folder says what the image belongs to (IMAGE_FOLDER_CAPABILITIES)
+CREATE OR REPLACE FUNCTION app_can_store_image(object_name text) RETURNS boolean LANGUAGE sql STABLE AS $$
+  SELECT CASE (storage.foldername(object_name))[1]
+    WHEN 'trips' THEN app_can('trips.edit')
+    WHEN 'settings' THEN app_can('trips.edit')
+    WHEN 'wishlist' THEN app_can('wishlist.edit')
+    WHEN 'avatars' THEN app_can('reactions.add')
+    ELSE false
+  END
+$$;
+
+COMMENT ON FUNCTION app_can(text) IS 'Whether the signed-in user''s role (access token app_role) grants the capability';
+
+-- 行程
+DROP POLICY IF EXISTS "Allow public insert trips" ON trips;
+DROP POLICY IF EXISTS "Allow public update trips" ON trips;
+DROP POLICY IF EXISTS "Allow public delete trips" ON trips;
+DROP POLICY IF EXISTS "Role insert trips" ON trips;
+DROP POLICY IF EXISTS "Role update trips" ON trips;
+DROP POLICY IF EXISTS "Role delete trips" ON trips;
+CREATE POLICY "Role insert trips" ON trips FOR INSERT WITH CHECK (app_can('trips.edit'));
+CREATE POLICY "Role update trips" ON trips FOR UPDATE USING (app_can('trips.edit'));
+CREATE POLICY "Role delete trips" ON trips FOR DELETE USING (app_can('trips.edit'));
+
+DROP POLICY IF EXISTS "Allow public insert trip_schedule_items" ON trip_schedule_items;
+DROP POLICY IF EXISTS "Allow public update trip_schedule_items" ON trip_schedule_items;
+DROP POLICY IF EXISTS "Allow public delete trip_schedule_items" ON trip_schedule_items;
+DROP POLICY IF EXISTS "Role insert trip_schedule_items" ON trip_schedule_items;
+DROP POLICY IF EXISTS "Role update trip_schedule_items" ON trip_schedule_items;
+DROP POLICY IF EXISTS "Role delete trip_schedule_items" ON trip_schedule_items;
+CREATE POLICY "Role insert trip_schedule_items" ON trip_schedule_items FOR INSERT WITH CHECK (app_can('trips.edit'));
+CREATE POLICY "Role update trip_schedule_items" ON trip_schedule_items FOR UPDATE USING (app_can('trips.edit'));
+CREATE POLICY "Role delete trip_schedule_items" ON trip_schedule_items FOR DELETE USING (app_can('trips.edit'));
+
+-- Trip plans and site settings also hold ❤️❤️ counts: any signed-in user may update them
+DROP POLICY IF EXISTS "Allow public insert trip_plans" ON trip_plans;
+DROP POLICY IF EXISTS "Allow public update trip_plans" ON trip_plans;
+DROP POLICY IF EXISTS "Allow public delete trip_plans" ON trip_plans;
+DROP POLICY IF EXISTS "Role insert trip_plans" ON trip_plans;
+DROP POLICY IF EXISTS "Role update trip_plans" ON trip_plans;
+DROP POLICY IF EXISTS "Role delete trip_plans" ON trip_plans;
+CREATE POLICY "Role insert trip_plans" ON trip_plans FOR INSERT WITH CHECK (app_can('trips.edit'));
+CREATE POLICY "Role update trip_plans" ON trip_plans FOR UPDATE USING (app_can('reactions.add'));
+CREATE POLICY "Role delete trip_plans" ON trip_plans FOR DELETE USING (app_can('trips.edit'));
+
+DROP POLICY IF EXISTS "Allow public insert site_settings" ON site_settings;
+DROP POLICY IF EXISTS "Allow public update site_settings" ON site_settings;
+DROP POLICY IF EXISTS "Role insert site_settings" ON site_settings;
+DROP POLICY IF EXISTS "Role update site_settings" ON site_settings;
+CREATE POLICY "Role insert site_settings" ON site_settings FOR INSERT WITH CHECK (app_can('reactions.add'));
+CREATE POLICY "Role update site_settings" ON site_settings FOR UPDATE USING (app_can('reactions.add'));
+
+-- 美食清單 (likes are updates)
+DROP POLICY IF EXISTS "Allow public insert wishlist_items" ON wishlist_items;
+DROP POLICY IF EXISTS "Allow public update wishlist_items" ON wishlist_items;
+DROP POLICY IF EXISTS "Allow public delete wishlist_items" ON wishlist_items;
+DROP POLICY IF EXISTS "Role insert wishlist_items" ON wishlist_items;
+DROP POLICY IF EXISTS "Role update wishlist_items" ON wishlist_items;
+DROP POLICY IF EXISTS "Role delete wishlist_items" ON wishlist_items;
+CREATE POLICY "Role insert wishlist_items" ON wishlist_items FOR INSERT WITH CHECK (app_can('wishlist.edit'));
+CREATE POLICY "Role update wishlist_items" ON wishlist_items FOR UPDATE USING (app_can('reactions.add'));
+CREATE POLICY "Role delete wishlist_items" ON wishlist_items FOR DELETE USING (app_can('wishlist.edit'));
+
+DROP POLICY IF EXISTS "Allow public insert checklist_states" ON checklist_states;
+DROP POLICY IF EXISTS "Allow public update checklist_states" ON checklist_states;
+DROP POLICY IF EXISTS "Role insert checklist_states" ON checklist_states;
+DROP POLICY IF EXISTS "Role update checklist_states" ON checklist_states;
+CREATE POLICY "Role insert checklist_states" ON checklist_states FOR INSERT WITH CHECK (app_can('reactions.add'));
+CREATE POLICY "Role update checklist_states" ON checklist_states FOR UPDATE USING (app_can('reactions.add'));
+
+DROP POLICY IF EXISTS "Allow public insert activity_log" ON activity_log;
+DROP POLICY IF EXISTS "Role insert activity_log" ON activity_log;
+CREATE POLICY "Role insert activity_log" ON activity_log FOR INSERT WITH CHECK (app_can('reactions.add'));
+
+-- 目的地、自訂區域
+DROP POLICY IF EXISTS "Role insert destinations" ON destinations;
+DROP POLICY IF EXISTS "Role update destinations" ON destinations;
+DROP POLICY IF EXISTS "Role delete destinations" ON destinations;
+CREATE POLICY "Role insert destinations" ON destinations FOR INSERT WITH CHECK (app_can('settings.edit'));
+CREATE POLICY "Role update destinations" ON destinations FOR UPDATE USING (app_can('settings.edit'));
+CREATE POLICY "Role delete destinations" ON destinations FOR DELETE USING (app_can('settings.edit'));
+
+DROP POLICY IF EXISTS "Allow public insert region_custom_areas" ON region_custom_areas;
+DROP POLICY IF EXISTS "Allow public update region_custom_areas" ON region_custom_areas;
+DROP POLICY IF EXISTS "Allow public delete region_custom_areas" ON region_custom_areas;
+DROP POLICY IF EXISTS "Role insert region_custom_areas" ON region_custom_areas;
+DROP POLICY IF EXISTS "Role update region_custom_areas" ON region_custom_areas;
+DROP POLICY IF EXISTS "Role delete region_custom_areas" ON region_custom_areas;
+CREATE POLICY "Role insert region_custom_areas" ON region_custom_areas FOR INSERT WITH CHECK (app_can('settings.edit'));
+CREATE POLICY "Role update region_custom_areas" ON region_custom_areas FOR UPDATE USING (app_can('settings.edit'));
+CREATE POLICY "Role delete region_custom_areas" ON region_custom_areas FOR DELETE USING (app_can('settings.edit'));
+
+-- 錢包
+DROP POLICY IF EXISTS "Allow public insert expenses" ON expenses;
+DROP POLICY IF EXISTS "Allow public update expenses" ON expenses;
+DROP POLICY IF EXISTS "Allow public delete expenses" ON expenses;
+DROP POLICY IF EXISTS "Role insert expenses" ON expenses;
+DROP POLICY IF EXISTS "Role update expenses" ON expenses;
+DROP POLICY IF EXISTS "Role delete expenses" ON expenses;
+CREATE POLICY "Role insert expenses" ON expenses FOR INSERT
+  WITH CHECK (app_can_write_expense(type, username, kind, paid_to));
+CREATE POLICY "Role update expenses" ON expenses FOR UPDATE
+  USING (app_can_write_expense(type, username, kind, paid_to))
+  WITH CHECK (app_can_write_expense(type, username, kind, paid_to));
+CREATE POLICY "Role delete expenses" ON expenses FOR DELETE
+  USING (app_can_write_expense(type, username, kind, paid_to));
+
+DROP POLICY IF EXISTS "Allow public insert exchange_rates" ON exchange_rates;
+DROP POLICY IF EXISTS "Allow public update exchange_rates" ON exchange_rates;
+DROP POLICY IF EXISTS "Allow public delete exchange_rates" ON exchange_rates;
+DROP POLICY IF EXISTS "Role insert exchange_rates" ON exchange_rates;
+DROP POLICY IF EXISTS "Role update exchange_rates" ON exchange_rates;
+DROP POLICY IF EXISTS "Role delete exchange_rates" ON exchange_rates;
+CREATE POLICY "Role insert exchange_rates" ON exchange_rates FOR INSERT WITH CHECK (app_can('wallet.shared.write'));
+CREATE POLICY "Role update exchange_rates" ON exchange_rates FOR UPDATE USING (app_can('wallet.shared.write'));
+CREATE POLICY "Role delete exchange_rates" ON exchange_rates FOR DELETE USING (app_can('wallet.shared.write'));
+
+DROP POLICY IF EXISTS "Allow public update wallet_settings" ON wallet_settings;
+DROP POLICY IF EXISTS "Role update wallet_settings" ON wallet_settings;
+CREATE POLICY "Role update wallet_settings" ON wallet_settings FOR UPDATE USING (app_can('wallet.shared.manage'));
+
+-- 用戶: users.manage, or your own profile keeping the username and role (legacy 'user' = planner)
+DROP POLICY IF EXISTS "Allow public insert users" ON users;
+DROP POLICY IF EXISTS "Allow public update users" ON users;
+DROP POLICY IF EXISTS "Allow public delete users" ON users;
+DROP POLICY IF EXISTS "Role insert users" ON users;
+DROP POLICY IF EXISTS "Role update users" ON users;
+DROP POLICY IF EXISTS "Role delete users" ON users;
+CREATE POLICY "Role insert users" ON users FOR INSERT WITH CHECK (app_can('users.manage'));
+CREATE POLICY "Role update users" ON users FOR UPDATE
+  USING (app_can('users.manage') OR username = app_username())
+  WITH CHECK (
+    app_can('users.manage')
+    OR (
+      username = app_username()
+      AND (CASE role WHEN 'user' THEN 'planner' ELSE role END)
+        = (SELECT CASE u.role WHEN 'user' THEN 'planner' ELSE u.role END FROM users u WHERE u.id = users.id)
+    )
+  );
+CREATE POLICY "Role delete users" ON users FOR DELETE USING (app_can('users.manage'));
+
+-- Passwords (hashes, or plaintext on legacy rows until their next login) are readable by the
+-- service role only; the login route reads them with SUPABASE_SERVICE_ROLE_KEY. Every other column
+-- stays public, including ones added later by hand (re-run this file after adding users columns).
+REVOKE SELECT ON users FROM anon, authenticated;
+DO $$
+DECLARE
+  profile_columns text;
+BEGIN
+  SELECT string_agg(quote_ident(column_name), ', ') INTO profile_columns
+  FROM information_schema.columns
+  WHERE table_schema = 'public' AND table_name = 'users' AND column_name <> 'password';
+  EXECUTE format('GRANT SELECT (%s) ON users TO anon, authenticated', profile_columns);
+END $$;
+
+-- 圖片: public URLs serve the files; uploading, removing and listing (remove needs it) follow the
+-- folder's capability. Objects are never updated (uploads do not upsert).
+DROP POLICY IF EXISTS "Allow public read images" ON storage.objects;
+DROP POLICY IF EXISTS "Allow public insert images" ON storage.objects;
+DROP POLICY IF EXISTS "Allow public delete images" ON storage.objects;
+DROP POLICY IF EXISTS "Role read images" ON storage.objects;
+DROP POLICY IF EXISTS "Role insert images" ON storage.objects;
+DROP POLICY IF EXISTS "Role delete images" ON storage.objects;
+CREATE POLICY "Role read images" ON storage.objects FOR SELECT
+  USING (bucket_id = 'images' AND app_can_store_image(name));
+CREATE POLICY "Role insert images" ON storage.objects FOR INSERT
+  WITH CHECK (bucket_id = 'images' AND app_can_store_image(name));
+CREATE POLICY "Role delete images" ON storage.objects FOR DELETE
+  USING (bucket_id = 'images' AND app_can_store_image(name));
+
+-- 收據: private bucket, one folder per uploader. Signed URLs need read access: the uploader, or any
+-- signed-in user once a shared expense shows the photo (expenses.receipt_url = 'receipt:' || name).
+DROP POLICY IF EXISTS "Role read receipts" ON storage.objects;
+DROP POLICY IF EXISTS "Role insert receipts" ON storage.objects;
+DROP POLICY IF EXISTS "Role delete receipts" ON storage.objects;
+CREATE POLICY "Role read receipts" ON storage.objects FOR SELECT
+  USING (bucket_id = 'receipts' AND (
+    (storage.foldername(name))[1] = app_username()
+    OR (app_username() IS NOT NULL AND EXISTS (
+      SELECT 1 FROM expenses e WHERE e.type = 'shared' AND e.receipt_url = 'receipt:' || name
+    ))
+  ));
+CREATE POLICY "Role insert receipts" ON storage.objects FOR INSERT
+  WITH CHECK (bucket_id = 'receipts' AND (storage.foldername(name))[1] = app_username() AND app_can('wallet.personal.write'));
+CREATE POLICY "Role delete receipts" ON storage.objects FOR DELETE
+  USING (bucket_id = 'receipts' AND (storage.foldername(name))[1] = app_username());
@@ -0,0 +1,10 @@
+-- Settle-up payments in the shared wallet: a payment is an expenses row with kind = 'settlement'
+-- where username paid paid_to back (amount / currency / fx_rates as for expenses). Payments are
+-- left out of totals and the budget and only move balances. Existing rows are expenses.
+-- Until this runs suggested transfers cannot be marked as paid. Safe to run more than once.
+
+ALTER TABLE expenses ADD COLUMN IF NOT EXISTS kind text NOT NULL DEFAULT 'expense' CHECK (kind IN ('expense', 'settlement'));
+ALTER TABLE expenses ADD COLUMN IF NOT EXISTS paid_to text DEFAULT null;
+
+COMMENT ON COLUMN expenses.kind IS 'expense, or settlement = username paid paid_to back';
+COMMENT ON COLUMN expenses.paid_to IS 'Settlements: username of who received the payment';
@@ -0,0 +1,47 @@
+-- Shared trash bin: trips / users / destinations / wishlist items are soft-deleted via deleted_at
+-- instead of being copied into the browser's localStorage. The app hides rows with deleted_at set,
+-- the admin panel lists them for restore / permanent delete, and rows older than
+-- site_settings.trash_retention_days are purged. Safe to run more than once.
+
+ALTER TABLE trips ADD COLUMN IF NOT EXISTS deleted_at timestamptz DEFAULT null;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS deleted_at timestamptz DEFAULT null;
+ALTER TABLE destinations ADD COLUMN IF NOT EXISTS deleted_at timestamptz DEFAULT null;
+ALTER TABLE wishlist_items ADD COLUMN IF NOT EXISTS deleted_at timestamptz DEFAULT null;
+-- users is readable column by column after add_role_policies.sql (the password is not)
+GRANT SELECT (deleted_at) ON users TO anon, authenticated;
+
+CREATE INDEX IF NOT EXISTS trips_deleted_at_idx ON trips (deleted_at) WHERE deleted_at IS NOT NULL;
+CREATE INDEX IF NOT EXISTS users_deleted_at_idx ON users (deleted_at) WHERE deleted_at IS NOT NULL;
+CREATE INDEX IF NOT EXISTS destinations_deleted_at_idx ON destinations (deleted_at) WHERE deleted_at IS NOT NULL;
+CREATE INDEX IF NOT EXISTS wishlist_items_deleted_at_idx ON wishlist_items (deleted_at) WHERE deleted_at IS NOT NULL;
+
+COMMENT ON COLUMN trips.deleted_at IS 'Moved to the trash at; null = active';
+COMMENT ON COLUMN users.deleted_at IS 'Moved to the trash at; null = active (trashed users cannot log in)';
+COMMENT ON COLUMN destinations.deleted_at IS 'Moved to the trash at; null = active';
+COMMENT ON COLUMN wishlist_items.deleted_at IS 'Moved to the trash at; null = active';
+
+-- 垃圾桶保留天數
+ALTER TABLE site_settings ADD COLUMN IF NOT EXISTS trash_retention_days integer DEFAULT 30;
+
+COMMENT ON COLUMN site_settings.trash_retention_days IS 'Days a trashed row is kept before it is permanently deleted';
+
+-- The panel purges expired rows when an admin opens it. To purge on a schedule instead,
+-- enable pg_cron and run: SELECT cron.schedule('purge-trash', '0 4 * * *', 'SELECT purge_expired_trash()');
+CREATE OR REPLACE FUNCTION purge_expired_trash() RETURNS void
+LANGUAGE plpgsql AS $$
+DECLARE
+  cutoff timestamptz;
+BEGIN
+  SELECT now() - make_interval(days => COALESCE(NULLIF(trash_retention_days, 0), 30))
+    INTO cutoff
+    FROM site_settings WHERE id = 1;
+  cutoff := COALESCE(cutoff, now() - interval '30 days');
+
+  DELETE FROM trips WHERE deleted_at < cutoff;
+  DELETE FROM wishlist_items WHERE deleted_at < cutoff;
+  DELETE FROM users WHERE deleted_at < cutoff;
+  DELETE FROM destinations WHERE deleted_at < cutoff;
+END;
+$$;
+
+COMMENT ON FUNCTION purge_expired_trash() IS 'Permanently delete trashed rows older than site_settings.trash_retention_days';
@@ -0,0 +1,79 @@
+-- Multiple trip plans. Each plan owns its dates, days, home location, flights and ❤️❤️ counts,
+-- plus the trips / expenses / checklist_states rows scoped to it. site_settings (id = 1) keeps
+-- the site-wide config (title, travel notice items, reCAPTCHA, sakura mode, Chiikawa).
+-- Existing data is moved into a first plan automatically. Deleting a plan never takes its rows
+-- along (they would skip the trash and the activity log): the app only deletes empty plans, and
+-- the foreign keys are ON DELETE RESTRICT. Safe to run more than once.
+
+CREATE TABLE IF NOT EXISTS trip_plans (
+  id SERIAL PRIMARY KEY,
+  name text NOT NULL,
+  home_location jsonb DEFAULT null,
+  trip_start_date text DEFAULT null,
+  total_days integer NOT NULL DEFAULT 5,
+  day_schedules jsonb DEFAULT null,
+  flights jsonb DEFAULT '[]'::jsonb,
+  day_heart_counts jsonb DEFAULT '{}'::jsonb,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+-- First plan from the singleton site_settings row
+INSERT INTO trip_plans (name, home_location, trip_start_date, total_days, day_schedules, flights, day_heart_counts)
+SELECT
+  COALESCE(NULLIF(s.title, ''), '我的旅程'),
+  s.home_location,
+  s.trip_start_date,
+  COALESCE(s.total_days, 5),
+  s.day_schedules,
+  COALESCE(s.flights, '[]'::jsonb),
+  COALESCE(s.day_heart_counts, '{}'::jsonb)
+FROM site_settings s
+WHERE s.id = 1
+  AND NOT EXISTS (SELECT 1 FROM trip_plans);
+
+-- No site_settings row to start from: an empty first plan, so the rows below always get one
+INSERT INTO trip_plans (name)
+SELECT '我的旅程'
+WHERE NOT EXISTS (SELECT 1 FROM trip_plans);
+
+-- Scope trips / expenses / checklist states to a plan
+ALTER TABLE trips ADD COLUMN IF NOT EXISTS plan_id integer REFERENCES trip_plans(id) ON DELETE RESTRICT;
+ALTER TABLE expenses ADD COLUMN IF NOT EXISTS plan_id integer REFERENCES trip_plans(id) ON DELETE RESTRICT;
+ALTER TABLE checklist_states ADD COLUMN IF NOT EXISTS plan_id integer REFERENCES trip_plans(id) ON DELETE RESTRICT;
+
+-- Databases migrated when these cascaded
+ALTER TABLE trips DROP CONSTRAINT IF EXISTS trips_plan_id_fkey;
+ALTER TABLE trips ADD CONSTRAINT trips_plan_id_fkey FOREIGN KEY (plan_id) REFERENCES trip_plans(id) ON DELETE RESTRICT;
+ALTER TABLE expenses DROP CONSTRAINT IF EXISTS expenses_plan_id_fkey;
+ALTER TABLE expenses ADD CONSTRAINT expenses_plan_id_fkey FOREIGN KEY (plan_id) REFERENCES trip_plans(id) ON DELETE RESTRICT;
+ALTER TABLE checklist_states DROP CONSTRAINT IF EXISTS checklist_states_plan_id_fkey;
+ALTER TABLE checklist_states ADD CONSTRAINT checklist_states_plan_id_fkey FOREIGN KEY (plan_id) REFERENCES trip_plans(id) ON DELETE RESTRICT;
+
+UPDATE trips SET plan_id = (SELECT min(id) FROM trip_plans) WHERE plan_id IS NULL;
+UPDATE expenses SET plan_id = (SELECT min(id) FROM trip_plans) WHERE plan_id IS NULL;
+UPDATE checklist_states SET plan_id = (SELECT min(id) FROM trip_plans) WHERE plan_id IS NULL;
+
+CREATE INDEX IF NOT EXISTS trips_plan_id_idx ON trips (plan_id);
+CREATE INDEX IF NOT EXISTS expenses_plan_id_idx ON expenses (plan_id);
+
+-- The same checklist item can be ticked independently in every plan
+ALTER TABLE checklist_states ALTER COLUMN plan_id SET NOT NULL;
+ALTER TABLE checklist_states DROP CONSTRAINT IF EXISTS checklist_states_pkey;
+ALTER TABLE checklist_states ADD PRIMARY KEY (plan_id, id);
+
+ALTER TABLE trip_plans ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow public read trip_plans" ON trip_plans;
+CREATE POLICY "Allow public read trip_plans" ON trip_plans FOR SELECT USING (true);
+
+DROP POLICY IF EXISTS "Allow public insert trip_plans" ON trip_plans;
+CREATE POLICY "Allow public insert trip_plans" ON trip_plans FOR INSERT WITH CHECK (true);
+
+DROP POLICY IF EXISTS "Allow public update trip_plans" ON trip_plans;
+CREATE POLICY "Allow public update trip_plans" ON trip_plans FOR UPDATE USING (true);
+
+DROP POLICY IF EXISTS "Allow public delete trip_plans" ON trip_plans;
+CREATE POLICY "Allow public delete trip_plans" ON trip_plans FOR DELETE USING (true);
+
+COMMENT ON TABLE trip_plans IS 'One row per trip (dates, days, home, flights); trips/expenses/checklist_states reference it via plan_id';
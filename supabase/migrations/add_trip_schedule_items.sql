@@ -0,0 +1,98 @@
+-- Trip schedule items (行程明細): one row per time-ranged line of a trip, instead of a JSON array
+-- serialized into trips.description. Existing JSON descriptions are moved into rows and cleared;
+-- legacy HTML / plain-text descriptions are left as they are (still shown under the schedule).
+-- Until this runs the app keeps reading and writing the JSON in description. Safe to run more than once.
+
+CREATE TABLE IF NOT EXISTS trip_schedule_items (
+  id bigserial PRIMARY KEY,
+  trip_id integer NOT NULL REFERENCES trips (id) ON DELETE CASCADE,
+  sort_order integer NOT NULL DEFAULT 0,
+  time_start text DEFAULT null,
+  time_end text DEFAULT null,
+  content text NOT NULL DEFAULT '',
+  location text DEFAULT null,
+  cost numeric DEFAULT null,
+  booking_ref text DEFAULT null,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS trip_schedule_items_trip_idx ON trip_schedule_items (trip_id, sort_order);
+
+COMMENT ON TABLE trip_schedule_items IS 'Schedule lines of a trip (行程明細), embedded by getTrips as schedule_items';
+COMMENT ON COLUMN trip_schedule_items.sort_order IS 'Position within the trip, 0-based';
+COMMENT ON COLUMN trip_schedule_items.time_start IS 'HH:mm';
+COMMENT ON COLUMN trip_schedule_items.time_end IS 'HH:mm';
+COMMENT ON COLUMN trip_schedule_items.location IS 'Optional place name / address for this line';
+COMMENT ON COLUMN trip_schedule_items.cost IS 'Optional expected cost (destination currency)';
+COMMENT ON COLUMN trip_schedule_items.booking_ref IS 'Optional reservation / confirmation number';
+
+ALTER TABLE trip_schedule_items ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow public read trip_schedule_items" ON trip_schedule_items;
+CREATE POLICY "Allow public read trip_schedule_items" ON trip_schedule_items FOR SELECT USING (true);
+
+DROP POLICY IF EXISTS "Allow public insert trip_schedule_items" ON trip_schedule_items;
+CREATE POLICY "Allow public insert trip_schedule_items" ON trip_schedule_items FOR INSERT WITH CHECK (true);
+
+DROP POLICY IF EXISTS "Allow public update trip_schedule_items" ON trip_schedule_items;
+CREATE POLICY "Allow public update trip_schedule_items" ON trip_schedule_items FOR UPDATE USING (true);
+
+DROP POLICY IF EXISTS "Allow public delete trip_schedule_items" ON trip_schedule_items;
+CREATE POLICY "Allow public delete trip_schedule_items" ON trip_schedule_items FOR DELETE USING (true);
+
+-- Realtime: DELETE events need trip_id to find the owning trip in the cache
+ALTER TABLE trip_schedule_items REPLICA IDENTITY FULL;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'trip_schedule_items'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.trip_schedule_items;
+  END IF;
+END $$;
+
+-- Existing data: description = '[{"id","time_start","time_end","content"}, ...]' → rows.
+-- Only trips without rows yet; anything that is not such an array (HTML, text, broken JSON) is kept.
+DO $$
+DECLARE
+  t record;
+  items jsonb;
+BEGIN
+  FOR t IN
+    SELECT id, description FROM trips
+    WHERE description ~ '^\s*\['
+      AND NOT EXISTS (SELECT 1 FROM trip_schedule_items s WHERE s.trip_id = trips.id)
+  LOOP
+    BEGIN
+      items := t.description::jsonb;
+    EXCEPTION WHEN others THEN
+      CONTINUE;
+    END;
+
+    IF jsonb_typeof(items) <> 'array' OR EXISTS (
+      SELECT 1 FROM jsonb_array_elements(items) AS e(item)
+      WHERE jsonb_typeof(e.item) <> 'object' OR NOT (e.item ? 'content')
+    ) THEN
+      CONTINUE;
+    END IF;
+
+    INSERT INTO trip_schedule_items (trip_id, sort_order, time_start, time_end, content, location, cost, booking_ref)
+    SELECT
+      t.id,
+      (e.ord - 1)::integer,
+      NULLIF(e.item->>'time_start', ''),
+      NULLIF(e.item->>'time_end', ''),
+      COALESCE(e.item->>'content', ''),
+      NULLIF(e.item->>'location', ''),
+      CASE WHEN e.item->>'cost' ~ '^-?[0-9]+(\.[0-9]+)?$' THEN (e.item->>'cost')::numeric END,
+      NULLIF(e.item->>'booking_ref', '')
+    FROM jsonb_array_elements(items) WITH ORDINALITY AS e(item, ord)
+    -- Empty lines (no content, no time) were never shown; don't carry them over
+    WHERE COALESCE(e.item->>'content', '') <> '' OR COALESCE(e.item->>'time_start', '') <> '' OR COALESCE(e.item->>'time_end', '') <> '';
+
+    UPDATE trips SET description = '' WHERE id = t.id;
+  END LOOP;
+END $$;
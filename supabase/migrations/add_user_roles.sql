@@ -0,0 +1,11 @@
+-- Role-based permissions: viewer / planner / treasurer / admin (see src/lib/permissions.ts).
+-- Legacy 'user' rows could edit trips and wishlist, which is what 'planner' does now.
+ALTER TABLE users DROP CONSTRAINT IF EXISTS users_role_check;
+
+UPDATE users SET role = 'planner' WHERE role = 'user';
+
+ALTER TABLE users ALTER COLUMN role SET DEFAULT 'planner';
+ALTER TABLE users
+  ADD CONSTRAINT users_role_check CHECK (role IN ('viewer', 'planner', 'treasurer', 'admin'));
+
+COMMENT ON COLUMN users.role IS 'viewer | planner | treasurer | admin';
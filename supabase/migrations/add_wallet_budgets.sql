@@ -0,0 +1,14 @@
+-- Budget envelopes for the shared wallet, in its home currency (wallet_settings.currency): one per
+-- expense category and one per trip day (daily_budget for any day without its own in day_budgets),
+-- plus the percentage of a category envelope at which the wallet alerts. shared_budget stays the
+-- total. Until this runs only the total budget can be set. Safe to run more than once.
+
+ALTER TABLE wallet_settings ADD COLUMN IF NOT EXISTS category_budgets jsonb NOT NULL DEFAULT '{}'::jsonb;
+ALTER TABLE wallet_settings ADD COLUMN IF NOT EXISTS daily_budget numeric DEFAULT null;
+ALTER TABLE wallet_settings ADD COLUMN IF NOT EXISTS day_budgets jsonb NOT NULL DEFAULT '{}'::jsonb;
+ALTER TABLE wallet_settings ADD COLUMN IF NOT EXISTS budget_alert_threshold numeric NOT NULL DEFAULT 80 CHECK (budget_alert_threshold > 0 AND budget_alert_threshold <= 100);
+
+COMMENT ON COLUMN wallet_settings.category_budgets IS 'Envelope per expense category, e.g. {"food": 30000, "shopping": 50000}';
+COMMENT ON COLUMN wallet_settings.daily_budget IS 'Envelope for each trip day without its own in day_budgets';
+COMMENT ON COLUMN wallet_settings.day_budgets IS 'Envelope per trip day number, e.g. {"3": 15000}';
+COMMENT ON COLUMN wallet_settings.budget_alert_threshold IS 'Alert when a category reaches this percentage of its envelope';
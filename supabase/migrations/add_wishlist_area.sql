@@ -0,0 +1,48 @@
+-- Wishlist areas: a dedicated `area` column instead of reusing map_link, plus admin-added
+-- custom areas per destination region (merged into src/lib/destinationDistricts.ts).
+-- Existing area ids are moved out of map_link. Safe to run more than once.
+
+ALTER TABLE wishlist_items ADD COLUMN IF NOT EXISTS area text DEFAULT null;
+
+-- map_link only ever held an area id (never a URL); move it over and clear it
+UPDATE wishlist_items
+  SET area = map_link, map_link = null
+  WHERE area IS NULL
+    AND map_link IS NOT NULL
+    AND map_link <> ''
+    AND map_link NOT LIKE 'http%';
+
+CREATE INDEX IF NOT EXISTS wishlist_items_area_idx ON wishlist_items (area);
+
+COMMENT ON COLUMN wishlist_items.area IS 'Area id from destinationDistricts.ts or region_custom_areas.area_id';
+
+CREATE TABLE IF NOT EXISTS region_custom_areas (
+  id SERIAL PRIMARY KEY,
+  destination_id text NOT NULL,
+  region_id text NOT NULL,
+  district_id text DEFAULT null,
+  area_id text NOT NULL UNIQUE,
+  zh text NOT NULL,
+  en text DEFAULT null,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS region_custom_areas_destination_id_idx ON region_custom_areas (destination_id);
+
+COMMENT ON TABLE region_custom_areas IS 'Admin-added wishlist areas within a destination region';
+COMMENT ON COLUMN region_custom_areas.region_id IS 'RegionDataset.id, e.g. kyoto / osaka / seoul';
+COMMENT ON COLUMN region_custom_areas.district_id IS 'District within the region; null = the region''s custom group';
+
+ALTER TABLE region_custom_areas ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow public read region_custom_areas" ON region_custom_areas;
+CREATE POLICY "Allow public read region_custom_areas" ON region_custom_areas FOR SELECT USING (true);
+
+DROP POLICY IF EXISTS "Allow public insert region_custom_areas" ON region_custom_areas;
+CREATE POLICY "Allow public insert region_custom_areas" ON region_custom_areas FOR INSERT WITH CHECK (true);
+
+DROP POLICY IF EXISTS "Allow public update region_custom_areas" ON region_custom_areas;
+CREATE POLICY "Allow public update region_custom_areas" ON region_custom_areas FOR UPDATE USING (true);
+
+DROP POLICY IF EXISTS "Allow public delete region_custom_areas" ON region_custom_areas;
+CREATE POLICY "Allow public delete region_custom_areas" ON region_custom_areas FOR DELETE USING (true);
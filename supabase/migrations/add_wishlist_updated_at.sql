@@ -0,0 +1,12 @@
+-- 美食清單：updated_at 用於同時編輯的衝突檢查（樂觀鎖）
+-- The app bumps updated_at on content edits (not on likes) and only applies an edit
+-- when the row still has the updated_at the editor loaded. trips already has updated_at.
+ALTER TABLE public.wishlist_items
+ADD COLUMN IF NOT EXISTS updated_at timestamptz DEFAULT now();
+
+UPDATE public.wishlist_items SET updated_at = created_at WHERE updated_at IS NULL;
+
+UPDATE public.trips SET updated_at = created_at WHERE updated_at IS NULL;
+
+COMMENT ON COLUMN public.wishlist_items.updated_at IS 'Last content edit; compared on update to detect concurrent edits';
+COMMENT ON COLUMN public.trips.updated_at IS 'Last edit; compared on update to detect concurrent edits';